@@ -1,4 +1,4 @@
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { SidebarProvider, SidebarInset } from '@/components/ui/sidebar';
 import { AppSidebar } from './components/layout/AppSidebar';
 import Dashboard from './pages/Dashboard';
@@ -11,6 +11,7 @@ import InvoiceQuote from './pages/InvoiceQuote';
 import QuantChat from './pages/QuantChat';
 import ProfileSetup from './pages/ProfileSetup';
 import NotFound from './pages/NotFound';
+import Forbidden from './pages/Forbidden';
 import { Toaster } from '@/components/ui/toaster';
 import { Toaster as Sonner } from '@/components/ui/sonner';
 import { TooltipProvider } from '@/components/ui/tooltip';
@@ -21,6 +22,7 @@ import UserManagementPage from './pages/UserManagementPage';
 import PayrollDashboard from './components/payroll/PayrollDashboard';
 import { DocumentManagement } from './pages/DocumentManagement';
 import { FinancialsProvider } from './contexts/FinancialsContext';
+import { canAccessRoute } from './lib/permissions';
 
 // ✅ Unified Auth Page (Login + Register)
 import { AuthPage, AuthProvider, useAuth } from './AuthPage';
@@ -30,12 +32,23 @@ import POSScreen from './pages/POS';
 import ProductsPage from './pages/pos/ProductsPage';
 import CreditPaymentsScreen from './pages/pos/CreditPaymentsScreen';
 import CashInScreen from './pages/pos/CashInScreen';
+import ReturnsScreen from './pages/pos/ReturnsScreen';
+import PromotionsScreen from './pages/pos/PromotionsScreen';
+import VarianceScreen from './pages/pos/VarianceScreen';
+import DunningScreen from './pages/pos/DunningScreen';
+import VouchersScreen from './pages/pos/VouchersScreen';
+import LoyaltyScreen from './pages/pos/LoyaltyScreen';
+import StockTakeScreen from './pages/pos/StockTakeScreen';
+import ReorderScreen from './pages/pos/ReorderScreen';
 
 
-// ✅ PrivateRoute wrapper
+// ✅ PrivateRoute wrapper: requires a session and a role allowed for the current path
 const PrivateRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { isAuthenticated } = useAuth();
-  return isAuthenticated ? <>{children}</> : <Navigate to="/login" />;
+  const { isAuthenticated, userRoles } = useAuth();
+  const { pathname } = useLocation();
+  if (!isAuthenticated) return <Navigate to="/login" />;
+  const path = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+  return canAccessRoute(userRoles, path) ? <>{children}</> : <Forbidden />;
 };
 
 const AppContent = () => {
@@ -68,6 +81,14 @@ const AppContent = () => {
             <Route path="/pos/products" element={<PrivateRoute><ProductsPage /></PrivateRoute>} />
             <Route path="/pos/credits" element={<PrivateRoute><CreditPaymentsScreen /></PrivateRoute>} />
             <Route path="/pos/cash" element={<PrivateRoute><CashInScreen /></PrivateRoute>} />
+            <Route path="/pos/returns" element={<PrivateRoute><ReturnsScreen /></PrivateRoute>} />
+            <Route path="/pos/promotions" element={<PrivateRoute><PromotionsScreen /></PrivateRoute>} />
+            <Route path="/pos/variance" element={<PrivateRoute><VarianceScreen /></PrivateRoute>} />
+            <Route path="/pos/reminders" element={<PrivateRoute><DunningScreen /></PrivateRoute>} />
+            <Route path="/pos/vouchers" element={<PrivateRoute><VouchersScreen /></PrivateRoute>} />
+            <Route path="/pos/loyalty" element={<PrivateRoute><LoyaltyScreen /></PrivateRoute>} />
+            <Route path="/pos/stock-take" element={<PrivateRoute><StockTakeScreen /></PrivateRoute>} />
+            <Route path="/pos/reorder" element={<PrivateRoute><ReorderScreen /></PrivateRoute>} />
             {/* END NEW: POS and its nested routes */}
 
             <Route path="/documents" element={<PrivateRoute><DocumentManagement /></PrivateRoute>} />
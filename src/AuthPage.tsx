@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import {
   Card,
   CardContent,
@@ -11,7 +11,21 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/components/ui/use-toast';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2 } from 'lucide-react';
+import { authApi } from '@/api/auth';
+import { configureApiClient, getErrorMessage, isApiError } from '@/utils/apiClient';
+import { canAccessRoute, getDefaultRoute } from '@/lib/permissions';
+import { IDLE_TIMEOUT_MINUTES } from '@/lib/env';
+import {
+  SESSION_END_MESSAGES,
+  getLastActivity,
+  isTokenExpired,
+  markActivity,
+  type LoginRedirectState,
+  type SessionEndReason,
+} from '@/lib/session';
+import { installAuthInterceptor, setUnauthorizedHandler } from '@/utils/authInterceptor';
 
 interface AuthContextType {
   isAuthenticated: boolean;
@@ -19,6 +33,11 @@ interface AuthContextType {
   logout: () => void;
   userRoles: string[];
   userName: string | null;
+  token: string | null;
+  companyName: string | null;
+  branches: string[];
+  activeBranch: string | null;
+  setActiveBranch: (branch: string) => void;
 }
 
 
@@ -32,7 +51,16 @@ export const useAuth = () => {
   return context;
 };
 
+// How often the session is checked for expiry / idleness, and how close to
+// expiry an active user's token is refreshed.
+const SESSION_CHECK_INTERVAL_MS = 30_000;
+const REFRESH_WINDOW_MS = 5 * 60_000;
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'] as const;
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(
     localStorage.getItem('isAuthenticated') === 'true'
   );
@@ -45,20 +73,115 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     localStorage.getItem('userName')
   );
 
+  const [token, setToken] = useState<string | null>(localStorage.getItem('token'));
+
+  const [companyName, setCompanyName] = useState<string | null>(localStorage.getItem('companyName'));
+  const [branches, setBranches] = useState<string[]>(
+    JSON.parse(localStorage.getItem('userBranches') || '[]')
+  );
+  const [activeBranch, setActiveBranchState] = useState<string | null>(
+    localStorage.getItem('activeBranch')
+  );
+
+  // Users who work several tills pick the branch they are selling from; it is
+  // stamped on every sale until changed.
+  const setActiveBranch = (branch: string) => {
+    setActiveBranchState(branch);
+    localStorage.setItem('activeBranch', branch);
+  };
+
+  // Registered during render (not in an effect) so children that fetch on
+  // mount already get the current token injected by the API client.
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
+  configureApiClient({ getToken: () => tokenRef.current });
+
   const login = () => {
     setIsAuthenticated(true);
     setUserRoles(JSON.parse(localStorage.getItem('userRoles') || '[]'));
     setUserName(localStorage.getItem('userName'));
+    setToken(localStorage.getItem('token'));
+    setCompanyName(localStorage.getItem('companyName'));
+    setBranches(JSON.parse(localStorage.getItem('userBranches') || '[]'));
+    setActiveBranchState(localStorage.getItem('activeBranch'));
     localStorage.setItem('isAuthenticated', 'true');
+    markActivity();
   };
 
   const logout = () => {
     setIsAuthenticated(false);
     setUserRoles([]);
     setUserName(null);
+    setToken(null);
+    setCompanyName(null);
+    setBranches([]);
+    setActiveBranchState(null);
+    tokenRef.current = null;
     localStorage.clear();
   };
 
+  // Ends the session and sends the user to /login with a reason to display and
+  // the path to return to once they sign in again.
+  const endSessionRef = useRef<(reason: SessionEndReason) => void>(() => {});
+  endSessionRef.current = (reason: SessionEndReason) => {
+    if (!tokenRef.current && !isAuthenticated) return;
+    const from = `${location.pathname}${location.search}`;
+    logout();
+    const state: LoginRedirectState = { reason, from: from === '/login' ? undefined : from };
+    navigate('/login', { replace: true, state });
+  };
+
+  useEffect(() => {
+    installAuthInterceptor();
+    setUnauthorizedHandler(() => endSessionRef.current('unauthorized'));
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const recordActivity = () => markActivity();
+    ACTIVITY_EVENTS.forEach(evt => window.addEventListener(evt, recordActivity, { passive: true }));
+
+    let refreshing = false;
+    const checkSession = async () => {
+      const current = tokenRef.current;
+      if (isTokenExpired(current)) {
+        endSessionRef.current('expired');
+        return;
+      }
+
+      const idleFor = Date.now() - getLastActivity();
+      if (IDLE_TIMEOUT_MINUTES > 0 && idleFor >= IDLE_TIMEOUT_MINUTES * 60_000) {
+        endSessionRef.current('idle');
+        return;
+      }
+
+      // Only refresh for someone actually using the till; an idle session is
+      // allowed to run out.
+      if (!refreshing && isTokenExpired(current, REFRESH_WINDOW_MS)) {
+        refreshing = true;
+        try {
+          const { token: fresh } = await authApi.refresh();
+          localStorage.setItem('token', fresh);
+          setToken(fresh);
+        } catch {
+          // Endpoint unavailable or token rejected: the expiry check above
+          // forces a re-login once the current token runs out.
+        } finally {
+          refreshing = false;
+        }
+      }
+    };
+
+    checkSession();
+    const interval = window.setInterval(checkSession, SESSION_CHECK_INTERVAL_MS);
+    return () => {
+      window.clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(evt => window.removeEventListener(evt, recordActivity));
+    };
+  }, [isAuthenticated]);
+
   return (
     <AuthContext.Provider
       value={{
@@ -67,6 +190,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         logout,
         userRoles,
         userName,
+        token,
+        companyName,
+        branches,
+        activeBranch,
+        setActiveBranch,
       }}
     >
       {children}
@@ -83,8 +211,10 @@ export function AuthPage() {
   const [isLoading, setIsLoading] = useState(false);
 
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
   const { login } = useAuth();
+  const redirect = (location.state ?? {}) as LoginRedirectState;
 
   const toggleMode = () => {
     setMode(mode === 'login' ? 'register' : 'login');
@@ -95,71 +225,65 @@ export function AuthPage() {
     setIsLoading(true);
 
     try {
-      const endpoint =
-        mode === 'login'
-          ? 'https://quantnow.onrender.com/login'
-          : 'https://quantnow.onrender.com/register';
-
-      const payload =
-        mode === 'login'
-          ? { email, password }
-          : { name, email, password };
-
-      const res = await fetch(endpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
-
-      const data = await res.json();
-
-      if (res.ok) {
-if (mode === 'login') {
-  const user = data.user;
-  const companyId = user.parent_user_id || user.user_id;
- const roles = Array.isArray(user.roles)
-  ? user.roles
-  : typeof user.role === 'string'
-    ? [user.role]
-    : [];
-
-
-  // ✅ Store everything
-  localStorage.setItem('token', data.token);
-  localStorage.setItem('isAuthenticated', 'true');
-  localStorage.setItem('userId', user.user_id);
-  localStorage.setItem('companyId', companyId);
-  localStorage.setItem('userRoles', JSON.stringify(roles));
-  localStorage.setItem('userName', user.name || '');
-
-  login(); // Triggers context update
-  toast({
-    title: '✅ Login Successful',
-    description: `Welcome back, ${user.name || 'User'}!`,
-  });
-
-  navigate('/');
-}
-
-
- else {
+      if (mode === 'login') {
+        const data = await authApi.login({ email, password });
+        const user = data.user;
+        const companyId = user.parent_user_id || user.user_id;
+        const roles = Array.isArray(user.roles)
+          ? user.roles
+          : typeof user.role === 'string'
+            ? [user.role]
+            : [];
+        const home = getDefaultRoute(roles);
+        if (!home) {
           toast({
-            title: '✅ Registration Successful',
-            description: 'You can now log in.',
+            title: '❌ No access',
+            description: 'Your account has no roles yet. Ask your administrator to assign one.',
+            variant: 'destructive',
           });
-          setMode('login');
+          setIsLoading(false);
+          return;
         }
+
+        // ✅ Store everything
+        localStorage.setItem('token', data.token);
+        localStorage.setItem('isAuthenticated', 'true');
+        localStorage.setItem('userId', user.user_id);
+        localStorage.setItem('companyId', companyId);
+        localStorage.setItem('userRoles', JSON.stringify(roles));
+        localStorage.setItem('userName', user.name || '');
+        localStorage.setItem('companyName', user.company_name || '');
+
+        const branches = user.branches?.length ? user.branches : user.branch ? [user.branch] : [];
+        localStorage.setItem('userBranches', JSON.stringify(branches));
+        if (branches.length > 0) localStorage.setItem('activeBranch', branches[0]);
+
+        login(); // Triggers context update
+        toast({
+          title: '✅ Login Successful',
+          description: `Welcome back, ${user.name || 'User'}!`,
+        });
+
+        // Return to the page the session ended on, if this user may open it
+        const returnPath = redirect.from?.split('?')[0];
+        navigate(
+          redirect.from && returnPath && canAccessRoute(roles, returnPath)
+            ? redirect.from
+            : home,
+          { replace: true }
+        );
       } else {
+        await authApi.register({ name, email, password });
         toast({
-          title: '❌ Failed',
-          description: data.error || 'An error occurred.',
-          variant: 'destructive',
+          title: '✅ Registration Successful',
+          description: 'You can now log in.',
         });
+        setMode('login');
       }
     } catch (error) {
       toast({
-        title: '🚨 Error',
-        description: 'Something went wrong.',
+        title: isApiError(error) && !error.isNetworkError ? '❌ Failed' : '🚨 Error',
+        description: getErrorMessage(error, 'An error occurred.'),
         variant: 'destructive',
       });
     }
@@ -181,6 +305,11 @@ if (mode === 'login') {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {redirect.reason && mode === 'login' && (
+            <Alert className="mb-4">
+              <AlertDescription>{SESSION_END_MESSAGES[redirect.reason]}</AlertDescription>
+            </Alert>
+          )}
           <form onSubmit={handleSubmit} className="space-y-4">
             {mode === 'register' && (
               <div className="space-y-2">
@@ -0,0 +1,24 @@
+import { apiClient } from '@/utils/apiClient';
+import type {
+  ApprovalPayload,
+  ApprovalResponse,
+  LoginPayload,
+  LoginResponse,
+  RegisterPayload,
+} from '@/types/auth';
+
+export const authApi = {
+  login: (payload: LoginPayload) =>
+    apiClient.post<LoginResponse>('/login', payload, { auth: false }),
+  register: (payload: RegisterPayload) =>
+    apiClient.post<{ message?: string }>('/register', payload, { auth: false }),
+  /** Exchanges the current (still valid) token for a fresh one. */
+  refresh: () =>
+    apiClient.post<{ token: string }>('/refresh-token'),
+  /**
+   * Checks a manager's credentials and role for a single action without signing them in.
+   * Sent without the teller's token: a 401 for a wrong manager password must not end the teller's session.
+   */
+  approve: (payload: ApprovalPayload) =>
+    apiClient.post<ApprovalResponse>('/approvals', payload, { auth: false }),
+};
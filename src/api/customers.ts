@@ -0,0 +1,11 @@
+import { apiClient } from '@/utils/apiClient';
+import type { CustomerBackend, CustomerFrontend, NewCustomerPayload } from '@/types/pos';
+
+export const customersApi = {
+  list: (search?: string) =>
+    apiClient.get<CustomerFrontend[]>('/api/customers', { params: { search } }),
+  create: (payload: NewCustomerPayload) =>
+    apiClient.post<CustomerFrontend>('/api/customers', payload),
+  /** Same endpoint, typed as the raw snake_case rows the credit screens read. */
+  listRaw: () => apiClient.get<CustomerBackend[]>('/api/customers'),
+};
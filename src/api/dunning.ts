@@ -0,0 +1,26 @@
+import { apiClient } from '@/utils/apiClient';
+import type { DunningLogEntry, DunningLogPayload, DunningSettings, InvoiceSummary } from '@/types/pos';
+
+export const dunningApi = {
+  settings: () => apiClient.get<DunningSettings>('/api/dunning/settings'),
+  saveSettings: (payload: DunningSettings) => apiClient.put<DunningSettings>('/api/dunning/settings', payload),
+  log: (params?: { customerId?: string; from?: string; to?: string }) =>
+    apiClient.get<DunningLogEntry[]>('/api/dunning/log', { params }),
+  recordLog: (payload: DunningLogPayload) => apiClient.post<DunningLogEntry>('/api/dunning/log', payload),
+  invoices: () => apiClient.get<InvoiceSummary[]>('/api/invoices'),
+  /** Reminder for an invoice, through the same endpoint as "send invoice by email". */
+  emailInvoiceReminder: (invoiceId: string, customerEmail: string, subject: string, message: string) =>
+    apiClient.post<{ message?: string }>(`/api/invoices/${invoiceId}/send-pdf-email`, { customerEmail, subject, message }),
+  /** Reminder for a POS credit sale, reusing the receipt email endpoint with a reminder PDF. */
+  emailSaleReminder: (saleId: string, email: string, subject: string, message: string, pdf: Blob) => {
+    const form = new FormData();
+    form.append('email', email);
+    form.append('subject', subject);
+    form.append('message', message);
+    form.append('receipt', pdf, `reminder-${saleId}.pdf`);
+    return apiClient.post<{ message?: string }>(`/api/sales/${saleId}/send-receipt-email`, form);
+  },
+  /** Puts a customer's account on hold (or releases it); held accounts cannot buy on credit. */
+  setHold: (customerId: string, onHold: boolean, reason: string | null) =>
+    apiClient.put<{ message?: string }>(`/api/customers/${customerId}/hold`, { onHold, reason }),
+};
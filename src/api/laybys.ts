@@ -0,0 +1,28 @@
+import { apiClient } from '@/utils/apiClient';
+import type {
+  Layby,
+  LaybyCancelPayload,
+  LaybyCompletePayload,
+  LaybyPayload,
+  LaybyPaymentPayload,
+  LaybyResult,
+  LaybySettings,
+  LaybyStatus,
+  SaleResult,
+} from '@/types/pos';
+
+export const laybyApi = {
+  list: (params?: { status?: LaybyStatus; customerId?: number }) =>
+    apiClient.get<Layby[]>('/api/laybys', { params }),
+  get: (laybyId: number) => apiClient.get<Layby>(`/api/laybys/${laybyId}`),
+  create: (payload: LaybyPayload) => apiClient.post<LaybyResult>('/api/laybys', payload),
+  recordPayment: (laybyId: number, payload: LaybyPaymentPayload) =>
+    apiClient.post<Layby>(`/api/laybys/${laybyId}/payments`, payload),
+  cancel: (laybyId: number, payload: LaybyCancelPayload) =>
+    apiClient.post<Layby>(`/api/laybys/${laybyId}/cancel`, payload),
+  /** Releases the goods: the lay-by becomes a normal, fully paid sale. */
+  complete: (laybyId: number, payload: LaybyCompletePayload) =>
+    apiClient.post<SaleResult>(`/api/laybys/${laybyId}/complete`, payload),
+  settings: () => apiClient.get<LaybySettings>('/api/laybys/settings'),
+  saveSettings: (payload: LaybySettings) => apiClient.put<LaybySettings>('/api/laybys/settings', payload),
+};
@@ -0,0 +1,13 @@
+import { apiClient } from '@/utils/apiClient';
+import type { LoyaltyAdjustPayload, LoyaltyKpis, LoyaltySettings, LoyaltyTransaction } from '@/types/pos';
+
+export const loyaltyApi = {
+  settings: () => apiClient.get<LoyaltySettings>('/api/loyalty/settings'),
+  saveSettings: (payload: LoyaltySettings) => apiClient.put<LoyaltySettings>('/api/loyalty/settings', payload),
+  /** Points ledger for one customer, newest first. */
+  ledger: (customerId: number | string) =>
+    apiClient.get<LoyaltyTransaction[]>(`/api/loyalty/customers/${customerId}/transactions`),
+  adjust: (customerId: number | string, payload: LoyaltyAdjustPayload) =>
+    apiClient.post<LoyaltyTransaction>(`/api/loyalty/customers/${customerId}/adjust`, payload),
+  kpis: (params?: { from?: string; branch?: string }) => apiClient.get<LoyaltyKpis>('/api/loyalty/kpis', { params }),
+};
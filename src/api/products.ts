@@ -0,0 +1,51 @@
+import { apiClient } from '@/utils/apiClient';
+import type {
+  ProductDB,
+  ProductImportPayload,
+  ProductImportResult,
+  ProductPayload,
+  ProductVariantsPayload,
+  RestockPayload,
+} from '@/types/pos';
+import type { Product } from '@/types/type';
+
+export const productsApi = {
+  list: () => apiClient.get<ProductDB[]>('/products-services'),
+  create: (payload: ProductPayload) => apiClient.post<ProductDB>('/products-services', payload),
+  update: (id: number | string, payload: ProductPayload) =>
+    apiClient.put<ProductDB>(`/products-services/${id}`, payload),
+  remove: (id: number | string) => apiClient.delete<void>(`/products-services/${id}`),
+  restock: (id: number | string, payload: RestockPayload) =>
+    apiClient.put<ProductDB>(`/products-services/${id}/stock`, payload),
+  /** Returns the parent's variants after the save. */
+  saveVariants: (id: number | string, payload: ProductVariantsPayload) =>
+    apiClient.put<ProductDB[]>(`/products-services/${id}/variants`, payload),
+  /** Creates or updates products by SKU in one transaction per row. */
+  importProducts: (payload: ProductImportPayload) =>
+    apiClient.post<ProductImportResult>('/products-services/import', payload),
+};
+
+/** Maps a products_services row to the camelCase shape used by ProductsPage. */
+export const mapProductToFrontend = (p: ProductDB): Product => ({
+  id: String(p.id),
+  name: p.name,
+  type: p.is_service ? 'service' : 'product',
+  price: Number(p.unit_price),
+  unitPrice: Number(p.unit_price),
+  purchasePrice: p.cost_price,
+  unitPurchasePrice: p.cost_price,
+  qty: p.stock_quantity,
+  unit: p.unit,
+  availableValue: p.is_service ? p.available_value : undefined,
+  minQty: p.min_quantity,
+  maxQty: p.max_quantity,
+  reorderPoint: p.reorder_point ?? null,
+  leadTimeDays: p.lead_time_days ?? null,
+  preferredSupplierId: p.preferred_supplier_id ?? null,
+  preferredSupplierName: p.preferred_supplier_name ?? null,
+  sku: p.sku,
+  barcode: p.barcode ?? null,
+  parentId: p.parent_id != null ? String(p.parent_id) : null,
+  variantAttributes: p.variant_attributes ?? null,
+  variantOptions: p.variant_options ?? null,
+});
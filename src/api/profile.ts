@@ -0,0 +1,9 @@
+import { apiClient } from '@/utils/apiClient';
+import type { UserProfile, UserProfilePayload } from '@/types/auth';
+
+export const profileApi = {
+  get: () => apiClient.get<UserProfile>('/api/profile'),
+  update: (payload: UserProfilePayload) => apiClient.put<UserProfile>('/api/profile', payload),
+  changePassword: (password: string) =>
+    apiClient.put<{ message?: string }>('/api/profile/password', { password }),
+};
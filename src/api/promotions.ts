@@ -0,0 +1,9 @@
+import { apiClient } from '@/utils/apiClient';
+import type { Promotion, PromotionPayload } from '@/types/pos';
+
+export const promotionsApi = {
+  list: () => apiClient.get<Promotion[]>('/api/promotions'),
+  create: (payload: PromotionPayload) => apiClient.post<Promotion>('/api/promotions', payload),
+  update: (id: number, payload: PromotionPayload) => apiClient.put<Promotion>(`/api/promotions/${id}`, payload),
+  remove: (id: number) => apiClient.delete<void>(`/api/promotions/${id}`),
+};
@@ -0,0 +1,7 @@
+import { apiClient } from '@/utils/apiClient';
+import type { PurchasePayload, Vendor } from '@/types/pos';
+
+export const purchasesApi = {
+  vendors: () => apiClient.get<Vendor[]>('/vendors'),
+  create: (payload: PurchasePayload) => apiClient.post<{ id: string; po_number: string }>('/api/purchases', payload),
+};
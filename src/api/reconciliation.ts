@@ -0,0 +1,45 @@
+import { apiClient } from '@/utils/apiClient';
+import type {
+  CashMovement,
+  CashMovementPayload,
+  ReconciliationPayload,
+  Teller,
+  TellerDayRow,
+  VarianceAlert,
+  VarianceSettings,
+} from '@/types/pos';
+
+type RangeParams = { tellerId: string; from: string; to: string };
+
+// Rows come back with numeric columns as strings; CashInScreen coerces them.
+type RawRow = Record<string, unknown>;
+
+export const reconciliationApi = {
+  tellers: (date: string) => apiClient.get<Teller[]>('/api/tellers', { params: { date } }),
+  expected: (date: string) =>
+    apiClient.get<Record<string, RawRow>>('/api/reconciliation/expected', { params: { date } }),
+  history: (params: RangeParams) =>
+    apiClient.get<{ rows: RawRow[] }>('/api/reconciliation/history', { params }),
+  missedDays: (params: RangeParams) =>
+    apiClient.get<{ rows: RawRow[] }>('/api/reconciliation/missed-days', { params }),
+  shortDays: (params: RangeParams) =>
+    apiClient.get<{ rows: RawRow[]; totals: RawRow }>('/api/reconciliation/short-days', { params }),
+  submit: (payload: ReconciliationPayload) =>
+    apiClient.post<{ message?: string }>('/api/reconciliation/submit', payload),
+  /** Safe drops and pickups for a business day; every teller when tellerId is omitted. */
+  cashMovements: (params: { date: string; tellerId?: string }) =>
+    apiClient.get<CashMovement[]>('/api/reconciliation/cash-movements', { params }),
+  recordCashMovement: (payload: CashMovementPayload) =>
+    apiClient.post<CashMovement>('/api/reconciliation/cash-movements', payload),
+  /** Reconciled and missed days for every teller in range, for the variance view. */
+  analytics: (params: { from: string; to: string }) =>
+    apiClient.get<TellerDayRow[]>('/api/reconciliation/analytics', { params }),
+  varianceSettings: () => apiClient.get<VarianceSettings>('/api/reconciliation/variance-settings'),
+  saveVarianceSettings: (payload: VarianceSettings) =>
+    apiClient.put<VarianceSettings>('/api/reconciliation/variance-settings', payload),
+  // Alerts are raised server-side when a reconciliation breaches tolerance or
+  // a teller passes missedDaysAlert days without one.
+  alerts: (params?: { unacknowledged?: boolean }) =>
+    apiClient.get<VarianceAlert[]>('/api/reconciliation/alerts', { params }),
+  acknowledgeAlert: (id: number) => apiClient.post<VarianceAlert>(`/api/reconciliation/alerts/${id}/acknowledge`),
+};
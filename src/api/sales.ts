@@ -0,0 +1,41 @@
+import { apiClient } from '@/utils/apiClient';
+import type {
+  CreditPaymentPayload,
+  CreditPaymentResult,
+  CustomerStatement,
+  DashboardSaleItem,
+  SaleBackend,
+  SaleDetail,
+  SalePayload,
+  SaleResult,
+  SaleReturnPayload,
+  SaleVoidPayload,
+} from '@/types/pos';
+
+export const salesApi = {
+  create: (payload: SalePayload) => apiClient.post<SaleResult>('/api/sales', payload),
+  dashboardSales: (branch?: string) =>
+    apiClient.get<DashboardSaleItem[]>('/api/dashboard/sales', { params: { branch } }),
+  get: (saleId: number | string) => apiClient.get<SaleDetail>(`/api/sales/${saleId}`),
+  createReturn: (saleId: number, payload: SaleReturnPayload) =>
+    apiClient.post<{ returnId: number; message?: string }>(`/api/sales/${saleId}/returns`, payload),
+  void: (saleId: number, payload: SaleVoidPayload) =>
+    apiClient.post<{ message?: string }>(`/api/sales/${saleId}/void`, payload),
+  /** Emails the receipt PDF generated on the till to the customer. */
+  emailReceipt: (saleId: number | string, email: string, pdf: Blob) => {
+    const form = new FormData();
+    form.append('email', email);
+    form.append('receipt', pdf, `receipt-${saleId}.pdf`);
+    return apiClient.post<{ message?: string }>(`/api/sales/${saleId}/send-receipt-email`, form);
+  },
+};
+
+export const creditApi = {
+  outstanding: () => apiClient.get<SaleBackend[]>('/api/credit-sales'),
+  customerHistory: (customerId: number | string) =>
+    apiClient.get<SaleBackend[]>(`/api/sales/customer/${customerId}/credit-history`),
+  recordPayment: (payload: CreditPaymentPayload) =>
+    apiClient.post<CreditPaymentResult>('/api/credit-payments', payload),
+  statement: (customerId: number | string, params: { from: string; to: string }) =>
+    apiClient.get<CustomerStatement>(`/api/customers/${customerId}/statement`, { params }),
+};
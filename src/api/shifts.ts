@@ -0,0 +1,19 @@
+import { apiClient } from '@/utils/apiClient';
+import type { CloseShiftPayload, OpenShiftPayload, Shift, ShiftReport } from '@/types/pos';
+
+type RangeParams = { tellerId: string; from: string; to: string };
+
+export const shiftsApi = {
+  /** The signed-in teller's open shift, or null. */
+  current: () => apiClient.get<Shift | null>('/api/shifts/current'),
+  open: (payload: OpenShiftPayload) => apiClient.post<Shift>('/api/shifts', payload),
+  xReport: (id: number) => apiClient.get<ShiftReport>(`/api/shifts/${id}/x-report`),
+  /**
+   * Locks the shift and returns its Z-report. The server also records the
+   * day's reconciliation (float excluded) so it shows in the cash-up history.
+   */
+  close: (id: number, payload: CloseShiftPayload) =>
+    apiClient.post<ShiftReport>(`/api/shifts/${id}/close`, payload),
+  zReport: (id: number) => apiClient.get<ShiftReport>(`/api/shifts/${id}/z-report`),
+  list: (params: RangeParams) => apiClient.get<Shift[]>('/api/shifts', { params }),
+};
@@ -0,0 +1,24 @@
+import { apiClient } from '@/utils/apiClient';
+import type {
+  LedgerAccount,
+  ProductVelocity,
+  StockAdjustmentPayload,
+  StockLedgerSettings,
+  StockMovement,
+  StockMovementType,
+} from '@/types/pos';
+
+export const stockApi = {
+  /** Movement history for one product, newest first. */
+  movements: (productId: number | string, params?: { type?: StockMovementType; from?: string; to?: string }) =>
+    apiClient.get<StockMovement[]>(`/api/stock/products/${productId}/movements`, { params }),
+  /** Posts a reason-coded adjustment and its value to the inventory adjustment account. */
+  adjust: (productId: number | string, payload: StockAdjustmentPayload) =>
+    apiClient.post<StockMovement>(`/api/stock/products/${productId}/adjustments`, payload),
+  settings: () => apiClient.get<StockLedgerSettings>('/api/stock/settings'),
+  saveSettings: (payload: StockLedgerSettings) => apiClient.put<StockLedgerSettings>('/api/stock/settings', payload),
+  accounts: () => apiClient.get<LedgerAccount[]>('/accounts'),
+  /** Net units sold per product over the last `days`, from sale and return movements. */
+  velocity: (params: { days: number; branch?: string | null }) =>
+    apiClient.get<ProductVelocity[]>('/api/stock/velocity', { params }),
+};
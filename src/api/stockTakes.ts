@@ -0,0 +1,27 @@
+import { apiClient } from '@/utils/apiClient';
+import type {
+  StockTake,
+  StockTakeCountPayload,
+  StockTakeDecisionPayload,
+  StockTakeDetail,
+  StockTakePayload,
+  StockTakePostResult,
+  StockTakeStatus,
+} from '@/types/pos';
+
+export const stockTakesApi = {
+  list: (params?: { status?: StockTakeStatus }) => apiClient.get<StockTake[]>('/api/stock-takes', { params }),
+  /** Blind sessions come back without expected quantities until counting is closed. */
+  get: (stockTakeId: number) => apiClient.get<StockTakeDetail>(`/api/stock-takes/${stockTakeId}`),
+  /** Opens a session and snapshots the expected quantity of every product in scope. */
+  create: (payload: StockTakePayload) => apiClient.post<StockTakeDetail>('/api/stock-takes', payload),
+  saveCounts: (stockTakeId: number, payload: StockTakeCountPayload) =>
+    apiClient.post<StockTakeDetail>(`/api/stock-takes/${stockTakeId}/counts`, payload),
+  /** Ends counting and moves the session to variance review, with the expected quantities. */
+  close: (stockTakeId: number) => apiClient.post<StockTakeDetail>(`/api/stock-takes/${stockTakeId}/close`, {}),
+  saveDecisions: (stockTakeId: number, payload: StockTakeDecisionPayload) =>
+    apiClient.post<StockTakeDetail>(`/api/stock-takes/${stockTakeId}/decisions`, payload),
+  post: (stockTakeId: number, payload: { postedBy: string | null }) =>
+    apiClient.post<StockTakePostResult>(`/api/stock-takes/${stockTakeId}/post`, payload),
+  cancel: (stockTakeId: number) => apiClient.post<StockTake>(`/api/stock-takes/${stockTakeId}/cancel`, {}),
+};
@@ -0,0 +1,20 @@
+import { apiClient } from '@/utils/apiClient';
+import type { Branch, ManagedUser, NewUserPayload } from '@/types/auth';
+
+export const usersApi = {
+  list: () => apiClient.get<ManagedUser[]>('/users'),
+  create: (payload: NewUserPayload) => apiClient.post<ManagedUser>('/users', payload),
+  update: (id: string, payload: Pick<ManagedUser, 'displayName' | 'email'>) =>
+    apiClient.put<ManagedUser>(`/users/${id}`, payload),
+  updateRoles: (id: string, roles: string[]) =>
+    apiClient.put<{ message?: string }>(`/users/${id}/roles`, { roles }),
+  updateBranches: (id: string, branches: string[]) =>
+    apiClient.put<{ message?: string }>(`/users/${id}/branches`, { branches }),
+  remove: (id: string) => apiClient.delete<void>(`/users/${id}`),
+};
+
+export const branchesApi = {
+  list: () => apiClient.get<Branch[]>('/api/branches'),
+  create: (name: string) => apiClient.post<Branch>('/api/branches', { name }),
+  remove: (id: string) => apiClient.delete<void>(`/api/branches/${id}`),
+};
@@ -0,0 +1,13 @@
+import { apiClient } from '@/utils/apiClient';
+import type { Voucher, VoucherStatus, VoucherTransaction, VoucherVoidPayload } from '@/types/pos';
+
+export const vouchersApi = {
+  list: (params?: { status?: VoucherStatus; search?: string }) =>
+    apiClient.get<Voucher[]>('/api/vouchers', { params }),
+  /** Looks a voucher up by the code printed on it (typed or scanned from the QR). */
+  lookup: (code: string) => apiClient.get<Voucher>(`/api/vouchers/code/${encodeURIComponent(code)}`),
+  transactions: (voucherId: number) =>
+    apiClient.get<VoucherTransaction[]>(`/api/vouchers/${voucherId}/transactions`),
+  void: (voucherId: number, payload: VoucherVoidPayload) =>
+    apiClient.post<Voucher>(`/api/vouchers/${voucherId}/void`, payload),
+};
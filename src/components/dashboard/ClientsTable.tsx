@@ -5,8 +5,7 @@ import { Button } from '@/components/ui/button';
 import { MoreHorizontal, Loader2 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useAuth } from '../../AuthPage'; // Import useAuth
-
-const API_BASE_URL = 'https://quantnow.onrender.com'; // Changed to localhost:3000 based on previous context
+import { apiClient } from '@/utils/apiClient';
 
 interface Client {
   id: string;
@@ -40,17 +39,7 @@ export function ClientsTable() {
     setIsLoading(true);
     setError(null);
     try {
-      const response = await fetch(`${API_BASE_URL}/api/clients`, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-      });
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-      }
-      const data: Client[] = await response.json();
+      const data = await apiClient.get<Client[]>('/api/clients');
       setClients(data);
     } catch (err: any) {
       console.error('Error fetching clients:', err);
@@ -12,8 +12,7 @@ import { motion } from 'framer-motion';
 import { Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '../../AuthPage'; // Import useAuth
-
-const API_BASE_URL = 'https://quantnow.onrender.com'; // Changed to localhost:3000 based on previous context
+import { apiClient } from '@/utils/apiClient';
 
 interface RevenueDataPoint {
   month: string;
@@ -77,19 +76,7 @@ export function DashboardCharts({ startDate, endDate }: { startDate: Date | null
     setRevenueError(null);
     try {
       const queryParams = getPeriodQueryParams();
-      const url = `${API_BASE_URL}/api/charts/revenue-trend${queryParams}`;
-
-      const response = await fetch(url, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-      });
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-      }
-      const data: RevenueDataPoint[] = await response.json();
+      const data = await apiClient.get<RevenueDataPoint[]>(`/api/charts/revenue-trend${queryParams}`);
       setRevenueData(data);
     } catch (err: any) {
       console.error('Error fetching revenue data:', err);
@@ -113,19 +100,7 @@ export function DashboardCharts({ startDate, endDate }: { startDate: Date | null
     setInvoiceError(null);
     try {
       const queryParams = getPeriodQueryParams();
-      const url = `${API_BASE_URL}/api/charts/transaction-volume${queryParams}`;
-
-      const response = await fetch(url, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-      });
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-      }
-      const data: InvoiceDataPoint[] = await response.json();
+      const data = await apiClient.get<InvoiceDataPoint[]>(`/api/charts/transaction-volume${queryParams}`);
       setInvoiceData(data);
     } catch (err: any) {
       console.error('Error fetching invoice data:', err);
@@ -11,8 +11,7 @@ import { Users, Heart, FileText, BarChart3, Loader2 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '../../AuthPage'; // Import useAuth
-
-const API_BASE_URL = 'https://quantnow.onrender.com'; // Changed to localhost:3000 based on previous context
+import { apiClient } from '@/utils/apiClient';
 
 interface StatResponse {
   count?: number;
@@ -74,45 +73,13 @@ export function StatsCards({ startDate, endDate }: { startDate: Date | null, end
     setError(null);
     try {
       const queryParams = getPeriodQueryParams(); // Use the new helper
-      const headers = {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`, // Include the JWT token
-      };
-
-      const [
-        clientsRes,
-        quotesRes,
-        invoicesRes,
-        invoiceValueRes
-      ] = await Promise.all([
-        fetch(`${API_BASE_URL}/api/stats/clients${queryParams}`, { headers }),
-        fetch(`${API_BASE_URL}/api/stats/quotes${queryParams}`, { headers }),
-        fetch(`${API_BASE_URL}/api/stats/invoices${queryParams}`, { headers }),
-        fetch(`${API_BASE_URL}/api/stats/invoice-value${queryParams}`, { headers }),
-      ]);
 
-      // Check each response individually
-      if (!clientsRes.ok) {
-        const errorData = await clientsRes.json();
-        throw new Error(errorData.error || `Failed to fetch clients stats: ${clientsRes.status}`);
-      }
-      if (!quotesRes.ok) {
-        const errorData = await quotesRes.json();
-        throw new Error(errorData.error || `Failed to fetch quotes stats: ${quotesRes.status}`);
-      }
-      if (!invoicesRes.ok) {
-        const errorData = await invoicesRes.json();
-        throw new Error(errorData.error || `Failed to fetch invoices stats: ${invoicesRes.status}`);
-      }
-      if (!invoiceValueRes.ok) {
-        const errorData = await invoiceValueRes.json();
-        throw new Error(errorData.error || `Failed to fetch invoice value stats: ${invoiceValueRes.status}`);
-      }
-
-      const clientData: StatResponse = await clientsRes.json();
-      const quotesData: StatResponse = await quotesRes.json();
-      const invoicesData: StatResponse = await invoicesRes.json();
-      const invoiceValueData: StatResponse = await invoiceValueRes.json();
+      const [clientData, quotesData, invoicesData, invoiceValueData] = await Promise.all([
+        apiClient.get<StatResponse>(`/api/stats/clients${queryParams}`),
+        apiClient.get<StatResponse>(`/api/stats/quotes${queryParams}`),
+        apiClient.get<StatResponse>(`/api/stats/invoices${queryParams}`),
+        apiClient.get<StatResponse>(`/api/stats/invoice-value${queryParams}`),
+      ]);
 
       setClientStats(clientData);
       setQuoteStats(quotesData);
@@ -15,6 +15,10 @@ import { Plus, XCircle, Loader2, ChevronLeft } from 'lucide-react';
 
 import { useToast } from '@/components/ui/use-toast';
 import { useAuth } from '../../AuthPage'; // Import useAuth
+import { apiClient } from '@/utils/apiClient';
+import { discountedLineTotal } from '@/utils/promotions';
+import { variantLabel } from '@/utils/variants';
+import type { VariantAttribute, VariantOptions } from '@/types/pos';
 
 // --- ADD/MOVE THESE INTERFACE DEFINITIONS HERE ---
 // These interfaces are now defined and exported directly from InvoiceForm.tsx
@@ -27,6 +31,7 @@ export interface InvoiceLineItem {
   unit_price: number;
   line_total: number;
   tax_rate: number; // Decimal (e.g., 0.15)
+  discount_percentage?: number; // 0-100, taken off before VAT
 }
 
 export interface Invoice {
@@ -71,6 +76,9 @@ interface ProductService {
   vatRate: number;
   category: string;
   unit: string;
+  parentId?: string | null;
+  variantAttributes?: VariantAttribute[] | null;
+  variantOptions?: VariantOptions | null;
 }
 
 interface Customer {
@@ -85,8 +93,6 @@ interface InvoiceFormProps {
   onSubmitSuccess: () => void;
 }
 
-const API_BASE_URL = 'https://quantnow.onrender.com'; // Define your API base URL
-
 const generateInvoiceNumber = () => {
   const now = new Date();
   const year = now.getFullYear();
@@ -162,17 +168,7 @@ export function InvoiceForm({ invoice, onClose, onSubmitSuccess }: InvoiceFormPr
         return;
       }
       try {
-        const res = await fetch(`${API_BASE_URL}/api/products`, {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`, // Include the JWT token
-          },
-        });
-        if (!res.ok) {
-          const errorData = await res.json();
-          throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
-        }
-        const data: ProductService[] = await res.json();
+        const data = await apiClient.get<ProductService[]>('/api/products');
         setProductsServices(data);
       } catch (error: any) {
         console.error('Failed to fetch products/services:', error);
@@ -206,6 +202,7 @@ export function InvoiceForm({ invoice, onClose, onSubmitSuccess }: InvoiceFormPr
           quantity: parseFloat(item.quantity) || 0,
           unit_price: parseFloat(item.unit_price) || 0,
           tax_rate: parseFloat(item.tax_rate) || 0,
+          discount_percentage: parseFloat(item.discount_percentage) || 0,
           line_total: parseFloat(item.line_total) || 0,
         })) || [],
       });
@@ -214,19 +211,8 @@ export function InvoiceForm({ invoice, onClose, onSubmitSuccess }: InvoiceFormPr
         const fetchInitialCustomer = async () => {
           if (!token) return; // Ensure token exists for this fetch
           try {
-            const res = await fetch(`${API_BASE_URL}/api/customers/${invoice.customer_id}`, {
-              headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${token}`, // Include the JWT token
-              },
-            });
-            if (res.ok) {
-              const data = await res.json();
-              setCustomerSearchQuery(data.name);
-            } else {
-              console.warn(`Customer with ID ${invoice.customer_id} not found.`);
-              setCustomerSearchQuery(invoice.customer_name || '');
-            }
+            const data = await apiClient.get<Customer>(`/api/customers/${invoice.customer_id}`);
+            setCustomerSearchQuery(data.name);
           } catch (err) {
             console.error('Failed to fetch initial customer:', err);
             setCustomerSearchQuery(invoice.customer_name || '');
@@ -260,17 +246,7 @@ export function InvoiceForm({ invoice, onClose, onSubmitSuccess }: InvoiceFormPr
       setIsSearchingCustomers(true);
       setShowCustomerSuggestions(true);
       try {
-        const res = await fetch(`${API_BASE_URL}/api/customers/search?query=${encodeURIComponent(debouncedCustomerSearchQuery)}`, {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`, // Include the JWT token
-          },
-        });
-        if (!res.ok) {
-          const errorData = await res.json();
-          throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
-        }
-        const data: Customer[] = await res.json();
+        const data = await apiClient.get<Customer[]>(`/api/customers/search?query=${encodeURIComponent(debouncedCustomerSearchQuery)}`);
         setCustomerSuggestions(data);
       } catch (error: any) {
         console.error('Failed to fetch customer suggestions:', error);
@@ -354,26 +330,55 @@ export function InvoiceForm({ invoice, onClose, onSubmitSuccess }: InvoiceFormPr
     const updatedItems = [...formData.line_items];
     let itemToUpdate = { ...updatedItems[index] };
 
-    if (['quantity', 'unit_price', 'tax_rate'].includes(field)) {
+    if (['quantity', 'unit_price', 'tax_rate', 'discount_percentage'].includes(field)) {
         const parsedValue = parseFloat(value);
         itemToUpdate[field] = isNaN(parsedValue) ? 0 : parsedValue;
     } else {
       itemToUpdate[field] = value;
     }
 
-    const qty = itemToUpdate.quantity;
-    const price = itemToUpdate.unit_price;
-    const taxRate = itemToUpdate.tax_rate;
-
-    const calculatedLineTotal = qty * price * (1 + taxRate);
-    itemToUpdate.line_total = parseFloat(calculatedLineTotal.toFixed(2));
+    itemToUpdate.line_total = discountedLineTotal(
+      itemToUpdate.quantity,
+      itemToUpdate.unit_price,
+      itemToUpdate.tax_rate,
+      itemToUpdate.discount_percentage
+    );
 
     updatedItems[index] = itemToUpdate;
     setFormData(prev => ({ ...prev, line_items: updatedItems }));
   };
 
+  const variantsOfProduct = (parentId: string) => productsServices.filter(p => p.parentId === parentId);
+  /** The product shown in a line's first picker: a variant's parent, otherwise the product itself. */
+  const parentSelection = (productId: string | null) =>
+    productsServices.find(p => p.id === productId)?.parentId ?? productId;
+
+  const renderVariantSelect = (item: InvoiceLineItem, index: number) => {
+    const parent = productsServices.find(p => p.id === parentSelection(item.product_service_id));
+    if (!parent?.variantAttributes?.length) return null;
+    return (
+      <Select value={item.product_service_id ?? undefined} onValueChange={value => handleProductServiceSelect(index, value)}>
+        <SelectTrigger className='mt-2' aria-label='Variant'>
+          <SelectValue placeholder='Select variant' />
+        </SelectTrigger>
+        <SelectContent>
+          {variantsOfProduct(parent.id).map(v => (
+            <SelectItem key={v.id} value={v.id}>
+              {variantLabel(v.variantOptions, parent.variantAttributes)} ({formData.currency}
+              {(v.price ?? 0).toFixed(2)})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  };
+
   const handleProductServiceSelect = (index: number, productId: string) => {
-    const product = productsServices.find(p => p.id === productId);
+    let product = productsServices.find(p => p.id === productId);
+    // A product with variants is invoiced as one of them; start with the first and let the user change it
+    if (product?.variantAttributes?.length) {
+      product = variantsOfProduct(product.id)[0] ?? product;
+    }
     const updatedItems = [...formData.line_items];
     const item = { ...updatedItems[index] };
 
@@ -383,7 +388,7 @@ export function InvoiceForm({ invoice, onClose, onSubmitSuccess }: InvoiceFormPr
       item.unit_price = product.price;
       item.quantity = item.quantity || 1;
       item.tax_rate = product.vatRate ?? 0.00;
-      item.line_total = parseFloat((item.quantity * item.unit_price * (1 + item.tax_rate)).toFixed(2));
+      item.line_total = discountedLineTotal(item.quantity, item.unit_price, item.tax_rate, item.discount_percentage);
     } else {
       item.product_service_id = null;
       if (updatedItems[index].product_service_id && productsServices.some(p => p.id === updatedItems[index].product_service_id)) {
@@ -392,6 +397,7 @@ export function InvoiceForm({ invoice, onClose, onSubmitSuccess }: InvoiceFormPr
       item.unit_price = 0;
       item.quantity = 0;
       item.tax_rate = 0.00;
+      item.discount_percentage = 0;
       item.line_total = 0;
     }
     updatedItems[index] = item;
@@ -410,6 +416,7 @@ export function InvoiceForm({ invoice, onClose, onSubmitSuccess }: InvoiceFormPr
           unit_price: 0,
           line_total: 0,
           tax_rate: 0.15,
+          discount_percentage: 0,
         },
       ],
     }));
@@ -497,22 +504,12 @@ export function InvoiceForm({ invoice, onClose, onSubmitSuccess }: InvoiceFormPr
         delete payload.customer_name_manual;
     }
 
-    const url = invoice ? `${API_BASE_URL}/api/invoices/${invoice.id}` : `${API_BASE_URL}/api/invoices`;
-    const method = invoice ? 'PUT' : 'POST';
 
     try {
-      const response = await fetch(url, {
-        method: method,
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error occurred.' }));
-        throw new Error(errorData.error || `HTTP error! Status: ${response.status}`);
+      if (invoice) {
+        await apiClient.put(`/api/invoices/${invoice.id}`, payload);
+      } else {
+        await apiClient.post('/api/invoices', payload);
       }
 
       toast({
@@ -707,12 +704,12 @@ export function InvoiceForm({ invoice, onClose, onSubmitSuccess }: InvoiceFormPr
         </CardHeader>
         <CardContent className='space-y-4'>
           {formData.line_items.map((item, index) => (
-            <div key={item.id || index} className='grid grid-cols-1 md:grid-cols-6 gap-3 items-end border-b pb-4 last:border-b-0 last:pb-0'>
+            <div key={item.id || index} className='grid grid-cols-1 md:grid-cols-7 gap-3 items-end border-b pb-4 last:border-b-0 last:pb-0'>
               <div className='md:col-span-2'>
                 <Label htmlFor={`product_service_id-${index}`}>Product/Service</Label>
                 <Select
                   name={`product_service_id-${index}`}
-                  value={item.product_service_id || 'custom-item'}
+                  value={parentSelection(item.product_service_id) || 'custom-item'}
                   onValueChange={value => handleProductServiceSelect(index, value === 'custom-item' ? '' : value)}
                 >
                   <SelectTrigger id={`product_service_id-${index}`}>
@@ -720,13 +717,16 @@ export function InvoiceForm({ invoice, onClose, onSubmitSuccess }: InvoiceFormPr
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="custom-item">Custom Item</SelectItem>
-                    {productsServices.map(ps => (
-                      <SelectItem key={ps.id} value={ps.id}>
-                        {ps.name} ({formData.currency}{(ps.price ?? 0).toFixed(2)})
-                      </SelectItem>
-                    ))}
+                    {productsServices
+                      .filter(ps => !ps.parentId)
+                      .map(ps => (
+                        <SelectItem key={ps.id} value={ps.id}>
+                          {ps.name} ({formData.currency}{(ps.price ?? 0).toFixed(2)})
+                        </SelectItem>
+                      ))}
                   </SelectContent>
                 </Select>
+                {renderVariantSelect(item, index)}
               </div>
               <div>
                 <Label htmlFor={`description-${index}`}>Description</Label>
@@ -767,6 +767,20 @@ export function InvoiceForm({ invoice, onClose, onSubmitSuccess }: InvoiceFormPr
                   required
                 />
               </div>
+              <div>
+                <Label htmlFor={`discount_percentage-${index}`}>Disc. %</Label>
+                <Input
+                  id={`discount_percentage-${index}`}
+                  name='discount_percentage'
+                  type='number'
+                  value={item.discount_percentage ?? 0}
+                  onChange={e => handleLineItemChange(index, 'discount_percentage', e.target.value)}
+                  placeholder='0'
+                  min='0'
+                  max='100'
+                  step='0.01'
+                />
+              </div>
               <div>
                 <Label htmlFor={`tax_rate-${index}`}>Tax Rate</Label>
                 <Select
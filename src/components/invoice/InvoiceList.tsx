@@ -34,8 +34,8 @@ import {
 import { InvoiceForm } from './InvoiceForm';
 import { useToast } from '@/components/ui/use-toast';
 import { useAuth } from '../../AuthPage'; // Import useAuth
-
-const API_BASE_URL = 'https://quantnow.onrender.com';
+import { apiClient } from '@/utils/apiClient';
+import { usePermissions } from '@/hooks/usePermissions';
 
 interface InvoiceLineItem {
     id?: string;
@@ -46,6 +46,7 @@ interface InvoiceLineItem {
     unit_price: number;
     line_total: number;
     tax_rate: number;
+    discount_percentage?: number; // 0-100, taken off before VAT
 }
 export interface Invoice {
     id: string;
@@ -91,6 +92,7 @@ export function InvoiceList() {
     const [invoiceToSendEmail, setInvoiceToSendEmail] = useState<Invoice | null>(null);
 
     const { isAuthenticated } = useAuth(); // Get authentication status
+    const { can } = usePermissions();
     const token = localStorage.getItem('token'); // Retrieve the token
 
     const fetchInvoices = useCallback(async () => {
@@ -103,17 +105,7 @@ export function InvoiceList() {
 
         setIsLoadingList(true);
         try {
-            const response = await fetch(`${API_BASE_URL}/api/invoices`, {
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`, // Include the JWT token
-                },
-            });
-            if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(errorData.message || 'Failed to fetch invoices');
-            }
-            const data: Invoice[] = await response.json();
+            const data = await apiClient.get<Invoice[]>('/api/invoices');
             setInvoices(data.map(inv => ({
                 ...inv,
                 total_amount: parseFloat(inv.total_amount as any) || 0,
@@ -181,17 +173,7 @@ export function InvoiceList() {
         setIsFormLoading(true);
         setShowInvoiceForm(true);
         try {
-            const response = await fetch(`${API_BASE_URL}/api/invoices/${invoice.id}`, {
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`, // Include the JWT token
-                },
-            });
-            if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(errorData.error || 'Failed to fetch invoice details for editing.');
-            }
-            const detailedInvoice: Invoice = await response.json();
+            const detailedInvoice = await apiClient.get<Invoice>(`/api/invoices/${invoice.id}`);
             detailedInvoice.total_amount = parseFloat(detailedInvoice.total_amount as any) || 0;
             detailedInvoice.line_items = detailedInvoice.line_items?.map(item => ({
                 ...item,
@@ -199,6 +181,7 @@ export function InvoiceList() {
                 unit_price: parseFloat(item.unit_price as any) || 0,
                 line_total: parseFloat(item.line_total as any) || 0,
                 tax_rate: parseFloat(item.tax_rate as any) || 0,
+                discount_percentage: Number(item.discount_percentage) || 0,
             })) || [];
 
             setSelectedInvoice(detailedInvoice);
@@ -227,17 +210,7 @@ export function InvoiceList() {
         }
 
         try {
-            const response = await fetch(`${API_BASE_URL}/api/invoices/${invoice.id}`, {
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`, // Include the JWT token
-                },
-            });
-            if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(errorData.error || 'Failed to fetch invoice details');
-            }
-            const detailedInvoice: Invoice = await response.json();
+            const detailedInvoice = await apiClient.get<Invoice>(`/api/invoices/${invoice.id}`);
             detailedInvoice.total_amount = parseFloat(detailedInvoice.total_amount as any) || 0;
             detailedInvoice.line_items = detailedInvoice.line_items?.map(item => ({
                 ...item,
@@ -245,6 +218,7 @@ export function InvoiceList() {
                 unit_price: parseFloat(item.unit_price as any) || 0,
                 line_total: parseFloat(item.line_total as any) || 0,
                 tax_rate: parseFloat(item.tax_rate as any) || 0,
+                discount_percentage: Number(item.discount_percentage) || 0,
             })) || [];
 
             setSelectedInvoice(detailedInvoice);
@@ -276,17 +250,7 @@ export function InvoiceList() {
             let customerEmail = invoice.customer_email;
 
             if (!customerEmail) {
-                const customerResponse = await fetch(`${API_BASE_URL}/api/customers/${invoice.customer_id}`, {
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${token}`, // Include the JWT token
-                    },
-                });
-                if (!customerResponse.ok) {
-                    const errorData = await customerResponse.json();
-                    throw new Error(errorData.error || `Failed to fetch customer details for ${invoice.customer_name}`);
-                }
-                const customerData: Customer = await customerResponse.json();
+                const customerData = await apiClient.get<Customer>(`/api/customers/${invoice.customer_id}`);
                 customerEmail = customerData.email;
             }
 
@@ -325,19 +289,7 @@ export function InvoiceList() {
 
         setEmailProcessingInvoiceId(invoiceToSendEmail.id); // Set the ID for the sending process
         try {
-            const response = await fetch(`${API_BASE_URL}/api/invoices/${invoiceToSendEmail.id}/send-pdf-email`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`, // Include the JWT token
-                },
-                body: JSON.stringify({ customerEmail: emailRecipient }),
-            });
-
-            if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(errorData.error || 'Failed to send invoice email.');
-            }
+            await apiClient.post(`/api/invoices/${invoiceToSendEmail.id}/send-pdf-email`, { customerEmail: emailRecipient });
 
             toast({
                 title: 'Email Sent!',
@@ -376,17 +328,7 @@ export function InvoiceList() {
 
         setDownloadProcessingInvoiceId(invoiceId); // Set the ID for the download process
         try {
-            const response = await fetch(`${API_BASE_URL}/api/invoices/${invoiceId}/pdf`, {
-                headers: {
-                    'Authorization': `Bearer ${token}`, // Include the JWT token
-                },
-            });
-            if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(errorData.error || 'Failed to download invoice PDF.');
-            }
-
-            const blob = await response.blob();
+            const blob = await apiClient.get<Blob>(`/api/invoices/${invoiceId}/pdf`, { responseType: 'blob' });
             const url = window.URL.createObjectURL(blob);
             const a = document.createElement('a');
             a.href = url;
@@ -432,17 +374,7 @@ export function InvoiceList() {
         }
 
         try {
-            const response = await fetch(`${API_BASE_URL}/api/invoices/${invoiceToDelete}`, {
-                method: 'DELETE',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`, // Include the JWT token
-                },
-            });
-            if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(errorData.error || 'Failed to delete invoice');
-            }
+            await apiClient.delete(`/api/invoices/${invoiceToDelete}`);
             setInvoices(prev => prev.filter(inv => inv.id !== invoiceToDelete));
             toast({
                 title: 'Invoice Deleted',
@@ -589,27 +521,29 @@ export function InvoiceList() {
                                                         )}
                                                     </Button>
 
-                                                    <AlertDialog>
-                                                        <AlertDialogTrigger asChild>
-                                                            <Button variant='ghost' size='sm' onClick={() => confirmDeleteInvoice(invoice.id)}>
-                                                                <Trash2 className='h-4 w-4' />
-                                                            </Button>
-                                                        </AlertDialogTrigger>
-                                                        <AlertDialogContent>
-                                                            <AlertDialogHeader>
-                                                                <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
-                                                                <AlertDialogDescription>
-                                                                    Are you sure you want to delete invoice {invoice.invoice_number}? This action cannot be undone.
-                                                                </AlertDialogDescription>
-                                                            </AlertDialogHeader>
-                                                            <AlertDialogFooter>
-                                                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                                                <AlertDialogAction onClick={handleDeleteInvoice}>
-                                                                    Delete
-                                                                </AlertDialogAction>
-                                                            </AlertDialogFooter>
-                                                        </AlertDialogContent>
-                                                    </AlertDialog>
+                                                    {can('invoices.delete') && (
+                                                        <AlertDialog>
+                                                            <AlertDialogTrigger asChild>
+                                                                <Button variant='ghost' size='sm' onClick={() => confirmDeleteInvoice(invoice.id)}>
+                                                                    <Trash2 className='h-4 w-4' />
+                                                                </Button>
+                                                            </AlertDialogTrigger>
+                                                            <AlertDialogContent>
+                                                                <AlertDialogHeader>
+                                                                    <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
+                                                                    <AlertDialogDescription>
+                                                                        Are you sure you want to delete invoice {invoice.invoice_number}? This action cannot be undone.
+                                                                    </AlertDialogDescription>
+                                                                </AlertDialogHeader>
+                                                                <AlertDialogFooter>
+                                                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                                                    <AlertDialogAction onClick={handleDeleteInvoice}>
+                                                                        Delete
+                                                                    </AlertDialogAction>
+                                                                </AlertDialogFooter>
+                                                            </AlertDialogContent>
+                                                        </AlertDialog>
+                                                    )}
                                                 </div>
                                             </TableCell>
                                         </TableRow>
@@ -676,6 +610,7 @@ export function InvoiceList() {
                                                 <TableHead>Description</TableHead>
                                                 <TableHead>Qty</TableHead>
                                                 <TableHead>Unit Price</TableHead>
+                                                <TableHead>Disc.</TableHead>
                                                 <TableHead>Tax Rate</TableHead>
                                                 <TableHead>Line Total</TableHead>
                                             </TableRow>
@@ -687,6 +622,7 @@ export function InvoiceList() {
                                                     <TableCell>{item.description}</TableCell>
                                                     <TableCell>{item.quantity}</TableCell>
                                                     <TableCell>R{(item.unit_price ?? 0).toFixed(2)}</TableCell>
+                                                    <TableCell>{item.discount_percentage ? `${item.discount_percentage}%` : '-'}</TableCell>
                                                     <TableCell>{((item.tax_rate ?? 0) * 100).toFixed(2)}%</TableCell>
                                                     <TableCell>R{(item.line_total ?? 0).toFixed(2)}</TableCell>
                                                 </TableRow>
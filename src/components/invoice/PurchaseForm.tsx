@@ -22,9 +22,10 @@ import {
 } from '@/components/ui/table';
 
 import { useToast } from '@/components/ui/use-toast';
+import { apiClient } from '@/utils/apiClient';
+import { generatePurchaseOrderNumber } from '@/utils/purchases';
 
 // Define API Base URL
-const API_BASE_URL = 'https://quantnow.onrender.com';
 
 // Re-defining interfaces based on your provided backend structure for Purchases
 interface PurchaseLineItem {
@@ -88,21 +89,6 @@ interface PurchaseFormProps {
   onSubmitSuccess: () => void;
 }
 
-// Function to generate a new purchase order number
-const generatePurchaseOrderNumber = () => {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  const day = String(now.getDate()).padStart(2, '0');
-  const hours = String(now.getHours()).padStart(2, '0');
-  const minutes = String(now.getMinutes()).padStart(2, '0');
-  const seconds = String(now.getSeconds()).padStart(2, '0');
-  // Adding a small random number to ensure uniqueness if multiple forms are opened very quickly
-  const randomSuffix = String(Math.floor(Math.random() * 1000)).padStart(3, '0');
-  return `PO-${year}${month}${day}-${hours}${minutes}${seconds}-${randomSuffix}`;
-};
-
-
 export function PurchaseForm({ purchase, onClose, onSubmitSuccess }: PurchaseFormProps) {
   const { toast } = useToast();
 
@@ -164,12 +150,7 @@ export function PurchaseForm({ purchase, onClose, onSubmitSuccess }: PurchaseFor
     const fetchProducts = async () => {
       try {
         // Corrected API path for products (remains /api/products)
-        const res = await fetch(`${API_BASE_URL}/api/products`);
-        if (!res.ok) {
-          const errorData = await res.json();
-          throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
-        }
-        const data: ProductService[] = await res.json();
+        const data = await apiClient.get<ProductService[]>('/api/products');
         setProductsServices(data);
       } catch (error: any) {
         console.error('Failed to fetch products/services:', error);
@@ -184,12 +165,7 @@ export function PurchaseForm({ purchase, onClose, onSubmitSuccess }: PurchaseFor
     const fetchAccounts = async () => {
       try {
         // --- FIX: Using the non-/api/ prefixed endpoint for accounts ---
-        const res = await fetch(`${API_BASE_URL}/accounts`); // Changed to /accounts
-        if (!res.ok) {
-          const errorData = await res.json().catch(() => ({ error: 'Failed to parse error response' })); // Catch JSON parse error
-          throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
-        }
-        const data: Account[] = await res.json();
+        const data = await apiClient.get<Account[]>('/accounts');
         setAccounts(data);
       } catch (error: any) {
         console.error('Failed to fetch accounts:', error);
@@ -229,11 +205,8 @@ export function PurchaseForm({ purchase, onClose, onSubmitSuccess }: PurchaseFor
         const fetchInitialSupplier = async () => {
           try {
             // --- FIX: Using the non-/api/ prefixed endpoint for vendors ---
-            const res = await fetch(`${API_BASE_URL}/vendors/${purchase.vendor_id}`); // Changed to /vendors/:id
-            if (res.ok) {
-              const data = await res.json();
-              setSupplierSearchQuery(data.name); // Initialize supplierSearchQuery
-            }
+            const data = await apiClient.get<Supplier>(`/vendors/${purchase.vendor_id}`);
+            setSupplierSearchQuery(data.name); // Initialize supplierSearchQuery
           } catch (err) {
             console.error('Failed to fetch initial supplier:', err);
           }
@@ -259,12 +232,7 @@ export function PurchaseForm({ purchase, onClose, onSubmitSuccess }: PurchaseFor
       setShowSupplierSuggestions(true);
       try {
         // --- FIX: Fetch all vendors and filter client-side as no /vendors/search endpoint provided ---
-        const res = await fetch(`${API_BASE_URL}/vendors`); // Changed to /vendors (GET all)
-        if (!res.ok) {
-          const errorData = await res.json();
-          throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
-        }
-        const allVendors: Supplier[] = await res.json();
+        const allVendors = await apiClient.get<Supplier[]>('/vendors');
         const filteredVendors = allVendors.filter(vendor =>
           vendor.name.toLowerCase().includes(debouncedSupplierSearchQuery.toLowerCase())
         );
@@ -512,20 +480,12 @@ export function PurchaseForm({ purchase, onClose, onSubmitSuccess }: PurchaseFor
     console.log("Submitting payload:", payload); // Log payload before submission
 
     // --- CRITICAL FIX: Purchase API calls remain with /api/ prefix ---
-    const url = purchase ? `${API_BASE_URL}/api/purchases/${purchase.id}` : `${API_BASE_URL}/api/purchases`; // Using '/api/purchases' endpoint
-    const method = purchase ? 'PUT' : 'POST';
 
     try {
-      const response = await fetch(url, {
-        method: method,
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error occurred.' }));
-        console.error("API Response Error:", errorData); // Log API error response
-        throw new Error(errorData.error || `HTTP error! Status: ${response.status}`);
+      if (purchase) {
+        await apiClient.put(`/api/purchases/${purchase.id}`, payload);
+      } else {
+        await apiClient.post('/api/purchases', payload);
       }
 
       toast({
@@ -582,17 +542,7 @@ export function PurchaseForm({ purchase, onClose, onSubmitSuccess }: PurchaseFor
       console.log("Recording payment payload:", paymentPayload); // Log payment payload
 
       // Corrected API path for recording payment (remains /api/purchases/:id/payment)
-      const response = await fetch(`${API_BASE_URL}/api/purchases/${purchase.id}/payment`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(paymentPayload),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error occurred.' }));
-        console.error("Payment API Response Error:", errorData); // Log payment API error response
-        throw new Error(errorData.error || `HTTP error! Status: ${response.status}`);
-      }
+      await apiClient.post(`/api/purchases/${purchase.id}/payment`, paymentPayload);
 
       toast({
         title: 'Payment Recorded',
@@ -32,9 +32,9 @@ import {
 } from '@/components/ui/alert-dialog';
 import { PurchaseForm } from './PurchaseForm'; // Ensure this path is correct
 import { useToast } from '@/components/ui/use-toast'; // Import useToast
+import { apiClient } from '@/utils/apiClient';
 
 // Define API Base URL
-const API_BASE_URL = 'https://quantnow.onrender.com';
 
 // --- Interfaces to match backend API responses for Purchases ---
 interface PurchaseLineItem {
@@ -86,12 +86,7 @@ export function PurchaseList() {
     setIsLoadingList(true); // Start loading
     try {
       // Corrected API path
-      const response = await fetch(`${API_BASE_URL}/api/purchases`); // Using '/api/purchases' endpoint
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to fetch purchase orders');
-      }
-      const data: Purchase[] = await response.json();
+      const data = await apiClient.get<Purchase[]>('/api/purchases');
       // Ensure total_amount and dates are correctly parsed/formatted
       setPurchases(data.map(po => ({
         ...po,
@@ -146,12 +141,7 @@ export function PurchaseList() {
     setShowPurchaseForm(true); // Show the full-screen form container immediately
     try {
       // Fetch the detailed purchase, including line items
-      const response = await fetch(`${API_BASE_URL}/api/purchases/${purchase.id}`); // Using '/api/purchases/:id' endpoint
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to fetch purchase order details for editing.');
-      }
-      const detailedPurchase: Purchase = await response.json();
+      const detailedPurchase = await apiClient.get<Purchase>(`/api/purchases/${purchase.id}`);
       // Ensure numeric values are parsed correctly for display
       detailedPurchase.total_amount = parseFloat(detailedPurchase.total_amount as any) || 0;
       detailedPurchase.line_items = detailedPurchase.line_items?.map(item => ({
@@ -179,12 +169,7 @@ export function PurchaseList() {
   const handleViewPurchaseClick = async (purchase: Purchase) => {
     try {
       // Corrected API path for single purchase with line items
-      const response = await fetch(`${API_BASE_URL}/api/purchases/${purchase.id}`); // Using '/api/purchases/:id' endpoint
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to fetch purchase order details');
-      }
-      const detailedPurchase: Purchase = await response.json();
+      const detailedPurchase = await apiClient.get<Purchase>(`/api/purchases/${purchase.id}`);
       // Ensure numeric values are parsed correctly for display
       detailedPurchase.total_amount = parseFloat(detailedPurchase.total_amount as any) || 0;
       detailedPurchase.line_items = detailedPurchase.line_items?.map(item => ({
@@ -217,13 +202,7 @@ export function PurchaseList() {
 
     try {
       // Corrected API path for deletion
-      const response = await fetch(`${API_BASE_URL}/api/purchases/${purchaseToDelete}`, { // Using '/api/purchases/:id' DELETE endpoint
-        method: 'DELETE',
-      });
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to delete purchase order');
-      }
+      await apiClient.delete(`/api/purchases/${purchaseToDelete}`);
       // Remove from local state
       setPurchases(prev => prev.filter(po => po.id !== purchaseToDelete));
       toast({
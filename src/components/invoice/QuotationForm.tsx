@@ -15,9 +15,10 @@ import { Plus, XCircle, Loader2, ChevronLeft } from 'lucide-react';
 
 import { useToast } from '@/components/ui/use-toast';
 import { useAuth } from '../../AuthPage'; // Import useAuth
+import { apiClient } from '@/utils/apiClient';
+import { discountedLineTotal } from '@/utils/promotions';
 
 // Define API Base URL
-const API_BASE_URL = 'https://quantnow.onrender.com';
 
 // Re-defining interfaces based on your provided backend structure for Quotations
 interface QuotationLineItem {
@@ -28,6 +29,7 @@ interface QuotationLineItem {
   unit_price: number;
   line_total: number;
   tax_rate: number;
+  discount_percentage?: number; // 0-100, taken off before VAT
 }
 
 interface QuotationFormData {
@@ -158,16 +160,7 @@ export function QuotationForm({ quotation, onClose, onSubmitSuccess }: Quotation
       }
 
       try {
-        const res = await fetch(`${API_BASE_URL}/api/products`, {
-          headers: {
-            'Authorization': `Bearer ${token}`, // Use the retrieved token
-          },
-        });
-        if (!res.ok) {
-          const errorData = await res.json();
-          throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
-        }
-        const data: ProductService[] = await res.json();
+        const data = await apiClient.get<ProductService[]>('/api/products');
         setProductsServices(data);
       } catch (error: any) {
         console.error('Failed to fetch products/services:', error);
@@ -198,6 +191,7 @@ export function QuotationForm({ quotation, onClose, onSubmitSuccess }: Quotation
           quantity: parseFloat(item.quantity || 0) || 0,
           unit_price: parseFloat(item.unit_price || 0) || 0,
           tax_rate: parseFloat(item.tax_rate || 0) || 0, // Tax rate should be decimal from backend
+          discount_percentage: parseFloat(item.discount_percentage || 0) || 0,
           line_total: parseFloat(item.line_total || 0) || 0,
         })) || [],
       });
@@ -207,15 +201,8 @@ export function QuotationForm({ quotation, onClose, onSubmitSuccess }: Quotation
           if (!isAuthenticated || !token) return; // Ensure authenticated and token exists before fetching
 
           try {
-            const res = await fetch(`${API_BASE_URL}/api/customers/${quotation.customer_id}`, {
-              headers: {
-                'Authorization': `Bearer ${token}`, // Use the retrieved token
-              },
-            });
-            if (res.ok) {
-              const data = await res.json();
-              setCustomerSearchQuery(data.name); // Initialize customerSearchQuery
-            }
+            const data = await apiClient.get<Customer>(`/api/customers/${quotation.customer_id}`);
+            setCustomerSearchQuery(data.name); // Initialize customerSearchQuery
           } catch (err) {
             console.error('Failed to fetch initial customer:', err);
           }
@@ -247,16 +234,7 @@ export function QuotationForm({ quotation, onClose, onSubmitSuccess }: Quotation
       setIsSearchingCustomers(true);
       setShowCustomerSuggestions(true); // Show suggestions when searching
       try {
-        const res = await fetch(`${API_BASE_URL}/api/customers/search?query=${debouncedCustomerSearchQuery}`, {
-          headers: {
-            'Authorization': `Bearer ${token}`, // Use the retrieved token
-          },
-        });
-        if (!res.ok) {
-          const errorData = await res.json();
-          throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
-        }
-        const data: Customer[] = await res.json();
+        const data = await apiClient.get<Customer[]>(`/api/customers/search?query=${debouncedCustomerSearchQuery}`);
         setCustomerSuggestions(data);
       } catch (error: any) {
         console.error('Failed to fetch customer suggestions:', error);
@@ -344,7 +322,7 @@ export function QuotationForm({ quotation, onClose, onSubmitSuccess }: Quotation
     if (field === 'tax_rate') {
       const parsedValue = parseFloat(value);
       itemToUpdate[field] = isNaN(parsedValue) ? 0 : parsedValue;
-    } else if (['quantity', 'unit_price'].includes(field)) {
+    } else if (['quantity', 'unit_price', 'discount_percentage'].includes(field)) {
       const parsedValue = parseFloat(value);
       itemToUpdate[field] = isNaN(parsedValue) ? 0 : parsedValue;
     } else {
@@ -352,13 +330,12 @@ export function QuotationForm({ quotation, onClose, onSubmitSuccess }: Quotation
     }
 
     // Recalculate line_total based on potentially updated values
-    const qty = itemToUpdate.quantity;
-    const price = itemToUpdate.unit_price;
-    const taxRate = itemToUpdate.tax_rate;
-
-    // Ensure all components for calculation are numbers
-    const calculatedLineTotal = qty * price * (1 + taxRate);
-    itemToUpdate.line_total = parseFloat(calculatedLineTotal.toFixed(2)); // Ensure 2 decimal places
+    itemToUpdate.line_total = discountedLineTotal(
+      itemToUpdate.quantity,
+      itemToUpdate.unit_price,
+      itemToUpdate.tax_rate,
+      itemToUpdate.discount_percentage
+    );
 
     updatedItems[index] = itemToUpdate;
     setFormData(prev => ({ ...prev, line_items: updatedItems }));
@@ -377,7 +354,7 @@ export function QuotationForm({ quotation, onClose, onSubmitSuccess }: Quotation
       item.tax_rate = product.vatRate ?? 0.00; // Use product's vatRate if available, else 0
 
       // Recalculate line_total after product selection
-      item.line_total = parseFloat((item.quantity * item.unit_price * (1 + item.tax_rate)).toFixed(2));
+      item.line_total = discountedLineTotal(item.quantity, item.unit_price, item.tax_rate, item.discount_percentage);
     } else {
       // This is for "Custom Item" where no product is selected
       item.product_service_id = null;
@@ -388,6 +365,7 @@ export function QuotationForm({ quotation, onClose, onSubmitSuccess }: Quotation
       item.unit_price = 0;
       item.quantity = 0;
       item.tax_rate = 0.00;
+      item.discount_percentage = 0;
       item.line_total = 0;
     }
     updatedItems[index] = item;
@@ -406,6 +384,7 @@ export function QuotationForm({ quotation, onClose, onSubmitSuccess }: Quotation
           unit_price: 0,
           line_total: 0,
           tax_rate: 0.00, // Default to 0% VAT
+          discount_percentage: 0,
         },
       ],
     }));
@@ -500,22 +479,12 @@ export function QuotationForm({ quotation, onClose, onSubmitSuccess }: Quotation
     }
 
     // --- CRITICAL FIX: Add /api/ prefix to the URL ---
-    const url = quotation ? `${API_BASE_URL}/api/quotations/${quotation.id}` : `${API_BASE_URL}/api/quotations`;
-    const method = quotation ? 'PUT' : 'POST';
 
     try {
-      const response = await fetch(url, {
-        method: method,
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Use the retrieved token
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error occurred.' }));
-        throw new Error(errorData.error || `HTTP error! Status: ${response.status}`);
+      if (quotation) {
+        await apiClient.put(`/api/quotations/${quotation.id}`, payload);
+      } else {
+        await apiClient.post('/api/quotations', payload);
       }
 
       toast({
@@ -718,7 +687,7 @@ export function QuotationForm({ quotation, onClose, onSubmitSuccess }: Quotation
         </CardHeader>
         <CardContent className='space-y-4'>
           {formData.line_items.map((item, index) => (
-            <div key={index} className='grid grid-cols-1 md:grid-cols-6 gap-3 items-end border-b pb-4 last:border-b-0 last:pb-0'>
+            <div key={index} className='grid grid-cols-1 md:grid-cols-7 gap-3 items-end border-b pb-4 last:border-b-0 last:pb-0'>
               <div className='md:col-span-2'>
                 <Label htmlFor={`product_service_id-${index}`}>Product/Service</Label>
                 <Select
@@ -782,6 +751,20 @@ export function QuotationForm({ quotation, onClose, onSubmitSuccess }: Quotation
                   disabled={!isAuthenticated || isLoading}
                 />
               </div>
+              <div>
+                <Label htmlFor={`discount_percentage-${index}`}>Disc. %</Label>
+                <Input
+                  id={`discount_percentage-${index}`}
+                  name='discount_percentage'
+                  type='number'
+                  value={item.discount_percentage ?? 0}
+                  onChange={e => handleLineItemChange(index, 'discount_percentage', e.target.value)}
+                  placeholder='0'
+                  min='0'
+                  max='100'
+                  step='0.01'
+                />
+              </div>
               <div>
                 <Label htmlFor={`tax_rate-${index}`}>Tax Rate</Label>
                 <Select
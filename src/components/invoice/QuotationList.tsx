@@ -46,6 +46,7 @@ import { Label } from '@/components/ui/label'; // For form labels
 import { QuotationForm } from '../invoice/QuotationForm'; // Corrected import path
 import { useToast } from '@/components/ui/use-toast'; // Import useToast
 import { useAuth } from '../../AuthPage'; // Corrected import path for useAuth
+import { apiClient, getErrorMessage } from '@/utils/apiClient';
 
 // Declare global jspdf if it's loaded via CDN
 declare global {
@@ -55,7 +56,6 @@ declare global {
 }
 
 // Define API Base URL
-const API_BASE_URL = 'https://quantnow.onrender.com';
 
 // --- Interfaces to match backend API responses for Quotations ---
 interface QuotationLineItem {
@@ -67,6 +67,7 @@ interface QuotationLineItem {
   unit_price: number;
   line_total: number;
   tax_rate: number;
+  discount_percentage?: number; // 0-100, taken off before VAT
 }
 
 interface Quotation {
@@ -100,6 +101,7 @@ interface InvoiceLineItem {
   unit_price: number;
   line_total: number;
   tax_rate: number;
+  discount_percentage?: number; // 0-100, taken off before VAT
 }
 
 interface NewInvoicePayload {
@@ -214,17 +216,7 @@ export function QuotationList() {
 
     setIsLoadingProfile(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/api/profile`, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to fetch user profile');
-      }
-      const data: UserProfile = await response.json();
+      const data = await apiClient.get<UserProfile>('/api/profile');
       console.log('Fetched User Profile:', data); // Log the fetched data
       setUserProfile(data);
     } catch (error: any) {
@@ -250,17 +242,7 @@ export function QuotationList() {
 
     setIsLoadingList(true); // Start loading
     try {
-      const response = await fetch(`${API_BASE_URL}/api/quotations`, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-      });
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to fetch quotations');
-      }
-      const data: Quotation[] = await response.json();
+      const data = await apiClient.get<Quotation[]>('/api/quotations');
       setQuotations(data.map(quo => ({
         ...quo,
         total_amount: parseFloat(quo.total_amount as any) || 0,
@@ -335,17 +317,7 @@ export function QuotationList() {
     setIsFormLoading(true);
     setShowQuotationForm(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/api/quotations/${quotation.id}`, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-      });
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to fetch quotation details for editing.');
-      }
-      const detailedQuotation: Quotation = await response.json();
+      const detailedQuotation = await apiClient.get<Quotation>(`/api/quotations/${quotation.id}`);
       detailedQuotation.total_amount = parseFloat(detailedQuotation.total_amount as any) || 0;
       detailedQuotation.line_items = detailedQuotation.line_items?.map(item => ({
         ...item,
@@ -353,6 +325,7 @@ export function QuotationList() {
         unit_price: parseFloat(item.unit_price as any) || 0,
         line_total: parseFloat(item.line_total as any) || 0,
         tax_rate: parseFloat(item.tax_rate as any) || 0,
+        discount_percentage: Number(item.discount_percentage) || 0,
       })) || [];
 
       setSelectedQuotation(detailedQuotation);
@@ -381,17 +354,7 @@ export function QuotationList() {
     }
 
     try {
-      const response = await fetch(`${API_BASE_URL}/api/quotations/${quotation.id}`, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-      });
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to fetch quotation details');
-      }
-      const detailedQuotation: Quotation = await response.json();
+      const detailedQuotation = await apiClient.get<Quotation>(`/api/quotations/${quotation.id}`);
       detailedQuotation.total_amount = parseFloat(detailedQuotation.total_amount as any) || 0;
       detailedQuotation.line_items = detailedQuotation.line_items?.map(item => ({
         ...item,
@@ -399,6 +362,7 @@ export function QuotationList() {
         unit_price: parseFloat(item.unit_price as any) || 0,
         line_total: parseFloat(item.line_total as any) || 0,
         tax_rate: parseFloat(item.tax_rate as any) || 0,
+        discount_percentage: Number(item.discount_percentage) || 0,
       })) || [];
 
       setSelectedQuotation(detailedQuotation);
@@ -495,22 +459,28 @@ export function QuotationList() {
       yPos += 10; // Space before table
 
       // Line Items Table
-      const tableColumn = ['Item', 'Description', 'Qty', 'Unit Price (R)', 'Tax Rate (%)', 'Line Total (R)'];
+      const tableColumn = ['Item', 'Description', 'Qty', 'Unit Price (R)', 'Disc. (%)', 'Tax Rate (%)', 'Line Total (R)'];
       const tableRows: any[] = [];
       let subtotal = 0;
       let totalTax = 0;
+      let totalDiscount = 0;
 
       quotation.line_items?.forEach(item => {
-        const itemTax = item.quantity * item.unit_price * item.tax_rate;
-        const itemSubtotal = item.quantity * item.unit_price;
+        // VAT is charged on the discounted amount
+        const gross = item.quantity * item.unit_price;
+        const itemDiscount = gross * (item.discount_percentage || 0) / 100;
+        const itemSubtotal = gross - itemDiscount;
+        const itemTax = itemSubtotal * item.tax_rate;
         subtotal += itemSubtotal;
         totalTax += itemTax;
+        totalDiscount += itemDiscount;
 
         tableRows.push([
           item.product_service_name || 'Custom Item',
           item.description,
           item.quantity,
           item.unit_price.toFixed(2),
+          (item.discount_percentage || 0).toFixed(0),
           (item.tax_rate * 100).toFixed(0),
           item.line_total.toFixed(2),
         ]);
@@ -529,8 +499,9 @@ export function QuotationList() {
           1: { cellWidth: 'auto' },
           2: { cellWidth: 15, halign: 'right' },
           3: { cellWidth: 25, halign: 'right' },
-          4: { cellWidth: 20, halign: 'right' },
-          5: { cellWidth: 25, halign: 'right' },
+          4: { cellWidth: 15, halign: 'right' },
+          5: { cellWidth: 20, halign: 'right' },
+          6: { cellWidth: 25, halign: 'right' },
         },
         didDrawPage: function (data: any) {
           // Footer
@@ -546,6 +517,10 @@ export function QuotationList() {
       // Totals Summary
       doc.setFontSize(10);
       doc.setFont(undefined, 'normal');
+      if (totalDiscount > 0) {
+        doc.text(`Discount: -R${totalDiscount.toFixed(2)}`, doc.internal.pageSize.width - 14, yPos, { align: 'right' });
+        yPos += 7;
+      }
       doc.text(`Subtotal: R${subtotal.toFixed(2)}`, doc.internal.pageSize.width - 14, yPos, { align: 'right' });
       yPos += 7;
       doc.text(`Tax: R${totalTax.toFixed(2)}`, doc.internal.pageSize.width - 14, yPos, { align: 'right' });
@@ -612,16 +587,8 @@ export function QuotationList() {
     setSelectedQuotation(quotation); // Set the quotation for the email dialog
     // Fetch customer details to pre-fill email if not already available in quotation list
     try {
-      const customerResponse = await fetch(`${API_BASE_URL}/api/customers/${quotation.customer_id}`, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-      });
-      if (customerResponse.ok) {
-        const customerData: Customer = await customerResponse.json();
-        setEmailRecipient(customerData.email || ''); // Pre-fill with customer's email
-      }
+      const customerData = await apiClient.get<Customer>(`/api/customers/${quotation.customer_id}`);
+      setEmailRecipient(customerData.email || ''); // Pre-fill with customer's email
     } catch (error) {
       console.error('Failed to fetch customer email:', error);
       setEmailRecipient(''); // Fallback if customer email cannot be fetched
@@ -658,24 +625,12 @@ export function QuotationList() {
     try {
       // This endpoint needs to be implemented in your backend for quotations
       // Similar to '/api/invoices/:id/send-pdf-email'
-      const response = await fetch(`${API_BASE_URL}/api/quotations/${selectedQuotation.id}/send-pdf-email`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-        body: JSON.stringify({
-          recipientEmail: emailRecipient,
-          subject: emailSubject,
-          body: emailBody,
-        }),
+      await apiClient.post(`/api/quotations/${selectedQuotation.id}/send-pdf-email`, {
+        recipientEmail: emailRecipient,
+        subject: emailSubject,
+        body: emailBody,
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to send email.');
-      }
-
       toast({
         title: 'Email Sent',
         description: `Quotation ${selectedQuotation.quotation_number} email sent successfully to ${emailRecipient}.`,
@@ -718,17 +673,7 @@ export function QuotationList() {
 
     try {
       // Fetch the detailed quotation, including line items, before conversion
-      const response = await fetch(`${API_BASE_URL}/api/quotations/${quotation.id}`, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-      });
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to fetch detailed quotation for conversion.');
-      }
-      const detailedQuotation: Quotation = await response.json();
+      const detailedQuotation = await apiClient.get<Quotation>(`/api/quotations/${quotation.id}`);
 
       console.log('Detailed Quotation fetched for conversion:', detailedQuotation);
 
@@ -766,37 +711,18 @@ export function QuotationList() {
           unit_price: item.unit_price,
           line_total: item.line_total,
           tax_rate: item.tax_rate,
+          discount_percentage: item.discount_percentage ?? 0,
         })),
       };
 
       console.log('Invoice Payload being sent:', invoicePayload);
 
-      const createInvoiceResponse = await fetch(`${API_BASE_URL}/api/invoices`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-        body: JSON.stringify(invoicePayload),
-      });
-
-      if (!createInvoiceResponse.ok) {
-        const errorData = await createInvoiceResponse.json();
-        throw new Error(errorData.error || 'Failed to create invoice from quotation.');
-      }
-
-      const updateQuotationStatusResponse = await fetch(`${API_BASE_URL}/api/quotations/${quotation.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-        body: JSON.stringify({ ...detailedQuotation, status: 'Invoiced' }),
-      });
+      await apiClient.post('/api/invoices', invoicePayload);
 
-      if (!updateQuotationStatusResponse.ok) {
-        const errorData = await updateQuotationStatusResponse.json();
-        console.warn(`Failed to update quotation status after conversion: ${errorData.error || 'Unknown error'}`);
+      try {
+        await apiClient.put(`/api/quotations/${quotation.id}`, { ...detailedQuotation, status: 'Invoiced' });
+      } catch (err) {
+        console.warn(`Failed to update quotation status after conversion: ${getErrorMessage(err, 'Unknown error')}`);
       }
 
       toast({
@@ -835,17 +761,7 @@ export function QuotationList() {
     }
 
     try {
-      const response = await fetch(`${API_BASE_URL}/api/quotations/${quotationToDelete}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-      });
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to delete quotation');
-      }
+      await apiClient.delete(`/api/quotations/${quotationToDelete}`);
       setQuotations(prev => prev.filter(quo => quo.id !== quotationToDelete));
       toast({
         title: 'Quotation Deleted',
@@ -1044,6 +960,7 @@ export function QuotationList() {
                         <TableHead>Description</TableHead>
                         <TableHead className='text-right'>Qty</TableHead>
                         <TableHead className='text-right'>Unit Price</TableHead>
+                        <TableHead className='text-right'>Disc.</TableHead>
                         <TableHead className='text-right'>Tax Rate</TableHead>
                         <TableHead className='text-right'>Line Total</TableHead>
                       </TableRow>
@@ -1055,6 +972,7 @@ export function QuotationList() {
                           <TableCell>{item.description}</TableCell>
                           <TableCell className='text-right'>{item.quantity}</TableCell>
                           <TableCell className='text-right'>{selectedQuotation.currency} {item.unit_price.toFixed(2)}</TableCell>
+                          <TableCell className='text-right'>{item.discount_percentage ? `${item.discount_percentage}%` : '-'}</TableCell>
                           <TableCell className='text-right'>{(item.tax_rate * 100).toFixed(0)}%</TableCell>
                           <TableCell className='text-right'>{selectedQuotation.currency} {item.line_total.toFixed(2)}</TableCell>
                         </TableRow>
@@ -21,6 +21,14 @@ import {
   ChevronUp,
   ChevronDown,
   ListStartIcon,
+  Undo2,
+  Percent,
+  AlertTriangle,
+  BellRing,
+  Gift,
+  Award,
+  ClipboardList,
+  ShoppingCart,
 } from 'lucide-react';
 import {
   Sidebar,
@@ -40,6 +48,8 @@ import { motion } from 'framer-motion';
 import { MoneyCollectFilled } from '@ant-design/icons';
 import { useToast } from '@/components/ui/use-toast';
 import { useAuth } from '@/AuthPage';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useVarianceAlerts } from '@/hooks/useVarianceAlerts';
 import { List } from 'antd';
 
 // Define an interface for your navigation item data, including optional children for sub-menus
@@ -48,69 +58,57 @@ interface NavigationItem {
   url: string;
   icon: React.ElementType | any;
   children?: NavigationItem[];
-  allowedRoles?: string[];
 }
 
 
-// Hard-coded list of main navigation items with specific role access
+// Main navigation items; role access comes from ROUTE_PERMISSIONS in lib/permissions
 const navigationItems: NavigationItem[] = [
-  // User and ceo roles now have access to all tabs by default
-  { title: 'Dashboard', url: '/', icon: Home, allowedRoles: ['admin', 'ceo', 'manager', 'cashier', 'user'] },
+  { title: 'Dashboard', url: '/', icon: Home },
   {
     title: 'POS Transact',
     url: '/pos',
     icon: CreditCard,
-    // Added 'ceo' and 'user' roles to this item and its children
-    allowedRoles: ['cashier', 'user', 'pos-transact', 'admin'],
-
   },
-  { title: 'Tasks', url: '/tasks', icon: ListStartIcon, allowedRoles: ['manager', 'user', 'tasks', 'admin'] },
-  // Added 'ceo' role
-  { title: 'Transactions', url: '/transactions', icon: CreditCard, allowedRoles: ['manager', 'user', 'transactions', 'admin'] },
-  // Added 'user' role
- 
-  { title: 'Financials', url: '/financials', icon: BarChart3, allowedRoles: ['admin', 'manager', 'financials', 'user'] },
-  // Added 'ceo' and 'user' roles
-  { title: 'Import', url: '/import', icon: Upload, allowedRoles: ['manager', 'import', 'user', 'admin'] },
-  // Added 'user' role
-  { title: 'Data Analytics', url: '/analytics', icon: TrendingUp, allowedRoles: ['admin', 'manager', 'data-analytics', 'user'] },
+  { title: 'Tasks', url: '/tasks', icon: ListStartIcon },
+  { title: 'Transactions', url: '/transactions', icon: CreditCard },
+  { title: 'Financials', url: '/financials', icon: BarChart3 },
+  { title: 'Import', url: '/import', icon: Upload },
+  { title: 'Data Analytics', url: '/analytics', icon: TrendingUp },
 ];
 
-// Hard-coded list of business tools navigation items with specific role access
+// Business tools navigation items
 const businessItems: NavigationItem[] = [
-  // Added 'ceo' role
-  { title: 'Invoice/Quote', url: '/invoice-quote', icon: FileText, allowedRoles: ['manager', 'user', 'invoice', 'admin'] },
-  // Added 'ceo' and 'user' roles
-  { title: 'Payroll', url: '/payroll', icon: Calculator, allowedRoles: ['manager', 'payroll', 'user', 'admin'] },
+  { title: 'Invoice/Quote', url: '/invoice-quote', icon: FileText },
+  { title: 'Payroll', url: '/payroll', icon: Calculator },
   {
     title: 'POS Admin',
     url: '/pos/products',
     icon: CreditCard,
-    // Added 'ceo' and 'user' roles to this item and its children
-    allowedRoles: ['manager', 'pos-admin', 'user', 'ceo'],
     children: [
-      { title: 'Products', url: '/pos/products', icon: Package, allowedRoles: ['manager', 'pos-admin', 'user', 'admin'] },
-      { title: 'Credits', url: '/pos/credits', icon: DollarSign, allowedRoles: ['manager', 'pos-admin', 'user', 'admin'] },
-      { title: 'Cash', url: '/pos/cash', icon: Wallet, allowedRoles: ['manager', 'pos-admin', 'user', 'admin'] },
+      { title: 'Products', url: '/pos/products', icon: Package },
+      { title: 'Credits', url: '/pos/credits', icon: DollarSign },
+      { title: 'Cash', url: '/pos/cash', icon: Wallet },
+      { title: 'Returns', url: '/pos/returns', icon: Undo2 },
+      { title: 'Promotions', url: '/pos/promotions', icon: Percent },
+      { title: 'Variance', url: '/pos/variance', icon: AlertTriangle },
+      { title: 'Reminders', url: '/pos/reminders', icon: BellRing },
+      { title: 'Vouchers', url: '/pos/vouchers', icon: Gift },
+      { title: 'Loyalty', url: '/pos/loyalty', icon: Award },
+      { title: 'Stock Take', url: '/pos/stock-take', icon: ClipboardList },
+      { title: 'Reorder', url: '/pos/reorder', icon: ShoppingCart },
     ],
   },
-  // Added 'user' role
-  { title: 'Projections', url: '/projections', icon: TrendingUp, allowedRoles: ['admin', 'manager', 'projections', 'user'] },
-  // Added 'ceo' and 'user' roles
-  { title: 'Accounting Setup', url: '/accounting', icon: Calculator, allowedRoles: ['admin', 'accountant', 'accounting', 'user', 'ceo'] },
-  // These already had both roles, so no changes were needed
-  { title: 'Document Management', url: '/documents', icon: FolderOpen, allowedRoles: ['admin', 'manager', 'user', 'cashier', 'accountant', 'ceo', 'documents'] },
-  { title: 'Qx Chat', url: '/quant-chat', icon: MessageSquare, allowedRoles: ['admin', 'manager', 'user', 'cashier', 'accountant', 'ceo', 'chat'] },
+  { title: 'Projections', url: '/projections', icon: TrendingUp },
+  { title: 'Accounting Setup', url: '/accounting', icon: Calculator },
+  { title: 'Document Management', url: '/documents', icon: FolderOpen },
+  { title: 'Qx Chat', url: '/quant-chat', icon: MessageSquare },
 ];
 
-// Hard-coded list of setup navigation items with specific role access
+// Setup navigation items
 const setupItems: NavigationItem[] = [
-  // Added 'user' role
-  { title: 'User Management', url: '/user-management', icon: Users, allowedRoles: ['admin', 'ceo', 'user-management', 'user'] },
-  // Added 'ceo' and 'user' roles
-  { title: 'Personel Setup', url: '/personel-setup', icon: Users, allowedRoles: ['admin', 'manager', 'personel-setup', 'user', 'ceo'] },
-  // Added 'ceo' role
-  { title: 'Profile Setup', url: '/profile-setup', icon: Settings, allowedRoles: ['admin', 'user', 'profile-setup', 'ceo'] },
+  { title: 'User Management', url: '/user-management', icon: Users },
+  { title: 'Personel Setup', url: '/personel-setup', icon: Users },
+  { title: 'Profile Setup', url: '/profile-setup', icon: Settings },
 ];
 
 export function AppSidebar() {
@@ -119,7 +117,19 @@ export function AppSidebar() {
   const navigate = useNavigate();
   const { toast } = useToast();
   // Get the user name and role from the authentication context
-  const { logout, userName, userRoles } = useAuth();
+  const { logout, userName, userRoles, isAuthenticated } = useAuth();
+  const { can, canAccess } = usePermissions();
+
+  // Managers get a toast when a teller breaches variance tolerance or skips
+  // reconciliation; the open count is shown on the Variance menu entry.
+  const { alerts: varianceAlerts } = useVarianceAlerts(isAuthenticated && can('variance.alerts'), fresh =>
+    toast({
+      title: fresh.length === 1 ? 'Cash-up alert' : `${fresh.length} cash-up alerts`,
+      description: fresh.map(a => `${a.tellerName}: ${a.message}`).join('; '),
+      variant: 'destructive',
+    })
+  );
+  const badges: Record<string, number> = { '/pos/variance': varianceAlerts.length };
 
   const currentPath = location.pathname;
 
@@ -152,15 +162,12 @@ export function AppSidebar() {
   };
 
   /**
-   * Determines if the current user has access to a navigation item based on their roles.
-   * @param allowedRoles The list of roles that are allowed to access the item.
-   * @returns true if the user has access, false otherwise.
+   * Determines if the current user has access to a navigation item using the
+   * shared route permission map. Parents with children are shown when any
+   * child route is accessible.
    */
-const hasAccess = (allowedRoles: string[] = []) => {
-  if (!userRoles || userRoles.length === 0) return false;
-  return userRoles.some(role => allowedRoles.includes(role));
-};
-  
+  const hasAccess = (item: NavigationItem): boolean =>
+    item.children ? item.children.some(hasAccess) : canAccess(item.url);
 
   const renderSubMenu = (item: NavigationItem, isOpen: boolean, setIsOpen: (val: boolean) => void) => (
     <motion.div
@@ -172,7 +179,7 @@ const hasAccess = (allowedRoles: string[] = []) => {
       <SidebarMenuItem>
         <SidebarMenuButton asChild>
           <NavLink
-            to={item.url}
+            to={item.children?.find(hasAccess)?.url ?? item.url}
             onClick={() => setIsOpen(!isOpen)}
             className={({ isActive }) => getNavCls(isActive || currentPath.startsWith(item.url))}
           >
@@ -196,7 +203,7 @@ const hasAccess = (allowedRoles: string[] = []) => {
           className="overflow-hidden"
         >
           <div className="pl-6 py-1">
-            {item.children?.filter((child) => hasAccess(child.allowedRoles)).map((child, childIndex) => (
+            {item.children?.filter(hasAccess).map((child, childIndex) => (
               <motion.div
                 key={child.title}
                 initial={{ opacity: 0, x: -10 }}
@@ -210,7 +217,12 @@ const hasAccess = (allowedRoles: string[] = []) => {
                       className={({ isActive }) => getNavCls(isActive)}
                     >
                       <child.icon className='h-5 w-5' />
-                      {state === 'expanded' && <span>{child.title}</span>}
+                      {state === 'expanded' && <span className="flex-1">{child.title}</span>}
+                      {state === 'expanded' && badges[child.url] > 0 && (
+                        <span className="ml-auto rounded-full bg-red-600 px-2 text-xs font-bold text-white">
+                          {badges[child.url]}
+                        </span>
+                      )}
                     </NavLink>
                   </SidebarMenuButton>
                 </SidebarMenuItem>
@@ -277,7 +289,7 @@ const hasAccess = (allowedRoles: string[] = []) => {
           <SidebarGroupContent>
             <SidebarMenu>
               {navigationItems
-  .filter((item) => hasAccess(item.allowedRoles))
+  .filter(hasAccess)
   .map((item, index) => {
     if (item.children) {
       return renderSubMenu(item, isPosSubMenuOpen, setIsPosSubMenuOpen);
@@ -298,7 +310,7 @@ const hasAccess = (allowedRoles: string[] = []) => {
           <SidebarGroupContent>
             <SidebarMenu>
               {businessItems
-  .filter((item) => hasAccess(item.allowedRoles))
+  .filter(hasAccess)
   .map((item, index) => {
     if (item.children) {
       return renderSubMenu(item, isPosAdminSubMenuOpen, setIsPosAdminSubMenuOpen);
@@ -319,7 +331,7 @@ const hasAccess = (allowedRoles: string[] = []) => {
           <SidebarGroupContent>
             <SidebarMenu>
               {setupItems
-  .filter((item) => hasAccess(item.allowedRoles))
+  .filter(hasAccess)
   .map((item, index) =>
     renderMenuItem(item, index, setupItems.length, navigationItems.length + businessItems.length)
   )}
@@ -21,11 +21,10 @@ import { Header } from '../layout/Header';
 import { Loader2 } from 'lucide-react';
 import { useAuth } from '../../AuthPage';
 import type { Employee } from '../../types/payroll'; // Import Employee from the consolidated payroll types file
+import { apiClient } from '@/utils/apiClient';
 
 const { Title } = Typography;
 
-const API_BASE_URL = 'https://quantnow.onrender.com'; // Define your API base URL
-
 const PayrollDashboard: React.FC = () => {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
@@ -37,10 +36,6 @@ const PayrollDashboard: React.FC = () => {
   const { isAuthenticated } = useAuth();
   const token = localStorage.getItem('token');
 
-  const getAuthHeaders = useCallback(() => {
-    return token ? { 'Authorization': `Bearer ${token}` } : {};
-  }, [token]);
-
   // Function to fetch employees from the backend
   const fetchEmployees = useCallback(async () => {
     if (!isAuthenticated || !token) {
@@ -54,17 +49,7 @@ const PayrollDashboard: React.FC = () => {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch(`${API_BASE_URL}/employees`, {
-        headers: {
-          'Content-Type': 'application/json',
-          ...getAuthHeaders(), // Include the JWT token
-        },
-      });
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-      }
-      const data: Employee[] = await response.json();
+      const data = await apiClient.get<Employee[]>('/employees');
       setEmployees(data);
     } catch (err: any) {
       console.error('Error fetching employees:', err);
@@ -73,7 +58,7 @@ const PayrollDashboard: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [getAuthHeaders, isAuthenticated, token]);
+  }, [isAuthenticated, token]);
 
   useEffect(() => {
     if (isAuthenticated && token) {
@@ -24,6 +24,7 @@ import {
 import { motion } from 'framer-motion';
 import dayjs from 'dayjs';
 import { useAuth } from '../../AuthPage'; // Import useAuth
+import { apiClient } from '@/utils/apiClient';
 
 // Define the Employee and TimeEntry types to match your backend API structure
 // Assuming Employee.id is a string (UUID)
@@ -70,8 +71,6 @@ interface TimeTrackingProps {
   onUpdateEmployeeHours: () => Promise<void>; // Callback to update employee hours in parent
 }
 
-const API_BASE_URL = 'https://quantnow.onrender.com'; // Define your API base URL
-
 const TimeTracking: React.FC<TimeTrackingProps> = ({
   employees,
   onTimeEntryActionSuccess,
@@ -103,20 +102,10 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
       // For now, we'll iterate through employees to fetch their entries.
       for (const employee of employees) {
         try {
-          const response = await fetch(`${API_BASE_URL}/employees/${employee.id}/time-entries`, {
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${token}`, // Include the JWT token
-            },
-          });
-          if (!response.ok) {
-            console.warn(`Failed to fetch time entries for employee ${employee.id}: ${response.status}`);
-            continue;
-          }
-          const data: TimeEntry[] = await response.json();
+          const data = await apiClient.get<TimeEntry[]>(`/employees/${employee.id}/time-entries`);
           allEntries = allEntries.concat(data);
         } catch (innerError) {
-          console.error(`Error fetching time entries for employee ${employee.id}:`, innerError);
+          console.warn(`Failed to fetch time entries for employee ${employee.id}:`, innerError);
         }
       }
       setTimeEntries(allEntries);
@@ -156,23 +145,8 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
 
       console.log("2. Sending payload to backend:", payload);
 
-      const response = await fetch(`${API_BASE_URL}/employees/${values.employeeId}/time-entries`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-        body: JSON.stringify(payload)
-      });
-
-      console.log("3. Backend response status:", response.status);
-      const responseData = await response.json();
-      console.log("4. Backend response data:", responseData);
-
-
-      if (!response.ok) {
-        throw new Error(responseData.error || `Failed to add time entry: ${response.status}`);
-      }
+      const responseData = await apiClient.post(`/employees/${values.employeeId}/time-entries`, payload);
+      console.log("3. Backend response data:", responseData);
 
       form.resetFields();
       setIsModalVisible(false);
@@ -199,19 +173,7 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
     setIsLoading(true);
     try {
       // Step 1: Update Time Entry status in backend
-      const timeEntryUpdateResponse = await fetch(`${API_BASE_URL}/time-entries/${entryId}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-        body: JSON.stringify({ status: 'approved' })
-      });
-
-      if (!timeEntryUpdateResponse.ok) {
-        const errorData = await timeEntryUpdateResponse.json().catch(() => ({ error: 'Unknown error.' }));
-        throw new Error(errorData.error || `Failed to approve time entry: ${timeEntryUpdateResponse.status}`);
-      }
+      await apiClient.put(`/time-entries/${entryId}`, { status: 'approved' });
 
       // Step 2: Update Employee's total hours in backend
       const employee = employees.find(emp => emp.id === employeeId);
@@ -242,17 +204,7 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
 
     setIsLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/time-entries/${entryId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error occurred.' }));
-        throw new Error(errorData.error || `Failed to reject time entry: ${response.status}`);
-      }
+      await apiClient.delete(`/time-entries/${entryId}`);
 
       setTimeEntries(prev => prev.filter(e => e.id !== entryId));
       message.info('Time entry rejected and removed.');
@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from 'react';
+import { Alert, Modal } from 'antd';
+
+// BarcodeDetector ships in Chromium-based browsers but is not yet in the DOM lib typings.
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorInstance;
+
+const FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'code_39', 'qr_code'];
+const SCAN_INTERVAL_MS = 250;
+
+interface CameraScannerProps {
+  open: boolean;
+  onClose: () => void;
+  onDetected: (code: string) => void;
+}
+
+/** Fallback scanner for tills without a USB scanner, using the device camera. */
+export default function CameraScanner({ open, onClose, onDetected }: CameraScannerProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    if (!open) return;
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector) {
+      setError('Camera scanning is not supported in this browser. Use a USB scanner or type the SKU.');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+    const detector = new Detector({ formats: FORMATS });
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      try {
+        const [barcode] = await detector.detect(video);
+        if (barcode?.rawValue && !cancelled) {
+          onDetectedRef.current(barcode.rawValue);
+          return;
+        }
+      } catch (err) {
+        console.warn('Barcode detection failed:', err);
+      }
+      timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    setError(null);
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async media => {
+        stream = media;
+        if (cancelled || !videoRef.current) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = media;
+        await videoRef.current.play();
+        scan();
+      })
+      .catch(err => {
+        console.error('Could not open camera:', err);
+        setError('Could not open the camera. Check the browser permission and try again.');
+      });
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [open]);
+
+  return (
+    <Modal open={open} onCancel={onClose} footer={null} title='Scan with camera' destroyOnClose>
+      {error ? (
+        <Alert type='warning' showIcon message={error} />
+      ) : (
+        <video ref={videoRef} muted playsInline style={{ width: '100%', borderRadius: 4, background: '#000' }} />
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,77 @@
+import { Button, Modal, Space } from 'antd';
+import { FilePdfOutlined, PrinterOutlined } from '@ant-design/icons';
+import { escapeHtml, printHtml } from '@/utils/printFrame';
+import { creditPaymentRows, creditPaymentToPdf } from '@/utils/creditAllocation';
+import type { CreditPaymentReceipt } from '@/types/pos';
+
+const receiptCss = `
+  @page { size: 80mm auto; margin: 0; }
+  body { margin: 0; }
+  .payment-receipt { width: 74mm; padding: 3mm; font: 12px/1.4 'Courier New', monospace; color: #000; }
+  .payment-receipt h3 { text-align: center; margin: 0 0 6px; font-size: 14px; }
+  .payment-receipt .row { display: flex; justify-content: space-between; gap: 6px; white-space: pre; }
+  .payment-receipt .strong { font-weight: bold; }
+  .payment-receipt hr { border: 0; border-top: 1px dashed #000; margin: 4px 0; }
+`;
+
+interface CreditPaymentReceiptModalProps {
+  receipt: CreditPaymentReceipt | null;
+  onClose: () => void;
+}
+
+/** Receipt for a payment on account, showing which sales it settled. */
+export default function CreditPaymentReceiptModal({ receipt, onClose }: CreditPaymentReceiptModalProps) {
+  if (!receipt) return null;
+
+  const blocks = creditPaymentRows(receipt);
+
+  const html = () => {
+    const body = blocks
+      .map(block =>
+        block
+          .map(
+            row =>
+              `<div class="row${row.strong ? ' strong' : ''}"><span>${escapeHtml(row.label)}</span><span>${escapeHtml(row.value)}</span></div>`
+          )
+          .join('')
+      )
+      .join('<hr />');
+    return `<div class="payment-receipt"><h3>PAYMENT RECEIPT</h3>${body}</div>`;
+  };
+
+  return (
+    <Modal
+      open
+      onCancel={onClose}
+      title='Payment received'
+      width={420}
+      footer={
+        <Space>
+          <Button icon={<PrinterOutlined />} onClick={() => printHtml('Payment receipt', receiptCss, html())}>Print</Button>
+          <Button icon={<FilePdfOutlined />} onClick={() => creditPaymentToPdf(receipt).save(`payment-${receipt.paymentId}.pdf`)}>
+            PDF
+          </Button>
+          <Button type='primary' onClick={onClose}>Done</Button>
+        </Space>
+      }
+    >
+      <style>{receiptCss}</style>
+      <div style={{ display: 'flex', justifyContent: 'center', border: '1px solid #eee', maxHeight: 480, overflowY: 'auto' }}>
+        <div className='payment-receipt'>
+          <h3>PAYMENT RECEIPT</h3>
+          {blocks.map((block, b) => (
+            <div key={b}>
+              {b > 0 && <hr />}
+              {block.map((row, i) => (
+                <div key={i} className={`row${row.strong ? ' strong' : ''}`}>
+                  <span>{row.label}</span>
+                  <span>{row.value}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button, DatePicker, Empty, Modal, Space, Spin, Table, Typography, message } from 'antd';
+import { FilePdfOutlined } from '@ant-design/icons';
+import dayjs, { Dayjs } from 'dayjs';
+import { creditApi } from '@/api/sales';
+import { getErrorMessage } from '@/utils/apiClient';
+import { statementLines, statementTotals, statementsToPdf } from '@/utils/statements';
+import type { CustomerStatement } from '@/types/pos';
+import type { ReceiptCompany } from '@/types/receipt';
+import { money } from '@/utils/money';
+
+const { Text } = Typography;
+const { RangePicker } = DatePicker;
+
+interface CustomerStatementModalProps {
+  customer: { id: number; name: string } | null;
+  company: ReceiptCompany;
+  onClose: () => void;
+}
+
+/** Statement of account for one customer over a date range, with PDF download. */
+export default function CustomerStatementModal({ customer, company, onClose }: CustomerStatementModalProps) {
+  const [messageApi, contextHolder] = message.useMessage();
+  const [range, setRange] = useState<[Dayjs, Dayjs]>([dayjs().startOf('month'), dayjs()]);
+  const [statement, setStatement] = useState<CustomerStatement | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fromStr = range[0].format('YYYY-MM-DD');
+  const toStr = range[1].format('YYYY-MM-DD');
+
+  const loadStatement = useCallback(async () => {
+    if (!customer) return;
+    setLoading(true);
+    try {
+      const data = await creditApi.statement(customer.id, { from: fromStr, to: toStr });
+      setStatement({ ...data, openingBalance: Number(data.openingBalance) || 0 });
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to load the statement.'));
+      setStatement(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [customer, fromStr, toStr, messageApi]);
+
+  useEffect(() => {
+    loadStatement();
+  }, [loadStatement]);
+
+  if (!customer) return null;
+
+  const totals = statement ? statementTotals(statement) : null;
+
+  return (
+    <Modal
+      open
+      onCancel={onClose}
+      title={`Statement: ${customer.name}`}
+      width={760}
+      footer={
+        <Space>
+          <Button
+            icon={<FilePdfOutlined />}
+            disabled={!statement}
+            onClick={() =>
+              statement && statementsToPdf([statement], company).save(`statement-${customer.id}-${fromStr}-${toStr}.pdf`)
+            }
+          >
+            PDF
+          </Button>
+          <Button type='primary' onClick={onClose}>Done</Button>
+        </Space>
+      }
+    >
+      {contextHolder}
+      <RangePicker
+        allowClear={false}
+        value={range}
+        onChange={vals => {
+          if (!vals || !vals[0] || !vals[1]) return;
+          setRange([vals[0], vals[1]]);
+        }}
+        style={{ marginBottom: 12 }}
+      />
+      <Spin spinning={loading}>
+        {!statement ? (
+          <Empty description='No statement loaded' />
+        ) : (
+          <>
+            <Table
+              rowKey={r => `${r.date}-${r.type}-${r.reference}`}
+              size='small'
+              pagination={false}
+              scroll={{ y: 320 }}
+              dataSource={statementLines(statement)}
+              columns={[
+                { title: 'Date', dataIndex: 'date', render: (d: string) => d.slice(0, 10), width: 100 },
+                { title: 'Reference', dataIndex: 'reference', width: 110 },
+                { title: 'Description', dataIndex: 'description', ellipsis: true },
+                { title: 'Debit', dataIndex: 'debit', align: 'right', render: (v: number) => (v ? money(Number(v)) : '') },
+                { title: 'Credit', dataIndex: 'credit', align: 'right', render: (v: number) => (v ? money(Number(v)) : '') },
+                { title: 'Balance', dataIndex: 'balance', align: 'right', render: (v: number) => money(v) },
+              ]}
+            />
+            {totals && (
+              <div style={{ marginTop: 10, display: 'flex', justifyContent: 'space-between' }}>
+                <Text>Opening: <b>{money(statement.openingBalance)}</b></Text>
+                <Text>Sales: <b>{money(totals.debits)}</b></Text>
+                <Text>Payments &amp; credits: <b>{money(totals.credits)}</b></Text>
+                <Text>Closing: <b>{money(totals.closingBalance)}</b></Text>
+              </div>
+            )}
+          </>
+        )}
+      </Spin>
+    </Modal>
+  );
+}
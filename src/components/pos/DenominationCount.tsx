@@ -0,0 +1,59 @@
+import { Col, InputNumber, Row, Typography } from 'antd';
+import { CURRENCY_SETS, denominationLabel, denominationTotal, type CurrencySet } from '@/utils/denominations';
+import type { DenominationCounts } from '@/types/pos';
+
+const { Text } = Typography;
+
+interface DenominationCountProps {
+  value: DenominationCounts;
+  onChange: (value: DenominationCounts) => void;
+  currency?: CurrencySet;
+  disabled?: boolean;
+}
+
+/** Note and coin counting grid; the total is what was counted. */
+export default function DenominationCount({
+  value,
+  onChange,
+  currency = CURRENCY_SETS.ZAR,
+  disabled,
+}: DenominationCountProps) {
+  const setCount = (denomination: number, count: number | null) =>
+    onChange({ ...value, [String(denomination)]: Math.max(0, Math.floor(count ?? 0)) });
+
+  return (
+    <>
+      <Row gutter={[8, 6]}>
+        {currency.denominations.map(denomination => {
+          const count = value[String(denomination)] ?? 0;
+          return (
+            <Col span={12} key={denomination}>
+              <Row align='middle' gutter={6}>
+                <Col flex='48px'>
+                  <Text strong>{denominationLabel(denomination, currency.symbol)}</Text>
+                </Col>
+                <Col flex='1 1 auto'>
+                  <InputNumber
+                    min={0}
+                    precision={0}
+                    value={count || null}
+                    placeholder='0'
+                    onChange={v => setCount(denomination, v)}
+                    style={{ width: '100%' }}
+                    disabled={disabled}
+                  />
+                </Col>
+                <Col flex='72px' style={{ textAlign: 'right' }}>
+                  <Text type='secondary'>{currency.symbol}{(denomination * count).toFixed(2)}</Text>
+                </Col>
+              </Row>
+            </Col>
+          );
+        })}
+      </Row>
+      <div style={{ textAlign: 'right', marginTop: 10 }}>
+        <Text strong>Counted: {currency.symbol}{denominationTotal(value).toFixed(2)}</Text>
+      </div>
+    </>
+  );
+}
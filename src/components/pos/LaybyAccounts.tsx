@@ -0,0 +1,451 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Button,
+  Col,
+  Form,
+  Input,
+  InputNumber,
+  Modal,
+  Popconfirm,
+  Row,
+  Segmented,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Typography,
+  message,
+} from 'antd';
+import { FilePdfOutlined, SettingOutlined } from '@ant-design/icons';
+import { useAuth, getUserId } from '../../AuthPage';
+import { laybyApi } from '@/api/laybys';
+import { usePermissions } from '@/hooks/usePermissions';
+import { getErrorMessage } from '@/utils/apiClient';
+import { DEFAULT_LAYBY_SETTINGS, cancellationFee, laybyBalance, laybyToPdf, nextInstalment } from '@/utils/layby';
+import type { AccountPaymentMethod, Layby, LaybyCancelPayload, LaybySettings, LaybyStatus } from '@/types/pos';
+import type { ReceiptCompany } from '@/types/receipt';
+import { money, round2 } from '@/utils/money';
+
+const { Text } = Typography;
+
+const STATUS_COLORS: Record<LaybyStatus, string> = { active: 'blue', completed: 'green', cancelled: 'default' };
+
+interface LaybyAccountsProps {
+  company: ReceiptCompany;
+}
+
+/** Lay-bys on the credit screen: instalments, completion (goods released) and cancellation. */
+export default function LaybyAccounts({ company }: LaybyAccountsProps) {
+  const [messageApi, contextHolder] = message.useMessage();
+  const { isAuthenticated, userName } = useAuth();
+  const { can } = usePermissions();
+  const [settingsForm] = Form.useForm<LaybySettings>();
+
+  const [status, setStatus] = useState<LaybyStatus>('active');
+  const [laybys, setLaybys] = useState<Layby[]>([]);
+  const [settings, setSettings] = useState<LaybySettings>(DEFAULT_LAYBY_SETTINGS);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const [payLayby, setPayLayby] = useState<Layby | null>(null);
+  const [payAmount, setPayAmount] = useState<number | null>(null);
+  const [payMethod, setPayMethod] = useState<AccountPaymentMethod>('Cash');
+  const [payReference, setPayReference] = useState('');
+
+  const [cancelLayby, setCancelLayby] = useState<Layby | null>(null);
+  const [cancelFee, setCancelFee] = useState(0);
+  const [refundMethod, setRefundMethod] = useState<LaybyCancelPayload['refundMethod']>('Cash');
+  const [cancelReason, setCancelReason] = useState('');
+
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  const canManage = can('laybys.manage');
+
+  const fetchLaybys = useCallback(async () => {
+    if (!isAuthenticated) return;
+    setLoading(true);
+    try {
+      setLaybys((await laybyApi.list({ status })) || []);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to load lay-bys.'));
+      setLaybys([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, status, messageApi]);
+
+  useEffect(() => {
+    fetchLaybys();
+  }, [fetchLaybys]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    laybyApi
+      .settings()
+      .then(data => setSettings({ ...DEFAULT_LAYBY_SETTINGS, ...data }))
+      .catch(err => console.warn('Failed to load lay-by rules, using defaults:', err));
+  }, [isAuthenticated]);
+
+  const openPayment = (layby: Layby) => {
+    setPayLayby(layby);
+    setPayAmount(nextInstalment(layby)?.owing ?? laybyBalance(layby));
+    setPayMethod('Cash');
+    setPayReference('');
+  };
+
+  const handlePayment = async () => {
+    if (!payLayby) return;
+    const amount = round2(payAmount ?? 0);
+    if (amount <= 0 || amount > laybyBalance(payLayby)) {
+      messageApi.warning(`Enter an amount up to the balance of ${money(laybyBalance(payLayby))}.`);
+      return;
+    }
+    if (payMethod === 'Bank' && !payReference.trim()) {
+      messageApi.warning('Enter the bank reference for an EFT payment.');
+      return;
+    }
+    setBusy(true);
+    try {
+      const updated = await laybyApi.recordPayment(payLayby.id, {
+        amount,
+        paymentMethod: payMethod,
+        reference: payReference.trim() || null,
+        recordedBy: userName,
+      });
+      setPayLayby(null);
+      if (updated && laybyBalance(updated) <= 0) {
+        messageApi.success(`Lay-by #${payLayby.id} is paid in full. Complete it to release the goods.`);
+      } else {
+        messageApi.success(`Payment of ${money(amount)} recorded.`);
+      }
+      fetchLaybys();
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to record the payment.'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleComplete = async (layby: Layby) => {
+    setBusy(true);
+    try {
+      const result = await laybyApi.complete(layby.id, {
+        processedBy: userName,
+        tellerId: getUserId(),
+        branch: layby.branch,
+      });
+      messageApi.success(`Lay-by #${layby.id} completed as sale #${result.saleId}. Hand over the goods.`);
+      fetchLaybys();
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to complete the lay-by.'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openCancel = (layby: Layby) => {
+    setCancelLayby(layby);
+    setCancelFee(cancellationFee(layby, settings));
+    setRefundMethod('Cash');
+    setCancelReason('');
+  };
+
+  const cancelPaid = Number(cancelLayby?.paid_amount) || 0;
+  const cancelRefund = round2(Math.max(0, cancelPaid - cancelFee));
+
+  const handleCancel = async () => {
+    if (!cancelLayby) return;
+    if (!cancelReason.trim()) {
+      messageApi.warning('Enter the reason for cancelling.');
+      return;
+    }
+    setBusy(true);
+    try {
+      await laybyApi.cancel(cancelLayby.id, {
+        reason: cancelReason.trim(),
+        fee: round2(cancelFee),
+        refund: cancelRefund,
+        refundMethod,
+        processedBy: userName,
+      });
+      messageApi.success(`Lay-by #${cancelLayby.id} cancelled; refund ${money(cancelRefund)} and return the goods to stock.`);
+      setCancelLayby(null);
+      fetchLaybys();
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to cancel the lay-by.'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    const values = await settingsForm.validateFields();
+    setBusy(true);
+    try {
+      const saved = await laybyApi.saveSettings(values);
+      setSettings({ ...DEFAULT_LAYBY_SETTINGS, ...(saved || values) });
+      setSettingsOpen(false);
+      messageApi.success('Lay-by rules saved.');
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to save lay-by rules.'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      {contextHolder}
+      <Row justify='space-between' style={{ marginBottom: 12 }}>
+        <Col>
+          <Segmented<LaybyStatus>
+            value={status}
+            onChange={setStatus}
+            options={[
+              { label: 'Active', value: 'active' },
+              { label: 'Completed', value: 'completed' },
+              { label: 'Cancelled', value: 'cancelled' },
+            ]}
+          />
+        </Col>
+        <Col>
+          {canManage && (
+            <Button icon={<SettingOutlined />} onClick={() => setSettingsOpen(true)}>
+              Lay-by rules
+            </Button>
+          )}
+        </Col>
+      </Row>
+
+      <Table<Layby>
+        rowKey='id'
+        dataSource={laybys}
+        loading={loading}
+        size='small'
+        pagination={{ pageSize: 20 }}
+        scroll={{ x: 760 }}
+        expandable={{
+          expandedRowRender: l => (
+            <Row gutter={24}>
+              <Col span={12}>
+                <Text strong>Goods held</Text>
+                {l.items.map((item, i) => (
+                  <div key={i}>
+                    {item.quantity} x {item.name} <Text type='secondary'>{money(item.subtotal)}</Text>
+                  </div>
+                ))}
+              </Col>
+              <Col span={12}>
+                <Text strong>Payments</Text>
+                {l.payments.map(p => (
+                  <div key={p.id}>
+                    {p.createdAt.slice(0, 10)} · {p.kind === 'deposit' ? 'Deposit' : 'Instalment'} ({p.paymentMethod}){' '}
+                    <b>{money(p.amount)}</b>
+                  </div>
+                ))}
+                {l.status === 'cancelled' && l.cancellation_fee !== null && (
+                  <div>
+                    <Text type='secondary'>Cancellation fee kept: {money(l.cancellation_fee)}</Text>
+                  </div>
+                )}
+              </Col>
+            </Row>
+          ),
+        }}
+        columns={[
+          { title: '#', dataIndex: 'id', width: 60 },
+          { title: 'Customer', dataIndex: 'customer_name' },
+          { title: 'Opened', dataIndex: 'created_at', render: (d: string) => d.slice(0, 10) },
+          { title: 'Total', dataIndex: 'total_amount', align: 'right', render: money },
+          { title: 'Paid', dataIndex: 'paid_amount', align: 'right', render: money },
+          { title: 'Balance', key: 'balance', align: 'right', render: (_, l) => <b>{money(laybyBalance(l))}</b> },
+          {
+            title: 'Next due',
+            key: 'next',
+            render: (_, l) => {
+              if (l.status !== 'active') {
+                return <Tag color={STATUS_COLORS[l.status]}>{l.sale_id ? `Sale #${l.sale_id}` : l.status}</Tag>;
+              }
+              const next = nextInstalment(l);
+              if (!next) return laybyBalance(l) <= 0 ? <Tag color='green'>Paid up</Tag> : '-';
+              return (
+                <>
+                  {next.dueDate} · {money(next.owing)} {next.overdue && <Tag color='red'>Overdue</Tag>}
+                </>
+              );
+            },
+          },
+          {
+            title: '',
+            key: 'actions',
+            render: (_, l) => (
+              <Space size={4}>
+                {l.status === 'active' && laybyBalance(l) > 0 && (
+                  <Button size='small' type='primary' onClick={() => openPayment(l)}>
+                    Pay
+                  </Button>
+                )}
+                {l.status === 'active' && laybyBalance(l) <= 0 && (
+                  <Popconfirm title='Release the goods and record the sale?' onConfirm={() => handleComplete(l)}>
+                    <Button size='small' type='primary' loading={busy}>
+                      Complete
+                    </Button>
+                  </Popconfirm>
+                )}
+                {l.status === 'active' && canManage && (
+                  <Button size='small' danger onClick={() => openCancel(l)}>
+                    Cancel
+                  </Button>
+                )}
+                <Button
+                  size='small'
+                  icon={<FilePdfOutlined />}
+                  onClick={() => laybyToPdf(l, company, settings).save(`layby-${l.id}.pdf`)}
+                />
+              </Space>
+            ),
+          },
+        ]}
+      />
+
+      <Modal
+        open={!!payLayby}
+        title={payLayby ? `Lay-by #${payLayby.id}: ${payLayby.customer_name}` : ''}
+        okText='Record payment'
+        onOk={handlePayment}
+        confirmLoading={busy}
+        onCancel={() => setPayLayby(null)}
+        destroyOnHidden
+      >
+        {payLayby && (
+          <>
+            <Text>
+              Balance: <b>{money(laybyBalance(payLayby))}</b>
+            </Text>
+            <Row gutter={8} style={{ marginTop: 12 }}>
+              <Col span={10}>
+                <Select<AccountPaymentMethod>
+                  value={payMethod}
+                  onChange={setPayMethod}
+                  options={[
+                    { label: 'Cash', value: 'Cash' },
+                    { label: 'Bank / EFT', value: 'Bank' },
+                  ]}
+                  style={{ width: '100%' }}
+                />
+              </Col>
+              <Col span={14}>
+                <InputNumber
+                  min={0}
+                  max={laybyBalance(payLayby)}
+                  precision={2}
+                  prefix='R'
+                  value={payAmount}
+                  onChange={value => setPayAmount(value)}
+                  style={{ width: '100%' }}
+                />
+              </Col>
+            </Row>
+            <Input
+              placeholder={payMethod === 'Bank' ? 'Bank reference' : 'Reference (optional)'}
+              value={payReference}
+              onChange={e => setPayReference(e.target.value)}
+              style={{ marginTop: 8 }}
+            />
+          </>
+        )}
+      </Modal>
+
+      <Modal
+        open={!!cancelLayby}
+        title={cancelLayby ? `Cancel lay-by #${cancelLayby.id}` : ''}
+        okText='Cancel lay-by'
+        okButtonProps={{ danger: true }}
+        onOk={handleCancel}
+        confirmLoading={busy}
+        onCancel={() => setCancelLayby(null)}
+        destroyOnHidden
+      >
+        {cancelLayby && (
+          <>
+            <Text>
+              Paid so far: <b>{money(cancelPaid)}</b>. The goods go back into stock.
+            </Text>
+            <Row gutter={8} align='middle' style={{ marginTop: 12 }}>
+              <Col span={10}>Cancellation fee</Col>
+              <Col span={14}>
+                <InputNumber
+                  min={0}
+                  max={cancelPaid}
+                  precision={2}
+                  prefix='R'
+                  value={cancelFee}
+                  onChange={v => setCancelFee(v ?? 0)}
+                  style={{ width: '100%' }}
+                />
+              </Col>
+            </Row>
+            <Row gutter={8} align='middle' style={{ marginTop: 8 }}>
+              <Col span={10}>
+                Refund <b>{money(cancelRefund)}</b> as
+              </Col>
+              <Col span={14}>
+                <Select<LaybyCancelPayload['refundMethod']>
+                  value={refundMethod}
+                  onChange={setRefundMethod}
+                  options={[
+                    { label: 'Cash', value: 'Cash' },
+                    { label: 'Bank / EFT', value: 'Bank' },
+                    { label: 'Store credit', value: 'StoreCredit' },
+                  ]}
+                  style={{ width: '100%' }}
+                />
+              </Col>
+            </Row>
+            <Input.TextArea
+              rows={2}
+              placeholder='Reason'
+              value={cancelReason}
+              onChange={e => setCancelReason(e.target.value)}
+              style={{ marginTop: 8 }}
+            />
+          </>
+        )}
+      </Modal>
+
+      <Modal
+        open={settingsOpen}
+        title='Lay-by rules'
+        onCancel={() => setSettingsOpen(false)}
+        onOk={handleSaveSettings}
+        okText='Save'
+        confirmLoading={busy}
+        destroyOnHidden
+      >
+        <Form form={settingsForm} layout='vertical' initialValues={settings} preserve={false}>
+          <Form.Item name='minDepositPercent' label='Minimum deposit (%)' rules={[{ required: true, message: 'Enter the minimum deposit.' }]}>
+            <InputNumber min={0} max={100} precision={0} style={{ width: '100%' }} />
+          </Form.Item>
+          <Form.Item name='maxInstalments' label='Maximum instalments' rules={[{ required: true, message: 'Enter the maximum.' }]}>
+            <InputNumber min={1} precision={0} style={{ width: '100%' }} />
+          </Form.Item>
+          <Form.Item
+            name='cancellationFeePercent'
+            label='Cancellation fee (% of total)'
+            rules={[{ required: true, message: 'Enter the cancellation fee.' }]}
+          >
+            <InputNumber min={0} max={100} precision={1} style={{ width: '100%' }} />
+          </Form.Item>
+          <Form.Item
+            name='minCancellationFee'
+            label='Minimum cancellation fee (R)'
+            extra='The fee is never more than the customer has paid.'
+            rules={[{ required: true, message: 'Enter the minimum fee.' }]}
+          >
+            <InputNumber min={0} precision={2} prefix='R' style={{ width: '100%' }} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import { Alert, Button, Col, Input, InputNumber, Modal, Result, Row, Select, Table, Typography } from 'antd';
+import { FilePdfOutlined } from '@ant-design/icons';
+import { laybyApi } from '@/api/laybys';
+import { DEFAULT_LAYBY_SETTINGS, LAYBY_FREQUENCIES, instalmentSchedule, laybyToPdf, minimumDeposit } from '@/utils/layby';
+import type { AccountPaymentMethod, CustomerFrontend, Layby, LaybyFrequency, LaybySettings, LaybyTerms } from '@/types/pos';
+import type { ReceiptCompany } from '@/types/receipt';
+import { round2 } from '@/utils/money';
+
+const { Text } = Typography;
+
+interface LaybyModalProps {
+  open: boolean;
+  total: number;
+  customer: CustomerFrontend | null;
+  company: ReceiptCompany;
+  /** Creates the lay-by from the live cart; resolves with it, or null when it failed. */
+  onSubmit: (terms: LaybyTerms) => Promise<Layby | null>;
+  onClose: () => void;
+}
+
+/** Opens a lay-by for the cart: deposit now, the rest on an instalment schedule. */
+export default function LaybyModal({ open, total, customer, company, onSubmit, onClose }: LaybyModalProps) {
+  const [settings, setSettings] = useState<LaybySettings>(DEFAULT_LAYBY_SETTINGS);
+  const [deposit, setDeposit] = useState<number>(0);
+  const [depositMethod, setDepositMethod] = useState<AccountPaymentMethod>('Cash');
+  const [depositReference, setDepositReference] = useState('');
+  const [frequency, setFrequency] = useState<LaybyFrequency>('monthly');
+  const [count, setCount] = useState(3);
+  const [saving, setSaving] = useState(false);
+  const [created, setCreated] = useState<Layby | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setCreated(null);
+    setDepositMethod('Cash');
+    setDepositReference('');
+    laybyApi
+      .settings()
+      .then(data => setSettings({ ...DEFAULT_LAYBY_SETTINGS, ...data }))
+      .catch(err => console.warn('Failed to load lay-by rules, using defaults:', err));
+  }, [open]);
+
+  const minDeposit = minimumDeposit(total, settings);
+
+  useEffect(() => {
+    if (!open) return;
+    setDeposit(minDeposit);
+    setCount(Math.min(3, settings.maxInstalments));
+  }, [open, minDeposit, settings.maxInstalments]);
+
+  const schedule = instalmentSchedule(round2(total - deposit), count, frequency);
+  const problem = !customer
+    ? 'Select the customer the goods are being held for.'
+    : deposit < minDeposit
+      ? `The deposit must be at least R${minDeposit.toFixed(2)} (${settings.minDepositPercent}%).`
+      : deposit >= total
+        ? 'The deposit covers the full amount; ring this up as a normal sale.'
+        : depositMethod === 'Bank' && !depositReference.trim()
+          ? 'Enter the bank reference for the deposit.'
+          : null;
+
+  const handleSubmit = async () => {
+    if (problem) return;
+    setSaving(true);
+    try {
+      const layby = await onSubmit({
+        deposit: round2(deposit),
+        depositMethod,
+        depositReference: depositReference.trim() || null,
+        frequency,
+        schedule,
+      });
+      if (layby) setCreated(layby);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (created) {
+    return (
+      <Modal open={open} onCancel={onClose} footer={null} destroyOnHidden>
+        <Result
+          status='success'
+          title={`Lay-by #${created.id} opened`}
+          subTitle={`Deposit R${created.deposit.toFixed(2)} taken. The goods stay in store until R${created.total_amount.toFixed(2)} is paid.`}
+          extra={[
+            <Button
+              key='pdf'
+              icon={<FilePdfOutlined />}
+              onClick={() => laybyToPdf(created, company, settings).save(`layby-${created.id}.pdf`)}
+            >
+              Agreement PDF
+            </Button>,
+            <Button key='done' type='primary' onClick={onClose}>
+              Done
+            </Button>,
+          ]}
+        />
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      open={open}
+      title={customer ? `Lay-by for ${customer.name}` : 'Lay-by'}
+      okText='Take deposit & open lay-by'
+      onOk={handleSubmit}
+      okButtonProps={{ disabled: !!problem, loading: saving }}
+      onCancel={onClose}
+      destroyOnHidden
+    >
+      <Text>
+        Total: <b>R{total.toFixed(2)}</b> · minimum deposit R{minDeposit.toFixed(2)}
+      </Text>
+      <Row gutter={8} style={{ marginTop: 12 }}>
+        <Col span={10}>
+          <Select<AccountPaymentMethod>
+            value={depositMethod}
+            onChange={setDepositMethod}
+            options={[
+              { label: 'Cash', value: 'Cash' },
+              { label: 'Bank / EFT', value: 'Bank' },
+            ]}
+            style={{ width: '100%' }}
+          />
+        </Col>
+        <Col span={14}>
+          <InputNumber
+            min={0}
+            max={total}
+            precision={2}
+            prefix='R'
+            value={deposit}
+            onChange={value => setDeposit(value ?? 0)}
+            style={{ width: '100%' }}
+          />
+        </Col>
+      </Row>
+      {depositMethod === 'Bank' && (
+        <Input
+          placeholder='Bank reference'
+          value={depositReference}
+          onChange={e => setDepositReference(e.target.value)}
+          style={{ marginTop: 8 }}
+        />
+      )}
+      <Row gutter={8} style={{ marginTop: 8 }}>
+        <Col span={12}>
+          <Select<LaybyFrequency> value={frequency} onChange={setFrequency} options={LAYBY_FREQUENCIES} style={{ width: '100%' }} />
+        </Col>
+        <Col span={12}>
+          <InputNumber
+            min={1}
+            max={settings.maxInstalments}
+            precision={0}
+            value={count}
+            onChange={value => setCount(value ?? 1)}
+            addonAfter='instalments'
+            style={{ width: '100%' }}
+          />
+        </Col>
+      </Row>
+      <Table
+        rowKey='dueDate'
+        size='small'
+        pagination={false}
+        dataSource={schedule}
+        style={{ marginTop: 12 }}
+        columns={[
+          { title: 'Due', dataIndex: 'dueDate' },
+          { title: 'Amount', dataIndex: 'amount', align: 'right', render: (v: number) => `R${v.toFixed(2)}` },
+        ]}
+      />
+      <Text type='secondary' style={{ display: 'block', marginTop: 8, fontSize: 12 }}>
+        Cancelling forfeits {settings.cancellationFeePercent}% of the total (minimum R{settings.minCancellationFee.toFixed(2)}).
+      </Text>
+      {problem && <Alert type='warning' showIcon message={problem} style={{ marginTop: 8 }} />}
+    </Modal>
+  );
+}
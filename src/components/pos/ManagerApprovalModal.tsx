@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Alert, Form, Input, Modal } from 'antd';
+import { authApi } from '@/api/auth';
+import { getErrorMessage } from '@/utils/apiClient';
+import type { PermissionAction } from '@/lib/permissions';
+import type { ApprovalResponse } from '@/types/auth';
+
+interface ManagerApprovalModalProps {
+  open: boolean;
+  action: PermissionAction;
+  /** What is being approved, shown to the manager. */
+  description: string;
+  onApproved: (approval: ApprovalResponse) => void;
+  onCancel: () => void;
+}
+
+/** Lets a manager authorise one action on a teller's session by entering their own credentials. */
+export default function ManagerApprovalModal({
+  open,
+  action,
+  description,
+  onApproved,
+  onCancel,
+}: ManagerApprovalModalProps) {
+  const [form] = Form.useForm<{ email: string; password: string }>();
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOk = async () => {
+    const values = await form.validateFields();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const approval = await authApi.approve({ ...values, action });
+      form.resetFields();
+      onApproved(approval);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Approval was declined.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    setError(null);
+    onCancel();
+  };
+
+  return (
+    <Modal
+      open={open}
+      title='Manager approval required'
+      okText='Approve'
+      onOk={handleOk}
+      onCancel={handleCancel}
+      confirmLoading={submitting}
+      destroyOnClose
+    >
+      <Alert type='info' showIcon message={description} style={{ marginBottom: 12 }} />
+      {error && <Alert type='error' showIcon message={error} style={{ marginBottom: 12 }} />}
+      <Form form={form} layout='vertical' autoComplete='off'>
+        <Form.Item name='email' label='Manager email' rules={[{ required: true, type: 'email' }]}>
+          <Input autoFocus />
+        </Form.Item>
+        <Form.Item name='password' label='Password' rules={[{ required: true }]}>
+          <Input.Password />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+}
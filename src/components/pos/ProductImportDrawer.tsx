@@ -0,0 +1,224 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Alert, Button, Drawer, Radio, Select, Space, Table, Tag, Typography, Upload, message } from 'antd';
+import { InboxOutlined } from '@ant-design/icons';
+import { productsApi } from '@/api/products';
+import { getErrorMessage } from '@/utils/apiClient';
+import { PRODUCT_IMPORT_FIELDS, guessMapping, validateImport } from '@/utils/productImport';
+import type { ColumnMapping, ImportPreviewRow } from '@/utils/productImport';
+import { readSpreadsheet } from '@/utils/spreadsheet';
+import type { SheetRow } from '@/utils/spreadsheet';
+import type { ProductDB, ProductImportResult } from '@/types/pos';
+
+const { Text } = Typography;
+
+interface ProductImportDrawerProps {
+  /** Mount while open: each opening starts from an empty upload. */
+  onClose: () => void;
+  /** Called after an import so the product list shows the changes. */
+  onImported: () => void;
+}
+
+/** Bulk create and update of products from a CSV or XLSX file, matched by SKU. */
+export default function ProductImportDrawer({ onClose, onImported }: ProductImportDrawerProps) {
+  const [messageApi, contextHolder] = message.useMessage();
+  const [existing, setExisting] = useState<ProductDB[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<SheetRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<ProductImportResult | null>(null);
+
+  useEffect(() => {
+    productsApi
+      .list()
+      .then(setExisting)
+      .catch(err => messageApi.error(getErrorMessage(err, 'Failed to load existing products.')));
+  }, [messageApi]);
+
+  const preview = useMemo(() => validateImport(rows, mapping, existing), [rows, mapping, existing]);
+  const valid = preview.filter(r => r.errors.length === 0);
+  const invalidCount = preview.length - valid.length;
+
+  const handleFile = async (file: File) => {
+    try {
+      const sheet = await readSpreadsheet(file);
+      if (sheet.length < 2) {
+        messageApi.error('The file needs a header row and at least one product.');
+        return;
+      }
+      const [headerRow, ...dataRows] = sheet;
+      setFileName(file.name);
+      setHeaders(headerRow.cells.map(h => h.trim()));
+      setRows(dataRows);
+      setMapping(guessMapping(headerRow.cells));
+      setResult(null);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Could not read the file.'));
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const res = await productsApi.importProducts({ products: valid.map(r => r.data) });
+      // The server numbers rows by position in the payload; report them as spreadsheet rows.
+      setResult({ ...res, errors: res.errors.map(e => ({ ...e, row: valid[e.row - 1]?.rowNumber ?? e.row })) });
+      messageApi.success(`Created ${res.created} and updated ${res.updated} products.`);
+      onImported();
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Import failed.'));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const columnOptions = headers.map((h, i) => ({ value: i, label: h || `Column ${i + 1}` }));
+
+  return (
+    <>
+      {contextHolder}
+      <Drawer
+        title='Import Products (CSV/XLSX)'
+        open
+        onClose={onClose}
+        width={1000}
+        extra={
+          <Button
+            type='primary'
+            loading={importing}
+            disabled={valid.length === 0 || mapping.sku === undefined || !!result}
+            onClick={handleImport}
+          >
+            Import {valid.length} rows
+          </Button>
+        }
+      >
+        <Upload.Dragger
+          accept='.csv,.xlsx'
+          multiple={false}
+          showUploadList={false}
+          beforeUpload={file => {
+            handleFile(file);
+            return false;
+          }}
+        >
+          <p className='ant-upload-drag-icon'>
+            <InboxOutlined />
+          </p>
+          <p className='ant-upload-text'>{fileName ?? 'Click or drag a .csv or .xlsx file here'}</p>
+          <p className='ant-upload-hint'>
+            Products are matched by SKU: known SKUs are updated, new ones created. Blank or unmapped cells keep the
+            current value. Use Export for a file in the right layout.
+          </p>
+        </Upload.Dragger>
+
+        {headers.length > 0 && (
+          <>
+            <Typography.Title level={5} style={{ marginTop: 16 }}>
+              Column mapping
+            </Typography.Title>
+            <Space wrap>
+              {PRODUCT_IMPORT_FIELDS.map(spec => (
+                <Space key={spec.field} direction='vertical' size={0}>
+                  <Text type={spec.required && mapping[spec.field] === undefined ? 'danger' : undefined}>
+                    {spec.label}
+                    {spec.required && ' *'}
+                  </Text>
+                  <Select
+                    allowClear
+                    placeholder='Not imported'
+                    style={{ width: 150 }}
+                    value={mapping[spec.field]}
+                    options={columnOptions}
+                    onChange={(column?: number) => setMapping(prev => ({ ...prev, [spec.field]: column }))}
+                  />
+                </Space>
+              ))}
+            </Space>
+
+            {result && (
+              <Alert
+                style={{ marginTop: 16 }}
+                type={result.errors.length ? 'warning' : 'success'}
+                message={`Created ${result.created}, updated ${result.updated}.`}
+                description={
+                  result.errors.length > 0 && (
+                    <ul style={{ margin: 0, paddingLeft: 18 }}>
+                      {result.errors.map(e => (
+                        <li key={e.row}>
+                          Row {e.row}: {e.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )
+                }
+              />
+            )}
+
+            <Space style={{ margin: '16px 0 8px' }} wrap>
+              <Radio.Group
+                optionType='button'
+                size='small'
+                value={errorsOnly}
+                onChange={e => setErrorsOnly(e.target.value)}
+                options={[
+                  { value: false, label: `All (${preview.length})` },
+                  { value: true, label: `Errors (${invalidCount})` },
+                ]}
+              />
+              <Text type='secondary'>
+                {valid.filter(r => r.action === 'create').length} new, {valid.filter(r => r.action === 'update').length}{' '}
+                updates. Rows with errors are skipped.
+              </Text>
+            </Space>
+
+            <Table<ImportPreviewRow>
+              rowKey='rowNumber'
+              size='small'
+              dataSource={errorsOnly ? preview.filter(r => r.errors.length > 0) : preview}
+              pagination={{ pageSize: 50 }}
+              scroll={{ x: 900 }}
+              columns={[
+                { title: 'Row', dataIndex: 'rowNumber', width: 60 },
+                {
+                  title: 'Status',
+                  key: 'status',
+                  width: 90,
+                  render: (_, r) =>
+                    r.errors.length > 0 ? (
+                      <Tag color='red'>Error</Tag>
+                    ) : (
+                      <Tag color={r.action === 'create' ? 'blue' : 'green'}>{r.action === 'create' ? 'New' : 'Update'}</Tag>
+                    ),
+                },
+                { title: 'SKU', key: 'sku', render: (_, r) => r.data.sku },
+                { title: 'Name', key: 'name', render: (_, r) => r.data.name },
+                { title: 'Price', key: 'price', render: (_, r) => r.data.unit_price },
+                { title: 'Cost', key: 'cost', render: (_, r) => r.data.cost_price },
+                {
+                  title: 'VAT',
+                  key: 'vat',
+                  render: (_, r) => (r.data.tax_rate === null ? null : `${Math.round(r.data.tax_rate * 100)}%`),
+                },
+                { title: 'Stock', key: 'stock', render: (_, r) => r.data.stock_quantity },
+                { title: 'Category', key: 'category', render: (_, r) => r.data.category },
+                {
+                  title: 'Problems',
+                  key: 'errors',
+                  render: (_, r) =>
+                    r.errors.map(e => (
+                      <Tag key={e} color='red' style={{ whiteSpace: 'normal' }}>
+                        {e}
+                      </Tag>
+                    )),
+                },
+              ]}
+            />
+          </>
+        )}
+      </Drawer>
+    </>
+  );
+}
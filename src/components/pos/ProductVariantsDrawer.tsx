@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { Button, Drawer, Form, Input, InputNumber, Select, Space, Table, Tag, Typography, message } from 'antd';
+import { AppstoreAddOutlined, DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { productsApi } from '@/api/products';
+import { getErrorMessage } from '@/utils/apiClient';
+import { sameOptions, uniqueSku, variantLabel, variantMatrix, variantName, variantSku } from '@/utils/variants';
+import type { VariantAttribute, VariantOptions } from '@/types/pos';
+import type { Product } from '@/types/type';
+
+const { Text } = Typography;
+
+interface VariantRow {
+  key: string;
+  id?: number;
+  options: VariantOptions;
+  sku: string;
+  barcode: string;
+  unitPrice: number;
+  costPrice: number;
+  openingStock: number;
+}
+
+interface ProductVariantsDrawerProps {
+  /** Mount with a key per product: the attributes and rows are initialised from it. */
+  parent: Product;
+  variants: Product[];
+  onClose: () => void;
+  /** Called after saving so the product list picks up the new variants. */
+  onSaved: () => void;
+}
+
+const rowKey = (options: VariantOptions) => JSON.stringify(Object.entries(options).sort());
+
+const rowFromVariant = (v: Product): VariantRow => ({
+  key: rowKey(v.variantOptions ?? {}),
+  id: Number(v.id),
+  options: v.variantOptions ?? {},
+  sku: v.sku ?? '',
+  barcode: v.barcode ?? '',
+  unitPrice: Number(v.unitPrice) || 0,
+  costPrice: Number(v.unitPurchasePrice) || 0,
+  openingStock: Number(v.qty) || 0,
+});
+
+/** Variant attributes for a product and the generated size/colour/etc. matrix with per-variant SKU, price and stock. */
+export default function ProductVariantsDrawer({ parent, variants, onClose, onSaved }: ProductVariantsDrawerProps) {
+  const [messageApi, contextHolder] = message.useMessage();
+  const [form] = Form.useForm<{ attributes: VariantAttribute[] }>();
+  const [rows, setRows] = useState<VariantRow[]>(() => variants.map(rowFromVariant));
+  const [saving, setSaving] = useState(false);
+
+  const watched = Form.useWatch('attributes', form) as (VariantAttribute | undefined)[] | undefined;
+  const attributes: VariantAttribute[] = (watched ?? [])
+    .filter((a): a is VariantAttribute => !!a?.name?.trim())
+    .map(a => ({ name: a.name.trim(), values: (a.values ?? []).map(v => v.trim()).filter(Boolean) }));
+
+  const handleGenerate = () => {
+    const combos = variantMatrix(attributes);
+    if (combos.length === 0) {
+      messageApi.warning('Add at least one attribute with values.');
+      return;
+    }
+    setRows(prev => {
+      const kept = combos.map(options => prev.find(r => sameOptions(r.options, options)));
+      const taken = kept.flatMap(r => (r ? [r.sku] : []));
+      return combos.map((options, i) => {
+        const existing = kept[i];
+        if (existing) return existing;
+        const sku = uniqueSku(variantSku(parent.sku || parent.name, options, attributes), taken);
+        taken.push(sku);
+        return {
+          key: rowKey(options),
+          options,
+          sku,
+          barcode: '',
+          unitPrice: Number(parent.unitPrice) || 0,
+          costPrice: Number(parent.unitPurchasePrice) || 0,
+          openingStock: 0,
+        };
+      });
+    });
+  };
+
+  const updateRow = (key: string, patch: Partial<VariantRow>) =>
+    setRows(prev => prev.map(r => (r.key === key ? { ...r, ...patch } : r)));
+
+  const handleSave = async () => {
+    if (attributes.length === 0 || rows.length === 0) {
+      messageApi.error('Generate the variants before saving.');
+      return;
+    }
+    // Existing variants keep their sales and stock history, so their values can't disappear.
+    const orphaned = variants.find(v => !rows.some(r => r.id === Number(v.id)));
+    if (orphaned) {
+      messageApi.error(`${orphaned.name} uses a value that was removed. Delete it from the product list first.`);
+      return;
+    }
+    const skus = rows.map(r => r.sku.trim().toLowerCase()).filter(Boolean);
+    if (new Set(skus).size !== skus.length) {
+      messageApi.error('Each variant needs its own SKU.');
+      return;
+    }
+    setSaving(true);
+    try {
+      await productsApi.saveVariants(parent.id, {
+        attributes,
+        variants: rows.map(r => ({
+          id: r.id,
+          name: variantName(parent.name, r.options, attributes),
+          options: r.options,
+          sku: r.sku.trim() || null,
+          barcode: r.barcode.trim() || null,
+          unit_price: r.unitPrice,
+          cost_price: r.costPrice,
+          stock_quantity: r.id ? undefined : r.openingStock,
+        })),
+      });
+      messageApi.success(`Saved ${rows.length} variants.`);
+      onSaved();
+      onClose();
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to save variants.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      {contextHolder}
+      <Drawer
+        title={`Variants: ${parent.name}`}
+        open
+        onClose={onClose}
+        width={960}
+        extra={
+          <Button type='primary' loading={saving} onClick={handleSave}>
+            Save variants
+          </Button>
+        }
+      >
+        <Form
+          form={form}
+          layout='vertical'
+          initialValues={{
+            attributes: parent.variantAttributes?.length ? parent.variantAttributes : [{ name: 'Size', values: [] }],
+          }}
+        >
+          <Form.List name='attributes'>
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map(field => (
+                  <Space key={field.key} align='baseline' style={{ display: 'flex' }} wrap>
+                    <Form.Item name={[field.name, 'name']} rules={[{ required: true, whitespace: true, message: 'Name' }]}>
+                      <Input placeholder='Attribute, e.g. Size' style={{ width: 160 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'values']}>
+                      <Select mode='tags' placeholder='Values, e.g. S, M, L, XL' tokenSeparators={[',']} style={{ width: 420 }} />
+                    </Form.Item>
+                    <Button icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Space>
+                  <Button type='dashed' icon={<PlusOutlined />} onClick={() => add({ name: '', values: [] })}>
+                    Add attribute
+                  </Button>
+                  <Button icon={<AppstoreAddOutlined />} onClick={handleGenerate}>
+                    Generate variants
+                  </Button>
+                </Space>
+              </>
+            )}
+          </Form.List>
+        </Form>
+
+        <Table<VariantRow>
+          rowKey='key'
+          size='small'
+          style={{ marginTop: 16 }}
+          dataSource={rows}
+          pagination={false}
+          scroll={{ x: 860 }}
+          columns={[
+            {
+              title: 'Variant',
+              key: 'variant',
+              render: (_, r) => (
+                <>
+                  {variantLabel(r.options, attributes)} {!r.id && <Tag color='blue'>new</Tag>}
+                </>
+              ),
+            },
+            {
+              title: 'SKU',
+              key: 'sku',
+              render: (_, r) => <Input value={r.sku} onChange={e => updateRow(r.key, { sku: e.target.value })} />,
+            },
+            {
+              title: 'Barcode',
+              key: 'barcode',
+              render: (_, r) => <Input value={r.barcode} onChange={e => updateRow(r.key, { barcode: e.target.value })} />,
+            },
+            {
+              title: 'Price',
+              key: 'unitPrice',
+              render: (_, r) => (
+                <InputNumber
+                  min={0}
+                  prefix='R'
+                  value={r.unitPrice}
+                  onChange={v => updateRow(r.key, { unitPrice: Number(v) || 0 })}
+                  style={{ width: 110 }}
+                />
+              ),
+            },
+            {
+              title: 'Cost',
+              key: 'costPrice',
+              render: (_, r) => (
+                <InputNumber
+                  min={0}
+                  prefix='R'
+                  value={r.costPrice}
+                  onChange={v => updateRow(r.key, { costPrice: Number(v) || 0 })}
+                  style={{ width: 110 }}
+                />
+              ),
+            },
+            {
+              title: 'Stock',
+              key: 'openingStock',
+              render: (_, r) => (
+                <InputNumber
+                  min={0}
+                  value={r.openingStock}
+                  disabled={!!r.id}
+                  onChange={v => updateRow(r.key, { openingStock: Number(v) || 0 })}
+                  style={{ width: 90 }}
+                />
+              ),
+            },
+            {
+              key: 'remove',
+              render: (_, r) =>
+                r.id ? null : (
+                  <Button
+                    size='small'
+                    icon={<DeleteOutlined />}
+                    onClick={() => setRows(prev => prev.filter(x => x.key !== r.key))}
+                  />
+                ),
+            },
+          ]}
+        />
+        <Text type='secondary'>
+          Stock for existing variants changes through Restock or History &gt; Adjust. Leave out combinations you
+          don't stock by removing the new row.
+        </Text>
+      </Drawer>
+    </>
+  );
+}
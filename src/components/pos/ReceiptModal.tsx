@@ -0,0 +1,248 @@
+import { useRef, useState } from 'react';
+import { Button, Divider, Input, Modal, QRCode, Segmented, Space, Typography, message } from 'antd';
+import {
+  PrinterOutlined,
+  FilePdfOutlined,
+  MailOutlined,
+  WhatsAppOutlined,
+  ThunderboltOutlined,
+} from '@ant-design/icons';
+import { salesApi } from '@/api/sales';
+import { PRINT_BRIDGE_URL } from '@/lib/env';
+import { apiClient, getErrorMessage } from '@/utils/apiClient';
+import { receiptQrValue, receiptToEscPos, receiptToPdf } from '@/utils/receipt';
+import { printHtml } from '@/utils/printFrame';
+import { tenderLabel } from '@/utils/tenders';
+import type { ReceiptData, ReceiptPaperWidth } from '@/types/receipt';
+import { money } from '@/utils/money';
+
+const { Text } = Typography;
+
+// Styles shared by the preview and the print iframe. Kept inline so the
+// printed copy does not depend on the app's Tailwind/antd stylesheets.
+const receiptCss = (width: ReceiptPaperWidth) => `
+  @page { size: ${width}mm auto; margin: 0; }
+  body { margin: 0; }
+  .receipt { width: ${width - 6}mm; padding: 3mm; font: ${width === 58 ? 10 : 12}px/1.35 'Courier New', monospace; color: #000; }
+  .receipt .c { text-align: center; }
+  .receipt .row { display: flex; justify-content: space-between; gap: 6px; }
+  .receipt .muted { font-size: 0.85em; }
+  .receipt hr { border: 0; border-top: 1px dashed #000; margin: 4px 0; }
+  .receipt img, .receipt canvas { display: block; margin: 6px auto; }
+`;
+
+interface ReceiptModalProps {
+  open: boolean;
+  receipt: ReceiptData | null;
+  onClose: () => void;
+  customerEmail?: string | null;
+  customerPhone?: string | null;
+}
+
+/** Post-sale receipt: preview, browser/thermal printing and PDF sharing. */
+export default function ReceiptModal({ open, receipt, onClose, customerEmail, customerPhone }: ReceiptModalProps) {
+  const [messageApi, contextHolder] = message.useMessage();
+  const [paperWidth, setPaperWidth] = useState<ReceiptPaperWidth>(80);
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+  const receiptRef = useRef<HTMLDivElement | null>(null);
+
+  if (!receipt) return null;
+
+  const fileName = `receipt-${receipt.reference}.pdf`;
+
+  const qrDataUrl = () => receiptRef.current?.querySelector('canvas')?.toDataURL('image/png');
+
+  const buildPdf = () => receiptToPdf(receipt, paperWidth, qrDataUrl());
+
+  const handleBrowserPrint = () => {
+    const node = receiptRef.current;
+    if (!node) return;
+    // Canvas pixels are not copied with outerHTML, so swap the QR for an image
+    const clone = node.cloneNode(true) as HTMLElement;
+    const qr = qrDataUrl();
+    clone.querySelectorAll('canvas').forEach(canvas => {
+      const img = document.createElement('img');
+      if (qr) img.src = qr;
+      img.width = 110;
+      canvas.replaceWith(img);
+    });
+
+    printHtml(`Receipt ${receipt.reference}`, receiptCss(paperWidth), clone.outerHTML);
+  };
+
+  const handleEscPos = async () => {
+    const bytes = receiptToEscPos(receipt, paperWidth);
+    if (!PRINT_BRIDGE_URL) {
+      const url = URL.createObjectURL(new Blob([bytes], { type: 'application/octet-stream' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `receipt-${receipt.reference}.bin`;
+      a.click();
+      URL.revokeObjectURL(url);
+      messageApi.info('No print bridge configured. ESC/POS file downloaded.');
+      return;
+    }
+    try {
+      await apiClient.post(PRINT_BRIDGE_URL, new Blob([bytes]), {
+        auth: false,
+        headers: { 'Content-Type': 'application/octet-stream' },
+      });
+      messageApi.success('Receipt sent to printer.');
+    } catch (err) {
+      console.error('ESC/POS print failed:', err);
+      messageApi.error(`Could not reach the receipt printer: ${getErrorMessage(err)}`);
+    }
+  };
+
+  const handleDownloadPdf = () => buildPdf().save(fileName);
+
+  const handleEmail = async () => {
+    const to = (email || customerEmail || '').trim();
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(to)) {
+      messageApi.error('Enter a valid email address.');
+      return;
+    }
+    if (receipt.pendingSync) {
+      messageApi.warning('This sale has not synced yet. Download the PDF or email it once back online.');
+      return;
+    }
+    setSending(true);
+    try {
+      await salesApi.emailReceipt(receipt.reference, to, buildPdf().output('blob'));
+      messageApi.success(`Receipt emailed to ${to}.`);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to email receipt.'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Mobile browsers can hand the PDF straight to WhatsApp through the share
+  // sheet; elsewhere fall back to a wa.me link with a text summary.
+  const handleWhatsApp = async () => {
+    const file = new File([buildPdf().output('blob')], fileName, { type: 'application/pdf' });
+    const text = `Receipt ${receipt.reference} from ${receipt.company.name}: ${money(receipt.total)}`;
+    if (navigator.canShare?.({ files: [file] })) {
+      try {
+        await navigator.share({ files: [file], title: `Receipt ${receipt.reference}`, text });
+        return;
+      } catch (err) {
+        if ((err as Error).name === 'AbortError') return;
+      }
+    }
+    const phone = (customerPhone || '').replace(/\D/g, '');
+    window.open(`https://wa.me/${phone}?text=${encodeURIComponent(text)}`, '_blank', 'noopener');
+  };
+
+  return (
+    <Modal
+      open={open}
+      onCancel={onClose}
+      title='Receipt'
+      width={paperWidth === 58 ? 360 : 440}
+      footer={<Button type='primary' onClick={onClose}>New Sale</Button>}
+      destroyOnClose
+    >
+      {contextHolder}
+      <style>{receiptCss(paperWidth)}</style>
+      <Segmented
+        value={paperWidth}
+        onChange={value => setPaperWidth(value as ReceiptPaperWidth)}
+        options={[
+          { label: '80mm', value: 80 },
+          { label: '58mm', value: 58 },
+        ]}
+        style={{ marginBottom: 12 }}
+      />
+
+      <div style={{ border: '1px solid #eee', maxHeight: 420, overflowY: 'auto', display: 'flex', justifyContent: 'center' }}>
+        <div className='receipt' ref={receiptRef}>
+          <div className='c'><b>{receipt.company.name}</b></div>
+          {receipt.company.address && <div className='c muted'>{receipt.company.address}</div>}
+          {receipt.company.phone && <div className='c muted'>Tel: {receipt.company.phone}</div>}
+          {receipt.company.vatNumber && <div className='c muted'>VAT No: {receipt.company.vatNumber}</div>}
+          <div className='c'><b>{receipt.vatTotal > 0 ? 'TAX INVOICE' : 'RECEIPT'}</b></div>
+          <hr />
+          <div className='row'><span>Sale: {receipt.reference}</span><span>{new Date(receipt.createdAt).toLocaleString()}</span></div>
+          {receipt.tellerName && <div>Teller: {receipt.tellerName}</div>}
+          {receipt.branch && <div>Branch: {receipt.branch}</div>}
+          {receipt.customerName && <div>Customer: {receipt.customerName}</div>}
+          <hr />
+          {receipt.lines.map((line, i) => (
+            <div key={i}>
+              <div className='row'><span>{line.name}</span><span>{money(line.total)}</span></div>
+              <div className='muted'>
+                &nbsp;&nbsp;{line.quantity} x {money(line.unitPrice)} · VAT {Math.round(line.taxRate * 100)}%
+              </div>
+              {line.originalUnitPrice !== null && (
+                <div className='muted'>&nbsp;&nbsp;Price override (was {money(line.originalUnitPrice)})</div>
+              )}
+              {line.discounts.map(d => (
+                <div className='row muted' key={d.label}>
+                  <span>&nbsp;&nbsp;{d.label}</span><span>-{money(d.amount)}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+          <hr />
+          {receipt.vatBands.map(band => (
+            <div className='row muted' key={band.rate}>
+              <span>VAT {Math.round(band.rate * 100)}% on {money(band.net)}</span><span>{money(band.vat)}</span>
+            </div>
+          ))}
+          {receipt.discountTotal > 0 && (
+            <div className='row'><span>Discounts excl. VAT</span><span>-{money(receipt.discountTotal)}</span></div>
+          )}
+          <div className='row'><span>Total excl. VAT</span><span>{money(receipt.netTotal)}</span></div>
+          <div className='row'><span>VAT</span><span>{money(receipt.vatTotal)}</span></div>
+          <div className='row'><b>TOTAL</b><b>{money(receipt.total)}</b></div>
+          <hr />
+          {receipt.tenders.map(t => (
+            <div className='row' key={`${t.method}-${t.voucherCode ?? ''}`}>
+              <span>{tenderLabel(t)}</span>
+              <span>{money(t.method === 'Cash' ? receipt.cashTendered : t.amount)}</span>
+            </div>
+          ))}
+          {receipt.change > 0 && <div className='row'><span>Change</span><span>{money(receipt.change)}</span></div>}
+          {receipt.loyalty && (
+            <>
+              <hr />
+              {receipt.loyalty.redeemed > 0 && (
+                <div className='row'><span>Points redeemed</span><span>{receipt.loyalty.redeemed}</span></div>
+              )}
+              <div className='row'><span>Points earned</span><span>{receipt.loyalty.earned}</span></div>
+              {receipt.loyalty.balance !== null && (
+                <div className='row'><span>Points balance</span><span>{receipt.loyalty.balance}</span></div>
+              )}
+            </>
+          )}
+          {receipt.pendingSync && <div className='c muted'>Captured offline - pending sync</div>}
+          <QRCode value={receiptQrValue(receipt)} size={110} type='canvas' bordered={false} />
+          <div className='c muted'>Thank you for your purchase!</div>
+        </div>
+      </div>
+
+      <Space wrap style={{ marginTop: 12 }}>
+        <Button icon={<PrinterOutlined />} onClick={handleBrowserPrint}>Print</Button>
+        <Button icon={<ThunderboltOutlined />} onClick={handleEscPos}>Thermal (ESC/POS)</Button>
+        <Button icon={<FilePdfOutlined />} onClick={handleDownloadPdf}>PDF</Button>
+      </Space>
+
+      <Divider style={{ margin: '12px 0' }} />
+      <Text strong>Send receipt</Text>
+      <Space.Compact style={{ width: '100%', marginTop: 6 }}>
+        <Input
+          placeholder={customerEmail || 'customer@example.com'}
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          type='email'
+        />
+        <Button icon={<MailOutlined />} onClick={handleEmail} loading={sending}>Email</Button>
+      </Space.Compact>
+      <Button icon={<WhatsAppOutlined />} onClick={handleWhatsApp} block style={{ marginTop: 8 }}>
+        Share via WhatsApp
+      </Button>
+    </Modal>
+  );
+}
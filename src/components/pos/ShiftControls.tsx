@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { Alert, Button, Input, InputNumber, Modal, Tag, Typography, message } from 'antd';
+import { getErrorMessage } from '@/utils/apiClient';
+import { currencySet, denominationTotal } from '@/utils/denominations';
+import { CASH_CURRENCY } from '@/lib/env';
+import DenominationCount from '@/components/pos/DenominationCount';
+import ShiftReportModal from '@/components/pos/ShiftReportModal';
+import type { DenominationCounts, Shift, ShiftCount, ShiftReport } from '@/types/pos';
+
+const { Text } = Typography;
+
+interface ShiftControlsProps {
+  shift: Shift | null;
+  loading?: boolean;
+  /** Offline sales still waiting to sync; the shift cannot close until they have. */
+  pendingSales: number;
+  onOpen: (openingFloat: number) => Promise<unknown>;
+  onXReport: () => Promise<ShiftReport>;
+  onClose: (count: ShiftCount) => Promise<ShiftReport>;
+}
+
+/** Shift status for the POS header: open with a float, X-report, and blind close to a Z-report. */
+export default function ShiftControls({ shift, loading, pendingSales, onOpen, onXReport, onClose }: ShiftControlsProps) {
+  const [messageApi, contextHolder] = message.useMessage();
+  const [openModal, setOpenModal] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState<number | null>(null);
+  const [closeModal, setCloseModal] = useState(false);
+  const [counts, setCounts] = useState<DenominationCounts>({});
+  const [notes, setNotes] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [report, setReport] = useState<ShiftReport | null>(null);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleOpen = () =>
+    run(async () => {
+      if (openingFloat === null || openingFloat < 0) {
+        messageApi.error('Enter the opening float (0 if the drawer is empty).');
+        return;
+      }
+      await onOpen(openingFloat);
+      setOpenModal(false);
+      setOpeningFloat(null);
+      messageApi.success('Shift opened.');
+    }, 'Could not open the shift.');
+
+  const handleXReport = () => run(async () => setReport(await onXReport()), 'Could not produce the X-report.');
+
+  // Blind count: the teller never sees the expected figure before submitting,
+  // the variance only appears on the Z-report that comes back.
+  const handleClose = () =>
+    run(async () => {
+      const z = await onClose({ countedCash: denominationTotal(counts), denominations: counts, notes: notes.trim() });
+      setCloseModal(false);
+      setCounts({});
+      setNotes('');
+      setReport(z);
+    }, 'Could not close the shift.');
+
+  return (
+    <>
+      {contextHolder}
+      {shift ? (
+        <>
+          <Tag color='green'>
+            Shift #{shift.id} · since {new Date(shift.openedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </Tag>
+          <Button size='small' onClick={handleXReport} loading={busy && !closeModal}>
+            X-report
+          </Button>
+          <Button size='small' danger onClick={() => setCloseModal(true)}>
+            Close shift
+          </Button>
+        </>
+      ) : (
+        <>
+          <Tag color='red'>No open shift</Tag>
+          <Button size='small' type='primary' onClick={() => setOpenModal(true)} loading={loading}>
+            Open shift
+          </Button>
+        </>
+      )}
+
+      <Modal
+        open={openModal}
+        title='Open shift'
+        okText='Open shift'
+        onOk={handleOpen}
+        onCancel={() => setOpenModal(false)}
+        confirmLoading={busy}
+        destroyOnClose
+      >
+        <Text>Cash float in the drawer</Text>
+        <InputNumber
+          autoFocus
+          min={0}
+          precision={2}
+          prefix='R'
+          value={openingFloat}
+          onChange={v => setOpeningFloat(v)}
+          onPressEnter={handleOpen}
+          style={{ width: '100%', marginTop: 6 }}
+        />
+      </Modal>
+
+      <Modal
+        open={closeModal}
+        title='Close shift: count the drawer'
+        okText='Close shift'
+        okButtonProps={{ danger: true, disabled: pendingSales > 0 }}
+        onOk={handleClose}
+        onCancel={() => setCloseModal(false)}
+        confirmLoading={busy}
+        width={520}
+        destroyOnClose
+      >
+        {pendingSales > 0 && (
+          <Alert
+            type='warning'
+            showIcon
+            style={{ marginBottom: 12 }}
+            message={`${pendingSales} offline sale(s) have not synced. Sync them before closing the shift.`}
+          />
+        )}
+        <Text type='secondary' style={{ display: 'block', marginBottom: 10 }}>
+          Count everything in the drawer, float included. The expected amount is shown on the Z-report after closing.
+        </Text>
+        <DenominationCount value={counts} onChange={setCounts} currency={currencySet(CASH_CURRENCY)} disabled={busy} />
+        <Input.TextArea
+          rows={2}
+          placeholder='Notes (optional)'
+          value={notes}
+          onChange={e => setNotes(e.target.value)}
+          style={{ marginTop: 10 }}
+        />
+      </Modal>
+
+      <ShiftReportModal report={report} onClose={() => setReport(null)} />
+    </>
+  );
+}
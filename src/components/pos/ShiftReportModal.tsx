@@ -0,0 +1,79 @@
+import { Button, Modal, Space } from 'antd';
+import { FilePdfOutlined, PrinterOutlined } from '@ant-design/icons';
+import { escapeHtml, printHtml } from '@/utils/printFrame';
+import { shiftReportSections, shiftReportTitle, shiftReportToPdf } from '@/utils/shiftReport';
+import type { ShiftReport } from '@/types/pos';
+
+const reportCss = `
+  @page { size: 80mm auto; margin: 0; }
+  body { margin: 0; }
+  .shift-report { width: 74mm; padding: 3mm; font: 12px/1.4 'Courier New', monospace; color: #000; }
+  .shift-report h3 { text-align: center; margin: 0 0 6px; font-size: 14px; }
+  .shift-report h4 { margin: 8px 0 2px; font-size: 12px; text-transform: uppercase; border-bottom: 1px dashed #000; }
+  .shift-report .row { display: flex; justify-content: space-between; gap: 6px; }
+  .shift-report .strong { font-weight: bold; }
+`;
+
+interface ShiftReportModalProps {
+  report: ShiftReport | null;
+  onClose: () => void;
+}
+
+/** X- or Z-report preview with printing and PDF download. */
+export default function ShiftReportModal({ report, onClose }: ShiftReportModalProps) {
+  if (!report) return null;
+
+  const sections = shiftReportSections(report);
+  const title = shiftReportTitle(report);
+
+  const html = () => {
+    const body = sections
+      .map(
+        section =>
+          `<h4>${escapeHtml(section.title)}</h4>` +
+          section.rows
+            .map(
+              row =>
+                `<div class="row${row.strong ? ' strong' : ''}"><span>${escapeHtml(row.label)}</span><span>${escapeHtml(row.value)}</span></div>`
+            )
+            .join('')
+      )
+      .join('');
+    return `<div class="shift-report"><h3>${escapeHtml(title)}</h3>${body}</div>`;
+  };
+
+  return (
+    <Modal
+      open
+      onCancel={onClose}
+      title={title}
+      width={420}
+      footer={
+        <Space>
+          <Button icon={<PrinterOutlined />} onClick={() => printHtml(title, reportCss, html())}>Print</Button>
+          <Button icon={<FilePdfOutlined />} onClick={() => shiftReportToPdf(report).save(`${report.kind}-report-shift-${report.shift.id}.pdf`)}>
+            PDF
+          </Button>
+          <Button type='primary' onClick={onClose}>Done</Button>
+        </Space>
+      }
+    >
+      <style>{reportCss}</style>
+      <div style={{ display: 'flex', justifyContent: 'center', border: '1px solid #eee', maxHeight: 480, overflowY: 'auto' }}>
+        <div className='shift-report'>
+          {sections.map(section => (
+            <div key={section.title}>
+              <h4>{section.title}</h4>
+              {section.rows.map((row, i) => (
+                <div key={i} className={`row${row.strong ? ' strong' : ''}`}>
+                  <span>{row.label}</span>
+                  <span>{row.value}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,313 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Button,
+  Drawer,
+  Form,
+  Input,
+  InputNumber,
+  Modal,
+  Radio,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Typography,
+  message,
+} from 'antd';
+import { EditOutlined, SettingOutlined } from '@ant-design/icons';
+import { useAuth } from '@/AuthPage';
+import { usePermissions } from '@/hooks/usePermissions';
+import { stockApi } from '@/api/stock';
+import { getErrorMessage } from '@/utils/apiClient';
+import {
+  DEFAULT_STOCK_LEDGER_SETTINGS,
+  STOCK_MOVEMENT_COLORS,
+  STOCK_MOVEMENT_LABELS,
+  adjustmentReasonLabel,
+  adjustmentValue,
+  reasonsFor,
+} from '@/utils/stockLedger';
+import type {
+  LedgerAccount,
+  StockAdjustmentReason,
+  StockLedgerSettings,
+  StockMovement,
+  StockMovementType,
+} from '@/types/pos';
+import type { Product } from '@/types/type';
+import { money } from '@/utils/money';
+
+const { Text } = Typography;
+
+interface AdjustmentFormValues {
+  direction: 'in' | 'out';
+  quantity: number;
+  reason: StockAdjustmentReason;
+  unitCost: number;
+  notes?: string;
+}
+
+interface StockMovementsDrawerProps {
+  product: Product | null;
+  onClose: () => void;
+  /** Called after an adjustment so the product list shows the new quantity. */
+  onAdjusted: () => void;
+}
+
+/** Movement history for one product, with reason-coded stock adjustments. */
+export default function StockMovementsDrawer({ product, onClose, onAdjusted }: StockMovementsDrawerProps) {
+  const [messageApi, contextHolder] = message.useMessage();
+  const { userName, activeBranch } = useAuth();
+  const { can } = usePermissions();
+  const [adjustForm] = Form.useForm<AdjustmentFormValues>();
+  const [settingsForm] = Form.useForm<StockLedgerSettings>();
+
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [typeFilter, setTypeFilter] = useState<StockMovementType | undefined>(undefined);
+  const [loading, setLoading] = useState(false);
+  const [adjustOpen, setAdjustOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [settings, setSettings] = useState<StockLedgerSettings>(DEFAULT_STOCK_LEDGER_SETTINGS);
+  const [accounts, setAccounts] = useState<LedgerAccount[]>([]);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  const direction = Form.useWatch('direction', adjustForm) ?? 'out';
+  const quantity = Form.useWatch('quantity', adjustForm) ?? 0;
+  const unitCost = Form.useWatch('unitCost', adjustForm) ?? 0;
+
+  const productId = product?.id;
+
+  const loadMovements = useCallback(async () => {
+    if (!productId) return;
+    setLoading(true);
+    try {
+      setMovements((await stockApi.movements(productId, { type: typeFilter })) || []);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to load stock movements.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [productId, typeFilter, messageApi]);
+
+  useEffect(() => {
+    loadMovements();
+  }, [loadMovements]);
+
+  useEffect(() => {
+    if (!productId) return;
+    stockApi
+      .settings()
+      .then(data => setSettings({ ...DEFAULT_STOCK_LEDGER_SETTINGS, ...data }))
+      .catch(err => console.warn('Failed to load stock ledger settings:', err));
+    stockApi
+      .accounts()
+      .then(data => setAccounts(data || []))
+      .catch(err => console.warn('Failed to load ledger accounts:', err));
+  }, [productId]);
+
+  const accountName = (id: string | null) => {
+    const account = accounts.find(a => String(a.id) === String(id));
+    return account ? `${account.code} ${account.name}` : null;
+  };
+
+  const openAdjust = () => {
+    adjustForm.resetFields();
+    adjustForm.setFieldsValue({ direction: 'out', unitCost: Number(product?.unitPurchasePrice) || 0 });
+    setAdjustOpen(true);
+  };
+
+  const handleAdjust = async () => {
+    if (!productId) return;
+    const values = await adjustForm.validateFields();
+    const signed = values.direction === 'out' ? -values.quantity : values.quantity;
+    if (values.direction === 'out' && values.quantity > (product?.qty ?? 0)) {
+      messageApi.error(`Only ${product?.qty ?? 0} in stock.`);
+      return;
+    }
+    setSaving(true);
+    try {
+      await stockApi.adjust(productId, {
+        quantity: signed,
+        reason: values.reason,
+        notes: values.notes?.trim() || null,
+        unitCost: values.unitCost,
+        branch: activeBranch,
+        processedBy: userName,
+      });
+      messageApi.success('Stock adjusted.');
+      setAdjustOpen(false);
+      loadMovements();
+      onAdjusted();
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to adjust stock.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    const values = await settingsForm.validateFields();
+    try {
+      const saved = await stockApi.saveSettings(values);
+      setSettings({ ...DEFAULT_STOCK_LEDGER_SETTINGS, ...(saved || values) });
+      setSettingsOpen(false);
+      messageApi.success('Posting accounts saved.');
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to save posting accounts.'));
+    }
+  };
+
+  const accountOptions = (types: LedgerAccount['type'][]) =>
+    accounts.filter(a => types.includes(a.type)).map(a => ({ label: `${a.code} ${a.name}`, value: String(a.id) }));
+
+  const value = adjustmentValue(direction === 'out' ? -quantity : quantity, unitCost);
+  const postingConfigured = !!settings.inventoryAccountId && !!settings.adjustmentAccountId;
+
+  return (
+    <>
+      {contextHolder}
+      <Drawer
+        title={product ? `Stock movements: ${product.name}` : ''}
+        open={!!product}
+        onClose={onClose}
+        width={760}
+        extra={
+          <Space>
+            {can('stock.settings') && (
+              <Button icon={<SettingOutlined />} onClick={() => setSettingsOpen(true)}>
+                Accounts
+              </Button>
+            )}
+            {can('stock.adjust') && (
+              <Button type='primary' icon={<EditOutlined />} onClick={openAdjust}>
+                Adjust
+              </Button>
+            )}
+          </Space>
+        }
+      >
+        <Space style={{ marginBottom: 12, width: '100%', justifyContent: 'space-between' }}>
+          <Text>
+            On hand: <b>{product?.qty ?? 0}</b> {product?.unit ?? ''}
+          </Text>
+          <Select
+            allowClear
+            placeholder='All movements'
+            value={typeFilter}
+            onChange={setTypeFilter}
+            options={(Object.keys(STOCK_MOVEMENT_LABELS) as StockMovementType[]).map(t => ({
+              label: STOCK_MOVEMENT_LABELS[t],
+              value: t,
+            }))}
+            style={{ width: 180 }}
+          />
+        </Space>
+        <Table<StockMovement>
+          rowKey='id'
+          size='small'
+          loading={loading}
+          dataSource={movements}
+          pagination={{ pageSize: 25 }}
+          scroll={{ x: 700 }}
+          columns={[
+            { title: 'When', dataIndex: 'created_at', render: (d: string) => new Date(d).toLocaleString() },
+            {
+              title: 'Type',
+              dataIndex: 'type',
+              render: (t: StockMovementType) => <Tag color={STOCK_MOVEMENT_COLORS[t]}>{STOCK_MOVEMENT_LABELS[t]}</Tag>,
+            },
+            {
+              title: 'Qty',
+              dataIndex: 'quantity',
+              align: 'right',
+              render: (q: number) => <Text type={q < 0 ? 'danger' : 'success'}>{q > 0 ? `+${q}` : q}</Text>,
+            },
+            { title: 'Balance', dataIndex: 'balance_after', align: 'right' },
+            {
+              title: 'Value',
+              dataIndex: 'value',
+              align: 'right',
+              render: (v: number | null) => (v === null ? '-' : money(Number(v))),
+            },
+            {
+              title: 'Reason / reference',
+              key: 'reason',
+              render: (_, m) => (
+                <>
+                  {m.reason_code && <div>{adjustmentReasonLabel(m.reason_code)}</div>}
+                  {m.reference && <Text type='secondary'>{m.reference}</Text>}
+                  {m.notes && <div><Text type='secondary'>{m.notes}</Text></div>}
+                </>
+              ),
+            },
+            { title: 'By', dataIndex: 'user_name', render: (u: string | null) => u || '-' },
+          ]}
+        />
+      </Drawer>
+
+      <Modal
+        open={adjustOpen}
+        title={product ? `Adjust stock: ${product.name}` : ''}
+        okText='Post adjustment'
+        okButtonProps={{ loading: saving }}
+        onOk={handleAdjust}
+        onCancel={() => setAdjustOpen(false)}
+      >
+        <Form form={adjustForm} layout='vertical' initialValues={{ direction: 'out' }}>
+          <Form.Item name='direction'>
+            <Radio.Group onChange={() => adjustForm.setFieldValue('reason', undefined)}>
+              <Radio.Button value='out'>Remove stock</Radio.Button>
+              <Radio.Button value='in'>Add stock</Radio.Button>
+            </Radio.Group>
+          </Form.Item>
+          <Form.Item name='reason' label='Reason' rules={[{ required: true, message: 'Select a reason code' }]}>
+            <Select options={reasonsFor(direction).map(r => ({ label: r.label, value: r.code }))} />
+          </Form.Item>
+          <Form.Item
+            name='quantity'
+            label='Quantity'
+            rules={[{ required: true, type: 'number', min: 1, message: 'Enter the quantity' }]}
+          >
+            <InputNumber min={1} precision={0} addonAfter={product?.unit || undefined} style={{ width: '100%' }} />
+          </Form.Item>
+          <Form.Item name='unitCost' label='Unit cost' rules={[{ required: true, type: 'number', min: 0 }]}>
+            <InputNumber min={0} step={0.01} prefix='R' style={{ width: '100%' }} />
+          </Form.Item>
+          <Form.Item name='notes' label='Notes'>
+            <Input.TextArea rows={2} />
+          </Form.Item>
+        </Form>
+        <Text>
+          Value impact: <b style={{ color: value < 0 ? 'red' : 'green' }}>{money(value)}</b>
+        </Text>
+        <div>
+          {postingConfigured ? (
+            <Text type='secondary'>
+              Posted between {accountName(settings.inventoryAccountId) ?? 'inventory'} and{' '}
+              {accountName(settings.adjustmentAccountId) ?? 'inventory adjustments'}.
+            </Text>
+          ) : (
+            <Text type='warning'>No posting accounts set: the server uses its default inventory adjustment account.</Text>
+          )}
+        </div>
+      </Modal>
+
+      <Modal
+        open={settingsOpen}
+        title='Stock adjustment posting'
+        onCancel={() => setSettingsOpen(false)}
+        onOk={handleSaveSettings}
+        destroyOnClose
+      >
+        <Form form={settingsForm} layout='vertical' initialValues={settings} preserve={false}>
+          <Form.Item name='inventoryAccountId' label='Inventory account'>
+            <Select allowClear showSearch optionFilterProp='label' options={accountOptions(['Asset'])} />
+          </Form.Item>
+          <Form.Item name='adjustmentAccountId' label='Inventory adjustment account'>
+            <Select allowClear showSearch optionFilterProp='label' options={accountOptions(['Expense', 'Income'])} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { Button, Col, Input, InputNumber, Row, Select, Typography } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { vouchersApi } from '@/api/vouchers';
+import { getErrorMessage } from '@/utils/apiClient';
+import { newTender, type TenderInput, type TenderSummary } from '@/utils/tenders';
+import { normalizeVoucherCode, voucherProblem } from '@/utils/vouchers';
+import { pointsForValue, redemptionProblem } from '@/utils/loyalty';
+import type { CustomerFrontend, LoyaltySettings, TenderMethod } from '@/types/pos';
+
+const { Text } = Typography;
+const { Option } = Select;
+
+const METHODS: TenderMethod[] = ['Cash', 'Bank', 'Credit', 'Voucher', 'StoreCredit', 'Points'];
+
+const METHOD_LABELS: Record<TenderMethod, string> = {
+  Cash: 'Cash',
+  Bank: 'Bank',
+  Credit: 'Credit (on account)',
+  Voucher: 'Gift voucher',
+  StoreCredit: 'Store credit',
+  Points: 'Loyalty points',
+};
+
+interface TenderPanelProps {
+  tenders: TenderInput[];
+  onChange: (tenders: TenderInput[]) => void;
+  summary: TenderSummary;
+  total: number;
+  customer: CustomerFrontend | null;
+  loyaltySettings: LoyaltySettings;
+  dueDate: string | null;
+  onDueDateChange: (value: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Checkout payment panel. Accepts any number of tenders (e.g. part cash, part
+ * card, rest on account) and shows the running balance; change is only paid
+ * out of the cash portion.
+ */
+export default function TenderPanel({
+  tenders,
+  onChange,
+  summary,
+  total,
+  customer,
+  loyaltySettings,
+  dueDate,
+  onDueDateChange,
+  disabled,
+}: TenderPanelProps) {
+  const [checking, setChecking] = useState<string | null>(null);
+  const [voucherErrors, setVoucherErrors] = useState<Record<string, string>>({});
+
+  const updateTender = (key: string, patch: Partial<TenderInput>) =>
+    onChange(tenders.map(t => (t.key === key ? { ...t, ...patch } : t)));
+
+  // Vouchers are checked online before they count towards the sale; the
+  // amount is trimmed to whatever the voucher can still cover.
+  const checkVoucher = async (tender: TenderInput) => {
+    const code = normalizeVoucherCode(tender.voucherCode ?? '');
+    if (!code) return;
+    setChecking(tender.key);
+    setVoucherErrors(prev => ({ ...prev, [tender.key]: '' }));
+    try {
+      const voucher = await vouchersApi.lookup(code);
+      const problem = voucherProblem(voucher);
+      if (problem) {
+        setVoucherErrors(prev => ({ ...prev, [tender.key]: problem }));
+        updateTender(tender.key, { voucherCode: code, voucherBalance: undefined });
+        return;
+      }
+      const balance = Number(voucher.balance) || 0;
+      const wanted = tender.amount > 0 ? tender.amount : summary.remaining;
+      updateTender(tender.key, { voucherCode: code, voucherBalance: balance, amount: Math.min(balance, wanted) });
+    } catch (err) {
+      setVoucherErrors(prev => ({ ...prev, [tender.key]: getErrorMessage(err, 'Voucher not found.') }));
+      updateTender(tender.key, { voucherCode: code, voucherBalance: undefined });
+    } finally {
+      setChecking(null);
+    }
+  };
+
+  const removeTender = (key: string) => onChange(tenders.filter(t => t.key !== key));
+
+  // New rows default to whatever is still owed so "add tender" is one click
+  // for the common "rest on card" case.
+  const addTender = () => onChange([...tenders, newTender('Bank', summary.remaining)]);
+
+  // Points are only a tender when the programme redeems them that way
+  const methods = METHODS.filter(
+    m => m !== 'Points' || (loyaltySettings.enabled && loyaltySettings.redeemAs === 'tender')
+  );
+  const pointsUsed = pointsForValue(summary.pointsAmount, loyaltySettings);
+  const pointsError = redemptionProblem(pointsUsed, summary.pointsAmount, customer, loyaltySettings, total);
+
+  const storeCredit = customer?.storeCredit || 0;
+  const creditLimit = customer?.creditLimit || 0;
+  const balanceAfter = (customer?.balanceDue || 0) + summary.creditAmount;
+
+  return (
+    <>
+      <Text strong>Payment</Text>
+      {tenders.map(tender => (
+        <Row gutter={8} align='middle' key={tender.key} style={{ marginTop: 8 }}>
+          <Col flex='120px'>
+            <Select
+              value={tender.method}
+              onChange={method => updateTender(tender.key, { method })}
+              style={{ width: '100%' }}
+              disabled={disabled}
+            >
+              {methods.map(method => (
+                <Option key={method} value={method}>
+                  {METHOD_LABELS[method]}
+                </Option>
+              ))}
+            </Select>
+          </Col>
+          <Col flex='1 1 auto'>
+            <InputNumber
+              min={0}
+              value={tender.amount}
+              onChange={value => updateTender(tender.key, { amount: value ?? 0 })}
+              prefix='R'
+              style={{ width: '100%' }}
+              disabled={disabled}
+            />
+          </Col>
+          <Col>
+            <Button
+              icon={<DeleteOutlined />}
+              onClick={() => removeTender(tender.key)}
+              disabled={disabled || tenders.length === 1}
+            />
+          </Col>
+          {tender.method === 'Voucher' && (
+            <Col span={24} style={{ marginTop: 4 }}>
+              <Input.Search
+                placeholder='Voucher code'
+                value={tender.voucherCode ?? ''}
+                onChange={e => updateTender(tender.key, { voucherCode: e.target.value, voucherBalance: undefined })}
+                onSearch={() => checkVoucher(tender)}
+                enterButton='Check'
+                loading={checking === tender.key}
+                disabled={disabled}
+              />
+              {voucherErrors[tender.key] ? (
+                <Text type='danger'>{voucherErrors[tender.key]}</Text>
+              ) : (
+                tender.voucherBalance !== undefined && (
+                  <Text type='secondary'>Balance on voucher: R{tender.voucherBalance.toFixed(2)}</Text>
+                )
+              )}
+            </Col>
+          )}
+        </Row>
+      ))}
+      <Button
+        type='dashed'
+        icon={<PlusOutlined />}
+        onClick={addTender}
+        disabled={disabled || summary.remaining <= 0}
+        style={{ marginTop: 8 }}
+        block
+      >
+        Add tender
+      </Button>
+
+      <div style={{ marginTop: 8 }}>
+        {summary.remaining > 0 ? (
+          <Text strong style={{ color: 'red' }}>Remaining: R{summary.remaining.toFixed(2)}</Text>
+        ) : (
+          <Text strong>
+            Change:&nbsp;<span style={{ color: 'green' }}>R{summary.change.toFixed(2)}</span>
+          </Text>
+        )}
+        {summary.nonCashOverpaid && (
+          <div>
+            <Text type='danger'>Only cash can exceed the sale total.</Text>
+          </div>
+        )}
+        {summary.voucherError && (
+          <div>
+            <Text type='danger'>{summary.voucherError}</Text>
+          </div>
+        )}
+        {summary.pointsAmount > 0 && (
+          <div>
+            {pointsError ? (
+              <Text type='danger'>{pointsError}</Text>
+            ) : (
+              <Text type='secondary'>
+                Uses {pointsUsed} points; {(customer?.loyaltyPoints ?? 0) - pointsUsed} left.
+              </Text>
+            )}
+          </div>
+        )}
+        {summary.storeCreditAmount > 0 && (
+          <div>
+            {!customer ? (
+              <Text type='danger'>Select the customer whose store credit is being used.</Text>
+            ) : summary.storeCreditAmount > storeCredit ? (
+              <Text type='danger'>{customer.name} only has R{storeCredit.toFixed(2)} store credit.</Text>
+            ) : (
+              <Text type='secondary'>Store credit left after this sale: R{(storeCredit - summary.storeCreditAmount).toFixed(2)}</Text>
+            )}
+          </div>
+        )}
+      </div>
+
+      {summary.creditAmount > 0 && (
+        <div style={{ marginTop: 8 }}>
+          <Text>Due Date</Text>
+          <Input
+            type='date'
+            value={dueDate || ''}
+            onChange={e => onDueDateChange(e.target.value || null)}
+            style={{ width: '100%' }}
+            disabled={disabled}
+          />
+          {!customer ? (
+            <Text type='danger'>Select a customer to put part of the sale on account.</Text>
+          ) : customer.onHold ? (
+            <Text type='danger'>{customer.name}'s account is on hold for overdue payments.</Text>
+          ) : creditLimit > 0 && balanceAfter > creditLimit ? (
+            <Text type='danger'>
+              Credit limit of R{creditLimit.toFixed(2)} exceeded: balance would be R{balanceAfter.toFixed(2)}.
+            </Text>
+          ) : (
+            <Text type='warning' style={{ color: 'orange' }}>
+              R{summary.creditAmount.toFixed(2)} on account. Ensure customer credit policy is met.
+            </Text>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
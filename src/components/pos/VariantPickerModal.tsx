@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Button, Modal, Radio, Space, Typography } from 'antd';
+import { sameOptions, variantLabel } from '@/utils/variants';
+import type { ProductDB, VariantOptions } from '@/types/pos';
+
+const { Text } = Typography;
+
+interface VariantPickerModalProps {
+  /** Mount with a key per parent: the first variant in stock is preselected. */
+  parent: ProductDB;
+  variants: ProductDB[];
+  /** Sellable stock after lay-bys and parked carts. */
+  stockOf: (product: ProductDB) => number;
+  onPick: (variant: ProductDB) => void;
+  onClose: () => void;
+}
+
+/** Picks the size/colour/etc. of a product with variants before it goes in the cart. */
+export default function VariantPickerModal({ parent, variants, stockOf, onPick, onClose }: VariantPickerModalProps) {
+  const attributes = parent.variant_attributes ?? [];
+  const [options, setOptions] = useState<VariantOptions>(
+    () => ({ ...(variants.find(v => !v.is_service && stockOf(v) > 0) ?? variants[0])?.variant_options })
+  );
+
+  const variant = variants.find(v => sameOptions(v.variant_options, options));
+
+  // A value is offered when some variant has it together with the other values already chosen.
+  const available = (name: string, value: string) =>
+    variants.some(v =>
+      v.variant_options?.[name] === value &&
+      attributes.every(a => a.name === name || !options[a.name] || v.variant_options?.[a.name] === options[a.name])
+    );
+
+  return (
+    <Modal
+      open
+      title={parent.name}
+      onCancel={onClose}
+      footer={
+        <Button type='primary' disabled={!variant} onClick={() => variant && onPick(variant)}>
+          Select
+        </Button>
+      }
+    >
+      <Space direction='vertical' style={{ width: '100%' }}>
+        {attributes.map(attribute => (
+          <div key={attribute.name}>
+            <Text strong>{attribute.name}</Text>
+            <div>
+              <Radio.Group
+                optionType='button'
+                value={options[attribute.name]}
+                onChange={e => setOptions(prev => ({ ...prev, [attribute.name]: e.target.value }))}
+                options={attribute.values.map(value => ({
+                  label: value,
+                  value,
+                  disabled: !variants.some(v => v.variant_options?.[attribute.name] === value),
+                  style: available(attribute.name, value) ? undefined : { opacity: 0.5 },
+                }))}
+              />
+            </div>
+          </div>
+        ))}
+        {variant ? (
+          <Text>
+            {variantLabel(variant.variant_options, attributes)} · R{Number(variant.unit_price).toFixed(2)} · Stock:{' '}
+            <Text type={stockOf(variant) > 0 ? undefined : 'danger'}>{stockOf(variant)}</Text> {variant.unit ?? ''}
+            {variant.sku && <Text type='secondary'> · {variant.sku}</Text>}
+          </Text>
+        ) : (
+          <Text type='warning'>This combination isn't stocked.</Text>
+        )}
+      </Space>
+    </Modal>
+  );
+}
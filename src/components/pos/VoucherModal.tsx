@@ -0,0 +1,95 @@
+import { useRef } from 'react';
+import { Button, Modal, QRCode, Space, Typography } from 'antd';
+import { FilePdfOutlined, PrinterOutlined } from '@ant-design/icons';
+import { escapeHtml, printHtml } from '@/utils/printFrame';
+import { voucherToPdf } from '@/utils/vouchers';
+import type { Voucher } from '@/types/pos';
+import type { ReceiptCompany } from '@/types/receipt';
+
+const { Text } = Typography;
+
+const voucherCss = `
+  .voucher { border: 2px solid #000; border-radius: 6px; padding: 12px; margin: 0 auto 12px; max-width: 360px;
+    font: 13px/1.4 Arial, sans-serif; color: #000; page-break-inside: avoid; }
+  .voucher .head { display: flex; justify-content: space-between; font-weight: bold; }
+  .voucher .value { font-size: 26px; font-weight: bold; margin: 6px 0; }
+  .voucher .code { font: bold 16px 'Courier New', monospace; letter-spacing: 1px; }
+  .voucher .muted { color: #555; font-size: 11px; }
+  .voucher img, .voucher canvas { display: block; margin: 6px auto; }
+`;
+
+interface VoucherModalProps {
+  vouchers: Voucher[];
+  company: ReceiptCompany;
+  /** Shown for vouchers rung up offline: they only work once the sale has synced. */
+  pendingSync?: boolean;
+  onClose: () => void;
+}
+
+/** Printable gift vouchers with a QR code of the voucher code, for the till to hand over. */
+export default function VoucherModal({ vouchers, company, pendingSync, onClose }: VoucherModalProps) {
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  if (vouchers.length === 0) return null;
+
+  const qrDataUrl = (code: string) =>
+    listRef.current?.querySelector<HTMLCanvasElement>(`[data-code="${code}"] canvas`)?.toDataURL('image/png');
+
+  const handlePrint = () => {
+    const html = vouchers
+      .map(v => {
+        const qr = qrDataUrl(v.code);
+        return `<div class="voucher">
+          <div class="head"><span>${escapeHtml(company.name)}</span><span>GIFT VOUCHER</span></div>
+          <div class="value">R${Number(v.initial_value).toFixed(2)}</div>
+          <div class="code">${escapeHtml(v.code)}</div>
+          ${v.recipient ? `<div>For: ${escapeHtml(v.recipient)}</div>` : ''}
+          <div class="muted">${v.expires_at ? `Valid until ${v.expires_at.slice(0, 10)}` : 'No expiry date'}</div>
+          ${qr ? `<img src="${qr}" width="120" />` : ''}
+        </div>`;
+      })
+      .join('');
+    printHtml('Gift vouchers', voucherCss, html);
+  };
+
+  const handlePdf = () =>
+    vouchers.forEach(v => voucherToPdf(v, company, qrDataUrl(v.code)).save(`voucher-${v.code}.pdf`));
+
+  return (
+    <Modal
+      open
+      onCancel={onClose}
+      title={vouchers.length === 1 ? 'Gift voucher' : `${vouchers.length} gift vouchers`}
+      width={440}
+      footer={
+        <Space>
+          <Button icon={<PrinterOutlined />} onClick={handlePrint}>Print</Button>
+          <Button icon={<FilePdfOutlined />} onClick={handlePdf}>PDF</Button>
+          <Button type='primary' onClick={onClose}>Done</Button>
+        </Space>
+      }
+    >
+      <style>{voucherCss}</style>
+      {pendingSync && (
+        <Text type='warning' style={{ display: 'block', marginBottom: 8 }}>
+          Captured offline: the voucher can be spent once the sale has synced.
+        </Text>
+      )}
+      <div ref={listRef} style={{ maxHeight: 480, overflowY: 'auto' }}>
+        {vouchers.map(v => (
+          <div className='voucher' key={v.code} data-code={v.code}>
+            <div className='head'>
+              <span>{company.name}</span>
+              <span>GIFT VOUCHER</span>
+            </div>
+            <div className='value'>R{Number(v.initial_value).toFixed(2)}</div>
+            <div className='code'>{v.code}</div>
+            {v.recipient && <div>For: {v.recipient}</div>}
+            <div className='muted'>{v.expires_at ? `Valid until ${v.expires_at.slice(0, 10)}` : 'No expiry date'}</div>
+            <QRCode value={v.code} size={120} type='canvas' bordered={false} />
+          </div>
+        ))}
+      </div>
+    </Modal>
+  );
+}
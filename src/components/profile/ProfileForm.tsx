@@ -14,6 +14,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Camera, Save } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useAuth } from '../../AuthPage';
+import { profileApi } from '@/api/profile';
 
 const { TextArea } = Input;
 
@@ -51,31 +52,27 @@ const [confirmPassword, setConfirmPassword] = useState('');
     const fetchProfile = async () => {
       if (!isAuthenticated || !token) return;
       try {
-        const res = await fetch('https://quantnow.onrender.com/api/profile', {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        if (!res.ok) throw new Error('Failed to load');
-        const data = await res.json();
+        const data = await profileApi.get();
         const [firstName, ...lastNameParts] = data.name.split(' ');
         setFormData({
           ...formData,
           firstName,
           lastName: lastNameParts.join(' '),
           email: data.email,
-          phone: data.phone,
-          address: data.address,
-          company: data.company,
-          position: data.position,
-          city: data.city,
-          province: data.province,
-          postalCode: data.postal_code,
-          country: data.country,
-          bio: data.bio,
-          website: data.website,
-          linkedin: data.linkedin,
-          timezone: data.timezone,
-          language: data.language,
-          currency: data.currency,
+          phone: data.phone ?? '',
+          address: data.address ?? '',
+          company: data.company ?? '',
+          position: data.position ?? '',
+          city: data.city ?? '',
+          province: data.province ?? '',
+          postalCode: data.postal_code ?? '',
+          country: data.country ?? '',
+          bio: data.bio ?? '',
+          website: data.website ?? '',
+          linkedin: data.linkedin ?? '',
+          timezone: data.timezone ?? '',
+          language: data.language ?? '',
+          currency: data.currency ?? '',
           userId: data.user_id,
         });
       } catch (err) {
@@ -117,16 +114,7 @@ const handleSave = async () => {
     };
 
     // Update profile
-    const res = await fetch('https://quantnow.onrender.com/api/profile', {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token}`,
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (!res.ok) throw new Error('Profile update failed');
+    await profileApi.update(payload);
 
     // If password change is requested
     if (changePassword) {
@@ -135,16 +123,7 @@ const handleSave = async () => {
         return;
       }
 
-      const passRes = await fetch('https://quantnow.onrender.com/api/profile/password', {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({ password: newPassword }),
-      });
-
-      if (!passRes.ok) throw new Error('Password update failed');
+      await profileApi.changePassword(newPassword);
     }
 
     message.success('Profile saved successfully');
@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/AuthPage';
+import { usePermissions } from '@/hooks/usePermissions';
+import { loyaltyApi } from '@/api/loyalty';
+import { getErrorMessage } from '@/utils/apiClient';
+import { loyaltyTier, pointsValue } from '@/utils/loyalty';
+import type { LoyaltySettings, LoyaltyTransaction, LoyaltyTransactionType } from '@/types/pos';
+
+const TYPE_LABELS: Record<LoyaltyTransactionType, string> = {
+  earn: 'Earned',
+  redeem: 'Redeemed',
+  return: 'Returned goods',
+  adjust: 'Adjustment',
+  expire: 'Expired',
+};
+
+interface CustomerLoyaltyDialogProps {
+  customer: { id: string; name: string; loyalty_points?: number; loyalty_points_year?: number } | null;
+  settings: LoyaltySettings;
+  onClose: () => void;
+  /** Called after a manual adjustment so the customer list can refresh its balances. */
+  onAdjusted: () => void;
+}
+
+/** Points balance, tier and ledger for one customer, with manual adjustments for managers. */
+export function CustomerLoyaltyDialog({ customer, settings, onClose, onAdjusted }: CustomerLoyaltyDialogProps) {
+  const { toast } = useToast();
+  const { userName } = useAuth();
+  const { can } = usePermissions();
+  const [ledger, setLedger] = useState<LoyaltyTransaction[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [points, setPoints] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const customerId = customer?.id;
+
+  const loadLedger = useCallback(async () => {
+    if (!customerId) return;
+    setLoading(true);
+    try {
+      setLedger((await loyaltyApi.ledger(customerId)) || []);
+    } catch (err) {
+      toast({ title: 'Error', description: getErrorMessage(err, 'Failed to load points history.'), variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [customerId, toast]);
+
+  useEffect(() => {
+    setLedger([]);
+    setPoints('');
+    setReason('');
+    loadLedger();
+  }, [loadLedger]);
+
+  const handleAdjust = async () => {
+    const value = Math.trunc(Number(points));
+    if (!customerId || !value || !reason.trim()) {
+      toast({ title: 'Error', description: 'Enter the points (negative to deduct) and a reason.', variant: 'destructive' });
+      return;
+    }
+    setSaving(true);
+    try {
+      await loyaltyApi.adjust(customerId, { points: value, reason: reason.trim(), processedBy: userName });
+      toast({ title: 'Success', description: `${value > 0 ? 'Added' : 'Deducted'} ${Math.abs(value)} points.` });
+      setPoints('');
+      setReason('');
+      await loadLedger();
+      onAdjusted();
+    } catch (err) {
+      toast({ title: 'Error', description: getErrorMessage(err, 'Failed to adjust points.'), variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const balance = ledger[0]?.balance_after ?? customer?.loyalty_points ?? 0;
+  const tier = loyaltyTier(customer?.loyalty_points_year ?? 0, settings);
+
+  return (
+    <Dialog open={!!customer} onOpenChange={open => !open && onClose()}>
+      <DialogContent className='sm:max-w-[640px]'>
+        <DialogHeader>
+          <DialogTitle>Loyalty points: {customer?.name}</DialogTitle>
+        </DialogHeader>
+        <div className='flex items-center gap-3 text-sm'>
+          <span className='text-2xl font-semibold'>{balance}</span>
+          <span className='text-muted-foreground'>points (R{pointsValue(balance, settings).toFixed(2)})</span>
+          {tier && <Badge variant='secondary'>{tier.name}</Badge>}
+        </div>
+
+        <div className='max-h-80 overflow-y-auto'>
+          {loading ? (
+            <div className='flex justify-center py-6'>
+              <Loader2 className='h-6 w-6 animate-spin' />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className='text-right'>Points</TableHead>
+                  <TableHead className='text-right'>Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ledger.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className='text-center'>
+                      No points activity yet.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  ledger.map(t => (
+                    <TableRow key={t.id}>
+                      <TableCell>{t.created_at.slice(0, 10)}</TableCell>
+                      <TableCell>{TYPE_LABELS[t.type]}</TableCell>
+                      <TableCell>
+                        {t.sale_id ? `Sale #${t.sale_id}` : t.description || '-'}
+                        {t.recorded_by && <span className='text-muted-foreground'> · {t.recorded_by}</span>}
+                      </TableCell>
+                      <TableCell className={`text-right ${t.points < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {t.points > 0 ? `+${t.points}` : t.points}
+                      </TableCell>
+                      <TableCell className='text-right'>{t.balance_after}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        {can('loyalty.adjust') && (
+          <div className='grid grid-cols-[120px_1fr_auto] items-end gap-2'>
+            <div>
+              <Label htmlFor='loyalty-points'>Points</Label>
+              <Input id='loyalty-points' type='number' step={1} value={points} onChange={e => setPoints(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor='loyalty-reason'>Reason</Label>
+              <Input id='loyalty-reason' value={reason} onChange={e => setReason(e.target.value)} />
+            </div>
+            <Button onClick={handleAdjust} disabled={saving}>
+              {saving && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+              Adjust
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -32,7 +32,12 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Plus, Search, Eye, Edit, User, Trash2, Loader2 } from 'lucide-react';
 import { CustomerForm } from './CustomerForm'; // Assuming this component exists and handles form input
+import { CustomerLoyaltyDialog } from './CustomerLoyaltyDialog';
 import { useToast } from '@/hooks/use-toast';
+import { apiClient } from '@/utils/apiClient';
+import { loyaltyApi } from '@/api/loyalty';
+import { DEFAULT_LOYALTY_SETTINGS, loyaltyTier } from '@/utils/loyalty';
+import type { LoyaltySettings } from '@/types/pos';
 
 interface Customer {
   id: string;
@@ -41,6 +46,8 @@ interface Customer {
   phone?: string;
   address?: string;
   status: 'Active' | 'Inactive'; // Example statuses
+  loyalty_points?: number;
+  loyalty_points_year?: number;
   // Add other customer-specific fields as per your backend
 }
 
@@ -61,35 +68,15 @@ export function CustomerManagement() {
   const [currentCustomer, setCurrentCustomer] = useState<Customer | undefined>(
     undefined
   );
+  const [loyaltySettings, setLoyaltySettings] = useState<LoyaltySettings>(DEFAULT_LOYALTY_SETTINGS);
+  const [loyaltyCustomer, setLoyaltyCustomer] = useState<Customer | null>(null);
   const { toast } = useToast();
 
-  const getAuthHeaders = useCallback(() => {
-    const token = localStorage.getItem('token');
-    // ADD THIS LOG
-    console.log('Frontend: Token from localStorage in getAuthHeaders:', token ? token.substring(0, 10) + '...' : 'NONE');
-    return token ? { 'Authorization': `Bearer ${token}` } : {};
-  }, []);
-
   const fetchCustomers = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const headers = getAuthHeaders(); // Call getAuthHeaders here to get the current headers
-      // ADD THIS LOG
-      console.log('Frontend: Headers for fetchCustomers:', headers);
-
-      const response = await fetch('https://quantnow.onrender.com/api/customers', {
-        headers: {
-          'Content-Type': 'application/json',
-          ...headers, // Use the headers from getAuthHeaders
-        },
-      });
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Backend response for ${response.status}: ${errorText}`);
-        throw new Error(`HTTP error! Status: ${response.status}`);
-      }
-      const data: Customer[] = await response.json();
+      const data = await apiClient.get<Customer[]>('/api/customers');
       setCustomers(data);
     } catch (err) {
       console.error('Failed to fetch customers:', err);
@@ -97,7 +84,7 @@ export function CustomerManagement() {
     } finally {
       setLoading(false);
     }
-  }, [getAuthHeaders]); // getAuthHeaders is already a dependency and memoized
+  }, []);
 
   useEffect(() => {
     // ADD THIS LOG
@@ -105,6 +92,13 @@ export function CustomerManagement() {
     fetchCustomers();
   }, [fetchCustomers]);
 
+  useEffect(() => {
+    loyaltyApi
+      .settings()
+      .then(data => setLoyaltySettings({ ...DEFAULT_LOYALTY_SETTINGS, ...data }))
+      .catch(err => console.warn('Failed to load loyalty settings:', err));
+  }, []);
+
   const filteredCustomers = customers.filter(
     customer =>
       customer.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -115,19 +109,7 @@ export function CustomerManagement() {
   const handleCreateCustomer = async (customerData: CustomerSaveData) => {
     setLoading(true);
     try {
-      const response = await fetch('https://quantnow.onrender.com/api/customers', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...getAuthHeaders(),
-        },
-        body: JSON.stringify(customerData)
-      });
-
-      if (!response.ok) {
-        const errorBody = await response.json();
-        throw new Error(errorBody.message || 'Failed to create customer.');
-      }
+      await apiClient.post('/api/customers', customerData);
 
       toast({
         title: 'Success',
@@ -150,19 +132,7 @@ export function CustomerManagement() {
   const handleUpdateCustomer = async (id: string, customerData: CustomerSaveData) => {
     setLoading(true);
     try {
-      const response = await fetch(`https://quantnow.onrender.com/api/customers/${id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          ...getAuthHeaders(),
-        },
-        body: JSON.stringify(customerData)
-      });
-
-      if (!response.ok) {
-        const errorBody = await response.json();
-        throw new Error(errorBody.message || 'Failed to update customer.');
-      }
+      await apiClient.put(`/api/customers/${id}`, customerData);
 
       toast({
         title: 'Success',
@@ -186,15 +156,7 @@ export function CustomerManagement() {
   const handleDeleteCustomer = async (id: string) => {
     setLoading(true);
     try {
-      const response = await fetch(`https://quantnow.onrender.com/api/customers/${id}`, {
-        method: 'DELETE',
-        headers: getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        const errorBody = await response.json();
-        throw new Error(errorBody.message || 'Failed to delete customer.');
-      }
+      await apiClient.delete(`/api/customers/${id}`);
 
       toast({
         title: 'Success',
@@ -281,13 +243,14 @@ export function CustomerManagement() {
                   <TableHead>Phone</TableHead>
                   <TableHead>Address</TableHead>
                   <TableHead>Status</TableHead>
+                  {loyaltySettings.enabled && <TableHead className='text-right'>Points</TableHead>}
                   <TableHead className='text-right'>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredCustomers.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className='text-center'>
+                    <TableCell colSpan={loyaltySettings.enabled ? 7 : 6} className='text-center'>
                       No customers found.
                     </TableCell>
                   </TableRow>
@@ -303,8 +266,24 @@ export function CustomerManagement() {
                           {customer.status}
                         </Badge>
                       </TableCell>
+                      {loyaltySettings.enabled && (
+                        <TableCell className='text-right'>
+                          {customer.loyalty_points ?? 0}{' '}
+                          <span className='text-xs text-muted-foreground'>
+                            {loyaltyTier(customer.loyalty_points_year ?? 0, loyaltySettings)?.name}
+                          </span>
+                        </TableCell>
+                      )}
                       <TableCell className='text-right'>
                         <div className='flex justify-end space-x-2'>
+                          <Button
+                            variant='ghost'
+                            size='sm'
+                            title='Loyalty points'
+                            onClick={() => setLoyaltyCustomer(customer)}
+                          >
+                            <Eye className='h-4 w-4' />
+                          </Button>
                           <Button
                             variant='ghost'
                             size='sm'
@@ -346,6 +325,12 @@ export function CustomerManagement() {
           </div>
         )}
       </CardContent>
+      <CustomerLoyaltyDialog
+        customer={loyaltyCustomer}
+        settings={loyaltySettings}
+        onClose={() => setLoyaltyCustomer(null)}
+        onAdjusted={fetchCustomers}
+      />
     </Card>
   );
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 // src/components/staff/EmployeeList.tsx
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -26,6 +26,7 @@ import {
 import { Search, Loader2, Trash2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { type Employee } from '../payroll/PayrollDashboard'; // Assuming this path is correct
+import { apiClient } from '@/utils/apiClient';
 
 interface EmployeeListProps {
   employees: Employee[]; // Add employees prop to receive data from parent
@@ -35,8 +36,6 @@ interface EmployeeListProps {
   onEmployeeActionSuccess: () => Promise<void>; // To refresh list after add/edit/delete
 }
 
-const API_BASE_URL = 'https://quantnow.onrender.com'; // Define your API base URL
-
 export const EmployeeList: React.FC<EmployeeListProps> = ({
   employees, // Receive employees from props
   onEditEmployee,
@@ -49,26 +48,13 @@ export const EmployeeList: React.FC<EmployeeListProps> = ({
   const [searchTerm, setSearchTerm] = useState('');
   const { toast } = useToast();
 
-  const getAuthHeaders = useCallback(() => {
-    const token = localStorage.getItem('token');
-    return token ? { 'Authorization': `Bearer ${token}` } : {};
-  }, []);
-
   // No need for internal fetchEmployees here, as data is passed via props
   // The parent (PayrollDashboard) handles fetching and passing the data.
 
   const handleDeleteEmployee = async (id: string) => {
     setLoading(true); // Set loading for the delete operation
     try {
-      const response = await fetch(`${API_BASE_URL}/employees/${id}`, {
-        method: 'DELETE',
-        headers: getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        const errorBody = await response.json();
-        throw new Error(errorBody.message || 'Failed to delete employee.');
-      }
+      await apiClient.delete(`/employees/${id}`);
 
       toast({
         title: 'Success',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   Modal,
   Form,
@@ -12,6 +12,7 @@ import {
   Typography,
 } from 'antd';
 import type { Employee } from '../../types/payroll'; // Ensure this path is correct
+import { apiClient } from '@/utils/apiClient';
  // Ensure this path is correct
 import moment from 'moment';
 import { useAuth } from '../../AuthPage'; // Import useAuth
@@ -25,8 +26,6 @@ interface EmployeeRegistrationProps {
   initialData?: Employee | null; // For editing existing employee
 }
 
-const API_BASE_URL = 'https://quantnow.onrender.com'; // Your backend API base URL
-
 const EmployeeRegistration: React.FC<EmployeeRegistrationProps> = ({
   isOpen,
   onClose,
@@ -36,7 +35,6 @@ const EmployeeRegistration: React.FC<EmployeeRegistrationProps> = ({
   const [form] = Form.useForm();
   const [loading, setLoading] = useState(false);
   const { isAuthenticated } = useAuth(); // Only isAuthenticated is needed
-  const token = localStorage.getItem('token');
 
   useEffect(() => {
     if (isOpen) {
@@ -66,10 +64,6 @@ const EmployeeRegistration: React.FC<EmployeeRegistrationProps> = ({
     }
   }, [isOpen, initialData, form]);
 
-  const getAuthHeaders = useCallback(() => {
-    return token ? { Authorization: `Bearer ${token}` } : {};
-  }, [token]);
-
   const handleSubmit = async (values: Employee) => {
     if (!isAuthenticated) {
       message.error('You must be logged in to perform this action.');
@@ -90,32 +84,12 @@ const EmployeeRegistration: React.FC<EmployeeRegistrationProps> = ({
         },
       };
 
-      let response;
       if (initialData) {
         // Update existing employee
-        response = await fetch(`${API_BASE_URL}/employees/${initialData.id}`, {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-            ...getAuthHeaders(),
-          },
-          body: JSON.stringify(payload),
-        });
+        await apiClient.put(`/employees/${initialData.id}`, payload);
       } else {
         // Add new employee
-        response = await fetch(`${API_BASE_URL}/employees`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            ...getAuthHeaders(),
-          },
-          body: JSON.stringify(payload),
-        });
-      }
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+        await apiClient.post('/employees', payload);
       }
 
       message.success(
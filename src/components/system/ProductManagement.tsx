@@ -33,6 +33,7 @@ import {
 import { Plus, Search, Eye, Edit, Package, Trash2, Loader2 } from 'lucide-react'; // Added Loader2
 import { ProductForm } from './ProductForm'; // Assuming this component exists and handles form input
 import { useToast } from '@/hooks/use-toast';
+import { apiClient } from '@/utils/apiClient';
 
 // Define the Product interface matching the frontend's expected structure from the backend API
 interface Product {
@@ -75,25 +76,11 @@ export function ProductManagement() {
   );
   const { toast } = useToast();
 
-  const getAuthHeaders = () => {
-    const token = localStorage.getItem('token');
-    return token ? { 'Authorization': `Bearer ${token}` } : {};
-  };
-
   const fetchData = async () => {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch('https://quantnow.onrender.com/api/products', {
-        headers: {
-          'Content-Type': 'application/json',
-          ...getAuthHeaders(), // Add authorization header
-        },
-      });
-      if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
-      }
-      const data: Product[] = await response.json();
+      const data = await apiClient.get<Product[]>('/api/products');
       setProducts(data);
     } catch (err) {
       console.error('Failed to fetch products:', err);
@@ -116,19 +103,7 @@ export function ProductManagement() {
   const handleCreateProduct = async (productData: ProductSaveData) => {
     setLoading(true); // Indicate loading for the specific action
     try {
-      const response = await fetch('https://quantnow.onrender.com/api/products', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...getAuthHeaders(), // Add authorization header
-        },
-        body: JSON.stringify(productData)
-      });
-
-      if (!response.ok) {
-        const errorBody = await response.json();
-        throw new Error(errorBody.message || 'Failed to create product.');
-      }
+      await apiClient.post('/api/products', productData);
 
       toast({
         title: 'Success',
@@ -151,19 +126,7 @@ export function ProductManagement() {
   const handleUpdateProduct = async (id: string, productData: ProductSaveData) => {
     setLoading(true); // Indicate loading for the specific action
     try {
-      const response = await fetch(`https://quantnow.onrender.com/api/products/${id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          ...getAuthHeaders(), // Add authorization header
-        },
-        body: JSON.stringify(productData)
-      });
-
-      if (!response.ok) {
-        const errorBody = await response.json();
-        throw new Error(errorBody.message || 'Failed to update product.');
-      }
+      await apiClient.put(`/api/products/${id}`, productData);
 
       toast({
         title: 'Success',
@@ -187,15 +150,7 @@ export function ProductManagement() {
   const handleDeleteProduct = async (id: string) => {
     setLoading(true); // Indicate loading for the specific action
     try {
-      const response = await fetch(`https://quantnow.onrender.com/api/products/${id}`, {
-        method: 'DELETE',
-        headers: getAuthHeaders(), // Add authorization header
-      });
-
-      if (!response.ok) {
-        const errorBody = await response.json();
-        throw new Error(errorBody.message || 'Failed to delete product.');
-      }
+      await apiClient.delete(`/api/products/${id}`);
 
       toast({
         title: 'Success',
@@ -33,6 +33,7 @@ import { Plus, Search, Eye, Edit, Truck, Trash2, Loader2 } from 'lucide-react';
 import { SupplierForm } from './SupplierForm'; // Assuming this component exists and handles form input
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge'; // Import the Badge component
+import { apiClient } from '@/utils/apiClient';
 
 // Define the unified Supplier interface to accommodate data from both /api/suppliers and /vendors
 interface Supplier {
@@ -71,25 +72,11 @@ export function SupplierManagement() {
   );
   const { toast } = useToast();
 
-  const getAuthHeaders = useCallback(() => {
-    const token = localStorage.getItem('token');
-    return token ? { 'Authorization': `Bearer ${token}` } : {};
-  }, []);
-
   const fetchSuppliers = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch('https://quantnow.onrender.com/api/suppliers', {
-        headers: {
-          'Content-Type': 'application/json',
-          ...getAuthHeaders(), // Add authorization header
-        },
-      });
-      if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
-      }
-      const data: Supplier[] = await response.json();
+      const data = await apiClient.get<Supplier[]>('/api/suppliers');
       setSuppliers(data);
     } catch (err) {
       console.error('Failed to fetch suppliers:', err);
@@ -97,7 +84,7 @@ export function SupplierManagement() {
     } finally {
       setLoading(false);
     }
-  }, [getAuthHeaders]);
+  }, []);
 
   useEffect(() => {
     fetchSuppliers();
@@ -113,19 +100,7 @@ export function SupplierManagement() {
   const handleCreateSupplier = async (supplierData: SupplierSaveData) => {
     setLoading(true); // Indicate loading for the specific action
     try {
-      const response = await fetch('https://quantnow.onrender.com/api/suppliers', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...getAuthHeaders(), // Add authorization header
-        },
-        body: JSON.stringify(supplierData)
-      });
-
-      if (!response.ok) {
-        const errorBody = await response.json();
-        throw new Error(errorBody.message || 'Failed to create supplier.');
-      }
+      await apiClient.post('/api/suppliers', supplierData);
 
       toast({
         title: 'Success',
@@ -148,19 +123,7 @@ export function SupplierManagement() {
   const handleUpdateSupplier = async (id: string, supplierData: SupplierSaveData) => {
     setLoading(true); // Indicate loading for the specific action
     try {
-      const response = await fetch(`https://quantnow.onrender.com/api/suppliers/${id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          ...getAuthHeaders(), // Add authorization header
-        },
-        body: JSON.stringify(supplierData)
-      });
-
-      if (!response.ok) {
-        const errorBody = await response.json();
-        throw new Error(errorBody.message || 'Failed to update supplier.');
-      }
+      await apiClient.put(`/api/suppliers/${id}`, supplierData);
 
       toast({
         title: 'Success',
@@ -184,15 +147,7 @@ export function SupplierManagement() {
   const handleDeleteSupplier = async (id: string) => {
     setLoading(true); // Indicate loading for the specific action
     try {
-      const response = await fetch(`https://quantnow.onrender.com/api/suppliers/${id}`, {
-        method: 'DELETE',
-        headers: getAuthHeaders(), // Add authorization header
-      });
-
-      if (!response.ok) {
-        const errorBody = await response.json();
-        throw new Error(errorBody.message || 'Failed to delete supplier.');
-      }
+      await apiClient.delete(`/api/suppliers/${id}`);
 
       toast({
         title: 'Success',
@@ -49,6 +49,7 @@ import {
 } from '@/components/ui/alert-dialog';
 import { KpiCard } from './KpiCard';
 import { useAuth } from '../../AuthPage';
+import { apiClient } from '@/utils/apiClient';
 
 // ---- New: User type ----
 interface User {
@@ -122,10 +123,6 @@ export function KanbanBoard() {
   const { isAuthenticated } = useAuth();
   const token = localStorage.getItem('token');
 
-  const getAuthHeaders = useCallback(() => {
-    return token ? { 'Authorization': `Bearer ${token}` } : {};
-  }, [token]);
-
   const droppableRefs = useRef<{ [key: string]: { setNodeRef: (node: HTMLElement | null) => void; isOver: boolean } }>({});
   staticColumns.forEach(column => {
     // eslint-disable-next-line react-hooks/rules-of-hooks
@@ -166,13 +163,9 @@ export function KanbanBoard() {
 
   // ---- New: fetch users ----
   const fetchUsers = useCallback(async () => {
-    const resp = await fetch('https://quantnow.onrender.com/api/users', {
-      headers: getAuthHeaders(),
-    });
-    if (!resp.ok) throw new Error(`Users fetch failed: ${resp.status}`);
-    const data: User[] = await resp.json();
+    const data = await apiClient.get<User[]>('/api/users');
     setUsers(data);
-  }, [getAuthHeaders]);
+  }, []);
 
   const fetchTasksAndProjects = useCallback(async () => {
     if (!isAuthenticated || !token) {
@@ -192,18 +185,10 @@ export function KanbanBoard() {
     try {
       await fetchUsers(); // <-- ensure users are loaded
 
-      const projectsResponse = await fetch('https://quantnow.onrender.com/api/projects', {
-        headers: getAuthHeaders(),
-      });
-      if (!projectsResponse.ok) throw new Error(`HTTP error! status: ${projectsResponse.status}`);
-      const projectsData: Project[] = await projectsResponse.json();
+      const projectsData = await apiClient.get<Project[]>('/api/projects');
       setProjects(projectsData);
 
-      const tasksResponse = await fetch('https://quantnow.onrender.com/api/tasks', {
-        headers: getAuthHeaders(),
-      });
-      if (!tasksResponse.ok) throw new Error(`HTTP error! status: ${tasksResponse.status}`);
-      const tasksData: Task[] = await tasksResponse.json();
+      const tasksData = await apiClient.get<Task[]>('/api/tasks');
 
       const newColumns = staticColumns.map(column => ({
         ...column,
@@ -221,7 +206,7 @@ export function KanbanBoard() {
     } finally {
       setIsLoading(false);
     }
-  }, [toast, isAuthenticated, token, getAuthHeaders, fetchUsers]);
+  }, [toast, isAuthenticated, token, fetchUsers]);
 
   useEffect(() => {
     fetchTasksAndProjects();
@@ -291,12 +276,7 @@ export function KanbanBoard() {
       );
 
       try {
-        const response = await fetch(`https://quantnow.onrender.com/api/tasks/${activeTask.id}`, {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-          body: JSON.stringify({ ...activeTask, status: newStatus }),
-        });
-        if (!response.ok) throw new Error('Failed to update task status on backend.');
+        await apiClient.put(`/api/tasks/${activeTask.id}`, { ...activeTask, status: newStatus });
         toast({ title: 'Task moved', description: `Task moved from ${activeColumn.title} to ${overColumn.title}` });
         fetchTasksAndProjects();
       } catch (error) {
@@ -332,17 +312,12 @@ export function KanbanBoard() {
     }
     const statusFromProgress = getStatusFromProgress(taskData.progress_percentage);
     try {
-      const response = await fetch('https://quantnow.onrender.com/api/tasks', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        body: JSON.stringify({
-          ...taskData,
-          status: statusFromProgress,
-          user_id: 'frontend-user-123',
-          assignee_id: taskData.assignee_id ?? null, // <-- send id
-        }),
+      await apiClient.post('/api/tasks', {
+        ...taskData,
+        status: statusFromProgress,
+        user_id: 'frontend-user-123',
+        assignee_id: taskData.assignee_id ?? null, // <-- send id
       });
-      if (!response.ok) throw new Error('Failed to create task on backend.');
       fetchTasksAndProjects();
       setShowNewTaskForm(false);
       toast({ title: 'Task created successfully' });
@@ -362,17 +337,12 @@ export function KanbanBoard() {
     }
     const statusFromProgress = getStatusFromProgress(taskData.progress_percentage);
     try {
-      const response = await fetch(`https://quantnow.onrender.com/api/tasks/${taskToEdit.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        body: JSON.stringify({
-          ...taskData,
-          status: statusFromProgress,
-          user_id: 'frontend-user-123',
-          assignee_id: taskData.assignee_id ?? null, // <-- send id
-        }),
+      await apiClient.put(`/api/tasks/${taskToEdit.id}`, {
+        ...taskData,
+        status: statusFromProgress,
+        user_id: 'frontend-user-123',
+        assignee_id: taskData.assignee_id ?? null, // <-- send id
       });
-      if (!response.ok) throw new Error('Failed to update task on backend.');
       fetchTasksAndProjects();
       setTaskToEdit(null);
       toast({ title: 'Task updated successfully' });
@@ -388,11 +358,7 @@ export function KanbanBoard() {
       return;
     }
     try {
-      const response = await fetch(`https://quantnow.onrender.com/api/tasks/${taskId}`, {
-        method: 'DELETE',
-        headers: getAuthHeaders(),
-      });
-      if (!response.ok) throw new Error('Failed to delete task on backend.');
+      await apiClient.delete(`/api/tasks/${taskId}`);
       fetchTasksAndProjects();
       toast({ title: 'Task deleted successfully' });
     } catch (error) {
@@ -407,15 +373,10 @@ export function KanbanBoard() {
       return;
     }
     try {
-      const response = await fetch('https://quantnow.onrender.com/api/projects', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        body: JSON.stringify({
-          ...projectData,
-          assignee_id: projectData.assignee_id ?? null, // <-- send id
-        }),
+      await apiClient.post('/api/projects', {
+        ...projectData,
+        assignee_id: projectData.assignee_id ?? null, // <-- send id
       });
-      if (!response.ok) throw new Error('Failed to create project on backend.');
       fetchTasksAndProjects();
       setShowNewProjectForm(false);
       toast({ title: `Project "${projectData.name}" created successfully!` });
@@ -432,15 +393,10 @@ export function KanbanBoard() {
       return;
     }
     try {
-      const response = await fetch(`https://quantnow.onrender.com/api/projects/${activeProject.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        body: JSON.stringify({
-          ...projectData,
-          assignee_id: projectData.assignee_id ?? null, // <-- send id
-        }),
+      await apiClient.put(`/api/projects/${activeProject.id}`, {
+        ...projectData,
+        assignee_id: projectData.assignee_id ?? null, // <-- send id
       });
-      if (!response.ok) throw new Error('Failed to update project on backend.');
       fetchTasksAndProjects();
       setActiveProject(null);
       toast({ title: `Project "${projectData.name}" updated successfully!` });
@@ -457,11 +413,7 @@ export function KanbanBoard() {
       return;
     }
     try {
-      const response = await fetch(`https://quantnow.onrender.com/api/projects/${projectToDelete.id}`, {
-        method: 'DELETE',
-        headers: getAuthHeaders(),
-      });
-      if (!response.ok) throw new Error('Failed to delete project on backend.');
+      await apiClient.delete(`/api/projects/${projectToDelete.id}`);
       fetchTasksAndProjects();
       toast({ title: `Project "${projectToDelete.name}" and its tasks deleted.` });
       setProjectToDelete(null);
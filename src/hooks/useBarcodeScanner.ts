@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react';
+
+// USB/HID scanners "type" the code far faster than a person and finish with
+// Enter. Keystrokes closer together than this are treated as one scan.
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+interface Options {
+  enabled?: boolean;
+  onScan: (code: string) => void;
+  /** Called when a quantity multiplier such as "3*" is typed outside any input. */
+  onMultiplier?: (quantity: number) => void;
+}
+
+const isEditable = (el: EventTarget | null) =>
+  el instanceof HTMLElement &&
+  (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName));
+
+/**
+ * Listens for barcode scanner input anywhere on the page. Scans that land in a
+ * text field are left to that field (the POS scan box handles its own Enter),
+ * so only keystrokes aimed at the page body are captured here.
+ */
+export function useBarcodeScanner({ enabled = true, onScan, onMultiplier }: Options) {
+  const buffer = useRef('');
+  const lastKeyAt = useRef(0);
+  const handlers = useRef({ onScan, onMultiplier });
+  handlers.current = { onScan, onMultiplier };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isEditable(e.target) || e.ctrlKey || e.altKey || e.metaKey) return;
+
+      const now = performance.now();
+      const fast = now - lastKeyAt.current <= MAX_KEY_INTERVAL_MS;
+      lastKeyAt.current = now;
+
+      if (e.key === 'Enter') {
+        if (buffer.current.length >= MIN_CODE_LENGTH && fast) {
+          e.preventDefault();
+          handlers.current.onScan(buffer.current);
+        }
+        buffer.current = '';
+        return;
+      }
+
+      if (e.key === '*' && /^\d{1,4}$/.test(buffer.current)) {
+        handlers.current.onMultiplier?.(Number(buffer.current));
+        buffer.current = '';
+        return;
+      }
+
+      if (e.key.length !== 1) return;
+      // A slow keystroke starts a new buffer unless it's still a typed multiplier
+      if (!fast && !/^\d{0,3}$/.test(buffer.current)) buffer.current = '';
+      buffer.current += e.key;
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+}
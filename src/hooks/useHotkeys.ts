@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Binds keyboard shortcuts for the lifetime of the component. Keys use the
+ * KeyboardEvent.key name with optional "Ctrl+" / "Alt+" / "Shift+" prefixes,
+ * e.g. { F2: openCustomers, 'Ctrl+Enter': submit }.
+ */
+export function useHotkeys(bindings: Record<string, (e: KeyboardEvent) => void>, enabled = true) {
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const combo = [e.ctrlKey || e.metaKey ? 'Ctrl' : '', e.altKey ? 'Alt' : '', e.shiftKey ? 'Shift' : '', e.key]
+        .filter(Boolean)
+        .join('+');
+      const handler = bindingsRef.current[combo];
+      if (handler) {
+        e.preventDefault();
+        handler(e);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+}
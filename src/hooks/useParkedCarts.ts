@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { loadParkedCarts, parkCart, removeParkedCart } from '@/lib/parkedCarts';
+import type { CartItem, CustomerFrontend, ParkedCart } from '@/types/pos';
+
+const EXPIRY_CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * Parked carts for the signed-in teller. `reservedQuantity` is how much of a
+ * product is held in parked carts, so the live cart cannot sell it twice.
+ */
+export function useParkedCarts(tellerId: string | null, onExpired?: (carts: ParkedCart[]) => void) {
+  const [parkedCarts, setParkedCarts] = useState<ParkedCart[]>([]);
+
+  const onExpiredRef = useRef(onExpired);
+  onExpiredRef.current = onExpired;
+
+  const refresh = useCallback(async () => {
+    if (!tellerId) {
+      setParkedCarts([]);
+      return;
+    }
+    try {
+      const { carts, expired } = await loadParkedCarts(tellerId);
+      setParkedCarts(carts);
+      if (expired.length > 0) onExpiredRef.current?.(expired);
+    } catch (err) {
+      console.warn('Could not load parked carts:', err);
+    }
+  }, [tellerId]);
+
+  useEffect(() => {
+    refresh();
+    const timer = window.setInterval(refresh, EXPIRY_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [refresh]);
+
+  const park = useCallback(
+    async (label: string, items: CartItem[], customer: CustomerFrontend | null) => {
+      if (!tellerId) throw new Error('Sign in to park carts.');
+      const parked = await parkCart(tellerId, label, items, customer);
+      await refresh();
+      return parked;
+    },
+    [tellerId, refresh]
+  );
+
+  /** Takes a cart out of the parked list; the caller loads it into the live cart. */
+  const take = useCallback(
+    async (cart: ParkedCart) => {
+      await removeParkedCart(cart.id);
+      await refresh();
+      return cart;
+    },
+    [refresh]
+  );
+
+  const reserved = useMemo(() => {
+    const held = new Map<number | string, number>();
+    parkedCarts.forEach(cart =>
+      cart.items.forEach(item => held.set(item.id, (held.get(item.id) ?? 0) + item.quantity))
+    );
+    return held;
+  }, [parkedCarts]);
+
+  const reservedQuantity = useCallback((id: number | string) => reserved.get(id) ?? 0, [reserved]);
+
+  return { parkedCarts, park, take, discard: take, reservedQuantity };
+}
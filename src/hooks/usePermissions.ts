@@ -0,0 +1,20 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/AuthPage';
+import { canAccessRoute, hasPermission, type PermissionAction } from '@/lib/permissions';
+
+/** Role checks bound to the signed-in user's roles. */
+export function usePermissions() {
+  const { userRoles } = useAuth();
+
+  const can = useCallback(
+    (action: PermissionAction) => hasPermission(userRoles, action),
+    [userRoles]
+  );
+
+  const canAccess = useCallback(
+    (path: string) => canAccessRoute(userRoles, path),
+    [userRoles]
+  );
+
+  return { can, canAccess };
+}
@@ -1,9 +1,22 @@
 import { useEffect, useState } from "react";
+import { REPORTS_API_URL } from "@/lib/env";
+import { apiClient } from "@/utils/apiClient";
+import type {
+  AssetRegisterResponse,
+  BalanceSheetResponse,
+  CashflowResponse,
+  CreditorsResponse,
+  DebtorsResponse,
+  IncomeStatementResponse,
+  ReportsData,
+  StocksheetResponse,
+  TrialBalanceResponse,
+} from "@/types/reports";
 
-const API_URL = "http://localhost:8000/reports";
+const getReport = <T>(path: string) => apiClient.get<T>(path, { baseUrl: REPORTS_API_URL });
 
 export const useReportsData = () => {
-  const [reports, setReports] = useState({
+  const [reports, setReports] = useState<ReportsData>({
     incomeStatement: [],
     trialBalance: [],
     balanceSheet: { assets: [], liabilities: [], equity: [] },
@@ -28,14 +41,14 @@ export const useReportsData = () => {
           debtorsRes,
           creditorsRes,
         ] = await Promise.all([
-          fetch(`${API_URL}/income-statement`).then((r) => r.json()),
-          fetch(`${API_URL}/trial-balance`).then((r) => r.json()),
-          fetch(`${API_URL}/balance-sheet`).then((r) => r.json()),
-          fetch(`${API_URL}/cashflow`).then((r) => r.json()),
-          fetch(`${API_URL}/stocksheet`).then((r) => r.json()),
-          fetch(`${API_URL}/asset-register`).then((r) => r.json()),
-          fetch(`${API_URL}/debtors`).then((r) => r.json()),
-          fetch(`${API_URL}/creditors`).then((r) => r.json()),
+          getReport<IncomeStatementResponse>("/income-statement"),
+          getReport<TrialBalanceResponse>("/trial-balance"),
+          getReport<BalanceSheetResponse>("/balance-sheet"),
+          getReport<CashflowResponse>("/cashflow"),
+          getReport<StocksheetResponse>("/stocksheet"),
+          getReport<AssetRegisterResponse>("/asset-register"),
+          getReport<DebtorsResponse>("/debtors"),
+          getReport<CreditorsResponse>("/creditors"),
         ]);
 
         setReports({
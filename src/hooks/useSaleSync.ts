@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  discardQueuedSale,
+  enqueueSale,
+  flushSaleQueue,
+  listQueuedSales,
+  retryQueuedSale,
+  type FlushResult,
+} from '@/lib/saleQueue';
+import type { QueuedSale, SalePayload } from '@/types/pos';
+import { getErrorMessage } from '@/utils/apiClient';
+
+const AUTO_SYNC_INTERVAL_MS = 60_000;
+
+/**
+ * Connection status and the offline sale queue for the POS screen.
+ * Pending sales are flushed when the browser comes back online, on an
+ * interval while anything is waiting, and on demand via `syncNow`. Queue
+ * and flush failures never reject: they are kept in `syncError` until the
+ * next successful sync.
+ */
+export function useSaleSync(onFlushed?: (result: FlushResult) => void) {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [queue, setQueue] = useState<QueuedSale[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  const onFlushedRef = useRef(onFlushed);
+  onFlushedRef.current = onFlushed;
+
+  const refresh = useCallback(async () => {
+    try {
+      setQueue(await listQueuedSales());
+    } catch (err) {
+      setSyncError(getErrorMessage(err, 'Could not read the offline sale queue.'));
+    }
+  }, []);
+
+  const syncNow = useCallback(async (): Promise<FlushResult | null> => {
+    setIsSyncing(true);
+    try {
+      const result = await flushSaleQueue();
+      setSyncError(null);
+      onFlushedRef.current?.(result);
+      return result;
+    } catch (err) {
+      setSyncError(getErrorMessage(err, 'Could not sync offline sales.'));
+      return null;
+    } finally {
+      setIsSyncing(false);
+      await refresh();
+    }
+  }, [refresh]);
+
+  const queueSale = useCallback(async (payload: SalePayload) => {
+    const queued = await enqueueSale(payload);
+    await refresh();
+    return queued;
+  }, [refresh]);
+
+  const retry = useCallback(async (sale: QueuedSale) => {
+    try {
+      await retryQueuedSale(sale);
+    } catch (err) {
+      setSyncError(getErrorMessage(err, 'Could not retry the sale.'));
+      return;
+    }
+    await syncNow();
+  }, [syncNow]);
+
+  const discard = useCallback(async (sale: QueuedSale) => {
+    await discardQueuedSale(sale.localId);
+    await refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+    const goOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [refresh, syncNow]);
+
+  const pendingCount = queue.filter(s => s.status === 'pending').length;
+  const conflicts = queue.filter(s => s.status === 'conflict');
+  const hasPending = pendingCount > 0;
+
+  useEffect(() => {
+    if (!isOnline || !hasPending) return;
+    syncNow();
+    const interval = window.setInterval(syncNow, AUTO_SYNC_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [isOnline, hasPending, syncNow]);
+
+  return { isOnline, isSyncing, syncError, pendingCount, conflicts, queueSale, syncNow, retry, discard };
+}
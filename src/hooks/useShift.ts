@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from 'react';
+import { shiftsApi } from '@/api/shifts';
+import { loadCatalog, saveCatalog } from '@/lib/offlineStore';
+import type { OpenShiftPayload, Shift, ShiftCount } from '@/types/pos';
+import { shiftExpectedCash } from '@/utils/cashDrawer';
+import { round2 } from '@/utils/money';
+
+/**
+ * The teller's open till shift. The last known shift is cached so sales can
+ * still be stamped with it while offline; opening and closing need the API.
+ */
+export function useShift(tellerId: string | null) {
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const cacheKey = `shift:${tellerId}`;
+
+  const store = useCallback(
+    (next: Shift | null) => {
+      setShift(next);
+      saveCatalog(cacheKey, next).catch(err => console.warn('Could not cache shift:', err));
+    },
+    [cacheKey]
+  );
+
+  const refresh = useCallback(async () => {
+    if (!tellerId) {
+      setShift(null);
+      return;
+    }
+    setLoading(true);
+    try {
+      store(await shiftsApi.current());
+    } catch (err) {
+      console.warn('Failed to fetch current shift, using cached copy:', err);
+      const cached = await loadCatalog<Shift | null>(cacheKey).catch(() => null);
+      setShift(cached?.data ?? null);
+    } finally {
+      setLoading(false);
+    }
+  }, [tellerId, cacheKey, store]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const openShift = useCallback(
+    async (payload: OpenShiftPayload) => {
+      const opened = await shiftsApi.open(payload);
+      store(opened);
+      return opened;
+    },
+    [store]
+  );
+
+  const closeShift = useCallback(
+    async (count: ShiftCount) => {
+      if (!shift) throw new Error('No open shift.');
+      // Expected cash comes from the shift's own totals, including safe drops and pickups
+      const { totals } = await shiftsApi.xReport(shift.id);
+      const expectedCash = shiftExpectedCash(shift, totals);
+      const report = await shiftsApi.close(shift.id, {
+        ...count,
+        expectedCash,
+        variance: round2(count.countedCash - expectedCash),
+      });
+      store(null);
+      return report;
+    },
+    [shift, store]
+  );
+
+  const xReport = useCallback(async () => {
+    if (!shift) throw new Error('No open shift.');
+    return shiftsApi.xReport(shift.id);
+  }, [shift]);
+
+  return { shift, loading, refresh, openShift, closeShift, xReport };
+}
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { reconciliationApi } from '@/api/reconciliation';
+import type { VarianceAlert } from '@/types/pos';
+
+const POLL_INTERVAL_MS = 120_000;
+
+/**
+ * Unacknowledged teller variance / missed reconciliation alerts for managers.
+ * Polls while enabled; `onNew` fires for alerts not seen since the first load,
+ * so a manager is told once rather than on every poll.
+ */
+export function useVarianceAlerts(enabled: boolean, onNew?: (alerts: VarianceAlert[]) => void) {
+  const [alerts, setAlerts] = useState<VarianceAlert[]>([]);
+  const seenRef = useRef<Set<number> | null>(null);
+
+  const onNewRef = useRef(onNew);
+  onNewRef.current = onNew;
+
+  const refresh = useCallback(async () => {
+    if (!enabled) {
+      setAlerts([]);
+      seenRef.current = null;
+      return;
+    }
+    try {
+      const data = (await reconciliationApi.alerts({ unacknowledged: true })) || [];
+      const seen = seenRef.current;
+      const fresh = seen ? data.filter(a => !seen.has(a.id)) : [];
+      seenRef.current = new Set([...(seen ?? []), ...data.map(a => a.id)]);
+      setAlerts(data);
+      if (fresh.length > 0) onNewRef.current?.(fresh);
+    } catch (err) {
+      console.warn('Failed to fetch variance alerts:', err);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    refresh();
+    if (!enabled) return;
+    const timer = window.setInterval(refresh, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [enabled, refresh]);
+
+  const acknowledge = useCallback(async (id: number) => {
+    await reconciliationApi.acknowledgeAlert(id);
+    setAlerts(prev => prev.filter(a => a.id !== id));
+  }, []);
+
+  return { alerts, refresh, acknowledge };
+}
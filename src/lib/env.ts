@@ -0,0 +1,40 @@
+// Base URLs for every backend the app talks to. Each one can be overridden
+// through a VITE_* variable (see .env.example) so the same build can point at
+// production, staging or a local backend without touching page code.
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+const env = import.meta.env;
+
+/** Main Quantnow API (auth, POS, accounting, invoices, ...). */
+export const API_BASE_URL = trimSlash(env.VITE_API_BASE_URL || 'https://quantnow.onrender.com');
+
+/** Reports service consumed by useReportsData. */
+export const REPORTS_API_URL = trimSlash(env.VITE_REPORTS_API_URL || 'http://localhost:8000/reports');
+
+/** Rairo AI: bank statement / free text transaction extraction. */
+export const RAIRO_STMT_API_URL = trimSlash(env.VITE_RAIRO_STMT_API_URL || 'https://rairo-stmt-api.hf.space');
+
+/** Rairo AI: receipt image scanning for product import. */
+export const RAIRO_POS_IMAGE_API_URL = trimSlash(env.VITE_RAIRO_POS_IMAGE_API_URL || 'https://rairo-pos-image-api.hf.space');
+
+/** Local ESC/POS print bridge (e.g. http://localhost:9100/print). Receipts are downloaded as .bin when unset. */
+export const PRINT_BRIDGE_URL = env.VITE_PRINT_BRIDGE_URL ? trimSlash(env.VITE_PRINT_BRIDGE_URL) : null;
+
+/** Minutes without input before a signed-in session is logged out (shared POS terminals). 0 disables it. */
+export const IDLE_TIMEOUT_MINUTES = Number(env.VITE_IDLE_TIMEOUT_MINUTES ?? 15);
+
+/** Manual POS price cuts larger than this percentage need a manager's approval. */
+export const PRICE_OVERRIDE_APPROVAL_PERCENT = Number(env.VITE_PRICE_OVERRIDE_APPROVAL_PERCENT ?? 10);
+
+/** Currency set used for cash counts (see CURRENCY_SETS in utils/denominations). */
+export const CASH_CURRENCY = env.VITE_CASH_CURRENCY || 'ZAR';
+
+/** How payment reminders are delivered: "email" through the API, or "local" .eml files for a mail client. */
+export const DUNNING_DELIVERY: 'email' | 'local' = env.VITE_DUNNING_DELIVERY === 'local' ? 'local' : 'email';
+
+/** Months a gift voucher stays valid from the day it is issued (the CPA requires at least 36). 0 means no expiry. */
+export const VOUCHER_VALIDITY_MONTHS = Number(env.VITE_VOUCHER_VALIDITY_MONTHS ?? 36);
+
+/** Parked POS carts older than this are discarded and their held stock released. */
+export const PARKED_CART_TTL_MINUTES = Number(env.VITE_PARKED_CART_TTL_MINUTES ?? 120);
@@ -0,0 +1,80 @@
+// src/lib/offlineStore.ts
+//
+// Minimal promise wrapper around IndexedDB for the POS. Tills run on flaky
+// mobile data, so the catalogue and any sales captured while offline must
+// survive reloads and browser restarts.
+
+const DB_NAME = 'quantnow-pos';
+const DB_VERSION = 2;
+
+// Object stores and their key paths. Add a store here and bump DB_VERSION;
+// the upgrade handler creates whatever is missing.
+const STORES: Record<string, string> = {
+  catalog: 'key',
+  saleQueue: 'localId',
+  parkedCarts: 'id',
+};
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.entries(STORES).forEach(([name, keyPath]) => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const offlineStore = {
+  get: <T>(store: StoreName, key: IDBValidKey) =>
+    run<T | undefined>(store, 'readonly', s => s.get(key)),
+  getAll: <T>(store: StoreName) => run<T[]>(store, 'readonly', s => s.getAll()),
+  put: <T>(store: StoreName, value: T) => run<IDBValidKey>(store, 'readwrite', s => s.put(value)),
+  remove: (store: StoreName, key: IDBValidKey) => run<undefined>(store, 'readwrite', s => s.delete(key)),
+};
+
+// --- Catalogue cache ---------------------------------------------------------
+
+interface CatalogEntry<T> {
+  key: string;
+  data: T;
+  savedAt: string;
+}
+
+/** Stores the latest copy of a list (products, customers) fetched from the API. */
+export const saveCatalog = <T>(key: string, data: T) =>
+  offlineStore.put<CatalogEntry<T>>('catalog', { key, data, savedAt: new Date().toISOString() });
+
+export const loadCatalog = async <T>(key: string) => {
+  const entry = await offlineStore.get<CatalogEntry<T>>('catalog', key);
+  return entry ?? null;
+};
@@ -0,0 +1,60 @@
+// src/lib/parkedCarts.ts
+//
+// Carts parked at the till, kept in IndexedDB so they survive a reload. Each
+// teller only sees their own. Parked items hold stock on this till until the
+// cart is resumed, discarded or expires after PARKED_CART_TTL_MINUTES.
+
+import { offlineStore } from '@/lib/offlineStore';
+import { PARKED_CART_TTL_MINUTES } from '@/lib/env';
+import type { CartItem, CustomerFrontend, ParkedCart } from '@/types/pos';
+
+const newCartId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `cart-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+/** When the cart will be discarded, or null when expiry is switched off (TTL of 0). */
+export const parkedCartExpiry = (cart: ParkedCart) =>
+  PARKED_CART_TTL_MINUTES > 0
+    ? new Date(new Date(cart.parkedAt).getTime() + PARKED_CART_TTL_MINUTES * 60_000)
+    : null;
+
+const isExpired = (cart: ParkedCart, now = Date.now()) => {
+  const expiry = parkedCartExpiry(cart);
+  return expiry !== null && expiry.getTime() <= now;
+};
+
+export const parkCart = async (
+  tellerId: string,
+  label: string,
+  items: CartItem[],
+  customer: CustomerFrontend | null
+) => {
+  const parked: ParkedCart = {
+    id: newCartId(),
+    label,
+    tellerId,
+    items,
+    customer,
+    parkedAt: new Date().toISOString(),
+  };
+  await offlineStore.put('parkedCarts', parked);
+  return parked;
+};
+
+export const removeParkedCart = (id: string) => offlineStore.remove('parkedCarts', id);
+
+/**
+ * The teller's parked carts, oldest first. Expired carts are deleted on the
+ * way and returned separately so the caller can tell the teller.
+ */
+export const loadParkedCarts = async (tellerId: string) => {
+  const all = await offlineStore.getAll<ParkedCart>('parkedCarts');
+  const mine = all.filter(c => c.tellerId === tellerId);
+  const expired = mine.filter(c => isExpired(c));
+  await Promise.all(expired.map(c => removeParkedCart(c.id)));
+  return {
+    carts: mine.filter(c => !isExpired(c)).sort((a, b) => a.parkedAt.localeCompare(b.parkedAt)),
+    expired,
+  };
+};
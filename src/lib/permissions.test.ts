@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { ACTION_PERMISSIONS, ROUTE_PERMISSIONS, canAccessRoute, getDefaultRoute, hasPermission, type PermissionAction } from './permissions';
+
+describe('owner role', () => {
+  it('opens every route and may perform every action', () => {
+    expect(Object.keys(ROUTE_PERMISSIONS).every(path => canAccessRoute(['user'], path))).toBe(true);
+    expect((Object.keys(ACTION_PERMISSIONS) as PermissionAction[]).every(action => hasPermission(['user'], action))).toBe(true);
+  });
+});
+
+describe('getDefaultRoute', () => {
+  it('lands on the first route the roles open', () => {
+    expect(getDefaultRoute(['cashier'])).toBe('/');
+    expect(getDefaultRoute(['invoice'])).toBe('/invoice-quote');
+    expect(getDefaultRoute(['chat'])).toBe('/quant-chat');
+  });
+
+  it('has nowhere to go without a role', () => {
+    expect(getDefaultRoute([])).toBeNull();
+  });
+});
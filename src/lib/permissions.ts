@@ -0,0 +1,104 @@
+// src/lib/permissions.ts
+//
+// Declarative role map shared by the sidebar, the router guard and any
+// per-action checks. A user may hold several roles; access is granted when
+// any of them is listed for the route or action.
+
+// A predefined list of roles for the user management select dropdowns
+export const ALL_ROLES = [
+  'admin',
+  'ceo',
+  'manager',
+  'cashier',
+  'user',
+  'accountant',
+  'pos-transact',
+  'transactions',
+  'financials',
+  'import',
+  'data-analytics',
+  'invoice',
+  'payroll',
+  'pos-admin',
+  'projections',
+  'accounting',
+  'documents',
+  'chat',
+  'tasks',
+  'user-management',
+  'personel-setup',
+  'profile-setup',
+];
+
+const POS_ADMIN_ROLES = ['manager', 'pos-admin', 'user', 'admin'];
+
+// 'user' is the account owner's role: it opens every route, so it also gets
+// every action the admin and CEO have.
+const OWNER_ROLES = ['admin', 'ceo', 'user'];
+
+/** Roles allowed to open each route, keyed by the exact router path. */
+export const ROUTE_PERMISSIONS: Record<string, string[]> = {
+  '/': ['admin', 'ceo', 'manager', 'cashier', 'user'],
+  '/pos': ['cashier', 'user', 'pos-transact', 'admin'],
+  '/tasks': ['manager', 'user', 'tasks', 'admin'],
+  '/transactions': ['manager', 'user', 'transactions', 'admin'],
+  '/financials': ['admin', 'manager', 'financials', 'user'],
+  '/import': ['manager', 'import', 'user', 'admin'],
+  '/analytics': ['admin', 'manager', 'data-analytics', 'user'],
+  '/invoice-quote': ['manager', 'user', 'invoice', 'admin'],
+  '/payroll': ['manager', 'payroll', 'user', 'admin'],
+  '/pos/products': POS_ADMIN_ROLES,
+  '/pos/credits': POS_ADMIN_ROLES,
+  '/pos/cash': POS_ADMIN_ROLES,
+  '/pos/returns': ['cashier', 'pos-transact', ...POS_ADMIN_ROLES],
+  '/pos/promotions': POS_ADMIN_ROLES,
+  '/pos/variance': POS_ADMIN_ROLES,
+  '/pos/reminders': POS_ADMIN_ROLES,
+  '/pos/vouchers': POS_ADMIN_ROLES,
+  '/pos/loyalty': POS_ADMIN_ROLES,
+  '/pos/stock-take': POS_ADMIN_ROLES,
+  '/pos/reorder': POS_ADMIN_ROLES,
+  '/projections': ['admin', 'manager', 'projections', 'user'],
+  '/accounting': ['admin', 'accountant', 'accounting', 'user', 'ceo'],
+  '/documents': ['admin', 'manager', 'user', 'cashier', 'accountant', 'ceo', 'documents'],
+  '/quant-chat': ['admin', 'manager', 'user', 'cashier', 'accountant', 'ceo', 'chat'],
+  '/user-management': ['admin', 'ceo', 'user-management', 'user'],
+  '/personel-setup': ['admin', 'manager', 'personel-setup', 'user', 'ceo'],
+  '/profile-setup': ['admin', 'user', 'profile-setup', 'ceo'],
+};
+
+/** Roles allowed to perform destructive or sensitive actions inside a page. */
+export const ACTION_PERMISSIONS = {
+  'invoices.delete': [...OWNER_ROLES, 'manager', 'invoice'],
+  'users.delete': [...OWNER_ROLES, 'user-management'],
+  'products.delete': [...OWNER_ROLES, 'manager', 'pos-admin'],
+  'sales.void': [...OWNER_ROLES, 'manager'],
+  'prices.override': [...OWNER_ROLES, 'manager'],
+  'variance.alerts': [...OWNER_ROLES, 'manager'],
+  'accounts.hold': [...OWNER_ROLES, 'manager'],
+  'laybys.manage': [...OWNER_ROLES, 'manager'],
+  'vouchers.void': [...OWNER_ROLES, 'manager'],
+  'loyalty.adjust': [...OWNER_ROLES, 'manager'],
+  'stock.adjust': [...OWNER_ROLES, 'manager'],
+  'stock.settings': OWNER_ROLES,
+  'stocktake.approve': [...OWNER_ROLES, 'manager'],
+} satisfies Record<string, string[]>;
+
+export type PermissionAction = keyof typeof ACTION_PERMISSIONS;
+
+const hasAnyRole = (userRoles: string[], allowedRoles: string[] = []) =>
+  userRoles.some(role => allowedRoles.includes(role));
+
+/** Routes missing from the map are treated as open to any signed-in user. */
+export const canAccessRoute = (userRoles: string[], path: string) => {
+  const allowed = ROUTE_PERMISSIONS[path];
+  if (!allowed) return true;
+  return hasAnyRole(userRoles, allowed);
+};
+
+export const hasPermission = (userRoles: string[], action: PermissionAction) =>
+  hasAnyRole(userRoles, ACTION_PERMISSIONS[action]);
+
+/** First route the user may open, used after login and on the 403 page. Null when the roles open none. */
+export const getDefaultRoute = (userRoles: string[]): string | null =>
+  Object.keys(ROUTE_PERMISSIONS).find(path => canAccessRoute(userRoles, path)) ?? null;
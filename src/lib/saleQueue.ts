@@ -0,0 +1,103 @@
+// src/lib/saleQueue.ts
+//
+// Durable queue for sales rung up while offline. Sales are replayed in the
+// order they were captured; a network failure stops the flush so nothing is
+// reordered, while a business rejection from the server parks that sale as a
+// conflict and lets the rest of the queue continue.
+
+import { salesApi } from '@/api/sales';
+import { isApiError, getErrorMessage } from '@/utils/apiClient';
+import { offlineStore } from '@/lib/offlineStore';
+import type { QueuedSale, SalePayload } from '@/types/pos';
+
+export interface FlushResult {
+  synced: number;
+  conflicts: QueuedSale[];
+  remaining: number;
+}
+
+// Statuses that mean "try again later" rather than "the server said no".
+const TRANSIENT_STATUS = [0, 401, 403, 408, 429];
+
+const isTransient = (err: unknown) =>
+  !isApiError(err) || TRANSIENT_STATUS.includes(err.status) || err.status >= 500;
+
+/** Id for a sale before the server has seen it; becomes its clientReference. */
+export const newLocalId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `sale-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+export const listQueuedSales = async () => {
+  const sales = await offlineStore.getAll<QueuedSale>('saleQueue');
+  return sales.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const enqueueSale = async (payload: SalePayload) => {
+  const localId = payload.clientReference ?? newLocalId();
+  const queued: QueuedSale = {
+    localId,
+    payload: { ...payload, clientReference: localId },
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+    lastError: null,
+  };
+  await offlineStore.put('saleQueue', queued);
+  return queued;
+};
+
+export const discardQueuedSale = (localId: string) => offlineStore.remove('saleQueue', localId);
+
+/** Moves a conflicted sale back to pending so the next flush retries it. */
+export const retryQueuedSale = async (sale: QueuedSale) => {
+  await offlineStore.put<QueuedSale>('saleQueue', { ...sale, status: 'pending', lastError: null });
+};
+
+let flushing: Promise<FlushResult> | null = null;
+
+const flush = async (): Promise<FlushResult> => {
+  const queue = await listQueuedSales();
+  let synced = 0;
+
+  for (const sale of queue) {
+    if (sale.status !== 'pending') continue;
+    try {
+      await salesApi.create(sale.payload);
+      await discardQueuedSale(sale.localId);
+      synced++;
+    } catch (err) {
+      if (isTransient(err)) {
+        await offlineStore.put<QueuedSale>('saleQueue', {
+          ...sale,
+          attempts: sale.attempts + 1,
+          lastError: getErrorMessage(err),
+        });
+        break;
+      }
+      await offlineStore.put<QueuedSale>('saleQueue', {
+        ...sale,
+        status: 'conflict',
+        attempts: sale.attempts + 1,
+        lastError: getErrorMessage(err, 'Rejected by the server.'),
+      });
+    }
+  }
+
+  const after = await listQueuedSales();
+  return {
+    synced,
+    conflicts: after.filter(s => s.status === 'conflict'),
+    remaining: after.filter(s => s.status === 'pending').length,
+  };
+};
+
+/** Replays pending sales. Concurrent callers share the same in-flight flush. */
+export const flushSaleQueue = () => {
+  if (!flushing) {
+    flushing = flush().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
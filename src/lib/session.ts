@@ -0,0 +1,58 @@
+// src/lib/session.ts
+//
+// Helpers for inspecting the JWT issued by /login. The token is only decoded,
+// never verified: the backend remains the authority, this just lets the UI
+// notice an expired session before every request starts failing.
+
+/** Why a session was ended; shown on the login page after the redirect. */
+export type SessionEndReason = 'expired' | 'idle' | 'unauthorized';
+
+export const SESSION_END_MESSAGES: Record<SessionEndReason, string> = {
+  expired: 'Your session has expired. Please log in again.',
+  idle: 'You were logged out after a period of inactivity.',
+  unauthorized: 'Your session is no longer valid. Please log in again.',
+};
+
+/** Router state passed to /login so the user can be sent back afterwards. */
+export interface LoginRedirectState {
+  from?: string;
+  reason?: SessionEndReason;
+}
+
+const LAST_ACTIVITY_KEY = 'lastActivity';
+
+const decodeJwtPayload = (token: string): Record<string, unknown> | null => {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    return JSON.parse(atob(padded));
+  } catch {
+    return null;
+  }
+};
+
+/** Expiry of the token in epoch ms, or null when it carries no `exp` claim. */
+export const getTokenExpiry = (token: string | null): number | null => {
+  if (!token) return null;
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+/** Tokens without an `exp` claim are treated as valid until the API rejects them. */
+export const isTokenExpired = (token: string | null, skewMs = 0) => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - skewMs <= Date.now();
+};
+
+// Last activity is kept in localStorage so that a reload, or another tab on the
+// same terminal, shares the idle clock.
+export const markActivity = () => {
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+};
+
+export const getLastActivity = () => {
+  const stored = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : Date.now();
+};
@@ -22,8 +22,7 @@ import { Badge } from '@/components/ui/badge';
 import { motion } from 'framer-motion';
 import { Plus, Edit, Trash2, Building, CreditCard, Calculator, Play } from 'lucide-react';
 import { useAuth } from '../AuthPage';
-
-const API_BASE = 'https://quantnow.onrender.com';
+import { apiClient, getErrorMessage } from '@/utils/apiClient';
 
 // Types
 interface Asset { /* unchanged from your version */ 
@@ -58,34 +57,24 @@ const Accounting = () => {
   const { isAuthenticated } = useAuth();
   const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
 
-  const authHeaders = token
-    ? { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` }
-    : { 'Content-Type': 'application/json' };
-
   const fetchAssets = useCallback(async () => {
     if (!token) { setAssets([]); return; }
     try {
-      const r = await fetch(`${API_BASE}/assets`, { headers: authHeaders });
-      if (!r.ok) throw new Error(`HTTP ${r.status}`);
-      setAssets(await r.json());
+      setAssets(await apiClient.get<Asset[]>('/assets'));
     } catch (e) { console.error('Error fetching assets:', e); }
   }, [token]);
 
   const fetchExpenses = useCallback(async () => {
     if (!token) { setExpenses([]); return; }
     try {
-      const r = await fetch(`${API_BASE}/expenses`, { headers: authHeaders });
-      if (!r.ok) throw new Error(`HTTP ${r.status}`);
-      setExpenses(await r.json());
+      setExpenses(await apiClient.get<Expense[]>('/expenses'));
     } catch (e) { console.error('Error fetching expenses:', e); }
   }, [token]);
 
   const fetchAccounts = useCallback(async () => {
     if (!token) { setAccounts([]); return; }
     try {
-      const r = await fetch(`${API_BASE}/accounts`, { headers: authHeaders });
-      if (!r.ok) throw new Error(`HTTP ${r.status}`);
-      setAccounts(await r.json());
+      setAccounts(await apiClient.get<Account[]>('/accounts'));
     } catch (e) { console.error('Error fetching accounts:', e); }
   }, [token]);
 
@@ -120,28 +109,23 @@ const Accounting = () => {
     if (!itemToDelete || !token) { setShowDeleteConfirm(false); return; }
 
     const { id, type } = itemToDelete;
-    const url =
-      type === 'asset'   ? `${API_BASE}/assets/${id}` :
-      type === 'expense' ? `${API_BASE}/expenses/${id}` :
-                           `${API_BASE}/accounts/${id}`;
+    const path =
+      type === 'asset'   ? `/assets/${id}` :
+      type === 'expense' ? `/expenses/${id}` :
+                           `/accounts/${id}`;
 
     const success = `${type.charAt(0).toUpperCase()+type.slice(1)} deleted successfully!`;
     const failure = `Failed to delete ${type}.`;
 
     try {
-      const r = await fetch(url, { method: 'DELETE', headers: authHeaders });
-      if (r.status === 204) {
-        alert(success);
-        if (type === 'asset') await fetchAssets();
-        if (type === 'expense') await fetchExpenses();
-        if (type === 'account') await fetchAccounts();
-      } else {
-        const err = await r.json().catch(() => ({}));
-        alert(`${failure} ${err.detail || err.error || ''}`);
-      }
+      await apiClient.delete(path);
+      alert(success);
+      if (type === 'asset') await fetchAssets();
+      if (type === 'expense') await fetchExpenses();
+      if (type === 'account') await fetchAccounts();
     } catch (e) {
       console.error(`Error deleting ${type}:`, e);
-      alert(`${failure} Check console for details.`);
+      alert(`${failure} ${getErrorMessage(e, 'Check console for details.')}`);
     } finally {
       setShowDeleteConfirm(false);
       setItemToDelete(null);
@@ -173,8 +157,8 @@ const Accounting = () => {
           useful_life_years: formData.usefulLifeYears ? Number(formData.usefulLifeYears) : null,
           salvage_value: formData.salvageValue ? Number(formData.salvageValue) : null,
         };
-        if (formData.id) { url = `${API_BASE}/assets/${formData.id}`; method = 'PUT'; }
-        else { url = `${API_BASE}/assets`; method = 'POST'; }
+        if (formData.id) { url = `/assets/${formData.id}`; method = 'PUT'; }
+        else { url = `/assets`; method = 'POST'; }
       }
 
       if (modalType === 'expense') {
@@ -191,8 +175,8 @@ const Accounting = () => {
           date: formData.date,
           account_id: formData.account_id,
         };
-        if (formData.id) { url = `${API_BASE}/expenses/${formData.id}`; method = 'PUT'; }
-        else { url = `${API_BASE}/expenses`; method = 'POST'; }
+        if (formData.id) { url = `/expenses/${formData.id}`; method = 'PUT'; }
+        else { url = `/expenses`; method = 'POST'; }
       }
 
       if (modalType === 'account') {
@@ -201,26 +185,22 @@ const Accounting = () => {
           return;
         }
         payload = { type: formData.type, name: formData.name, code: formData.code };
-        if (formData.id) { url = `${API_BASE}/accounts/${formData.id}`; method = 'PUT'; }
-        else { url = `${API_BASE}/accounts`; method = 'POST'; }
+        if (formData.id) { url = `/accounts/${formData.id}`; method = 'PUT'; }
+        else { url = `/accounts`; method = 'POST'; }
       }
 
-      const r = await fetch(url, { method, headers: authHeaders, body: JSON.stringify(payload) });
-      const result = await r.json().catch(() => ({}));
-
-      if (r.ok) {
-        if (modalType === 'asset') await fetchAssets();
-        if (modalType === 'expense') await fetchExpenses();
-        if (modalType === 'account') await fetchAccounts();
-        alert(`${modalType} ${formData.id ? 'updated' : 'added'} successfully!`);
-        setIsModalVisible(false);
-        clearForm();
-      } else {
-        alert(`Failed to ${formData.id ? 'update' : 'add'} ${modalType}: ${result.detail || result.error || r.status}`);
-      }
+      if (method === 'PUT') await apiClient.put(url, payload);
+      else await apiClient.post(url, payload);
+
+      if (modalType === 'asset') await fetchAssets();
+      if (modalType === 'expense') await fetchExpenses();
+      if (modalType === 'account') await fetchAccounts();
+      alert(`${modalType} ${formData.id ? 'updated' : 'added'} successfully!`);
+      setIsModalVisible(false);
+      clearForm();
     } catch (error) {
       console.error('Submit error:', error);
-      alert('Failed to submit data, please try again.');
+      alert(`Failed to ${formData.id ? 'update' : 'add'} ${modalType}: ${getErrorMessage(error, 'please try again.')}`);
     }
   };
 
@@ -228,19 +208,14 @@ const Accounting = () => {
     if (!token) { alert('You are not authenticated. Please log in.'); return; }
     setIsDepreciating(true);
     try {
-      const r = await fetch(`${API_BASE}/api/depreciation/run`, {
-        method: 'POST', headers: authHeaders, body: JSON.stringify({ endDate: depreciationEndDate }),
+      const data = await apiClient.post<{ totalDepreciationExpense?: number | string }>('/api/depreciation/run', {
+        endDate: depreciationEndDate,
       });
-      const data = await r.json();
-      if (r.ok) {
-        alert(`Depreciation run successfully! Total depreciation: R${(+data.totalDepreciationExpense || 0).toFixed(2)}`);
-        fetchAssets();
-      } else {
-        alert(`Failed to run depreciation: ${data.detail || data.error}`);
-      }
+      alert(`Depreciation run successfully! Total depreciation: R${(+(data.totalDepreciationExpense ?? 0) || 0).toFixed(2)}`);
+      fetchAssets();
     } catch (e) {
       console.error('Error running depreciation:', e);
-      alert('Failed to run depreciation.');
+      alert(`Failed to run depreciation: ${getErrorMessage(e, 'please try again.')}`);
     } finally {
       setIsDepreciating(false);
     }
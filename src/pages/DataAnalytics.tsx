@@ -7,6 +7,7 @@ import { useAuth } from '../AuthPage';
 import Highcharts from '../lib/initHighcharts'; // ← use the pre‑initialized instance
 import type { Options } from 'highcharts';
 import { Spin, Alert, Button } from 'antd';
+import { apiClient } from '@/utils/apiClient';
 
 export interface ChartData {
   id: string;
@@ -26,7 +27,49 @@ export interface ChartData {
   error: string | null;
 }
 
-const API = 'https://quantnow.onrender.com';
+// Rows returned by the /api/charts endpoints; amounts may arrive as numeric strings
+interface RevenueTrendPoint {
+  month: string;
+  revenue: number | string;
+  expenses: number | string;
+  profit: number | string;
+}
+
+interface TransactionVolumePoint {
+  month: string;
+  quotes: number | string;
+  invoices: number | string;
+  purchases: number | string;
+}
+
+interface CustomerLtvBucket {
+  bucket: string;
+  count: number | string;
+}
+
+interface StockLevelPoint {
+  name: string;
+  min: number;
+  max: number;
+  current: number;
+}
+
+interface TransactionBreakdown {
+  sale?: number | string;
+  income?: number | string;
+  expense?: number | string;
+  cash_in?: number | string;
+}
+
+interface PayrollPoint {
+  month: string;
+  total_payroll: number | string;
+}
+
+interface TopSellingProduct {
+  product_name: string;
+  total_quantity_sold: number | string;
+}
 
 const DataAnalytics = () => {
   const [selectedChart, setSelectedChart] = useState<ChartData | null>(null);
@@ -52,48 +95,16 @@ const DataAnalytics = () => {
     setError(null);
 
     try {
-      const headers = {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token}`,
-      };
-
-      const [
-        revenueTrendRes,
-        transactionVolumeRes,
-        customerLTVRes,
-        productStockRes,
-        transactionBreakdownRes,
-        payrollDistributionRes,
-        topSellingProductsRes,
-      ] = await Promise.all([
-        fetch(`${API}/api/charts/revenue-trend`, { headers }),
-        fetch(`${API}/api/charts/transaction-volume`, { headers }),
-        fetch(`${API}/api/charts/customer-lifetime-value`, { headers }),
-        fetch(`${API}/api/charts/product-stock-levels`, { headers }),
-        fetch(`${API}/api/charts/transaction-type-breakdown`, { headers }),
-        fetch(`${API}/api/charts/payroll-distribution`, { headers }),
-        fetch(`${API}/api/charts/top-selling-products`, { headers }),
+      const [revenueTrend, txnVolume, customerLTV, stock, breakdown, payroll, topProducts] = await Promise.all([
+        apiClient.get<RevenueTrendPoint[]>('/api/charts/revenue-trend'),
+        apiClient.get<TransactionVolumePoint[]>('/api/charts/transaction-volume'),
+        apiClient.get<CustomerLtvBucket[]>('/api/charts/customer-lifetime-value'),
+        apiClient.get<StockLevelPoint[]>('/api/charts/product-stock-levels'), // not used directly here
+        apiClient.get<Record<string, TransactionBreakdown>>('/api/charts/transaction-type-breakdown'), // keyed by YYYY-MM
+        apiClient.get<PayrollPoint[]>('/api/charts/payroll-distribution'), // kept if you want later
+        apiClient.get<TopSellingProduct[]>('/api/charts/top-selling-products'),
       ]);
 
-      const ensureOk = (r: Response, name: string) => {
-        if (!r.ok) throw new Error(`Failed to fetch ${name}`);
-      };
-      ensureOk(revenueTrendRes, 'revenue trend');
-      ensureOk(transactionVolumeRes, 'transaction volume');
-      ensureOk(customerLTVRes, 'customer lifetime value');
-      ensureOk(productStockRes, 'product stock levels');
-      ensureOk(transactionBreakdownRes, 'transaction type breakdown');
-      ensureOk(payrollDistributionRes, 'payroll distribution');
-      ensureOk(topSellingProductsRes, 'top-selling products');
-
-      const revenueTrend = await revenueTrendRes.json();            // [{month, revenue, expenses, profit}]
-      const txnVolume = await transactionVolumeRes.json();          // [{month, quotes, invoices, purchases}]
-      const customerLTV = await customerLTVRes.json();              // [{bucket, count}]
-      const stock = await productStockRes.json();                   // [{name, min, max, current}] (not used directly here)
-      const breakdown = await transactionBreakdownRes.json();       // { 'YYYY-MM': {sale, income, expense, cash_in}, ... }
-      const payroll = await payrollDistributionRes.json();          // [{month, total_payroll}] (kept if you want later)
-      const topProducts = await topSellingProductsRes.json();       // [{product_name, total_quantity_sold}]
-
       const charts: ChartData[] = [];
 
       // 1) Variwide — width = #transactions, height = revenue
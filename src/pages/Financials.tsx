@@ -19,6 +19,7 @@ import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
+import { apiClient } from '@/utils/apiClient';
 
 // --- Types you already had ---
 interface Transaction {
@@ -48,7 +49,12 @@ interface Asset {
   book_value: number;
 }
 
-const API_BASE_URL = 'https://quantnow.onrender.com';
+// /generate-financial-document?format=json; statements come back at the top level or under `data`
+interface FinancialDocumentJson {
+  data?: FinancialDocumentJson;
+  rows?: unknown;
+  [key: string]: unknown;
+}
 
 // helper to open a Blob (pdf) and also trigger a download
 const openBlobInNewTab = (blob: Blob, filename: string) => {
@@ -120,25 +126,15 @@ const Financials = () => {
     setIsLoading(true);
     setError(null);
     try {
-      const [txRes, accRes, assetRes] = await Promise.all([
-        fetch(`${API_BASE_URL}/transactions?fromDate=${fromDate}&toDate=${toDate}`, {
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
-        }),
-        fetch(`${API_BASE_URL}/accounts`, {
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
-        }),
-        fetch(`${API_BASE_URL}/assets`, {
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
-        }),
+      const [transactions, accounts, assets] = await Promise.all([
+        apiClient.get<Transaction[]>('/transactions', { params: { fromDate, toDate } }),
+        apiClient.get<Account[]>('/accounts'),
+        apiClient.get<Asset[]>('/assets'),
       ]);
 
-      if (!txRes.ok) throw new Error(`Failed to fetch transactions: ${txRes.statusText}`);
-      if (!accRes.ok) throw new Error(`Failed to fetch accounts: ${accRes.statusText}`);
-      if (!assetRes.ok) throw new Error(`Failed to fetch assets: ${assetRes.statusText}`);
-
-      setAllTransactions(await txRes.json());
-      setAllAccounts(await accRes.json());
-      setAllAssets(await assetRes.json());
+      setAllTransactions(transactions);
+      setAllAccounts(accounts);
+      setAllAssets(assets);
     } catch (err: any) {
       console.error("Error fetching financial data:", err);
       setError(`Failed to load data: ${err.message}. Please ensure the backend is running.`);
@@ -347,28 +343,14 @@ const Financials = () => {
       if (!token) return;
 
       try {
-        const qs = new URLSearchParams({
-          documentType: type,
-          startDate: fromDate,
-          endDate: toDate,
-          format: 'json',
-        });
-        const url = `${API_BASE_URL}/generate-financial-document?${qs.toString()}`;
-
-        const res = await fetch(url, {
-          headers: { Accept: 'application/json', Authorization: `Bearer ${token}` },
+        const payload = await apiClient.get<FinancialDocumentJson | string>('/generate-financial-document', {
+          params: { documentType: type, startDate: fromDate, endDate: toDate, format: 'json' },
+          headers: { Accept: 'application/json' },
         });
-        if (!res.ok) {
-          throw new Error(`Failed to fetch ${type} JSON: ${res.status} ${res.statusText}`);
+        // apiClient hands back the raw text when the body is not JSON
+        if (typeof payload === 'string') {
+          throw new Error(`Expected JSON but got: ${payload.slice(0, 40)}...`);
         }
-
-        const ct = res.headers.get('content-type') || '';
-        if (!ct.includes('application/json')) {
-          const text = await res.text();
-          throw new Error(`Expected JSON but got ${ct}. First bytes: ${text.slice(0, 40)}...`);
-        }
-
-        const payload = await res.json();
         const data = payload?.data ?? payload;
 
         if (type === 'income-statement') {
@@ -434,28 +416,11 @@ const Financials = () => {
     }
 
     try {
-      const qs = new URLSearchParams({
-        documentType: selectedDocumentType,
-        startDate: fromDate,
-        endDate: toDate,
+      const blob = await apiClient.get<Blob>('/generate-financial-document', {
+        params: { documentType: selectedDocumentType, startDate: fromDate, endDate: toDate },
+        responseType: 'blob', // application/pdf
       });
-
-      const resp = await fetch(`${API_BASE_URL}/generate-financial-document?${qs}`, {
-        method: 'GET',
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (!resp.ok) {
-        const text = await resp.text();
-        throw new Error(text || `HTTP ${resp.status}`);
-      }
-
-      // Try to read filename from header; fall back if absent
-      const cd = resp.headers.get('Content-Disposition') || '';
-      const match = /filename\*=UTF-8''([^;]+)|filename="?([^"]+)"?/i.exec(cd);
-      const filename = decodeURIComponent(match?.[1] || match?.[2] || `${selectedDocumentType}-${fromDate}-to-${toDate}.pdf`);
-
-      const blob = await resp.blob(); // application/pdf
+      const filename = `${selectedDocumentType}-${fromDate}-to-${toDate}.pdf`;
       openBlobInNewTab(blob, filename);
 
       toast({
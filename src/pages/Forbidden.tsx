@@ -0,0 +1,29 @@
+import { Button } from 'antd'
+import { useNavigate } from 'react-router-dom'
+import { useAuth } from '@/AuthPage'
+import { getDefaultRoute } from '@/lib/permissions'
+
+export default function ForbiddenPage () {
+  const navigate = useNavigate()
+  const { userRoles } = useAuth()
+  const home = getDefaultRoute(userRoles)
+
+  return (
+    <div className='flex flex-col items-center justify-center min-h-screen bg-gradient-to-br from-blue-100 to-purple-200'>
+      <h1 className='text-5xl font-bold text-gray-800 mb-2'>
+        403 - Access Denied
+      </h1>
+      <p className='text-lg text-gray-600 mb-6'>
+        Your role does not have permission to view this page.
+      </p>
+      <p className='text-sm text-gray-500 mb-6'>
+        Signed in as: {userRoles.length > 0 ? userRoles.join(', ') : 'No Role'}
+      </p>
+      {home && (
+        <Button onClick={() => navigate(home)}>
+          Go to my workspace
+        </Button>
+      )}
+    </div>
+  )
+}
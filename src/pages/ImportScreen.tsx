@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Mic,
   Paperclip,
@@ -45,6 +45,8 @@ import { Badge } from '@/components/ui/badge';
 import { useAuth } from '../AuthPage';
 import { SearchableAccountSelect } from '../components/SearchableAccountSelect';
 import { SearchableCategorySelect } from '../components/SearchableCategorySelect';
+import { RAIRO_STMT_API_URL } from '@/lib/env';
+import { apiClient, getErrorMessage } from '@/utils/apiClient';
 
 declare global {
   interface Window {
@@ -94,6 +96,10 @@ interface DupMatch {
 }
 
 // ------------ Duplicate helpers ------------
+// The statement AI service is a third party: no session token, and its own error bodies
+const postToStatementAi = (path: string, body: FormData | { text: string }) =>
+  apiClient.post<{ transactions?: unknown[] }>(path, body, { baseUrl: RAIRO_STMT_API_URL, auth: false });
+
 const normalize = (s?: string) =>
   (s || '')
     .toLowerCase()
@@ -577,8 +583,6 @@ const EditableTransactionTable = ({ transactions: initialTransactions, accounts,
 
 // ------------ Main ------------
 const ChatInterface = () => {
-  const RAIRO_API_BASE_URL = 'https://rairo-stmt-api.hf.space';
-  const API_BASE_URL = 'https://quantnow.onrender.com';
 
   const [messages, setMessages] = useState<Array<{ id: string; sender: string; content: string | JSX.Element }>>([]);
   const [accounts, setAccounts] = useState<Account[]>([]);
@@ -604,8 +608,6 @@ const ChatInterface = () => {
   const { isAuthenticated } = useAuth();
   const token = localStorage.getItem('token');
 
-  const getAuthHeaders = useCallback(() => (token ? { Authorization: `Bearer ${token}` } : {}), [token]);
-
   const categories = [
     'Groceries','Rent','Utilities','Transport','Food','Salary','Deposit','Loan','Debt Payment','Entertainment',
     'Shopping','Healthcare','Education','Travel','Investments','Insurance','Bills','Dining Out','Subscriptions','Other',
@@ -633,8 +635,7 @@ const ChatInterface = () => {
       }
       setIsLoadingAccounts(true);
       try {
-        const response = await fetch(`${API_BASE_URL}/accounts`, { headers: getAuthHeaders() });
-        const data: Account[] = await response.json();
+        const data = await apiClient.get<Account[]>('/accounts');
         setAccounts(Array.isArray(data) ? data : []);
         addAssistantMessage('Accounts loaded successfully. You can now import transactions.');
       } catch (error: any) {
@@ -646,7 +647,7 @@ const ChatInterface = () => {
       }
     };
     fetchAccounts();
-  }, [isAuthenticated, token, getAuthHeaders]);
+  }, [isAuthenticated, token]);
 
   // Load recent existing transactions (for dup check)
   useEffect(() => {
@@ -654,12 +655,9 @@ const ChatInterface = () => {
       if (!isAuthenticated || !token) { setExistingTxs([]); return; }
       try {
         const since = new Date(); since.setDate(since.getDate() - 180);
-        const params = new URLSearchParams({ since: since.toISOString().slice(0, 10), limit: '500' });
-        const res = await fetch(`${API_BASE_URL}/transactions?${params.toString()}`, {
-          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+        const data = await apiClient.get<ExistingTx[]>('/transactions', {
+          params: { since: since.toISOString().slice(0, 10), limit: 500 },
         });
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data = await res.json();
         setExistingTxs(
           Array.isArray(data)
             ? data.map((t: any) => ({
@@ -678,7 +676,7 @@ const ChatInterface = () => {
       }
     };
     fetchExisting();
-  }, [isAuthenticated, token, getAuthHeaders]);
+  }, [isAuthenticated, token]);
 
   // chat helpers
   const addAssistantMessage = (content: string | JSX.Element) =>
@@ -706,18 +704,11 @@ const ChatInterface = () => {
     if (payload.amount === 0) return { success: false, error: 'Amount cannot be zero. Please enter a valid amount.' };
 
     try {
-      const response = await fetch(`${API_BASE_URL}/transactions/manual`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        body: JSON.stringify(payload),
-      });
-      const result = await response.json();
-      return response.ok
-        ? { success: true, transaction: result }
-        : ({ success: false, error: result.detail || 'Failed to submit transaction' } as const);
-    } catch (error: any) {
+      const result = await apiClient.post('/transactions/manual', payload);
+      return { success: true, transaction: result };
+    } catch (error) {
       console.error('Error submitting transaction:', error);
-      return { success: false, error: error.message || 'Network error or server unavailable.' };
+      return { success: false, error: getErrorMessage(error, 'Failed to submit transaction') } as const;
     }
   };
 
@@ -749,64 +740,59 @@ const ChatInterface = () => {
     try {
       const formData = new FormData();
       formData.append('file', file);
-      const response = await fetch(`${RAIRO_API_BASE_URL}/process-pdf`, { method: 'POST', body: formData });
-      const result = await response.json();
-
-      if (response.ok) {
-        addAssistantMessage('PDF processed successfully! Please review the extracted transactions.');
-
-        const transformed: Transaction[] = (result.transactions || []).map((tx: any) => {
-          const transactionType = tx.Type?.toLowerCase() || 'expense';
-          let transactionCategory = tx.Destination_of_funds || 'Uncategorized';
-          if (transactionType === 'income' && ['income','general income'].includes((transactionCategory || '').toLowerCase())) {
-            transactionCategory = 'Sales Revenue';
-          }
-
-          let transactionDate: string;
-          try {
-            transactionDate = tx.Date
-              ? new Date(tx.Date.split('/').reverse().join('-')).toISOString().split('T')[0]
-              : new Date().toISOString().split('T')[0];
-          } catch { transactionDate = new Date().toISOString().split('T')[0]; }
-
-          const { accountId, confidence } = suggestAccountForUpload(
-            { type: transactionType, category: transactionCategory, description: tx.Description },
-            accounts
-          );
-
-          return {
-            _tempId: crypto.randomUUID(),
-            type: transactionType as 'income' | 'expense' | 'debt',
-            amount: tx.Amount ? parseFloat(tx.Amount) : 0,
-            description: tx.Description || 'Imported Transaction',
-            date: transactionDate,
-            category: transactionCategory,
-            account_id: accountId || '',
-            original_text: tx.Original_Text || (tx.Description || 'Imported Transaction'),
-            source: 'pdf-upload',
-            is_verified: true,
-            confidenceScore: confidence,
-          };
-        });
+      const result = await postToStatementAi('/process-pdf', formData);
+
+      addAssistantMessage('PDF processed successfully! Please review the extracted transactions.');
+
+      const transformed: Transaction[] = (result.transactions || []).map((tx: any) => {
+        const transactionType = tx.Type?.toLowerCase() || 'expense';
+        let transactionCategory = tx.Destination_of_funds || 'Uncategorized';
+        if (transactionType === 'income' && ['income','general income'].includes((transactionCategory || '').toLowerCase())) {
+          transactionCategory = 'Sales Revenue';
+        }
+
+        let transactionDate: string;
+        try {
+          transactionDate = tx.Date
+            ? new Date(tx.Date.split('/').reverse().join('-')).toISOString().split('T')[0]
+            : new Date().toISOString().split('T')[0];
+        } catch { transactionDate = new Date().toISOString().split('T')[0]; }
 
-        // DUP CHECK (but keep all selected)
-        const flagged = markDuplicates(transformed, existingTxs);
-
-        addAssistantMessage(
-          <EditableTransactionTable
-            transactions={flagged}
-            accounts={accounts}
-            categories={categories}
-            onConfirm={handleConfirmProcessedTransaction}
-            onCancel={() => addAssistantMessage('Transaction review cancelled.')}
-          />
+        const { accountId, confidence } = suggestAccountForUpload(
+          { type: transactionType, category: transactionCategory, description: tx.Description },
+          accounts
         );
-      } else {
-        addAssistantMessage(`Error processing file: ${result.error || 'Unknown error'}`);
-      }
-    } catch (error: any) {
+
+        return {
+          _tempId: crypto.randomUUID(),
+          type: transactionType as 'income' | 'expense' | 'debt',
+          amount: tx.Amount ? parseFloat(tx.Amount) : 0,
+          description: tx.Description || 'Imported Transaction',
+          date: transactionDate,
+          category: transactionCategory,
+          account_id: accountId || '',
+          original_text: tx.Original_Text || (tx.Description || 'Imported Transaction'),
+          source: 'pdf-upload',
+          is_verified: true,
+          confidenceScore: confidence,
+        };
+      });
+
+      // DUP CHECK (but keep all selected)
+      const flagged = markDuplicates(transformed, existingTxs);
+
+      addAssistantMessage(
+        <EditableTransactionTable
+          transactions={flagged}
+          accounts={accounts}
+          categories={categories}
+          onConfirm={handleConfirmProcessedTransaction}
+          onCancel={() => addAssistantMessage('Transaction review cancelled.')}
+        />
+      );
+    } catch (error) {
       console.error('Network error during file upload:', error);
-      addAssistantMessage(`Network error during file upload: ${error.message || 'API is unavailable.'}`);
+      addAssistantMessage(`Error processing file: ${getErrorMessage(error, 'API is unavailable.')}`);
     } finally {
       setFile(null);
       setTypedDescription('');
@@ -824,69 +810,59 @@ const ChatInterface = () => {
     setTypedDescription('');
 
     try {
-      const response = await fetch(`${RAIRO_API_BASE_URL}/process-text`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: userMessageContent }),
-      });
+      const result = await postToStatementAi('/process-text', { text: userMessageContent });
 
-      const result = await response.json();
-
-      if (response.ok) {
-        addAssistantMessage('Description analyzed successfully! Please review the extracted transactions.');
-
-        const transformed: Transaction[] = (result.transactions || []).map((tx: any) => {
-          const transactionType = tx.Type?.toLowerCase() || 'expense';
-          let transactionCategory = tx.Customer_name || 'Uncategorized';
-          if (transactionType === 'income' && ['income','general income'].includes((transactionCategory || '').toLowerCase())) {
-            transactionCategory = 'Sales Revenue';
-          }
-
-          let transactionDate: string;
-          try {
-            transactionDate = tx.Date
-              ? new Date(tx.Date.split('/').reverse().join('-')).toISOString().split('T')[0]
-              : new Date().toISOString().split('T')[0];
-          } catch { transactionDate = new Date().toISOString().split('T')[0]; }
-
-          const { accountId, confidence } = suggestAccountForText(
-            { type: transactionType, category: transactionCategory, description: tx.Description },
-            accounts
-          );
-
-          return {
-            _tempId: crypto.randomUUID(),
-            type: transactionType as 'income' | 'expense' | 'debt',
-            amount: tx.Amount ? parseFloat(tx.Amount) : 0,
-            description: tx.Description || 'Imported Transaction',
-            date: transactionDate,
-            category: transactionCategory,
-            account_id: accountId || '',
-            original_text: userMessageContent,
-            source: 'text-input',
-            is_verified: true,
-            confidenceScore: confidence,
-          };
-        });
+      addAssistantMessage('Description analyzed successfully! Please review the extracted transactions.');
 
-        // DUP CHECK (keep all selected)
-        const flagged = markDuplicates(transformed, existingTxs);
-
-        addAssistantMessage(
-          <EditableTransactionTable
-            transactions={flagged}
-            accounts={accounts}
-            categories={categories}
-            onConfirm={handleConfirmProcessedTransaction}
-            onCancel={() => addAssistantMessage('Transaction review cancelled.')}
-          />
+      const transformed: Transaction[] = (result.transactions || []).map((tx: any) => {
+        const transactionType = tx.Type?.toLowerCase() || 'expense';
+        let transactionCategory = tx.Customer_name || 'Uncategorized';
+        if (transactionType === 'income' && ['income','general income'].includes((transactionCategory || '').toLowerCase())) {
+          transactionCategory = 'Sales Revenue';
+        }
+
+        let transactionDate: string;
+        try {
+          transactionDate = tx.Date
+            ? new Date(tx.Date.split('/').reverse().join('-')).toISOString().split('T')[0]
+            : new Date().toISOString().split('T')[0];
+        } catch { transactionDate = new Date().toISOString().split('T')[0]; }
+
+        const { accountId, confidence } = suggestAccountForText(
+          { type: transactionType, category: transactionCategory, description: tx.Description },
+          accounts
         );
-      } else {
-        addAssistantMessage(`Error analyzing description: ${result.error || 'Unknown error'}`);
-      }
-    } catch (error: any) {
+
+        return {
+          _tempId: crypto.randomUUID(),
+          type: transactionType as 'income' | 'expense' | 'debt',
+          amount: tx.Amount ? parseFloat(tx.Amount) : 0,
+          description: tx.Description || 'Imported Transaction',
+          date: transactionDate,
+          category: transactionCategory,
+          account_id: accountId || '',
+          original_text: userMessageContent,
+          source: 'text-input',
+          is_verified: true,
+          confidenceScore: confidence,
+        };
+      });
+
+      // DUP CHECK (keep all selected)
+      const flagged = markDuplicates(transformed, existingTxs);
+
+      addAssistantMessage(
+        <EditableTransactionTable
+          transactions={flagged}
+          accounts={accounts}
+          categories={categories}
+          onConfirm={handleConfirmProcessedTransaction}
+          onCancel={() => addAssistantMessage('Transaction review cancelled.')}
+        />
+      );
+    } catch (error) {
       console.error('Network error during text processing:', error);
-      addAssistantMessage(`Network error during text processing: ${error.message || 'API is unavailable.'}`);
+      addAssistantMessage(`Error analyzing description: ${getErrorMessage(error, 'API is unavailable.')}`);
     }
   };
 
@@ -929,68 +905,59 @@ const ChatInterface = () => {
     addUserMessage('Processing recorded audio...');
     try {
       const simulatedTranscribedText = 'I paid fifty dollars for groceries on July fifth, two thousand twenty-five. I also received 1200 salary on the same day.';
-      const processTextResponse = await fetch(`${RAIRO_API_BASE_URL}/process-text`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: simulatedTranscribedText }),
-      });
-      const result = await processTextResponse.json();
-
-      if (processTextResponse.ok) {
-        addAssistantMessage('Audio processed successfully! Please review the extracted transactions.');
-
-        const transformed: Transaction[] = (result.transactions || []).map((tx: any) => {
-          const transactionType = tx.Type === 'income' ? 'income' : 'expense';
-          let transactionCategory = tx.Destination_of_funds;
-          if (transactionType === 'income' && ['income','general income'].includes((transactionCategory || '').toLowerCase())) {
-            transactionCategory = 'Sales Revenue';
-          }
-
-          let transactionDate: string;
-          try {
-            transactionDate = tx.Date
-              ? new Date(tx.Date.split('/').reverse().join('-')).toISOString().split('T')[0]
-              : new Date().toISOString().split('T')[0];
-          } catch { transactionDate = new Date().toISOString().split('T')[0]; }
-
-          const { accountId, confidence } = suggestAccountForText(
-            { type: transactionType, category: transactionCategory, description: tx.Description },
-            accounts
-          );
-
-          return {
-            _tempId: crypto.randomUUID(),
-            type: transactionType as 'income' | 'expense' | 'debt',
-            amount: tx.Amount ? parseFloat(tx.Amount) : 0,
-            description: tx.Description || 'Imported Transaction',
-            date: transactionDate,
-            category: transactionCategory,
-            account_id: accountId || '',
-            original_text: simulatedTranscribedText,
-            source: 'audio-input',
-            is_verified: true,
-            confidenceScore: confidence,
-          };
-        });
+      const result = await postToStatementAi('/process-text', { text: simulatedTranscribedText });
+
+      addAssistantMessage('Audio processed successfully! Please review the extracted transactions.');
+
+      const transformed: Transaction[] = (result.transactions || []).map((tx: any) => {
+        const transactionType = tx.Type === 'income' ? 'income' : 'expense';
+        let transactionCategory = tx.Destination_of_funds;
+        if (transactionType === 'income' && ['income','general income'].includes((transactionCategory || '').toLowerCase())) {
+          transactionCategory = 'Sales Revenue';
+        }
+
+        let transactionDate: string;
+        try {
+          transactionDate = tx.Date
+            ? new Date(tx.Date.split('/').reverse().join('-')).toISOString().split('T')[0]
+            : new Date().toISOString().split('T')[0];
+        } catch { transactionDate = new Date().toISOString().split('T')[0]; }
 
-        // DUP CHECK (keep all selected)
-        const flagged = markDuplicates(transformed, existingTxs);
-
-        addAssistantMessage(
-          <EditableTransactionTable
-            transactions={flagged}
-            accounts={accounts}
-            categories={categories}
-            onConfirm={handleConfirmProcessedTransaction}
-            onCancel={() => addAssistantMessage('Transaction review cancelled.')}
-          />
+        const { accountId, confidence } = suggestAccountForText(
+          { type: transactionType, category: transactionCategory, description: tx.Description },
+          accounts
         );
-      } else {
-        addAssistantMessage(`Error processing audio: ${result.error || 'Unknown error'}`);
-      }
-    } catch (error: any) {
+
+        return {
+          _tempId: crypto.randomUUID(),
+          type: transactionType as 'income' | 'expense' | 'debt',
+          amount: tx.Amount ? parseFloat(tx.Amount) : 0,
+          description: tx.Description || 'Imported Transaction',
+          date: transactionDate,
+          category: transactionCategory,
+          account_id: accountId || '',
+          original_text: simulatedTranscribedText,
+          source: 'audio-input',
+          is_verified: true,
+          confidenceScore: confidence,
+        };
+      });
+
+      // DUP CHECK (keep all selected)
+      const flagged = markDuplicates(transformed, existingTxs);
+
+      addAssistantMessage(
+        <EditableTransactionTable
+          transactions={flagged}
+          accounts={accounts}
+          categories={categories}
+          onConfirm={handleConfirmProcessedTransaction}
+          onCancel={() => addAssistantMessage('Transaction review cancelled.')}
+        />
+      );
+    } catch (error) {
       console.error('Network error during audio processing:', error);
-      addAssistantMessage(`Network error during audio processing: ${error.message || 'API is unavailable.'}`);
+      addAssistantMessage(`Error processing audio: ${getErrorMessage(error, 'API is unavailable.')}`);
     } finally {
       setAudioBlob(null);
       setAudioUrl(null);
@@ -1051,16 +1018,11 @@ const ChatInterface = () => {
     );
 
     try {
-      const API_BASE_URL = 'https://quantnow.onrender.com';
-      const downloadUrl = `${API_BASE_URL}/generate-financial-document?documentType=${selectedDocumentType}&startDate=${documentStartDate}&endDate=${documentEndDate}`;
-      const response = await fetch(downloadUrl, { method: 'GET', headers: getAuthHeaders() });
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to generate document: ${response.status} ${response.statusText} - ${errorText}`);
-      }
-
-      const blob = await response.blob();
-      const filename = response.headers.get('Content-Disposition')?.split('filename=')[1]?.replace(/"/g, '') || `${selectedDocumentType}-${documentStartDate}-to-${documentEndDate}.pdf`;
+      const blob = await apiClient.get<Blob>('/generate-financial-document', {
+        params: { documentType: selectedDocumentType, startDate: documentStartDate, endDate: documentEndDate },
+        responseType: 'blob',
+      });
+      const filename = `${selectedDocumentType}-${documentStartDate}-to-${documentEndDate}.pdf`;
 
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   Button,
   Card,
@@ -16,66 +16,92 @@ import {
   InputNumber,
   message,
   Spin, // Import Spin for loading indicator
+  Popconfirm,
+  Space,
+  type InputRef,
 } from 'antd';
 import {
   PlusOutlined,
   UserAddOutlined,
   ShoppingCartOutlined,
+  SyncOutlined,
+  BarcodeOutlined,
+  CameraOutlined,
+  EditOutlined,
+  PauseCircleOutlined,
+  GiftOutlined,
 } from '@ant-design/icons';
-import { useAuth } from '../AuthPage'; // Import useAuth
+import { useAuth, getUserId } from '../AuthPage'; // Import useAuth
+import { customersApi } from '@/api/customers';
+import { productsApi } from '@/api/products';
+import { salesApi } from '@/api/sales';
+import { getErrorMessage, isApiError } from '@/utils/apiClient';
+import { loadCatalog, saveCatalog } from '@/lib/offlineStore';
+import { useSaleSync } from '@/hooks/useSaleSync';
+import { newLocalId, type FlushResult } from '@/lib/saleQueue';
+import TenderPanel from '@/components/pos/TenderPanel';
+import ReceiptModal from '@/components/pos/ReceiptModal';
+import { profileApi } from '@/api/profile';
+import { buildReceipt, companyFromProfile } from '@/utils/receipt';
+import type { ReceiptCompany, ReceiptData } from '@/types/receipt';
+import type { UserProfile } from '@/types/auth';
+import { newTender, salePaymentType, summarizeTenders, toSaleTenders, type TenderInput } from '@/utils/tenders';
+import type {
+  CartItem,
+  CustomerFrontend,
+  Layby,
+  LaybyPayload,
+  LaybyTerms,
+  LoyaltySettings,
+  ParkedCart,
+  PaymentType,
+  ProductDB,
+  Promotion,
+  SaleLinePayload,
+  SalePayload,
+  Voucher,
+} from '@/types/pos';
+import { useBarcodeScanner } from '@/hooks/useBarcodeScanner';
+import { useHotkeys } from '@/hooks/useHotkeys';
+import { findProductByCode, parseScanInput, playScanTone } from '@/utils/barcode';
+import CameraScanner from '@/components/pos/CameraScanner';
+import ManagerApprovalModal from '@/components/pos/ManagerApprovalModal';
+import { promotionsApi } from '@/api/promotions';
+import { priceCart, overrideReductionPercent } from '@/utils/promotions';
+import { usePermissions } from '@/hooks/usePermissions';
+import { PRICE_OVERRIDE_APPROVAL_PERCENT, VOUCHER_VALIDITY_MONTHS } from '@/lib/env';
+import { useParkedCarts } from '@/hooks/useParkedCarts';
+import { parkedCartExpiry } from '@/lib/parkedCarts';
+import { useShift } from '@/hooks/useShift';
+import ShiftControls from '@/components/pos/ShiftControls';
+import LaybyModal from '@/components/pos/LaybyModal';
+import VoucherModal from '@/components/pos/VoucherModal';
+import VariantPickerModal from '@/components/pos/VariantPickerModal';
+import { isVariantParent, variantsOf } from '@/utils/variants';
+import { generateVoucherCode, voucherExpiry, voucherFromIssue } from '@/utils/vouchers';
+import { laybyApi } from '@/api/laybys';
+import { laybyFromPayload } from '@/utils/layby';
+import { loyaltyApi } from '@/api/loyalty';
+import {
+  DEFAULT_LOYALTY_SETTINGS,
+  loyaltyTier,
+  pointsEarned,
+  pointsForValue,
+  pointsValue,
+  redemptionProblem,
+} from '@/utils/loyalty';
 
 const useBreakpoint = Grid.useBreakpoint;
 const { Title, Text } = Typography;
 const { Option } = Select;
 
-// --- START: MODIFIED TYPES TO MATCH BACKEND API ---
-// Interface matching the public.products_services table structure (from previous context)
-interface ProductDB {
-  id: number;
+interface PriceOverride {
+  id: number | string;
   name: string;
-  description: string | null;
-  unit_price: number; // Renamed from sellingPrice
-  cost_price: number | null;
-  sku: string | null;
-  is_service: boolean;
-  stock_quantity: number; // Renamed from qty
-  created_at: Date;
-  updated_at: Date;
-  tax_rate_id: number | null;
-  category: string | null;
-  unit: string | null;
-  tax_rate_value?: number;
+  originalPrice: number;
+  price: number;
 }
 
-// Interface for Customer (from previous context, mapped to frontend camelCase)
-interface CustomerFrontend {
-  id: string; // Changed to string as it comes from DB (PostgreSQL IDs can be large numbers, safer as string)
-  name: string;
-  contactPerson: string | null;
-  email: string | null;
-  phone: string | null;
-  address: string | null;
-  taxId: string | null; // Changed from vatNumber to taxId to match mapCustomerToFrontend
-  totalInvoiced: number; // Already camelCase
-  balanceDue?: number; // Added for credit functionality - assuming backend provides this
-  creditLimit?: number; // Added for credit functionality - assuming backend provides this
-}
-
-// Type for cart items, based on ProductDB, but allowing custom items
-type CartItem = (ProductDB | {
-  id: string; // For custom items, use a unique string ID
-  name: string;
-  description: string;
-  unit_price: number;
-  is_service: boolean; // Custom items can be services
-  tax_rate_value: number; // Custom items need a tax rate
-}) & { quantity: number; subtotal: number };
-
-type PaymentType = 'Cash' | 'Bank' | 'Credit';
-// --- END: MODIFIED TYPES TO MATCH BACKEND API ---
-
-const API_BASE_URL = 'https://quantnow.onrender.com'; // IMPORTANT: Replace with your actual backend API URL
-
 // Define fixed VAT rate options (same as QuotationForm)
 const VAT_OPTIONS = [
   { value: 0.00, label: '0%' },
@@ -97,6 +123,7 @@ export default function POSScreen() {
   const [showNewCustomer, setShowNewCustomer] = useState(false);
 
   const [selectedProduct, setSelectedProduct] = useState<ProductDB | null>(null);
+  const [variantParent, setVariantParent] = useState<ProductDB | null>(null);
   const [productModal, setProductModal] = useState(false);
   const [productSearch, setProductSearch] = useState('');
   const [productQty, setProductQty] = useState(1);
@@ -109,21 +136,135 @@ export default function POSScreen() {
   const [customProductTaxRate, setCustomProductTaxRate] = useState<number>(0.15); // Default to 15% VAT
 
   const [cart, setCart] = useState<CartItem[]>([]);
+  // Latest cart for checks made between renders, e.g. several scans in one tick
+  const cartRef = useRef<CartItem[]>([]);
+  const [parkModal, setParkModal] = useState(false);
+  const [parkLabel, setParkLabel] = useState('');
+  const [laybyOpen, setLaybyOpen] = useState(false);
+  const [sellVoucherOpen, setSellVoucherOpen] = useState(false);
+  const [voucherValue, setVoucherValue] = useState<number | null>(null);
+  const [voucherRecipient, setVoucherRecipient] = useState('');
+  const [soldVouchers, setSoldVouchers] = useState<{ vouchers: Voucher[]; pendingSync: boolean } | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loyaltySettings, setLoyaltySettings] = useState<LoyaltySettings>(DEFAULT_LOYALTY_SETTINGS);
+  const [redeemPoints, setRedeemPoints] = useState(0); // points taken off the price when redeemed as a discount
+
+  // Manual price override being edited, and one waiting on manager approval
+  const [priceEdit, setPriceEdit] = useState<PriceOverride | null>(null);
+  const [pendingOverride, setPendingOverride] = useState<PriceOverride | null>(null);
+
+  // Scanner input: a pending "N*" multiplier applies to the next scan
+  const [scanInput, setScanInput] = useState('');
+  const [scanMultiplier, setScanMultiplier] = useState(1);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const scanInputRef = useRef<InputRef>(null);
 
-  const [paymentType, setPaymentType] = useState<PaymentType>('Cash');
-  const [amountPaid, setAmountPaid] = useState(0);
+  const [tenders, setTenders] = useState<TenderInput[]>(() => [newTender()]);
   const [dueDate, setDueDate] = useState<string | null>(null);
 
-  const { isAuthenticated } = useAuth(); // Get authentication status
-  const token = localStorage.getItem('token'); // Retrieve the token
+  // Receipt shown after each sale
+  const [receiptCompany, setReceiptCompany] = useState<ReceiptCompany>(() => companyFromProfile(null));
+  const [receipt, setReceipt] = useState<ReceiptData | null>(null);
+  const [receiptCustomer, setReceiptCustomer] = useState<CustomerFrontend | null>(null);
+
+  const { can } = usePermissions();
+  const { shift, loading: shiftLoading, openShift, closeShift, xReport } = useShift(getUserId());
+  const {
+    parkedCarts,
+    park: parkCurrentCart,
+    take: takeParkedCart,
+    discard: discardParkedCart,
+    reservedQuantity,
+  } = useParkedCarts(getUserId(), expired =>
+    messageApi.warning(
+      `${expired.length} parked cart(s) expired and were discarded: ${expired.map(c => c.label).join(', ')}. Held stock was released.`,
+    ),
+  );
+  const {
+    isAuthenticated,
+    token,
+    userName,
+    companyName,
+    branches,
+    activeBranch,
+    setActiveBranch,
+  } = useAuth(); // Get authentication status, session token and teller identity
 
   // --- Declare isLoading state ---
   const [isLoading, setIsLoading] = useState(false);
 
-  // Helper to get authorization headers
-  const getAuthHeaders = useCallback(() => {
-    return token ? { 'Authorization': `Bearer ${token}` } : {};
-  }, [token]);
+  // --- Offline sale queue ---
+  const refreshProducts = async () => {
+    try {
+      const updatedProductsFromAPI = await productsApi.list();
+      setProducts(updatedProductsFromAPI);
+      saveCatalog('products', updatedProductsFromAPI).catch(err => console.warn('Could not cache products:', err));
+    } catch (fetchError) {
+      console.warn('Failed to re-fetch products, stock display might be outdated.', fetchError);
+    }
+  };
+
+  const handleFlushed = (result: FlushResult) => {
+    if (result.synced > 0) {
+      messageApi.success(`${result.synced} offline sale(s) synced.`);
+      refreshProducts();
+    }
+    if (result.conflicts.length > 0) {
+      messageApi.error(`${result.conflicts.length} offline sale(s) need attention.`);
+    }
+  };
+
+  const {
+    isOnline,
+    isSyncing,
+    syncError,
+    pendingCount,
+    conflicts,
+    queueSale,
+    syncNow,
+    retry: retryQueuedSale,
+    discard: discardQueuedSale,
+  } = useSaleSync(handleFlushed);
+
+  // Applies a sale captured offline to the local catalogue so stock and credit
+  // balances stay believable until the queue syncs.
+  const applyOfflineSale = (payload: SalePayload) => {
+    const soldQty = new Map<number, number>();
+    payload.cart.forEach(line => {
+      if (line.id !== undefined && !line.is_service) {
+        soldQty.set(line.id, (soldQty.get(line.id) ?? 0) + line.quantity);
+      }
+    });
+    const nextProducts = products.map(p =>
+      soldQty.has(p.id) ? { ...p, stock_quantity: (p.stock_quantity ?? 0) - (soldQty.get(p.id) ?? 0) } : p
+    );
+    setProducts(nextProducts);
+    saveCatalog('products', nextProducts).catch(err => console.warn('Could not cache products:', err));
+
+    const onAccount = payload.tenders.find(t => t.method === 'Credit')?.amount ?? 0;
+    const storeCreditUsed = payload.tenders.find(t => t.method === 'StoreCredit')?.amount ?? 0;
+    const pointsChange = payload.loyalty ? payload.loyalty.pointsEarned - payload.loyalty.pointsRedeemed : 0;
+    if ((onAccount > 0 || storeCreditUsed > 0 || pointsChange !== 0) && payload.customer) {
+      const nextCustomers = customers.map(c =>
+        c.id === payload.customer!.id
+          ? {
+              ...c,
+              balanceDue: (c.balanceDue ?? 0) + onAccount,
+              storeCredit: (c.storeCredit ?? 0) - storeCreditUsed,
+              loyaltyPoints: (c.loyaltyPoints ?? 0) + pointsChange,
+            }
+          : c
+      );
+      setCustomers(nextCustomers);
+      saveCatalog('customers', nextCustomers).catch(err => console.warn('Could not cache customers:', err));
+    }
+  };
+
+  // Every other cart change (remove, quantity edit, park, clear) lands here after the render
+  useEffect(() => {
+    cartRef.current = cart;
+  }, [cart]);
 
   // --- START: FETCH DATA FROM API ON COMPONENT MOUNT ---
   useEffect(() => {
@@ -135,18 +276,19 @@ export default function POSScreen() {
       }
       setIsLoading(true); // Set loading true before fetch
       try {
-        const response = await fetch(`${API_BASE_URL}/api/customers`, {
-          headers: getAuthHeaders(),
-        });
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        const data: CustomerFrontend[] = await response.json();
+        const data = await customersApi.list();
         setCustomers(data);
+        saveCatalog('customers', data).catch(err => console.warn('Could not cache customers:', err));
         console.log('Fetched customers:', data); // Log fetched data
       } catch (error) {
         console.error('Error fetching customers:', error);
-        messageApi.error('Failed to fetch customers.');
+        const cached = await loadCatalog<CustomerFrontend[]>('customers').catch(() => null);
+        if (cached) {
+          setCustomers(cached.data);
+          messageApi.warning('Offline: showing customers cached on ' + new Date(cached.savedAt).toLocaleString());
+        } else {
+          messageApi.error('Failed to fetch customers.');
+        }
       } finally {
         setIsLoading(false); // Set loading false after fetch
       }
@@ -160,34 +302,118 @@ export default function POSScreen() {
       }
       setIsLoading(true); // Set loading true before fetch
       try {
-        const response = await fetch(`${API_BASE_URL}/products-services`, {
-          headers: getAuthHeaders(),
-        });
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        const data: ProductDB[] = await response.json();
+        const data = await productsApi.list();
         setProducts(data);
+        saveCatalog('products', data).catch(err => console.warn('Could not cache products:', err));
         console.log('Fetched products:', data); // Log fetched data
       } catch (error) {
         console.error('Error fetching products:', error);
-        messageApi.error('Failed to fetch products.');
+        const cached = await loadCatalog<ProductDB[]>('products').catch(() => null);
+        if (cached) {
+          setProducts(cached.data);
+          messageApi.warning('Offline: showing products cached on ' + new Date(cached.savedAt).toLocaleString());
+        } else {
+          messageApi.error('Failed to fetch products.');
+        }
       } finally {
         setIsLoading(false); // Set loading false after fetch
       }
     }
 
+    async function fetchPromotions() {
+      try {
+        const data = await promotionsApi.list();
+        setPromotions(data);
+        saveCatalog('promotions', data).catch(err => console.warn('Could not cache promotions:', err));
+      } catch (error) {
+        console.warn('Failed to fetch promotions:', error);
+        const cached = await loadCatalog<Promotion[]>('promotions').catch(() => null);
+        if (cached) setPromotions(cached.data);
+      }
+    }
+
+    async function fetchLoyaltySettings() {
+      try {
+        const data = await loyaltyApi.settings();
+        setLoyaltySettings({ ...DEFAULT_LOYALTY_SETTINGS, ...data });
+        saveCatalog('loyaltySettings', data).catch(err => console.warn('Could not cache loyalty settings:', err));
+      } catch (error) {
+        console.warn('Failed to fetch loyalty settings:', error);
+        const cached = await loadCatalog<LoyaltySettings>('loyaltySettings').catch(() => null);
+        if (cached) setLoyaltySettings({ ...DEFAULT_LOYALTY_SETTINGS, ...cached.data });
+      }
+    }
+
+    // Company details for receipts; cached so offline receipts still show them
+    async function fetchCompanyProfile() {
+      try {
+        const profile = await profileApi.get();
+        setReceiptCompany(companyFromProfile(profile));
+        saveCatalog('profile', profile).catch(err => console.warn('Could not cache profile:', err));
+      } catch (error) {
+        console.warn('Failed to fetch company profile for receipts:', error);
+        const cached = await loadCatalog<UserProfile>('profile').catch(() => null);
+        if (cached) setReceiptCompany(companyFromProfile(cached.data));
+      }
+    }
+
     if (isAuthenticated && token) {
       fetchCustomers();
       fetchProducts();
+      fetchPromotions();
+      fetchLoyaltySettings();
+      fetchCompanyProfile();
     } else {
       setCustomers([]);
       setProducts([]);
+      setPromotions([]);
       console.warn('User not authenticated, not fetching data.');
     }
-  }, [isAuthenticated, token, getAuthHeaders, messageApi]); // Add isAuthenticated, token, getAuthHeaders, messageApi to dependencies
+  }, [isAuthenticated, token, messageApi]);
   // --- END: FETCH DATA FROM API ON COMPONENT MOUNT ---
 
+  // Stock left for the live cart once lay-bys and parked carts have taken their share
+  const availableStock = (product: ProductDB) =>
+    (product.stock_quantity ?? 0) - (product.reserved_quantity ?? 0) - reservedQuantity(product.id);
+
+  const hasStockFor = (product: ProductDB, qty: number) => {
+    const availableQty = availableStock(product);
+    const alreadyInCart = cartRef.current.find(i => i.id === product.id)?.quantity ?? 0;
+    if (qty + alreadyInCart > availableQty) {
+      messageApi.error(
+        `Not enough stock for "${product.name}". Only ${availableQty - alreadyInCart} units available.`,
+      );
+      return false;
+    }
+    return true;
+  };
+
+  const productCartItem = (product: ProductDB, qty: number): CartItem => ({
+    ...product,
+    quantity: qty,
+    subtotal: qty * product.unit_price * (1 + (product.tax_rate_value ?? 0)), // Include tax for existing products
+  });
+
+  // Adds to an existing line when the item is already in the cart. Uses the
+  // functional update so back-to-back scans don't overwrite each other, and
+  // moves cartRef on straight away so the next scan's stock check counts this one.
+  const mergeIntoCart = (itemToAdd: CartItem) => {
+    const merge = (prev: CartItem[]) => {
+      if (!prev.some(i => i.id === itemToAdd.id)) return [...prev, itemToAdd];
+      return prev.map(i =>
+        i.id === itemToAdd.id
+          ? {
+              ...i,
+              quantity: i.quantity + itemToAdd.quantity,
+              subtotal: (i.quantity + itemToAdd.quantity) * i.unit_price * (1 + (i.tax_rate_value ?? 0)),
+            }
+          : i,
+      );
+    };
+    cartRef.current = merge(cartRef.current);
+    setCart(merge);
+  };
+
   // Add to cart logic
   const addToCart = () => {
     if (!isAuthenticated) {
@@ -217,41 +443,13 @@ export default function POSScreen() {
       // Handle existing product
       if (!selectedProduct || productQty < 1) return;
 
-      const availableQty = selectedProduct.stock_quantity ?? 0;
-      const alreadyInCart = cart.find(i => i.id === selectedProduct.id)?.quantity ?? 0;
-      if (productQty + alreadyInCart > availableQty) {
-        messageApi.error(
-          `Not enough stock for "${selectedProduct.name}". Only ${
-            availableQty - alreadyInCart
-          } units available.`,
-        );
-        return;
-      }
-      itemToAdd = {
-        ...selectedProduct,
-        quantity: productQty,
-        subtotal: productQty * selectedProduct.unit_price * (1 + (selectedProduct.tax_rate_value ?? 0)), // Include tax for existing products
-      };
+      if (!hasStockFor(selectedProduct, productQty)) return;
+      itemToAdd = productCartItem(selectedProduct, productQty);
     }
 
     if (!itemToAdd) return; // Should not happen if validation passes
 
-    const existing = cart.find(i => i.id === itemToAdd!.id);
-    if (existing) {
-      setCart(
-        cart.map(i =>
-          i.id === itemToAdd!.id
-            ? {
-                ...i,
-                quantity: i.quantity + itemToAdd!.quantity,
-                subtotal: (i.quantity + itemToAdd!.quantity) * i.unit_price * (1 + (i.tax_rate_value ?? 0)),
-              }
-            : i,
-        ),
-      );
-    } else {
-      setCart([...cart, itemToAdd]);
-    }
+    mergeIntoCart(itemToAdd);
 
     // Reset product selection/custom product form
     setSelectedProduct(null);
@@ -267,6 +465,219 @@ export default function POSScreen() {
   // Remove from cart
   const removeFromCart = (id: number | string) => setCart(cart.filter(i => i.id !== id)); // ID type changed to number | string
 
+  // --- Parked carts ---
+  const defaultParkLabel = () =>
+    selectedCustomer?.name || `Cart ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+
+  const clearLiveCart = () => {
+    setCart([]);
+    setTenders([newTender()]);
+    setDueDate(null);
+    setSelectedCustomer(null);
+    setRedeemPoints(0);
+  };
+
+  const openParkModal = () => {
+    if (cart.length === 0) {
+      messageApi.warning('The cart is empty.');
+      return;
+    }
+    setParkLabel(defaultParkLabel());
+    setParkModal(true);
+  };
+
+  const handlePark = async () => {
+    try {
+      await parkCurrentCart(parkLabel.trim() || defaultParkLabel(), cart, selectedCustomer);
+      messageApi.success('Cart parked.');
+      clearLiveCart();
+      setParkModal(false);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Could not park the cart.'));
+    }
+  };
+
+  // Resuming swaps carts: whatever is in the live cart is parked first so
+  // several customers can be served side by side.
+  const handleResume = async (parked: ParkedCart) => {
+    try {
+      if (cart.length > 0) await parkCurrentCart(defaultParkLabel(), cart, selectedCustomer);
+      await takeParkedCart(parked);
+      setCart(parked.items);
+      setSelectedCustomer(parked.customer);
+      setTenders([newTender()]);
+      setDueDate(null);
+      setRedeemPoints(0);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Could not resume the cart.'));
+    }
+  };
+
+  const handleDiscardParked = async (parked: ParkedCart) => {
+    try {
+      await discardParkedCart(parked);
+      messageApi.info(`Parked cart "${parked.label}" discarded.`);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Could not discard the cart.'));
+    }
+  };
+
+  // --- Price overrides ---
+  const applyPriceOverride = (override: PriceOverride, approvedBy: string | null) => {
+    setCart(prev =>
+      prev.map(i => {
+        if (i.id !== override.id) return i;
+        const restored = override.price === override.originalPrice;
+        return {
+          ...i,
+          unit_price: override.price,
+          subtotal: i.quantity * override.price * (1 + (i.tax_rate_value ?? 0)),
+          original_unit_price: restored ? undefined : override.originalPrice,
+          override_approved_by: restored ? undefined : approvedBy,
+        };
+      }),
+    );
+  };
+
+  // Small cuts go straight through; bigger ones need a manager unless the
+  // teller is one, in which case they are recorded as the approver.
+  const confirmPriceOverride = () => {
+    if (!priceEdit) return;
+    if (priceEdit.price < 0) {
+      messageApi.error('Price cannot be negative.');
+      return;
+    }
+    const reduction = overrideReductionPercent(priceEdit.originalPrice, priceEdit.price);
+    if (reduction > PRICE_OVERRIDE_APPROVAL_PERCENT) {
+      if (can('prices.override')) {
+        applyPriceOverride(priceEdit, getUserId());
+      } else {
+        setPendingOverride(priceEdit);
+      }
+    } else {
+      applyPriceOverride(priceEdit, null);
+    }
+    setPriceEdit(null);
+  };
+
+  const openPriceEdit = (item: CartItem) => {
+    if (item.voucher) {
+      messageApi.info('Gift vouchers are sold at face value. Remove the line and sell a new voucher instead.');
+      return;
+    }
+    setPriceEdit({
+      id: item.id,
+      name: item.name,
+      originalPrice: item.original_unit_price ?? item.unit_price,
+      price: item.unit_price,
+    });
+  };
+
+  // Vouchers go through the cart like any other line so they are paid through
+  // the normal tenders; the code is generated here so the voucher prints even offline.
+  const addVoucherToCart = () => {
+    const value = Math.round((voucherValue ?? 0) * 100) / 100;
+    if (value <= 0) {
+      messageApi.warning('Enter the voucher value.');
+      return;
+    }
+    const code = generateVoucherCode();
+    mergeIntoCart({
+      id: `voucher-${code}`,
+      name: `Gift voucher ${code}`,
+      description: voucherRecipient.trim() ? `For ${voucherRecipient.trim()}` : 'Gift voucher',
+      unit_price: value,
+      is_service: true,
+      tax_rate_value: 0, // VAT is charged when the voucher is spent, not when it is sold
+      quantity: 1,
+      subtotal: value,
+      voucher: { code, expiresAt: voucherExpiry(VOUCHER_VALIDITY_MONTHS), recipient: voucherRecipient.trim() || null },
+    });
+    setSellVoucherOpen(false);
+  };
+
+  const openSellVoucher = () => {
+    setVoucherValue(null);
+    setVoucherRecipient('');
+    setSellVoucherOpen(true);
+  };
+
+  // --- Barcode scanning ---
+  const flagUnknownScan = (code: string) => {
+    playScanTone(false);
+    setScanError(code);
+    window.setTimeout(() => setScanError(null), 1500);
+    messageApi.error(`No product matches barcode "${code}".`);
+  };
+
+  const handleScan = (raw: string) => {
+    const parsed = parseScanInput(raw);
+    if (!parsed.code) {
+      // "3*" typed on its own applies to the next scan
+      setScanMultiplier(parsed.quantity);
+      return;
+    }
+    const quantity = parsed.quantity > 1 ? parsed.quantity : scanMultiplier;
+    setScanMultiplier(1);
+
+    const product = findProductByCode(products, parsed.code);
+    if (!product) {
+      flagUnknownScan(parsed.code);
+      return;
+    }
+    // A parent's own code can't say which size or colour; ask for it
+    if (isVariantParent(product)) {
+      playScanTone(true);
+      setVariantParent(product);
+      return;
+    }
+    if (!isAuthenticated || !hasStockFor(product, quantity)) {
+      playScanTone(false);
+      return;
+    }
+    playScanTone(true);
+    mergeIntoCart(productCartItem(product, quantity));
+  };
+
+  const submitScanInput = () => {
+    if (scanInput.trim()) handleScan(scanInput);
+    setScanInput('');
+  };
+
+  useBarcodeScanner({
+    enabled:
+      !customerModal && !productModal && !cameraOpen && !receipt && !priceEdit && !pendingOverride && !parkModal && !laybyOpen &&
+      !sellVoucherOpen,
+    onScan: handleScan,
+    onMultiplier: setScanMultiplier,
+  });
+
+  // Puts the whole amount on a single tender (exact cash for Cash), replacing any split
+  const payWith = (method: PaymentType) => setTenders([newTender(method, Math.round(total * 100) / 100)]);
+
+  useHotkeys(
+    {
+      F2: () => setCustomerModal(true),
+      F3: () => {
+        setShowCustomProductForm(false);
+        setProductModal(true);
+      },
+      F4: () => scanInputRef.current?.focus(),
+      F6: () => payWith('Cash'),
+      F7: () => payWith('Bank'),
+      F8: () => payWith('Credit'),
+      F9: () => {
+        const last = cart[cart.length - 1];
+        if (last) removeFromCart(last.id);
+      },
+      F10: openParkModal,
+      'Ctrl+Enter': () => {
+        if (canSubmit) handleSubmit();
+      },
+    },
+    !receipt && !priceEdit && !pendingOverride && !parkModal && !laybyOpen && !sellVoucherOpen,
+  );
+
   // --- START: MODIFIED handleAddCustomer TO USE API ---
   const handleAddCustomer = async (values: {
     name: string;
@@ -282,13 +693,7 @@ export default function POSScreen() {
     setIsLoading(true); // Set loading true
     try {
       // Check for existing customer by phone before adding (optional, but good practice)
-      const existingCustomerResponse = await fetch(
-        `${API_BASE_URL}/api/customers?search=${values.phone}`, {
-          headers: getAuthHeaders(),
-        }
-      );
-      const existingCustomers: CustomerFrontend[] =
-        await existingCustomerResponse.json();
+      const existingCustomers = await customersApi.list(values.phone);
       const existing = existingCustomers.find(
         c => c.phone?.replace(/\D/g, '') === values.phone.replace(/\D/g, ''),
       );
@@ -299,36 +704,20 @@ export default function POSScreen() {
           'Customer with that phone number already exists. Selected existing record.',
         );
       } else {
-        const response = await fetch(`${API_BASE_URL}/api/customers`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            ...getAuthHeaders(),
-          },
-          body: JSON.stringify({
-            name: values.name,
-            phone: values.phone,
-            email: values.email || null, // Ensure null for optional fields if empty
-            address: values.address || null,
-            vatNumber: values.taxId || null, // Map taxId from form to vatNumber for API
-          }),
+        const newCustomer = await customersApi.create({
+          name: values.name,
+          phone: values.phone,
+          email: values.email || null, // Ensure null for optional fields if empty
+          address: values.address || null,
+          vatNumber: values.taxId || null, // Map taxId from form to vatNumber for API
         });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(
-            errorData.detail || errorData.error || 'Failed to add new customer.',
-          );
-        }
-
-        const newCustomer: CustomerFrontend = await response.json();
         setCustomers(prev => [...prev, newCustomer]); // Add new customer to state
         setSelectedCustomer(newCustomer);
         messageApi.success('New customer added and selected.');
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error adding customer:', error);
-      messageApi.error(error.message || 'Failed to add new customer.');
+      messageApi.error(getErrorMessage(error, 'Failed to add new customer.'));
     } finally {
       setIsLoading(false); // Set loading false
       setCustomerModal(false);
@@ -338,9 +727,122 @@ export default function POSScreen() {
   };
   // --- END: MODIFIED handleAddCustomer TO USE API ---
 
-  // Cart total
-  const total = cart.reduce((sum, item) => sum + item.subtotal, 0);
-  const change = paymentType === 'Cash' ? amountPaid - total : 0;
+  // Cart total after promotions, basket discounts and any points redeemed as a discount
+  const pricingLines = cart.map(item => ({
+    id: item.id,
+    productId: typeof item.id === 'number' ? item.id : undefined,
+    quantity: item.quantity,
+    unitPrice: item.unit_price,
+    taxRate: item.tax_rate_value ?? 0,
+    // An overridden price already is the discount, so promotions don't come off it as well
+    noDiscount: !!item.voucher || item.original_unit_price !== undefined,
+  }));
+  const pointsDiscountMode = loyaltySettings.enabled && loyaltySettings.redeemAs === 'discount';
+  const pointsDiscount = pointsDiscountMode ? pointsValue(redeemPoints, loyaltySettings) : 0;
+  const basePricing = priceCart(pricingLines, promotions);
+  const pricing =
+    pointsDiscount > 0
+      ? priceCart(pricingLines, promotions, new Date(), { label: 'Loyalty points', amount: pointsDiscount })
+      : basePricing;
+  const pricedLines = new Map(pricing.lines.map(line => [line.id, line]));
+  const lineTotal = (item: CartItem) => pricedLines.get(item.id)?.total ?? item.subtotal;
+  const lineDiscounts = (item: CartItem) => pricedLines.get(item.id)?.discounts ?? [];
+  const total = pricing.total;
+  const tenderSummary = summarizeTenders(tenders, total);
+
+  // Loyalty: points redeemed either as a discount or as a tender, and points earned on what is left
+  const pointsRedeemed = pointsDiscountMode ? redeemPoints : pointsForValue(tenderSummary.pointsAmount, loyaltySettings);
+  const pointsProblem = pointsDiscountMode
+    ? redemptionProblem(redeemPoints, pointsDiscount, selectedCustomer, loyaltySettings, basePricing.total)
+    : redemptionProblem(pointsRedeemed, tenderSummary.pointsAmount, selectedCustomer, loyaltySettings, total);
+  const customerTier = selectedCustomer ? loyaltyTier(selectedCustomer.loyaltyPointsYear ?? 0, loyaltySettings) : null;
+  const saleLoyalty =
+    selectedCustomer && loyaltySettings.enabled
+      ? {
+          pointsEarned: pointsEarned(
+            cart.map(item => ({
+              category: 'category' in item ? item.category : null,
+              total: lineTotal(item),
+              noEarn: !!item.voucher,
+            })),
+            loyaltySettings,
+            customerTier,
+            tenderSummary.pointsAmount
+          ),
+          pointsRedeemed,
+        }
+      : undefined;
+
+  const canSubmit =
+    isAuthenticated &&
+    !isLoading &&
+    cart.length > 0 &&
+    tenderSummary.remaining <= 0 &&
+    !tenderSummary.nonCashOverpaid &&
+    !tenderSummary.voucherError &&
+    !pointsProblem &&
+    !(tenderSummary.creditAmount > 0 && (!selectedCustomer || selectedCustomer.onHold)) &&
+    !(tenderSummary.storeCreditAmount > 0 && tenderSummary.storeCreditAmount > (selectedCustomer?.storeCredit || 0));
+
+  const saleLines = (): SaleLinePayload[] =>
+    cart.map(item => ({
+      ...(typeof item.id === 'number' ? { id: item.id } : {}),
+      name: item.name,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      subtotal: lineTotal(item),
+      is_service: item.is_service || false,
+      tax_rate_value: item.tax_rate_value ?? 0,
+      ...(item.original_unit_price !== undefined
+        ? { original_unit_price: item.original_unit_price, override_approved_by: item.override_approved_by ?? null }
+        : {}),
+      ...(lineDiscounts(item).length > 0 ? { discounts: lineDiscounts(item) } : {}),
+      ...(item.voucher ? { voucher: item.voucher } : {}),
+    }));
+
+  // Points are only redeemed on completed sales, never on lay-bys
+  const canLayby =
+    isAuthenticated &&
+    !isLoading &&
+    isOnline &&
+    cart.length > 0 &&
+    !!selectedCustomer &&
+    !cart.some(i => i.voucher) &&
+    pointsDiscount === 0;
+
+  // Lay-bys reserve stock on the server, so unlike sales they are never queued offline
+  const handleLayby = async (terms: LaybyTerms): Promise<Layby | null> => {
+    if (!selectedCustomer) return null;
+    if (branches.length > 0 && !activeBranch) {
+      messageApi.error('Select the branch you are selling from.');
+      return null;
+    }
+    if (!shift) {
+      messageApi.error('Open a shift before taking a lay-by deposit.');
+      return null;
+    }
+    const payload: LaybyPayload = {
+      ...terms,
+      cart: saleLines(),
+      total,
+      discountTotal: pricing.discountTotal,
+      customer: { id: selectedCustomer.id, name: selectedCustomer.name },
+      shiftId: shift.id,
+      tellerId: getUserId(),
+      tellerName: userName || 'Unknown Teller',
+      branch: activeBranch || '',
+    };
+    try {
+      const result = await laybyApi.create(payload);
+      clearLiveCart();
+      await refreshProducts();
+      return laybyFromPayload(payload, result);
+    } catch (err) {
+      console.error('Error opening lay-by:', err);
+      messageApi.error(getErrorMessage(err, 'Could not open the lay-by.'));
+      return null;
+    }
+  };
 
   // --- START: MODIFIED SALE SUBMISSION TO USE API ---
   const handleSubmit = async () => {
@@ -352,21 +854,61 @@ export default function POSScreen() {
       messageApi.warning('Add at least one product to the cart');
       return;
     }
+    if (branches.length > 0 && !activeBranch) {
+      messageApi.error('Select the branch you are selling from.');
+      return;
+    }
+    if (!shift) {
+      messageApi.error('Open a shift before ringing up sales.');
+      return;
+    }
 
-    if (paymentType === 'Credit') {
+    if (tenderSummary.remaining > 0 || tenderSummary.nonCashOverpaid) {
+      messageApi.error('Tenders must cover the sale total, and only cash can exceed it.');
+      return;
+    }
+
+    if (tenderSummary.voucherError) {
+      messageApi.error(tenderSummary.voucherError);
+      return;
+    }
+
+    if (pointsProblem) {
+      messageApi.error(pointsProblem);
+      return;
+    }
+
+    if (tenderSummary.storeCreditAmount > 0) {
+      if (!selectedCustomer) {
+        messageApi.error('Select the customer whose store credit is being used.');
+        return;
+      }
+      if (tenderSummary.storeCreditAmount > (selectedCustomer.storeCredit || 0)) {
+        messageApi.error(`${selectedCustomer.name} only has R${(selectedCustomer.storeCredit || 0).toFixed(2)} store credit.`);
+        return;
+      }
+    }
+
+    if (tenderSummary.creditAmount > 0) {
       if (!selectedCustomer) {
         messageApi.error('Customer not selected for credit sale.');
         return;
       }
+      if (selectedCustomer.onHold) {
+        messageApi.error(`${selectedCustomer.name}'s account is on hold for overdue payments. Take payment by cash or card.`);
+        return;
+      }
 
       // --- New: Credit limit check ---
       const currentBalance = selectedCustomer.balanceDue || 0;
       const customerCreditLimit = selectedCustomer.creditLimit || Infinity; // Use Infinity if no limit is explicitly set
 
-      if (customerCreditLimit !== Infinity && (currentBalance + total) > customerCreditLimit) {
+      const newBalance = currentBalance + tenderSummary.creditAmount;
+
+      if (customerCreditLimit !== Infinity && newBalance > customerCreditLimit) {
         messageApi.error(
           `Credit limit exceeded for ${selectedCustomer.name}. Current balance: R${currentBalance.toFixed(2)}, ` +
-          `Credit limit: R${customerCreditLimit.toFixed(2)}. This sale would put balance at R${(currentBalance + total).toFixed(2)}.`
+          `Credit limit: R${customerCreditLimit.toFixed(2)}. This sale would put balance at R${newBalance.toFixed(2)}.`
         );
         return; // Prevent submission if limit exceeded
       }
@@ -375,76 +917,67 @@ export default function POSScreen() {
 
     setIsLoading(true); // Set loading true
     try {
-      const salePayload = {
-        cart: cart.map(item => {
-          const isRealProduct = typeof item.id === 'number';
-          return {
-            ...(isRealProduct ? { id: item.id } : {}),
-            name: item.name,
-            quantity: item.quantity,
-            unit_price: item.unit_price,
-            subtotal: item.subtotal,
-            is_service: item.is_service || false,
-            tax_rate_value: item.tax_rate_value ?? 0,
-          };
-        }),
-        paymentType,
+      const saleTenders = toSaleTenders(tenders, total);
+      const salePayload: SalePayload = {
+        cart: saleLines(),
+        paymentType: salePaymentType(saleTenders),
+        tenders: saleTenders,
         total,
         customer: selectedCustomer
           ? { id: selectedCustomer.id, name: selectedCustomer.name }
           : null,
-        amountPaid: paymentType === 'Cash' ? amountPaid : 0,
-        change: paymentType === 'Cash' ? change : 0,
-        dueDate: paymentType === 'Credit' ? dueDate : null,
-        tellerName: 'Dummy Teller',
-        branch: 'Dummy Branch',
-        companyName: 'DummyCo',
+        amountPaid: tenderSummary.cashTendered,
+        change: tenderSummary.change,
+        dueDate: tenderSummary.creditAmount > 0 ? dueDate : null,
+        discountTotal: pricing.discountTotal,
+        shiftId: shift.id,
+        tellerId: getUserId(),
+        tellerName: userName || 'Unknown Teller',
+        branch: activeBranch || '',
+        companyName: companyName || receiptCompany.name,
+        ...(saleLoyalty ? { loyalty: saleLoyalty } : {}),
+        // Set before the first attempt: a POST that fails with a network error may still have been recorded.
+        clientReference: newLocalId(),
       };
 
-      const response = await fetch(`${API_BASE_URL}/api/sales`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...getAuthHeaders(),
-        },
-        body: JSON.stringify(salePayload),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to submit sale.');
+      let queuedOffline = !navigator.onLine;
+      let reference = '';
+      if (!queuedOffline) {
+        try {
+          const result = await salesApi.create(salePayload);
+          reference = String(result.saleId);
+          await refreshProducts();
+        } catch (err) {
+          // Only a dropped connection is queued; a rejected sale is shown as an error.
+          if (!(isApiError(err) && err.isNetworkError)) throw err;
+          queuedOffline = true;
+        }
       }
 
-      const result = await response.json();
-      console.log('Sale submitted successfully:', result);
-
-      try {
-        const productsResponse = await fetch(`${API_BASE_URL}/products-services`, {
-          headers: getAuthHeaders(),
-        });
-        if (productsResponse.ok) {
-          const updatedProductsFromAPI: ProductDB[] =
-            await productsResponse.json();
-          setProducts(updatedProductsFromAPI);
-          console.log('Successfully re-fetched products after sale.');
-        } else {
-          console.warn(
-            'Failed to re-fetch products after sale, stock display might be outdated.',
-          );
-        }
-      } catch (fetchError) {
-        console.warn('Error re-fetching products:', fetchError);
+      if (queuedOffline) {
+        const queued = await queueSale(salePayload);
+        applyOfflineSale(salePayload);
+        reference = queued.localId.slice(0, 8).toUpperCase();
       }
 
-      setCart([]);
-      setAmountPaid(0);
-      setDueDate(null);
-      setSelectedCustomer(null);
-      setPaymentType('Cash');
-      messageApi.success('Sale submitted and recorded successfully!');
-    } catch (err: any) {
+      setReceipt(
+        buildReceipt(salePayload, reference, receiptCompany, queuedOffline, selectedCustomer?.loyaltyPoints ?? null)
+      );
+      setReceiptCustomer(selectedCustomer);
+      const vouchers = salePayload.cart.flatMap(line =>
+        line.voucher ? [voucherFromIssue(line.voucher, line.subtotal, queuedOffline ? null : Number(reference), userName)] : []
+      );
+      if (vouchers.length > 0) setSoldVouchers({ vouchers, pendingSync: queuedOffline });
+
+      clearLiveCart();
+      if (queuedOffline) {
+        messageApi.warning('No connection: sale saved on this device and will sync automatically.');
+      } else {
+        messageApi.success('Sale submitted and recorded successfully!');
+      }
+    } catch (err) {
       console.error('Error during sale submission:', err);
-      messageApi.error(err.message || 'Could not save sale.');
+      messageApi.error(getErrorMessage(err, 'Could not save sale.'));
     } finally {
       setIsLoading(false); // Set loading false
     }
@@ -457,6 +990,123 @@ export default function POSScreen() {
       <div style={{ padding: 18, maxWidth: 650, margin: '0 auto' }}>
         <Title level={3}>Point of Sale</Title>
 
+        {/* Connection / offline queue status */}
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12, flexWrap: 'wrap' }}>
+          <Tag color={isOnline ? 'green' : 'red'}>{isOnline ? 'Online' : 'Offline'}</Tag>
+          <Text type='secondary'>Teller: {userName || '—'}</Text>
+          {branches.length > 1 ? (
+            <Select
+              size='small'
+              value={activeBranch ?? undefined}
+              onChange={setActiveBranch}
+              placeholder='Select branch'
+              style={{ minWidth: 140 }}
+            >
+              {branches.map(b => (
+                <Option key={b} value={b}>
+                  {b}
+                </Option>
+              ))}
+            </Select>
+          ) : (
+            <Tag color={activeBranch ? 'blue' : 'default'}>{activeBranch || 'No branch assigned'}</Tag>
+          )}
+          <ShiftControls
+            shift={shift}
+            loading={shiftLoading}
+            pendingSales={pendingCount}
+            onOpen={openingFloat =>
+              openShift({ openingFloat, branch: activeBranch, tellerName: userName || 'Unknown Teller' })
+            }
+            onXReport={xReport}
+            onClose={closeShift}
+          />
+          {pendingCount > 0 && <Tag color='orange'>{pendingCount} sale(s) waiting to sync</Tag>}
+          {conflicts.length > 0 && <Tag color='red'>{conflicts.length} conflict(s)</Tag>}
+          {syncError && <Tag color='red'>Sync failed: {syncError}</Tag>}
+          {(pendingCount > 0 || isSyncing) && (
+            <Button
+              size='small'
+              icon={<SyncOutlined spin={isSyncing} />}
+              onClick={() => syncNow()}
+              disabled={!isOnline || isSyncing}
+            >
+              Sync now
+            </Button>
+          )}
+        </div>
+
+        {conflicts.length > 0 && (
+          <Card size='small' title='Offline sales rejected on sync' style={{ marginBottom: 12, borderColor: '#ff4d4f' }}>
+            {conflicts.map(sale => (
+              <div
+                key={sale.localId}
+                style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8, marginBottom: 6 }}
+              >
+                <div>
+                  <Text strong>
+                    R{sale.payload.total.toFixed(2)} · {sale.payload.paymentType}
+                    {sale.payload.customer ? ` · ${sale.payload.customer.name}` : ''}
+                  </Text>
+                  <div style={{ fontSize: 12, color: '#888' }}>
+                    {new Date(sale.createdAt).toLocaleString()} — {sale.lastError}
+                  </div>
+                </div>
+                <div style={{ display: 'flex', gap: 4 }}>
+                  <Button size='small' onClick={() => retryQueuedSale(sale)} disabled={!isOnline || isSyncing}>
+                    Retry
+                  </Button>
+                  <Popconfirm
+                    title='Discard this sale? It will not be recorded.'
+                    onConfirm={() => discardQueuedSale(sale)}
+                    okText='Yes'
+                    cancelText='No'
+                  >
+                    <Button size='small' danger>
+                      Discard
+                    </Button>
+                  </Popconfirm>
+                </div>
+              </div>
+            ))}
+          </Card>
+        )}
+
+        {parkedCarts.length > 0 && (
+          <Card size='small' title={`Parked carts (${parkedCarts.length})`} style={{ marginBottom: 12 }}>
+            {parkedCarts.map(parked => (
+              <div
+                key={parked.id}
+                style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8, marginBottom: 6 }}
+              >
+                <div>
+                  <Text strong>{parked.label}</Text>
+                  <div style={{ fontSize: 12, color: '#888' }}>
+                    {parked.items.length} item(s) · R{parked.items.reduce((sum, i) => sum + i.subtotal, 0).toFixed(2)} ·
+                    parked {new Date(parked.parkedAt).toLocaleTimeString()}
+                    {parkedCartExpiry(parked) && ` · expires ${parkedCartExpiry(parked)!.toLocaleTimeString()}`}
+                  </div>
+                </div>
+                <div style={{ display: 'flex', gap: 4 }}>
+                  <Button size='small' type='primary' onClick={() => handleResume(parked)} disabled={isLoading}>
+                    {cart.length > 0 ? 'Switch' : 'Resume'}
+                  </Button>
+                  <Popconfirm
+                    title='Discard this parked cart? Held stock is released.'
+                    onConfirm={() => handleDiscardParked(parked)}
+                    okText='Yes'
+                    cancelText='No'
+                  >
+                    <Button size='small' danger>
+                      Discard
+                    </Button>
+                  </Popconfirm>
+                </div>
+              </div>
+            ))}
+          </Card>
+        )}
+
         {/* Customer Select */}
         <Card
           style={{ marginBottom: 12, cursor: 'pointer' }}
@@ -486,10 +1136,54 @@ export default function POSScreen() {
                 Credit Limit: R{selectedCustomer.creditLimit.toFixed(2)}
               </div>
             )}
+            {(selectedCustomer?.storeCredit ?? 0) > 0 && (
+              <div style={{ fontSize: 12, color: 'green' }}>
+                Store credit: R{(selectedCustomer?.storeCredit ?? 0).toFixed(2)}
+              </div>
+            )}
+            {selectedCustomer && loyaltySettings.enabled && (
+              <div style={{ fontSize: 12, color: '#888' }}>
+                Loyalty: {selectedCustomer.loyaltyPoints ?? 0} points
+                {customerTier && ` · ${customerTier.name}`}
+              </div>
+            )}
+            {selectedCustomer?.onHold && (
+              <div style={{ fontSize: 12, color: 'red', fontWeight: 600 }}>Account on hold: no sales on account</div>
+            )}
           </div>
           <UserAddOutlined />
         </Card>
 
+        {/* Barcode / SKU scan */}
+        <Row gutter={6} align='middle' style={{ marginBottom: 12 }}>
+          <Col flex='1 1 auto'>
+            <Input
+              ref={scanInputRef}
+              value={scanInput}
+              onChange={e => setScanInput(e.target.value)}
+              onPressEnter={submitScanInput}
+              placeholder='Scan barcode or type SKU (3*SKU for quantity)'
+              prefix={<BarcodeOutlined />}
+              status={scanError ? 'error' : undefined}
+              style={scanError ? { background: '#fff1f0' } : undefined}
+              disabled={!isAuthenticated || isLoading}
+              suffix={scanMultiplier > 1 ? <Tag color='blue'>x{scanMultiplier}</Tag> : null}
+            />
+          </Col>
+          <Col>
+            <Button
+              icon={<CameraOutlined />}
+              onClick={() => setCameraOpen(true)}
+              disabled={!isAuthenticated || isLoading}
+            />
+          </Col>
+        </Row>
+        {scanError && (
+          <Text type='danger' style={{ display: 'block', marginTop: -8, marginBottom: 8 }}>
+            Unknown barcode: {scanError}
+          </Text>
+        )}
+
         {/* Product Select */}
         <Card
           style={{ marginBottom: 12, cursor: 'pointer' }}
@@ -513,7 +1207,7 @@ export default function POSScreen() {
             </div>
             {selectedProduct && (
               <div style={{ fontSize: 12, color: '#888' }}>
-                Stock: {selectedProduct.stock_quantity ?? 0}{' '}
+                Stock: {availableStock(selectedProduct)}{' '}
                 {selectedProduct.unit || ''}
               </div>
             )}
@@ -545,7 +1239,7 @@ export default function POSScreen() {
             <Button
               size='small'
               onClick={() => {
-                const max = selectedProduct?.stock_quantity ?? Infinity;
+                const max = selectedProduct ? availableStock(selectedProduct) : Infinity;
                 setProductQty(q => Math.min(q + 1, max));
               }}
               disabled={!isAuthenticated || isLoading || (!selectedProduct && !showCustomProductForm)}
@@ -566,7 +1260,20 @@ export default function POSScreen() {
 
 
         {/* Cart */}
-        <Card title='Cart' style={{ marginBottom: 14 }}>
+        <Card
+          title='Cart'
+          style={{ marginBottom: 14 }}
+          extra={
+            <Space size={4}>
+              <Button size='small' icon={<GiftOutlined />} onClick={openSellVoucher} disabled={!isAuthenticated}>
+                Sell voucher
+              </Button>
+              <Button size='small' icon={<PauseCircleOutlined />} onClick={openParkModal} disabled={!isAuthenticated || cart.length === 0}>
+                Park
+              </Button>
+            </Space>
+          }
+        >
           {isLoading && <Spin tip="Loading products and customers..." style={{ display: 'block', margin: '20px auto' }} />}
           {!isLoading && screens.md ? (
             <Table
@@ -576,11 +1283,30 @@ export default function POSScreen() {
               columns={[
                 { title: 'Product', dataIndex: 'name' },
                 { title: 'Qty', dataIndex: 'quantity' },
-                { title: 'Unit Price', dataIndex: 'unit_price', render: (price) => `R${price.toFixed(2)}` },
+                {
+                  title: 'Unit Price',
+                  dataIndex: 'unit_price',
+                  render: (price: number, r) => (
+                    <Button type='link' size='small' style={{ padding: 0 }} onClick={() => openPriceEdit(r)} disabled={!isAuthenticated}>
+                      {r.original_unit_price !== undefined && (
+                        <Text delete type='secondary' style={{ marginRight: 4 }}>R{r.original_unit_price.toFixed(2)}</Text>
+                      )}
+                      R{price.toFixed(2)} <EditOutlined />
+                    </Button>
+                  ),
+                },
                 {
                   title: 'Total',
-                  render: (_, r) =>
-                    `R${r.subtotal.toFixed(2)}`,
+                  render: (_, r) => (
+                    <>
+                      R{lineTotal(r).toFixed(2)}
+                      {lineDiscounts(r).map(d => (
+                        <div key={d.label} style={{ fontSize: 12, color: 'green' }}>
+                          {d.label} -R{d.amount.toFixed(2)}
+                        </div>
+                      ))}
+                    </>
+                  ),
                 },
                 {
                   title: 'Action',
@@ -597,11 +1323,22 @@ export default function POSScreen() {
                 },
               ]}
               summary={() => (
-                <Table.Summary.Row>
-                  <Table.Summary.Cell colSpan={3}>Total</Table.Summary.Cell>
-                  <Table.Summary.Cell>R{total.toFixed(2)}</Table.Summary.Cell>
-                  <Table.Summary.Cell />
-                </Table.Summary.Row>
+                <>
+                  {pricing.discountTotal > 0 && (
+                    <Table.Summary.Row>
+                      <Table.Summary.Cell index={0} colSpan={3}>Discounts (excl. VAT)</Table.Summary.Cell>
+                      <Table.Summary.Cell index={3}>
+                        <span style={{ color: 'green' }}>-R{pricing.discountTotal.toFixed(2)}</span>
+                      </Table.Summary.Cell>
+                      <Table.Summary.Cell index={4} />
+                    </Table.Summary.Row>
+                  )}
+                  <Table.Summary.Row>
+                    <Table.Summary.Cell index={0} colSpan={3}>Total</Table.Summary.Cell>
+                    <Table.Summary.Cell index={3}>R{total.toFixed(2)}</Table.Summary.Cell>
+                    <Table.Summary.Cell index={4} />
+                  </Table.Summary.Row>
+                </>
               )}
             />
           ) : !isLoading && cart.length === 0 ? (
@@ -612,10 +1349,15 @@ export default function POSScreen() {
                 <Row justify='space-between' align='middle'>
                   <Col>
                     <Text strong>{item.name}</Text>{' '}
-                    <Tag>
-                      {item.quantity} x R{item.unit_price.toFixed(2)}{' '}
+                    <Tag onClick={() => openPriceEdit(item)} style={{ cursor: 'pointer' }}>
+                      {item.quantity} x R{item.unit_price.toFixed(2)} <EditOutlined />
                     </Tag>
-                    <div>Total: R{item.subtotal.toFixed(2)}</div>
+                    <div>Total: R{lineTotal(item).toFixed(2)}</div>
+                    {lineDiscounts(item).map(d => (
+                      <div key={d.label} style={{ fontSize: 12, color: 'green' }}>
+                        {d.label} -R{d.amount.toFixed(2)}
+                      </div>
+                    ))}
                   </Col>
                   <Col>
                     <Button
@@ -635,77 +1377,88 @@ export default function POSScreen() {
 
         {/* Payment and Submit */}
         <Card>
-          <Row gutter={12} align='middle'>
-            <Col flex='1 1 auto'>
-              <Text strong>Payment Method</Text>
-              <Select
-                value={paymentType}
-                onChange={setPaymentType}
-                style={{ width: '100%' }}
-                disabled={!isAuthenticated || isLoading}
-              >
-                <Option value='Cash'>Cash</Option>
-                <Option value='Bank'>Bank</Option>
-                <Option value='Credit'>Credit</Option>
-              </Select>
-            </Col>
-            {paymentType === 'Cash' && (
-              <Col flex='1 1 auto'>
-                <Text>Amount Paid</Text>
-                <InputNumber
-                  min={0}
-                  value={amountPaid}
-                  onChange={value => setAmountPaid(value ?? 0)}
-                  style={{ width: '100%' }}
-                  disabled={!isAuthenticated || isLoading}
-                />
-                <div>
-                  <Text strong>
-                    Change:&nbsp;
-                    <span style={{ color: change < 0 ? 'red' : 'green' }}>
-                      {change < 0 ? 'Insufficient' : `R${change.toFixed(2)}`}
-                    </span>
-                  </Text>
-                </div>
-              </Col>
-            )}
-            {paymentType === 'Credit' && (
-              <Col flex='1 1 auto'>
-                <Text>Due Date</Text>
-                <Input
-                  type='date'
-                  value={dueDate || ''}
-                  onChange={e => setDueDate(e.target.value)}
-                  style={{ width: '100%' }}
-                  disabled={!isAuthenticated || isLoading}
-                />
-                {selectedCustomer && (
-                  <Text type='warning' style={{ color: 'orange' }}>
-                    Credit payment selected. Ensure customer credit policy is
-                    met.
-                  </Text>
-                )}
-              </Col>
-            )}
-          </Row>
+          {pointsDiscountMode && selectedCustomer && (selectedCustomer.loyaltyPoints ?? 0) > 0 && (
+            <div style={{ marginBottom: 12 }}>
+              <Text strong>Redeem points</Text>
+              <Row gutter={8} align='middle' style={{ marginTop: 4 }}>
+                <Col flex='1 1 auto'>
+                  <InputNumber
+                    min={0}
+                    max={selectedCustomer.loyaltyPoints ?? 0}
+                    precision={0}
+                    value={redeemPoints}
+                    onChange={value => setRedeemPoints(value ?? 0)}
+                    addonAfter={`= R${pointsDiscount.toFixed(2)} off`}
+                    style={{ width: '100%' }}
+                    disabled={!isAuthenticated || isLoading}
+                  />
+                </Col>
+                <Col>
+                  <Button
+                    onClick={() =>
+                      setRedeemPoints(
+                        Math.min(
+                          selectedCustomer.loyaltyPoints ?? 0,
+                          Math.floor(
+                            (basePricing.total * loyaltySettings.maxRedeemPercent) / 100 / loyaltySettings.pointValue
+                          )
+                        )
+                      )
+                    }
+                    disabled={!isAuthenticated || isLoading || loyaltySettings.pointValue <= 0}
+                  >
+                    Max
+                  </Button>
+                </Col>
+              </Row>
+              {pointsProblem && <Text type='danger'>{pointsProblem}</Text>}
+            </div>
+          )}
+          <TenderPanel
+            tenders={tenders}
+            onChange={setTenders}
+            summary={tenderSummary}
+            total={total}
+            customer={selectedCustomer}
+            loyaltySettings={loyaltySettings}
+            dueDate={dueDate}
+            onDueDateChange={setDueDate}
+            disabled={!isAuthenticated || isLoading}
+          />
           <Divider />
           <div style={{ textAlign: 'center', marginBottom: 8 }}>
+            {pricing.discountTotal > 0 && (
+              <div>
+                <Text type='success'>You save R{pricing.discountTotal.toFixed(2)} (excl. VAT)</Text>
+              </div>
+            )}
             <Text strong>Total: R{total.toFixed(2)}</Text>
+            {saleLoyalty && saleLoyalty.pointsEarned > 0 && (
+              <div>
+                <Text type='secondary'>Earns {saleLoyalty.pointsEarned} loyalty points</Text>
+              </div>
+            )}
           </div>
           <Button
             type='primary'
             block
             onClick={handleSubmit}
-            disabled={
-              !isAuthenticated ||
-              isLoading ||
-              cart.length === 0 ||
-              (paymentType === 'Cash' && amountPaid < total) ||
-              (paymentType === 'Credit' && !selectedCustomer)
-            }
+            disabled={!canSubmit}
           >
             Submit Sale
           </Button>
+          <Button
+            block
+            onClick={() => setLaybyOpen(true)}
+            disabled={!canLayby}
+            title={selectedCustomer ? undefined : 'Select a customer to open a lay-by'}
+            style={{ marginTop: 8 }}
+          >
+            Lay-by
+          </Button>
+          <div style={{ marginTop: 8, fontSize: 11, color: '#888', textAlign: 'center' }}>
+            F2 customer · F3 product · F4 scan · F6 cash · F7 bank · F8 account · F9 remove last · F10 park · Ctrl+Enter submit
+          </div>
         </Card>
 
         {/* ----------- Modals ----------- */}
@@ -739,6 +1492,7 @@ export default function POSScreen() {
                   style={{ marginBottom: 7, cursor: 'pointer' }}
                   onClick={() => {
                     setSelectedCustomer(c);
+                    setRedeemPoints(0);
                     setCustomerModal(false);
                   }}
                   size='small'
@@ -836,19 +1590,25 @@ export default function POSScreen() {
                   <Text type="secondary">No products found. Check your API endpoint.</Text>
                 ) : (
                   products
-                    .filter(
-                      p =>
-                        p.name.toLowerCase().includes(productSearch.toLowerCase()) ||
-                        p.sku?.toLowerCase().includes(productSearch.toLowerCase()),
-                    )
+                    .filter(p => {
+                      if (p.parent_id) return false; // variants are picked through their parent
+                      const matches = (x: ProductDB) =>
+                        x.name.toLowerCase().includes(productSearch.toLowerCase()) ||
+                        x.sku?.toLowerCase().includes(productSearch.toLowerCase());
+                      return matches(p) || (isVariantParent(p) && variantsOf(p.id, products).some(matches));
+                    })
                     .map(p => (
                       <Card
                         key={p.id}
                         style={{ marginBottom: 7, cursor: 'pointer' }}
                         onClick={() => {
+                          setProductModal(false);
+                          if (isVariantParent(p)) {
+                            setVariantParent(p);
+                            return;
+                          }
                           setSelectedProduct(p);
                           setProductQty(1);
-                          setProductModal(false);
                         }}
                         size='small'
                         bodyStyle={{
@@ -862,9 +1622,12 @@ export default function POSScreen() {
                           <div style={{ fontSize: 13, color: '#888' }}>
                             Price: R{p.unit_price.toFixed(2)}{' '}
                             {p.is_service ? '(Service)' : ''}
+                            {isVariantParent(p) && `(${variantsOf(p.id, products).length} variants)`}
                           </div>
                           <div style={{ fontSize: 13, color: '#888' }}>
-                            Stock: {p.stock_quantity ?? 0} {p.unit || ''}
+                            Stock: {availableStock(p)} {p.unit || ''}
+                            {reservedQuantity(p.id) > 0 && ` (${reservedQuantity(p.id)} held in parked carts)`}
+                            {(p.reserved_quantity ?? 0) > 0 && ` (${p.reserved_quantity} on lay-by)`}
                           </div>
                         </div>
                       </Card>
@@ -946,6 +1709,155 @@ export default function POSScreen() {
             </Form>
           )}
         </Modal>
+
+        <Modal
+          open={!!priceEdit}
+          title={priceEdit ? `Override price: ${priceEdit.name}` : ''}
+          okText='Apply'
+          onOk={confirmPriceOverride}
+          onCancel={() => setPriceEdit(null)}
+          destroyOnClose
+        >
+          {priceEdit && (
+            <>
+              <Text type='secondary'>Catalogue price: R{priceEdit.originalPrice.toFixed(2)} excl. VAT</Text>
+              <InputNumber
+                autoFocus
+                min={0}
+                prefix='R'
+                value={priceEdit.price}
+                onChange={value => setPriceEdit({ ...priceEdit, price: value ?? 0 })}
+                onPressEnter={confirmPriceOverride}
+                style={{ width: '100%', marginTop: 8 }}
+              />
+              {overrideReductionPercent(priceEdit.originalPrice, priceEdit.price) > PRICE_OVERRIDE_APPROVAL_PERCENT && (
+                <Text type='warning' style={{ display: 'block', marginTop: 8 }}>
+                  More than {PRICE_OVERRIDE_APPROVAL_PERCENT}% off needs manager approval.
+                </Text>
+              )}
+            </>
+          )}
+        </Modal>
+
+        <Modal
+          open={parkModal}
+          title='Park cart'
+          okText='Park'
+          onOk={handlePark}
+          onCancel={() => setParkModal(false)}
+          destroyOnClose
+        >
+          <Text type='secondary'>
+            Items stay held for this till until the cart is resumed or discarded.
+          </Text>
+          <Input
+            autoFocus
+            value={parkLabel}
+            onChange={e => setParkLabel(e.target.value)}
+            onPressEnter={handlePark}
+            placeholder='Label, e.g. customer name'
+            style={{ marginTop: 8 }}
+          />
+        </Modal>
+
+        <ManagerApprovalModal
+          open={!!pendingOverride}
+          action='prices.override'
+          description={
+            pendingOverride
+              ? `${pendingOverride.name}: R${pendingOverride.originalPrice.toFixed(2)} -> R${pendingOverride.price.toFixed(2)}`
+              : ''
+          }
+          onApproved={approval => {
+            if (pendingOverride) applyPriceOverride(pendingOverride, approval.approverId);
+            messageApi.success(`Price override approved by ${approval.approverName}.`);
+            setPendingOverride(null);
+          }}
+          onCancel={() => setPendingOverride(null)}
+        />
+
+        <CameraScanner
+          open={cameraOpen}
+          onClose={() => setCameraOpen(false)}
+          onDetected={code => {
+            setCameraOpen(false);
+            handleScan(code);
+          }}
+        />
+
+        <Modal
+          open={sellVoucherOpen}
+          title='Sell gift voucher'
+          okText='Add to cart'
+          onOk={addVoucherToCart}
+          onCancel={() => setSellVoucherOpen(false)}
+          destroyOnClose
+        >
+          <InputNumber
+            autoFocus
+            min={0}
+            precision={2}
+            prefix='R'
+            placeholder='Value'
+            value={voucherValue}
+            onChange={value => setVoucherValue(value)}
+            style={{ width: '100%' }}
+          />
+          <Input
+            value={voucherRecipient}
+            onChange={e => setVoucherRecipient(e.target.value)}
+            onPressEnter={addVoucherToCart}
+            placeholder='Recipient (optional)'
+            style={{ marginTop: 8 }}
+          />
+          <Text type='secondary' style={{ display: 'block', marginTop: 8 }}>
+            {VOUCHER_VALIDITY_MONTHS > 0
+              ? `Valid for ${VOUCHER_VALIDITY_MONTHS} months. The voucher prints after the sale.`
+              : 'No expiry date. The voucher prints after the sale.'}
+          </Text>
+        </Modal>
+
+        {/* Printed once the receipt is closed */}
+        {!receipt && soldVouchers && (
+          <VoucherModal
+            vouchers={soldVouchers.vouchers}
+            company={receiptCompany}
+            pendingSync={soldVouchers.pendingSync}
+            onClose={() => setSoldVouchers(null)}
+          />
+        )}
+
+        {variantParent && (
+          <VariantPickerModal
+            key={variantParent.id}
+            parent={variantParent}
+            variants={variantsOf(variantParent.id, products)}
+            stockOf={availableStock}
+            onPick={variant => {
+              setVariantParent(null);
+              setSelectedProduct(variant);
+              setProductQty(1);
+            }}
+            onClose={() => setVariantParent(null)}
+          />
+        )}
+
+        <LaybyModal
+          open={laybyOpen}
+          total={total}
+          customer={selectedCustomer}
+          company={receiptCompany}
+          onSubmit={handleLayby}
+          onClose={() => setLaybyOpen(false)}
+        />
+
+        <ReceiptModal
+          open={!!receipt}
+          receipt={receipt}
+          onClose={() => setReceipt(null)}
+          customerEmail={receiptCustomer?.email}
+          customerPhone={receiptCustomer?.phone}
+        />
       </div>
     </>
   );
@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback } from 'react' // Added useCallback
+import { useEffect, useState, useCallback, useMemo } from 'react' // Added useCallback
 import {
   Typography,
   Row,
@@ -19,11 +19,19 @@ import {
   AppstoreOutlined,
   ExclamationCircleOutlined,
   AlertOutlined,
-  LineChartOutlined
+  LineChartOutlined,
+  TeamOutlined,
+  StarOutlined
 } from '@ant-design/icons'
 import type { Product } from '../types/type'
 import dayjs from 'dayjs'
 import { useAuth } from '../AuthPage'; // Re-add useAuth
+import { salesApi } from '@/api/sales'
+import { branchesApi } from '@/api/users'
+import { loyaltyApi } from '@/api/loyalty'
+import type { LoyaltyKpis } from '@/types/pos'
+import { getErrorMessage } from '@/utils/apiClient'
+import { rollupIds } from '@/utils/variants'
 
 const { Text } = Typography
 const { useBreakpoint } = Grid
@@ -38,16 +46,6 @@ const monthKeys = Array.from({ length: now.month() + 1 }, (_, i) =>
   dayjs().month(i).format('YYYY-MM')
 )
 
-// Define a type for the fetched sales data from the backend
-interface FetchedSaleItem {
-    saleId: string;
-    createdAt: Date; // Will be a Date object after transformation
-    product_id: string; // This is the ID of the product or service
-    product_name: string;
-    quantity: number;
-    unit_price_at_sale: number;
-}
-
 type Props = {
   products: Product[]
 }
@@ -83,6 +81,29 @@ const POSDashboard = ({ products }: Props) => {
   const screens = useBreakpoint()
   const isMobile = !screens.md
   const { isAuthenticated } = useAuth(); // Re-introduce useAuth
+  const [branchOptions, setBranchOptions] = useState<string[]>([])
+  const [branchFilter, setBranchFilter] = useState<string | undefined>(undefined)
+  const [loyaltyKpis, setLoyaltyKpis] = useState<LoyaltyKpis | null>(null)
+
+  useEffect(() => {
+    if (!isAuthenticated) return
+    branchesApi
+      .list()
+      .then(data => setBranchOptions(data.map(b => b.name)))
+      .catch(err => console.warn('POSDashboard: could not load branches', err))
+  }, [isAuthenticated])
+
+  // Loyalty KPIs for the same year-to-date window as the charts
+  useEffect(() => {
+    if (!isAuthenticated) return
+    loyaltyApi
+      .kpis({ from: now.startOf('year').format('YYYY-MM-DD'), branch: branchFilter })
+      .then(setLoyaltyKpis)
+      .catch(err => {
+        console.warn('POSDashboard: could not load loyalty KPIs', err)
+        setLoyaltyKpis(null)
+      })
+  }, [isAuthenticated, branchFilter])
 
   // --- Fetch sales and aggregate monthly sales for each product (from backend) ---
   const fetchMonthlySales = useCallback(async () => {
@@ -95,25 +116,7 @@ const POSDashboard = ({ products }: Props) => {
 
     setLoading(true);
     try {
-        const token = localStorage.getItem('token'); // Get the token from local storage
-        if (!token) {
-            throw new Error('No authentication token found.');
-        }
-
-        // Use process.env.REACT_APP_BACKEND_URL for consistency
-        const res = await fetch(`https://quantnow.onrender.com/api/dashboard/sales`, {
-            headers: {
-                'Authorization': `Bearer ${token}`,
-                'Content-Type': 'application/json'
-            }
-        });
-
-        if (!res.ok) {
-            const errorData = await res.json();
-            throw new Error(errorData.detail || 'Failed to fetch sales data');
-        }
-
-        const data: FetchedSaleItem[] = await res.json();
+        const data = await salesApi.dashboardSales(branchFilter);
 
         const salesPerProduct: { [productId: string]: number[] } = {};
 
@@ -131,50 +134,73 @@ const POSDashboard = ({ products }: Props) => {
                 continue;
             }
 
+            // Voided sales never happened; returned units are taken off what was sold
+            if (item.sale_status === 'voided') {
+                continue;
+            }
+            if (branchFilter && item.branch && item.branch !== branchFilter) {
+                continue;
+            }
+
             if (!salesPerProduct[item.product_id]) {
                 salesPerProduct[item.product_id] = Array(months.length).fill(0);
             }
-            salesPerProduct[item.product_id][monthIdx] += Number(item.quantity || 0);
+            salesPerProduct[item.product_id][monthIdx] +=
+                Number(item.quantity || 0) - Number(item.returned_quantity || 0);
         }
         setMonthlySales(salesPerProduct);
         messageApi.success('Sales data loaded successfully!');
-    } catch (error: any) {
+    } catch (error) {
         console.error('Error fetching sales data:', error);
-        messageApi.error(`Failed to load sales data: ${error.message}`);
+        messageApi.error(`Failed to load sales data: ${getErrorMessage(error)}`);
         setMonthlySales({}); // Clear sales data on error
     } finally {
         setLoading(false);
     }
-  }, [isAuthenticated, messageApi]); // Add messageApi to useCallback dependencies
+  }, [isAuthenticated, messageApi, branchFilter]); // Add messageApi to useCallback dependencies
 
   useEffect(() => {
     fetchMonthlySales();
   }, [fetchMonthlySales]); // Dependency on fetchMonthlySales (which depends on isAuthenticated and messageApi)
 
+  // Variants are reported under their parent; stock is held by the variants,
+  // so stock figures skip the parents instead.
+  const reportProducts = useMemo(() => products.filter(p => !p.parentId), [products])
+  const stockedProducts = products.filter(p => !p.variantAttributes?.length)
+  const productSales = useMemo(() => {
+    const rollup = rollupIds(products)
+    const rolled: { [productId: string]: number[] } = {}
+    for (const productId in monthlySales) {
+      const id = rollup(productId)
+      rolled[id] = (rolled[id] ?? Array(months.length).fill(0)).map((v, i) => v + (monthlySales[productId][i] ?? 0))
+    }
+    return rolled
+  }, [products, monthlySales])
+
   // Low stock alert: only products (not services) where qty <= minQty
-  const alerts = products.filter(
+  const alerts = stockedProducts.filter(
     p => p.type !== 'service' && asDisplayValue(p) <= (Number(p.minQty) || 0)
   )
 
   // Total count of all products and services
-  const totalProductsAndServicesCount = products.length;
+  const totalProductsAndServicesCount = reportProducts.length;
 
   const lowStockCount = alerts.length
 
   // Metrics
-  const totalValue = products.reduce(
+  const totalValue = stockedProducts.reduce(
     (sum, p) => sum + asDisplayValue(p) * asDisplayPrice(p),
     0
   )
 
   // --- Trends ---
   // Find the selected product using its ID from trendProductId state
-  const selectedProduct = products.find(p => p.id === trendProductId);
+  const selectedProduct = reportProducts.find(p => p.id === trendProductId);
   const trendProductName = selectedProduct?.name || ''; // Name for display in chart title
 
   const lineData =
-    selectedProduct?.id && monthlySales[selectedProduct.id]
-      ? monthlySales[selectedProduct.id]
+    selectedProduct?.id && productSales[selectedProduct.id]
+      ? productSales[selectedProduct.id]
       : Array(months.length).fill(0);
 
   // Calculate total units sold per month across all products/services
@@ -188,12 +214,12 @@ const POSDashboard = ({ products }: Props) => {
     return totalUnitsSoldInMonth;
   });
 
-  const topThree = [...products]
+  const topThree = [...reportProducts]
     .map(p => ({
       ...p,
-      // For top sellers, sum the quantities from monthlySales for that product/service
-      sold: monthlySales[p.id]
-        ? monthlySales[p.id].reduce((a, b) => a + b, 0)
+      // For top sellers, sum the quantities from productSales for that product/service
+      sold: productSales[p.id]
+        ? productSales[p.id].reduce((a, b) => a + b, 0)
         : 0
     }))
     .sort((a, b) => b.sold - a.sold)
@@ -334,20 +360,32 @@ const POSDashboard = ({ products }: Props) => {
 
   // Effect to set initial trendProductId or adjust if selected product is gone
   useEffect(() => {
-    if (products.length > 0) {
+    if (reportProducts.length > 0) {
         // If no product is selected or the current selected product is no longer in the list
-        if (!trendProductId || !products.some(p => p.id === trendProductId)) {
-            setTrendProductId(products[0].id); // Set to the first product's ID
+        if (!trendProductId || !reportProducts.some(p => p.id === trendProductId)) {
+            setTrendProductId(reportProducts[0].id); // Set to the first product's ID
         }
     } else {
         setTrendProductId(undefined); // Clear if no products available
     }
-  }, [products, trendProductId]); // Dependency on products and trendProductId
+  }, [reportProducts, trendProductId]); // Dependency on products and trendProductId
 
   // Responsive cards: stack on mobile, row on desktop
   return (
     <div>
         {contextHolder} {/* Renders message notifications */}
+      {branchOptions.length > 0 && (
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: 12 }}>
+          <Select
+            allowClear
+            placeholder='All branches'
+            value={branchFilter}
+            onChange={value => setBranchFilter(value)}
+            options={branchOptions.map(b => ({ label: b, value: b }))}
+            style={{ minWidth: 180 }}
+          />
+        </div>
+      )}
       {loading ? (
         <div style={{ textAlign: 'center', padding: '50px 0' }}>
             <Spin size="large" tip="Loading dashboard data..." />
@@ -450,6 +488,72 @@ const POSDashboard = ({ products }: Props) => {
             </Col>
           </Row>
 
+          {loyaltyKpis && loyaltyKpis.members > 0 && (
+            <>
+              <Divider style={{ margin: '16px 0' }}>Loyalty (Year to Date)</Divider>
+              <Row gutter={[isMobile ? 0 : 16, 16]} style={{ marginBottom: 18 }}>
+                <Col xs={24} md={8}>
+                  <Card
+                    size='small'
+                    style={{ textAlign: 'center', borderRadius: 12, background: '#F6FFED' }}
+                    bodyStyle={{ padding: isMobile ? 12 : 18 }}
+                  >
+                    <TeamOutlined style={{ color: '#389e0d', fontSize: isMobile ? 24 : 32, marginBottom: 6 }} />
+                    <Text type='secondary' style={{ fontSize: isMobile ? 12 : 13 }}>
+                      Active Members
+                    </Text>
+                    <div style={{ fontWeight: 700, fontSize: isMobile ? 20 : 22 }}>
+                      {loyaltyKpis.activeMembers} / {loyaltyKpis.members}
+                    </div>
+                    <Text type='secondary' style={{ fontSize: 12 }}>
+                      {Math.round(loyaltyKpis.memberSalesShare * 100)}% of sales value
+                    </Text>
+                  </Card>
+                </Col>
+                <Col xs={24} md={8}>
+                  <Card
+                    size='small'
+                    style={{ textAlign: 'center', borderRadius: 12, background: '#FFFBE6' }}
+                    bodyStyle={{ padding: isMobile ? 12 : 18 }}
+                  >
+                    <StarOutlined style={{ color: '#d48806', fontSize: isMobile ? 24 : 32, marginBottom: 6 }} />
+                    <Text type='secondary' style={{ fontSize: isMobile ? 12 : 13 }}>
+                      Points Issued / Redeemed
+                    </Text>
+                    <div style={{ fontWeight: 700, fontSize: isMobile ? 20 : 22 }}>
+                      {loyaltyKpis.pointsIssued} / {loyaltyKpis.pointsRedeemed}
+                    </div>
+                    <Text type='secondary' style={{ fontSize: 12 }}>
+                      {loyaltyKpis.pointsIssued > 0
+                        ? `${Math.round((loyaltyKpis.pointsRedeemed / loyaltyKpis.pointsIssued) * 100)}% redemption rate`
+                        : 'No points issued yet'}
+                    </Text>
+                  </Card>
+                </Col>
+                <Col xs={24} md={8}>
+                  <Card
+                    size='small'
+                    style={{ textAlign: 'center', borderRadius: 12, background: '#F9F0FF' }}
+                    bodyStyle={{ padding: isMobile ? 12 : 18 }}
+                  >
+                    <LineChartOutlined style={{ color: '#722ed1', fontSize: isMobile ? 24 : 32, marginBottom: 6 }} />
+                    <Text type='secondary' style={{ fontSize: isMobile ? 12 : 13 }}>
+                      Points Outstanding
+                    </Text>
+                    <div style={{ fontWeight: 700, fontSize: isMobile ? 20 : 22 }}>
+                      R{loyaltyKpis.outstandingValue.toFixed(2)}
+                    </div>
+                    <Text type='secondary' style={{ fontSize: 12 }}>
+                      {loyaltyKpis.outstandingPoints} points
+                      {loyaltyKpis.tiers.length > 0 &&
+                        ` · ${loyaltyKpis.tiers.map(t => `${t.tier} ${t.members}`).join(', ')}`}
+                    </Text>
+                  </Card>
+                </Col>
+              </Row>
+            </>
+          )}
+
           <Divider style={{ margin: '16px 0' }}>
             Top Sellers (Units Sold)
           </Divider>
@@ -466,7 +570,7 @@ const POSDashboard = ({ products }: Props) => {
             containerProps={{ style: { width: '100%' } }}
           />
           <Divider>Product Trend</Divider>
-          {products.length > 0 ? ( // Only show select if products exist
+          {reportProducts.length > 0 ? ( // Only show select if products exist
               <Select
                 showSearch
                 virtual
@@ -478,7 +582,7 @@ const POSDashboard = ({ products }: Props) => {
                 }}
                 placeholder='Select Product'
                 value={trendProductId} // Use product ID as the value
-                options={products.map(p => ({
+                options={reportProducts.map(p => ({
                   label: (
                     <span>
                       {productIcon(p)} {p.name}
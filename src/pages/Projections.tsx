@@ -12,45 +12,35 @@ import HighchartsMore from 'highcharts/highcharts-more'
 import { TrendingUp, Calendar, BarChart3, FolderKanban, Loader2 } from 'lucide-react'
 import { useToast } from '@/components/ui/use-toast'
 import { useAuth } from '../AuthPage' // Import useAuth
-import axios from 'axios'
+import { apiClient, getErrorMessage } from '@/utils/apiClient'
 
 // Initialize the Highcharts-more module for waterfall charts
 if (typeof HighchartsMore === 'function') HighchartsMore(Highcharts)
 
-// IMPORTANT: Replace with your actual backend API URL
-const API_BASE_URL = 'https://quantnow.onrender.com';
+interface BaselineData {
+  sales: number
+  costOfGoods: number
+  totalExpenses: number
+}
 
 const Projections = () => {
   const { toast } = useToast()
-  // Get isAuthenticated from the hook, and the token from localStorage
   const { isAuthenticated } = useAuth()
-  const token = localStorage.getItem('token');
-  
+
   const [revenueGrowthRate, setRevenueGrowthRate] = useState(5)
   const [costGrowthRate, setCostGrowthRate] = useState(3)
   const [expenseGrowthRate, setExpenseGrowthRate] = useState(2)
-  const [baselineData, setBaselineData] = useState(null)
+  const [baselineData, setBaselineData] = useState<BaselineData | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isRefreshing, setIsRefreshing] = useState(false)
 
-  // Memoized function to get authentication headers
-  const getAuthHeaders = useCallback(() => {
-    return token ? { 'Authorization': `Bearer ${token}` } : {};
-  }, [token]);
-
   // Use useCallback to memoize the function and prevent unnecessary re-creations
   const fetchBaselineData = useCallback(async () => {
     setIsRefreshing(true);
-    
-    // The useEffect hook now handles the isAuthenticated and token checks,
-    // so we can remove the check here for a cleaner function.
-    // The toast message is now handled by the UI when the refresh button is disabled.
 
     try {
-      const response = await axios.get(`${API_BASE_URL}/api/projections/baseline-data`, {
-        headers: getAuthHeaders(),
-      })
-      setBaselineData(response.data)
+      const data = await apiClient.get<BaselineData>('/api/projections/baseline-data')
+      setBaselineData(data)
       toast({
         title: 'Success',
         description: 'Financial baseline data loaded successfully.',
@@ -60,7 +50,7 @@ const Projections = () => {
       console.error('Error fetching baseline data:', error)
       toast({
         title: 'Error',
-        description: 'Failed to load financial baseline data.',
+        description: getErrorMessage(error, 'Failed to load financial baseline data.'),
         variant: 'destructive'
       })
       setBaselineData(null);
@@ -68,23 +58,20 @@ const Projections = () => {
       setIsRefreshing(false)
       setIsLoading(false)
     }
-  }, [getAuthHeaders, toast])
+  }, [toast])
 
-  // Initial data fetch on component mount. Now also depends on 'token'.
-  // This ensures the fetch only happens when both isAuthenticated and a valid token are present.
+  // Initial data fetch once the session is known; apiClient attaches the token
   useEffect(() => {
-    // Only fetch if authenticated AND a token exists in local storage
-    if (isAuthenticated && token) {
+    if (isAuthenticated) {
       fetchBaselineData()
     } else {
-      // If not authenticated or token is not yet available, stop the loading state.
       setIsLoading(false);
     }
-  }, [isAuthenticated, token, fetchBaselineData])
+  }, [isAuthenticated, fetchBaselineData])
 
   // A new function to handle the refresh button click
   const handleRefresh = () => {
-    if (isAuthenticated && token) {
+    if (isAuthenticated) {
       fetchBaselineData();
     } else {
       toast({
@@ -352,7 +339,7 @@ const Projections = () => {
               </span>
               <Button
                 onClick={handleRefresh}
-                disabled={isRefreshing || !isAuthenticated || !token}
+                disabled={isRefreshing || !isAuthenticated}
               >
                 {isRefreshing ? (
                   <>
@@ -377,7 +364,7 @@ const Projections = () => {
                   min='0'
                   max='100'
                   step='0.1'
-                  disabled={isLoading || !isAuthenticated || !token}
+                  disabled={isLoading || !isAuthenticated}
                 />
               </div>
               <div>
@@ -392,7 +379,7 @@ const Projections = () => {
                   min='0'
                   max='100'
                   step='0.1'
-                  disabled={isLoading || !isAuthenticated || !token}
+                  disabled={isLoading || !isAuthenticated}
                 />
               </div>
               <div>
@@ -405,7 +392,7 @@ const Projections = () => {
                   min='0'
                   max='100'
                   step='0.1'
-                  disabled={isLoading || !isAuthenticated || !token}
+                  disabled={isLoading || !isAuthenticated}
                 />
               </div>
             </div>
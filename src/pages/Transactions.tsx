@@ -27,6 +27,7 @@ import {
 } from '@/components/ui/select';
 import { Edit, Printer, FileText } from 'lucide-react';
 import { useAuth } from '../AuthPage'; // Assuming AuthPage exports useAuth and AuthProvider
+import { apiClient } from '@/utils/apiClient';
 
 // Define an interface for your transaction data
 interface Transaction {
@@ -97,16 +98,7 @@ const Transactions = () => {
     }
 
     try {
-      const response = await fetch(`https://quantnow.onrender.com/transactions?${queryParams.toString()}`, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-      });
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      const data = await response.json();
+      const data = await apiClient.get<Transaction[]>(`/transactions?${queryParams.toString()}`);
       setTransactions(data);
     } catch (error) {
       console.error('Error fetching transactions:', error);
@@ -134,16 +126,7 @@ const Transactions = () => {
         return;
       }
       try {
-        const response = await fetch('https://quantnow.onrender.com/accounts', { // Assuming /api/accounts is also secured
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`, // Include the JWT token
-          },
-        });
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        const data = await response.json();
+        const data = await apiClient.get<Account[]>('/accounts');
         setAccounts(data);
       } catch (error) {
         console.error('Error fetching accounts:', error);
@@ -197,28 +180,16 @@ const Transactions = () => {
     }
 
     try {
-      const response = await fetch(`https://quantnow.onrender.com/transactions/manual`, { // Assuming /api/transactions/manual is also secured
-        method: 'POST', // Or PUT/PATCH if it's an update-specific endpoint
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`, // Include the JWT token
-        },
-        body: JSON.stringify({
-          id: editingTransaction.id,
-          type: editFormData.type,
-          amount: parsedAmount,
-          description: editFormData.description || null,
-          date: editFormData.date,
-          category: editFormData.category || null,
-          account_id: editFormData.account_id || null,
-        }),
+      await apiClient.post('/transactions/manual', {
+        id: editingTransaction.id,
+        type: editFormData.type,
+        amount: parsedAmount,
+        description: editFormData.description || null,
+        date: editFormData.date,
+        category: editFormData.category || null,
+        account_id: editFormData.account_id || null,
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-      }
-
       fetchTransactions(); // Re-fetch to show updated data
       setIsEditModalOpen(false);
       setEditingTransaction(null);
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Pencil, Trash2, Plus } from 'lucide-react';
+import { Pencil, Trash2, Plus, X } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '../AuthPage';
 import { Header } from '../components/layout/Header';
@@ -10,47 +10,17 @@ import { Label } from '../components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/components/ui/use-toast';
-
-const API_BASE_URL = 'https://quantnow.onrender.com';
-
-// Define an interface for the user data
-interface User {
-  id: string;
-  displayName: string;
-  email: string;
-  // The backend now returns an array of roles
-  roles: string[];
-}
-
-// A predefined list of roles for the select dropdowns
-const allRoles = [
-  'admin',
-  'ceo',
-  'manager',
-  'cashier',
-  'user',
-  'accountant',
-  'pos-transact',
-  'transactions',
-  'financials',
-  'import',
-  'data-analytics',
-  'invoice',
-  'payroll',
-  'pos-admin',
-  'projections',
-  'accounting',
-  'documents',
-  'chat',
-  'user-management',
-  'personel-setup',
-  'profile-setup',
-];
+import { branchesApi, usersApi } from '@/api/users';
+import { getErrorMessage } from '@/utils/apiClient';
+import type { Branch, ManagedUser as User } from '@/types/auth';
+import { ALL_ROLES } from '@/lib/permissions';
+import { usePermissions } from '@/hooks/usePermissions';
 
 export default function UserManagementPage() {
-  const { isAuthenticated } = useAuth();
-  const token = localStorage.getItem('token');
+  const { isAuthenticated, token } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
 
   const [users, setUsers] = useState<User[]>([]);
@@ -65,6 +35,11 @@ export default function UserManagementPage() {
   const [editFormData, setEditFormData] = useState<Partial<User>>({});
   // New state to manage roles during the edit process
   const [editUserRoles, setEditUserRoles] = useState<string[]>([]);
+  const [editUserBranches, setEditUserBranches] = useState<string[]>([]);
+
+  // Company branches that users can be assigned to
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [newBranchName, setNewBranchName] = useState('');
 
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   // Initial state for new user data, now includes password
@@ -82,34 +57,63 @@ export default function UserManagementPage() {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch(`${API_BASE_URL}/users`, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      const data = await response.json();
+      const data = await usersApi.list();
       setUsers(data);
-    } catch (err: any) {
+    } catch (err) {
       console.error("Error fetching users:", err);
-      setError(`Failed to load users: ${err.message}.`);
+      setError(`Failed to load users: ${getErrorMessage(err)}.`);
     } finally {
       setLoading(false);
     }
   }, [token]);
 
+  const fetchBranches = useCallback(async () => {
+    if (!token) return;
+    try {
+      setBranches(await branchesApi.list());
+    } catch (err) {
+      console.error("Error fetching branches:", err);
+      setBranches([]);
+    }
+  }, [token]);
+
   // Fetch users on initial load and when the token changes
   useEffect(() => {
     if (isAuthenticated && token) {
       fetchUsers();
+      fetchBranches();
     } else {
       setUsers([]);
       setLoading(false);
     }
-  }, [isAuthenticated, token, fetchUsers]);
+  }, [isAuthenticated, token, fetchUsers, fetchBranches]);
+
+  const addBranch = async () => {
+    const name = newBranchName.trim();
+    if (!name) return;
+    if (branches.some(b => b.name.toLowerCase() === name.toLowerCase())) {
+      toast({ title: "Branch Exists", description: `A branch named ${name} already exists.`, variant: "destructive" });
+      return;
+    }
+    try {
+      const created = await branchesApi.create(name);
+      setBranches(prev => [...prev, created]);
+      setNewBranchName('');
+      toast({ title: "Branch Added", description: `${name} can now be assigned to users.` });
+    } catch (e) {
+      toast({ title: "Add Branch Failed", description: getErrorMessage(e), variant: "destructive" });
+    }
+  };
+
+  const removeBranch = async (branch: Branch) => {
+    try {
+      await branchesApi.remove(branch.id);
+      setBranches(prev => prev.filter(b => b.id !== branch.id));
+      toast({ title: "Branch Removed", description: `${branch.name} has been removed.` });
+    } catch (e) {
+      toast({ title: "Remove Branch Failed", description: getErrorMessage(e), variant: "destructive" });
+    }
+  };
 
   // Handler for opening the delete confirmation modal
   const openDeleteModal = (user: User) => {
@@ -122,17 +126,7 @@ export default function UserManagementPage() {
     if (!userToDelete || !token) return;
     setLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/users/${userToDelete.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-      }
+      await usersApi.remove(userToDelete.id);
 
       toast({
         title: "User Deleted",
@@ -140,11 +134,11 @@ export default function UserManagementPage() {
       });
 
       fetchUsers(); // Re-fetch to update the list
-    } catch (e: any) {
+    } catch (e) {
       console.error("Error deleting user:", e);
       toast({
         title: "Deletion Failed",
-        description: `Could not delete user: ${e.message}`,
+        description: `Could not delete user: ${getErrorMessage(e)}`,
         variant: "destructive",
       });
     } finally {
@@ -162,8 +156,9 @@ export default function UserManagementPage() {
       displayName: user.displayName,
       email: user.email,
     });
-    // Set the initial roles for the edit modal
+    // Set the initial roles and branches for the edit modal
     setEditUserRoles(user.roles);
+    setEditUserBranches(user.branches ?? []);
     setIsEditModalOpen(true);
   };
 
@@ -180,44 +175,26 @@ export default function UserManagementPage() {
     );
   };
 
+  const handleBranchToggle = (branch: string) => {
+    setEditUserBranches(prev =>
+      prev.includes(branch) ? prev.filter(b => b !== branch) : [...prev, branch]
+    );
+  };
+
   // Handler for saving the user's edits via the API
   const saveUserEdit = async () => {
     if (!userToEdit || !token) return;
     setLoading(true);
     try {
       // API call to update user's display name and email
-      const updateDetailsResponse = await fetch(`${API_BASE_URL}/users/${userToEdit.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          displayName: editFormData.displayName,
-          email: editFormData.email,
-        }),
-      });
-
-      if (!updateDetailsResponse.ok) {
-        const errorData = await updateDetailsResponse.json();
-        throw new Error(errorData.error || `HTTP error! status: ${updateDetailsResponse.status}`);
-      }
-
-      // Assuming a separate endpoint exists to handle role updates.
-      // This is a necessary addition based on your backend structure.
-      const updateRolesResponse = await fetch(`${API_BASE_URL}/users/${userToEdit.id}/roles`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ roles: editUserRoles }),
+      await usersApi.update(userToEdit.id, {
+        displayName: editFormData.displayName || '',
+        email: editFormData.email || '',
       });
 
-      if (!updateRolesResponse.ok) {
-        const errorData = await updateRolesResponse.json();
-        throw new Error(errorData.error || `HTTP error! status: ${updateRolesResponse.status}`);
-      }
+      // Roles and branches are updated through their own endpoints.
+      await usersApi.updateRoles(userToEdit.id, editUserRoles);
+      await usersApi.updateBranches(userToEdit.id, editUserBranches);
 
       toast({
         title: "User Updated",
@@ -225,11 +202,11 @@ export default function UserManagementPage() {
       });
 
       fetchUsers(); // Re-fetch to update the list
-    } catch (e: any) {
+    } catch (e) {
       console.error("Error updating user:", e);
       toast({
         title: "Update Failed",
-        description: `Could not update user: ${e.message}`,
+        description: `Could not update user: ${getErrorMessage(e)}`,
         variant: "destructive",
       });
     } finally {
@@ -250,19 +227,7 @@ export default function UserManagementPage() {
     if (!token) return;
     setLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/users`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(newUserData),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-      }
+      await usersApi.create(newUserData);
 
       toast({
         title: "User Added",
@@ -270,11 +235,11 @@ export default function UserManagementPage() {
       });
 
       fetchUsers(); // Re-fetch to update the list
-    } catch (e: any) {
+    } catch (e) {
       console.error("Error adding new user:", e);
       toast({
         title: "Add User Failed",
-        description: `Could not add new user: ${e.message}`,
+        description: `Could not add new user: ${getErrorMessage(e)}`,
         variant: "destructive",
       });
     } finally {
@@ -318,13 +283,14 @@ export default function UserManagementPage() {
                       <th className='text-left p-3'>Name</th>
                       <th className='text-left p-3'>Email</th>
                       <th className='text-left p-3'>Roles</th>
+                      <th className='text-left p-3'>Branches</th>
                       <th className='text-right p-3'>Actions</th>
                     </tr>
                   </thead>
                   <tbody>
                     {users.length === 0 ? (
                       <tr>
-                        <td colSpan={4} className="text-center py-12 text-muted-foreground">
+                        <td colSpan={5} className="text-center py-12 text-muted-foreground">
                           No users found.
                         </td>
                       </tr>
@@ -343,6 +309,9 @@ export default function UserManagementPage() {
                             {/* Display roles as a comma-separated string */}
                             {user.roles.join(', ')}
                           </td>
+                          <td className='p-3 text-muted-foreground'>
+                            {user.branches?.length ? user.branches.join(', ') : '—'}
+                          </td>
                           <td className='p-3 text-right'>
                             <div className='flex justify-end space-x-2'>
                               <Button
@@ -352,14 +321,16 @@ export default function UserManagementPage() {
                               >
                                 <Pencil className='h-4 w-4' />
                               </Button>
-                              <Button
-                                variant='ghost'
-                                size='sm'
-                                onClick={() => openDeleteModal(user)}
-                                className='text-red-600 hover:bg-red-100'
-                              >
-                                <Trash2 className='h-4 w-4' />
-                              </Button>
+                              {can('users.delete') && (
+                                <Button
+                                  variant='ghost'
+                                  size='sm'
+                                  onClick={() => openDeleteModal(user)}
+                                  className='text-red-600 hover:bg-red-100'
+                                >
+                                  <Trash2 className='h-4 w-4' />
+                                </Button>
+                              )}
                             </div>
                           </td>
                         </motion.tr>
@@ -371,6 +342,45 @@ export default function UserManagementPage() {
             )}
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Branches</CardTitle>
+          </CardHeader>
+          <CardContent className='space-y-4'>
+            <div className='flex flex-wrap gap-2'>
+              {branches.length === 0 ? (
+                <span className='text-sm text-muted-foreground'>No branches set up yet.</span>
+              ) : (
+                branches.map(branch => (
+                  <Badge key={branch.id} variant='secondary' className='flex items-center gap-1'>
+                    {branch.name}
+                    <button
+                      type='button'
+                      onClick={() => removeBranch(branch)}
+                      className='ml-1 hover:text-red-600'
+                      aria-label={`Remove ${branch.name}`}
+                    >
+                      <X className='h-3 w-3' />
+                    </button>
+                  </Badge>
+                ))
+              )}
+            </div>
+            <div className='flex gap-2 max-w-md'>
+              <Input
+                placeholder='New branch name'
+                value={newBranchName}
+                onChange={(e) => setNewBranchName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addBranch()}
+              />
+              <Button onClick={addBranch} disabled={!newBranchName.trim()}>
+                <Plus className='h-4 w-4 mr-2' />
+                Add Branch
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
       </motion.div>
 
       {/* Delete Confirmation Modal */}
@@ -425,7 +435,7 @@ export default function UserManagementPage() {
               <div className="space-y-2">
                 <Label>Roles</Label>
                 <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto p-2 border rounded-md">
-                  {allRoles.map(role => (
+                  {ALL_ROLES.map(role => (
                     <div key={role} className="flex items-center space-x-2">
                       <Checkbox
                         id={`role-${role}`}
@@ -440,6 +450,26 @@ export default function UserManagementPage() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label>Branches</Label>
+                {branches.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No branches yet. Add them under Branches.</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2 max-h-32 overflow-y-auto p-2 border rounded-md">
+                    {branches.map(branch => (
+                      <div key={branch.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`branch-${branch.id}`}
+                          checked={editUserBranches.includes(branch.name)}
+                          onCheckedChange={() => handleBranchToggle(branch.name)}
+                        />
+                        <Label htmlFor={`branch-${branch.id}`}>{branch.name}</Label>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               <div className='flex justify-end gap-2 mt-4'>
                 <Button variant='outline' onClick={() => setIsEditModalOpen(false)}>
                   Cancel
@@ -496,7 +526,7 @@ export default function UserManagementPage() {
                 <SelectValue placeholder='Select role' />
               </SelectTrigger>
               <SelectContent>
-                {allRoles.map(role => (
+                {ALL_ROLES.map(role => (
                   <SelectItem key={role} value={role}>
                     {role}
                   </SelectItem>
@@ -1,64 +1,47 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import {
   Card, Button, Tag, Modal, Input, Typography, Row, Col,
-  message, Grid, Empty, Spin, Table, Form, InputNumber, DatePicker, Drawer, Tabs
+  message, Grid, Empty, Spin, Table, Form, InputNumber, DatePicker, Drawer, Tabs, Select, Segmented
 } from 'antd';
 import { DollarOutlined } from '@ant-design/icons';
 import dayjs, { Dayjs } from 'dayjs';
-import axios from 'axios';
 import { useAuth } from '../../AuthPage';
+import { reconciliationApi } from '@/api/reconciliation';
+import { shiftsApi } from '@/api/shifts';
+import { getErrorMessage, isApiError } from '@/utils/apiClient';
+import { currencySet, denominationLabel, denominationLines, denominationTotal } from '@/utils/denominations';
+import { CASH_CURRENCY } from '@/lib/env';
+import ShiftReportModal from '@/components/pos/ShiftReportModal';
+import DenominationCount from '@/components/pos/DenominationCount';
+import type {
+  CashMovement, CashMovementType, DenominationCounts, ExpectedCash, MissedRow, ReconRow, Shift, ShiftReport, Teller,
+} from '@/types/pos';
+import { expectedDrawerCash, movementTotals } from '@/utils/cashDrawer';
+import { money } from '@/utils/money';
 
 const { Title, Text } = Typography;
 const { useBreakpoint } = Grid;
 const { RangePicker } = DatePicker;
 
-const API_BASE_URL = 'https://quantnow.onrender.com';
+const currency = currencySet(CASH_CURRENCY);
 
-interface Teller {
-  id: string;           // users.user_id
-  name: string;
-  email: string;
-  phone: string;
-  position: string;
-  userRole: 'teller' | 'manager';
-  branch: string;
-}
-
-interface ExpectedCash {
-  cash: number;
-  bank: number;
-  credit: number;
-}
-
-/** Drawer data types */
-interface ReconRow {
-  day: string;                 // recon_date
-  expected_cash: number;
-  counted_cash: number;
-  variance: number;            // negative = short, positive = over
-  notes: string | null;
-  recorded_by?: string;
-  created_at?: string;
-}
-
-interface MissedRow {
-  day: string;                 // a date within range with sales but no reconciliation
-  cash: number;                // expected cash that day
-  bank: number;
-  credit: number;
-}
+type CountMode = 'denominations' | 'total';
 
 /** ---- helpers ---- */
 const n = (v: any) => Number(v ?? 0);                     // safe number
-const money = (v: any) => `R${n(v).toFixed(2)}`;          // money format
 const mapRecon = (r: any): ReconRow => ({
   day: r.day,
+  shift_id: r.shift_id ?? null,
   expected_cash: n(r.expected_cash),
   counted_cash: n(r.counted_cash),
   variance: n(r.variance),
   notes: r.notes ?? null,
   recorded_by: r.recorded_by,
   created_at: r.created_at,
+  denominations: r.denominations ?? null,
+  currency: r.currency ?? null,
+  safe_drops: n(r.safe_drops),
+  pickups: n(r.pickups),
 });
 const mapMissed = (r: any): MissedRow => ({
   day: r.day,
@@ -70,8 +53,7 @@ const mapMissed = (r: any): MissedRow => ({
 export default function CashInScreen() {
   const [messageApi, contextHolder] = message.useMessage();
   const screens = useBreakpoint();
-  const { isAuthenticated } = useAuth();
-  const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
+  const { isAuthenticated, token } = useAuth();
 
   const [tellers, setTellers] = useState<Teller[]>([]);
   const [tellerExpectedCash, setTellerExpectedCash] = useState<Record<string, ExpectedCash>>({});
@@ -81,11 +63,22 @@ export default function CashInScreen() {
   const [selectedTeller, setSelectedTeller] = useState<Teller | null>(null);
   const [countedCash, setCountedCash] = useState<number | null>(null);
   const [notes, setNotes] = useState<string>('');
+  const [countMode, setCountMode] = useState<CountMode>('denominations');
+  const [counts, setCounts] = useState<DenominationCounts>({});
+
+  /** Safe drops and pickups recorded for bizDate, all tellers */
+  const [movements, setMovements] = useState<CashMovement[]>([]);
+  const [movementTeller, setMovementTeller] = useState<Teller | null>(null);
+  const [movementType, setMovementType] = useState<CashMovementType>('drop');
+  const [movementCounts, setMovementCounts] = useState<DenominationCounts>({});
+  const [movementNotes, setMovementNotes] = useState('');
+  const [savingMovement, setSavingMovement] = useState(false);
 
   const [loadingTellers, setLoadingTellers] = useState(true);
   const [loadingExpectedCash, setLoadingExpectedCash] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [tellerSearch, setTellerSearch] = useState('');
+  const [branchFilter, setBranchFilter] = useState<string | undefined>(undefined);
 
   /** Inspector (drawer) state */
   const [inspectorOpen, setInspectorOpen] = useState(false);
@@ -102,9 +95,9 @@ export default function CashInScreen() {
   const [shortRows, setShortRows] = useState<ReconRow[]>([]);
   const [shortTotals, setShortTotals] = useState({ days: 0, total_expected: 0, total_counted: 0, total_shortage: 0 });
 
-  const getAuthHeaders = useCallback(() => {
-    return token ? { Authorization: `Bearer ${token}` } : {};
-  }, [token]);
+  const [shiftLoading, setShiftLoading] = useState(false);
+  const [shiftRows, setShiftRows] = useState<Shift[]>([]);
+  const [shiftReport, setShiftReport] = useState<ShiftReport | null>(null);
 
   // 1) Load tellers who made sales on bizDate (your existing endpoint)
   const fetchTellers = useCallback(async () => {
@@ -115,11 +108,8 @@ export default function CashInScreen() {
     }
     setLoadingTellers(true);
     try {
-      const res = await axios.get<Teller[]>(
-        `${API_BASE_URL}/api/tellers`,
-        { headers: getAuthHeaders(), params: { date: bizDate.format('YYYY-MM-DD') } }
-      );
-      setTellers(res.data || []);
+      const data = await reconciliationApi.tellers(bizDate.format('YYYY-MM-DD'));
+      setTellers(data || []);
     } catch (err) {
       console.error('Failed to fetch tellers:', err);
       messageApi.error('Failed to load tellers.');
@@ -127,7 +117,7 @@ export default function CashInScreen() {
     } finally {
       setLoadingTellers(false);
     }
-  }, [isAuthenticated, token, getAuthHeaders, messageApi, bizDate]);
+  }, [isAuthenticated, token, messageApi, bizDate]);
 
   // 2) Load expected cash map for bizDate (your existing endpoint)
   const fetchExpectedCash = useCallback(async () => {
@@ -138,21 +128,16 @@ export default function CashInScreen() {
     }
     setLoadingExpectedCash(true);
     try {
-      const res = await axios.get<Record<string, any>>(
-        `${API_BASE_URL}/api/reconciliation/expected`,
-        {
-          headers: getAuthHeaders(),
-          params: { date: bizDate.format('YYYY-MM-DD') },
-        }
-      );
+      const data = await reconciliationApi.expected(bizDate.format('YYYY-MM-DD'));
       // coerce numbers in map
-      const raw = res.data || {};
+      const raw = data || {};
       const coerced: Record<string, ExpectedCash> = {};
       Object.keys(raw).forEach(k => {
         coerced[k] = {
           cash: n(raw[k]?.cash),
           bank: n(raw[k]?.bank),
           credit: n(raw[k]?.credit),
+          refunds: n(raw[k]?.refunds),
         };
       });
       setTellerExpectedCash(coerced);
@@ -163,10 +148,33 @@ export default function CashInScreen() {
     } finally {
       setLoadingExpectedCash(false);
     }
-  }, [isAuthenticated, token, getAuthHeaders, messageApi, bizDate]);
+  }, [isAuthenticated, token, messageApi, bizDate]);
+
+  // 3) Safe drops / pickups for bizDate, netted off the expected drawer cash
+  const fetchMovements = useCallback(async () => {
+    if (!isAuthenticated || !token) {
+      setMovements([]);
+      return;
+    }
+    try {
+      const data = await reconciliationApi.cashMovements({ date: bizDate.format('YYYY-MM-DD') });
+      setMovements((data || []).map(m => ({ ...m, amount: n(m.amount) })));
+    } catch (err) {
+      console.error('Failed to fetch cash movements:', err);
+      messageApi.error('Failed to load safe drops and pickups.');
+      setMovements([]);
+    }
+  }, [isAuthenticated, token, messageApi, bizDate]);
 
   useEffect(() => { fetchTellers(); }, [fetchTellers]);
   useEffect(() => { fetchExpectedCash(); }, [fetchExpectedCash]);
+  useEffect(() => { fetchMovements(); }, [fetchMovements]);
+
+  const tellerMovements = (tellerId: string) => movementTotals(movements, tellerId);
+
+  // Cash that should still be in the drawer; refunds are already netted off the expected cash
+  const tellerDrawerCash = (tellerId: string) =>
+    expectedDrawerCash({ cashSales: n(tellerExpectedCash[tellerId]?.cash), ...tellerMovements(tellerId) });
 
   /** Drawer loaders */
   const fromStr = range[0].format('YYYY-MM-DD');
@@ -175,11 +183,8 @@ export default function CashInScreen() {
   const loadHistory = useCallback(async (tellerId: string) => {
     setHistLoading(true);
     try {
-      const res = await axios.get<{ rows: any[] }>(
-        `${API_BASE_URL}/api/reconciliation/history`,
-        { headers: getAuthHeaders(), params: { tellerId, from: fromStr, to: toStr } }
-      );
-      setHistRows((res.data?.rows || []).map(mapRecon));
+      const data = await reconciliationApi.history({ tellerId, from: fromStr, to: toStr });
+      setHistRows((data?.rows || []).map(mapRecon));
     } catch (e) {
       console.error(e);
       messageApi.error('Failed to load history.');
@@ -187,16 +192,13 @@ export default function CashInScreen() {
     } finally {
       setHistLoading(false);
     }
-  }, [getAuthHeaders, messageApi, fromStr, toStr]);
+  }, [messageApi, fromStr, toStr]);
 
   const loadMissed = useCallback(async (tellerId: string) => {
     setMissLoading(true);
     try {
-      const res = await axios.get<{ rows: any[] }>(
-        `${API_BASE_URL}/api/reconciliation/missed-days`,
-        { headers: getAuthHeaders(), params: { tellerId, from: fromStr, to: toStr } }
-      );
-      setMissRows((res.data?.rows || []).map(mapMissed));
+      const data = await reconciliationApi.missedDays({ tellerId, from: fromStr, to: toStr });
+      setMissRows((data?.rows || []).map(mapMissed));
     } catch (e) {
       console.error(e);
       messageApi.error('Failed to load missed days.');
@@ -204,17 +206,14 @@ export default function CashInScreen() {
     } finally {
       setMissLoading(false);
     }
-  }, [getAuthHeaders, messageApi, fromStr, toStr]);
+  }, [messageApi, fromStr, toStr]);
 
   const loadShort = useCallback(async (tellerId: string) => {
     setShortLoading(true);
     try {
-      const res = await axios.get<{ rows: any[]; totals: any }>(
-        `${API_BASE_URL}/api/reconciliation/short-days`,
-        { headers: getAuthHeaders(), params: { tellerId, from: fromStr, to: toStr } }
-      );
-      setShortRows((res.data?.rows || []).map(mapRecon));
-      const t = res.data?.totals ?? {};
+      const data = await reconciliationApi.shortDays({ tellerId, from: fromStr, to: toStr });
+      setShortRows((data?.rows || []).map(mapRecon));
+      const t = data?.totals ?? {};
       setShortTotals({
         days: n(t.days),
         total_expected: n(t.total_expected),
@@ -229,7 +228,28 @@ export default function CashInScreen() {
     } finally {
       setShortLoading(false);
     }
-  }, [getAuthHeaders, messageApi, fromStr, toStr]);
+  }, [messageApi, fromStr, toStr]);
+
+  const loadShifts = useCallback(async (tellerId: string) => {
+    setShiftLoading(true);
+    try {
+      setShiftRows(await shiftsApi.list({ tellerId, from: fromStr, to: toStr }));
+    } catch (e) {
+      console.error(e);
+      messageApi.error('Failed to load shifts.');
+      setShiftRows([]);
+    } finally {
+      setShiftLoading(false);
+    }
+  }, [messageApi, fromStr, toStr]);
+
+  const viewShiftReport = async (row: Shift) => {
+    try {
+      setShiftReport(row.status === 'open' ? await shiftsApi.xReport(row.id) : await shiftsApi.zReport(row.id));
+    } catch (e) {
+      messageApi.error(getErrorMessage(e, 'Failed to load the shift report.'));
+    }
+  };
 
   // Open modal
   const openReconciliationModal = (teller: Teller) => {
@@ -240,9 +260,47 @@ export default function CashInScreen() {
     setSelectedTeller(teller);
     setCountedCash(null);
     setNotes('');
+    setCounts({});
+    setCountMode('denominations');
     setReconciliationModalVisible(true);
   };
 
+  const openMovementModal = (teller: Teller) => {
+    setMovementTeller(teller);
+    setMovementType('drop');
+    setMovementCounts({});
+    setMovementNotes('');
+  };
+
+  const handleRecordMovement = async () => {
+    if (!movementTeller) return;
+    const amount = denominationTotal(movementCounts);
+    if (amount <= 0) {
+      messageApi.error('Count the notes and coins being moved.');
+      return;
+    }
+    setSavingMovement(true);
+    try {
+      await reconciliationApi.recordCashMovement({
+        tellerId: movementTeller.id,
+        date: bizDate.format('YYYY-MM-DD'),
+        type: movementType,
+        amount,
+        denominations: movementCounts,
+        notes: movementNotes.trim() || null,
+      });
+      messageApi.success(
+        `${movementType === 'drop' ? 'Safe drop' : 'Pickup'} of ${money(amount)} recorded for ${movementTeller.name}.`,
+      );
+      setMovementTeller(null);
+      fetchMovements();
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to record the cash movement.'));
+    } finally {
+      setSavingMovement(false);
+    }
+  };
+
   // Open inspector drawer
   const openInspector = (teller: Teller) => {
     setInspectorTeller(teller);
@@ -251,6 +309,7 @@ export default function CashInScreen() {
     loadHistory(teller.id);
     loadMissed(teller.id);
     loadShort(teller.id);
+    loadShifts(teller.id);
   };
 
   // Reload drawer data when range changes
@@ -259,8 +318,9 @@ export default function CashInScreen() {
       loadHistory(inspectorTeller.id);
       loadMissed(inspectorTeller.id);
       loadShort(inspectorTeller.id);
+      loadShifts(inspectorTeller.id);
     }
-  }, [range, inspectorOpen, inspectorTeller, loadHistory, loadMissed, loadShort]);
+  }, [range, inspectorOpen, inspectorTeller, loadHistory, loadMissed, loadShort, loadShifts]);
 
   // Submit reconciliation
   const handleSubmit = async () => {
@@ -268,7 +328,8 @@ export default function CashInScreen() {
       messageApi.error('Authentication or teller information missing.');
       return;
     }
-    const expectedCash = n(tellerExpectedCash[selectedTeller.id]?.cash);
+    const expectedCash = tellerDrawerCash(selectedTeller.id);
+    const { safeDrops, pickups } = tellerMovements(selectedTeller.id);
     if (countedCash === null || Number.isNaN(countedCash)) {
       messageApi.error('Please enter the counted cash amount.');
       return;
@@ -277,30 +338,31 @@ export default function CashInScreen() {
 
     setSubmitting(true);
     try {
-      await axios.post(
-        `${API_BASE_URL}/api/reconciliation/submit`,
-        {
-          tellerId: selectedTeller.id,                 // users.user_id
-          expectedCash,
-          countedCash,
-          variance,
-          notes,
-          date: bizDate.format('YYYY-MM-DD'),          // business day = dashboard date
-        },
-        { headers: getAuthHeaders() }
-      );
+      await reconciliationApi.submit({
+        tellerId: selectedTeller.id,                 // users.user_id
+        expectedCash,
+        countedCash,
+        variance,
+        notes,
+        date: bizDate.format('YYYY-MM-DD'),          // business day = dashboard date
+        denominations: countMode === 'denominations' ? counts : null,
+        currency: currency.code,
+        safeDrops,
+        pickups,
+      });
 
       messageApi.success(`Reconciliation recorded for ${selectedTeller.name}.`);
       setReconciliationModalVisible(false);
       setSelectedTeller(null);
       setCountedCash(null);
       setNotes('');
+      setCounts({});
       // Refresh dashboard data
       fetchExpectedCash();
       fetchTellers();
-    } catch (err: any) {
+    } catch (err) {
       console.error('Failed to submit reconciliation:', err);
-      if (axios.isAxiosError(err) && err.response?.status === 409) {
+      if (isApiError(err) && err.status === 409) {
         messageApi.warning('A reconciliation for this teller and date already exists.');
       } else {
         messageApi.error('Failed to submit reconciliation report.');
@@ -313,19 +375,50 @@ export default function CashInScreen() {
   const expectedCashForSelected: ExpectedCash =
     selectedTeller ? (tellerExpectedCash[selectedTeller.id] || { cash: 0, bank: 0, credit: 0 }) : { cash: 0, bank: 0, credit: 0 };
 
+  const movementsForSelected = selectedTeller ? tellerMovements(selectedTeller.id) : { safeDrops: 0, pickups: 0 };
+  const expectedDrawerForSelected = selectedTeller ? tellerDrawerCash(selectedTeller.id) : 0;
+
   const varianceDisplay =
     countedCash == null
       ? 0
-      : Number((countedCash - n(expectedCashForSelected.cash)).toFixed(2));
+      : Number((countedCash - expectedDrawerForSelected).toFixed(2));
+
+  const changeCounts = (value: DenominationCounts) => {
+    setCounts(value);
+    setCountedCash(denominationTotal(value));
+  };
+
+  const renderBreakdown = (r: ReconRow) => {
+    const symbol = currencySet(r.currency).symbol;
+    return (
+      <div style={{ paddingLeft: 8 }}>
+        {denominationLines(r.denominations).map(line => (
+          <div key={line.value}>
+            <Text>
+              {denominationLabel(line.value, symbol)} × {line.count} = {symbol}{line.amount.toFixed(2)}
+            </Text>
+          </div>
+        ))}
+        {(n(r.safe_drops) > 0 || n(r.pickups) > 0) && (
+          <Text type="secondary">
+            Safe drops {money(r.safe_drops)} · Pickups {money(r.pickups)}
+          </Text>
+        )}
+      </div>
+    );
+  };
 
   // Filter list (show tellers with cash sales for the selected date)
+  const branchOptions = Array.from(new Set(tellers.map(t => t.branch).filter(Boolean))).sort();
+
   const tellerData = tellers.filter((t) => {
     const hasCashToday = n(tellerExpectedCash[t.id]?.cash) > 0;
     const matchesSearch =
       !tellerSearch ||
       t.name.toLowerCase().includes(tellerSearch.toLowerCase()) ||
       (t.branch || '').toLowerCase().includes(tellerSearch.toLowerCase());
-    return hasCashToday && matchesSearch;
+    const matchesBranch = !branchFilter || t.branch === branchFilter;
+    return hasCashToday && matchesSearch && matchesBranch;
   });
 
   return (
@@ -348,6 +441,15 @@ export default function CashInScreen() {
             />
           </Col>
           <Col>
+            <Select
+              allowClear
+              placeholder="All branches"
+              value={branchFilter}
+              onChange={setBranchFilter}
+              options={branchOptions.map(b => ({ label: b, value: b }))}
+              disabled={!isAuthenticated || branchOptions.length === 0}
+              style={{ minWidth: 160, marginRight: 8 }}
+            />
             <Button onClick={fetchExpectedCash} disabled={!isAuthenticated || loadingExpectedCash}>
               Refresh
             </Button>
@@ -397,6 +499,24 @@ export default function CashInScreen() {
                       key: 'expected',
                       render: (_, rec) => <span>{money(tellerExpectedCash[rec.id]?.cash)}</span>,
                     },
+                    {
+                      title: 'Drops / Pickups',
+                      key: 'movements',
+                      render: (_, rec) => {
+                        const { safeDrops, pickups } = tellerMovements(rec.id);
+                        return <span>{money(safeDrops)} / {money(pickups)}</span>;
+                      },
+                    },
+                    {
+                      title: 'Bank',
+                      key: 'bank',
+                      render: (_, rec) => <span>{money(tellerExpectedCash[rec.id]?.bank)}</span>,
+                    },
+                    {
+                      title: 'On Account',
+                      key: 'credit',
+                      render: (_, rec) => <span>{money(tellerExpectedCash[rec.id]?.credit)}</span>,
+                    },
                     {
                       title: 'Actions',
                       key: 'action',
@@ -408,6 +528,11 @@ export default function CashInScreen() {
                               View Record
                             </Button>
                           </Col>
+                          <Col>
+                            <Button onClick={() => openMovementModal(rec)} disabled={!isAuthenticated}>
+                              Safe Drop
+                            </Button>
+                          </Col>
                           <Col>
                             <Button
                               type="primary"
@@ -440,12 +565,26 @@ export default function CashInScreen() {
                             <div>
                               <b>Expected Cash In:</b> {money(tellerExpectedCash[item.id]?.cash)}
                             </div>
+                            <div style={{ color: '#888', fontSize: 12 }}>
+                              Bank {money(tellerExpectedCash[item.id]?.bank)} · On account {money(tellerExpectedCash[item.id]?.credit)}
+                            </div>
                           </Col>
                           <Col>
                             <Row gutter={8}>
                               <Col>
                                 <Button onClick={() => openInspector(item)}>View</Button>
                               </Col>
+                              <Col>
+                                <Button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    openMovementModal(item);
+                                  }}
+                                  disabled={!isAuthenticated}
+                                >
+                                  Drop
+                                </Button>
+                              </Col>
                               <Col>
                                 <Button
                                   type="primary"
@@ -478,7 +617,7 @@ export default function CashInScreen() {
           footer={null}
           centered
           destroyOnClose
-          width={420}
+          width={countMode === 'denominations' ? 560 : 420}
           styles={{ body: { padding: 24 } }}
         >
           {selectedTeller && (
@@ -495,31 +634,79 @@ export default function CashInScreen() {
                   <span style={{ color: '#faad14' }}>Credit Sales:</span>{' '}
                   <b>{money(expectedCashForSelected.credit)}</b>
                 </Text>
+                {n(expectedCashForSelected.refunds) > 0 && (
+                  <>
+                    <br />
+                    <Text>
+                      <span style={{ color: '#ff4d4f' }}>Cash Refunds:</span>{' '}
+                      <b>-{money(expectedCashForSelected.refunds)}</b>
+                    </Text>
+                  </>
+                )}
+                {movementsForSelected.safeDrops > 0 && (
+                  <>
+                    <br />
+                    <Text>
+                      <span style={{ color: '#722ed1' }}>Safe Drops:</span>{' '}
+                      <b>-{money(movementsForSelected.safeDrops)}</b>
+                    </Text>
+                  </>
+                )}
+                {movementsForSelected.pickups > 0 && (
+                  <>
+                    <br />
+                    <Text>
+                      <span style={{ color: '#13c2c2' }}>Pickups:</span>{' '}
+                      <b>{money(movementsForSelected.pickups)}</b>
+                    </Text>
+                  </>
+                )}
               </div>
 
-              <Form.Item label="Expected Cash In" style={{ marginBottom: 0 }}>
-                <Input addonBefore={<DollarOutlined />} value={money(expectedCashForSelected.cash)} disabled />
-              </Form.Item>
-
               <Form.Item
-                label="Counted Cash"
-                name="countedCash"
-                rules={[{ required: true, message: 'Please enter the counted cash.' }]}
-                style={{ marginTop: 16 }}
+                label="Expected Cash In Drawer"
+                extra="Cash portion of every sale, including split tenders, net of change, cash refunds, safe drops and pickups."
+                style={{ marginBottom: 0 }}
               >
-                <InputNumber
-                  addonBefore={<DollarOutlined />}
-                  style={{ width: '100%' }}
-                  placeholder="Enter actual cash amount"
-                  value={countedCash as number | null}
-                  onChange={(value) => setCountedCash(typeof value === 'number' ? value : null)}
-                  min={0}
-                  step={0.01}
-                  precision={2}
-                  disabled={submitting}
-                />
+                <Input addonBefore={<DollarOutlined />} value={money(expectedDrawerForSelected)} disabled />
               </Form.Item>
 
+              <Segmented
+                value={countMode}
+                onChange={(value) => {
+                  setCountMode(value as CountMode);
+                  if (value === 'denominations') setCountedCash(denominationTotal(counts));
+                }}
+                options={[
+                  { label: 'By denomination', value: 'denominations' },
+                  { label: 'Total only', value: 'total' },
+                ]}
+                disabled={submitting}
+                style={{ marginTop: 16 }}
+              />
+
+              {countMode === 'denominations' ? (
+                <Form.Item label={`Counted Cash (${currency.code})`} style={{ marginTop: 12 }}>
+                  <DenominationCount value={counts} onChange={changeCounts} currency={currency} disabled={submitting} />
+                </Form.Item>
+              ) : (
+                // Controlled by countedCash rather than the form store so the
+                // value survives switching between the two counting modes.
+                <Form.Item label="Counted Cash" required style={{ marginTop: 12 }}>
+                  <InputNumber
+                    addonBefore={<DollarOutlined />}
+                    style={{ width: '100%' }}
+                    placeholder="Enter actual cash amount"
+                    value={countedCash as number | null}
+                    onChange={(value) => setCountedCash(typeof value === 'number' ? value : null)}
+                    min={0}
+                    step={0.01}
+                    precision={2}
+                    disabled={submitting}
+                  />
+                </Form.Item>
+              )}
+
               <Form.Item label="Variance" style={{ marginBottom: 0 }}>
                 <Input
                   value={money(varianceDisplay)}
@@ -563,6 +750,45 @@ export default function CashInScreen() {
           )}
         </Modal>
 
+        {/* --- Safe Drop / Pickup Modal --- */}
+        <Modal
+          open={!!movementTeller}
+          title={movementTeller ? `Safe Drop / Pickup: ${movementTeller.name}` : ''}
+          onCancel={() => setMovementTeller(null)}
+          onOk={handleRecordMovement}
+          okText={movementType === 'drop' ? 'Record Drop' : 'Record Pickup'}
+          okButtonProps={{ disabled: denominationTotal(movementCounts) <= 0 }}
+          confirmLoading={savingMovement}
+          centered
+          destroyOnClose
+          width={560}
+        >
+          <Segmented
+            value={movementType}
+            onChange={(value) => setMovementType(value as CashMovementType)}
+            options={[
+              { label: 'Drop (drawer to safe)', value: 'drop' },
+              { label: 'Pickup (safe to drawer)', value: 'pickup' },
+            ]}
+            disabled={savingMovement}
+            style={{ marginBottom: 12 }}
+          />
+          <DenominationCount
+            value={movementCounts}
+            onChange={setMovementCounts}
+            currency={currency}
+            disabled={savingMovement}
+          />
+          <Input.TextArea
+            rows={2}
+            placeholder="Notes (bag number, witness...)"
+            value={movementNotes}
+            onChange={(e) => setMovementNotes(e.target.value)}
+            disabled={savingMovement}
+            style={{ marginTop: 12 }}
+          />
+        </Modal>
+
         {/* --- Teller Inspector Drawer --- */}
         <Drawer
           title={inspectorTeller ? `Record for ${inspectorTeller.name}` : 'Record'}
@@ -593,8 +819,20 @@ export default function CashInScreen() {
                       dataSource={histRows}
                       size="small"
                       pagination={{ pageSize: 10 }}
+                      expandable={{
+                        rowExpandable: (r) => denominationLines(r.denominations).length > 0,
+                        expandedRowRender: renderBreakdown,
+                      }}
                       columns={[
-                        { title: 'Day', dataIndex: 'day', render: (d: string) => dayjs(d).format('YYYY-MM-DD') },
+                        {
+                          title: 'Day',
+                          dataIndex: 'day',
+                          render: (d: string, r: ReconRow) => (
+                            <>
+                              {dayjs(d).format('YYYY-MM-DD')} {r.shift_id ? <Tag>Shift #{r.shift_id}</Tag> : null}
+                            </>
+                          ),
+                        },
                         { title: 'Expected', dataIndex: 'expected_cash', render: (v: number) => money(v) },
                         { title: 'Counted', dataIndex: 'counted_cash', render: (v: number) => money(v) },
                         {
@@ -612,6 +850,50 @@ export default function CashInScreen() {
                   </Spin>
                 ),
               },
+              {
+                key: 'shifts',
+                label: 'Shifts',
+                children: (
+                  <Spin spinning={shiftLoading}>
+                    <Table
+                      rowKey="id"
+                      dataSource={shiftRows}
+                      size="small"
+                      pagination={{ pageSize: 10 }}
+                      columns={[
+                        { title: 'Shift', dataIndex: 'id', render: (id: number) => `#${id}` },
+                        { title: 'Opened', dataIndex: 'openedAt', render: (d: string) => dayjs(d).format('YYYY-MM-DD HH:mm') },
+                        {
+                          title: 'Closed',
+                          dataIndex: 'closedAt',
+                          render: (d: string | null) => (d ? dayjs(d).format('HH:mm') : <Tag color="green">Open</Tag>),
+                        },
+                        { title: 'Float', dataIndex: 'openingFloat', render: (v: number) => money(v) },
+                        { title: 'Expected', dataIndex: 'expectedCash', render: (v: number | null) => (v == null ? '—' : money(v)) },
+                        { title: 'Counted', dataIndex: 'countedCash', render: (v: number | null) => (v == null ? '—' : money(v)) },
+                        {
+                          title: 'Variance',
+                          dataIndex: 'variance',
+                          render: (v: number | null) =>
+                            v == null ? '—' : (
+                              <span style={{ color: v < 0 ? 'red' : v > 0 ? 'blue' : 'inherit', fontWeight: 600 }}>
+                                {money(v)}
+                              </span>
+                            ),
+                        },
+                        {
+                          title: 'Report',
+                          render: (_, r: Shift) => (
+                            <Button type="link" onClick={() => viewShiftReport(r)}>
+                              {r.status === 'open' ? 'X-report' : 'Z-report'}
+                            </Button>
+                          ),
+                        },
+                      ]}
+                    />
+                  </Spin>
+                ),
+              },
               {
                 key: 'missed',
                 label: 'Missed days',
@@ -690,6 +972,8 @@ export default function CashInScreen() {
                                 setBizDate(dayjs(r.day));
                                 setSelectedTeller(inspectorTeller);
                                 setCountedCash(r.counted_cash);
+                                setCounts(r.denominations ?? {});
+                                setCountMode(r.denominations ? 'denominations' : 'total');
                                 setNotes(r.notes || '');
                                 setReconciliationModalVisible(true);
                               }}
@@ -706,6 +990,8 @@ export default function CashInScreen() {
             ]}
           />
         </Drawer>
+
+        <ShiftReportModal report={shiftReport} onClose={() => setShiftReport(null)} />
       </div>
     </>
   );
@@ -11,10 +11,35 @@ import {
   message,
   Row,
   Col,
+  InputNumber,
+  Select,
+  Space,
+  Switch,
+  Table,
+  DatePicker,
 } from 'antd';
-import { UserOutlined, SearchOutlined } from '@ant-design/icons';
+import { UserOutlined, SearchOutlined, FilePdfOutlined } from '@ant-design/icons';
+import dayjs, { Dayjs } from 'dayjs';
 import { useAuth } from '../../AuthPage'; // Import useAuth
-import axios from 'axios';
+import { customersApi } from '@/api/customers';
+import { creditApi } from '@/api/sales';
+import { profileApi } from '@/api/profile';
+import { getErrorMessage } from '@/utils/apiClient';
+import { allocateOldestFirst, allocatedTotal, allocationError, byOldestDebt } from '@/utils/creditAllocation';
+import { AGING_BUCKETS, ageDebtors, agingTotals, statementsToPdf, type AgedDebtor } from '@/utils/statements';
+import { companyFromProfile } from '@/utils/receipt';
+import CreditPaymentReceiptModal from '@/components/pos/CreditPaymentReceiptModal';
+import CustomerStatementModal from '@/components/pos/CustomerStatementModal';
+import LaybyAccounts from '@/components/pos/LaybyAccounts';
+import type {
+  AccountPaymentMethod,
+  CreditPaymentReceipt,
+  CustomerBackend,
+  CustomerStatement,
+  SaleBackend,
+} from '@/types/pos';
+import type { ReceiptCompany } from '@/types/receipt';
+import { round2 } from '@/utils/money';
 
 const { Title, Text } = Typography;
 
@@ -32,53 +57,42 @@ const debounce = (func: (...args: any[]) => void, delay: number) => {
   };
 };
 
-
-// IMPORTANT: Replace with your actual backend API URL
-const API_BASE_URL = 'https://quantnow.onrender.com';
-
-// --- Updated Interfaces to match Backend (public.customers, public.sales) ---
-interface CustomerBackend {
-  id: number;
-  name: string;
-  email: string;
-  phone?: string;
-  address?: string;
-  tax_id?: string;
-  total_invoiced: number;
-  balance_due: number; // From public.customers
+// A customer's open credit sales, paid off together
+interface PayAccount {
+  customerId: number;
+  customerName: string;
+  sales: SaleBackend[];
 }
 
-interface SaleBackend {
-  id: number; // Sale ID
-  customer_id: number; // Customer ID
-  customer_name: string; // From JOIN in backend
-  total_amount: number;
-  payment_method: 'Cash' | 'Credit' | 'Bank'; // Renamed from payment_type to match the backend
-  remaining_credit_amount: number; // From public.sales
-  due_date: string | null;
-  sale_date: string; // Renamed from created_at to match the backend
-}
+type CreditTab = 'payments' | 'aging' | 'laybys' | 'history';
+
+const accountDue = (account: PayAccount) =>
+  round2(account.sales.reduce((sum, s) => sum + (Number(s.remaining_credit_amount) || 0), 0));
 
 const CreditPaymentsScreen: React.FC = () => {
   const [messageApi, contextHolder] = message.useMessage();
-  const [tab, setTab] = useState<'payments' | 'history'>('payments');
+  const [tab, setTab] = useState<CreditTab>('payments');
   const [outstandingCredits, setOutstandingCredits] = useState<SaleBackend[]>([]);
   const [historyCredits, setHistoryCredits] = useState<SaleBackend[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedCredit, setSelectedCredit] = useState<SaleBackend | null>(null);
   const [selectedCustomer, setSelectedCustomer] = useState<CustomerBackend | null>(null);
-  const [paymentAmount, setPaymentAmount] = useState<string>('');
-  const [modalVisible, setModalVisible] = useState(false);
+  const [payAccount, setPayAccount] = useState<PayAccount | null>(null);
+  const [payAmount, setPayAmount] = useState<number | null>(null);
+  const [payMethod, setPayMethod] = useState<AccountPaymentMethod>('Cash');
+  const [payReference, setPayReference] = useState('');
+  const [manualAllocation, setManualAllocation] = useState(false);
+  const [manualAllocations, setManualAllocations] = useState<Record<number, number>>({});
+  const [paying, setPaying] = useState(false);
+  const [paymentReceipt, setPaymentReceipt] = useState<CreditPaymentReceipt | null>(null);
+  const [company, setCompany] = useState<ReceiptCompany>(() => companyFromProfile(null));
+  const [statementCustomer, setStatementCustomer] = useState<{ id: number; name: string } | null>(null);
+  const [statementMonth, setStatementMonth] = useState<Dayjs>(dayjs());
+  const [generatingStatements, setGeneratingStatements] = useState(false);
   const [customerModal, setCustomerModal] = useState(false);
   const [searchText, setSearchText] = useState('');
   const [customersList, setCustomersList] = useState<CustomerBackend[]>([]);
 
-  const { isAuthenticated, user } = useAuth();
-  const token = localStorage.getItem('token');
-
-  const getAuthHeaders = useCallback(() => {
-    return token ? { 'Authorization': `Bearer ${token}` } : {};
-  }, [token]);
+  const { isAuthenticated, token, userName } = useAuth();
 
   // --- API Fetching Functions ---
 
@@ -90,11 +104,8 @@ const CreditPaymentsScreen: React.FC = () => {
         setCustomersList([]);
         return;
       }
-      const response = await axios.get<CustomerBackend[]>(
-        `${API_BASE_URL}/api/customers`,
-        { headers: getAuthHeaders() }
-      );
-      setCustomersList(response.data.sort((a, b) => a.name.localeCompare(b.name)));
+      const data = await customersApi.listRaw();
+      setCustomersList(data.sort((a, b) => a.name.localeCompare(b.name)));
     } catch (error) {
       console.error('Failed to fetch customers:', error);
       messageApi.error('Failed to load customers.');
@@ -102,7 +113,7 @@ const CreditPaymentsScreen: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [isAuthenticated, token, getAuthHeaders, messageApi]);
+  }, [isAuthenticated, token, messageApi]);
 
   const fetchCreditSales = useCallback(async () => {
     setLoading(true);
@@ -113,16 +124,13 @@ const CreditPaymentsScreen: React.FC = () => {
         setLoading(false);
         return;
       }
-      const response = await axios.get<SaleBackend[]>(
-        `${API_BASE_URL}/api/credit-sales`,
-        { headers: getAuthHeaders() }
-      );
-      
-      if (response.data.length === 0) {
+      const data = await creditApi.outstanding();
+
+      if (data.length === 0) {
         console.warn('API returned an empty array for credit sales.');
       }
-      
-      setOutstandingCredits(response.data);
+
+      setOutstandingCredits(data);
       messageApi.success('Credit sales loaded successfully.');
     } catch (error) {
       console.error('Failed to fetch credit sales:', error);
@@ -131,7 +139,7 @@ const CreditPaymentsScreen: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [isAuthenticated, token, getAuthHeaders, messageApi]);
+  }, [isAuthenticated, token, messageApi]);
 
   const fetchCustomerCreditHistory = useCallback(async () => {
     if (!selectedCustomer?.id || !isAuthenticated || !token) {
@@ -140,13 +148,10 @@ const CreditPaymentsScreen: React.FC = () => {
     }
     setLoading(true);
     try {
-      const response = await axios.get<SaleBackend[]>(
-        `${API_BASE_URL}/api/sales/customer/${selectedCustomer.id}/credit-history`,
-        { headers: getAuthHeaders() }
-      );
+      const data = await creditApi.customerHistory(selectedCustomer.id);
 
       // The backend should now return numbers, but we'll do an extra check to be safe
-      const sanitizedData = response.data.map(item => ({
+      const sanitizedData = data.map(item => ({
         ...item,
         total_amount: parseFloat(item.total_amount as any),
         remaining_credit_amount: parseFloat(item.remaining_credit_amount as any),
@@ -161,7 +166,7 @@ const CreditPaymentsScreen: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [selectedCustomer, isAuthenticated, token, getAuthHeaders, messageApi]);
+  }, [selectedCustomer, isAuthenticated, token, messageApi]);
 
   // Use debounce to prevent excessive API calls while typing
   const debouncedSetSearchText = useCallback(
@@ -172,7 +177,15 @@ const CreditPaymentsScreen: React.FC = () => {
   );
 
   useEffect(() => {
-    if (tab === 'payments') {
+    if (!isAuthenticated) return;
+    profileApi
+      .get()
+      .then(profile => setCompany(companyFromProfile(profile)))
+      .catch(err => console.warn('Failed to load company details for statements:', err));
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (tab === 'payments' || tab === 'aging') {
       fetchCreditSales();
     } else if (tab === 'history') {
       fetchCustomers();
@@ -191,50 +204,103 @@ const CreditPaymentsScreen: React.FC = () => {
     c.name?.toLowerCase().includes(searchText.toLowerCase())
   );
 
-  const openModal = (credit: SaleBackend) => {
+  // Outstanding credit sales grouped per customer; payments are taken at account level
+  const customerAccounts = Object.values(
+    outstandingCredits.reduce<Record<number, PayAccount>>((acc, credit) => {
+      const account = acc[credit.customer_id] ?? {
+        customerId: credit.customer_id,
+        customerName: credit.customer_name,
+        sales: [],
+      };
+      account.sales.push(credit);
+      acc[credit.customer_id] = account;
+      return acc;
+    }, {})
+  ).sort((a, b) => a.customerName.localeCompare(b.customerName));
+
+  const openPayment = (account: PayAccount) => {
     if (!isAuthenticated) {
       messageApi.error('Authentication required to make payments.');
       return;
     }
-    setSelectedCredit(credit);
-    setPaymentAmount('');
-    setModalVisible(true);
+    setPayAccount({ ...account, sales: account.sales.filter(s => s.remaining_credit_amount > 0).sort(byOldestDebt) });
+    setPayAmount(null);
+    setPayMethod('Cash');
+    setPayReference('');
+    setManualAllocation(false);
+    setManualAllocations({});
+  };
+
+  // Oldest debt is settled first unless the cashier takes over the split
+  const allocations = !payAccount
+    ? {}
+    : manualAllocation
+      ? manualAllocations
+      : allocateOldestFirst(payAccount.sales, payAmount ?? 0);
+  const unallocated = Math.max(0, round2((payAmount ?? 0) - allocatedTotal(allocations)));
+  const allocationProblem = payAccount ? allocationError(payAccount.sales, allocations, payAmount ?? 0) : null;
+
+  const toggleManualAllocation = (checked: boolean) => {
+    if (checked && payAccount) setManualAllocations(allocateOldestFirst(payAccount.sales, payAmount ?? 0));
+    setManualAllocation(checked);
   };
 
   const handlePayment = async () => {
-    if (!selectedCredit || !isAuthenticated || !token) {
-      messageApi.error('Authentication or credit not selected.');
+    if (!payAccount || !isAuthenticated || !token) {
+      messageApi.error('Authentication or customer not selected.');
+      return;
+    }
+    const amount = round2(payAmount ?? 0);
+    if (amount <= 0) {
+      messageApi.warning('Enter the amount received.');
+      return;
+    }
+    if (allocationProblem) {
+      messageApi.warning(allocationProblem);
       return;
     }
-    const payAmount = parseFloat(paymentAmount);
-    if (
-      !payAmount ||
-      payAmount <= 0 ||
-      payAmount > selectedCredit.remaining_credit_amount
-    ) {
-      messageApi.warning('Invalid payment amount or exceeds remaining balance.');
+    if (payMethod === 'Bank' && !payReference.trim()) {
+      messageApi.warning('Enter the bank reference for an EFT payment.');
       return;
     }
 
-    setLoading(true);
+    const allocationList = payAccount.sales
+      .filter(s => (allocations[s.id] || 0) > 0)
+      .map(s => ({ saleId: s.id, amount: allocations[s.id] }));
+    const reference = payReference.trim() || null;
+
+    setPaying(true);
     try {
-      // --- FIX: Corrected API endpoint to credit-payments ---
-      await axios.post(
-        `${API_BASE_URL}/api/credit-payments`,
-        {
-          customerId: selectedCredit.customer_id,
-          saleId: selectedCredit.id,
-          amountPaid: payAmount,
-          paymentMethod: 'Cash', // This could be a dynamic user selection
-          description: `Payment for Sale ID ${selectedCredit.id}`,
-          recordedBy: user?.name,
-        },
-        { headers: getAuthHeaders() }
-      );
-
-      messageApi.success('Payment recorded successfully!');
-      setModalVisible(false);
-      setSelectedCredit(null);
+      const result = await creditApi.recordPayment({
+        customerId: payAccount.customerId,
+        amountPaid: amount,
+        paymentMethod: payMethod,
+        reference,
+        allocations: allocationList,
+        unallocated,
+        description: `Account payment from ${payAccount.customerName}`,
+        recordedBy: userName,
+      });
+
+      setPaymentReceipt({
+        paymentId: result.paymentId,
+        customerName: payAccount.customerName,
+        amountPaid: amount,
+        paymentMethod: payMethod,
+        reference,
+        settled: allocationList.map(a => {
+          const sale = payAccount.sales.find(s => s.id === a.saleId);
+          return {
+            ...a,
+            saleDate: sale?.sale_date ?? '',
+            remaining: round2((Number(sale?.remaining_credit_amount) || 0) - a.amount),
+          };
+        }),
+        unallocated,
+        recordedBy: userName,
+        createdAt: result.createdAt ?? new Date().toISOString(),
+      });
+      setPayAccount(null);
       // Refresh the data after a successful payment
       fetchCreditSales();
       if (tab === 'history' && selectedCustomer) {
@@ -242,9 +308,46 @@ const CreditPaymentsScreen: React.FC = () => {
       }
     } catch (error) {
       console.error('Error making payment:', error);
-      messageApi.error('Failed to record payment.');
+      messageApi.error(getErrorMessage(error, 'Failed to record payment.'));
     } finally {
-      setLoading(false);
+      setPaying(false);
+    }
+  };
+
+  const agedDebtors = ageDebtors(outstandingCredits);
+  const agedTotals = agingTotals(agedDebtors);
+
+  // Month-end run: one PDF holding a statement for every customer who still owes
+  const generateAllStatements = async () => {
+    if (agedDebtors.length === 0) {
+      messageApi.info('No customers have an outstanding balance.');
+      return;
+    }
+    const from = statementMonth.startOf('month').format('YYYY-MM-DD');
+    const to = statementMonth.endOf('month').format('YYYY-MM-DD');
+    const statements: CustomerStatement[] = [];
+    const failed: string[] = [];
+    setGeneratingStatements(true);
+    try {
+      for (const debtor of agedDebtors) {
+        try {
+          const statement = await creditApi.statement(debtor.customerId, { from, to });
+          statements.push({ ...statement, openingBalance: Number(statement.openingBalance) || 0 });
+        } catch (error) {
+          console.error(`Failed to load statement for ${debtor.customerName}:`, error);
+          failed.push(debtor.customerName);
+        }
+      }
+      if (statements.length > 0) {
+        statementsToPdf(statements, company).save(`statements-${statementMonth.format('YYYY-MM')}.pdf`);
+      }
+      if (failed.length > 0) {
+        messageApi.warning(`Statements could not be generated for: ${failed.join(', ')}.`);
+      } else {
+        messageApi.success(`${statements.length} statement(s) generated.`);
+      }
+    } finally {
+      setGeneratingStatements(false);
     }
   };
 
@@ -268,7 +371,7 @@ const CreditPaymentsScreen: React.FC = () => {
   return (
     <>
       {contextHolder}
-      <div style={{ padding: 12, maxWidth: 480, margin: '0 auto' }}>
+      <div style={{ padding: 12, maxWidth: tab === 'aging' || tab === 'laybys' ? 960 : 480, margin: '0 auto' }}>
         <Title level={4} style={{ textAlign: 'center', marginBottom: 8 }}>
           Credit Payments
         </Title>
@@ -276,25 +379,105 @@ const CreditPaymentsScreen: React.FC = () => {
         <Tabs
           activeKey={tab}
           onChange={(key) => {
-            setTab(key as 'payments' | 'history');
+            setTab(key as CreditTab);
             setSelectedCustomer(null);
             setSearchText('');
           }}
           centered
           items={[
             { key: 'payments', label: 'Payments' },
+            { key: 'aging', label: 'Aged Debtors' },
+            { key: 'laybys', label: 'Lay-bys' },
             { key: 'history', label: 'History' },
           ]}
           style={{ marginBottom: 18 }}
         />
 
         <div style={{ minHeight: 380 }}>
-          {tab === 'payments' ? (
+          {tab === 'laybys' ? (
+            <LaybyAccounts company={company} />
+          ) : tab === 'aging' ? (
+            <>
+              <Row justify='end' gutter={8} style={{ marginBottom: 12 }}>
+                <Col>
+                  <DatePicker
+                    picker='month'
+                    allowClear={false}
+                    value={statementMonth}
+                    onChange={(d) => setStatementMonth(d || dayjs())}
+                  />
+                </Col>
+                <Col>
+                  <Button
+                    icon={<FilePdfOutlined />}
+                    onClick={generateAllStatements}
+                    loading={generatingStatements}
+                    disabled={!isAuthenticated || loading}
+                  >
+                    Statements for all debtors
+                  </Button>
+                </Col>
+              </Row>
+              <Table<AgedDebtor>
+                rowKey='customerId'
+                dataSource={agedDebtors}
+                loading={loading}
+                size='small'
+                pagination={{ pageSize: 20 }}
+                scroll={{ x: 720 }}
+                columns={[
+                  { title: 'Customer', dataIndex: 'customerName' },
+                  ...AGING_BUCKETS.map(({ key, label }) => ({
+                    title: label,
+                    key,
+                    align: 'right' as const,
+                    render: (_: unknown, d: AgedDebtor) =>
+                      d.buckets[key] > 0 ? (
+                        <span style={{ color: key === 'current' ? 'inherit' : key === 'd30' ? '#d48806' : 'red' }}>
+                          R{d.buckets[key].toFixed(2)}
+                        </span>
+                      ) : (
+                        '-'
+                      ),
+                  })),
+                  {
+                    title: 'Total',
+                    dataIndex: 'total',
+                    align: 'right',
+                    render: (v: number) => <b>R{v.toFixed(2)}</b>,
+                  },
+                  {
+                    title: '',
+                    key: 'statement',
+                    render: (_, d) => (
+                      <Button type='link' onClick={() => setStatementCustomer({ id: d.customerId, name: d.customerName })}>
+                        Statement
+                      </Button>
+                    ),
+                  },
+                ]}
+                summary={() => (
+                  <Table.Summary.Row>
+                    <Table.Summary.Cell index={0}><b>Total</b></Table.Summary.Cell>
+                    {AGING_BUCKETS.map(({ key }, i) => (
+                      <Table.Summary.Cell index={i + 1} key={key} align='right'>
+                        <b>R{agedTotals.buckets[key].toFixed(2)}</b>
+                      </Table.Summary.Cell>
+                    ))}
+                    <Table.Summary.Cell index={AGING_BUCKETS.length + 1} align='right'>
+                      <b>R{agedTotals.total.toFixed(2)}</b>
+                    </Table.Summary.Cell>
+                    <Table.Summary.Cell index={AGING_BUCKETS.length + 2} />
+                  </Table.Summary.Row>
+                )}
+              />
+            </>
+          ) : tab === 'payments' ? (
             loading ? (
               <div style={{ textAlign: 'center', marginTop: 40 }}>
                 <Spin />
               </div>
-            ) : outstandingCredits.length === 0 ? (
+            ) : customerAccounts.length === 0 ? (
               <Text
                 type='secondary'
                 style={{ display: 'block', marginTop: 40, textAlign: 'center' }}
@@ -302,24 +485,29 @@ const CreditPaymentsScreen: React.FC = () => {
                 No outstanding credit sales found.
               </Text>
             ) : (
-              outstandingCredits.map((credit) => {
-                const [status, color] = dueStatus(credit);
+              customerAccounts.map((account) => {
+                // The account is as late as its oldest unpaid sale
+                const oldest = [...account.sales].sort(byOldestDebt)[0];
+                const [status, color] = dueStatus(oldest);
                 return (
                   <Card
-                    key={credit.id}
+                    key={account.customerId}
                     style={cardStyle}
-                    onClick={() => openModal(credit)}
+                    onClick={() => openPayment(account)}
                     styles={{ body: { padding: 16 } }}
                   >
                     <Row align='middle' wrap={false}>
                       <Col flex='auto'>
                         <Text strong style={{ color: '#111' }}>
-                          {credit.customer_name}
+                          {account.customerName}
                         </Text>
                         <div>
-                          Amount Due: <b>R{credit.remaining_credit_amount.toFixed(2)}</b>
+                          Amount Due: <b>R{accountDue(account).toFixed(2)}</b>
+                          {account.sales.length > 1 && (
+                            <Text type='secondary'> over {account.sales.length} sales</Text>
+                          )}
                         </div>
-                        <div>Due: {credit.due_date ? credit.due_date.split('T')[0] : 'N/A'}</div>
+                        <div>Oldest due: {oldest.due_date ? oldest.due_date.split('T')[0] : 'N/A'}</div>
                       </Col>
                       <Col>
                         <Tag color={color}>{status}</Tag>
@@ -360,6 +548,17 @@ const CreditPaymentsScreen: React.FC = () => {
                 </Row>
               </Card>
 
+              {selectedCustomer && (
+                <Button
+                  icon={<FilePdfOutlined />}
+                  block
+                  onClick={() => setStatementCustomer({ id: selectedCustomer.id, name: selectedCustomer.name })}
+                  style={{ marginBottom: 16 }}
+                >
+                  Statement of account
+                </Button>
+              )}
+
               {/* Credit History */}
               {loading && selectedCustomer ? (
                 <div style={{ textAlign: 'center', marginTop: 40 }}>
@@ -373,7 +572,13 @@ const CreditPaymentsScreen: React.FC = () => {
                     <Card
                       key={`${c.id}-${c.sale_date}`}
                       style={cardStyle}
-                      onClick={() => openModal(c)}
+                      onClick={() =>
+                        openPayment({
+                          customerId: selectedCustomer.id,
+                          customerName: selectedCustomer.name,
+                          sales: historyCredits,
+                        })
+                      }
                       styles={{ body: { padding: 16 } }}
                     >
                       <Row align='middle' wrap={false}>
@@ -421,42 +626,128 @@ const CreditPaymentsScreen: React.FC = () => {
 
         {/* Payment Modal */}
         <Modal
-          open={modalVisible}
+          open={!!payAccount}
           centered
           footer={null}
-          onCancel={() => setModalVisible(false)}
+          onCancel={() => setPayAccount(null)}
           destroyOnHidden
-          width={340}
+          width={440}
           styles={{ body: { padding: 24 } }}
         >
-          {selectedCredit && (
+          {payAccount && (
             <>
               <Title level={5} style={{ marginBottom: 4 }}>
-                Pay {selectedCredit.customer_name}
+                Pay {payAccount.customerName}
               </Title>
               <Text>
-                Remaining:{' '}
-                <b>R{selectedCredit.remaining_credit_amount.toFixed(2)}</b>
+                Outstanding: <b>R{accountDue(payAccount).toFixed(2)}</b>
+                {payAccount.sales.length > 0 && ` over ${payAccount.sales.length} sale(s)`}
               </Text>
-              <div style={{ margin: '12px 0' }}>
-              </div>
+              <Row gutter={8} style={{ marginTop: 12 }}>
+                <Col span={10}>
+                  <Select<AccountPaymentMethod>
+                    value={payMethod}
+                    onChange={setPayMethod}
+                    options={[
+                      { label: 'Cash', value: 'Cash' },
+                      { label: 'Bank / EFT', value: 'Bank' },
+                    ]}
+                    style={{ width: '100%' }}
+                    disabled={paying}
+                  />
+                </Col>
+                <Col span={14}>
+                  <InputNumber
+                    min={0}
+                    step={0.01}
+                    precision={2}
+                    prefix='R'
+                    placeholder='Amount received'
+                    value={payAmount}
+                    onChange={(value) => setPayAmount(value)}
+                    style={{ width: '100%' }}
+                    disabled={paying}
+                  />
+                </Col>
+              </Row>
               <Input
-                type='number'
-                placeholder={`Enter amount (max R${selectedCredit.remaining_credit_amount.toFixed(2)})`}
-                value={paymentAmount}
-                onChange={(e) => setPaymentAmount(e.target.value)}
-                style={{ margin: '12px 0 6px 0' }}
-                min={0}
-                max={selectedCredit.remaining_credit_amount}
-                disabled={!isAuthenticated || loading}
+                placeholder={payMethod === 'Bank' ? 'Bank reference' : 'Reference (optional)'}
+                value={payReference}
+                onChange={(e) => setPayReference(e.target.value)}
+                style={{ marginTop: 8 }}
+                disabled={paying}
               />
-              <Button type='primary' block onClick={handlePayment} disabled={!isAuthenticated || loading}>
+
+              <Row justify='space-between' align='middle' style={{ margin: '14px 0 6px' }}>
+                <Text strong>Allocation</Text>
+                <Space size={6}>
+                  <Text type='secondary'>Manual</Text>
+                  <Switch size='small' checked={manualAllocation} onChange={toggleManualAllocation} disabled={paying} />
+                </Space>
+              </Row>
+              {payAccount.sales.length === 0 ? (
+                <Text type='secondary'>No open sales; the full amount is held as account credit.</Text>
+              ) : (
+                <div style={{ maxHeight: 220, overflowY: 'auto' }}>
+                  {payAccount.sales.map((sale) => (
+                    <Row key={sale.id} align='middle' gutter={8} wrap={false} style={{ marginBottom: 6 }}>
+                      <Col flex='auto'>
+                        <div>Sale #{sale.id} · {sale.sale_date.split('T')[0]}</div>
+                        <Text type='secondary' style={{ fontSize: 12 }}>
+                          Owing R{Number(sale.remaining_credit_amount).toFixed(2)} · due{' '}
+                          {sale.due_date ? sale.due_date.split('T')[0] : 'N/A'}
+                        </Text>
+                      </Col>
+                      <Col flex='130px'>
+                        <InputNumber
+                          min={0}
+                          max={Number(sale.remaining_credit_amount)}
+                          precision={2}
+                          prefix='R'
+                          value={allocations[sale.id] || 0}
+                          onChange={(value) => setManualAllocations(prev => ({ ...prev, [sale.id]: value ?? 0 }))}
+                          style={{ width: '100%' }}
+                          disabled={!manualAllocation || paying}
+                        />
+                      </Col>
+                    </Row>
+                  ))}
+                </div>
+              )}
+
+              <div style={{ margin: '8px 0 12px' }}>
+                <Text>Allocated: <b>R{allocatedTotal(allocations).toFixed(2)}</b></Text>
+                {unallocated > 0 && (
+                  <div>
+                    <Text type='warning'>R{unallocated.toFixed(2)} will be held as credit on the account.</Text>
+                  </div>
+                )}
+                {allocationProblem && (
+                  <div>
+                    <Text type='danger'>{allocationProblem}</Text>
+                  </div>
+                )}
+              </div>
+              <Button
+                type='primary'
+                block
+                onClick={handlePayment}
+                loading={paying}
+                disabled={!isAuthenticated || !payAmount || !!allocationProblem}
+              >
                 Confirm Payment
               </Button>
             </>
           )}
         </Modal>
 
+        <CreditPaymentReceiptModal receipt={paymentReceipt} onClose={() => setPaymentReceipt(null)} />
+        <CustomerStatementModal
+          customer={statementCustomer}
+          company={company}
+          onClose={() => setStatementCustomer(null)}
+        />
+
         {/* Customer Selector Modal */}
         <Modal
           open={customerModal}
@@ -502,6 +793,11 @@ const CreditPaymentsScreen: React.FC = () => {
                       (Due: R{item.balance_due.toFixed(2)})
                     </Text>
                   )}
+                  {(item.unallocated_credit ?? 0) > 0 && (
+                    <Text type="success" style={{ marginLeft: 8 }}>
+                      (Credit: R{Number(item.unallocated_credit).toFixed(2)})
+                    </Text>
+                  )}
                 </Card>
               ))
             ) : (
@@ -0,0 +1,587 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Button,
+  Card,
+  Col,
+  Form,
+  Input,
+  InputNumber,
+  Modal,
+  Popconfirm,
+  Row,
+  Select,
+  Space,
+  Switch,
+  Table,
+  Tabs,
+  Tag,
+  Typography,
+  message,
+} from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined, SendOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { useAuth } from '../../AuthPage';
+import { dunningApi } from '@/api/dunning';
+import { creditApi } from '@/api/sales';
+import { customersApi } from '@/api/customers';
+import { profileApi } from '@/api/profile';
+import { usePermissions } from '@/hooks/usePermissions';
+import { DUNNING_DELIVERY } from '@/lib/env';
+import { getErrorMessage } from '@/utils/apiClient';
+import { companyFromProfile } from '@/utils/receipt';
+import {
+  DEFAULT_DUNNING_SETTINGS,
+  MERGE_FIELDS,
+  creditSaleDocuments,
+  dueReminders,
+  invoiceDocuments,
+  reminderToEml,
+  reminderToPdf,
+  renderReminder,
+  stepLabel,
+  templateFor,
+} from '@/utils/dunning';
+import type {
+  CustomerBackend,
+  DunningLogEntry,
+  DunningReminder,
+  DunningSettings,
+  DunningStep,
+  DunningTemplate,
+  InvoiceSummary,
+  SaleBackend,
+} from '@/types/pos';
+import type { ReceiptCompany } from '@/types/receipt';
+import { money } from '@/utils/money';
+
+const { Title, Text, Paragraph } = Typography;
+
+const nextId = (items: { id: number }[]) => items.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Payment reminders for overdue credit sales and invoices: today's queue, send log, holds and schedule. */
+const DunningScreen: React.FC = () => {
+  const [messageApi, contextHolder] = message.useMessage();
+  const { isAuthenticated, userName } = useAuth();
+  const { can } = usePermissions();
+  const [templateForm] = Form.useForm<DunningTemplate>();
+
+  const [settings, setSettings] = useState<DunningSettings>(DEFAULT_DUNNING_SETTINGS);
+  const [draft, setDraft] = useState<DunningSettings>(DEFAULT_DUNNING_SETTINGS);
+  const [sales, setSales] = useState<SaleBackend[]>([]);
+  const [invoices, setInvoices] = useState<InvoiceSummary[]>([]);
+  const [customers, setCustomers] = useState<CustomerBackend[]>([]);
+  const [log, setLog] = useState<DunningLogEntry[]>([]);
+  const [company, setCompany] = useState<ReceiptCompany>(() => companyFromProfile(null));
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [selectedKeys, setSelectedKeys] = useState<React.Key[]>([]);
+  const [preview, setPreview] = useState<DunningReminder | null>(null);
+  const [editingTemplate, setEditingTemplate] = useState<DunningTemplate | null>(null);
+  const [logCustomer, setLogCustomer] = useState<string | undefined>(undefined);
+
+  const canHold = can('accounts.hold');
+
+  const loadAll = useCallback(async () => {
+    setLoading(true);
+    try {
+      // Invoices live in a separate module; reminders still work for POS credit if they fail to load
+      const [salesData, customerData, logData, invoiceData] = await Promise.all([
+        creditApi.outstanding(),
+        customersApi.listRaw(),
+        dunningApi.log(),
+        dunningApi.invoices().catch(err => {
+          console.warn('Failed to load invoices for reminders:', err);
+          return [] as InvoiceSummary[];
+        }),
+      ]);
+      setSales(salesData || []);
+      setCustomers(customerData || []);
+      setLog(logData || []);
+      setInvoices(invoiceData || []);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to load reminders.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [messageApi]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    loadAll();
+    dunningApi
+      .settings()
+      .then(data => {
+        if (!data) return;
+        const loaded = { ...DEFAULT_DUNNING_SETTINGS, ...data };
+        setSettings(loaded);
+        setDraft(loaded);
+      })
+      .catch(err => console.warn('Failed to load reminder schedule, using defaults:', err));
+    profileApi
+      .get()
+      .then(profile => setCompany(companyFromProfile(profile)))
+      .catch(err => console.warn('Failed to load company details for reminders:', err));
+  }, [isAuthenticated, loadAll]);
+
+  const reminders = useMemo(
+    () => dueReminders([...creditSaleDocuments(sales, customers), ...invoiceDocuments(invoices)], settings, log),
+    [sales, customers, invoices, settings, log]
+  );
+  const heldCustomers = customers.filter(c => c.on_hold);
+
+  const deliver = async (reminder: DunningReminder) => {
+    const { subject, body } = renderReminder(reminder, templateFor(settings, reminder.step), company.name);
+    if (DUNNING_DELIVERY === 'local') {
+      downloadBlob(reminderToEml(reminder.customerEmail, subject, body), `${reminder.documentRef.replace(/\W+/g, '-')}.eml`);
+      return subject;
+    }
+    if (!reminder.customerEmail) throw new Error('No email address on file.');
+    if (reminder.documentType === 'invoice') {
+      await dunningApi.emailInvoiceReminder(reminder.documentId, reminder.customerEmail, subject, body);
+    } else {
+      const pdf = reminderToPdf(subject, body, company).output('blob');
+      await dunningApi.emailSaleReminder(reminder.documentId, reminder.customerEmail, subject, body, pdf);
+    }
+    return subject;
+  };
+
+  const handleSend = async () => {
+    const batch = reminders.filter(r => selectedKeys.includes(r.key));
+    if (batch.length === 0) return;
+    setSending(true);
+    let sent = 0;
+    const failed: string[] = [];
+    const held = new Set<string>();
+    for (const reminder of batch) {
+      let subject = templateFor(settings, reminder.step).subject;
+      let error: string | null = null;
+      try {
+        subject = await deliver(reminder);
+        sent += 1;
+      } catch (err) {
+        error = getErrorMessage(err, 'Delivery failed.');
+        failed.push(`${reminder.customerName} (${error})`);
+      }
+      try {
+        await dunningApi.recordLog({
+          customerId: reminder.customerId,
+          customerName: reminder.customerName,
+          documentType: reminder.documentType,
+          documentId: reminder.documentId,
+          documentRef: reminder.documentRef,
+          stepId: reminder.step.id,
+          subject,
+          channel: DUNNING_DELIVERY,
+          status: error ? 'failed' : 'sent',
+          error,
+          sentBy: userName,
+        });
+        // Escalation: the hold only applies once the final notice actually went out
+        if (!error && reminder.step.holdAccount && !held.has(reminder.customerId)) {
+          await dunningApi.setHold(reminder.customerId, true, `${reminder.documentRef} ${reminder.daysOverdue} days overdue`);
+          held.add(reminder.customerId);
+        }
+      } catch (err) {
+        console.error('Failed to log reminder:', err);
+      }
+    }
+    setSending(false);
+    setSelectedKeys([]);
+    if (failed.length > 0) messageApi.warning(`${sent} sent; failed: ${failed.join(', ')}`);
+    else messageApi.success(`${sent} reminder(s) ${DUNNING_DELIVERY === 'local' ? 'saved as .eml files' : 'sent'}.`);
+    if (held.size > 0) messageApi.info(`${held.size} account(s) placed on hold.`);
+    loadAll();
+  };
+
+  const releaseHold = async (customer: CustomerBackend) => {
+    try {
+      await dunningApi.setHold(String(customer.id), false, null);
+      setCustomers(prev => prev.map(c => (c.id === customer.id ? { ...c, on_hold: false, hold_reason: null } : c)));
+      messageApi.success(`${customer.name} can buy on account again.`);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to release the hold.'));
+    }
+  };
+
+  // --- Schedule editing (applies to the draft until saved) ---
+  const updateStep = (id: number, patch: Partial<DunningStep>) =>
+    setDraft(prev => ({ ...prev, steps: prev.steps.map(s => (s.id === id ? { ...s, ...patch } : s)) }));
+
+  const addStep = () =>
+    setDraft(prev => ({
+      ...prev,
+      steps: [
+        ...prev.steps,
+        {
+          id: nextId(prev.steps),
+          offsetDays: Math.max(0, ...prev.steps.map(s => s.offsetDays)) + 7,
+          templateId: prev.templates[0]?.id ?? 0,
+          holdAccount: false,
+        },
+      ],
+    }));
+
+  const openTemplate = (template: DunningTemplate | null) => {
+    const value = template ?? { id: nextId(draft.templates), name: '', subject: '', body: '' };
+    setEditingTemplate(value);
+    templateForm.setFieldsValue(value);
+  };
+
+  const saveTemplate = async () => {
+    if (!editingTemplate) return;
+    const values = await templateForm.validateFields();
+    const template = { ...editingTemplate, ...values };
+    setDraft(prev => ({
+      ...prev,
+      templates: prev.templates.some(t => t.id === template.id)
+        ? prev.templates.map(t => (t.id === template.id ? template : t))
+        : [...prev.templates, template],
+    }));
+    setEditingTemplate(null);
+  };
+
+  const removeTemplate = (id: number) => {
+    if (draft.steps.some(s => s.templateId === id)) {
+      messageApi.warning('This template is used by the schedule. Point those steps at another template first.');
+      return;
+    }
+    setDraft(prev => ({ ...prev, templates: prev.templates.filter(t => t.id !== id) }));
+  };
+
+  const handleSaveSettings = async () => {
+    if (draft.templates.length === 0) {
+      messageApi.error('Add at least one template.');
+      return;
+    }
+    const offsets = draft.steps.map(s => s.offsetDays);
+    if (new Set(offsets).size !== offsets.length) {
+      messageApi.error('Two steps cannot share the same day.');
+      return;
+    }
+    setSavingSettings(true);
+    try {
+      const saved = await dunningApi.saveSettings({
+        ...draft,
+        steps: [...draft.steps].sort((a, b) => a.offsetDays - b.offsetDays),
+      });
+      const next = { ...DEFAULT_DUNNING_SETTINGS, ...(saved || draft) };
+      setSettings(next);
+      setDraft(next);
+      messageApi.success('Reminder schedule saved.');
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to save the reminder schedule.'));
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const previewText = preview ? renderReminder(preview, templateFor(settings, preview.step), company.name) : null;
+  const filteredLog = log.filter(l => !logCustomer || l.customerId === logCustomer);
+  const logCustomers = Array.from(new Map(log.map(l => [l.customerId, l.customerName])).entries());
+
+  return (
+    <>
+      {contextHolder}
+      <div style={{ padding: 18 }}>
+        <Row justify='space-between' align='middle' style={{ marginBottom: 12 }}>
+          <Col>
+            <Title level={3} style={{ margin: 0 }}>Payment Reminders</Title>
+            <Text type='secondary'>
+              {settings.enabled ? `${settings.steps.length} step schedule` : 'Reminders are switched off'} · delivery:{' '}
+              {DUNNING_DELIVERY === 'local' ? 'local .eml files' : 'email'}
+            </Text>
+          </Col>
+        </Row>
+
+        <Tabs
+          items={[
+            {
+              key: 'queue',
+              label: `Due today (${reminders.length})`,
+              children: (
+                <Card
+                  extra={
+                    <Button
+                      type='primary'
+                      icon={<SendOutlined />}
+                      onClick={handleSend}
+                      loading={sending}
+                      disabled={selectedKeys.length === 0}
+                    >
+                      Send selected ({selectedKeys.length})
+                    </Button>
+                  }
+                >
+                  <Table<DunningReminder>
+                    rowKey='key'
+                    dataSource={reminders}
+                    loading={loading}
+                    size='small'
+                    pagination={{ pageSize: 20 }}
+                    rowSelection={{ selectedRowKeys: selectedKeys, onChange: setSelectedKeys }}
+                    columns={[
+                      {
+                        title: 'Customer',
+                        render: (_, r) => (
+                          <>
+                            {r.customerName}
+                            {!r.customerEmail && DUNNING_DELIVERY === 'email' && <Tag color='orange'>No email</Tag>}
+                          </>
+                        ),
+                      },
+                      { title: 'Document', dataIndex: 'documentRef' },
+                      { title: 'Amount due', dataIndex: 'amountDue', render: (v: number) => money(v) },
+                      { title: 'Due', dataIndex: 'dueDate' },
+                      {
+                        title: 'Step',
+                        render: (_, r) => (
+                          <>
+                            <Tag color={r.daysOverdue > 0 ? 'red' : 'blue'}>{stepLabel(r.step.offsetDays)}</Tag>
+                            {r.step.holdAccount && <Tag color='volcano'>Holds account</Tag>}
+                          </>
+                        ),
+                      },
+                      {
+                        title: '',
+                        render: (_, r) => (
+                          <Button type='link' onClick={() => setPreview(r)}>
+                            Preview
+                          </Button>
+                        ),
+                      },
+                    ]}
+                  />
+                </Card>
+              ),
+            },
+            {
+              key: 'log',
+              label: 'Send log',
+              children: (
+                <Card
+                  extra={
+                    <Select
+                      allowClear
+                      showSearch
+                      optionFilterProp='label'
+                      placeholder='All customers'
+                      value={logCustomer}
+                      onChange={setLogCustomer}
+                      options={logCustomers.map(([id, name]) => ({ label: name, value: id }))}
+                      style={{ minWidth: 200 }}
+                    />
+                  }
+                >
+                  <Table<DunningLogEntry>
+                    rowKey='id'
+                    dataSource={filteredLog}
+                    loading={loading}
+                    size='small'
+                    pagination={{ pageSize: 20 }}
+                    columns={[
+                      { title: 'Sent', dataIndex: 'sentAt', render: (d: string) => dayjs(d).format('YYYY-MM-DD HH:mm') },
+                      { title: 'Customer', dataIndex: 'customerName' },
+                      { title: 'Document', dataIndex: 'documentRef' },
+                      { title: 'Subject', dataIndex: 'subject', ellipsis: true },
+                      { title: 'Channel', dataIndex: 'channel' },
+                      {
+                        title: 'Status',
+                        render: (_, l) =>
+                          l.status === 'sent' ? <Tag color='green'>Sent</Tag> : <Tag color='red' title={l.error ?? ''}>Failed</Tag>,
+                      },
+                      { title: 'By', dataIndex: 'sentBy' },
+                    ]}
+                  />
+                </Card>
+              ),
+            },
+            {
+              key: 'holds',
+              label: `Accounts on hold (${heldCustomers.length})`,
+              children: (
+                <Card>
+                  <Table<CustomerBackend>
+                    rowKey='id'
+                    dataSource={heldCustomers}
+                    loading={loading}
+                    size='small'
+                    pagination={false}
+                    columns={[
+                      { title: 'Customer', dataIndex: 'name' },
+                      { title: 'Balance', dataIndex: 'balance_due', render: (v: number) => money(Number(v) || 0) },
+                      { title: 'Reason', dataIndex: 'hold_reason' },
+                      {
+                        title: '',
+                        render: (_, c) =>
+                          canHold && (
+                            <Popconfirm title={`Allow ${c.name} to buy on account again?`} onConfirm={() => releaseHold(c)}>
+                              <Button size='small'>Release hold</Button>
+                            </Popconfirm>
+                          ),
+                      },
+                    ]}
+                  />
+                </Card>
+              ),
+            },
+            {
+              key: 'schedule',
+              label: 'Schedule & templates',
+              children: (
+                <>
+                  <Card
+                    title='Schedule'
+                    style={{ marginBottom: 12 }}
+                    extra={
+                      <Space>
+                        <Text>Enabled</Text>
+                        <Switch checked={draft.enabled} onChange={enabled => setDraft(prev => ({ ...prev, enabled }))} />
+                        <Button icon={<PlusOutlined />} onClick={addStep}>Add step</Button>
+                      </Space>
+                    }
+                  >
+                    <Table<DunningStep>
+                      rowKey='id'
+                      dataSource={[...draft.steps].sort((a, b) => a.offsetDays - b.offsetDays)}
+                      size='small'
+                      pagination={false}
+                      columns={[
+                        {
+                          title: 'Days from due date',
+                          render: (_, s) => (
+                            <Space>
+                              <InputNumber
+                                value={s.offsetDays}
+                                precision={0}
+                                onChange={v => updateStep(s.id, { offsetDays: v ?? 0 })}
+                                style={{ width: 90 }}
+                              />
+                              <Text type='secondary'>{stepLabel(s.offsetDays)}</Text>
+                            </Space>
+                          ),
+                        },
+                        {
+                          title: 'Template',
+                          render: (_, s) => (
+                            <Select
+                              value={s.templateId}
+                              onChange={templateId => updateStep(s.id, { templateId })}
+                              options={draft.templates.map(t => ({ label: t.name, value: t.id }))}
+                              style={{ minWidth: 180 }}
+                            />
+                          ),
+                        },
+                        {
+                          title: 'Put account on hold',
+                          render: (_, s) => (
+                            <Switch checked={s.holdAccount} onChange={holdAccount => updateStep(s.id, { holdAccount })} />
+                          ),
+                        },
+                        {
+                          title: '',
+                          render: (_, s) => (
+                            <Button
+                              size='small'
+                              danger
+                              icon={<DeleteOutlined />}
+                              onClick={() => setDraft(prev => ({ ...prev, steps: prev.steps.filter(x => x.id !== s.id) }))}
+                            />
+                          ),
+                        },
+                      ]}
+                    />
+                  </Card>
+
+                  <Card
+                    title='Templates'
+                    style={{ marginBottom: 12 }}
+                    extra={<Button icon={<PlusOutlined />} onClick={() => openTemplate(null)}>New template</Button>}
+                  >
+                    <Paragraph type='secondary'>
+                      Merge fields: {MERGE_FIELDS.map(f => `{{${f}}}`).join(', ')}
+                    </Paragraph>
+                    <Table<DunningTemplate>
+                      rowKey='id'
+                      dataSource={draft.templates}
+                      size='small'
+                      pagination={false}
+                      columns={[
+                        { title: 'Name', dataIndex: 'name' },
+                        { title: 'Subject', dataIndex: 'subject', ellipsis: true },
+                        {
+                          title: '',
+                          render: (_, t) => (
+                            <>
+                              <Button size='small' icon={<EditOutlined />} onClick={() => openTemplate(t)} style={{ marginRight: 6 }} />
+                              <Button size='small' danger icon={<DeleteOutlined />} onClick={() => removeTemplate(t.id)} />
+                            </>
+                          ),
+                        },
+                      ]}
+                    />
+                  </Card>
+
+                  <Row justify='end'>
+                    <Space>
+                      <Button onClick={() => setDraft(settings)} disabled={savingSettings}>Discard changes</Button>
+                      <Button type='primary' onClick={handleSaveSettings} loading={savingSettings}>
+                        Save schedule
+                      </Button>
+                    </Space>
+                  </Row>
+                </>
+              ),
+            },
+          ]}
+        />
+
+        <Modal
+          open={!!preview}
+          title={previewText?.subject}
+          onCancel={() => setPreview(null)}
+          footer={<Button onClick={() => setPreview(null)}>Close</Button>}
+        >
+          {preview && (
+            <>
+              <Text type='secondary'>To: {preview.customerEmail || 'no email on file'}</Text>
+              <Paragraph style={{ whiteSpace: 'pre-wrap', marginTop: 12 }}>{previewText?.body}</Paragraph>
+            </>
+          )}
+        </Modal>
+
+        <Modal
+          open={!!editingTemplate}
+          title={editingTemplate?.name ? `Edit ${editingTemplate.name}` : 'New template'}
+          onCancel={() => setEditingTemplate(null)}
+          onOk={saveTemplate}
+          okText='Apply'
+          forceRender
+        >
+          <Form form={templateForm} layout='vertical'>
+            <Form.Item name='name' label='Name' rules={[{ required: true, message: 'Name the template.' }]}>
+              <Input />
+            </Form.Item>
+            <Form.Item name='subject' label='Subject' rules={[{ required: true, message: 'Enter a subject.' }]}>
+              <Input />
+            </Form.Item>
+            <Form.Item name='body' label='Message' rules={[{ required: true, message: 'Enter the message.' }]}>
+              <Input.TextArea rows={8} />
+            </Form.Item>
+          </Form>
+        </Modal>
+      </div>
+    </>
+  );
+};
+
+export default DunningScreen;
@@ -0,0 +1,242 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Button,
+  Card,
+  Col,
+  Form,
+  InputNumber,
+  Input,
+  Radio,
+  Row,
+  Select,
+  Space,
+  Spin,
+  Switch,
+  Typography,
+  message,
+} from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { useAuth } from '../../AuthPage';
+import { loyaltyApi } from '@/api/loyalty';
+import { productsApi } from '@/api/products';
+import { getErrorMessage } from '@/utils/apiClient';
+import { DEFAULT_LOYALTY_SETTINGS, pointsEarned, pointsValue } from '@/utils/loyalty';
+import type { LoyaltySettings } from '@/types/pos';
+
+const { Title, Text } = Typography;
+
+/** Earn and redemption rules for the loyalty programme, and the tiers customers move through. */
+const LoyaltyScreen: React.FC = () => {
+  const [messageApi, contextHolder] = message.useMessage();
+  const { isAuthenticated } = useAuth();
+  const [form] = Form.useForm<LoyaltySettings>();
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const watched = Form.useWatch([], form) as LoyaltySettings | undefined;
+  const preview = { ...DEFAULT_LOYALTY_SETTINGS, ...watched, enabled: true };
+
+  const loadSettings = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await loyaltyApi.settings();
+      form.setFieldsValue({ ...DEFAULT_LOYALTY_SETTINGS, ...data });
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to load loyalty settings.'));
+      form.setFieldsValue(DEFAULT_LOYALTY_SETTINGS);
+    } finally {
+      setLoading(false);
+    }
+  }, [form, messageApi]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    loadSettings();
+    productsApi
+      .list()
+      .then(products =>
+        setCategories([...new Set(products.map(p => p.category).filter((c): c is string => !!c))].sort())
+      )
+      .catch(err => console.warn('Failed to load product categories for loyalty:', err));
+  }, [isAuthenticated, loadSettings]);
+
+  const handleSave = async () => {
+    const values = await form.validateFields();
+    const tierNames = values.tiers.map(t => t.name.trim().toLowerCase());
+    if (new Set(tierNames).size !== tierNames.length) {
+      messageApi.error('Each tier needs its own name.');
+      return;
+    }
+    setSaving(true);
+    try {
+      const saved = await loyaltyApi.saveSettings(values);
+      form.setFieldsValue({ ...DEFAULT_LOYALTY_SETTINGS, ...(saved || values) });
+      messageApi.success('Loyalty settings saved.');
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to save loyalty settings.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const examplePoints = pointsEarned([{ category: null, total: 100 }], preview, null);
+
+  return (
+    <>
+      {contextHolder}
+      <div style={{ padding: 18 }}>
+        <Title level={3}>Loyalty Programme</Title>
+        <Spin spinning={loading}>
+          <Form form={form} layout='vertical' initialValues={DEFAULT_LOYALTY_SETTINGS}>
+            <Card
+              title='Earning and redeeming'
+              extra={
+                <Form.Item name='enabled' valuePropName='checked' noStyle>
+                  <Switch checkedChildren='On' unCheckedChildren='Off' />
+                </Form.Item>
+              }
+              style={{ marginBottom: 16 }}
+            >
+              <Row gutter={16}>
+                <Col xs={24} md={8}>
+                  <Form.Item
+                    name='pointsPerRand'
+                    label='Points per R1 spent'
+                    rules={[{ required: true, type: 'number', min: 0 }]}
+                  >
+                    <InputNumber min={0} step={0.1} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col xs={24} md={8}>
+                  <Form.Item
+                    name='pointValue'
+                    label='Value of one point when redeemed'
+                    rules={[{ required: true, type: 'number', min: 0 }]}
+                  >
+                    <InputNumber min={0} step={0.01} precision={4} prefix='R' style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col xs={24} md={8}>
+                  <Form.Item name='redeemAs' label='Redeem points as'>
+                    <Radio.Group>
+                      <Radio value='tender'>Payment</Radio>
+                      <Radio value='discount'>Discount</Radio>
+                    </Radio.Group>
+                  </Form.Item>
+                </Col>
+                <Col xs={24} md={8}>
+                  <Form.Item
+                    name='minRedeemPoints'
+                    label='Minimum points per redemption'
+                    rules={[{ required: true, type: 'number', min: 0 }]}
+                  >
+                    <InputNumber min={0} precision={0} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col xs={24} md={8}>
+                  <Form.Item
+                    name='maxRedeemPercent'
+                    label='Most of a sale points can cover'
+                    rules={[{ required: true, type: 'number', min: 0, max: 100 }]}
+                  >
+                    <InputNumber min={0} max={100} suffix='%' style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+              </Row>
+              <Text type='secondary'>
+                A R100 sale earns {examplePoints} points, worth R{pointsValue(examplePoints, preview).toFixed(2)} when
+                redeemed. A discount lowers the VAT charged; a payment does not.
+              </Text>
+            </Card>
+
+            <Row gutter={16}>
+              <Col xs={24} lg={12}>
+                <Card title='Category multipliers' style={{ marginBottom: 16 }}>
+                  <Form.List name='categoryMultipliers'>
+                    {(fields, { add, remove }) => (
+                      <>
+                        {fields.map(field => (
+                          <Space key={field.key} align='baseline' style={{ display: 'flex' }}>
+                            <Form.Item name={[field.name, 'category']} rules={[{ required: true, message: 'Category' }]}>
+                              <Select
+                                showSearch
+                                placeholder='Category'
+                                options={categories.map(c => ({ label: c, value: c }))}
+                                style={{ width: 200 }}
+                              />
+                            </Form.Item>
+                            <Form.Item
+                              name={[field.name, 'multiplier']}
+                              rules={[{ required: true, type: 'number', min: 0, message: 'Multiplier' }]}
+                            >
+                              <InputNumber min={0} step={0.25} addonAfter='x' style={{ width: 120 }} />
+                            </Form.Item>
+                            <Button icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+                          </Space>
+                        ))}
+                        <Button type='dashed' icon={<PlusOutlined />} onClick={() => add({ multiplier: 2 })} block>
+                          Add category
+                        </Button>
+                      </>
+                    )}
+                  </Form.List>
+                  <Text type='secondary' style={{ display: 'block', marginTop: 8 }}>
+                    Other categories earn at the normal rate. Gift vouchers never earn points.
+                  </Text>
+                </Card>
+              </Col>
+              <Col xs={24} lg={12}>
+                <Card title='Tiers' style={{ marginBottom: 16 }}>
+                  <Form.List name='tiers'>
+                    {(fields, { add, remove }) => (
+                      <>
+                        {fields.map(field => (
+                          <Space key={field.key} align='baseline' style={{ display: 'flex' }}>
+                            <Form.Item name={[field.name, 'name']} rules={[{ required: true, whitespace: true, message: 'Name' }]}>
+                              <Input placeholder='Tier name' style={{ width: 140 }} />
+                            </Form.Item>
+                            <Form.Item
+                              name={[field.name, 'minPoints']}
+                              rules={[{ required: true, type: 'number', min: 0, message: 'Points' }]}
+                            >
+                              <InputNumber min={0} precision={0} addonAfter='pts / 12 mo' style={{ width: 190 }} />
+                            </Form.Item>
+                            <Form.Item
+                              name={[field.name, 'earnMultiplier']}
+                              rules={[{ required: true, type: 'number', min: 0, message: 'Multiplier' }]}
+                            >
+                              <InputNumber min={0} step={0.25} addonAfter='x' style={{ width: 110 }} />
+                            </Form.Item>
+                            <Button icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+                          </Space>
+                        ))}
+                        <Button
+                          type='dashed'
+                          icon={<PlusOutlined />}
+                          onClick={() => add({ name: '', minPoints: 0, earnMultiplier: 1 })}
+                          block
+                        >
+                          Add tier
+                        </Button>
+                      </>
+                    )}
+                  </Form.List>
+                  <Text type='secondary' style={{ display: 'block', marginTop: 8 }}>
+                    Customers are placed in the highest tier their points earned over the last 12 months reach.
+                  </Text>
+                </Card>
+              </Col>
+            </Row>
+
+            <Button type='primary' onClick={handleSave} loading={saving}>
+              Save
+            </Button>
+          </Form>
+        </Spin>
+      </div>
+    </>
+  );
+};
+
+export default LoyaltyScreen;
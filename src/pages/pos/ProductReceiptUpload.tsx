@@ -18,6 +18,10 @@ import {
 import { UploadOutlined, PlusOutlined } from '@ant-design/icons';
 import { useMediaQuery } from 'react-responsive';
 import { useAuth } from '../../AuthPage'; // Import useAuth
+import { RAIRO_POS_IMAGE_API_URL } from '@/lib/env';
+import { productsApi } from '@/api/products';
+import { apiClient, getErrorMessage } from '@/utils/apiClient';
+import type { ProductPayload } from '@/types/pos';
 
 const { Option } = Select;
 
@@ -30,6 +34,20 @@ interface ReceiptItem {
   // Add other fields if the AI API returns them, e.g., 'cost_price', 'sku'
 }
 
+// Every receipt AI endpoint answers with this envelope; which fields are set depends on the call
+interface ReceiptAiResponse {
+  success: boolean;
+  error?: string;
+  data?: { items?: ReceiptItem[] };
+  session_id?: string;
+  parts_count?: number;
+  results?: Array<{ data?: { items?: ReceiptItem[] } }>;
+}
+
+// The AI service is a third party and must not receive the user's token
+const postToReceiptAi = (path: string, body?: FormData) =>
+  apiClient.post<ReceiptAiResponse>(path, body, { baseUrl: RAIRO_POS_IMAGE_API_URL, auth: false });
+
 // Define the structure for products to be saved to your backend
 interface ProductToSave {
   name: string;
@@ -93,14 +111,7 @@ export default function ReceiptProductUploader({
     formData.append('image', file);
 
     try {
-      const res = await fetch(
-        'https://rairo-pos-image-api.hf.space/process-receipt', // External AI endpoint
-        {
-          method: 'POST',
-          body: formData,
-        }
-      );
-      const data = await res.json();
+      const data = await postToReceiptAi('/process-receipt', formData);
       if (data.success) {
         // Assuming the AI returns data in a similar structure: { success: true, data: { items: [...] } }
         setProducts((data.data?.items || []).map(item => ({ ...defaultProduct(item), companyName })));
@@ -123,15 +134,9 @@ export default function ReceiptProductUploader({
     }
     setLoading(true);
     try {
-      const res = await fetch(
-        'https://rairo-pos-image-api.hf.space/start-receipt-session', // External AI endpoint
-        {
-          method: 'POST',
-        }
-      );
-      const data = await res.json();
+      const data = await postToReceiptAi('/start-receipt-session');
       if (data.success) {
-        setSessionId(data.session_id);
+        setSessionId(data.session_id ?? null);
         setParts([]); // Clear any previous parts
         message.success('Multipart session started with AI!');
       } else {
@@ -159,14 +164,7 @@ export default function ReceiptProductUploader({
     formData.append('image', file);
 
     try {
-      const res = await fetch(
-        `https://rairo-pos-image-api.hf.space/add-receipt-part/${sessionId}`, // External AI endpoint
-        {
-          method: 'POST',
-          body: formData,
-        }
-      );
-      const data = await res.json();
+      const data = await postToReceiptAi(`/add-receipt-part/${sessionId}`, formData);
       if (data.success) {
         setParts((prev) => [...prev, file]);
         message.success(`Part ${data.parts_count || parts.length + 1} added to AI session!`);
@@ -192,13 +190,7 @@ export default function ReceiptProductUploader({
     }
     setLoading(true);
     try {
-      const res = await fetch(
-        `https://rairo-pos-image-api.hf.space/process-receipt-session/${sessionId}`, // External AI endpoint
-        {
-          method: 'POST',
-        }
-      );
-      const data = await res.json();
+      const data = await postToReceiptAi(`/process-receipt-session/${sessionId}`);
       if (data.success) {
         setProducts((data.data?.items || []).map(item => ({ ...defaultProduct(item), companyName })));
         message.success('AI session processed!');
@@ -225,15 +217,8 @@ export default function ReceiptProductUploader({
     files.forEach(f => formData.append('images', f)); // 'images' should match the AI's expected field name
 
     try {
-      const res = await fetch(
-        'https://rairo-pos-image-api.hf.space/bulk-process-receipts', // External AI endpoint
-        {
-          method: 'POST',
-          body: formData,
-        }
-      );
-      const data = await res.json();
-      if (res.ok && data.success) {
+      const data = await postToReceiptAi('/bulk-process-receipts', formData);
+      if (data.success) {
         // Assuming the AI returns { success: true, results: [{ data: { items: [...] } }] }
         setProducts(flattenItems(data.results || []).map(item => ({ ...defaultProduct(item), companyName })));
         message.success(`Bulk receipts processed by AI! ${files.length} files.`);
@@ -268,7 +253,7 @@ export default function ReceiptProductUploader({
 
     for (const product of values.products) {
       try {
-        const productToSave = {
+        const productToSave: ProductPayload = {
           name: product.name,
           description: '', // Add description if available from receipt or form
           unit_price: Number(product.sellingPrice),
@@ -281,26 +266,13 @@ export default function ReceiptProductUploader({
           max_quantity: null,
           available_value: product.type === 'service' ? Number(product.qty || 0) : null, // For services, qty can be available_value
           company_name: companyName, // Ensure this is correctly passed
+          stock_movement_type: 'purchase_receipt',
         };
 
-        const res = await fetch('https://quantnow.onrender.com/products-services', { // Your backend endpoint for adding products
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${currentToken}`, // Use the explicitly fetched token
-          },
-          body: JSON.stringify(productToSave),
-        });
-
-        if (res.ok) {
-          successfulSaves++;
-        } else {
-          const errorData = await res.json();
-          console.error(`Failed to save product ${product.name}:`, errorData.message || 'Unknown error');
-          failedSaves++;
-        }
+        await productsApi.create(productToSave);
+        successfulSaves++;
       } catch (error) {
-        console.error(`Error saving product ${product.name}:`, error);
+        console.error(`Failed to save product ${product.name}:`, getErrorMessage(error, 'Unknown error'));
         failedSaves++;
       }
     }
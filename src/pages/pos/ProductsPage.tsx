@@ -25,7 +25,20 @@ import PlusOutlined from '@ant-design/icons/lib/icons/PlusOutlined';
 import EditOutlined from '@ant-design/icons/lib/icons/EditOutlined';
 import DeleteOutlined from '@ant-design/icons/lib/icons/DeleteOutlined';
 import UploadOutlined from '@ant-design/icons/lib/icons/UploadOutlined';
+import FileExcelOutlined from '@ant-design/icons/lib/icons/FileExcelOutlined';
+import DownloadOutlined from '@ant-design/icons/lib/icons/DownloadOutlined';
 import ReceiptProductUploader from './ProductReceiptUpload';
+import StockMovementsDrawer from '@/components/pos/StockMovementsDrawer';
+import ProductVariantsDrawer from '@/components/pos/ProductVariantsDrawer';
+import ProductImportDrawer from '@/components/pos/ProductImportDrawer';
+import { mapProductToFrontend, productsApi } from '@/api/products';
+import { purchasesApi } from '@/api/purchases';
+import { getErrorMessage } from '@/utils/apiClient';
+import type { ProductPayload, Vendor } from '@/types/pos';
+import { usePermissions } from '@/hooks/usePermissions';
+import { variantLabel } from '@/utils/variants';
+import { catalogueExportRows } from '@/utils/productImport';
+import { toCsv } from '@/utils/spreadsheet';
 
 // Define ProductFormValues type again for clarity, as it's used in handleSave
 type ProductFormValues = {
@@ -37,9 +50,26 @@ type ProductFormValues = {
   qty?: number;
   minQty?: number;
   maxQty?: number;
+  reorderPoint?: number | null;
+  leadTimeDays?: number | null;
+  preferredSupplierId?: string | null;
   availableValue?: number;
 };
 
+// Variants are listed under their parent rather than as products of their own
+type ProductRow = Product & { children?: Product[] };
+
+const isParent = (p: Product) => (p.variantAttributes?.length ?? 0) > 0;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
 // This hook is no longer needed with real backend sales data, but keeping its structure for now if you plan to fetch stats differently
 // For now, it will return an empty object or you'll fetch bestsellers from the backend if available.
 function useProductSalesStats(products: Product[], isAuthenticated: boolean, messageApi: any) {
@@ -54,8 +84,7 @@ function useProductSalesStats(products: Product[], isAuthenticated: boolean, mes
     }
     // Simulate fetching sales stats from a backend if you had an endpoint for it.
     // Example:
-    // fetch('https://quantnow.onrender.com/sales/bestsellers', { /* headers */ })
-    //     .then(res => res.json())
+    // apiClient.get('/sales/bestsellers')
     //     .then(data => setBestsellers(data))
     //     .catch(err => messageApi.error('Failed to fetch sales stats'));
 
@@ -68,6 +97,7 @@ function useProductSalesStats(products: Product[], isAuthenticated: boolean, mes
 
 const ProductsPage = () => {
   const { isAuthenticated } = useAuth();
+  const { can } = usePermissions();
   const [messageApi, contextHolder] = message.useMessage();
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
@@ -78,10 +108,15 @@ const ProductsPage = () => {
   const [search, setSearch] = useState('');
   const [tabKey, setTabKey] = useState('list');
   const [importDrawerOpen, setImportDrawerOpen] = useState(false);
+  const [catalogueImportOpen, setCatalogueImportOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [restockModalVisible, setRestockModalVisible] = useState(false);
   const [restockProduct, setRestockProduct] = useState<Product | null>(null);
   const [restockForm] = Form.useForm();
+  const [movementsProductId, setMovementsProductId] = useState<string | null>(null);
+  const [variantsProductId, setVariantsProductId] = useState<string | null>(null);
   const [formType, setFormType] = useState<'product' | 'service'>('product');
+  const [vendors, setVendors] = useState<Vendor[]>([]);
   const isMobile = useMediaQuery({ maxWidth: 767 });
 
   // Helper to check authentication for UI enablement
@@ -96,27 +131,10 @@ const ProductsPage = () => {
     }
     setLoading(true);
     try {
-      const res = await fetch('https://quantnow.onrender.com/products-services', {
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem('token')}`,
-        },
-      });
-      if (!res.ok) throw new Error('Failed to fetch');
-      const data = await res.json();
-      const transformed: Product[] = data.map((p: any) => ({
-        id: p.id,
-        name: p.name,
-        type: p.is_service ? 'service' : 'product',
-        price: p.unit_price,
-        unitPrice: p.unit_price,
-        purchasePrice: p.cost_price,
-        unitPurchasePrice: p.cost_price,
-        qty: p.stock_quantity,
-        unit: p.unit,
+      const data = await productsApi.list();
+      const transformed: Product[] = data.map(p => ({
+        ...mapProductToFrontend(p),
         companyName: 'Ngenge Stores', // Assuming this is set on the frontend or comes from backend
-        availableValue: p.is_service ? p.available_value : undefined, // Mapped from available_value for services
-        minQty: p.min_quantity, // Correctly map min_quantity
-        maxQty: p.max_quantity, // Correctly map max_quantity
       }));
       setProducts(transformed);
       messageApi.success('Products loaded successfully.');
@@ -132,6 +150,14 @@ const ProductsPage = () => {
     fetchProducts();
   }, [fetchProducts]);
 
+  useEffect(() => {
+    if (!isUserAuthenticated) return;
+    purchasesApi
+      .vendors()
+      .then(data => setVendors(data || []))
+      .catch(err => console.warn('Failed to load suppliers:', err));
+  }, [isUserAuthenticated]);
+
   // Properly sync form fields & type when modal/drawer is opened and when editingProduct changes
   useEffect(() => {
     if (modalVisible || manualDrawerOpen) {
@@ -146,6 +172,9 @@ const ProductsPage = () => {
           qty: editingProduct.qty,
           minQty: editingProduct.minQty,
           maxQty: editingProduct.maxQty,
+          reorderPoint: editingProduct.reorderPoint,
+          leadTimeDays: editingProduct.leadTimeDays,
+          preferredSupplierId: editingProduct.preferredSupplierId,
           availableValue: editingProduct.availableValue,
         };
         form.setFieldsValue(fieldsToSet);
@@ -185,14 +214,9 @@ const ProductsPage = () => {
     }
     setLoading(true);
     const isNew = !editingProduct;
-    const endpoint = isNew
-      ? 'https://quantnow.onrender.com/products-services'
-      : `https://quantnow.onrender.com/products-services/${editingProduct!.id}`;
-
-    const method = isNew ? 'POST' : 'PUT';
 
     // Construct the body based on formType
-    const body = {
+    const body: ProductPayload = {
       name: values.name,
       description: '', // You might want to add a description field to your form/type
       unit_price: Number(values.sellingPrice),
@@ -201,32 +225,25 @@ const ProductsPage = () => {
       // Conditional assignment for stock_quantity, min_quantity, max_quantity, available_value
       stock_quantity: values.type === 'product' ? Number(values.qty || 0) : null, // Only for products
       unit: values.type === 'product' ? (values.unit || 'item') : null,
-      sku: null, // You might want to add an SKU field
+      sku: editingProduct?.sku ?? null, // Not on the form; keep what the product already has
+      barcode: editingProduct?.barcode ?? null,
       min_quantity: values.type === 'product' ? Number(values.minQty || 0) : null, // Only for products
       max_quantity: values.type === 'product' ? Number(values.maxQty || 0) : null, // Only for products
+      reorder_point: values.type === 'product' ? (values.reorderPoint ?? null) : null,
+      lead_time_days: values.type === 'product' ? (values.leadTimeDays ?? null) : null,
+      preferred_supplier_id: values.type === 'product' ? (values.preferredSupplierId ?? null) : null,
       available_value: values.type === 'service' ? Number(values.availableValue || 0) : null, // Only for services
     };
 
     try {
-      const res = await fetch(endpoint, {
-        method,
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${localStorage.getItem('token')}`,
-        },
-        body: JSON.stringify(body),
-      });
-
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.message || 'Failed to save');
-      }
+      if (isNew) await productsApi.create(body);
+      else await productsApi.update(editingProduct!.id, body);
       messageApi.success(`Product ${isNew ? 'added' : 'updated'} successfully.`);
       closeForm();
       fetchProducts();
-    } catch (err: any) {
+    } catch (err) {
       console.error("Save product error:", err);
-      messageApi.error(`Failed to save product: ${err.message || 'Unknown error'}`);
+      messageApi.error(`Failed to save product: ${getErrorMessage(err, 'Unknown error')}`);
     } finally {
       setLoading(false);
     }
@@ -239,24 +256,30 @@ const ProductsPage = () => {
     }
     try {
       setLoading(true);
-      const res = await fetch(`https://quantnow.onrender.com/products-services/${id}`, {
-        method: 'DELETE',
-        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
-      });
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.message || 'Failed to delete');
-      }
+      await productsApi.remove(id);
       messageApi.success('Deleted successfully.');
       fetchProducts();
-    } catch (err: any) {
+    } catch (err) {
       console.error("Delete product error:", err);
-      messageApi.error(`Failed to delete: ${err.message || 'Unknown error'}`);
+      messageApi.error(`Failed to delete: ${getErrorMessage(err, 'Unknown error')}`);
     } finally {
       setLoading(false);
     }
   };
 
+  // Exported from the server's rows rather than the list, which lacks cost, category and VAT
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const data = await productsApi.list();
+      downloadBlob(toCsv(catalogueExportRows(data)), `products-${new Date().toISOString().slice(0, 10)}.csv`);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to export products.'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const openRestockModal = (product: Product) => {
     if (!isUserAuthenticated) {
       messageApi.error('Please log in to restock products.');
@@ -267,38 +290,25 @@ const ProductsPage = () => {
     setRestockModalVisible(true);
   };
 
-  const handleRestock = async (values: { qty: number; purchasePrice: number }) => {
+  const handleRestock = async (values: { qty: number; purchasePrice: number; reference?: string }) => {
     if (!isUserAuthenticated || !restockProduct) {
       messageApi.error('Authentication or product information missing for restock.');
       return;
     }
     try {
       setLoading(true);
-      const res = await fetch(
-        `https://quantnow.onrender.com/products-services/${restockProduct.id}/stock`,
-        {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${localStorage.getItem('token')}`,
-          },
-          body: JSON.stringify({
-            adjustmentQuantity: values.qty,
-            updatedCostPrice: values.purchasePrice,
-          }),
-        }
-      );
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.message || 'Failed to restock');
-      }
+      await productsApi.restock(restockProduct.id, {
+        adjustmentQuantity: values.qty,
+        updatedCostPrice: values.purchasePrice,
+        reference: values.reference?.trim() || null,
+      });
       messageApi.success('Product restocked successfully!');
       setRestockModalVisible(false);
       setRestockProduct(null);
       fetchProducts(); // Refresh products list
-    } catch (err: any) {
+    } catch (err) {
       console.error("Restock product error:", err);
-      messageApi.error(`Failed to restock: ${err.message || 'Unknown error'}`);
+      messageApi.error(`Failed to restock: ${getErrorMessage(err, 'Unknown error')}`);
     } finally {
       setLoading(false);
     }
@@ -310,9 +320,15 @@ const ProductsPage = () => {
     (a, b) => (bestsellers[b.id] || 0) - (bestsellers[a.id] || 0)
   );
 
-  const filteredProducts = sortedProducts.filter(p =>
-    p.name?.toLowerCase().includes(search.toLowerCase())
-  );
+  const variantsFor = (id: string) => products.filter(p => p.parentId === id);
+  const matchesSearch = (p: Product) => p.name?.toLowerCase().includes(search.toLowerCase());
+  const variantsProduct = products.find(p => p.id === variantsProductId);
+  const filteredProducts: ProductRow[] = sortedProducts
+    .filter(p => !p.parentId && (matchesSearch(p) || variantsFor(p.id).some(matchesSearch)))
+    .map(p => {
+      const variants = variantsFor(p.id);
+      return variants.length ? { ...p, children: variants } : p;
+    });
 
   // Define a formatter function for currency inputs
   const currencyFormatter = (value: number | string | undefined) =>
@@ -360,23 +376,38 @@ const ProductsPage = () => {
       key: 'actions',
       render: (_, record) => (
         <Space>
-          <Button onClick={() => openRestockModal(record)} disabled={!isUserAuthenticated}>
-            Restock
-          </Button>
+          {/* A parent's stock is held by its variants */}
+          {!isParent(record) && (
+            <>
+              <Button onClick={() => openRestockModal(record)} disabled={!isUserAuthenticated}>
+                Restock
+              </Button>
+              <Button onClick={() => setMovementsProductId(record.id)} disabled={!isUserAuthenticated}>
+                History
+              </Button>
+            </>
+          )}
+          {!record.parentId && (
+            <Button onClick={() => setVariantsProductId(record.id)} disabled={!isUserAuthenticated}>
+              Variants
+            </Button>
+          )}
           <Button
             icon={<EditOutlined />}
             onClick={() => openForm(record)}
             disabled={!isUserAuthenticated}
           />
-          <Popconfirm
-            title='Delete product?'
-            onConfirm={() => handleDelete(record.id)}
-            okText='Yes'
-            cancelText='No'
-            disabled={!isUserAuthenticated}
-          >
-            <Button icon={<DeleteOutlined />} danger disabled={!isUserAuthenticated} />
-          </Popconfirm>
+          {can('products.delete') && (
+            <Popconfirm
+              title='Delete product?'
+              onConfirm={() => handleDelete(record.id)}
+              okText='Yes'
+              cancelText='No'
+              disabled={!isUserAuthenticated}
+            >
+              <Button icon={<DeleteOutlined />} danger disabled={!isUserAuthenticated} />
+            </Popconfirm>
+          )}
         </Space>
       ),
     },
@@ -407,15 +438,17 @@ const ProductsPage = () => {
             onClick={() => openForm(record)}
             disabled={!isUserAuthenticated}
           />
-          <Popconfirm
-            title='Delete service?'
-            onConfirm={() => handleDelete(record.id)}
-            okText='Yes'
-            cancelText='No'
-            disabled={!isUserAuthenticated}
-          >
-            <Button icon={<DeleteOutlined />} danger disabled={!isUserAuthenticated} />
-          </Popconfirm>
+          {can('products.delete') && (
+            <Popconfirm
+              title='Delete service?'
+              onConfirm={() => handleDelete(record.id)}
+              okText='Yes'
+              cancelText='No'
+              disabled={!isUserAuthenticated}
+            >
+              <Button icon={<DeleteOutlined />} danger disabled={!isUserAuthenticated} />
+            </Popconfirm>
+          )}
         </Space>
       ),
     },
@@ -434,7 +467,7 @@ const ProductsPage = () => {
           if (changed.type === 'product') {
             form.setFieldsValue({ availableValue: undefined });
           } else if (changed.type === 'service') {
-            form.setFieldsValue({ qty: undefined, unit: undefined, purchasePrice: undefined, minQty: undefined, maxQty: undefined });
+            form.setFieldsValue({ qty: undefined, unit: undefined, purchasePrice: undefined, minQty: undefined, maxQty: undefined, reorderPoint: undefined, leadTimeDays: undefined, preferredSupplierId: undefined });
           }
         }
       }}
@@ -506,8 +539,9 @@ const ProductsPage = () => {
             name='qty'
             label='Quantity (Initial Stock)'
             rules={[{ required: true, message: 'Please enter initial stock quantity' }]}
+            extra={editingProduct ? 'Stock changes go through Restock or History > Adjust so they are recorded.' : undefined}
           >
-            <InputNumber min={0} style={{ width: '100%' }} />
+            <InputNumber min={0} style={{ width: '100%' }} disabled={!!editingProduct} />
           </Form.Item>
           <Form.Item required style={{ marginBottom: 0 }}>
             <Row gutter={12}>
@@ -533,6 +567,33 @@ const ProductsPage = () => {
               </Col>
             </Row>
           </Form.Item>
+          <Form.Item style={{ marginBottom: 0 }}>
+            <Row gutter={12}>
+              <Col span={12}>
+                <Form.Item
+                  name='reorderPoint'
+                  label='Reorder Point'
+                  extra='Leave empty to reorder at Min Qty.'
+                >
+                  <InputNumber min={0} style={{ width: '100%' }} />
+                </Form.Item>
+              </Col>
+              <Col span={12}>
+                <Form.Item name='leadTimeDays' label='Lead Time (days)'>
+                  <InputNumber min={0} precision={0} style={{ width: '100%' }} />
+                </Form.Item>
+              </Col>
+            </Row>
+          </Form.Item>
+          <Form.Item name='preferredSupplierId' label='Preferred Supplier'>
+            <Select
+              allowClear
+              showSearch
+              optionFilterProp='label'
+              placeholder='Select supplier'
+              options={vendors.map(v => ({ label: v.name, value: String(v.id) }))}
+            />
+          </Form.Item>
         </>
       )}
       {formType === 'service' && (
@@ -582,6 +643,23 @@ const ProductsPage = () => {
                 >
                   Scan/Upload Receipt
                 </Button>
+                <Button
+                  icon={<FileExcelOutlined />}
+                  block={isMobile}
+                  onClick={() => setCatalogueImportOpen(true)}
+                  disabled={!isUserAuthenticated}
+                >
+                  Import CSV/XLSX
+                </Button>
+                <Button
+                  icon={<DownloadOutlined />}
+                  block={isMobile}
+                  loading={exporting}
+                  onClick={handleExport}
+                  disabled={!isUserAuthenticated}
+                >
+                  Export
+                </Button>
               </div>
             </div>
 
@@ -609,23 +687,35 @@ const ProductsPage = () => {
                       styles={{ body: { padding: 16 } }}
                       extra={
                         <Space>
-                          <Button onClick={() => openRestockModal(product)} disabled={!isUserAuthenticated}>
-                            Restock
+                          {!isParent(product) && (
+                            <>
+                              <Button onClick={() => openRestockModal(product)} disabled={!isUserAuthenticated}>
+                                Restock
+                              </Button>
+                              <Button onClick={() => setMovementsProductId(product.id)} disabled={!isUserAuthenticated}>
+                                History
+                              </Button>
+                            </>
+                          )}
+                          <Button onClick={() => setVariantsProductId(product.id)} disabled={!isUserAuthenticated}>
+                            Variants
                           </Button>
                           <Button
                             icon={<EditOutlined />}
                             onClick={() => openForm(product)}
                             disabled={!isUserAuthenticated}
                           />
-                          <Popconfirm
-                            title='Delete product?'
-                            onConfirm={() => handleDelete(product.id)}
-                            okText='Yes'
-                            cancelText='No'
-                            disabled={!isUserAuthenticated}
-                          >
-                            <Button icon={<DeleteOutlined />} danger disabled={!isUserAuthenticated} />
-                          </Popconfirm>
+                          {can('products.delete') && (
+                            <Popconfirm
+                              title='Delete product?'
+                              onConfirm={() => handleDelete(product.id)}
+                              okText='Yes'
+                              cancelText='No'
+                              disabled={!isUserAuthenticated}
+                            >
+                              <Button icon={<DeleteOutlined />} danger disabled={!isUserAuthenticated} />
+                            </Popconfirm>
+                          )}
                         </Space>
                       }
                     >
@@ -643,11 +733,19 @@ const ProductsPage = () => {
                       </p>
                       <p><strong>Min Quantity:</strong> {product.minQty ?? '-'}</p>
                       <p><strong>Max Quantity:</strong> {product.maxQty ?? '-'}</p>
+                      {product.children && (
+                        <p>
+                          <strong>Variants:</strong>{' '}
+                          {product.children
+                            .map(v => `${variantLabel(v.variantOptions, product.variantAttributes)} (${v.qty ?? 0})`)
+                            .join(', ')}
+                        </p>
+                      )}
                     </Card>
                   ))}
                 </Space>
               ) : (
-                <Table<Product>
+                <Table<ProductRow>
                   columns={productColumns}
                   dataSource={filteredProducts.filter(p => p.type === 'product')}
                   rowKey='id'
@@ -703,15 +801,17 @@ const ProductsPage = () => {
                             onClick={() => openForm(service)}
                             disabled={!isUserAuthenticated}
                           />
-                          <Popconfirm
-                            title='Delete service?'
-                            onConfirm={() => handleDelete(service.id)}
-                            okText='Yes'
-                            cancelText='No'
-                            disabled={!isUserAuthenticated}
-                          >
-                            <Button icon={<DeleteOutlined />} danger disabled={!isUserAuthenticated} />
-                          </Popconfirm>
+                          {can('products.delete') && (
+                            <Popconfirm
+                              title='Delete service?'
+                              onConfirm={() => handleDelete(service.id)}
+                              okText='Yes'
+                              cancelText='No'
+                              disabled={!isUserAuthenticated}
+                            >
+                              <Button icon={<DeleteOutlined />} danger disabled={!isUserAuthenticated} />
+                            </Popconfirm>
+                          )}
                         </Space>
                       }
                     >
@@ -801,6 +901,9 @@ const ProductsPage = () => {
           >
             <InputNumber min={0} style={{ width: '100%' }} formatter={currencyFormatter} parser={currencyParser} />
           </Form.Item>
+          <Form.Item name='reference' label='Supplier invoice / delivery note (optional)'>
+            <Input />
+          </Form.Item>
           <Form.Item>
             <Button type='primary' htmlType='submit' block disabled={!isUserAuthenticated || loading}>
               Restock
@@ -808,6 +911,23 @@ const ProductsPage = () => {
           </Form.Item>
         </Form>
       </Modal>
+      <StockMovementsDrawer
+        product={products.find(p => p.id === movementsProductId) ?? null}
+        onClose={() => setMovementsProductId(null)}
+        onAdjusted={fetchProducts}
+      />
+      {variantsProduct && (
+        <ProductVariantsDrawer
+          key={variantsProduct.id}
+          parent={variantsProduct}
+          variants={variantsFor(variantsProduct.id)}
+          onClose={() => setVariantsProductId(null)}
+          onSaved={fetchProducts}
+        />
+      )}
+      {catalogueImportOpen && (
+        <ProductImportDrawer onClose={() => setCatalogueImportOpen(false)} onImported={fetchProducts} />
+      )}
     </>
   );
 };
@@ -0,0 +1,340 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Card,
+  Button,
+  Checkbox,
+  Col,
+  Form,
+  Input,
+  InputNumber,
+  Modal,
+  Popconfirm,
+  Row,
+  Select,
+  Switch,
+  Table,
+  Tag,
+  Typography,
+  message,
+} from 'antd';
+import { PlusOutlined, EditOutlined, DeleteOutlined } from '@ant-design/icons';
+import { useAuth } from '../../AuthPage';
+import { promotionsApi } from '@/api/promotions';
+import { productsApi } from '@/api/products';
+import { getErrorMessage } from '@/utils/apiClient';
+import { isPromotionActive } from '@/utils/promotions';
+import type { ProductDB, Promotion, PromotionKind, PromotionPayload } from '@/types/pos';
+
+const { Title, Text } = Typography;
+
+const KIND_LABELS: Record<PromotionKind, string> = {
+  percentage: 'Percentage off',
+  fixed: 'Fixed amount off',
+  bundle: 'Buy X get Y free',
+};
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EMPTY_PROMOTION: PromotionPayload = {
+  name: '',
+  kind: 'percentage',
+  scope: 'line',
+  value: 10,
+  productIds: [],
+  buyQuantity: null,
+  freeQuantity: null,
+  minSpend: null,
+  startsAt: null,
+  endsAt: null,
+  startTime: null,
+  endTime: null,
+  daysOfWeek: [],
+  active: true,
+};
+
+// The form's field values can't hold null, so unset optional fields become undefined
+const toFormValues = (p: PromotionPayload) => ({
+  ...p,
+  buyQuantity: p.buyQuantity ?? undefined,
+  freeQuantity: p.freeQuantity ?? undefined,
+  minSpend: p.minSpend ?? undefined,
+  startsAt: p.startsAt ?? undefined,
+  endsAt: p.endsAt ?? undefined,
+  startTime: p.startTime ?? undefined,
+  endTime: p.endTime ?? undefined,
+  daysOfWeek: p.daysOfWeek ?? [],
+});
+
+const describe = (p: Promotion) => {
+  if (p.kind === 'bundle') return `Buy ${p.buyQuantity ?? 0} get ${p.freeQuantity ?? 0} free`;
+  const amount = p.kind === 'percentage' ? `${p.value}%` : `R${Number(p.value).toFixed(2)}`;
+  return p.scope === 'basket' ? `${amount} off basket` : `${amount} off${p.kind === 'fixed' ? ' each' : ''}`;
+};
+
+const PromotionsScreen: React.FC = () => {
+  const [messageApi, contextHolder] = message.useMessage();
+  const { isAuthenticated } = useAuth();
+  const [form] = Form.useForm<PromotionPayload>();
+
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [products, setProducts] = useState<ProductDB[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<Promotion | null>(null);
+  const [modalOpen, setModalOpen] = useState(false);
+
+  const kind = Form.useWatch('kind', form);
+  const scope = Form.useWatch('scope', form);
+
+  const loadPromotions = useCallback(async () => {
+    setLoading(true);
+    try {
+      setPromotions(await promotionsApi.list());
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to load promotions.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [messageApi]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    loadPromotions();
+    productsApi
+      .list()
+      .then(setProducts)
+      .catch(err => console.warn('Failed to load products for promotions:', err));
+  }, [isAuthenticated, loadPromotions]);
+
+  const openEditor = (promotion: Promotion | null) => {
+    setEditing(promotion);
+    form.setFieldsValue(toFormValues(promotion ?? EMPTY_PROMOTION));
+    setModalOpen(true);
+  };
+
+  const handleSave = async () => {
+    const values = await form.validateFields();
+    const payload: PromotionPayload = {
+      ...EMPTY_PROMOTION,
+      ...values,
+      // Bundles are always per line; basket rules ignore product filters
+      scope: values.kind === 'bundle' ? 'line' : values.scope,
+      productIds: values.scope === 'basket' && values.kind !== 'bundle' ? [] : values.productIds ?? [],
+      startTime: values.startTime || null,
+      endTime: values.endTime || null,
+      startsAt: values.startsAt || null,
+      endsAt: values.endsAt || null,
+    };
+    if (!!payload.startTime !== !!payload.endTime) {
+      messageApi.error('Set both a start and an end time for a happy hour, or neither.');
+      return;
+    }
+    setSaving(true);
+    try {
+      if (editing) {
+        await promotionsApi.update(editing.id, payload);
+        messageApi.success('Promotion updated.');
+      } else {
+        await promotionsApi.create(payload);
+        messageApi.success('Promotion created.');
+      }
+      setModalOpen(false);
+      loadPromotions();
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to save promotion.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await promotionsApi.remove(id);
+      setPromotions(prev => prev.filter(p => p.id !== id));
+      messageApi.success('Promotion deleted.');
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to delete promotion.'));
+    }
+  };
+
+  const productName = (id: number) => products.find(p => p.id === id)?.name ?? `#${id}`;
+
+  return (
+    <>
+      {contextHolder}
+      <div style={{ padding: 18 }}>
+        <Row justify='space-between' align='middle' style={{ marginBottom: 12 }}>
+          <Title level={3} style={{ margin: 0 }}>Promotions</Title>
+          <Button type='primary' icon={<PlusOutlined />} onClick={() => openEditor(null)}>
+            New promotion
+          </Button>
+        </Row>
+
+        <Card>
+          <Table<Promotion>
+            dataSource={promotions}
+            rowKey='id'
+            loading={loading}
+            pagination={{ pageSize: 20 }}
+            columns={[
+              { title: 'Name', dataIndex: 'name' },
+              { title: 'Rule', render: (_, p) => describe(p) },
+              {
+                title: 'Applies to',
+                render: (_, p) =>
+                  p.scope === 'basket'
+                    ? `Baskets${p.minSpend ? ` from R${Number(p.minSpend).toFixed(2)}` : ''}`
+                    : p.productIds.length === 0
+                      ? 'All products'
+                      : p.productIds.map(productName).join(', '),
+              },
+              {
+                title: 'When',
+                render: (_, p) => (
+                  <Text type='secondary' style={{ fontSize: 12 }}>
+                    {p.startsAt || p.endsAt ? `${p.startsAt?.slice(0, 10) ?? '…'} to ${p.endsAt?.slice(0, 10) ?? '…'}` : 'Always'}
+                    {p.startTime && p.endTime ? ` · ${p.startTime}-${p.endTime}` : ''}
+                    {p.daysOfWeek?.length ? ` · ${p.daysOfWeek.map(d => DAYS[d]).join(' ')}` : ''}
+                  </Text>
+                ),
+              },
+              {
+                title: 'Status',
+                render: (_, p) =>
+                  !p.active ? <Tag>Off</Tag> : isPromotionActive(p) ? <Tag color='green'>Live</Tag> : <Tag color='blue'>Scheduled</Tag>,
+              },
+              {
+                title: 'Actions',
+                render: (_, p) => (
+                  <>
+                    <Button size='small' icon={<EditOutlined />} onClick={() => openEditor(p)} style={{ marginRight: 6 }} />
+                    <Popconfirm title='Delete this promotion?' onConfirm={() => handleDelete(p.id)}>
+                      <Button size='small' danger icon={<DeleteOutlined />} />
+                    </Popconfirm>
+                  </>
+                ),
+              },
+            ]}
+          />
+        </Card>
+
+        <Modal
+          open={modalOpen}
+          title={editing ? 'Edit promotion' : 'New promotion'}
+          okText='Save'
+          onOk={handleSave}
+          onCancel={() => setModalOpen(false)}
+          confirmLoading={saving}
+          destroyOnClose
+          width={640}
+        >
+          <Form form={form} layout='vertical' initialValues={EMPTY_PROMOTION} preserve={false}>
+            <Form.Item name='name' label='Name (shown on receipts)' rules={[{ required: true }]}>
+              <Input />
+            </Form.Item>
+            <Row gutter={12}>
+              <Col span={12}>
+                <Form.Item name='kind' label='Type'>
+                  <Select options={Object.entries(KIND_LABELS).map(([value, label]) => ({ value, label }))} />
+                </Form.Item>
+              </Col>
+              <Col span={12}>
+                <Form.Item name='scope' label='Scope'>
+                  <Select
+                    disabled={kind === 'bundle'}
+                    options={[
+                      { value: 'line', label: 'Line (per product)' },
+                      { value: 'basket', label: 'Basket (whole sale)' },
+                    ]}
+                  />
+                </Form.Item>
+              </Col>
+            </Row>
+
+            {kind === 'bundle' ? (
+              <Row gutter={12}>
+                <Col span={12}>
+                  <Form.Item name='buyQuantity' label='Buy' rules={[{ required: true }]}>
+                    <InputNumber min={1} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col span={12}>
+                  <Form.Item name='freeQuantity' label='Get free' rules={[{ required: true }]}>
+                    <InputNumber min={1} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+              </Row>
+            ) : (
+              <Row gutter={12}>
+                <Col span={12}>
+                  <Form.Item
+                    name='value'
+                    label={kind === 'percentage' ? 'Percent off' : 'Amount off (excl. VAT)'}
+                    rules={[{ required: true }]}
+                  >
+                    <InputNumber
+                      min={0}
+                      max={kind === 'percentage' ? 100 : undefined}
+                      addonAfter={kind === 'percentage' ? '%' : undefined}
+                      prefix={kind === 'fixed' ? 'R' : undefined}
+                      style={{ width: '100%' }}
+                    />
+                  </Form.Item>
+                </Col>
+                {scope === 'basket' && (
+                  <Col span={12}>
+                    <Form.Item name='minSpend' label='Minimum spend (incl. VAT)'>
+                      <InputNumber min={0} prefix='R' style={{ width: '100%' }} />
+                    </Form.Item>
+                  </Col>
+                )}
+              </Row>
+            )}
+
+            {(scope !== 'basket' || kind === 'bundle') && (
+              <Form.Item name='productIds' label='Products' extra='Leave empty to apply to every product.'>
+                <Select
+                  mode='multiple'
+                  allowClear
+                  optionFilterProp='label'
+                  options={products.map(p => ({ value: p.id, label: p.sku ? `${p.name} (${p.sku})` : p.name }))}
+                />
+              </Form.Item>
+            )}
+
+            <Row gutter={12}>
+              <Col span={12}>
+                <Form.Item name='startsAt' label='From date'>
+                  <Input type='date' />
+                </Form.Item>
+              </Col>
+              <Col span={12}>
+                <Form.Item name='endsAt' label='To date'>
+                  <Input type='date' />
+                </Form.Item>
+              </Col>
+              <Col span={12}>
+                <Form.Item name='startTime' label='Happy hour from'>
+                  <Input type='time' />
+                </Form.Item>
+              </Col>
+              <Col span={12}>
+                <Form.Item name='endTime' label='Happy hour until'>
+                  <Input type='time' />
+                </Form.Item>
+              </Col>
+            </Row>
+            <Form.Item name='daysOfWeek' label='Days' extra='Leave empty for every day.'>
+              <Checkbox.Group options={DAYS.map((label, value) => ({ label, value }))} />
+            </Form.Item>
+            <Form.Item name='active' label='Enabled' valuePropName='checked'>
+              <Switch />
+            </Form.Item>
+          </Form>
+        </Modal>
+      </div>
+    </>
+  );
+};
+
+export default PromotionsScreen;
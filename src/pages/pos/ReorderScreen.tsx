@@ -0,0 +1,265 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button, Card, Empty, InputNumber, Select, Space, Spin, Table, Tag, Typography, message } from 'antd';
+import { ShoppingCartOutlined } from '@ant-design/icons';
+import { useAuth } from '../../AuthPage';
+import { productsApi } from '@/api/products';
+import { purchasesApi } from '@/api/purchases';
+import { stockApi } from '@/api/stock';
+import { getErrorMessage } from '@/utils/apiClient';
+import { VELOCITY_WINDOWS, draftPurchase, groupBySupplier, reorderSuggestions } from '@/utils/reorder';
+import type { ReorderSuggestion } from '@/utils/reorder';
+import type { ProductDB, ProductVelocity, Vendor } from '@/types/pos';
+import { money } from '@/utils/money';
+
+const { Title, Text } = Typography;
+
+/** Products at or below their reorder level, and one-click draft purchase orders per supplier. */
+const ReorderScreen: React.FC = () => {
+  const [messageApi, contextHolder] = message.useMessage();
+  const { isAuthenticated, activeBranch } = useAuth();
+
+  const [products, setProducts] = useState<ProductDB[]>([]);
+  const [velocity, setVelocity] = useState<ProductVelocity[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [windowDays, setWindowDays] = useState(30);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  /** Quantities the buyer has changed, by product id. */
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [selected, setSelected] = useState<number[]>([]);
+  /** Supplier picked for products that have no preferred supplier. */
+  const [fallbackSupplier, setFallbackSupplier] = useState<string | undefined>(undefined);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [productData, velocityData] = await Promise.all([
+        productsApi.list(),
+        stockApi.velocity({ days: windowDays, branch: activeBranch }),
+      ]);
+      setProducts(productData || []);
+      setVelocity(velocityData || []);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to load stock levels.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [windowDays, activeBranch, messageApi]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    loadData();
+  }, [isAuthenticated, loadData]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    purchasesApi
+      .vendors()
+      .then(data => setVendors(data || []))
+      .catch(err => console.warn('Failed to load suppliers for reordering:', err));
+  }, [isAuthenticated]);
+
+  const suggestions = useMemo(
+    () => reorderSuggestions(products, velocity, windowDays),
+    [products, velocity, windowDays]
+  );
+  const groups = useMemo(() => groupBySupplier(suggestions), [suggestions]);
+
+  useEffect(() => {
+    setSelected(suggestions.map(s => s.productId));
+    setQuantities({});
+  }, [suggestions]);
+
+  const quantityFor = (s: ReorderSuggestion) => quantities[s.productId] ?? s.suggestedQuantity;
+
+  const selectedLines = suggestions.filter(s => selected.includes(s.productId) && quantityFor(s) > 0);
+  const unassigned = selectedLines.filter(s => !s.supplierId).length;
+
+  const handleCreateDrafts = async () => {
+    const bySupplier = new Map<string, ReorderSuggestion[]>();
+    for (const s of selectedLines) {
+      const supplierId = s.supplierId ?? fallbackSupplier;
+      if (!supplierId) continue;
+      bySupplier.set(supplierId, [...(bySupplier.get(supplierId) ?? []), s]);
+    }
+    if (bySupplier.size === 0) {
+      messageApi.error('Select products with a supplier to order from.');
+      return;
+    }
+    setCreating(true);
+    const created: string[] = [];
+    try {
+      for (const [supplierId, lines] of bySupplier) {
+        const result = await purchasesApi.create(
+          draftPurchase(
+            supplierId,
+            lines.map(s => ({ suggestion: s, quantity: quantityFor(s) }))
+          )
+        );
+        created.push(result.po_number);
+      }
+      messageApi.success(
+        `Created ${created.length} draft purchase order${created.length === 1 ? '' : 's'} (${created.join(', ')}). ` +
+          'Review and send them from Invoice/Quote > Purchases.'
+      );
+      setSelected([]);
+    } catch (err) {
+      messageApi.error(
+        getErrorMessage(err, 'Failed to create draft purchase orders.') +
+          (created.length ? ` Created before the error: ${created.join(', ')}.` : '')
+      );
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const orderValue = selectedLines
+    .filter(s => s.supplierId || fallbackSupplier)
+    .reduce((sum, s) => sum + quantityFor(s) * s.unitCost, 0);
+
+  return (
+    <>
+      {contextHolder}
+      <div style={{ padding: 18 }}>
+        <Title level={3}>Reorder</Title>
+        <Space wrap style={{ marginBottom: 16, width: '100%', justifyContent: 'space-between' }}>
+          <Space wrap>
+            <Text>Sales velocity over</Text>
+            <Select
+              value={windowDays}
+              onChange={setWindowDays}
+              options={VELOCITY_WINDOWS.map(d => ({ label: `${d} days`, value: d }))}
+              style={{ width: 110 }}
+            />
+          </Space>
+          <Space wrap>
+            <Text>
+              {selectedLines.length} product{selectedLines.length === 1 ? '' : 's'} · {money(orderValue)} ex VAT
+            </Text>
+            <Button
+              type='primary'
+              icon={<ShoppingCartOutlined />}
+              loading={creating}
+              disabled={selectedLines.length === 0}
+              onClick={handleCreateDrafts}
+            >
+              Create draft purchases
+            </Button>
+          </Space>
+        </Space>
+
+        <Spin spinning={loading}>
+          {groups.length === 0 && !loading && <Empty description='Nothing is at or below its reorder level.' />}
+          {groups.map(group => (
+            <Card
+              key={group.supplierId ?? 'none'}
+              size='small'
+              title={group.supplierName}
+              style={{ marginBottom: 16 }}
+              extra={
+                group.supplierId ? null : (
+                  <Select
+                    allowClear
+                    showSearch
+                    optionFilterProp='label'
+                    placeholder='Order these from...'
+                    value={fallbackSupplier}
+                    onChange={setFallbackSupplier}
+                    options={vendors.map(v => ({ label: v.name, value: String(v.id) }))}
+                    style={{ width: 220 }}
+                  />
+                )
+              }
+            >
+              <Table<ReorderSuggestion>
+                rowKey='productId'
+                size='small'
+                pagination={false}
+                dataSource={group.lines}
+                scroll={{ x: 900 }}
+                rowSelection={{
+                  selectedRowKeys: selected.filter(id => group.lines.some(l => l.productId === id)),
+                  onChange: keys => {
+                    const groupIds = group.lines.map(l => l.productId);
+                    setSelected(prev => [...prev.filter(id => !groupIds.includes(id)), ...keys.map(Number)]);
+                  },
+                }}
+                columns={[
+                  {
+                    title: 'Product',
+                    key: 'product',
+                    render: (_, s) => (
+                      <>
+                        <div>{s.name}</div>
+                        {s.sku && <Text type='secondary'>{s.sku}</Text>}
+                      </>
+                    ),
+                  },
+                  {
+                    title: 'Available',
+                    dataIndex: 'available',
+                    align: 'right',
+                    render: (v: number, s) => (
+                      <Text type={v <= 0 ? 'danger' : undefined}>
+                        {v} {s.unit ?? ''}
+                      </Text>
+                    ),
+                  },
+                  { title: 'Reorder at', dataIndex: 'reorderLevel', align: 'right' },
+                  { title: 'Sold / day', dataIndex: 'dailyUsage', align: 'right' },
+                  {
+                    title: 'Cover',
+                    dataIndex: 'daysOfCover',
+                    align: 'right',
+                    render: (d: number | null, s) =>
+                      d === null ? (
+                        '-'
+                      ) : (
+                        <Tag color={d < s.leadTimeDays ? 'red' : d < s.leadTimeDays * 2 ? 'orange' : 'default'}>
+                          {d} days
+                        </Tag>
+                      ),
+                  },
+                  {
+                    title: 'Lead time',
+                    dataIndex: 'leadTimeDays',
+                    align: 'right',
+                    render: (d: number) => (d ? `${d} days` : '-'),
+                  },
+                  {
+                    title: 'Order',
+                    key: 'quantity',
+                    align: 'right',
+                    render: (_, s) => (
+                      <InputNumber
+                        min={0}
+                        precision={0}
+                        value={quantityFor(s)}
+                        onChange={v => setQuantities(prev => ({ ...prev, [s.productId]: Number(v) || 0 }))}
+                        style={{ width: 90 }}
+                      />
+                    ),
+                  },
+                  {
+                    title: 'Cost',
+                    key: 'cost',
+                    align: 'right',
+                    render: (_, s) => money(quantityFor(s) * s.unitCost),
+                  },
+                ]}
+              />
+            </Card>
+          ))}
+          {unassigned > 0 && !fallbackSupplier && (
+            <Text type='warning'>
+              {unassigned} selected product{unassigned === 1 ? ' has' : 's have'} no preferred supplier and will be left
+              off until you pick one.
+            </Text>
+          )}
+        </Spin>
+      </div>
+    </>
+  );
+};
+
+export default ReorderScreen;
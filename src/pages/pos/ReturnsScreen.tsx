@@ -0,0 +1,488 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Card,
+  Button,
+  Input,
+  InputNumber,
+  Checkbox,
+  Select,
+  Radio,
+  Table,
+  Tag,
+  Modal,
+  Typography,
+  Divider,
+  Empty,
+  Spin,
+  message,
+} from 'antd';
+import { SearchOutlined, RollbackOutlined, StopOutlined } from '@ant-design/icons';
+import { useAuth, getUserId } from '../../AuthPage';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useShift } from '@/hooks/useShift';
+import { salesApi } from '@/api/sales';
+import { profileApi } from '@/api/profile';
+import { VOUCHER_VALIDITY_MONTHS } from '@/lib/env';
+import { getErrorMessage, isApiError } from '@/utils/apiClient';
+import { companyFromProfile } from '@/utils/receipt';
+import { allocateRefund, returnableQuantity, saleTenders, unitRefundAmount } from '@/utils/refunds';
+import { tenderLabel } from '@/utils/tenders';
+import { generateVoucherCode, voucherExpiry, voucherFromIssue } from '@/utils/vouchers';
+import VoucherModal from '@/components/pos/VoucherModal';
+import type { ReturnReason, SaleDetail, SaleDetailLine, SaleStatus, Voucher } from '@/types/pos';
+import type { ReceiptCompany } from '@/types/receipt';
+import { money } from '@/utils/money';
+
+const { Title, Text } = Typography;
+const { Option } = Select;
+
+const RETURN_REASONS: ReturnReason[] = [
+  'Damaged',
+  'Defective',
+  'Wrong item',
+  'Customer changed mind',
+  'Expired',
+  'Overcharged',
+  'Other',
+];
+
+// Goods returned for these reasons cannot go back on the shelf by default
+const NO_RESTOCK_REASONS: ReturnReason[] = ['Damaged', 'Defective', 'Expired'];
+
+const STATUS_COLORS: Record<SaleStatus, string> = {
+  completed: 'green',
+  partially_returned: 'orange',
+  returned: 'blue',
+  voided: 'red',
+};
+
+type LineState = { quantity: number; restock: boolean };
+
+const ReturnsScreen: React.FC = () => {
+  const [messageApi, contextHolder] = message.useMessage();
+  const { isAuthenticated, userName } = useAuth();
+  const { can } = usePermissions();
+  const { shift } = useShift(getUserId());
+
+  const [saleLookup, setSaleLookup] = useState('');
+  const [sale, setSale] = useState<SaleDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [lines, setLines] = useState<Record<number, LineState>>({});
+  const [reason, setReason] = useState<ReturnReason | undefined>(undefined);
+  const [notes, setNotes] = useState('');
+  const [refundTo, setRefundTo] = useState<'original' | 'store_credit'>('original');
+
+  const [voidModalOpen, setVoidModalOpen] = useState(false);
+  const [voidReason, setVoidReason] = useState('');
+  const [company, setCompany] = useState<ReceiptCompany>(() => companyFromProfile(null));
+  const [issuedVoucher, setIssuedVoucher] = useState<Voucher | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    profileApi
+      .get()
+      .then(profile => setCompany(companyFromProfile(profile)))
+      .catch(err => console.warn('Failed to load company details for vouchers:', err));
+  }, [isAuthenticated]);
+
+  const resetForm = (loaded: SaleDetail | null) => {
+    const initial: Record<number, LineState> = {};
+    loaded?.items.forEach(item => {
+      initial[item.id] = { quantity: 0, restock: !item.is_service };
+    });
+    setLines(initial);
+    setReason(undefined);
+    setNotes('');
+    setRefundTo('original');
+  };
+
+  const loadSale = async (id: string = saleLookup) => {
+    // Receipts print the sale id, optionally prefixed (e.g. "#1024" or "S-1024")
+    const saleId = id.trim().replace(/^\D+/, '');
+    if (!saleId) {
+      messageApi.warning('Enter a sale or receipt number.');
+      return;
+    }
+    setLoading(true);
+    try {
+      const data = await salesApi.get(saleId);
+      setSale(data);
+      resetForm(data);
+    } catch (err) {
+      setSale(null);
+      resetForm(null);
+      messageApi.error(
+        isApiError(err) && err.status === 404
+          ? `No sale found for "${id}".`
+          : getErrorMessage(err, 'Failed to load sale.')
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateLine = (itemId: number, patch: Partial<LineState>) =>
+    setLines(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...patch } }));
+
+  const handleReasonChange = (value: ReturnReason) => {
+    setReason(value);
+    const restock = !NO_RESTOCK_REASONS.includes(value);
+    setLines(prev => {
+      const next = { ...prev };
+      sale?.items.forEach(item => {
+        if (!item.is_service && next[item.id]) next[item.id] = { ...next[item.id], restock };
+      });
+      return next;
+    });
+  };
+
+  const returnAll = () => {
+    if (!sale) return;
+    setLines(prev => {
+      const next = { ...prev };
+      sale.items.forEach(item => {
+        next[item.id] = { ...next[item.id], quantity: returnableQuantity(item) };
+      });
+      return next;
+    });
+  };
+
+  const refundTotal = useMemo(() => {
+    if (!sale) return 0;
+    return sale.items.reduce(
+      (sum, item) => sum + (lines[item.id]?.quantity || 0) * unitRefundAmount(item),
+      0
+    );
+  }, [sale, lines]);
+
+  const refundPlan = useMemo(
+    () => (sale ? allocateRefund(refundTotal, sale, refundTo === 'store_credit') : []),
+    [sale, refundTotal, refundTo]
+  );
+
+  const isClosed = sale?.status === 'voided' || sale?.status === 'returned';
+  const hasReturns = !!sale?.items.some(i => (i.returned_quantity || 0) > 0);
+
+  const handleReturn = async () => {
+    if (!sale) return;
+    if (!reason) {
+      messageApi.error('Select a reason for the return.');
+      return;
+    }
+    const returnLines = sale.items
+      .filter(item => (lines[item.id]?.quantity || 0) > 0)
+      .map(item => ({
+        saleItemId: item.id,
+        productId: item.product_id,
+        quantity: lines[item.id].quantity,
+        amount: Number((lines[item.id].quantity * unitRefundAmount(item)).toFixed(2)),
+        restock: !item.is_service && item.product_id !== null && lines[item.id].restock,
+      }));
+    if (returnLines.length === 0) {
+      messageApi.warning('Select at least one item to return.');
+      return;
+    }
+    if (!shift && refundPlan.some(r => r.method === 'Cash')) {
+      messageApi.error('Open a till shift on the POS before refunding cash.');
+      return;
+    }
+
+    // Store credit for a walk-in sale is handed over as a new gift voucher
+    const voucherRefund = refundPlan.find(r => r.method === 'Voucher');
+    const voucher = voucherRefund
+      ? { code: generateVoucherCode(), expiresAt: voucherExpiry(VOUCHER_VALIDITY_MONTHS), recipient: null }
+      : undefined;
+
+    setSubmitting(true);
+    try {
+      await salesApi.createReturn(sale.id, {
+        lines: returnLines,
+        reason,
+        notes,
+        refunds: refundPlan,
+        processedBy: userName,
+        shiftId: shift?.id ?? null,
+        ...(voucher ? { voucher } : {}),
+      });
+      messageApi.success(`Return recorded. Refund ${money(refundTotal)}.`);
+      if (voucher && voucherRefund) setIssuedVoucher(voucherFromIssue(voucher, voucherRefund.amount, null, userName));
+      await loadSale(String(sale.id));
+    } catch (err) {
+      console.error('Failed to record return:', err);
+      messageApi.error(getErrorMessage(err, 'Failed to record return.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleVoid = async () => {
+    if (!sale) return;
+    if (!voidReason.trim()) {
+      messageApi.error('A reason is required to void a sale.');
+      return;
+    }
+    if (!shift && saleTenders(sale).some(t => t.method === 'Cash' && Number(t.amount) > 0)) {
+      messageApi.error('Open a till shift on the POS before voiding a cash sale.');
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await salesApi.void(sale.id, { reason: voidReason.trim(), processedBy: userName, shiftId: shift?.id ?? null });
+      messageApi.success(`Sale #${sale.id} voided.`);
+      setVoidModalOpen(false);
+      setVoidReason('');
+      await loadSale(String(sale.id));
+    } catch (err) {
+      console.error('Failed to void sale:', err);
+      messageApi.error(getErrorMessage(err, 'Failed to void sale.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const columns = [
+    { title: 'Item', dataIndex: 'product_name', key: 'name' },
+    {
+      title: 'Sold',
+      key: 'sold',
+      render: (_: unknown, item: SaleDetailLine) => (
+        <span>
+          {item.quantity}
+          {item.returned_quantity > 0 && (
+            <Text type='secondary'> ({item.returned_quantity} returned)</Text>
+          )}
+        </span>
+      ),
+    },
+    {
+      title: 'Unit (incl. VAT)',
+      key: 'unit',
+      render: (_: unknown, item: SaleDetailLine) => money(unitRefundAmount(item)),
+    },
+    {
+      title: 'Return Qty',
+      key: 'returnQty',
+      render: (_: unknown, item: SaleDetailLine) => (
+        <InputNumber
+          min={0}
+          max={returnableQuantity(item)}
+          value={lines[item.id]?.quantity ?? 0}
+          onChange={value => updateLine(item.id, { quantity: value ?? 0 })}
+          disabled={isClosed || returnableQuantity(item) === 0}
+          style={{ width: 90 }}
+        />
+      ),
+    },
+    {
+      title: 'Restock',
+      key: 'restock',
+      render: (_: unknown, item: SaleDetailLine) => (
+        <Checkbox
+          checked={!!lines[item.id]?.restock}
+          onChange={e => updateLine(item.id, { restock: e.target.checked })}
+          disabled={isClosed || item.is_service || item.product_id === null}
+        />
+      ),
+    },
+    {
+      title: 'Refund',
+      key: 'refund',
+      render: (_: unknown, item: SaleDetailLine) =>
+        money((lines[item.id]?.quantity || 0) * unitRefundAmount(item)),
+    },
+  ];
+
+  return (
+    <>
+      {contextHolder}
+      <div style={{ maxWidth: 900, margin: '0 auto', padding: 12 }}>
+        <Title level={4} style={{ textAlign: 'center', marginBottom: 18 }}>
+          Returns & Refunds
+        </Title>
+
+        <Input.Search
+          placeholder='Sale ID or receipt number'
+          enterButton={<><SearchOutlined /> Find Sale</>}
+          value={saleLookup}
+          onChange={e => setSaleLookup(e.target.value)}
+          onSearch={value => loadSale(value)}
+          loading={loading}
+          disabled={!isAuthenticated}
+          style={{ marginBottom: 16 }}
+        />
+
+        {loading ? (
+          <div style={{ textAlign: 'center', marginTop: 50 }}>
+            <Spin size='large' />
+          </div>
+        ) : !sale ? (
+          <Empty description='Look up a sale to start a return' />
+        ) : (
+          <Card
+            title={
+              <span>
+                Sale #{sale.id} <Tag color={STATUS_COLORS[sale.status]}>{sale.status.replace('_', ' ')}</Tag>
+              </span>
+            }
+            extra={
+              can('sales.void') && (
+                <Button
+                  danger
+                  icon={<StopOutlined />}
+                  onClick={() => setVoidModalOpen(true)}
+                  disabled={isClosed || hasReturns || submitting}
+                >
+                  Void Sale
+                </Button>
+              )
+            }
+          >
+            <div style={{ marginBottom: 12 }}>
+              <div>
+                <Text type='secondary'>Date:</Text> {new Date(sale.created_at).toLocaleString()}
+              </div>
+              <div>
+                <Text type='secondary'>Customer:</Text> {sale.customer_name || 'Walk-in'}
+              </div>
+              <div>
+                <Text type='secondary'>Teller:</Text> {sale.teller_name || '—'}
+              </div>
+              <div>
+                <Text type='secondary'>Paid with:</Text>{' '}
+                {saleTenders(sale).map(t => (
+                  <Tag key={`${t.method}-${t.voucherCode ?? ''}`}>
+                    {tenderLabel(t)} {money(t.amount)}
+                  </Tag>
+                ))}
+                {sale.remaining_credit_amount > 0 && (
+                  <Text type='warning'>Outstanding on account: {money(sale.remaining_credit_amount)}</Text>
+                )}
+              </div>
+              {!!sale.refunds?.length && (
+                <div>
+                  <Text type='secondary'>Already refunded:</Text>{' '}
+                  {sale.refunds.map(r => (
+                    <Tag key={r.method}>
+                      {r.method} {money(r.amount)}
+                    </Tag>
+                  ))}
+                </div>
+              )}
+              <div>
+                <Text strong>Total: {money(sale.total_amount)}</Text>
+              </div>
+            </div>
+
+            <Table
+              dataSource={sale.items}
+              columns={columns}
+              rowKey='id'
+              pagination={false}
+              size='small'
+              scroll={{ x: true }}
+            />
+
+            {!isClosed && (
+              <>
+                <Button type='link' onClick={returnAll} style={{ paddingLeft: 0 }}>
+                  Return all remaining items
+                </Button>
+
+                <Divider />
+
+                <Text strong>Reason</Text>
+                <Select
+                  placeholder='Select a reason'
+                  value={reason}
+                  onChange={handleReasonChange}
+                  style={{ width: '100%', marginBottom: 12 }}
+                >
+                  {RETURN_REASONS.map(r => (
+                    <Option key={r} value={r}>
+                      {r}
+                    </Option>
+                  ))}
+                </Select>
+
+                <Input.TextArea
+                  placeholder='Notes (optional)'
+                  value={notes}
+                  onChange={e => setNotes(e.target.value)}
+                  rows={2}
+                  style={{ marginBottom: 12 }}
+                />
+
+                <Text strong>Refund to</Text>
+                <div style={{ marginBottom: 12 }}>
+                  <Radio.Group value={refundTo} onChange={e => setRefundTo(e.target.value)}>
+                    <Radio value='original'>Original tender</Radio>
+                    <Radio value='store_credit'>{sale.customer_id ? 'Store credit' : 'Gift voucher'}</Radio>
+                  </Radio.Group>
+                </div>
+
+                {refundPlan.length > 0 && (
+                  <div style={{ marginBottom: 12 }}>
+                    {refundPlan.map(r => (
+                      <div key={r.method}>
+                        {r.method === 'Credit'
+                          ? 'Reduce amount owed on account'
+                          : r.method === 'StoreCredit'
+                            ? 'Store credit'
+                            : r.method === 'Voucher'
+                              ? 'New gift voucher'
+                              : r.method === 'Points'
+                                ? 'Back to loyalty points'
+                                : `Refund in ${r.method.toLowerCase()}`}
+                        : <b>{money(r.amount)}</b>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <Button
+                  type='primary'
+                  icon={<RollbackOutlined />}
+                  block
+                  onClick={handleReturn}
+                  loading={submitting}
+                  disabled={!isAuthenticated || refundTotal <= 0 || !reason}
+                >
+                  Process Return ({money(refundTotal)})
+                </Button>
+              </>
+            )}
+          </Card>
+        )}
+
+        {issuedVoucher && (
+          <VoucherModal vouchers={[issuedVoucher]} company={company} onClose={() => setIssuedVoucher(null)} />
+        )}
+
+        <Modal
+          open={voidModalOpen}
+          title={sale ? `Void sale #${sale.id}?` : ''}
+          onCancel={() => setVoidModalOpen(false)}
+          onOk={handleVoid}
+          okText='Void Sale'
+          okButtonProps={{ danger: true, loading: submitting }}
+          destroyOnClose
+        >
+          <p>
+            Every line is returned to stock and the full {sale ? money(sale.total_amount) : ''} is reversed
+            against the original tenders. This cannot be undone.
+          </p>
+          <Input.TextArea
+            placeholder='Reason for voiding (required)'
+            value={voidReason}
+            onChange={e => setVoidReason(e.target.value)}
+            rows={3}
+          />
+        </Modal>
+      </div>
+    </>
+  );
+};
+
+export default ReturnsScreen;
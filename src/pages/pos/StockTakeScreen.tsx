@@ -0,0 +1,760 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Button,
+  Card,
+  Col,
+  Form,
+  Input,
+  InputNumber,
+  List,
+  Modal,
+  Radio,
+  Row,
+  Select,
+  Space,
+  Statistic,
+  Switch,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+  message,
+} from 'antd';
+import type { InputRef } from 'antd';
+import {
+  ArrowLeftOutlined,
+  CheckOutlined,
+  CloseOutlined,
+  FilePdfOutlined,
+  PlusOutlined,
+  PrinterOutlined,
+  StopOutlined,
+} from '@ant-design/icons';
+import { useAuth } from '../../AuthPage';
+import { stockTakesApi } from '@/api/stockTakes';
+import { productsApi } from '@/api/products';
+import { profileApi } from '@/api/profile';
+import { usePermissions } from '@/hooks/usePermissions';
+import { getErrorMessage } from '@/utils/apiClient';
+import { companyFromProfile } from '@/utils/receipt';
+import {
+  countSheetToPdf,
+  countedQuantity,
+  lineVariance,
+  sortForCounting,
+  stockTakeReportToPdf,
+  stockTakeSummary,
+  varianceValue,
+} from '@/utils/stockTake';
+import type {
+  ProductDB,
+  StockTake,
+  StockTakeDecision,
+  StockTakeDetail,
+  StockTakeLine,
+  StockTakePayload,
+  StockTakeScope,
+  StockTakeStatus,
+} from '@/types/pos';
+import type { ReceiptCompany } from '@/types/receipt';
+import { money } from '@/utils/money';
+
+const { Title, Text } = Typography;
+
+const STATUS_COLORS: Record<StockTakeStatus, string> = {
+  counting: 'blue',
+  review: 'gold',
+  posted: 'green',
+  cancelled: 'default',
+};
+
+const SCOPE_LABELS: Record<StockTakeScope, string> = {
+  full: 'All products',
+  category: 'By category',
+  location: 'By location',
+};
+
+type NewStockTakeValues = Pick<StockTakePayload, 'name' | 'scope' | 'categories' | 'locations' | 'blind'>;
+
+interface LineDecision {
+  decision: StockTakeDecision;
+  note: string | null;
+}
+
+/** Stock-take sessions: count sheets, counting on the floor, variance review and posting the adjustments. */
+const StockTakeScreen: React.FC = () => {
+  const [messageApi, contextHolder] = message.useMessage();
+  const { isAuthenticated, userName, activeBranch } = useAuth();
+  const { can } = usePermissions();
+  const [createForm] = Form.useForm<NewStockTakeValues>();
+  const searchRef = useRef<InputRef>(null);
+
+  const [takes, setTakes] = useState<StockTake[]>([]);
+  const [products, setProducts] = useState<ProductDB[]>([]);
+  const [company, setCompany] = useState<ReceiptCompany>(() => companyFromProfile(null));
+  const [statusFilter, setStatusFilter] = useState<StockTakeStatus | undefined>(undefined);
+  const [loading, setLoading] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [take, setTake] = useState<StockTakeDetail | null>(null);
+  const [search, setSearch] = useState('');
+  /** This counter's unsaved counts, by line id. */
+  const [drafts, setDrafts] = useState<Record<number, number | null>>({});
+  const [decisions, setDecisions] = useState<Record<number, LineDecision>>({});
+  const [showAllLines, setShowAllLines] = useState(false);
+
+  const scope = Form.useWatch('scope', createForm) ?? 'full';
+  const counter = userName || 'Unknown';
+
+  const loadTakes = useCallback(async () => {
+    setLoading(true);
+    try {
+      setTakes((await stockTakesApi.list({ status: statusFilter })) || []);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to load stock takes.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, messageApi]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    loadTakes();
+  }, [isAuthenticated, loadTakes]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    productsApi
+      .list()
+      .then(data => setProducts(data || []))
+      .catch(err => console.warn('Failed to load products for stock take:', err));
+    profileApi
+      .get()
+      .then(profile => setCompany(companyFromProfile(profile)))
+      .catch(err => console.warn('Failed to load company details for stock take:', err));
+  }, [isAuthenticated]);
+
+  const categories = useMemo(
+    () => [...new Set(products.map(p => p.category).filter((c): c is string => !!c))].sort(),
+    [products]
+  );
+  const locations = useMemo(
+    () => [...new Set(products.map(p => p.location).filter((l): l is string => !!l))].sort(),
+    [products]
+  );
+
+  const showTake = (detail: StockTakeDetail) => {
+    setTake(detail);
+    setDrafts({});
+    setDecisions(
+      Object.fromEntries(detail.lines.map(l => [l.id, { decision: l.decision, note: l.review_note }]))
+    );
+  };
+
+  const openTake = async (stockTakeId: number) => {
+    setLoading(true);
+    try {
+      showTake(await stockTakesApi.get(stockTakeId));
+      setSearch('');
+      setShowAllLines(false);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to load the stock take.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const backToList = () => {
+    if (Object.keys(drafts).length > 0) {
+      Modal.confirm({
+        title: 'Discard unsaved counts?',
+        content: 'Counts you have entered but not saved will be lost.',
+        okText: 'Discard',
+        okButtonProps: { danger: true },
+        onOk: () => {
+          setTake(null);
+          loadTakes();
+        },
+      });
+      return;
+    }
+    setTake(null);
+    loadTakes();
+  };
+
+  const handleCreate = async () => {
+    const values = await createForm.validateFields();
+    setSaving(true);
+    try {
+      const created = await stockTakesApi.create({
+        name: values.name.trim(),
+        scope: values.scope,
+        categories: values.scope === 'category' ? values.categories : [],
+        locations: values.scope === 'location' ? values.locations : [],
+        blind: values.blind,
+        branch: activeBranch,
+        createdBy: userName,
+      });
+      messageApi.success(`Stock take opened with ${created.lines.length} products to count.`);
+      setCreateOpen(false);
+      showTake(created);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to open the stock take.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const myCount = (line: StockTakeLine) => line.counts.find(c => c.counter === counter)?.quantity ?? null;
+
+  const handleSaveCounts = async () => {
+    if (!take) return;
+    const counts = Object.entries(drafts)
+      .filter((entry): entry is [string, number] => entry[1] !== null)
+      .map(([lineId, quantity]) => ({ lineId: Number(lineId), quantity }));
+    if (counts.length === 0) {
+      messageApi.info('No new counts to save.');
+      return;
+    }
+    setSaving(true);
+    try {
+      showTake(await stockTakesApi.saveCounts(take.id, { counter, counts }));
+      messageApi.success(`Saved ${counts.length} count${counts.length === 1 ? '' : 's'}.`);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to save counts.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCloseCounting = () => {
+    if (!take) return;
+    if (Object.keys(drafts).length > 0) {
+      messageApi.error('Save or clear your counts before closing counting.');
+      return;
+    }
+    const uncounted = take.lines.filter(l => countedQuantity(l) === null).length;
+    Modal.confirm({
+      title: 'Close counting?',
+      content: uncounted
+        ? `${uncounted} product${uncounted === 1 ? ' has' : 's have'} not been counted and will be left as they are.`
+        : 'Counters will no longer be able to add counts to this session.',
+      okText: 'Close counting',
+      onOk: async () => {
+        try {
+          showTake(await stockTakesApi.close(take.id));
+          messageApi.success('Counting closed. Review the variances.');
+        } catch (err) {
+          messageApi.error(getErrorMessage(err, 'Failed to close counting.'));
+        }
+      },
+    });
+  };
+
+  const decisionPayload = () =>
+    Object.entries(decisions).map(([lineId, d]) => ({
+      lineId: Number(lineId),
+      decision: d.decision,
+      note: d.note?.trim() || null,
+    }));
+
+  const handleSaveDecisions = async () => {
+    if (!take) return;
+    setSaving(true);
+    try {
+      showTake(await stockTakesApi.saveDecisions(take.id, { decisions: decisionPayload(), reviewedBy: userName }));
+      messageApi.success('Review saved.');
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to save the review.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setAllDecisions = (decision: StockTakeDecision) => {
+    if (!take) return;
+    setDecisions(prev => {
+      const next = { ...prev };
+      take.lines.forEach(l => {
+        if ((lineVariance(l) ?? 0) !== 0) next[l.id] = { ...next[l.id], decision };
+      });
+      return next;
+    });
+  };
+
+  const handlePost = () => {
+    if (!take) return;
+    const reviewed = take.lines.map(l => ({ ...l, decision: decisions[l.id]?.decision ?? l.decision }));
+    const summary = stockTakeSummary(reviewed);
+    const approved = reviewed.filter(l => l.decision === 'approved' && (lineVariance(l) ?? 0) !== 0).length;
+    if (approved === 0) {
+      messageApi.error('Approve at least one variance to post.');
+      return;
+    }
+    Modal.confirm({
+      title: 'Post approved variances?',
+      content: (
+        <>
+          {approved} stock adjustment{approved === 1 ? '' : 's'} worth {money(summary.approvedValue)} at cost will be
+          posted.
+          {summary.pending > 0 && <div>{summary.pending} variance(s) still pending will not be adjusted.</div>}
+        </>
+      ),
+      okText: 'Post',
+      onOk: async () => {
+        try {
+          await stockTakesApi.saveDecisions(take.id, { decisions: decisionPayload(), reviewedBy: userName });
+          const result = await stockTakesApi.post(take.id, { postedBy: userName });
+          messageApi.success(`Posted ${result.adjustments} adjustments (${money(result.value)}).`);
+          showTake(await stockTakesApi.get(take.id));
+        } catch (err) {
+          messageApi.error(getErrorMessage(err, 'Failed to post the stock take.'));
+        }
+      },
+    });
+  };
+
+  const handleCancel = () => {
+    if (!take) return;
+    Modal.confirm({
+      title: 'Cancel this stock take?',
+      content: 'Counts are kept for reference but no stock will be adjusted.',
+      okText: 'Cancel stock take',
+      okButtonProps: { danger: true },
+      cancelText: 'Keep',
+      onOk: async () => {
+        try {
+          await stockTakesApi.cancel(take.id);
+          messageApi.success('Stock take cancelled.');
+          setTake(null);
+          loadTakes();
+        } catch (err) {
+          messageApi.error(getErrorMessage(err, 'Failed to cancel the stock take.'));
+        }
+      },
+    });
+  };
+
+  const visibleLines = useMemo(() => {
+    if (!take) return [];
+    const term = search.trim().toLowerCase();
+    return sortForCounting(take.lines).filter(
+      l =>
+        !term ||
+        l.product_name.toLowerCase().includes(term) ||
+        (l.sku ?? '').toLowerCase() === term ||
+        (l.location ?? '').toLowerCase().includes(term)
+    );
+  }, [take, search]);
+
+  /** A scanned or typed SKU that matches one line jumps straight to its count box. */
+  const handleSearchEnter = () => {
+    if (visibleLines.length !== 1) return;
+    document.getElementById(`count-${visibleLines[0].id}`)?.focus();
+  };
+
+  const reviewLines = take
+    ? sortForCounting(take.lines)
+        .map(l => ({ ...l, decision: decisions[l.id]?.decision ?? l.decision }))
+        .filter(l => showAllLines || (lineVariance(l) ?? 0) !== 0)
+    : [];
+  const summary = take
+    ? stockTakeSummary(take.lines.map(l => ({ ...l, decision: decisions[l.id]?.decision ?? l.decision })))
+    : null;
+
+  const printButtons = take && (
+    <Space wrap>
+      {take.status === 'counting' && (
+        <Button
+          icon={<PrinterOutlined />}
+          onClick={() => countSheetToPdf(take, take.lines, company).save(`count-sheet-${take.id}.pdf`)}
+        >
+          Count sheet
+        </Button>
+      )}
+      {take.status !== 'counting' && (
+        <Button
+          icon={<FilePdfOutlined />}
+          onClick={() => stockTakeReportToPdf(take, take.lines, company).save(`stock-take-${take.id}.pdf`)}
+        >
+          Variance report
+        </Button>
+      )}
+      {(take.status === 'counting' || take.status === 'review') && (
+        <Button danger icon={<StopOutlined />} onClick={handleCancel}>
+          Cancel stock take
+        </Button>
+      )}
+    </Space>
+  );
+
+  const renderCounting = (detail: StockTakeDetail) => (
+    <>
+      <Space wrap style={{ marginBottom: 12, width: '100%', justifyContent: 'space-between' }}>
+        <Input.Search
+          ref={searchRef}
+          allowClear
+          size='large'
+          placeholder='Scan SKU or search product / location'
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          onSearch={handleSearchEnter}
+          style={{ width: 340, maxWidth: '100%' }}
+        />
+        <Space wrap>
+          <Button onClick={() => setDrafts({})} disabled={Object.keys(drafts).length === 0}>
+            Clear
+          </Button>
+          <Button type='primary' loading={saving} onClick={handleSaveCounts}>
+            Save my counts ({Object.keys(drafts).length})
+          </Button>
+          <Button onClick={handleCloseCounting}>Close counting</Button>
+        </Space>
+      </Space>
+      <List<StockTakeLine>
+        bordered
+        dataSource={visibleLines}
+        pagination={{ pageSize: 30, size: 'small' }}
+        renderItem={line => {
+          const mine = myCount(line);
+          const others = line.counts.filter(c => c.counter !== counter);
+          return (
+            <List.Item
+              extra={
+                <InputNumber
+                  id={`count-${line.id}`}
+                  size='large'
+                  min={0}
+                  inputMode='decimal'
+                  placeholder={mine === null ? 'Count' : String(mine)}
+                  value={line.id in drafts ? drafts[line.id] : mine}
+                  onChange={v => setDrafts(prev => ({ ...prev, [line.id]: v }))}
+                  onPressEnter={() => searchRef.current?.focus()}
+                  style={{ width: 120 }}
+                />
+              }
+            >
+              <List.Item.Meta
+                title={line.product_name}
+                description={
+                  <Space size={4} wrap>
+                    {line.location && <Tag>{line.location}</Tag>}
+                    {line.sku && <Text type='secondary'>{line.sku}</Text>}
+                    {!detail.blind && line.expected_quantity !== null && (
+                      <Text type='secondary'>
+                        · expected {line.expected_quantity} {line.unit ?? ''}
+                      </Text>
+                    )}
+                    {others.length > 0 && (
+                      <Tooltip title={others.map(c => `${c.counter}: ${c.quantity}`).join(', ')}>
+                        <Text type='secondary'>· {others.length} other count{others.length === 1 ? '' : 's'}</Text>
+                      </Tooltip>
+                    )}
+                    {line.id in drafts && <Tag color='orange'>unsaved</Tag>}
+                  </Space>
+                }
+              />
+            </List.Item>
+          );
+        }}
+      />
+      <Text type='secondary'>
+        {detail.blind ? 'Blind count: expected quantities are hidden. ' : ''}
+        Where several people count the same product in different places, their counts are added together. Saving a
+        count again replaces your own earlier count.
+      </Text>
+    </>
+  );
+
+  const renderReview = (detail: StockTakeDetail) => {
+    const editable = detail.status === 'review' && can('stocktake.approve');
+    return (
+      <>
+        <Space wrap style={{ marginBottom: 12, width: '100%', justifyContent: 'space-between' }}>
+          <Space>
+            <Switch checked={showAllLines} onChange={setShowAllLines} />
+            <Text>Show lines without a variance</Text>
+          </Space>
+          {editable && (
+            <Space wrap>
+              <Button icon={<CheckOutlined />} onClick={() => setAllDecisions('approved')}>
+                Approve all
+              </Button>
+              <Button icon={<CloseOutlined />} onClick={() => setAllDecisions('rejected')}>
+                Reject all
+              </Button>
+              <Button loading={saving} onClick={handleSaveDecisions}>
+                Save review
+              </Button>
+              <Button type='primary' onClick={handlePost}>
+                Post approved
+              </Button>
+            </Space>
+          )}
+        </Space>
+        <Table<StockTakeLine>
+          rowKey='id'
+          size='small'
+          dataSource={reviewLines}
+          pagination={{ pageSize: 50 }}
+          scroll={{ x: 900 }}
+          columns={[
+            {
+              title: 'Product',
+              key: 'product',
+              render: (_, l) => (
+                <>
+                  <div>{l.product_name}</div>
+                  <Text type='secondary'>{[l.sku, l.location].filter(Boolean).join(' · ')}</Text>
+                </>
+              ),
+            },
+            { title: 'Expected', dataIndex: 'expected_quantity', align: 'right' },
+            {
+              title: 'Counted',
+              key: 'counted',
+              align: 'right',
+              render: (_, l) => {
+                const counted = countedQuantity(l);
+                if (counted === null) return <Text type='secondary'>Not counted</Text>;
+                return (
+                  <Tooltip title={l.counts.map(c => `${c.counter}: ${c.quantity}`).join(', ')}>{counted}</Tooltip>
+                );
+              },
+            },
+            {
+              title: 'Variance',
+              key: 'variance',
+              align: 'right',
+              render: (_, l) => {
+                const variance = lineVariance(l);
+                if (variance === null || variance === 0) return '-';
+                return <Text type={variance < 0 ? 'danger' : 'success'}>{variance > 0 ? `+${variance}` : variance}</Text>;
+              },
+            },
+            {
+              title: 'Value',
+              key: 'value',
+              align: 'right',
+              render: (_, l) => ((lineVariance(l) ?? 0) === 0 ? '-' : money(varianceValue(l))),
+            },
+            {
+              title: 'Decision',
+              key: 'decision',
+              render: (_, l) => {
+                if ((lineVariance(l) ?? 0) === 0) return null;
+                if (!editable) {
+                  return (
+                    <Tag color={l.decision === 'approved' ? 'green' : l.decision === 'rejected' ? 'red' : 'default'}>
+                      {l.decision}
+                    </Tag>
+                  );
+                }
+                return (
+                  <Radio.Group
+                    size='small'
+                    optionType='button'
+                    value={l.decision}
+                    onChange={e =>
+                      setDecisions(prev => ({ ...prev, [l.id]: { ...prev[l.id], decision: e.target.value } }))
+                    }
+                    options={[
+                      { label: 'Approve', value: 'approved' },
+                      { label: 'Reject', value: 'rejected' },
+                    ]}
+                  />
+                );
+              },
+            },
+            {
+              title: 'Note',
+              key: 'note',
+              render: (_, l) =>
+                editable && (lineVariance(l) ?? 0) !== 0 ? (
+                  <Input
+                    size='small'
+                    placeholder='Reason for the variance'
+                    value={decisions[l.id]?.note ?? ''}
+                    onChange={e =>
+                      setDecisions(prev => ({ ...prev, [l.id]: { ...prev[l.id], note: e.target.value } }))
+                    }
+                  />
+                ) : (
+                  l.review_note || ''
+                ),
+            },
+          ]}
+        />
+        {detail.status === 'review' && !can('stocktake.approve') && (
+          <Text type='secondary'>A manager needs to approve the variances before they are posted.</Text>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <>
+      {contextHolder}
+      <div style={{ padding: 18 }}>
+        {take && summary ? (
+          <>
+            <Space wrap style={{ marginBottom: 12, width: '100%', justifyContent: 'space-between' }}>
+              <Space wrap>
+                <Button icon={<ArrowLeftOutlined />} onClick={backToList} />
+                <Title level={3} style={{ margin: 0 }}>
+                  {take.name}
+                </Title>
+                <Tag color={STATUS_COLORS[take.status]}>{take.status}</Tag>
+                {take.blind && <Tag>blind</Tag>}
+              </Space>
+              {printButtons}
+            </Space>
+            <Row gutter={16} style={{ marginBottom: 16 }}>
+              <Col xs={12} md={4}>
+                <Card size='small'>
+                  <Statistic title='Counted' value={summary.counted} suffix={`/ ${summary.lines}`} />
+                </Card>
+              </Col>
+              {take.status !== 'counting' && (
+                <>
+                  <Col xs={12} md={5}>
+                    <Card size='small'>
+                      <Statistic title={`Variances (${summary.pending} pending)`} value={summary.withVariance} />
+                    </Card>
+                  </Col>
+                  <Col xs={12} md={5}>
+                    <Card size='small'>
+                      <Statistic title='Found' value={money(summary.gainValue)} valueStyle={{ color: 'green' }} />
+                    </Card>
+                  </Col>
+                  <Col xs={12} md={5}>
+                    <Card size='small'>
+                      <Statistic title='Missing' value={money(summary.lossValue)} valueStyle={{ color: 'red' }} />
+                    </Card>
+                  </Col>
+                  <Col xs={24} md={5}>
+                    <Card size='small'>
+                      <Statistic
+                        title={take.status === 'posted' ? 'Posted' : 'Approved'}
+                        value={money(summary.approvedValue)}
+                      />
+                    </Card>
+                  </Col>
+                </>
+              )}
+            </Row>
+            {take.status === 'counting' ? renderCounting(take) : renderReview(take)}
+            {take.status === 'posted' && (
+              <Text type='secondary'>
+                Posted by {take.posted_by ?? 'unknown'}
+                {take.posted_at && ` on ${new Date(take.posted_at).toLocaleString()}`}.
+              </Text>
+            )}
+          </>
+        ) : (
+          <>
+            <Title level={3}>Stock Take</Title>
+            <Space style={{ marginBottom: 12 }}>
+              <Select
+                allowClear
+                placeholder='All sessions'
+                value={statusFilter}
+                onChange={setStatusFilter}
+                options={(Object.keys(STATUS_COLORS) as StockTakeStatus[]).map(s => ({ label: s, value: s }))}
+                style={{ width: 160 }}
+              />
+              <Button
+                type='primary'
+                icon={<PlusOutlined />}
+                onClick={() => {
+                  createForm.resetFields();
+                  setCreateOpen(true);
+                }}
+              >
+                New stock take
+              </Button>
+            </Space>
+            <Table<StockTake>
+              rowKey='id'
+              loading={loading}
+              dataSource={takes}
+              onRow={t => ({ onClick: () => openTake(t.id), style: { cursor: 'pointer' } })}
+              columns={[
+                { title: 'Name', dataIndex: 'name' },
+                {
+                  title: 'Scope',
+                  key: 'scope',
+                  render: (_, t) => (
+                    <>
+                      {SCOPE_LABELS[t.scope]}
+                      {t.scope !== 'full' && (
+                        <Text type='secondary'> ({(t.scope === 'category' ? t.categories : t.locations).join(', ')})</Text>
+                      )}
+                    </>
+                  ),
+                },
+                {
+                  title: 'Status',
+                  dataIndex: 'status',
+                  render: (s: StockTakeStatus) => <Tag color={STATUS_COLORS[s]}>{s}</Tag>,
+                },
+                { title: 'Counted', key: 'counted', render: (_, t) => `${t.counted_count} / ${t.line_count}` },
+                { title: 'Opened', dataIndex: 'created_at', render: (d: string) => new Date(d).toLocaleDateString() },
+                { title: 'By', dataIndex: 'created_by', render: (u: string | null) => u || '-' },
+              ]}
+            />
+          </>
+        )}
+      </div>
+
+      <Modal
+        open={createOpen}
+        title='New stock take'
+        okText='Open session'
+        okButtonProps={{ loading: saving }}
+        onOk={handleCreate}
+        onCancel={() => setCreateOpen(false)}
+      >
+        <Form
+          form={createForm}
+          layout='vertical'
+          initialValues={{ scope: 'full', categories: [], locations: [], blind: true }}
+        >
+          <Form.Item name='name' label='Name' rules={[{ required: true, whitespace: true, message: 'Name the session' }]}>
+            <Input placeholder='e.g. Month-end count' />
+          </Form.Item>
+          <Form.Item name='scope' label='Count'>
+            <Radio.Group
+              options={(Object.keys(SCOPE_LABELS) as StockTakeScope[]).map(s => ({ label: SCOPE_LABELS[s], value: s }))}
+            />
+          </Form.Item>
+          {scope === 'category' && (
+            <Form.Item
+              name='categories'
+              label='Categories'
+              rules={[{ required: true, type: 'array', min: 1, message: 'Pick at least one category' }]}
+            >
+              <Select mode='multiple' options={categories.map(c => ({ label: c, value: c }))} />
+            </Form.Item>
+          )}
+          {scope === 'location' && (
+            <Form.Item
+              name='locations'
+              label='Locations'
+              rules={[{ required: true, type: 'array', min: 1, message: 'Pick at least one location' }]}
+            >
+              <Select mode='multiple' options={locations.map(l => ({ label: l, value: l }))} />
+            </Form.Item>
+          )}
+          <Form.Item name='blind' label='Blind count' valuePropName='checked' extra='Hide expected quantities from counters.'>
+            <Switch />
+          </Form.Item>
+        </Form>
+        <Text type='secondary'>Expected quantities are taken from stock on hand when the session opens.</Text>
+      </Modal>
+    </>
+  );
+};
+
+export default StockTakeScreen;
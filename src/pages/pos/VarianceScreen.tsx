@@ -0,0 +1,391 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  Col,
+  DatePicker,
+  Form,
+  InputNumber,
+  List,
+  Modal,
+  Row,
+  Select,
+  Statistic,
+  Table,
+  Tag,
+  Typography,
+  message,
+} from 'antd';
+import { SettingOutlined, CheckOutlined } from '@ant-design/icons';
+import dayjs, { Dayjs } from 'dayjs';
+import { useAuth } from '../../AuthPage';
+import { reconciliationApi } from '@/api/reconciliation';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useVarianceAlerts } from '@/hooks/useVarianceAlerts';
+import { getErrorMessage } from '@/utils/apiClient';
+import {
+  DEFAULT_VARIANCE_SETTINGS,
+  branchVarianceStats,
+  needsAttention,
+  runningVariance,
+  tellerVarianceStats,
+  type BranchVarianceStats,
+} from '@/utils/varianceAnalytics';
+import type { TellerDayRow, TellerVarianceStats, VarianceSettings } from '@/types/pos';
+import { money } from '@/utils/money';
+
+const { Title, Text } = Typography;
+const { RangePicker } = DatePicker;
+
+const varianceColor = (v: number) => (v < 0 ? 'red' : v > 0 ? 'blue' : 'inherit');
+
+/** Shortage/overage patterns per teller and branch, with the manager alert inbox. */
+const VarianceScreen: React.FC = () => {
+  const [messageApi, contextHolder] = message.useMessage();
+  const { isAuthenticated } = useAuth();
+  const { can } = usePermissions();
+  const [form] = Form.useForm<VarianceSettings>();
+
+  const [range, setRange] = useState<[Dayjs, Dayjs]>([dayjs().subtract(29, 'day'), dayjs()]);
+  const [branch, setBranch] = useState<string | undefined>(undefined);
+  const [rows, setRows] = useState<TellerDayRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [settings, setSettings] = useState<VarianceSettings>(DEFAULT_VARIANCE_SETTINGS);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  const canManage = can('variance.alerts');
+  const { alerts, acknowledge } = useVarianceAlerts(isAuthenticated && canManage);
+
+  const fromStr = range[0].format('YYYY-MM-DD');
+  const toStr = range[1].format('YYYY-MM-DD');
+
+  const loadAnalytics = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await reconciliationApi.analytics({ from: fromStr, to: toStr });
+      setRows(
+        (data || []).map(r => ({ ...r, variance: r.variance === null ? null : Number(r.variance) || 0 })),
+      );
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to load variance analytics.'));
+      setRows([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [messageApi, fromStr, toStr]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    loadAnalytics();
+  }, [isAuthenticated, loadAnalytics]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    reconciliationApi
+      .varianceSettings()
+      .then(data => data && setSettings({ ...DEFAULT_VARIANCE_SETTINGS, ...data }))
+      .catch(err => console.warn('Failed to load variance settings, using defaults:', err));
+  }, [isAuthenticated]);
+
+  const branchOptions = useMemo(
+    () => Array.from(new Set(rows.map(r => r.branch).filter((b): b is string => !!b))).sort(),
+    [rows],
+  );
+
+  const filteredRows = useMemo(() => rows.filter(r => !branch || r.branch === branch), [rows, branch]);
+  const tellerStats = useMemo(
+    () => tellerVarianceStats(filteredRows, settings.tolerance),
+    [filteredRows, settings.tolerance],
+  );
+  const branchStats = useMemo(() => branchVarianceStats(tellerStats), [tellerStats]);
+
+  const totals = tellerStats.reduce(
+    (acc, s) => ({
+      shortage: acc.shortage + s.shortageTotal,
+      overage: acc.overage + s.overageTotal,
+      missed: acc.missed + s.missedDays,
+      flagged: acc.flagged + (needsAttention(s, settings) ? 1 : 0),
+    }),
+    { shortage: 0, overage: 0, missed: 0, flagged: 0 },
+  );
+
+  const handleSaveSettings = async () => {
+    const values = await form.validateFields();
+    setSavingSettings(true);
+    try {
+      const saved = await reconciliationApi.saveVarianceSettings(values);
+      setSettings({ ...DEFAULT_VARIANCE_SETTINGS, ...(saved || values) });
+      setSettingsOpen(false);
+      messageApi.success('Variance thresholds saved.');
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to save variance thresholds.'));
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleAcknowledge = async (id: number) => {
+    try {
+      await acknowledge(id);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to acknowledge the alert.'));
+    }
+  };
+
+  const renderRunning = (s: TellerVarianceStats) => (
+    <Table
+      rowKey='day'
+      size='small'
+      pagination={false}
+      dataSource={runningVariance(filteredRows.filter(r => r.tellerId === s.tellerId))}
+      columns={[
+        { title: 'Day', dataIndex: 'day', render: (d: string) => dayjs(d).format('YYYY-MM-DD') },
+        {
+          title: 'Variance',
+          dataIndex: 'variance',
+          render: (v: number) => <span style={{ color: varianceColor(v) }}>{money(v)}</span>,
+        },
+        {
+          title: 'Running net',
+          dataIndex: 'running',
+          render: (v: number) => <b style={{ color: varianceColor(v) }}>{money(v)}</b>,
+        },
+      ]}
+    />
+  );
+
+  return (
+    <>
+      {contextHolder}
+      <div style={{ padding: 18 }}>
+        <Row justify='space-between' align='middle' style={{ marginBottom: 12 }} gutter={[8, 8]}>
+          <Col>
+            <Title level={3} style={{ margin: 0 }}>Teller Variance</Title>
+            <Text type='secondary'>
+              Tolerance ±{money(settings.tolerance)} · alert after {settings.missedDaysAlert} missed day(s)
+            </Text>
+          </Col>
+          <Col>
+            <Select
+              allowClear
+              placeholder='All branches'
+              value={branch}
+              onChange={setBranch}
+              options={branchOptions.map(b => ({ label: b, value: b }))}
+              style={{ minWidth: 160, marginRight: 8 }}
+            />
+            <RangePicker
+              allowClear={false}
+              value={range}
+              onChange={vals => {
+                if (!vals || !vals[0] || !vals[1]) return;
+                setRange([vals[0], vals[1]]);
+              }}
+              style={{ marginRight: 8 }}
+            />
+            {canManage && (
+              <Button icon={<SettingOutlined />} onClick={() => setSettingsOpen(true)}>
+                Thresholds
+              </Button>
+            )}
+          </Col>
+        </Row>
+
+        {canManage && alerts.length > 0 && (
+          <Card title={`Open alerts (${alerts.length})`} size='small' style={{ marginBottom: 12 }}>
+            <List
+              size='small'
+              dataSource={alerts}
+              renderItem={alert => (
+                <List.Item
+                  actions={[
+                    <Button
+                      key='ack'
+                      size='small'
+                      icon={<CheckOutlined />}
+                      onClick={() => handleAcknowledge(alert.id)}
+                    >
+                      Acknowledge
+                    </Button>,
+                  ]}
+                >
+                  <List.Item.Meta
+                    title={
+                      <>
+                        <Tag color={alert.kind === 'missed' ? 'orange' : 'red'}>
+                          {alert.kind === 'missed' ? 'Missed cash-up' : 'Over tolerance'}
+                        </Tag>
+                        {alert.tellerName} {alert.branch ? <Tag>{alert.branch}</Tag> : null}
+                      </>
+                    }
+                    description={`${dayjs(alert.day).format('YYYY-MM-DD')} · ${alert.message}`}
+                  />
+                </List.Item>
+              )}
+            />
+          </Card>
+        )}
+
+        <Row gutter={12} style={{ marginBottom: 12 }}>
+          <Col xs={12} md={6}>
+            <Card size='small'>
+              <Statistic title='Shortages' value={totals.shortage} precision={2} prefix='R' valueStyle={{ color: 'red' }} />
+            </Card>
+          </Col>
+          <Col xs={12} md={6}>
+            <Card size='small'>
+              <Statistic title='Overages' value={totals.overage} precision={2} prefix='R' valueStyle={{ color: '#1677ff' }} />
+            </Card>
+          </Col>
+          <Col xs={12} md={6}>
+            <Card size='small'>
+              <Statistic title='Missed cash-ups' value={totals.missed} />
+            </Card>
+          </Col>
+          <Col xs={12} md={6}>
+            <Card size='small'>
+              <Statistic title='Tellers needing attention' value={totals.flagged} />
+            </Card>
+          </Col>
+        </Row>
+
+        {totals.flagged > 0 && (
+          <Alert
+            type='warning'
+            showIcon
+            style={{ marginBottom: 12 }}
+            message='Some tellers are currently short or over beyond tolerance, or have skipped reconciliations.'
+          />
+        )}
+
+        <Card title='By teller' style={{ marginBottom: 12 }}>
+          <Table<TellerVarianceStats>
+            rowKey='tellerId'
+            dataSource={tellerStats}
+            loading={loading}
+            size='small'
+            pagination={{ pageSize: 20 }}
+            expandable={{ expandedRowRender: renderRunning }}
+            columns={[
+              {
+                title: 'Teller',
+                render: (_, s) => (
+                  <>
+                    {s.tellerName} {s.branch ? <Tag>{s.branch}</Tag> : null}
+                    {needsAttention(s, settings) && <Tag color='red'>Attention</Tag>}
+                  </>
+                ),
+              },
+              { title: 'Days', dataIndex: 'days' },
+              {
+                title: 'Short',
+                render: (_, s) => `${s.shortDays} (${Math.round(s.shortFrequency * 100)}%)`,
+                sorter: (a, b) => a.shortFrequency - b.shortFrequency,
+              },
+              { title: 'Over', dataIndex: 'overDays' },
+              {
+                title: 'Shortage',
+                dataIndex: 'shortageTotal',
+                render: (v: number) => <span style={{ color: 'red' }}>{money(v)}</span>,
+                sorter: (a, b) => a.shortageTotal - b.shortageTotal,
+              },
+              {
+                title: 'Overage',
+                dataIndex: 'overageTotal',
+                render: (v: number) => <span style={{ color: '#1677ff' }}>{money(v)}</span>,
+              },
+              {
+                title: 'Net',
+                dataIndex: 'netVariance',
+                render: (v: number) => <b style={{ color: varianceColor(v) }}>{money(v)}</b>,
+                sorter: (a, b) => a.netVariance - b.netVariance,
+              },
+              {
+                title: 'Short streak',
+                render: (_, s) => `${s.currentShortStreak} (longest ${s.longestShortStreak})`,
+                sorter: (a, b) => a.currentShortStreak - b.currentShortStreak,
+              },
+              {
+                title: 'Missed',
+                render: (_, s) => (
+                  <span style={{ color: s.currentMissedStreak >= settings.missedDaysAlert ? 'red' : 'inherit' }}>
+                    {s.missedDays}
+                    {s.currentMissedStreak > 0 ? ` (${s.currentMissedStreak} since last)` : ''}
+                  </span>
+                ),
+                sorter: (a, b) => a.missedDays - b.missedDays,
+              },
+            ]}
+          />
+        </Card>
+
+        <Card title='By branch'>
+          <Table<BranchVarianceStats>
+            rowKey='branch'
+            dataSource={branchStats}
+            loading={loading}
+            size='small'
+            pagination={false}
+            columns={[
+              { title: 'Branch', dataIndex: 'branch' },
+              { title: 'Tellers', dataIndex: 'tellers' },
+              {
+                title: 'Short days',
+                render: (_, b) => `${b.shortDays} / ${b.days}`,
+              },
+              {
+                title: 'Shortage',
+                dataIndex: 'shortageTotal',
+                render: (v: number) => <span style={{ color: 'red' }}>{money(v)}</span>,
+              },
+              {
+                title: 'Overage',
+                dataIndex: 'overageTotal',
+                render: (v: number) => <span style={{ color: '#1677ff' }}>{money(v)}</span>,
+              },
+              {
+                title: 'Net',
+                dataIndex: 'netVariance',
+                render: (v: number) => <b style={{ color: varianceColor(v) }}>{money(v)}</b>,
+              },
+              { title: 'Missed', dataIndex: 'missedDays' },
+            ]}
+          />
+        </Card>
+
+        <Modal
+          open={settingsOpen}
+          title='Variance thresholds'
+          onCancel={() => setSettingsOpen(false)}
+          onOk={handleSaveSettings}
+          okText='Save'
+          confirmLoading={savingSettings}
+          destroyOnClose
+        >
+          <Form form={form} layout='vertical' initialValues={settings} preserve={false}>
+            <Form.Item
+              name='tolerance'
+              label='Tolerance (R)'
+              extra='Variances within plus or minus this amount count as balanced and raise no alert.'
+              rules={[{ required: true, message: 'Enter a tolerance.' }]}
+            >
+              <InputNumber min={0} step={1} precision={2} prefix='R' style={{ width: '100%' }} />
+            </Form.Item>
+            <Form.Item
+              name='missedDaysAlert'
+              label='Alert after missed days'
+              extra='Managers are alerted once a teller has traded this many days in a row without a reconciliation.'
+              rules={[{ required: true, message: 'Enter the number of days.' }]}
+            >
+              <InputNumber min={1} precision={0} style={{ width: '100%' }} />
+            </Form.Item>
+          </Form>
+        </Modal>
+      </div>
+    </>
+  );
+};
+
+export default VarianceScreen;
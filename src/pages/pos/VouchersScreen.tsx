@@ -0,0 +1,333 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Button,
+  Card,
+  Col,
+  Input,
+  Modal,
+  Row,
+  Select,
+  Space,
+  Statistic,
+  Table,
+  Tabs,
+  Tag,
+  Typography,
+  message,
+} from 'antd';
+import { FilePdfOutlined, PrinterOutlined, StopOutlined } from '@ant-design/icons';
+import { useAuth } from '../../AuthPage';
+import { vouchersApi } from '@/api/vouchers';
+import { customersApi } from '@/api/customers';
+import { profileApi } from '@/api/profile';
+import { usePermissions } from '@/hooks/usePermissions';
+import { getErrorMessage } from '@/utils/apiClient';
+import { companyFromProfile } from '@/utils/receipt';
+import { LIABILITY_HORIZONS, liabilitySummary, liabilityToPdf, voucherStatus } from '@/utils/vouchers';
+import VoucherModal from '@/components/pos/VoucherModal';
+import type { CustomerBackend, Voucher, VoucherStatus, VoucherTransaction } from '@/types/pos';
+import type { ReceiptCompany } from '@/types/receipt';
+import { money } from '@/utils/money';
+
+const { Title, Text } = Typography;
+
+const STATUS_COLORS: Record<VoucherStatus, string> = {
+  active: 'green',
+  redeemed: 'default',
+  expired: 'orange',
+  void: 'red',
+};
+
+const TRANSACTION_LABELS: Record<VoucherTransaction['type'], string> = {
+  issue: 'Issued',
+  redeem: 'Redeemed',
+  refund: 'Refunded to voucher',
+  void: 'Cancelled',
+  expire: 'Expired',
+};
+
+/** Gift vouchers, store credit balances and the outstanding liability for the balance sheet. */
+const VouchersScreen: React.FC = () => {
+  const [messageApi, contextHolder] = message.useMessage();
+  const { isAuthenticated, userName } = useAuth();
+  const { can } = usePermissions();
+
+  const [vouchers, setVouchers] = useState<Voucher[]>([]);
+  const [customers, setCustomers] = useState<CustomerBackend[]>([]);
+  const [company, setCompany] = useState<ReceiptCompany>(() => companyFromProfile(null));
+  const [loading, setLoading] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<VoucherStatus | undefined>(undefined);
+  const [search, setSearch] = useState('');
+  const [transactions, setTransactions] = useState<Record<number, VoucherTransaction[]>>({});
+  const [reprint, setReprint] = useState<Voucher | null>(null);
+  const [voidTarget, setVoidTarget] = useState<Voucher | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const [voiding, setVoiding] = useState(false);
+
+  const loadAll = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [voucherData, customerData] = await Promise.all([vouchersApi.list(), customersApi.listRaw()]);
+      setVouchers(voucherData || []);
+      setCustomers(customerData || []);
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to load vouchers.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [messageApi]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    loadAll();
+    profileApi
+      .get()
+      .then(profile => setCompany(companyFromProfile(profile)))
+      .catch(err => console.warn('Failed to load company details for vouchers:', err));
+  }, [isAuthenticated, loadAll]);
+
+  const filteredVouchers = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return vouchers.filter(
+      v =>
+        (!statusFilter || voucherStatus(v) === statusFilter) &&
+        (!term || v.code.toLowerCase().includes(term) || (v.recipient ?? '').toLowerCase().includes(term))
+    );
+  }, [vouchers, statusFilter, search]);
+
+  const storeCreditHolders = customers
+    .filter(c => (Number(c.unallocated_credit) || 0) > 0)
+    .sort((a, b) => (Number(b.unallocated_credit) || 0) - (Number(a.unallocated_credit) || 0));
+
+  const liability = liabilitySummary(vouchers, customers);
+
+  const loadTransactions = async (voucher: Voucher) => {
+    if (transactions[voucher.id]) return;
+    try {
+      const data = await vouchersApi.transactions(voucher.id);
+      setTransactions(prev => ({ ...prev, [voucher.id]: data || [] }));
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to load voucher history.'));
+    }
+  };
+
+  const handleVoid = async () => {
+    if (!voidTarget) return;
+    if (!voidReason.trim()) {
+      messageApi.warning('Enter the reason for cancelling the voucher.');
+      return;
+    }
+    setVoiding(true);
+    try {
+      await vouchersApi.void(voidTarget.id, { reason: voidReason.trim(), processedBy: userName });
+      messageApi.success(`Voucher ${voidTarget.code} cancelled.`);
+      setVoidTarget(null);
+      setVoidReason('');
+      setTransactions(prev => {
+        const next = { ...prev };
+        delete next[voidTarget.id];
+        return next;
+      });
+      loadAll();
+    } catch (err) {
+      messageApi.error(getErrorMessage(err, 'Failed to cancel the voucher.'));
+    } finally {
+      setVoiding(false);
+    }
+  };
+
+  return (
+    <>
+      {contextHolder}
+      <div style={{ padding: 18 }}>
+        <Title level={3}>Vouchers &amp; Store Credit</Title>
+
+        <Tabs
+          items={[
+            {
+              key: 'vouchers',
+              label: 'Gift vouchers',
+              children: (
+                <Card
+                  extra={
+                    <Space>
+                      <Input.Search
+                        allowClear
+                        placeholder='Code or recipient'
+                        onSearch={setSearch}
+                        style={{ width: 220 }}
+                      />
+                      <Select
+                        allowClear
+                        placeholder='All statuses'
+                        value={statusFilter}
+                        onChange={setStatusFilter}
+                        options={(Object.keys(STATUS_COLORS) as VoucherStatus[]).map(s => ({ label: s, value: s }))}
+                        style={{ width: 140 }}
+                      />
+                    </Space>
+                  }
+                >
+                  <Table<Voucher>
+                    rowKey='id'
+                    dataSource={filteredVouchers}
+                    loading={loading}
+                    size='small'
+                    pagination={{ pageSize: 20 }}
+                    scroll={{ x: 900 }}
+                    expandable={{
+                      onExpand: (expanded, v) => expanded && loadTransactions(v),
+                      expandedRowRender: v =>
+                        !transactions[v.id] ? (
+                          <Text type='secondary'>Loading...</Text>
+                        ) : (
+                          transactions[v.id].map(t => (
+                            <div key={t.id}>
+                              {t.created_at.slice(0, 10)} · {TRANSACTION_LABELS[t.type]} <b>{money(t.amount)}</b>
+                              {t.sale_id && <Text type='secondary'> · sale #{t.sale_id}</Text>}
+                              {t.recorded_by && <Text type='secondary'> · {t.recorded_by}</Text>}
+                            </div>
+                          ))
+                        ),
+                    }}
+                    columns={[
+                      { title: 'Code', dataIndex: 'code', render: (c: string) => <Text code>{c}</Text> },
+                      { title: 'Value', dataIndex: 'initial_value', align: 'right', render: money },
+                      { title: 'Balance', dataIndex: 'balance', align: 'right', render: (v: number) => <b>{money(v)}</b> },
+                      {
+                        title: 'Status',
+                        key: 'status',
+                        render: (_, v) => {
+                          const status = voucherStatus(v);
+                          return <Tag color={STATUS_COLORS[status]}>{status}</Tag>;
+                        },
+                      },
+                      { title: 'Recipient', dataIndex: 'recipient', render: (r: string | null) => r || '-' },
+                      { title: 'Issued', dataIndex: 'issued_at', render: (d: string) => d.slice(0, 10) },
+                      { title: 'Expires', dataIndex: 'expires_at', render: (d: string | null) => (d ? d.slice(0, 10) : 'Never') },
+                      {
+                        title: 'Source',
+                        dataIndex: 'sale_id',
+                        render: (id: number | null) => (id ? `Sale #${id}` : 'Return'),
+                      },
+                      {
+                        title: '',
+                        key: 'actions',
+                        render: (_, v) => (
+                          <Space size={4}>
+                            <Button size='small' icon={<PrinterOutlined />} onClick={() => setReprint(v)} />
+                            {can('vouchers.void') && voucherStatus(v) === 'active' && (
+                              <Button size='small' danger icon={<StopOutlined />} onClick={() => setVoidTarget(v)} />
+                            )}
+                          </Space>
+                        ),
+                      },
+                    ]}
+                  />
+                </Card>
+              ),
+            },
+            {
+              key: 'store-credit',
+              label: 'Store credit',
+              children: (
+                <Card>
+                  <Table<CustomerBackend>
+                    rowKey='id'
+                    dataSource={storeCreditHolders}
+                    loading={loading}
+                    size='small'
+                    pagination={{ pageSize: 20 }}
+                    columns={[
+                      { title: 'Customer', dataIndex: 'name' },
+                      { title: 'Phone', dataIndex: 'phone', render: (p?: string) => p || '-' },
+                      { title: 'Email', dataIndex: 'email', render: (e?: string) => e || '-' },
+                      {
+                        title: 'Store credit',
+                        dataIndex: 'unallocated_credit',
+                        align: 'right',
+                        render: (v: number) => <b>{money(v)}</b>,
+                      },
+                    ]}
+                  />
+                </Card>
+              ),
+            },
+            {
+              key: 'liability',
+              label: 'Liability',
+              children: (
+                <Card
+                  title={`Outstanding as at ${liability.asOf}`}
+                  extra={
+                    <Button icon={<FilePdfOutlined />} onClick={() => liabilityToPdf(liability, company).save(`voucher-liability-${liability.asOf}.pdf`)}>
+                      PDF
+                    </Button>
+                  }
+                >
+                  <Row gutter={16} style={{ marginBottom: 16 }}>
+                    <Col xs={24} md={8}>
+                      <Statistic title={`Gift vouchers (${liability.voucherCount})`} value={liability.voucherBalance} precision={2} prefix='R' />
+                    </Col>
+                    <Col xs={24} md={8}>
+                      <Statistic
+                        title={`Store credit (${liability.storeCreditCount} customers)`}
+                        value={liability.storeCreditBalance}
+                        precision={2}
+                        prefix='R'
+                      />
+                    </Col>
+                    <Col xs={24} md={8}>
+                      <Statistic title='Total liability' value={liability.total} precision={2} prefix='R' />
+                    </Col>
+                  </Row>
+                  <Table
+                    rowKey='key'
+                    size='small'
+                    pagination={false}
+                    dataSource={LIABILITY_HORIZONS.map(h => ({ ...h, ...liability.byHorizon[h.key] }))}
+                    columns={[
+                      { title: 'Vouchers', dataIndex: 'label' },
+                      { title: 'Count', dataIndex: 'count', align: 'right' },
+                      { title: 'Balance', dataIndex: 'balance', align: 'right', render: money },
+                    ]}
+                  />
+                  <Text type='secondary' style={{ display: 'block', marginTop: 12 }}>
+                    Expired vouchers stay in the liability until they are written off.
+                  </Text>
+                </Card>
+              ),
+            },
+          ]}
+        />
+
+        {reprint && <VoucherModal vouchers={[reprint]} company={company} onClose={() => setReprint(null)} />}
+
+        <Modal
+          open={!!voidTarget}
+          title={voidTarget ? `Cancel voucher ${voidTarget.code}?` : ''}
+          okText='Cancel voucher'
+          okButtonProps={{ danger: true, loading: voiding }}
+          onOk={handleVoid}
+          onCancel={() => setVoidTarget(null)}
+          destroyOnClose
+        >
+          {voidTarget && (
+            <Text>
+              The remaining balance of <b>{money(voidTarget.balance)}</b> can no longer be spent.
+            </Text>
+          )}
+          <Input.TextArea
+            rows={2}
+            placeholder='Reason'
+            value={voidReason}
+            onChange={e => setVoidReason(e.target.value)}
+            style={{ marginTop: 8 }}
+          />
+        </Modal>
+      </div>
+    </>
+  );
+};
+
+export default VouchersScreen;
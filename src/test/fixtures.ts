@@ -0,0 +1,33 @@
+// Factories for the unit tests. Each fills the required fields with plain
+// defaults so a test only spells out what it is about.
+
+import type { ProductDB, SaleBackend } from '../types/pos';
+
+export const product = (overrides: Partial<ProductDB> & Pick<ProductDB, 'id'>): ProductDB => ({
+  name: `Product ${overrides.id}`,
+  description: null,
+  unit_price: 20,
+  cost_price: 10,
+  sku: null,
+  is_service: false,
+  stock_quantity: 0,
+  created_at: new Date(2025, 0, 1),
+  updated_at: new Date(2025, 0, 1),
+  tax_rate_id: null,
+  category: null,
+  unit: null,
+  tax_rate_value: 0.15,
+  ...overrides,
+});
+
+/** An unpaid credit sale with `remaining` still owing. */
+export const creditSale = (id: number, remaining: number, saleDate: string, dueDate: string | null = null): SaleBackend => ({
+  id,
+  customer_id: 1,
+  customer_name: 'Acme',
+  total_amount: remaining,
+  payment_method: 'Credit',
+  remaining_credit_amount: remaining,
+  due_date: dueDate,
+  sale_date: saleDate,
+});
@@ -0,0 +1,83 @@
+// src/types/auth.ts
+
+export interface AuthUser {
+  user_id: string;
+  parent_user_id?: string | null;
+  name?: string;
+  email?: string;
+  role?: string;
+  roles?: string[];
+  company_name?: string | null;
+  branches?: string[]; // branch names the user may sell from
+  branch?: string | null; // older responses carry a single branch
+}
+
+export interface LoginPayload {
+  email: string;
+  password: string;
+}
+
+/** A supervisor re-entering their credentials on the till to authorise an action. */
+export interface ApprovalPayload extends LoginPayload {
+  action: string;
+}
+
+export interface ApprovalResponse {
+  approverId: string;
+  approverName: string;
+}
+
+export interface RegisterPayload extends LoginPayload {
+  name: string;
+}
+
+export interface LoginResponse {
+  token: string;
+  user: AuthUser;
+}
+
+// User account as listed on UserManagementPage
+export interface ManagedUser {
+  id: string;
+  displayName: string;
+  email: string;
+  roles: string[];
+  branches?: string[];
+}
+
+// Company branch (shop / till location) managed on UserManagementPage
+export interface Branch {
+  id: string;
+  name: string;
+}
+
+export interface NewUserPayload {
+  displayName: string;
+  email: string;
+  password: string;
+  role: string;
+}
+
+// Row returned by GET /api/profile
+export interface UserProfile {
+  user_id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  address: string | null;
+  company: string | null;
+  position: string | null;
+  city: string | null;
+  province: string | null;
+  postal_code: string | null;
+  country: string | null;
+  bio: string | null;
+  website: string | null;
+  linkedin: string | null;
+  timezone: string | null;
+  language: string | null;
+  currency: string | null;
+  vat_number?: string | null;
+}
+
+export type UserProfilePayload = Partial<UserProfile> & { contact_person?: string };
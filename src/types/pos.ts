@@ -0,0 +1,1209 @@
+// src/types/pos.ts
+// Request/response models for the POS endpoints, matching the backend's
+// public.products_services, public.customers and public.sales tables.
+
+// Interface matching the public.products_services table structure
+export interface ProductDB {
+  id: number;
+  name: string;
+  description: string | null;
+  unit_price: number;
+  cost_price: number | null;
+  sku: string | null;
+  is_service: boolean;
+  stock_quantity: number;
+  created_at: Date;
+  updated_at: Date;
+  tax_rate_id: number | null;
+  category: string | null;
+  unit: string | null;
+  tax_rate_value?: number;
+  min_quantity?: number | null;
+  max_quantity?: number | null;
+  available_value?: number | null;
+  /** Units held on open lay-bys; counted in stock_quantity but not sellable. */
+  reserved_quantity?: number;
+  /** Shelf, aisle or store room the product is kept in; stock takes can be limited to locations. */
+  location?: string | null;
+  /** Reorder when available stock falls to this level; min_quantity is used when it is not set. */
+  reorder_point?: number | null;
+  /** Days between ordering and the stock arriving from the preferred supplier. */
+  lead_time_days?: number | null;
+  preferred_supplier_id?: string | null;
+  /** Joined from vendors. */
+  preferred_supplier_name?: string | null;
+  barcode?: string | null;
+  /** Set on variants: the parent product they belong to. */
+  parent_id?: number | null;
+  /**
+   * Set on a parent: what its variants differ by. A parent is never sold or
+   * stocked itself; its stock_quantity is the sum of its variants'.
+   */
+  variant_attributes?: VariantAttribute[] | null;
+  /** Set on variants: the value of each parent attribute, e.g. { Size: 'M', Colour: 'Red' }. */
+  variant_options?: VariantOptions | null;
+}
+
+/** Body accepted by POST/PUT /products-services. */
+export interface ProductPayload {
+  name: string;
+  description: string;
+  unit_price: number;
+  cost_price: number | null;
+  is_service: boolean;
+  stock_quantity: number | null;
+  unit: string | null;
+  sku: string | null;
+  min_quantity: number | null;
+  max_quantity: number | null;
+  available_value: number | null;
+  reorder_point?: number | null;
+  lead_time_days?: number | null;
+  preferred_supplier_id?: string | null;
+  company_name?: string;
+  barcode?: string | null;
+  /** How the initial stock_quantity is recorded in the stock ledger; the server assumes 'opening'. */
+  stock_movement_type?: Extract<StockMovementType, 'opening' | 'purchase_receipt'>;
+}
+
+export interface RestockPayload {
+  adjustmentQuantity: number;
+  updatedCostPrice: number;
+  /** Supplier invoice or delivery note, kept on the stock movement. */
+  reference?: string | null;
+}
+
+// --- Variants ---------------------------------------------------------------------
+
+export interface VariantAttribute {
+  name: string;
+  values: string[];
+}
+
+/** Attribute name -> value. */
+export type VariantOptions = Record<string, string>;
+
+export interface VariantPayload {
+  /** Existing variant to update; new variants are created without one. */
+  id?: number;
+  name: string;
+  options: VariantOptions;
+  sku: string | null;
+  barcode: string | null;
+  unit_price: number;
+  cost_price: number | null;
+  /** Opening stock for new variants; existing variants change stock through restocks and adjustments. */
+  stock_quantity?: number;
+}
+
+/**
+ * Body accepted by PUT /products-services/:id/variants. Saves the parent's
+ * attributes and creates or updates the variants listed; variants left out
+ * are kept and can be deleted from the product list.
+ */
+export interface ProductVariantsPayload {
+  attributes: VariantAttribute[];
+  variants: VariantPayload[];
+}
+
+// --- Product import ---------------------------------------------------------------
+
+/**
+ * One spreadsheet row for POST /products-services/import. Rows are matched to
+ * existing products by SKU; null fields keep the product's current value on
+ * update. A changed stock_quantity is recorded as a count_correction adjustment.
+ */
+export interface ProductImportRow {
+  sku: string;
+  name: string | null;
+  category: string | null;
+  unit: string | null;
+  unit_price: number | null;
+  cost_price: number | null;
+  /** Decimal, e.g. 0.15. */
+  tax_rate: number | null;
+  stock_quantity: number | null;
+  min_quantity: number | null;
+  max_quantity: number | null;
+  reorder_point: number | null;
+  location: string | null;
+  barcode: string | null;
+  is_service: boolean | null;
+}
+
+export interface ProductImportPayload {
+  products: ProductImportRow[];
+}
+
+export interface ProductImportResult {
+  created: number;
+  updated: number;
+  /** Rows the server rejected, by position in the payload (1-based). */
+  errors: { row: number; message: string }[];
+}
+
+// --- Stock movements --------------------------------------------------------------
+
+/**
+ * Every change to stock_quantity is recorded as an append-only movement. The
+ * server writes sale, return, restock and purchase receipt movements itself;
+ * adjustments and write-offs come from StockAdjustmentPayload.
+ */
+export type StockMovementType =
+  | 'opening'
+  | 'sale'
+  | 'return'
+  | 'restock'
+  | 'purchase_receipt'
+  | 'adjustment'
+  | 'write_off'
+  | 'transfer';
+
+export type StockAdjustmentReason =
+  | 'count_correction'
+  | 'found'
+  | 'damaged'
+  | 'expired'
+  | 'theft'
+  | 'supplier_return'
+  | 'internal_use';
+
+export interface StockMovement {
+  id: number;
+  product_id: number;
+  type: StockMovementType;
+  quantity: number; // negative when stock leaves
+  balance_after: number;
+  unit_cost: number | null;
+  /** quantity x unit_cost; what an adjustment posted to the inventory adjustment account. */
+  value: number | null;
+  reason_code: StockAdjustmentReason | null;
+  notes: string | null;
+  /** Sale id, supplier invoice or transfer reference. */
+  reference: string | null;
+  branch: string | null;
+  user_name: string | null;
+  created_at: string;
+}
+
+/** Body accepted by POST /api/stock/products/:id/adjustments. */
+export interface StockAdjustmentPayload {
+  quantity: number; // signed
+  reason: StockAdjustmentReason;
+  notes: string | null;
+  unitCost: number;
+  branch?: string | null;
+  processedBy: string | null;
+}
+
+/** Ledger accounts the server posts adjustment values to. */
+export interface StockLedgerSettings {
+  inventoryAccountId: string | null;
+  adjustmentAccountId: string | null;
+}
+
+// --- Stock takes ------------------------------------------------------------------
+
+export type StockTakeScope = 'full' | 'category' | 'location';
+
+/** counting -> review (counting closed) -> posted; a session can be cancelled until it is posted. */
+export type StockTakeStatus = 'counting' | 'review' | 'posted' | 'cancelled';
+
+export interface StockTake {
+  id: number;
+  name: string;
+  scope: StockTakeScope;
+  categories: string[];
+  locations: string[];
+  /** Counters don't see the expected quantity, so they count what is there rather than confirm a number. */
+  blind: boolean;
+  status: StockTakeStatus;
+  branch: string | null;
+  created_by: string | null;
+  created_at: string;
+  closed_at: string | null;
+  posted_at: string | null;
+  posted_by: string | null;
+  line_count: number;
+  counted_count: number;
+}
+
+/** One counter's count of a line. A counter saving again replaces their own earlier count. */
+export interface StockTakeCount {
+  counter: string;
+  quantity: number;
+  counted_at: string;
+}
+
+export type StockTakeDecision = 'pending' | 'approved' | 'rejected';
+
+export interface StockTakeLine {
+  id: number;
+  product_id: number;
+  product_name: string;
+  sku: string | null;
+  category: string | null;
+  location: string | null;
+  unit: string | null;
+  /**
+   * stock_quantity when the session was opened. Null while a blind session is
+   * still counting: the server only sends it once counting is closed.
+   */
+  expected_quantity: number | null;
+  unit_cost: number;
+  counts: StockTakeCount[];
+  decision: StockTakeDecision;
+  review_note: string | null;
+}
+
+export interface StockTakeDetail extends StockTake {
+  lines: StockTakeLine[];
+}
+
+export interface StockTakePayload {
+  name: string;
+  scope: StockTakeScope;
+  categories: string[];
+  locations: string[];
+  blind: boolean;
+  branch: string | null;
+  createdBy: string | null;
+}
+
+/** Body accepted by POST /api/stock-takes/:id/counts. */
+export interface StockTakeCountPayload {
+  counter: string;
+  counts: { lineId: number; quantity: number }[];
+}
+
+/** Body accepted by POST /api/stock-takes/:id/decisions. */
+export interface StockTakeDecisionPayload {
+  decisions: { lineId: number; decision: StockTakeDecision; note: string | null }[];
+  reviewedBy: string | null;
+}
+
+/** Approved variances are posted as 'count_correction' stock adjustments referencing the session. */
+export interface StockTakePostResult {
+  adjustments: number;
+  value: number;
+}
+
+// --- Reordering -------------------------------------------------------------------
+
+/** Row of GET /api/stock/velocity: units sold less units returned over the window. */
+export interface ProductVelocity {
+  product_id: number;
+  units_sold: number;
+}
+
+// Row of GET /vendors
+export interface Vendor {
+  id: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+}
+
+export interface PurchaseLinePayload {
+  product_service_id: string | null;
+  description: string;
+  quantity: number;
+  unit_cost: number;
+  /** Decimal, e.g. 0.15. */
+  tax_rate: number;
+  line_total: number;
+}
+
+/** Body accepted by POST /api/purchases, the same shape PurchaseForm submits. */
+export interface PurchasePayload {
+  po_number: string;
+  vendor_id: string | null;
+  vendor_name?: string;
+  order_date: string;
+  delivery_date: string | null;
+  total_amount: number;
+  status: 'Draft' | 'Ordered' | 'Received' | 'Paid';
+  currency: string;
+  notes: string | null;
+  line_items: PurchaseLinePayload[];
+}
+
+// Row of GET /accounts (chart of accounts)
+export interface LedgerAccount {
+  id: string;
+  code: string;
+  name: string;
+  type: 'Asset' | 'Liability' | 'Equity' | 'Income' | 'Expense';
+}
+
+// Customer as returned by /api/customers, mapped to frontend camelCase
+export interface CustomerFrontend {
+  id: string; // PostgreSQL IDs can be large numbers, safer as string
+  name: string;
+  contactPerson: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  taxId: string | null;
+  totalInvoiced: number;
+  balanceDue?: number;
+  creditLimit?: number;
+  onHold?: boolean; // set by dunning escalation; blocks new sales on account
+  storeCredit?: number; // store credit and overpayments held on the account, spendable at the till
+  loyaltyPoints?: number; // spendable loyalty points
+  loyaltyPointsYear?: number; // points earned in the last 12 months; decides the tier
+}
+
+export interface NewCustomerPayload {
+  name: string;
+  phone: string;
+  email: string | null;
+  address: string | null;
+  vatNumber: string | null;
+}
+
+// Raw customer row (snake_case) used by the credit screens
+export interface CustomerBackend {
+  id: number;
+  name: string;
+  email: string;
+  phone?: string;
+  address?: string;
+  tax_id?: string;
+  total_invoiced: number;
+  balance_due: number;
+  unallocated_credit?: number; // overpayments and store credit held on the account
+  on_hold?: boolean;
+  hold_reason?: string | null;
+  loyalty_points?: number;
+  loyalty_points_year?: number;
+}
+
+export type PaymentType = 'Cash' | 'Bank' | 'Credit';
+
+/** Everything a sale can be settled with: the payment types plus gift vouchers, store credit and loyalty points. */
+export type TenderMethod = PaymentType | 'Voucher' | 'StoreCredit' | 'Points';
+
+// --- Promotions ---------------------------------------------------------------
+
+/**
+ * percentage: `value`% off; fixed: R`value` off (per unit for line rules, once
+ * for basket rules, excl. VAT); bundle: buy `buyQuantity` get `freeQuantity` free.
+ */
+export type PromotionKind = 'percentage' | 'fixed' | 'bundle';
+export type PromotionScope = 'line' | 'basket';
+
+export interface Promotion {
+  id: number;
+  name: string;
+  kind: PromotionKind;
+  scope: PromotionScope;
+  value: number;
+  /** Products a line rule applies to; empty means every product. */
+  productIds: number[];
+  buyQuantity?: number | null;
+  freeQuantity?: number | null;
+  /** Basket rules only apply once the basket (incl. VAT) reaches this amount. */
+  minSpend?: number | null;
+  startsAt?: string | null; // ISO date, inclusive
+  endsAt?: string | null; // ISO date, inclusive
+  /** Happy hour window in local "HH:mm"; both unset means all day. */
+  startTime?: string | null;
+  endTime?: string | null;
+  /** 0 = Sunday. Empty or unset means every day. */
+  daysOfWeek?: number[] | null;
+  active: boolean;
+}
+
+export type PromotionPayload = Omit<Promotion, 'id'>;
+
+/** A discount applied to a sale line. Amounts are excl. VAT so VAT is charged on the discounted price. */
+export interface SaleLineDiscount {
+  promotionId: number | null;
+  label: string;
+  amount: number;
+}
+
+export interface SaleLinePayload {
+  id?: number;
+  name: string;
+  quantity: number;
+  unit_price: number;
+  subtotal: number; // tax inclusive, after discounts
+  is_service: boolean;
+  tax_rate_value: number;
+  /** Catalogue price when the teller overrode `unit_price`. */
+  original_unit_price?: number;
+  /** users.user_id of the manager who approved the override, when one was required. */
+  override_approved_by?: string | null;
+  discounts?: SaleLineDiscount[];
+  /** Set when the line sells a gift voucher; the server issues it under this code once the sale is recorded. */
+  voucher?: VoucherIssue;
+}
+
+/**
+ * One payment method applied to a sale. Amounts are what the tender settles,
+ * so a cash tender is net of change and the tenders always add up to the total.
+ */
+export interface SaleTender {
+  method: TenderMethod;
+  amount: number;
+  voucherCode?: string; // one tender per voucher redeemed
+}
+
+/** 'Split' is sent when more than one tender method was used. */
+export type SalePaymentType = TenderMethod | 'Split';
+
+/** Body accepted by POST /api/sales. */
+export interface SalePayload {
+  cart: SaleLinePayload[];
+  paymentType: SalePaymentType;
+  tenders: SaleTender[];
+  total: number;
+  customer: { id: string; name: string } | null;
+  amountPaid: number;
+  change: number;
+  dueDate: string | null;
+  tellerId?: string | null; // users.user_id of the logged-in teller
+  tellerName: string;
+  branch: string;
+  companyName: string;
+  /**
+   * Client generated id so a sale is only recorded once, including when an
+   * online attempt that did reach the server is replayed from the offline queue.
+   */
+  clientReference?: string;
+  /** Sum of all line and basket discounts, excl. VAT. */
+  discountTotal?: number;
+  /** Till shift the sale was rung up in. */
+  shiftId?: number | null;
+  /** Loyalty points for the selected customer. */
+  loyalty?: SaleLoyalty;
+}
+
+export interface SaleResult {
+  saleId: number;
+  message?: string;
+}
+
+export type SaleStatus = 'completed' | 'partially_returned' | 'returned' | 'voided';
+
+// Line of a sale as returned by GET /api/sales/:id
+export interface SaleDetailLine {
+  id: number; // sale_items.id
+  product_id: number | null; // null for custom items
+  product_name: string;
+  quantity: number;
+  returned_quantity: number;
+  unit_price_at_sale: number;
+  subtotal: number; // tax inclusive
+  is_service: boolean;
+}
+
+// Full sale with lines and tenders, used by the returns screen
+export interface SaleDetail {
+  id: number;
+  created_at: string;
+  total_amount: number;
+  payment_type: SalePaymentType;
+  tenders?: SaleTender[]; // missing on sales recorded before split tenders
+  customer_id: string | null;
+  customer_name: string | null;
+  remaining_credit_amount: number;
+  teller_name: string | null;
+  status: SaleStatus;
+  items: SaleDetailLine[];
+  refunds?: RefundTender[]; // paid out on earlier returns, one entry per method
+}
+
+export type ReturnReason =
+  | 'Damaged'
+  | 'Defective'
+  | 'Wrong item'
+  | 'Customer changed mind'
+  | 'Expired'
+  | 'Overcharged'
+  | 'Other';
+
+/**
+ * How a refund is paid back. 'StoreCredit' leaves the value on the customer's
+ * account; 'Voucher' issues a new gift voucher (walk-in customers).
+ */
+export type RefundMethod = PaymentType | 'StoreCredit' | 'Voucher' | 'Points';
+
+export interface RefundTender {
+  method: RefundMethod;
+  amount: number;
+}
+
+export interface SaleReturnLine {
+  saleItemId: number;
+  productId: number | null;
+  quantity: number;
+  amount: number;
+  restock: boolean;
+}
+
+/** Body accepted by POST /api/sales/:id/returns. */
+export interface SaleReturnPayload {
+  lines: SaleReturnLine[];
+  reason: ReturnReason;
+  notes: string;
+  refunds: RefundTender[];
+  processedBy: string | null;
+  /** Code for the voucher to issue when a refund goes to 'Voucher'. */
+  voucher?: VoucherIssue;
+  /** Till shift the refund is paid out of, so cash refunds reach its cash-up. */
+  shiftId?: number | null;
+}
+
+/** Body accepted by POST /api/sales/:id/void. */
+export interface SaleVoidPayload {
+  reason: string;
+  processedBy: string | null;
+  /** Till shift the cash is paid back out of, as for returns. */
+  shiftId?: number | null;
+}
+
+// Sale captured while the till was offline, held in IndexedDB until it syncs.
+// 'conflict' means the server rejected it (e.g. stock went negative or the
+// customer's credit limit was exceeded) and someone has to resolve it.
+export type QueuedSaleStatus = 'pending' | 'conflict';
+
+export interface QueuedSale {
+  localId: string;
+  payload: SalePayload;
+  createdAt: string;
+  status: QueuedSaleStatus;
+  attempts: number;
+  lastError: string | null;
+}
+
+/** A line in the POS cart: a catalogue product or a one-off custom item. */
+export type CartItem = (ProductDB | {
+  id: string; // For custom items, use a unique string ID
+  name: string;
+  description: string;
+  unit_price: number;
+  is_service: boolean; // Custom items can be services
+  tax_rate_value: number; // Custom items need a tax rate
+}) & {
+  quantity: number;
+  subtotal: number; // tax inclusive, before promotions
+  original_unit_price?: number; // set when the teller overrode the price
+  override_approved_by?: string | null;
+  voucher?: VoucherIssue; // custom line selling a gift voucher
+};
+
+/** A cart set aside at the till (customer fetching something) so the teller can serve someone else. */
+export interface ParkedCart {
+  id: string;
+  label: string;
+  tellerId: string;
+  items: CartItem[];
+  customer: CustomerFrontend | null;
+  parkedAt: string;
+}
+
+// Credit sale row from /api/credit-sales (public.sales)
+export interface SaleBackend {
+  id: number;
+  customer_id: number;
+  customer_name: string;
+  total_amount: number;
+  payment_method: PaymentType;
+  remaining_credit_amount: number;
+  due_date: string | null;
+  sale_date: string;
+}
+
+/** Methods a customer can settle their account with. */
+export type AccountPaymentMethod = Exclude<PaymentType, 'Credit'>;
+
+export interface CreditAllocation {
+  saleId: number;
+  amount: number;
+}
+
+/**
+ * Body accepted by POST /api/credit-payments: one customer payment spread
+ * over their outstanding credit sales. Whatever is not allocated stays on the
+ * account as credit for later sales.
+ */
+export interface CreditPaymentPayload {
+  customerId: number;
+  amountPaid: number;
+  paymentMethod: AccountPaymentMethod;
+  reference: string | null; // EFT reference, deposit slip number...
+  allocations: CreditAllocation[];
+  unallocated: number;
+  description: string;
+  recordedBy?: string | null;
+}
+
+export interface CreditPaymentResult {
+  paymentId: number;
+  createdAt: string;
+  message?: string;
+}
+
+// --- Statements & aged debtors ---------------------------------------------------
+
+export type StatementEntryType = 'sale' | 'payment' | 'refund' | 'adjustment';
+
+/** One movement on a customer's account; debits raise what they owe. */
+export interface StatementEntry {
+  date: string;
+  type: StatementEntryType;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+}
+
+/** Body returned by GET /api/customers/:id/statement. */
+export interface CustomerStatement {
+  customerId: number;
+  customerName: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  from: string;
+  to: string;
+  openingBalance: number; // balance owed at the start of `from`
+  entries: StatementEntry[];
+}
+
+/** Aged debtor buckets by days since the sale: 0-29, 30-59, 60-89, 90-119, 120+. */
+export type AgingBucket = 'current' | 'd30' | 'd60' | 'd90' | 'd120';
+
+export type AgingBuckets = Record<AgingBucket, number>;
+
+// --- Dunning ----------------------------------------------------------------------
+
+export type DunningDocumentType = 'credit_sale' | 'invoice';
+
+/** Open invoice as listed by GET /api/invoices (only the fields dunning reads). */
+export interface InvoiceSummary {
+  id: string;
+  invoice_number: string;
+  customer_id: string;
+  customer_name: string;
+  customer_email?: string;
+  due_date: string;
+  total_amount: number;
+  amount_paid?: number | null; // part payments received so far
+  status: 'Draft' | 'Sent' | 'Paid' | 'Overdue';
+}
+
+/**
+ * Reminder subject/body. Merge fields: {{customer_name}}, {{document}},
+ * {{amount_due}}, {{due_date}}, {{days_overdue}}, {{company_name}}.
+ */
+export interface DunningTemplate {
+  id: number;
+  name: string;
+  subject: string;
+  body: string;
+}
+
+/** One reminder in the schedule, relative to the due date (negative = before). */
+export interface DunningStep {
+  id: number;
+  offsetDays: number;
+  templateId: number;
+  holdAccount: boolean; // escalate: put the customer's account on hold once sent
+}
+
+export interface DunningSettings {
+  enabled: boolean;
+  steps: DunningStep[];
+  templates: DunningTemplate[];
+}
+
+/** A reminder due to go out for one open document. */
+export interface DunningReminder {
+  key: string; // documentType:documentId:stepId
+  documentType: DunningDocumentType;
+  documentId: string;
+  documentRef: string;
+  customerId: string;
+  customerName: string;
+  customerEmail: string | null;
+  amountDue: number;
+  dueDate: string;
+  daysOverdue: number; // negative before the due date
+  step: DunningStep;
+}
+
+export type DunningChannel = 'email' | 'local';
+
+export interface DunningLogEntry {
+  id: number;
+  customerId: string;
+  customerName: string;
+  documentType: DunningDocumentType;
+  documentId: string;
+  documentRef: string;
+  stepId: number;
+  subject: string;
+  channel: DunningChannel;
+  status: 'sent' | 'failed';
+  error: string | null;
+  sentAt: string;
+  sentBy: string | null;
+}
+
+export type DunningLogPayload = Omit<DunningLogEntry, 'id' | 'sentAt'>;
+
+/** What the customer is handed after paying on account. */
+export interface CreditPaymentReceipt {
+  paymentId: number;
+  customerName: string;
+  amountPaid: number;
+  paymentMethod: AccountPaymentMethod;
+  reference: string | null;
+  settled: (CreditAllocation & { saleDate: string; remaining: number })[];
+  unallocated: number;
+  recordedBy: string | null;
+  createdAt: string;
+}
+
+// --- Lay-by ---------------------------------------------------------------------
+// Goods are paid off over time: the stock is reserved when the lay-by is opened
+// and only released (as a normal sale) once it is paid in full.
+
+export type LaybyStatus = 'active' | 'completed' | 'cancelled';
+
+export type LaybyFrequency = 'weekly' | 'fortnightly' | 'monthly';
+
+/** Company lay-by rules, from /api/laybys/settings. */
+export interface LaybySettings {
+  minDepositPercent: number;
+  maxInstalments: number;
+  /** Charged when the customer cancels, as a % of the lay-by total... */
+  cancellationFeePercent: number;
+  /** ...but never less than this. The fee is capped at what has been paid. */
+  minCancellationFee: number;
+}
+
+export interface LaybyInstalment {
+  dueDate: string;
+  amount: number;
+}
+
+export interface LaybyPayment {
+  id: number;
+  kind: 'deposit' | 'instalment';
+  amount: number;
+  paymentMethod: AccountPaymentMethod;
+  reference: string | null;
+  recordedBy: string | null;
+  createdAt: string;
+}
+
+// Lay-by as returned by GET /api/laybys
+export interface Layby {
+  id: number;
+  customer_id: number;
+  customer_name: string;
+  total_amount: number;
+  deposit: number;
+  paid_amount: number;
+  status: LaybyStatus;
+  frequency: LaybyFrequency;
+  schedule: LaybyInstalment[];
+  items: SaleLinePayload[];
+  payments: LaybyPayment[];
+  branch: string | null;
+  created_at: string;
+  sale_id: number | null; // the sale it became once completed
+  cancellation_fee: number | null;
+}
+
+/** Body accepted by POST /api/laybys. Reserves the stock and records the deposit. */
+export interface LaybyPayload {
+  cart: SaleLinePayload[];
+  total: number;
+  discountTotal?: number;
+  customer: { id: string; name: string };
+  deposit: number;
+  depositMethod: AccountPaymentMethod;
+  depositReference: string | null;
+  frequency: LaybyFrequency;
+  schedule: LaybyInstalment[];
+  tellerId?: string | null;
+  tellerName: string;
+  branch: string;
+  shiftId?: number | null;
+}
+
+/** What the customer agrees to at the till; the rest of the payload comes from the cart. */
+export type LaybyTerms = Pick<LaybyPayload, 'deposit' | 'depositMethod' | 'depositReference' | 'frequency' | 'schedule'>;
+
+export interface LaybyResult {
+  laybyId: number;
+  createdAt: string;
+  message?: string;
+}
+
+/** Body accepted by POST /api/laybys/:id/payments. */
+export interface LaybyPaymentPayload {
+  amount: number;
+  paymentMethod: AccountPaymentMethod;
+  reference: string | null;
+  recordedBy: string | null;
+}
+
+/** Body accepted by POST /api/laybys/:id/cancel. Reserved stock goes back on the shelf. */
+export interface LaybyCancelPayload {
+  reason: string;
+  fee: number;
+  refund: number;
+  refundMethod: Exclude<RefundMethod, 'Credit'>;
+  processedBy: string | null;
+}
+
+/** Body accepted by POST /api/laybys/:id/complete, which turns the lay-by into a sale. */
+export interface LaybyCompletePayload {
+  processedBy: string | null;
+  tellerId?: string | null;
+  branch?: string | null;
+}
+
+// --- Gift vouchers & store credit -------------------------------------------------
+
+export type VoucherStatus = 'active' | 'redeemed' | 'expired' | 'void';
+
+/** A voucher about to be issued. Codes are generated on the till so offline sales can print them. */
+export interface VoucherIssue {
+  code: string;
+  expiresAt: string | null;
+  recipient?: string | null;
+}
+
+// Voucher as returned by /api/vouchers
+export interface Voucher {
+  id: number;
+  code: string;
+  initial_value: number;
+  balance: number;
+  status: VoucherStatus;
+  recipient: string | null;
+  issued_at: string;
+  expires_at: string | null;
+  sale_id: number | null; // sale it was bought in; null when issued for a return
+  issued_by: string | null;
+}
+
+export type VoucherTransactionType = 'issue' | 'redeem' | 'refund' | 'void' | 'expire';
+
+export interface VoucherTransaction {
+  id: number;
+  type: VoucherTransactionType;
+  amount: number;
+  sale_id: number | null;
+  recorded_by: string | null;
+  created_at: string;
+}
+
+/** Body accepted by POST /api/vouchers/:id/void. */
+export interface VoucherVoidPayload {
+  reason: string;
+  processedBy: string | null;
+}
+
+// --- Loyalty ----------------------------------------------------------------------
+
+/** Earn rate multiplier for a product category, e.g. double points on "Coffee". */
+export interface LoyaltyCategoryMultiplier {
+  category: string;
+  multiplier: number;
+}
+
+/** A customer reaches a tier once their points earned in the last 12 months reach `minPoints`. */
+export interface LoyaltyTier {
+  name: string;
+  minPoints: number;
+  /** Applied on top of the earn rate and any category multiplier. */
+  earnMultiplier: number;
+}
+
+/** tender: points pay part of the sale like a voucher; discount: points come off the price, so VAT is charged on less. */
+export type LoyaltyRedeemMode = 'tender' | 'discount';
+
+export interface LoyaltySettings {
+  enabled: boolean;
+  /** Points per R1 spent incl. VAT. Voucher sales and the part paid with points earn nothing. */
+  pointsPerRand: number;
+  categoryMultipliers: LoyaltyCategoryMultiplier[];
+  /** Rand value of one point when it is redeemed. */
+  pointValue: number;
+  redeemAs: LoyaltyRedeemMode;
+  minRedeemPoints: number;
+  /** Largest share of a sale, in percent, that points can pay for. */
+  maxRedeemPercent: number;
+  tiers: LoyaltyTier[];
+}
+
+export type LoyaltyTransactionType = 'earn' | 'redeem' | 'return' | 'adjust' | 'expire';
+
+export interface LoyaltyTransaction {
+  id: number;
+  customer_id: number;
+  type: LoyaltyTransactionType;
+  points: number; // negative when points leave the account
+  balance_after: number;
+  sale_id: number | null;
+  description: string | null;
+  recorded_by: string | null;
+  created_at: string;
+}
+
+/** Body accepted by POST /api/loyalty/customers/:id/adjust. */
+export interface LoyaltyAdjustPayload {
+  points: number;
+  reason: string;
+  processedBy: string | null;
+}
+
+/** Points on a sale as worked out by the till. The server recalculates them from its own settings. */
+export interface SaleLoyalty {
+  pointsEarned: number;
+  pointsRedeemed: number;
+}
+
+// GET /api/loyalty/kpis, for the period from `from` to today
+export interface LoyaltyKpis {
+  members: number;
+  /** Members who bought something in the period. */
+  activeMembers: number;
+  pointsIssued: number;
+  pointsRedeemed: number;
+  outstandingPoints: number;
+  /** Outstanding points at today's point value. */
+  outstandingValue: number;
+  /** Share of sales value in the period rung up to a member, 0..1. */
+  memberSalesShare: number;
+  tiers: { tier: string; members: number }[];
+}
+
+// Flattened sale line from /api/dashboard/sales
+export interface DashboardSaleItem {
+  saleId: string;
+  createdAt: string;
+  product_id: string;
+  product_name: string;
+  quantity: number;
+  unit_price_at_sale: number;
+  returned_quantity?: number;
+  sale_status?: SaleStatus;
+  branch?: string | null;
+}
+
+export interface Teller {
+  id: string; // users.user_id
+  name: string;
+  email: string;
+  phone: string;
+  position: string;
+  userRole: 'teller' | 'manager';
+  branch: string;
+}
+
+// Per-teller totals for a business day, summed per tender so split sales are
+// counted under each method they were paid with (cash is net of change).
+export interface ExpectedCash {
+  cash: number;
+  bank: number;
+  credit: number;
+  refunds?: number; // cash refunded on returns/voids, already deducted from cash
+}
+
+export interface ReconRow {
+  day: string; // recon_date
+  shift_id?: number | null; // set when the row was written by closing a shift
+  expected_cash: number;
+  counted_cash: number;
+  variance: number; // negative = short, positive = over
+  notes: string | null;
+  recorded_by?: string;
+  created_at?: string;
+  denominations?: DenominationCounts | null; // breakdown of counted_cash
+  currency?: string | null;
+  safe_drops?: number; // cash moved to the safe during the day
+  pickups?: number; // cash brought from the safe into the drawer
+}
+
+export interface MissedRow {
+  day: string; // a date within range with sales but no reconciliation
+  cash: number; // expected cash that day
+  bank: number;
+  credit: number;
+}
+
+export interface ShortTotals {
+  days: number;
+  total_expected: number;
+  total_counted: number;
+  total_shortage: number;
+}
+
+/** Body accepted by POST /api/reconciliation/submit. */
+export interface ReconciliationPayload {
+  tellerId: string;
+  expectedCash: number; // expected in the drawer, after safe drops and pickups
+  countedCash: number;
+  variance: number;
+  notes: string;
+  date: string;
+  denominations?: DenominationCounts | null; // null when only a total was entered
+  currency?: string;
+  safeDrops?: number;
+  pickups?: number;
+}
+
+/**
+ * Cash moved between a teller's drawer and the safe during the day.
+ * drop: drawer -> safe (too much cash on hand); pickup: safe -> drawer (change top-up).
+ */
+export type CashMovementType = 'drop' | 'pickup';
+
+export interface CashMovement {
+  id: number;
+  tellerId: string;
+  date: string; // business day
+  type: CashMovementType;
+  amount: number;
+  denominations: DenominationCounts | null;
+  notes: string | null;
+  recordedBy?: string | null;
+  createdAt: string;
+}
+
+export type CashMovementPayload = Omit<CashMovement, 'id' | 'recordedBy' | 'createdAt'>;
+
+// --- Variance analytics ---------------------------------------------------------
+
+/** Company-wide thresholds used by the variance view and the server's alert job. */
+export interface VarianceSettings {
+  tolerance: number; // variances within +/- this amount count as balanced
+  missedDaysAlert: number; // alert after this many consecutive days without a reconciliation
+}
+
+/** Reconciliation or missed day across every teller, as returned by /api/reconciliation/analytics. */
+export interface TellerDayRow {
+  tellerId: string;
+  tellerName: string;
+  branch: string | null;
+  day: string;
+  variance: number | null; // null for a missed day
+}
+
+export interface TellerVarianceStats {
+  tellerId: string;
+  tellerName: string;
+  branch: string | null;
+  days: number; // reconciled days in range
+  shortDays: number; // short beyond tolerance
+  overDays: number; // over beyond tolerance
+  shortageTotal: number; // sum of every negative variance (negative)
+  overageTotal: number; // sum of every positive variance
+  netVariance: number;
+  shortFrequency: number; // shortDays / days, 0..1
+  currentShortStreak: number;
+  longestShortStreak: number;
+  lastVariance: number | null; // most recent reconciled day, null when none in range
+  missedDays: number;
+  currentMissedStreak: number; // missed days since the last reconciliation
+}
+
+export type VarianceAlertKind = 'variance' | 'missed';
+
+export interface VarianceAlert {
+  id: number;
+  kind: VarianceAlertKind;
+  tellerId: string;
+  tellerName: string;
+  branch: string | null;
+  day: string;
+  amount: number | null; // the variance for 'variance' alerts
+  message: string;
+  createdAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+}
+
+// --- Shifts ---------------------------------------------------------------------
+
+export type ShiftStatus = 'open' | 'closed';
+
+/** Number of each note/coin counted, keyed by face value in rand ("200", "0.5"). */
+export type DenominationCounts = Record<string, number>;
+
+export interface Shift {
+  id: number;
+  tellerId: string;
+  tellerName: string;
+  branch: string | null;
+  status: ShiftStatus;
+  openedAt: string;
+  closedAt: string | null;
+  openingFloat: number;
+  // Filled in when the shift is closed (Z-report)
+  expectedCash: number | null;
+  countedCash: number | null;
+  variance: number | null; // negative = short, positive = over
+  denominations: DenominationCounts | null;
+  notes: string | null;
+}
+
+/** Shift takings by tender; cash is net of change. */
+export interface ShiftTotals {
+  salesCount: number;
+  grossSales: number;
+  cash: number;
+  bank: number;
+  credit: number;
+  voucher: number; // paid with gift vouchers
+  storeCredit: number; // paid from the customer's store credit
+  points: number; // rand value of loyalty points redeemed
+  refunds: number; // all refunds, any tender
+  cashRefunds: number;
+  storeCreditRefunds: number; // refunded onto a new gift voucher or the customer's store credit
+  discounts: number; // excl. VAT
+  voids: number;
+  safeDrops: number; // cash moved from the drawer to the safe during the shift
+  pickups: number; // cash brought from the safe into the drawer
+}
+
+/**
+ * X-report: running totals mid-shift, the shift stays open.
+ * Z-report: final totals once the shift is closed and locked.
+ */
+export interface ShiftReport {
+  kind: 'X' | 'Z';
+  shift: Shift;
+  totals: ShiftTotals;
+  /** Float + cash sales - cash refunds - safe drops + pickups: what should be in the drawer. */
+  expectedCash: number;
+  generatedAt: string;
+}
+
+export interface OpenShiftPayload {
+  openingFloat: number;
+  branch: string | null;
+  tellerName: string;
+}
+
+export interface CloseShiftPayload {
+  countedCash: number;
+  denominations: DenominationCounts;
+  notes: string;
+  // Worked out from the shift's totals at close so the Z-report and the day's reconciliation agree
+  expectedCash: number;
+  variance: number;
+}
+
+/** What the teller enters to close a shift; the expected figure is never shown to them. */
+export type ShiftCount = Omit<CloseShiftPayload, 'expectedCash' | 'variance'>;
@@ -0,0 +1,62 @@
+// src/types/receipt.ts
+// Printable receipt model built from a submitted sale. The same data feeds the
+// on-screen/browser print layout, the ESC/POS byte stream and the PDF.
+
+import type { SaleLineDiscount, SaleTender } from './pos';
+
+export type ReceiptPaperWidth = 58 | 80;
+
+export interface ReceiptCompany {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+  vatNumber: string | null;
+}
+
+export interface ReceiptLine {
+  name: string;
+  quantity: number;
+  unitPrice: number; // excl. VAT
+  taxRate: number; // e.g. 0.15
+  /** Catalogue price when it was overridden at the till. */
+  originalUnitPrice: number | null;
+  discounts: SaleLineDiscount[]; // excl. VAT
+  net: number; // after discounts
+  vat: number;
+  total: number;
+}
+
+export interface ReceiptVatBand {
+  rate: number;
+  net: number;
+  vat: number;
+}
+
+export interface ReceiptData {
+  /** Sale id from the API, or the local queue id when captured offline. */
+  reference: string;
+  pendingSync: boolean;
+  createdAt: string;
+  company: ReceiptCompany;
+  tellerName: string | null;
+  branch: string | null;
+  customerName: string | null;
+  lines: ReceiptLine[];
+  vatBands: ReceiptVatBand[];
+  discountTotal: number;
+  netTotal: number;
+  vatTotal: number;
+  total: number;
+  tenders: SaleTender[];
+  cashTendered: number;
+  change: number;
+  /** Loyalty points on the sale; `balance` is the expected balance afterwards. */
+  loyalty: ReceiptLoyalty | null;
+}
+
+export interface ReceiptLoyalty {
+  earned: number;
+  redeemed: number;
+  balance: number | null;
+}
@@ -0,0 +1,50 @@
+// src/types/reports.ts
+// Responses of the reports service (REPORTS_API_URL). Each report is a list of
+// rows whose columns differ per report, so rows are kept as plain records.
+
+export type ReportRow = Record<string, string | number | null>;
+
+export interface IncomeStatementResponse {
+  income_statement: ReportRow[];
+}
+
+export interface TrialBalanceResponse {
+  trial_balance: ReportRow[];
+}
+
+export interface BalanceSheetResponse {
+  assets: ReportRow[];
+  liabilities: ReportRow[];
+  equity: ReportRow[];
+}
+
+export interface CashflowResponse {
+  cashflow: ReportRow[];
+}
+
+export interface StocksheetResponse {
+  stocksheet: ReportRow[];
+}
+
+export interface AssetRegisterResponse {
+  asset_register: ReportRow[];
+}
+
+export interface DebtorsResponse {
+  debtors: ReportRow[];
+}
+
+export interface CreditorsResponse {
+  creditors: ReportRow[];
+}
+
+export interface ReportsData {
+  incomeStatement: ReportRow[];
+  trialBalance: ReportRow[];
+  balanceSheet: BalanceSheetResponse;
+  cashflow: ReportRow[];
+  stocksheet: ReportRow[];
+  assetRegister: ReportRow[];
+  debtors: ReportRow[];
+  creditors: ReportRow[];
+}
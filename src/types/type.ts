@@ -0,0 +1,30 @@
+// src/types/type.ts
+// Frontend shape of a catalogue item as used by ProductsPage and POSDashboard,
+// mapped from ProductDB (see mapProductToFrontend in src/api/products.ts).
+
+import type { VariantAttribute, VariantOptions } from './pos';
+
+export interface Product {
+  id: string;
+  name: string;
+  type: 'product' | 'service';
+  price: number;
+  unitPrice: number;
+  purchasePrice?: number | null;
+  unitPurchasePrice?: number | null;
+  qty?: number;
+  unit?: string | null;
+  companyName?: string;
+  availableValue?: number | null;
+  minQty?: number | null;
+  maxQty?: number | null;
+  reorderPoint?: number | null;
+  leadTimeDays?: number | null;
+  preferredSupplierId?: string | null;
+  preferredSupplierName?: string | null;
+  sku?: string | null;
+  barcode?: string | null;
+  parentId?: string | null;
+  variantAttributes?: VariantAttribute[] | null;
+  variantOptions?: VariantOptions | null;
+}
@@ -1,29 +1,178 @@
 // src/utils/apiClient.ts
+//
+// Single entry point for talking to the backend. Every request goes through
+// `apiRequest`, which resolves the base URL from env config, attaches the
+// Bearer token from the auth context, normalises failures into `ApiError`
+// and retries idempotent calls with exponential backoff.
 
-const BASE_URL = 'https://quantnow.onrender.com'; // or your deployed backend
+import { API_BASE_URL } from '@/lib/env';
 
-export const apiClient = {
-  get: async (endpoint: string) => {
-    const response = await fetch(`${BASE_URL}${endpoint}`);
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || 'Failed to fetch');
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export interface RequestOptions {
+  method?: HttpMethod;
+  /** JSON-serialisable body, or FormData/Blob which is sent as-is. */
+  body?: unknown;
+  params?: Record<string, QueryValue>;
+  headers?: Record<string, string>;
+  /** Override the base URL, e.g. RAIRO_STMT_API_URL for the AI endpoints. */
+  baseUrl?: string;
+  /** Set to false for public endpoints (login/register, third party AI). */
+  auth?: boolean;
+  /** Retry attempts for idempotent calls. Defaults to 2 for GET/PUT/DELETE, 0 otherwise. */
+  retries?: number;
+  responseType?: 'json' | 'blob' | 'text';
+  signal?: AbortSignal;
+}
+
+/** Consistent error shape for every failed request. */
+export class ApiError extends Error {
+  status: number;
+  method: HttpMethod;
+  url: string;
+  details: unknown;
+
+  constructor(message: string, status: number, method: HttpMethod, url: string, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.method = method;
+    this.url = url;
+    this.details = details;
+  }
+
+  /** True when the request never reached the server (offline, DNS, CORS). */
+  get isNetworkError() {
+    return this.status === 0;
+  }
+}
+
+export const isApiError = (err: unknown): err is ApiError => err instanceof ApiError;
+
+/** Pulls a human readable message out of any error thrown by a request. */
+export const getErrorMessage = (err: unknown, fallback = 'Something went wrong.') => {
+  if (err instanceof Error && err.message) return err.message;
+  return fallback;
+};
+
+interface ApiClientConfig {
+  getToken: () => string | null;
+}
+
+const config: ApiClientConfig = {
+  getToken: () => localStorage.getItem('token'),
+};
+
+/** Called by AuthProvider so the client always uses the current session token. */
+export const configureApiClient = (overrides: Partial<ApiClientConfig>) => {
+  Object.assign(config, overrides);
+};
+
+const IDEMPOTENT: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+const RETRYABLE_STATUS = [408, 429, 502, 503, 504];
+const BASE_DELAY_MS = 400;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const buildUrl = (baseUrl: string, path: string, params?: Record<string, QueryValue>) => {
+  const url = /^https?:\/\//.test(path) ? path : `${baseUrl}${path.startsWith('/') ? '' : '/'}${path}`;
+  if (!params) return url;
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') query.append(key, String(value));
+  });
+  const qs = query.toString();
+  return qs ? `${url}${url.includes('?') ? '&' : '?'}${qs}` : url;
+};
+
+const parseBody = async (res: Response, responseType: RequestOptions['responseType']) => {
+  if (res.status === 204) return undefined;
+  if (responseType === 'blob') return res.blob();
+  const text = await res.text();
+  if (responseType === 'text') return text;
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const messageFromBody = (body: unknown, status: number) => {
+  if (body && typeof body === 'object') {
+    const b = body as Record<string, unknown>;
+    const msg = b.error ?? b.message ?? b.detail;
+    if (typeof msg === 'string' && msg) return msg;
+  }
+  if (typeof body === 'string' && body && body.length < 200) return body;
+  return `Request failed with status ${status}`;
+};
+
+export async function apiRequest<T = unknown>(path: string, options: RequestOptions = {}): Promise<T> {
+  const {
+    method = 'GET',
+    body,
+    params,
+    headers = {},
+    baseUrl = API_BASE_URL,
+    auth = true,
+    responseType = 'json',
+    signal,
+  } = options;
+  const retries = options.retries ?? (IDEMPOTENT.includes(method) ? 2 : 0);
+  const url = buildUrl(baseUrl, path, params);
+
+  const finalHeaders: Record<string, string> = { ...headers };
+  const token = auth ? config.getToken() : null;
+  if (token) finalHeaders.Authorization = `Bearer ${token}`;
+
+  let payload: BodyInit | undefined;
+  if (body instanceof FormData || body instanceof Blob) {
+    payload = body;
+  } else if (body !== undefined) {
+    finalHeaders['Content-Type'] = finalHeaders['Content-Type'] || 'application/json';
+    payload = JSON.stringify(body);
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(url, { method, headers: finalHeaders, body: payload, signal });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      if (attempt < retries) {
+        await sleep(BASE_DELAY_MS * 2 ** attempt);
+        continue;
+      }
+      throw new ApiError('Network error. Please check your connection.', 0, method, url, err);
     }
-    return response.json();
-  },
-
-  post: async (endpoint: string, body: any) => {
-    const response = await fetch(`${BASE_URL}${endpoint}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || 'Failed to post');
+
+    if (!res.ok && RETRYABLE_STATUS.includes(res.status) && attempt < retries) {
+      await sleep(BASE_DELAY_MS * 2 ** attempt);
+      continue;
     }
-    return response.json();
+
+    const data = await parseBody(res, res.ok ? responseType : 'json');
+    if (!res.ok) {
+      throw new ApiError(messageFromBody(data, res.status), res.status, method, url, data);
+    }
+    return data as T;
   }
+}
+
+type Opts = Omit<RequestOptions, 'method' | 'body'>;
+
+export const apiClient = {
+  get: <T = unknown>(endpoint: string, options?: Opts) =>
+    apiRequest<T>(endpoint, { ...options, method: 'GET' }),
+  post: <T = unknown>(endpoint: string, body?: unknown, options?: Opts) =>
+    apiRequest<T>(endpoint, { ...options, method: 'POST', body }),
+  put: <T = unknown>(endpoint: string, body?: unknown, options?: Opts) =>
+    apiRequest<T>(endpoint, { ...options, method: 'PUT', body }),
+  patch: <T = unknown>(endpoint: string, body?: unknown, options?: Opts) =>
+    apiRequest<T>(endpoint, { ...options, method: 'PATCH', body }),
+  delete: <T = unknown>(endpoint: string, options?: Opts) =>
+    apiRequest<T>(endpoint, { ...options, method: 'DELETE' }),
 };
@@ -0,0 +1,65 @@
+// src/utils/authInterceptor.ts
+//
+// Global safety net for rejected sessions. Screens go through apiClient, but a
+// few third party libraries still call fetch or axios directly, so the
+// interceptor sits below both and reports any 401 (or a 403 caused by a bad
+// token) from our own API back to AuthProvider.
+
+import axios from 'axios';
+import { API_BASE_URL } from '@/lib/env';
+
+type UnauthorizedHandler = (status: number) => void;
+
+let handler: UnauthorizedHandler | null = null;
+let installed = false;
+
+// Express's jwt middleware answers 403 for invalid/expired tokens, while a 403
+// for a missing role is a normal permission error and must not log the user out.
+const TOKEN_ERROR_PATTERN = /token|jwt|expired|session/i;
+
+const isOwnApi = (url: string) => url.startsWith(API_BASE_URL);
+
+const notify = (status: number, message: string) => {
+  if (!handler) return;
+  if (status === 401 || (status === 403 && TOKEN_ERROR_PATTERN.test(message))) {
+    handler(status);
+  }
+};
+
+const requestUrl = (input: RequestInfo | URL) =>
+  typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+
+const hasAuthHeader = (input: RequestInfo | URL, init?: RequestInit) => {
+  const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+  return headers.has('Authorization');
+};
+
+/** Registers the callback AuthProvider uses to end the session. */
+export const setUnauthorizedHandler = (next: UnauthorizedHandler | null) => {
+  handler = next;
+};
+
+/** Patches window.fetch and the default axios instance once per page load. */
+export const installAuthInterceptor = () => {
+  if (installed) return;
+  installed = true;
+
+  const originalFetch = window.fetch.bind(window);
+  window.fetch = async (input, init) => {
+    const res = await originalFetch(input, init);
+    if ((res.status === 401 || res.status === 403) && isOwnApi(requestUrl(input)) && hasAuthHeader(input, init)) {
+      const body = res.status === 403 ? await res.clone().text().catch(() => '') : '';
+      notify(res.status, body);
+    }
+    return res;
+  };
+
+  axios.interceptors.response.use(undefined, error => {
+    const status = error?.response?.status;
+    const url: string = error?.config?.url ?? '';
+    if ((status === 401 || status === 403) && isOwnApi(url)) {
+      notify(status, JSON.stringify(error.response.data ?? ''));
+    }
+    return Promise.reject(error);
+  });
+};
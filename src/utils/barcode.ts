@@ -0,0 +1,51 @@
+import type { ProductDB } from '../types/pos';
+
+export interface ParsedScan {
+  quantity: number;
+  code: string;
+}
+
+// "3*6001234567890" -> 3 x 6001234567890. A bare "3*" is a multiplier typed
+// ahead of the scan and is returned with an empty code.
+const MULTIPLIER_PATTERN = /^(\d{1,4})\s*[*xX]\s*(.*)$/;
+
+export const parseScanInput = (raw: string): ParsedScan => {
+  const text = raw.trim();
+  const match = MULTIPLIER_PATTERN.exec(text);
+  if (match) {
+    return { quantity: Math.max(1, Number(match[1])), code: match[2].trim() };
+  }
+  return { quantity: 1, code: text };
+};
+
+const normalise = (code: string) => code.trim().toLowerCase();
+
+/** Matches a scanned code against product SKUs and barcodes; falls back to an exact id for custom labels. */
+export const findProductByCode = (products: ProductDB[], code: string) => {
+  const wanted = normalise(code);
+  if (!wanted) return undefined;
+  return (
+    products.find(p => p.sku && normalise(p.sku) === wanted) ??
+    products.find(p => p.barcode && normalise(p.barcode) === wanted) ??
+    products.find(p => String(p.id) === wanted)
+  );
+};
+
+let audioContext: AudioContext | null = null;
+
+/** Short beep: high for a match, low and longer for an unknown barcode. */
+export const playScanTone = (ok: boolean) => {
+  try {
+    audioContext = audioContext ?? new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.type = ok ? 'sine' : 'square';
+    oscillator.frequency.value = ok ? 1800 : 300;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + (ok ? 0.08 : 0.35));
+  } catch {
+    // Audio can be blocked until the first user gesture; the visual cue still shows.
+  }
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { CashMovement, ShiftTotals } from '../types/pos';
+import { expectedDrawerCash, movementTotals, shiftExpectedCash } from './cashDrawer';
+
+const movement = (tellerId: string, type: CashMovement['type'], amount: number): CashMovement => ({
+  id: 1,
+  tellerId,
+  date: '2025-03-12',
+  type,
+  amount,
+  denominations: null,
+  notes: null,
+  createdAt: '2025-03-12T10:00:00Z',
+});
+
+const totals: ShiftTotals = {
+  salesCount: 12,
+  grossSales: 4200,
+  cash: 2350.4,
+  bank: 1849.6,
+  credit: 0,
+  voucher: 0,
+  storeCredit: 0,
+  points: 0,
+  refunds: 150,
+  cashRefunds: 100.2,
+  storeCreditRefunds: 49.8,
+  discounts: 0,
+  voids: 0,
+  safeDrops: 1500,
+  pickups: 200,
+};
+
+describe('expectedDrawerCash', () => {
+  it('takes safe drops out and adds pickups back', () => {
+    expect(expectedDrawerCash({ openingFloat: 500, cashSales: 2350.4, cashRefunds: 100.2, safeDrops: 1500, pickups: 200 })).toBe(
+      1450.2
+    );
+  });
+
+  it('leaves the float out of the daily cash-up', () => {
+    expect(expectedDrawerCash({ cashSales: 900, safeDrops: 500, pickups: 0 })).toBe(400);
+  });
+});
+
+describe('shiftExpectedCash', () => {
+  it('works out a shift\'s expected cash from its report totals', () => {
+    expect(shiftExpectedCash({ openingFloat: 500 }, totals)).toBe(1450.2);
+  });
+});
+
+describe('movementTotals', () => {
+  it('adds up one teller\'s drops and pickups', () => {
+    const movements = [movement('t1', 'drop', 1000), movement('t1', 'drop', 500.5), movement('t1', 'pickup', 200), movement('t2', 'drop', 300)];
+    expect(movementTotals(movements, 't1')).toEqual({ safeDrops: 1500.5, pickups: 200 });
+    expect(movementTotals(movements, 't3')).toEqual({ safeDrops: 0, pickups: 0 });
+  });
+});
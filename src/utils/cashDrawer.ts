@@ -0,0 +1,43 @@
+import type { CashMovement, Shift, ShiftTotals } from '../types/pos';
+import { round2 } from './money';
+
+export interface DrawerCash {
+  /** The shift's float; the daily cash-up leaves it out. */
+  openingFloat?: number;
+  /** Cash taken on sales, net of change. */
+  cashSales: number;
+  /** Cash paid out on returns and voids, when not already netted off cashSales. */
+  cashRefunds?: number;
+  safeDrops: number;
+  pickups: number;
+}
+
+/**
+ * What should be in the drawer: float + cash sales - cash refunds - safe drops
+ * + pickups. The shift close, the X/Z reports and the daily cash-up all use
+ * this so their variances agree.
+ */
+export const expectedDrawerCash = ({ openingFloat = 0, cashSales, cashRefunds = 0, safeDrops, pickups }: DrawerCash) =>
+  round2(openingFloat + cashSales - cashRefunds - safeDrops + pickups);
+
+/** Expected drawer cash for a shift from its report totals. */
+export const shiftExpectedCash = (shift: Pick<Shift, 'openingFloat'>, totals: ShiftTotals) =>
+  expectedDrawerCash({
+    openingFloat: Number(shift.openingFloat) || 0,
+    cashSales: totals.cash,
+    cashRefunds: totals.cashRefunds,
+    safeDrops: totals.safeDrops,
+    pickups: totals.pickups,
+  });
+
+/** Total safe drops and pickups recorded for one teller. */
+export const movementTotals = (movements: CashMovement[], tellerId: string) =>
+  movements
+    .filter(m => m.tellerId === tellerId)
+    .reduce(
+      (acc, m) =>
+        m.type === 'drop'
+          ? { ...acc, safeDrops: round2(acc.safeDrops + m.amount) }
+          : { ...acc, pickups: round2(acc.pickups + m.amount) },
+      { safeDrops: 0, pickups: 0 }
+    );
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { creditSale } from '../test/fixtures';
+import { allocateOldestFirst, allocatedTotal, allocationError, byOldestDebt } from './creditAllocation';
+
+const sales = [
+  creditSale(1, 100, '2025-03-05'),
+  creditSale(2, 250.5, '2025-03-01', '2025-04-30'),
+  creditSale(3, 80, '2025-02-20', '2025-03-01'),
+];
+
+describe('allocateOldestFirst', () => {
+  it('settles the oldest sales first and leaves the newest unpaid', () => {
+    expect(allocateOldestFirst(sales, 200.25)).toEqual({ 3: 80, 2: 120.25, 1: 0 });
+  });
+
+  it('never allocates more than is owed', () => {
+    const allocations = allocateOldestFirst(sales, 1000);
+    expect(allocations).toEqual({ 3: 80, 1: 100, 2: 250.5 });
+    expect(allocatedTotal(allocations)).toBe(430.5);
+  });
+});
+
+describe('byOldestDebt', () => {
+  it('orders by sale date even when a later sale falls due first', () => {
+    expect([...sales].sort(byOldestDebt).map(s => s.id)).toEqual([3, 2, 1]);
+  });
+
+  it('uses the due date only between sales on the same date', () => {
+    const sameDay = [
+      creditSale(4, 10, '2025-03-01'),
+      creditSale(5, 10, '2025-03-01', '2025-04-30'),
+      creditSale(6, 10, '2025-03-01', '2025-03-15'),
+    ];
+    expect(sameDay.sort(byOldestDebt).map(s => s.id)).toEqual([6, 5, 4]);
+  });
+});
+
+describe('allocationError', () => {
+  it('accepts an allocation within the payment and each balance', () => {
+    expect(allocationError(sales, { 1: 100, 2: 50 }, 150)).toBeNull();
+  });
+
+  it('rejects over-allocating a sale or the payment', () => {
+    expect(allocationError(sales, { 3: 90 }, 100)).toBe('Sale #3 only has R80.00 outstanding.');
+    expect(allocationError(sales, { 1: 100, 3: 80 }, 150)).toBe('More is allocated than the customer paid.');
+  });
+});
@@ -0,0 +1,92 @@
+import jsPDF from 'jspdf';
+import type { CreditPaymentReceipt, SaleBackend } from '../types/pos';
+import { money, round2 } from './money';
+
+// Sales without a due date sort after those with one
+const byDueDate = (a: SaleBackend, b: SaleBackend) =>
+  a.due_date && b.due_date ? a.due_date.localeCompare(b.due_date) : Number(!a.due_date) - Number(!b.due_date);
+
+/** Oldest debt first: by sale date, with the due date only breaking ties between sales on the same date. */
+export const byOldestDebt = (a: SaleBackend, b: SaleBackend) => a.sale_date.localeCompare(b.sale_date) || byDueDate(a, b);
+
+/** Spreads a payment over the customer's credit sales, settling the oldest first. */
+export const allocateOldestFirst = (sales: SaleBackend[], amount: number) => {
+  const allocations: Record<number, number> = {};
+  let left = round2(Math.max(0, amount));
+  for (const sale of [...sales].sort(byOldestDebt)) {
+    const applied = round2(Math.min(left, Number(sale.remaining_credit_amount) || 0));
+    allocations[sale.id] = applied;
+    left = round2(left - applied);
+  }
+  return allocations;
+};
+
+export const allocatedTotal = (allocations: Record<number, number>) =>
+  round2(Object.values(allocations).reduce((sum, amount) => sum + (amount || 0), 0));
+
+/** Problems that block saving a (manual) allocation, or null when it is valid. */
+export const allocationError = (sales: SaleBackend[], allocations: Record<number, number>, amount: number) => {
+  const over = sales.find(s => (allocations[s.id] || 0) > (Number(s.remaining_credit_amount) || 0) + 0.005);
+  if (over) return `Sale #${over.id} only has ${money(Number(over.remaining_credit_amount) || 0)} outstanding.`;
+  if (allocatedTotal(allocations) > round2(amount) + 0.005) return 'More is allocated than the customer paid.';
+  return null;
+};
+
+const METHOD_LABELS = { Cash: 'Cash', Bank: 'Bank / EFT' } as const;
+
+export const accountPaymentMethodLabel = (method: CreditPaymentReceipt['paymentMethod']) => METHOD_LABELS[method];
+
+export interface PaymentReceiptRow {
+  label: string;
+  value: string;
+  strong?: boolean;
+}
+
+/** Receipt content in two blocks (payment, then settled sales); modal, print and PDF render from this. */
+export const creditPaymentRows = (receipt: CreditPaymentReceipt) => {
+  const payment: PaymentReceiptRow[] = [
+    { label: 'Receipt', value: `#${receipt.paymentId}` },
+    { label: 'Date', value: new Date(receipt.createdAt).toLocaleString() },
+    { label: 'Customer', value: receipt.customerName },
+    { label: 'Method', value: accountPaymentMethodLabel(receipt.paymentMethod) },
+    ...(receipt.reference ? [{ label: 'Reference', value: receipt.reference }] : []),
+    { label: 'Amount paid', value: money(receipt.amountPaid), strong: true },
+  ];
+  const settled: PaymentReceiptRow[] = receipt.settled.flatMap(s => [
+    { label: `Sale #${s.saleId} (${s.saleDate.slice(0, 10)})`, value: money(s.amount) },
+    { label: s.remaining > 0 ? '  Still owing' : '  Settled', value: s.remaining > 0 ? money(s.remaining) : '' },
+  ]);
+  if (receipt.unallocated > 0) {
+    settled.push({ label: 'Held as account credit', value: money(receipt.unallocated), strong: true });
+  }
+  if (receipt.recordedBy) settled.push({ label: 'Received by', value: receipt.recordedBy });
+  return [payment, settled];
+};
+
+/** 80mm PDF of a payment on account, listing the sales it settled. */
+export const creditPaymentToPdf = (receipt: CreditPaymentReceipt) => {
+  const width = 80;
+  const margin = 4;
+  const lineHeight = 4;
+  const blocks = creditPaymentRows(receipt);
+  const rows = 4 + blocks.reduce((sum, block) => sum + block.length + 1, 0);
+  const doc = new jsPDF({ unit: 'mm', format: [width, rows * lineHeight + margin * 2] });
+
+  let y = margin + 3;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text('PAYMENT RECEIPT', width / 2, y, { align: 'center' });
+  y += lineHeight * 2;
+
+  blocks.forEach(block => {
+    block.forEach(row => {
+      doc.setFont('helvetica', row.strong ? 'bold' : 'normal');
+      doc.setFontSize(8);
+      doc.text(row.label, margin, y, { maxWidth: width - margin * 2 - 22 });
+      doc.text(row.value, width - margin, y, { align: 'right' });
+      y += lineHeight;
+    });
+    y += lineHeight / 2;
+  });
+  return doc;
+};
@@ -0,0 +1,15 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Local calendar date as YYYY-MM-DD. toISOString() is UTC and gives yesterday just after midnight in SAST. */
+export const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Same day `months` later, clamped to the end of shorter months (31 Jan + 1 month is 28 Feb). */
+export const addMonths = (date: Date, months: number) => {
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate();
+  return new Date(date.getFullYear(), date.getMonth() + months, Math.min(date.getDate(), lastDay));
+};
+
+/** Whole calendar days from one YYYY-MM-DD date to another; negative when `to` is earlier. */
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to.slice(0, 10)) - Date.parse(from.slice(0, 10))) / DAY_MS);
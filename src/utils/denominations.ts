@@ -0,0 +1,34 @@
+import type { DenominationCounts } from '../types/pos';
+import { round2 } from './money';
+
+export interface CurrencySet {
+  code: string;
+  symbol: string;
+  /** Face values of notes and coins, largest first. */
+  denominations: number[];
+}
+
+// Currencies the tills are used with. The default comes from
+// VITE_CASH_CURRENCY; add a set here to support another currency.
+export const CURRENCY_SETS: Record<string, CurrencySet> = {
+  ZAR: { code: 'ZAR', symbol: 'R', denominations: [200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1] },
+  NAD: { code: 'NAD', symbol: 'N$', denominations: [200, 100, 50, 30, 20, 10, 5, 1, 0.5, 0.1, 0.05] },
+  BWP: { code: 'BWP', symbol: 'P', denominations: [200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.25, 0.1, 0.05] },
+  USD: { code: 'USD', symbol: '$', denominations: [100, 50, 20, 10, 5, 2, 1, 0.25, 0.1, 0.05, 0.01] },
+};
+
+/** Falls back to rand for an unknown code. */
+export const currencySet = (code: string | null | undefined) => CURRENCY_SETS[code ?? ''] ?? CURRENCY_SETS.ZAR;
+
+export const denominationLabel = (value: number, symbol = 'R') =>
+  value >= 1 ? `${symbol}${value}` : `${Math.round(value * 100)}c`;
+
+export const denominationTotal = (counts: DenominationCounts) =>
+  round2(Object.entries(counts).reduce((sum, [value, count]) => sum + Number(value) * (count || 0), 0));
+
+/** Counted denominations, largest first, without the empty ones. */
+export const denominationLines = (counts: DenominationCounts | null | undefined) =>
+  Object.entries(counts ?? {})
+    .filter(([, count]) => count > 0)
+    .map(([value, count]) => ({ value: Number(value), count, amount: round2(Number(value) * count) }))
+    .sort((a, b) => b.value - a.value);
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { DunningLogEntry, InvoiceSummary } from '../types/pos';
+import { DEFAULT_DUNNING_SETTINGS, daysOverdue, dueReminders, invoiceDocuments, renderTemplate } from './dunning';
+
+const invoice = (overrides: Partial<InvoiceSummary> = {}): InvoiceSummary => ({
+  id: 'inv-1',
+  invoice_number: 'INV-001',
+  customer_id: 'c1',
+  customer_name: 'Acme',
+  customer_email: 'accounts@acme.test',
+  due_date: '2025-03-01T00:00:00Z',
+  total_amount: 1000,
+  status: 'Sent',
+  ...overrides,
+});
+
+const sent = (stepId: number): DunningLogEntry => ({
+  id: stepId,
+  customerId: 'c1',
+  customerName: 'Acme',
+  documentType: 'invoice',
+  documentId: 'inv-1',
+  documentRef: 'Invoice INV-001',
+  stepId,
+  subject: '',
+  channel: 'email',
+  status: 'sent',
+  error: null,
+  sentAt: '2025-03-01T08:00:00Z',
+  sentBy: null,
+});
+
+describe('invoiceDocuments', () => {
+  it('chases only the amount still owed', () => {
+    const [doc] = invoiceDocuments([invoice({ amount_paid: 400.5 })]);
+    expect(doc.amountDue).toBe(599.5);
+    expect(doc.dueDate).toBe('2025-03-01');
+  });
+
+  it('skips paid, draft and fully paid invoices', () => {
+    expect(
+      invoiceDocuments([invoice({ status: 'Paid' }), invoice({ status: 'Draft' }), invoice({ amount_paid: 1000 })])
+    ).toEqual([]);
+  });
+});
+
+describe('dueReminders', () => {
+  const docs = invoiceDocuments([invoice()]);
+
+  it('sends the latest step that has come due', () => {
+    const [reminder] = dueReminders(docs, DEFAULT_DUNNING_SETTINGS, [], new Date(2025, 2, 10));
+    expect(reminder.daysOverdue).toBe(9);
+    expect(reminder.step.id).toBe(3);
+    expect(reminder.key).toBe('invoice:inv-1:3');
+  });
+
+  it('does not resend a step or go back to an earlier one', () => {
+    expect(dueReminders(docs, DEFAULT_DUNNING_SETTINGS, [sent(3)], new Date(2025, 2, 10))).toEqual([]);
+    expect(dueReminders(docs, DEFAULT_DUNNING_SETTINGS, [sent(4)], new Date(2025, 2, 10))).toEqual([]);
+  });
+
+  it('sends nothing before the first step or while switched off', () => {
+    expect(dueReminders(docs, DEFAULT_DUNNING_SETTINGS, [], new Date(2025, 1, 20))).toEqual([]);
+    expect(dueReminders(docs, { ...DEFAULT_DUNNING_SETTINGS, enabled: false }, [], new Date(2025, 2, 10))).toEqual([]);
+  });
+});
+
+describe('helpers', () => {
+  it('counts whole days from the due date', () => {
+    expect(daysOverdue('2025-03-01', new Date(2025, 2, 1, 23, 59))).toBe(0);
+    expect(daysOverdue('2025-03-01', new Date(2025, 1, 26))).toBe(-3);
+  });
+
+  it('leaves unknown merge fields in place', () => {
+    expect(renderTemplate('Hi {{ customer_name }}, {{unknown}}', { customer_name: 'Acme' })).toBe('Hi Acme, {{unknown}}');
+  });
+});
@@ -0,0 +1,199 @@
+import jsPDF from 'jspdf';
+import type {
+  CustomerBackend,
+  DunningLogEntry,
+  DunningReminder,
+  DunningSettings,
+  DunningStep,
+  DunningTemplate,
+  InvoiceSummary,
+  SaleBackend,
+} from '../types/pos';
+import type { ReceiptCompany } from '../types/receipt';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MERGE_FIELDS = ['customer_name', 'document', 'amount_due', 'due_date', 'days_overdue', 'company_name'];
+
+/** Used when the company has not saved its own schedule yet. */
+export const DEFAULT_DUNNING_SETTINGS: DunningSettings = {
+  enabled: true,
+  templates: [
+    {
+      id: 1,
+      name: 'Friendly reminder',
+      subject: '{{document}} is due on {{due_date}}',
+      body:
+        'Dear {{customer_name}},\n\nThis is a friendly reminder that {{document}} for {{amount_due}} is due on {{due_date}}.\n\nKind regards,\n{{company_name}}',
+    },
+    {
+      id: 2,
+      name: 'Overdue notice',
+      subject: '{{document}} is {{days_overdue}} days overdue',
+      body:
+        'Dear {{customer_name}},\n\nOur records show that {{document}} for {{amount_due}} was due on {{due_date}} and is now {{days_overdue}} days overdue. Please arrange payment at your earliest convenience.\n\nKind regards,\n{{company_name}}',
+    },
+    {
+      id: 3,
+      name: 'Final notice',
+      subject: 'Final notice: {{document}} and account hold',
+      body:
+        'Dear {{customer_name}},\n\n{{document}} for {{amount_due}} is now {{days_overdue}} days overdue. Your account has been placed on hold and no further purchases on account can be made until it is settled.\n\nKind regards,\n{{company_name}}',
+    },
+  ],
+  steps: [
+    { id: 1, offsetDays: -3, templateId: 1, holdAccount: false },
+    { id: 2, offsetDays: 0, templateId: 1, holdAccount: false },
+    { id: 3, offsetDays: 7, templateId: 2, holdAccount: false },
+    { id: 4, offsetDays: 14, templateId: 2, holdAccount: false },
+    { id: 5, offsetDays: 30, templateId: 3, holdAccount: true },
+  ],
+};
+
+export const stepLabel = (offsetDays: number) =>
+  offsetDays < 0
+    ? `${-offsetDays} day(s) before due`
+    : offsetDays === 0
+      ? 'On due date'
+      : `${offsetDays} day(s) overdue`;
+
+/** Whole days from the due date to `today`; negative while not yet due. */
+export const daysOverdue = (dueDate: string, today: Date) => {
+  const due = new Date(`${dueDate.slice(0, 10)}T00:00:00`);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((start.getTime() - due.getTime()) / DAY_MS);
+};
+
+type DunningDocument = Omit<DunningReminder, 'key' | 'step' | 'daysOverdue'>;
+
+export const creditSaleDocuments = (sales: SaleBackend[], customers: CustomerBackend[]): DunningDocument[] =>
+  sales
+    .filter(s => s.due_date && (Number(s.remaining_credit_amount) || 0) > 0)
+    .map(s => ({
+      documentType: 'credit_sale',
+      documentId: String(s.id),
+      documentRef: `Sale #${s.id}`,
+      customerId: String(s.customer_id),
+      customerName: s.customer_name,
+      customerEmail: customers.find(c => c.id === s.customer_id)?.email || null,
+      amountDue: Number(s.remaining_credit_amount) || 0,
+      dueDate: (s.due_date as string).slice(0, 10),
+    }));
+
+// What is still owed, so a part-paid invoice isn't chased for its full total
+const invoiceOutstanding = (i: InvoiceSummary) =>
+  Math.round(((Number(i.total_amount) || 0) - (Number(i.amount_paid) || 0)) * 100) / 100;
+
+export const invoiceDocuments = (invoices: InvoiceSummary[]): DunningDocument[] =>
+  invoices
+    .filter(i => i.due_date && (i.status === 'Sent' || i.status === 'Overdue') && invoiceOutstanding(i) > 0)
+    .map(i => ({
+      documentType: 'invoice',
+      documentId: String(i.id),
+      documentRef: `Invoice ${i.invoice_number}`,
+      customerId: String(i.customer_id),
+      customerName: i.customer_name,
+      customerEmail: i.customer_email || null,
+      amountDue: invoiceOutstanding(i),
+      dueDate: i.due_date.slice(0, 10),
+    }));
+
+/**
+ * Reminders that should go out today. Each document gets at most one: the
+ * latest step whose date has passed, unless that step (or a later one) was
+ * already sent, so a missed day catches up without a burst of old reminders.
+ */
+export const dueReminders = (
+  documents: DunningDocument[],
+  settings: DunningSettings,
+  log: DunningLogEntry[],
+  today = new Date()
+): DunningReminder[] => {
+  if (!settings.enabled) return [];
+  const steps = [...settings.steps].sort((a, b) => a.offsetDays - b.offsetDays);
+  const reminders: DunningReminder[] = [];
+  for (const doc of documents) {
+    const overdue = daysOverdue(doc.dueDate, today);
+    const step = steps.filter(s => s.offsetDays <= overdue).pop();
+    if (!step) continue;
+    const sentOffsets = log
+      .filter(l => l.status === 'sent' && l.documentType === doc.documentType && l.documentId === doc.documentId)
+      .map(l => steps.find(s => s.id === l.stepId)?.offsetDays ?? -Infinity);
+    if (sentOffsets.some(offset => offset >= step.offsetDays)) continue;
+    reminders.push({
+      ...doc,
+      key: `${doc.documentType}:${doc.documentId}:${step.id}`,
+      daysOverdue: overdue,
+      step,
+    });
+  }
+  return reminders.sort((a, b) => b.daysOverdue - a.daysOverdue);
+};
+
+export const renderTemplate = (text: string, fields: Record<string, string>) =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => fields[name] ?? match);
+
+/** Subject and body of a reminder with its merge fields filled in. */
+export const renderReminder = (reminder: DunningReminder, template: DunningTemplate, companyName: string) => {
+  const fields = {
+    customer_name: reminder.customerName,
+    document: reminder.documentRef,
+    amount_due: `R${reminder.amountDue.toFixed(2)}`,
+    due_date: reminder.dueDate,
+    days_overdue: String(Math.max(0, reminder.daysOverdue)),
+    company_name: companyName,
+  };
+  return { subject: renderTemplate(template.subject, fields), body: renderTemplate(template.body, fields) };
+};
+
+export const templateFor = (settings: DunningSettings, step: DunningStep) =>
+  settings.templates.find(t => t.id === step.templateId) ?? settings.templates[0];
+
+/** A4 letter carrying the reminder text, attached to credit sale reminders. */
+export const reminderToPdf = (subject: string, body: string, company: ReceiptCompany) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const margin = 20;
+  const width = doc.internal.pageSize.getWidth() - margin * 2;
+  let y = margin;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(company.name, margin, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  [company.address, company.phone, company.email]
+    .filter((line): line is string => !!line)
+    .forEach(line => {
+      y += 5;
+      doc.text(line, margin, y);
+    });
+  y += 10;
+  doc.text(new Date().toLocaleDateString(), margin, y);
+  y += 10;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text(subject, margin, y, { maxWidth: width });
+  y += 10;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(doc.splitTextToSize(body, width), margin, y);
+  return doc;
+};
+
+/**
+ * Local mail stand-in: the reminder as an .eml file that any mail client can
+ * open and send. Used when VITE_DUNNING_DELIVERY is "local" (no mail server).
+ */
+export const reminderToEml = (to: string | null, subject: string, body: string) =>
+  new Blob(
+    [
+      [
+        `To: ${to ?? ''}`,
+        `Subject: ${subject}`,
+        'X-Unsent: 1',
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        body.replace(/\r?\n/g, '\r\n'),
+      ].join('\r\n'),
+    ],
+    { type: 'message/rfc822' }
+  );
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { Layby } from '../types/pos';
+import { DEFAULT_LAYBY_SETTINGS, cancellationFee, instalmentSchedule, minimumDeposit, nextInstalment } from './layby';
+
+const layby = (overrides: Partial<Layby> = {}): Layby => ({
+  id: 1,
+  customer_id: 1,
+  customer_name: 'Thandi',
+  total_amount: 400,
+  deposit: 100,
+  paid_amount: 100,
+  status: 'active',
+  frequency: 'weekly',
+  schedule: instalmentSchedule(300, 3, 'weekly', new Date(2025, 2, 12)),
+  items: [],
+  payments: [],
+  branch: null,
+  created_at: '2025-03-12T09:00:00Z',
+  sale_id: null,
+  cancellation_fee: null,
+  ...overrides,
+});
+
+describe('instalmentSchedule', () => {
+  it('puts the cents that do not divide evenly on the last instalment', () => {
+    const schedule = instalmentSchedule(100, 3, 'weekly', new Date(2025, 2, 12));
+    expect(schedule).toEqual([
+      { dueDate: '2025-03-19', amount: 33.33 },
+      { dueDate: '2025-03-26', amount: 33.33 },
+      { dueDate: '2025-04-02', amount: 33.34 },
+    ]);
+  });
+
+  it('keeps monthly dates on the same day, clamped to short months', () => {
+    expect(instalmentSchedule(300, 3, 'monthly', new Date(2025, 0, 31)).map(i => i.dueDate)).toEqual([
+      '2025-02-28',
+      '2025-03-31',
+      '2025-04-30',
+    ]);
+  });
+
+  it('has nothing to schedule when the deposit covers the total', () => {
+    expect(instalmentSchedule(0, 3, 'weekly')).toEqual([]);
+  });
+});
+
+describe('nextInstalment', () => {
+  it('asks for what is still owing on the first unmet instalment', () => {
+    expect(nextInstalment(layby({ paid_amount: 150 }), new Date(2025, 2, 20))).toEqual({
+      dueDate: '2025-03-19',
+      owing: 50,
+      overdue: true,
+    });
+  });
+
+  it('is done once the schedule is paid, or when there was only a deposit', () => {
+    expect(nextInstalment(layby({ paid_amount: 400 }))).toBeNull();
+    expect(nextInstalment(layby({ total_amount: 100, schedule: [] }))).toBeNull();
+  });
+});
+
+describe('deposit and cancellation fee', () => {
+  it('rounds the minimum deposit to cents', () => {
+    expect(minimumDeposit(999.99, DEFAULT_LAYBY_SETTINGS)).toBe(100);
+  });
+
+  it('keeps the percentage fee or the minimum, whichever is more', () => {
+    expect(cancellationFee(layby({ total_amount: 1000, paid_amount: 300 }), DEFAULT_LAYBY_SETTINGS)).toBe(100);
+    expect(cancellationFee(layby({ total_amount: 200, paid_amount: 100 }), DEFAULT_LAYBY_SETTINGS)).toBe(50);
+  });
+
+  it('never keeps more than was paid', () => {
+    expect(cancellationFee(layby({ total_amount: 1000, paid_amount: 30 }), DEFAULT_LAYBY_SETTINGS)).toBe(30);
+  });
+});
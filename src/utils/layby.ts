@@ -0,0 +1,186 @@
+import jsPDF from 'jspdf';
+import type { Layby, LaybyFrequency, LaybyInstalment, LaybyPayload, LaybyResult, LaybySettings } from '../types/pos';
+import type { ReceiptCompany } from '../types/receipt';
+import { addMonths, isoDate } from './dates';
+import { money, round2 } from './money';
+
+/** Used when the company has not saved its own lay-by rules yet. */
+export const DEFAULT_LAYBY_SETTINGS: LaybySettings = {
+  minDepositPercent: 10,
+  maxInstalments: 6,
+  cancellationFeePercent: 10,
+  minCancellationFee: 50,
+};
+
+export const LAYBY_FREQUENCIES: { value: LaybyFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'fortnightly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+export const minimumDeposit = (total: number, settings: LaybySettings) =>
+  round2((total * settings.minDepositPercent) / 100);
+
+/** Date of the n-th instalment (1-based); monthly dates stay on the same day, clamped to short months. */
+const instalmentDate = (start: Date, frequency: LaybyFrequency, n: number) => {
+  if (frequency === 'monthly') return addMonths(start, n);
+  const days = frequency === 'weekly' ? 7 : 14;
+  return new Date(start.getFullYear(), start.getMonth(), start.getDate() + days * n);
+};
+
+/**
+ * Even instalments covering the balance after the deposit. Cents that do not
+ * divide evenly go on the last instalment so the schedule adds up exactly.
+ */
+export const instalmentSchedule = (
+  balance: number,
+  count: number,
+  frequency: LaybyFrequency,
+  start = new Date()
+): LaybyInstalment[] => {
+  if (balance <= 0 || count < 1) return [];
+  const each = Math.floor((balance / count) * 100) / 100;
+  return Array.from({ length: count }, (_, i) => ({
+    dueDate: isoDate(instalmentDate(start, frequency, i + 1)),
+    amount: i === count - 1 ? round2(balance - each * (count - 1)) : each,
+  }));
+};
+
+export const laybyBalance = (layby: Layby) => round2((Number(layby.total_amount) || 0) - (Number(layby.paid_amount) || 0));
+
+/**
+ * The first instalment not yet covered by what has been paid, with the part
+ * of it still owing. Null once the schedule is met.
+ */
+export const nextInstalment = (layby: Layby, today = new Date()) => {
+  const paid = Number(layby.paid_amount) || 0;
+  let target = Number(layby.deposit) || 0;
+  for (const instalment of layby.schedule) {
+    target = round2(target + instalment.amount);
+    if (paid + 0.005 < target) {
+      return {
+        dueDate: instalment.dueDate,
+        owing: round2(Math.min(instalment.amount, target - paid)),
+        overdue: instalment.dueDate < isoDate(today),
+      };
+    }
+  }
+  return null;
+};
+
+/** Fee kept when a lay-by is cancelled: the configured rate or minimum, but never more than was paid. */
+export const cancellationFee = (layby: Layby, settings: LaybySettings) => {
+  const fee = Math.max(settings.minCancellationFee, ((Number(layby.total_amount) || 0) * settings.cancellationFeePercent) / 100);
+  return round2(Math.min(fee, Number(layby.paid_amount) || 0));
+};
+
+const FREQUENCY_LABELS = Object.fromEntries(LAYBY_FREQUENCIES.map(f => [f.value, f.label])) as Record<LaybyFrequency, string>;
+
+/** Lay-by agreement: goods held, payments so far, the schedule and the cancellation terms. */
+export const laybyToPdf = (layby: Layby, company: ReceiptCompany, settings: LaybySettings) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 14;
+  const lineHeight = 6;
+  let y = margin + 4;
+
+  const ensureRoom = () => {
+    if (y + lineHeight > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+  const heading = (text: string) => {
+    y += lineHeight * 1.5;
+    ensureRoom();
+    doc.setFont('helvetica', 'bold');
+    doc.text(text, margin, y);
+    doc.line(margin, y + 1.5, pageWidth - margin, y + 1.5);
+    doc.setFont('helvetica', 'normal');
+  };
+  const row = (label: string, value: string) => {
+    y += lineHeight;
+    ensureRoom();
+    doc.text(label, margin, y, { maxWidth: pageWidth - margin * 2 - 40 });
+    doc.text(value, pageWidth - margin, y, { align: 'right' });
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(company.name, margin, y);
+  doc.text(`LAY-BY #${layby.id}`, pageWidth - margin, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  [company.address, company.phone && `Tel: ${company.phone}`, company.email]
+    .filter((line): line is string => !!line)
+    .forEach(line => {
+      y += 4.5;
+      doc.text(line, margin, y);
+    });
+
+  doc.setFontSize(10);
+  y += lineHeight;
+  doc.text(`Customer: ${layby.customer_name}`, margin, y);
+  doc.text(`Opened: ${layby.created_at.slice(0, 10)}`, pageWidth - margin, y, { align: 'right' });
+
+  heading('Goods held');
+  layby.items.forEach(item => row(`${item.quantity} x ${item.name}`, money(item.subtotal)));
+  doc.setFont('helvetica', 'bold');
+  row('Total', money(Number(layby.total_amount) || 0));
+  doc.setFont('helvetica', 'normal');
+
+  heading('Payments');
+  layby.payments.forEach(p =>
+    row(`${p.createdAt.slice(0, 10)}  ${p.kind === 'deposit' ? 'Deposit' : 'Instalment'} (${p.paymentMethod})`, money(p.amount))
+  );
+  doc.setFont('helvetica', 'bold');
+  row('Balance', money(laybyBalance(layby)));
+  doc.setFont('helvetica', 'normal');
+
+  heading(`Instalments (${FREQUENCY_LABELS[layby.frequency]})`);
+  layby.schedule.forEach(i => row(i.dueDate, money(i.amount)));
+
+  heading('Terms');
+  doc.setFontSize(8);
+  const terms = [
+    'Goods are held in store and released only once the full amount has been paid.',
+    `If the lay-by is cancelled, a fee of ${settings.cancellationFeePercent}% of the total ` +
+      `(minimum ${money(settings.minCancellationFee)}) is kept and the rest of what was paid is refunded.`,
+  ];
+  terms.forEach(term => {
+    y += lineHeight;
+    ensureRoom();
+    doc.text(doc.splitTextToSize(term, pageWidth - margin * 2), margin, y);
+  });
+  return doc;
+};
+
+/** The lay-by as the server will have stored it, so the till can hand over the agreement straight away. */
+export const laybyFromPayload = (payload: LaybyPayload, result: LaybyResult): Layby => ({
+  id: result.laybyId,
+  customer_id: Number(payload.customer.id),
+  customer_name: payload.customer.name,
+  total_amount: payload.total,
+  deposit: payload.deposit,
+  paid_amount: payload.deposit,
+  status: 'active',
+  frequency: payload.frequency,
+  schedule: payload.schedule,
+  items: payload.cart,
+  payments: [
+    {
+      id: 0,
+      kind: 'deposit',
+      amount: payload.deposit,
+      paymentMethod: payload.depositMethod,
+      reference: payload.depositReference,
+      recordedBy: payload.tellerName,
+      createdAt: result.createdAt,
+    },
+  ],
+  branch: payload.branch || null,
+  created_at: result.createdAt,
+  sale_id: null,
+  cancellation_fee: null,
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { CustomerFrontend, LoyaltySettings } from '../types/pos';
+import { DEFAULT_LOYALTY_SETTINGS, loyaltyTier, pointsEarned, pointsForValue, pointsValue, redemptionProblem } from './loyalty';
+
+const settings: LoyaltySettings = {
+  ...DEFAULT_LOYALTY_SETTINGS,
+  enabled: true,
+  categoryMultipliers: [{ category: 'Coffee', multiplier: 2 }],
+};
+
+const customer = (loyaltyPoints: number): CustomerFrontend => ({
+  id: 'c1',
+  name: 'Thandi',
+  contactPerson: null,
+  email: null,
+  phone: null,
+  address: null,
+  taxId: null,
+  totalInvoiced: 0,
+  loyaltyPoints,
+});
+
+describe('pointsEarned', () => {
+  it('applies category and tier multipliers and rounds down', () => {
+    const lines = [
+      { category: 'Coffee', total: 50.75 },
+      { category: null, total: 100 },
+    ];
+    expect(pointsEarned(lines, settings, null)).toBe(201);
+    expect(pointsEarned(lines, settings, { name: 'Gold', minPoints: 15000, earnMultiplier: 1.5 })).toBe(302);
+  });
+
+  it('earns nothing on voucher lines or the part paid with points', () => {
+    const lines = [
+      { category: null, total: 200 },
+      { category: null, total: 100, noEarn: true },
+    ];
+    expect(pointsEarned(lines, settings, null, 50)).toBe(150);
+  });
+
+  it('earns nothing while the programme is off', () => {
+    expect(pointsEarned([{ category: null, total: 100 }], DEFAULT_LOYALTY_SETTINGS, null)).toBe(0);
+  });
+});
+
+describe('point values', () => {
+  it('converts between points and rand', () => {
+    expect(pointsValue(1234, settings)).toBe(12.34);
+    // Rounded up so the points are always worth at least the amount
+    expect(pointsForValue(12.341, settings)).toBe(1234);
+    expect(pointsForValue(12.35, settings)).toBe(1235);
+  });
+
+  it('picks the highest tier reached', () => {
+    expect(loyaltyTier(4999, settings)?.name).toBe('Member');
+    expect(loyaltyTier(15000, settings)?.name).toBe('Gold');
+  });
+});
+
+describe('redemptionProblem', () => {
+  it('allows a redemption within the balance, minimum and cap', () => {
+    expect(redemptionProblem(1000, 10, customer(2000), settings, 100)).toBeNull();
+  });
+
+  it('explains why points cannot be used', () => {
+    expect(redemptionProblem(1000, 10, null, settings, 100)).toMatch(/Select the customer/);
+    expect(redemptionProblem(1000, 10, customer(500), settings, 100)).toMatch(/only has 500 points/);
+    expect(redemptionProblem(100, 1, customer(2000), settings, 100)).toMatch(/At least 500/);
+    expect(redemptionProblem(6000, 60, customer(8000), settings, 100)).toMatch(/at most 50%/);
+  });
+});
@@ -0,0 +1,77 @@
+import type { CustomerFrontend, LoyaltySettings, LoyaltyTier } from '../types/pos';
+import { round2 } from './money';
+
+/** Used when the company has not saved its own loyalty rules yet. The programme starts switched off. */
+export const DEFAULT_LOYALTY_SETTINGS: LoyaltySettings = {
+  enabled: false,
+  pointsPerRand: 1,
+  categoryMultipliers: [],
+  pointValue: 0.01,
+  redeemAs: 'tender',
+  minRedeemPoints: 500,
+  maxRedeemPercent: 50,
+  tiers: [
+    { name: 'Member', minPoints: 0, earnMultiplier: 1 },
+    { name: 'Silver', minPoints: 5000, earnMultiplier: 1.25 },
+    { name: 'Gold', minPoints: 15000, earnMultiplier: 1.5 },
+  ],
+};
+
+/** Highest tier the customer's points over the last 12 months qualify for. */
+export const loyaltyTier = (pointsYear: number, settings: LoyaltySettings): LoyaltyTier | null =>
+  [...settings.tiers].sort((a, b) => b.minPoints - a.minPoints).find(t => pointsYear >= t.minPoints) ?? null;
+
+/** Rand value of `points` when redeemed. */
+export const pointsValue = (points: number, settings: LoyaltySettings) => round2(points * settings.pointValue);
+
+/** Points needed to cover `amount`, rounded up so the customer never pays less than the points are worth. */
+export const pointsForValue = (amount: number, settings: LoyaltySettings) =>
+  settings.pointValue > 0 ? Math.ceil(round2(amount) / settings.pointValue - 1e-9) : 0;
+
+export interface EarnLine {
+  category: string | null;
+  total: number; // incl. VAT, after discounts
+  /** Gift voucher lines: the points are earned when the voucher is spent. */
+  noEarn?: boolean;
+}
+
+/**
+ * Points a sale earns: each line at the earn rate times its category
+ * multiplier, then the tier multiplier, rounded down. The part of the sale
+ * paid with points earns nothing, so it is taken off pro rata.
+ */
+export const pointsEarned = (
+  lines: EarnLine[],
+  settings: LoyaltySettings,
+  tier: LoyaltyTier | null,
+  paidWithPoints = 0
+) => {
+  if (!settings.enabled) return 0;
+  const earning = lines.filter(l => !l.noEarn && l.total > 0);
+  const total = earning.reduce((sum, l) => sum + l.total, 0);
+  if (total <= 0) return 0;
+  const multiplier = (category: string | null) =>
+    settings.categoryMultipliers.find(m => category && m.category === category)?.multiplier ?? 1;
+  const raw = earning.reduce((sum, l) => sum + l.total * settings.pointsPerRand * multiplier(l.category), 0);
+  const paidShare = Math.max(0, 1 - paidWithPoints / total);
+  return Math.floor(raw * (tier?.earnMultiplier ?? 1) * paidShare + 1e-9);
+};
+
+/** Why `points` (worth `value`) cannot be redeemed against a sale of `saleTotal`, or null when they can. */
+export const redemptionProblem = (
+  points: number,
+  value: number,
+  customer: CustomerFrontend | null,
+  settings: LoyaltySettings,
+  saleTotal: number
+) => {
+  if (points <= 0) return null;
+  if (!settings.enabled) return 'The loyalty programme is switched off.';
+  if (!customer) return 'Select the customer whose points are being used.';
+  const balance = customer.loyaltyPoints ?? 0;
+  if (points > balance) return `${customer.name} only has ${balance} points.`;
+  if (points < settings.minRedeemPoints) return `At least ${settings.minRedeemPoints} points must be redeemed at a time.`;
+  const cap = round2((saleTotal * settings.maxRedeemPercent) / 100);
+  if (value > cap + 0.005) return `Points can pay for at most ${settings.maxRedeemPercent}% of a sale (R${cap.toFixed(2)}).`;
+  return null;
+};
@@ -0,0 +1,7 @@
+// Rand amounts are plain numbers, rounded to cents at each step so totals,
+// allocations and receipts agree to the cent.
+
+export const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** "R12.50". Missing or unreadable amounts show as R0.00. */
+export const money = (value: number | string | null | undefined) => `R${(Number(value) || 0).toFixed(2)}`;
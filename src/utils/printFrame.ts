@@ -0,0 +1,26 @@
+/**
+ * Prints an HTML fragment through a hidden iframe so only the document (not
+ * the app chrome) goes to the printer. Styles are passed in because the
+ * frame does not load the app's stylesheets.
+ */
+export const printHtml = (title: string, css: string, bodyHtml: string) => {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  document.body.appendChild(iframe);
+  const doc = iframe.contentDocument;
+  if (!doc || !iframe.contentWindow) return;
+  doc.open();
+  doc.write(`<html><head><title>${title}</title><style>${css}</style></head><body>${bodyHtml}</body></html>`);
+  doc.close();
+  iframe.contentWindow.focus();
+  iframe.contentWindow.print();
+  setTimeout(() => iframe.remove(), 1000);
+};
+
+const HTML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' };
+
+/** For user-entered text (notes, names) placed into printHtml markup. */
+export const escapeHtml = (text: string) => text.replace(/[&<>"]/g, ch => HTML_ENTITIES[ch]);
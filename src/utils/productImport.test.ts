@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { product } from '../test/fixtures';
+import { catalogueExportRows, guessMapping, validateImport } from './productImport';
+import { parseCsv } from './spreadsheet';
+
+const headers = ['Item Code', 'Product Name', 'Selling Price', 'VAT', 'Qty'];
+const mapping = guessMapping(headers);
+/** Data rows as read from a file with the header on row 1 and no blank rows. */
+const sheet = (...rows: string[][]) => rows.map((cells, i) => ({ rowNumber: i + 2, cells }));
+
+describe('guessMapping', () => {
+  it('matches headers by alias regardless of case and spacing', () => {
+    expect(guessMapping(['  Stock  Code', 'Description', 'Unit Cost', 'Bin'])).toEqual({
+      sku: 0,
+      name: 1,
+      cost_price: 2,
+      location: 3,
+    });
+  });
+
+  it('maps an exported catalogue onto itself', () => {
+    const [exportHeaders] = catalogueExportRows([]);
+    const guessed = guessMapping(exportHeaders.map(String));
+    expect(Object.values(guessed)).toEqual(exportHeaders.map((_, i) => i));
+  });
+});
+
+describe('validateImport', () => {
+  it('reads local number formats and VAT written as a percentage or fraction', () => {
+    const rows = validateImport(
+      sheet(['A1', 'Mug', 'R1 234,50', '15%', '3'], ['A2', 'Bowl', '12.5', '0.15', ''], ['A3', 'Bread', '20', '0', '']),
+      mapping,
+      []
+    );
+    expect(rows.map(r => r.errors)).toEqual([[], [], []]);
+    expect(rows[0].data).toMatchObject({ unit_price: 1234.5, tax_rate: 0.15, stock_quantity: 3 });
+    expect(rows[1].data).toMatchObject({ unit_price: 12.5, tax_rate: 0.15, stock_quantity: null });
+    expect(rows[2].data.tax_rate).toBe(0);
+  });
+
+  it('rejects a comma that could be a decimal or a thousands separator', () => {
+    const prices = ['1,234', '1,234,567', '1,234.5', '12,345', '12,5', '1,2,3'].map(
+      price => validateImport(sheet(['A1', 'Mug', price, '', '']), mapping, [])[0]
+    );
+    expect(prices.map(r => r.data.unit_price)).toEqual([null, 1234567, 1234.5, null, 12.5, null]);
+    expect(prices[0].errors[0]).toBe('Price "1,234" is not a number');
+  });
+
+  it('updates products by SKU, ignoring case', () => {
+    const [row] = validateImport(sheet(['a1', '', '25', '', '']), mapping, [product({ id: 7, sku: 'A1' })]);
+    expect(row).toMatchObject({ action: 'update', productId: 7, errors: [] });
+  });
+
+  it('requires a name and price for new products', () => {
+    const [row] = validateImport(sheet(['B1', '', '', '', '']), mapping, []);
+    expect(row.action).toBe('create');
+    expect(row.errors).toEqual(['Name is required for new products', 'Price is required for new products']);
+  });
+
+  it('rejects unreadable numbers and unsupported VAT rates', () => {
+    const [row] = validateImport(sheet(['B1', 'Mug', 'ten', '14', '-1']), mapping, []);
+    expect(row.errors).toEqual([
+      'Price "ten" is not a number',
+      'Price is required for new products',
+      'VAT rate "14" must be 0% or 15%',
+      'Stock cannot be negative',
+    ]);
+  });
+
+  it('flags SKUs repeated in the file on every row', () => {
+    const rows = validateImport(
+      sheet(['A1', 'Mug', '10', '', ''], ['B1', 'Bowl', '10', '', ''], ['a1', 'Mug', '12', '', '']),
+      mapping,
+      []
+    );
+    expect(rows.map(r => r.errors)).toEqual([['Duplicate SKU, also on row 4'], [], ['Duplicate SKU, also on row 2']]);
+  });
+
+  it('reports the row the spreadsheet shows when blank rows were skipped', () => {
+    const [header, ...rows] = parseCsv('SKU,Name,Price\n\nA1,Mug,10\n,,\nA1,Bowl,12\n');
+    const preview = validateImport(rows, guessMapping(header.cells), []);
+    expect(preview.map(r => [r.rowNumber, r.errors])).toEqual([
+      [3, ['Duplicate SKU, also on row 5']],
+      [5, ['Duplicate SKU, also on row 3']],
+    ]);
+  });
+
+  it('keeps stock off variant parents', () => {
+    const parent = product({ id: 1, sku: 'TEE', variant_attributes: [{ name: 'Size', values: ['S', 'M'] }] });
+    expect(validateImport(sheet(['TEE', '', '', '', '5']), mapping, [parent])[0].errors).toEqual([
+      'Has variants: set stock on the variant rows instead',
+    ]);
+    expect(validateImport(sheet(['TEE', '', '199', '', '']), mapping, [parent])[0].errors).toEqual([]);
+  });
+});
@@ -0,0 +1,208 @@
+import type { ProductDB, ProductImportRow } from '../types/pos';
+import type { SheetRow } from './spreadsheet';
+import { isVariantParent } from './variants';
+
+export type ImportField = keyof ProductImportRow;
+
+export interface ImportFieldSpec {
+  field: ImportField;
+  label: string;
+  /** Header names recognised when guessing the mapping, lower case. */
+  aliases: string[];
+  required?: boolean;
+}
+
+/** The columns an import can fill. The labels are the export's headers, so an exported file maps itself. */
+export const PRODUCT_IMPORT_FIELDS: ImportFieldSpec[] = [
+  { field: 'sku', label: 'SKU', aliases: ['sku', 'code', 'item code', 'product code', 'stock code'], required: true },
+  { field: 'name', label: 'Name', aliases: ['name', 'product', 'product name', 'description', 'item'] },
+  { field: 'category', label: 'Category', aliases: ['category', 'group', 'department'] },
+  { field: 'unit', label: 'Unit', aliases: ['unit', 'uom', 'unit of measure'] },
+  { field: 'unit_price', label: 'Price', aliases: ['price', 'unit price', 'selling price', 'sell price'] },
+  { field: 'cost_price', label: 'Cost', aliases: ['cost', 'cost price', 'unit cost', 'purchase price'] },
+  { field: 'tax_rate', label: 'VAT %', aliases: ['vat %', 'vat', 'tax', 'tax rate', 'vat rate'] },
+  { field: 'stock_quantity', label: 'Stock', aliases: ['stock', 'qty', 'quantity', 'on hand', 'stock quantity'] },
+  { field: 'min_quantity', label: 'Min Qty', aliases: ['min qty', 'min', 'minimum', 'min quantity'] },
+  { field: 'max_quantity', label: 'Max Qty', aliases: ['max qty', 'max', 'maximum', 'max quantity'] },
+  { field: 'reorder_point', label: 'Reorder Point', aliases: ['reorder point', 'reorder level', 'reorder'] },
+  { field: 'location', label: 'Location', aliases: ['location', 'bin', 'shelf'] },
+  { field: 'barcode', label: 'Barcode', aliases: ['barcode', 'ean', 'upc'] },
+  { field: 'is_service', label: 'Service', aliases: ['service', 'is service', 'type'] },
+];
+
+/** VAT rates a product can carry: zero-rated or standard. */
+export const PRODUCT_TAX_RATES = [0, 0.15];
+
+/** Field -> column index in the sheet. Unmapped fields are left unchanged on update. */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+const normalise = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Maps each field to the first header that matches its label or an alias. */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const names = headers.map(normalise);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  for (const spec of PRODUCT_IMPORT_FIELDS) {
+    const index = names.findIndex((n, i) => !used.has(i) && spec.aliases.includes(n));
+    if (index >= 0) {
+      mapping[spec.field] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+};
+
+export interface ImportPreviewRow {
+  /** Row number in the spreadsheet, counting the header as row 1. */
+  rowNumber: number;
+  action: 'create' | 'update';
+  /** The product the row updates. */
+  productId?: number;
+  data: ProductImportRow;
+  errors: string[];
+}
+
+/**
+ * Accepts "1 234.50", "1,234.50", "R12,50" and "12.5". A single comma without a
+ * dot is the decimal separator, except "1,234", which could mean either and is
+ * rejected; other commas must group thousands. NaN when unreadable.
+ */
+const parseNumber = (text: string): number | null => {
+  const cleaned = text.replace(/[\sR]/g, '');
+  if (!cleaned) return null;
+  const commas = cleaned.split(',').length - 1;
+  let normalised = cleaned;
+  if (commas === 1 && !cleaned.includes('.')) {
+    if (/^-?\d{1,3},\d{3}$/.test(cleaned)) return NaN;
+    normalised = cleaned.replace(',', '.');
+  } else if (commas > 0) {
+    if (!/^-?\d{1,3}(,\d{3})+(\.\d*)?$/.test(cleaned)) return NaN;
+    normalised = cleaned.replace(/,/g, '');
+  }
+  const value = Number(normalised);
+  return Number.isFinite(value) ? value : NaN;
+};
+
+/** 15, "15%" and 0.15 all mean 15% VAT. */
+const parseTaxRate = (text: string): number | null => {
+  const percent = text.trim().endsWith('%');
+  const value = parseNumber(text.replace('%', ''));
+  if (value === null || Number.isNaN(value)) return value;
+  return percent || value > 1 ? Math.round(value * 100) / 10000 : value;
+};
+
+const parseBoolean = (text: string): boolean | null | undefined => {
+  const value = text.trim().toLowerCase();
+  if (!value) return null;
+  if (['yes', 'y', 'true', '1', 'service'].includes(value)) return true;
+  if (['no', 'n', 'false', '0', 'product'].includes(value)) return false;
+  return undefined;
+};
+
+/**
+ * Reads the data rows (header excluded) with the mapping and checks each one
+ * against the file and the existing catalogue. Rows with errors are shown in
+ * the preview and left out of the import.
+ */
+export const validateImport = (rows: SheetRow[], mapping: ColumnMapping, existing: ProductDB[]): ImportPreviewRow[] => {
+  const bySku = new Map(existing.filter(p => p.sku).map(p => [p.sku!.trim().toLowerCase(), p]));
+  const skuRows = new Map<string, number[]>();
+
+  const preview = rows.map(({ rowNumber, cells }): ImportPreviewRow => {
+    const errors: string[] = [];
+    const text = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+    const number = (field: ImportField, label: string) => {
+      const value = parseNumber(text(field));
+      if (Number.isNaN(value)) {
+        errors.push(`${label} "${text(field)}" is not a number`);
+        return null;
+      }
+      return value;
+    };
+
+    const sku = text('sku');
+    const product = sku ? bySku.get(sku.toLowerCase()) : undefined;
+    const taxRate = parseTaxRate(text('tax_rate'));
+    const isService = parseBoolean(text('is_service'));
+    const data: ProductImportRow = {
+      sku,
+      name: text('name') || null,
+      category: text('category') || null,
+      unit: text('unit') || null,
+      unit_price: number('unit_price', 'Price'),
+      cost_price: number('cost_price', 'Cost'),
+      tax_rate: Number.isNaN(taxRate) ? null : taxRate,
+      stock_quantity: number('stock_quantity', 'Stock'),
+      min_quantity: number('min_quantity', 'Min qty'),
+      max_quantity: number('max_quantity', 'Max qty'),
+      reorder_point: number('reorder_point', 'Reorder point'),
+      location: text('location') || null,
+      barcode: text('barcode') || null,
+      is_service: isService ?? null,
+    };
+
+    if (!sku) {
+      errors.push('SKU is required');
+    } else {
+      const key = sku.toLowerCase();
+      skuRows.set(key, [...(skuRows.get(key) ?? []), rowNumber]);
+    }
+    if (!product && !data.name) errors.push('Name is required for new products');
+    if (!product && data.unit_price === null) errors.push('Price is required for new products');
+    if (data.unit_price !== null && data.unit_price < 0) errors.push('Price cannot be negative');
+    if (data.cost_price !== null && data.cost_price < 0) errors.push('Cost cannot be negative');
+    if (Number.isNaN(taxRate) || (taxRate !== null && !PRODUCT_TAX_RATES.includes(taxRate))) {
+      errors.push(`VAT rate "${text('tax_rate')}" must be ${PRODUCT_TAX_RATES.map(r => `${r * 100}%`).join(' or ')}`);
+    }
+    if (data.stock_quantity !== null && data.stock_quantity < 0) errors.push('Stock cannot be negative');
+    if (data.min_quantity !== null && data.max_quantity !== null && data.min_quantity > data.max_quantity) {
+      errors.push('Min qty is more than max qty');
+    }
+    if (isService === undefined) errors.push(`Service "${text('is_service')}" must be yes or no`);
+    // A parent's stock is the sum of its variants', so it is counted per variant
+    if (product && isVariantParent(product) && data.stock_quantity !== null) {
+      errors.push('Has variants: set stock on the variant rows instead');
+    }
+
+    return { rowNumber, action: product ? 'update' : 'create', productId: product?.id, data, errors };
+  });
+
+  for (const row of preview) {
+    const rowNumbers = skuRows.get(row.data.sku.toLowerCase());
+    if (row.data.sku && rowNumbers && rowNumbers.length > 1) {
+      row.errors.push(`Duplicate SKU, also on row ${rowNumbers.filter(n => n !== row.rowNumber).join(', ')}`);
+    }
+  }
+  return preview;
+};
+
+/**
+ * The whole catalogue with cost, stock and category in the import's columns,
+ * for editing offline and importing back. Parents of variants have no stock
+ * of their own, so their stock cell is left blank.
+ */
+export const catalogueExportRows = (products: ProductDB[]): (string | number | null)[][] => [
+  PRODUCT_IMPORT_FIELDS.map(f => f.label),
+  ...[...products]
+    .sort((a, b) => (a.category ?? '').localeCompare(b.category ?? '') || a.name.localeCompare(b.name))
+    .map(p => [
+      p.sku,
+      p.name,
+      p.category,
+      p.unit,
+      Number(p.unit_price),
+      p.cost_price === null ? null : Number(p.cost_price),
+      Math.round(Number(p.tax_rate_value || 0) * 10000) / 100,
+      p.is_service || isVariantParent(p) ? null : Number(p.stock_quantity),
+      p.min_quantity ?? null,
+      p.max_quantity ?? null,
+      p.reorder_point ?? null,
+      p.location ?? null,
+      p.barcode ?? null,
+      p.is_service ? 'yes' : 'no',
+    ]),
+];
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import type { Promotion } from '../types/pos';
+import { discountedLineTotal, isPromotionActive, overrideReductionPercent, priceCart, type PricingLine } from './promotions';
+
+const promo = (overrides: Partial<Promotion> = {}): Promotion => ({
+  id: 1,
+  name: '10% off',
+  kind: 'percentage',
+  scope: 'line',
+  value: 10,
+  productIds: [],
+  active: true,
+  ...overrides,
+});
+
+const line = (overrides: Partial<PricingLine> = {}): PricingLine => ({
+  id: 1,
+  productId: 1,
+  quantity: 2,
+  unitPrice: 100,
+  taxRate: 0.15,
+  ...overrides,
+});
+
+// A Wednesday, mid-morning local time
+const at = new Date(2025, 2, 12, 10, 30);
+
+describe('priceCart', () => {
+  it('adds VAT on the discounted price', () => {
+    const pricing = priceCart([line()], [promo()], at);
+    expect(pricing.lines[0]).toMatchObject({ discount: 20, net: 180, vat: 27, total: 207 });
+    expect(pricing.discountTotal).toBe(20);
+    expect(pricing.total).toBe(207);
+  });
+
+  it('applies only the best line promotion', () => {
+    const pricing = priceCart([line()], [promo(), promo({ id: 2, name: 'R15 off', kind: 'fixed', value: 15 })], at);
+    expect(pricing.lines[0].discounts).toEqual([{ promotionId: 2, label: 'R15 off', amount: 30 }]);
+  });
+
+  it('gives the free units of a bundle', () => {
+    const bundle = promo({ kind: 'bundle', buyQuantity: 2, freeQuantity: 1, name: '3 for 2' });
+    expect(priceCart([line({ quantity: 7 })], [bundle], at).lines[0].discount).toBe(200);
+  });
+
+  it('only discounts the listed products', () => {
+    const pricing = priceCart([line(), line({ id: 2, productId: 2 })], [promo({ productIds: [2] })], at);
+    expect(pricing.lines.map(l => l.discount)).toEqual([0, 20]);
+  });
+
+  it('gives custom items and no-discount lines no line promotions', () => {
+    const pricing = priceCart([line({ productId: undefined }), line({ id: 2, noDiscount: true })], [promo()], at);
+    expect(pricing.lines.map(l => l.discount)).toEqual([0, 0]);
+  });
+
+  it('spreads a basket discount over the lines so the shares add up', () => {
+    const basket = promo({ scope: 'basket', kind: 'fixed', value: 10, name: 'R10 off' });
+    const pricing = priceCart(
+      [line({ quantity: 1 }), line({ id: 2, quantity: 1 }), line({ id: 3, quantity: 1 })],
+      [basket],
+      at
+    );
+    expect(pricing.lines.map(l => l.discount)).toEqual([3.33, 3.33, 3.34]);
+    expect(pricing.discountTotal).toBe(10);
+  });
+
+  it('keeps basket discounts off no-discount lines', () => {
+    const basket = promo({ scope: 'basket', value: 50 });
+    const pricing = priceCart([line({ quantity: 1 }), line({ id: 2, quantity: 1, noDiscount: true })], [basket], at);
+    expect(pricing.lines.map(l => l.discount)).toEqual([50, 0]);
+  });
+
+  it('waits for the minimum spend incl. VAT', () => {
+    const basket = promo({ scope: 'basket', minSpend: 200 });
+    expect(priceCart([line()], [basket], at).discountTotal).toBe(20);
+    expect(priceCart([line({ quantity: 1 })], [basket], at).discountTotal).toBe(0);
+  });
+
+  it('takes a redemption off incl. VAT after the promotions', () => {
+    const pricing = priceCart([line({ quantity: 1 })], [], at, { label: 'Loyalty points', amount: 23 });
+    expect(pricing.lines[0].discounts).toEqual([{ promotionId: null, label: 'Loyalty points', amount: 20 }]);
+    expect(pricing.total).toBe(92);
+  });
+});
+
+describe('isPromotionActive', () => {
+  it('respects the date range, weekdays and switch', () => {
+    expect(isPromotionActive(promo({ startsAt: '2025-03-12', endsAt: '2025-03-12' }), at)).toBe(true);
+    expect(isPromotionActive(promo({ startsAt: '2025-03-13' }), at)).toBe(false);
+    expect(isPromotionActive(promo({ daysOfWeek: [3] }), at)).toBe(true);
+    expect(isPromotionActive(promo({ daysOfWeek: [0, 6] }), at)).toBe(false);
+    expect(isPromotionActive(promo({ active: false }), at)).toBe(false);
+  });
+
+  it('handles happy hours that run past midnight', () => {
+    const lateNight = promo({ startTime: '22:00', endTime: '02:00' });
+    expect(isPromotionActive(lateNight, new Date(2025, 2, 12, 23, 0))).toBe(true);
+    expect(isPromotionActive(lateNight, new Date(2025, 2, 12, 1, 59))).toBe(true);
+    expect(isPromotionActive(lateNight, at)).toBe(false);
+  });
+});
+
+describe('price helpers', () => {
+  it('measures how far an override is below the catalogue price', () => {
+    expect(overrideReductionPercent(200, 150)).toBe(25);
+    expect(overrideReductionPercent(200, 250)).toBe(0);
+  });
+
+  it('takes an invoice line discount off before VAT', () => {
+    expect(discountedLineTotal(3, 100, 0.15, 10)).toBe(310.5);
+  });
+});
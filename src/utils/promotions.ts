@@ -0,0 +1,184 @@
+import type { Promotion, SaleLineDiscount } from '../types/pos';
+import { isoDate } from './dates';
+import { round2 } from './money';
+
+// Pricing engine shared by the POS cart and receipts. All amounts are worked
+// out excl. VAT and VAT is added per line afterwards, so a discounted line is
+// taxed on what the customer actually pays.
+
+export interface PricingLine {
+  id: number | string;
+  /** Catalogue product id; custom items have none and only get basket discounts. */
+  productId?: number;
+  quantity: number;
+  unitPrice: number; // excl. VAT
+  taxRate: number;
+  /** Sold at the given price with no promotions at all (gift vouchers, manual price overrides). */
+  noDiscount?: boolean;
+}
+
+export interface PricedLine {
+  id: number | string;
+  discounts: SaleLineDiscount[];
+  discount: number;
+  net: number;
+  vat: number;
+  total: number;
+}
+
+export interface CartPricing {
+  lines: PricedLine[];
+  discountTotal: number;
+  netTotal: number;
+  vatTotal: number;
+  total: number;
+}
+
+const localTime = (at: Date) =>
+  `${String(at.getHours()).padStart(2, '0')}:${String(at.getMinutes()).padStart(2, '0')}`;
+
+/** True when the promotion is switched on and `at` falls inside its date, weekday and time windows. */
+export const isPromotionActive = (promo: Promotion, at = new Date()) => {
+  if (!promo.active) return false;
+  const today = isoDate(at);
+  if (promo.startsAt && today < promo.startsAt.slice(0, 10)) return false;
+  if (promo.endsAt && today > promo.endsAt.slice(0, 10)) return false;
+  if (promo.daysOfWeek?.length && !promo.daysOfWeek.includes(at.getDay())) return false;
+
+  if (promo.startTime && promo.endTime) {
+    const now = localTime(at);
+    // A window such as 22:00-02:00 runs past midnight
+    return promo.startTime <= promo.endTime
+      ? now >= promo.startTime && now < promo.endTime
+      : now >= promo.startTime || now < promo.endTime;
+  }
+  return true;
+};
+
+const lineDiscountFor = (promo: Promotion, line: PricingLine) => {
+  const gross = line.quantity * line.unitPrice;
+  switch (promo.kind) {
+    case 'percentage':
+      return gross * Math.min(100, Math.max(0, promo.value)) / 100;
+    case 'fixed':
+      return Math.min(gross, promo.value * line.quantity);
+    case 'bundle': {
+      const buy = promo.buyQuantity ?? 0;
+      const free = promo.freeQuantity ?? 0;
+      if (buy <= 0 || free <= 0) return 0;
+      return Math.floor(line.quantity / (buy + free)) * free * line.unitPrice;
+    }
+  }
+};
+
+const appliesToLine = (promo: Promotion, line: PricingLine) =>
+  line.productId !== undefined && (promo.productIds.length === 0 || promo.productIds.includes(line.productId));
+
+/**
+ * A fixed amount incl. VAT taken off the basket after promotions, such as
+ * loyalty points redeemed as a discount.
+ */
+export interface BasketRedemption {
+  label: string;
+  amount: number;
+}
+
+/**
+ * Prices a cart. Each line gets the single best line promotion (rules don't
+ * stack), then the best basket promotion the basket qualifies for is spread
+ * across the lines in proportion to their discounted net. A redemption comes
+ * off last, spread over the lines by what they cost incl. VAT.
+ */
+export const priceCart = (
+  lines: PricingLine[],
+  promotions: Promotion[],
+  at = new Date(),
+  redemption?: BasketRedemption
+): CartPricing => {
+  const active = promotions.filter(p => isPromotionActive(p, at));
+  const lineRules = active.filter(p => p.scope === 'line');
+  const basketRules = active.filter(p => p.scope === 'basket');
+
+  const priced = lines.map(line => {
+    const gross = round2(line.quantity * line.unitPrice);
+    let best: SaleLineDiscount | null = null;
+    for (const promo of lineRules) {
+      if (line.noDiscount || !appliesToLine(promo, line)) continue;
+      const amount = round2(lineDiscountFor(promo, line));
+      if (amount > 0 && (!best || amount > best.amount)) {
+        best = { promotionId: promo.id, label: promo.name, amount };
+      }
+    }
+    const discounts: SaleLineDiscount[] = best ? [best] : [];
+    return { line, gross, discounts };
+  });
+
+  const netAfterLine = (p: (typeof priced)[number]) =>
+    p.gross - p.discounts.reduce((sum, d) => sum + d.amount, 0);
+  const eligible = priced.filter(p => !p.line.noDiscount);
+  const basketNet = eligible.reduce((sum, p) => sum + netAfterLine(p), 0);
+  const basketGross = eligible.reduce((sum, p) => sum + netAfterLine(p) * (1 + p.line.taxRate), 0);
+
+  let basketPromo: { promo: Promotion; amount: number } | null = null;
+  for (const promo of basketRules) {
+    if (promo.kind === 'bundle' || basketGross < (promo.minSpend ?? 0)) continue;
+    const amount =
+      promo.kind === 'percentage'
+        ? basketNet * Math.min(100, Math.max(0, promo.value)) / 100
+        : Math.min(basketNet, promo.value);
+    if (amount > 0 && (!basketPromo || amount > basketPromo.amount)) basketPromo = { promo, amount };
+  }
+
+  if (basketPromo && basketNet > 0) {
+    const { promo, amount } = basketPromo;
+    let allocated = 0;
+    eligible.forEach((p, i) => {
+      // The last line takes the rounding remainder so the shares add up exactly
+      const share =
+        i === eligible.length - 1
+          ? round2(amount - allocated)
+          : round2((amount * netAfterLine(p)) / basketNet);
+      allocated += share;
+      if (share > 0) p.discounts.push({ promotionId: promo.id, label: promo.name, amount: share });
+    });
+  }
+
+  const grossAfter = (p: (typeof priced)[number]) => netAfterLine(p) * (1 + p.line.taxRate);
+  const redeemable = eligible.reduce((sum, p) => sum + grossAfter(p), 0);
+  if (redemption && redemption.amount > 0 && redeemable > 0) {
+    const amount = Math.min(redemption.amount, redeemable);
+    const shares = eligible.map(p => (amount * grossAfter(p)) / redeemable);
+    let allocated = 0;
+    eligible.forEach((p, i) => {
+      const share = i === eligible.length - 1 ? round2(amount - allocated) : round2(shares[i]);
+      allocated += share;
+      const net = round2(share / (1 + p.line.taxRate));
+      if (net > 0) p.discounts.push({ promotionId: null, label: redemption.label, amount: net });
+    });
+  }
+
+  const result = priced.map(({ line, gross, discounts }) => {
+    const discount = round2(discounts.reduce((sum, d) => sum + d.amount, 0));
+    const net = round2(gross - discount);
+    const vat = round2(net * line.taxRate);
+    return { id: line.id, discounts, discount, net, vat, total: round2(net + vat) };
+  });
+
+  return {
+    lines: result,
+    discountTotal: round2(result.reduce((sum, l) => sum + l.discount, 0)),
+    netTotal: round2(result.reduce((sum, l) => sum + l.net, 0)),
+    vatTotal: round2(result.reduce((sum, l) => sum + l.vat, 0)),
+    total: round2(result.reduce((sum, l) => sum + l.total, 0)),
+  };
+};
+
+/** Percentage a manual price is below the catalogue price (0 when it is not lower). */
+export const overrideReductionPercent = (originalPrice: number, newPrice: number) =>
+  originalPrice > 0 && newPrice < originalPrice ? ((originalPrice - newPrice) / originalPrice) * 100 : 0;
+
+/** Invoice/quotation line total incl. VAT. The line discount comes off before VAT is added. */
+export const discountedLineTotal = (quantity: number, unitPrice: number, taxRate: number, discountPercent = 0) => {
+  const discount = Math.min(100, Math.max(0, discountPercent || 0));
+  return round2(quantity * unitPrice * (1 - discount / 100) * (1 + taxRate));
+};
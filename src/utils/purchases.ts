@@ -0,0 +1,12 @@
+/** PO-YYYYMMDD-HHMMSS-NNN; the random suffix keeps numbers unique when several are generated at once. */
+export const generatePurchaseOrderNumber = () => {
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  const hours = String(now.getHours()).padStart(2, '0');
+  const minutes = String(now.getMinutes()).padStart(2, '0');
+  const seconds = String(now.getSeconds()).padStart(2, '0');
+  const randomSuffix = String(Math.floor(Math.random() * 1000)).padStart(3, '0');
+  return `PO-${year}${month}${day}-${hours}${minutes}${seconds}-${randomSuffix}`;
+};
@@ -0,0 +1,283 @@
+import jsPDF from 'jspdf';
+import type { SalePayload } from '../types/pos';
+import { tenderLabel } from './tenders';
+import type { UserProfile } from '../types/auth';
+import type { ReceiptCompany, ReceiptData, ReceiptLine, ReceiptPaperWidth } from '../types/receipt';
+import { money, round2 } from './money';
+
+export const companyFromProfile = (profile: UserProfile | null): ReceiptCompany => ({
+  name: profile?.company || profile?.name || 'Receipt',
+  address: [profile?.address, profile?.city, profile?.postal_code].filter(Boolean).join(', ') || null,
+  phone: profile?.phone ?? null,
+  email: profile?.email ?? null,
+  vatNumber: profile?.vat_number ?? null,
+});
+
+/**
+ * Builds the receipt for a sale. Cart unit prices and discounts are VAT
+ * exclusive. `loyaltyBalance` is the customer's points balance before the sale.
+ */
+export const buildReceipt = (
+  payload: SalePayload,
+  reference: string,
+  company: ReceiptCompany,
+  pendingSync = false,
+  loyaltyBalance: number | null = null
+): ReceiptData => {
+  const lines: ReceiptLine[] = payload.cart.map(item => {
+    const discounts = item.discounts ?? [];
+    const discount = discounts.reduce((sum, d) => sum + d.amount, 0);
+    const net = round2(item.quantity * item.unit_price - discount);
+    const vat = round2(net * (item.tax_rate_value || 0));
+    return {
+      name: item.name,
+      quantity: item.quantity,
+      unitPrice: item.unit_price,
+      taxRate: item.tax_rate_value || 0,
+      originalUnitPrice: item.original_unit_price ?? null,
+      discounts,
+      net,
+      vat,
+      total: round2(net + vat),
+    };
+  });
+
+  const bands = new Map<number, { net: number; vat: number }>();
+  lines.forEach(line => {
+    const band = bands.get(line.taxRate) ?? { net: 0, vat: 0 };
+    bands.set(line.taxRate, { net: band.net + line.net, vat: band.vat + line.vat });
+  });
+
+  return {
+    reference,
+    pendingSync,
+    createdAt: new Date().toISOString(),
+    company,
+    tellerName: payload.tellerName || null,
+    branch: payload.branch || null,
+    customerName: payload.customer?.name ?? null,
+    lines,
+    vatBands: [...bands.entries()]
+      .sort(([a], [b]) => b - a)
+      .map(([rate, band]) => ({ rate, net: round2(band.net), vat: round2(band.vat) })),
+    discountTotal: round2(lines.reduce((sum, l) => sum + l.discounts.reduce((s, d) => s + d.amount, 0), 0)),
+    netTotal: round2(lines.reduce((sum, l) => sum + l.net, 0)),
+    vatTotal: round2(lines.reduce((sum, l) => sum + l.vat, 0)),
+    total: round2(payload.total),
+    tenders: payload.tenders,
+    cashTendered: payload.amountPaid,
+    change: payload.change,
+    loyalty: payload.loyalty
+      ? {
+          earned: payload.loyalty.pointsEarned,
+          redeemed: payload.loyalty.pointsRedeemed,
+          balance:
+            loyaltyBalance === null
+              ? null
+              : loyaltyBalance - payload.loyalty.pointsRedeemed + payload.loyalty.pointsEarned,
+        }
+      : null,
+  };
+};
+
+/** Text the QR code on the receipt encodes; returns and lookups accept it as-is. */
+export const receiptQrValue = (receipt: ReceiptData) => `SALE:${receipt.reference}`;
+
+// --- ESC/POS -------------------------------------------------------------------
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+// Printable columns in Font A for the common paper widths
+const COLUMNS: Record<ReceiptPaperWidth, number> = { 58: 32, 80: 48 };
+
+const ascii = (text: string) => text.normalize('NFKD').replace(/[^\x20-\x7e]/g, '');
+
+const twoColumns = (left: string, right: string, width: number) => {
+  const l = ascii(left);
+  const r = ascii(right);
+  const space = width - r.length;
+  if (l.length < space) return l.padEnd(space) + r;
+  // Wrap long names onto their own line, amount right aligned underneath
+  return `${l.slice(0, width)}\n${r.padStart(width)}`;
+};
+
+/**
+ * Encodes the receipt as an ESC/POS command stream for a local print bridge.
+ * Uses only commands supported by practically every thermal printer: text,
+ * alignment, bold, a native QR code (GS ( k) and a partial cut.
+ */
+export const receiptToEscPos = (receipt: ReceiptData, width: ReceiptPaperWidth): Uint8Array => {
+  const cols = COLUMNS[width];
+  const bytes: number[] = [];
+  const raw = (...b: number[]) => bytes.push(...b);
+  const text = (value: string) => {
+    for (const ch of ascii(value)) bytes.push(ch.charCodeAt(0));
+  };
+  const line = (value = '') => {
+    text(value);
+    raw(0x0a);
+  };
+  const align = (mode: 0 | 1 | 2) => raw(ESC, 0x61, mode);
+  const bold = (on: boolean) => raw(ESC, 0x45, on ? 1 : 0);
+  const rule = () => line('-'.repeat(cols));
+
+  raw(ESC, 0x40); // initialise
+  align(1);
+  bold(true);
+  line(receipt.company.name);
+  bold(false);
+  if (receipt.company.address) line(receipt.company.address);
+  if (receipt.company.phone) line(`Tel: ${receipt.company.phone}`);
+  if (receipt.company.vatNumber) line(`VAT No: ${receipt.company.vatNumber}`);
+  line(receipt.vatTotal > 0 ? 'TAX INVOICE' : 'RECEIPT');
+
+  align(0);
+  rule();
+  line(twoColumns(`Sale: ${receipt.reference}`, new Date(receipt.createdAt).toLocaleString(), cols));
+  if (receipt.tellerName) line(`Teller: ${receipt.tellerName}`);
+  if (receipt.branch) line(`Branch: ${receipt.branch}`);
+  if (receipt.customerName) line(`Customer: ${receipt.customerName}`);
+  rule();
+
+  receipt.lines.forEach(l => {
+    line(twoColumns(l.name, money(l.total), cols));
+    line(`  ${l.quantity} x ${money(l.unitPrice)}  VAT ${Math.round(l.taxRate * 100)}%`);
+    if (l.originalUnitPrice !== null) line(`  Price override (was ${money(l.originalUnitPrice)})`);
+    l.discounts.forEach(d => line(twoColumns(`  ${d.label}`, `-${money(d.amount)}`, cols)));
+  });
+  rule();
+
+  receipt.vatBands.forEach(band => {
+    line(twoColumns(`VAT ${Math.round(band.rate * 100)}% on ${money(band.net)}`, money(band.vat), cols));
+  });
+  if (receipt.discountTotal > 0) line(twoColumns('Discounts excl. VAT', `-${money(receipt.discountTotal)}`, cols));
+  line(twoColumns('Total excl. VAT', money(receipt.netTotal), cols));
+  line(twoColumns('VAT', money(receipt.vatTotal), cols));
+  bold(true);
+  line(twoColumns('TOTAL', money(receipt.total), cols));
+  bold(false);
+  rule();
+
+  receipt.tenders.forEach(t => {
+    const amount = t.method === 'Cash' ? receipt.cashTendered : t.amount;
+    line(twoColumns(tenderLabel(t), money(amount), cols));
+  });
+  if (receipt.change > 0) line(twoColumns('Change', money(receipt.change), cols));
+  if (receipt.loyalty) {
+    rule();
+    if (receipt.loyalty.redeemed > 0) line(twoColumns('Points redeemed', String(receipt.loyalty.redeemed), cols));
+    line(twoColumns('Points earned', String(receipt.loyalty.earned), cols));
+    if (receipt.loyalty.balance !== null) line(twoColumns('Points balance', String(receipt.loyalty.balance), cols));
+  }
+  if (receipt.pendingSync) line('** Captured offline - pending sync **');
+
+  // QR code: model 2, module size 6, error correction M, then store + print
+  align(1);
+  const data = Array.from(ascii(receiptQrValue(receipt))).map(c => c.charCodeAt(0));
+  const len = data.length + 3;
+  raw(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0x00);
+  raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, 0x06);
+  raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31);
+  raw(GS, 0x28, 0x6b, len % 256, Math.floor(len / 256), 0x31, 0x50, 0x30, ...data);
+  raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30);
+  line();
+  line('Thank you for your purchase!');
+
+  raw(ESC, 0x64, 4); // feed 4 lines
+  raw(GS, 0x56, 0x42, 0x00); // partial cut
+  return new Uint8Array(bytes);
+};
+
+// --- PDF -----------------------------------------------------------------------
+
+/**
+ * Renders the receipt as a narrow PDF (same width as the paper roll) for
+ * emailing or sharing. `qrDataUrl` is a PNG of the on-screen QR code.
+ */
+export const receiptToPdf = (receipt: ReceiptData, width: ReceiptPaperWidth, qrDataUrl?: string) => {
+  const margin = 4;
+  const lineHeight = 4;
+  const usable = width - margin * 2;
+
+  // Lays the receipt out top to bottom and returns where it ends. Run once
+  // without drawing to size the page, since long names wrap onto extra lines.
+  const layout = (doc: jsPDF, draw: boolean) => {
+    let y = margin + 3;
+    const center = (value: string, size = 8, style: 'normal' | 'bold' = 'normal') => {
+      doc.setFont('helvetica', style);
+      doc.setFontSize(size);
+      doc.splitTextToSize(value, usable).forEach((part: string) => {
+        if (draw) doc.text(part, width / 2, y, { align: 'center' });
+        y += lineHeight;
+      });
+    };
+    const row = (left: string, right: string, style: 'normal' | 'bold' = 'normal') => {
+      doc.setFont('helvetica', style);
+      doc.setFontSize(8);
+      const parts: string[] = doc.splitTextToSize(left, usable - 18);
+      parts.forEach((part, i) => {
+        if (draw) {
+          doc.text(part, margin, y);
+          if (i === parts.length - 1) doc.text(right, width - margin, y, { align: 'right' });
+        }
+        y += lineHeight;
+      });
+    };
+    const rule = () => {
+      if (draw) {
+        doc.setLineWidth(0.1);
+        doc.line(margin, y - 2, width - margin, y - 2);
+      }
+      y += 1;
+    };
+
+    center(receipt.company.name, 11, 'bold');
+    if (receipt.company.address) center(receipt.company.address);
+    if (receipt.company.phone) center(`Tel: ${receipt.company.phone}`);
+    if (receipt.company.vatNumber) center(`VAT No: ${receipt.company.vatNumber}`);
+    center(receipt.vatTotal > 0 ? 'TAX INVOICE' : 'RECEIPT', 9, 'bold');
+    rule();
+    row(`Sale: ${receipt.reference}`, new Date(receipt.createdAt).toLocaleDateString());
+    if (receipt.tellerName) row(`Teller: ${receipt.tellerName}`, '');
+    if (receipt.customerName) row(`Customer: ${receipt.customerName}`, '');
+    rule();
+    receipt.lines.forEach(l => {
+      row(l.name, money(l.total));
+      row(`  ${l.quantity} x ${money(l.unitPrice)} (VAT ${Math.round(l.taxRate * 100)}%)`, '');
+      if (l.originalUnitPrice !== null) row(`  Price override (was ${money(l.originalUnitPrice)})`, '');
+      l.discounts.forEach(d => row(`  ${d.label}`, `-${money(d.amount)}`));
+    });
+    rule();
+    receipt.vatBands.forEach(band => row(`VAT ${Math.round(band.rate * 100)}% on ${money(band.net)}`, money(band.vat)));
+    if (receipt.discountTotal > 0) row('Discounts excl. VAT', `-${money(receipt.discountTotal)}`);
+    row('Total excl. VAT', money(receipt.netTotal));
+    row('VAT', money(receipt.vatTotal));
+    row('TOTAL', money(receipt.total), 'bold');
+    rule();
+    receipt.tenders.forEach(t =>
+      row(tenderLabel(t), money(t.method === 'Cash' ? receipt.cashTendered : t.amount))
+    );
+    if (receipt.change > 0) row('Change', money(receipt.change));
+    if (receipt.loyalty) {
+      rule();
+      if (receipt.loyalty.redeemed > 0) row('Points redeemed', String(receipt.loyalty.redeemed));
+      row('Points earned', String(receipt.loyalty.earned));
+      if (receipt.loyalty.balance !== null) row('Points balance', String(receipt.loyalty.balance));
+    }
+    if (receipt.pendingSync) center('Captured offline - pending sync', 7);
+
+    if (qrDataUrl) {
+      const size = 30;
+      if (draw) doc.addImage(qrDataUrl, 'PNG', (width - size) / 2, y, size, size);
+      y += size + 4;
+    }
+    center('Thank you for your purchase!');
+    return y;
+  };
+
+  const height = layout(new jsPDF({ unit: 'mm', format: [width, 1000] }), false) + margin;
+  const doc = new jsPDF({ unit: 'mm', format: [width, height] });
+  layout(doc, true);
+  return doc;
+};
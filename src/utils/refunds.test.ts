@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { SaleDetail } from '../types/pos';
+import { allocateRefund, returnableQuantity, saleTenders, unitRefundAmount } from './refunds';
+
+const sale = (overrides: Partial<SaleDetail> = {}): SaleDetail => ({
+  id: 1,
+  created_at: '2025-03-01T10:00:00Z',
+  total_amount: 300,
+  payment_type: 'Split',
+  tenders: [
+    { method: 'Cash', amount: 100 },
+    { method: 'Bank', amount: 200 },
+  ],
+  customer_id: null,
+  customer_name: null,
+  remaining_credit_amount: 0,
+  teller_name: null,
+  status: 'completed',
+  items: [],
+  ...overrides,
+});
+
+describe('allocateRefund', () => {
+  it('pays back cash first, then bank', () => {
+    expect(allocateRefund(150, sale(), false)).toEqual([
+      { method: 'Cash', amount: 100 },
+      { method: 'Bank', amount: 50 },
+    ]);
+  });
+
+  it('leaves out what earlier returns already paid back', () => {
+    const partlyRefunded = sale({ refunds: [{ method: 'Cash', amount: 100 }] });
+    expect(allocateRefund(150, partlyRefunded, false)).toEqual([{ method: 'Bank', amount: 150 }]);
+  });
+
+  it('never pays a tender back more than it took in over several returns', () => {
+    const refunds = [
+      { method: 'Cash' as const, amount: 100 },
+      { method: 'Bank' as const, amount: 150 },
+    ];
+    expect(allocateRefund(50, sale({ refunds }), false)).toEqual([{ method: 'Bank', amount: 50 }]);
+  });
+
+  it('reduces the amount still owed on account before paying anything out', () => {
+    const onAccount = sale({
+      customer_id: 'c1',
+      tenders: [
+        { method: 'Cash', amount: 100 },
+        { method: 'Credit', amount: 200 },
+      ],
+      remaining_credit_amount: 120,
+    });
+    expect(allocateRefund(150, onAccount, false)).toEqual([
+      { method: 'Credit', amount: 120 },
+      { method: 'Cash', amount: 30 },
+    ]);
+  });
+
+  it('returns voucher and store credit spend as store credit, and points as points', () => {
+    const mixed = sale({
+      customer_id: 'c1',
+      tenders: [
+        { method: 'Voucher', amount: 40, voucherCode: 'ABC' },
+        { method: 'Points', amount: 10 },
+        { method: 'Cash', amount: 50 },
+      ],
+    });
+    expect(allocateRefund(100, mixed, false)).toEqual([
+      { method: 'StoreCredit', amount: 40 },
+      { method: 'Points', amount: 10 },
+      { method: 'Cash', amount: 50 },
+    ]);
+  });
+
+  it('issues a voucher instead of store credit for walk-in sales', () => {
+    expect(allocateRefund(80, sale(), true)).toEqual([{ method: 'Voucher', amount: 80 }]);
+    expect(allocateRefund(80, sale({ customer_id: 'c1' }), true)).toEqual([{ method: 'StoreCredit', amount: 80 }]);
+  });
+
+  it('pays anything left after the tenders in cash', () => {
+    const paidOff = sale({ tenders: [{ method: 'Credit', amount: 100 }], remaining_credit_amount: 0 });
+    expect(allocateRefund(60, paidOff, false)).toEqual([{ method: 'Cash', amount: 60 }]);
+  });
+
+  it('rounds to cents', () => {
+    expect(allocateRefund(33.333, sale(), false)).toEqual([{ method: 'Cash', amount: 33.33 }]);
+  });
+});
+
+describe('saleTenders', () => {
+  it('falls back to the payment type for sales without tenders', () => {
+    expect(saleTenders(sale({ tenders: undefined, payment_type: 'Bank' }))).toEqual([{ method: 'Bank', amount: 300 }]);
+    expect(saleTenders(sale({ tenders: [], payment_type: 'Split' }))).toEqual([]);
+  });
+});
+
+describe('line amounts', () => {
+  const line = {
+    id: 1,
+    product_id: 5,
+    product_name: 'Mug',
+    quantity: 3,
+    returned_quantity: 1,
+    unit_price_at_sale: 40,
+    subtotal: 138,
+    is_service: false,
+  };
+
+  it('refunds the tax inclusive unit price actually charged', () => {
+    expect(unitRefundAmount(line)).toBe(46);
+  });
+
+  it('only allows returning what has not been returned yet', () => {
+    expect(returnableQuantity(line)).toBe(2);
+    expect(returnableQuantity({ ...line, returned_quantity: 5 })).toBe(0);
+  });
+});
@@ -0,0 +1,63 @@
+import type { RefundTender, SaleDetail, SaleDetailLine, SaleTender } from '../types/pos';
+import { round2 } from './money';
+
+/** Tax inclusive price of one unit, as charged on the original sale. */
+export const unitRefundAmount = (line: SaleDetailLine) =>
+  line.quantity > 0 ? line.subtotal / line.quantity : line.unit_price_at_sale;
+
+export const returnableQuantity = (line: SaleDetailLine) =>
+  Math.max(0, line.quantity - (line.returned_quantity || 0));
+
+/** Tenders of a sale, falling back to the single payment type for older sales. */
+export const saleTenders = (sale: SaleDetail): SaleTender[] => {
+  if (sale.tenders && sale.tenders.length > 0) return sale.tenders;
+  if (sale.payment_type === 'Split') return [];
+  return [{ method: sale.payment_type, amount: Number(sale.total_amount) }];
+};
+
+/**
+ * Splits a refund over the sale's original tenders. Any amount still owed on
+ * account is reduced first (refunding cash for goods that were never paid for
+ * would be wrong), then whatever came off a voucher or store credit goes back
+ * as store credit, loyalty points go back on the account as points, then
+ * cash and bank are paid back up to what they covered, less what earlier
+ * returns already paid back in that tender. The account reduction needs no
+ * such adjustment: remaining_credit_amount already reflects earlier returns.
+ * With `toStoreCredit` everything that is not an account reduction becomes
+ * store credit instead. Walk-in sales have no account to hold store credit,
+ * so they get a new gift voucher.
+ */
+export const allocateRefund = (amount: number, sale: SaleDetail, toStoreCredit: boolean): RefundTender[] => {
+  const tenders = saleTenders(sale);
+  const paidWith = (method: SaleTender['method']) =>
+    tenders.filter(t => t.method === method).reduce((sum, t) => sum + Number(t.amount || 0), 0);
+  const refunded = (method: RefundTender['method']) =>
+    (sale.refunds ?? []).filter(r => r.method === method).reduce((sum, r) => sum + Number(r.amount || 0), 0);
+
+  let left = round2(amount);
+  const refunds: RefundTender[] = [];
+  const take = (method: RefundTender['method'], cap: number) => {
+    const portion = round2(Math.min(left, Math.max(0, cap)));
+    if (portion > 0) {
+      refunds.push({ method, amount: portion });
+      left = round2(left - portion);
+    }
+  };
+
+  const storeCredit: RefundTender['method'] = sale.customer_id ? 'StoreCredit' : 'Voucher';
+  take('Credit', Math.min(paidWith('Credit'), Number(sale.remaining_credit_amount || 0)));
+  if (toStoreCredit) {
+    take(storeCredit, left);
+  } else {
+    take(
+      storeCredit,
+      paidWith('Voucher') + paidWith('StoreCredit') - refunded('Voucher') - refunded('StoreCredit')
+    );
+    take('Points', paidWith('Points') - refunded('Points'));
+    take('Cash', paidWith('Cash') - refunded('Cash'));
+    take('Bank', paidWith('Bank') - refunded('Bank'));
+    // Whatever remains was paid off on account after the sale, usually in cash.
+    take('Cash', left);
+  }
+  return refunds;
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { product } from '../test/fixtures';
+import { draftPurchase, groupBySupplier, reorderSuggestions } from './reorder';
+
+describe('reorderSuggestions', () => {
+  it('tops up to the max quantity once stock reaches the reorder point', () => {
+    const [suggestion] = reorderSuggestions([product({ id: 1, stock_quantity: 5, reorder_point: 10, max_quantity: 40 })], [], 30);
+    expect(suggestion).toMatchObject({ reorderLevel: 10, orderUpTo: 40, suggestedQuantity: 35, daysOfCover: null });
+  });
+
+  it('raises the level to what sells during the lead time', () => {
+    const [suggestion] = reorderSuggestions(
+      [product({ id: 2, stock_quantity: 12, reorder_point: 5, lead_time_days: 7 })],
+      [{ product_id: 2, units_sold: 60 }],
+      30
+    );
+    expect(suggestion).toMatchObject({
+      dailyUsage: 2,
+      reorderLevel: 14,
+      orderUpTo: 28,
+      suggestedQuantity: 16,
+      daysOfCover: 6,
+    });
+  });
+
+  it('does not count stock held on lay-bys as available', () => {
+    const [suggestion] = reorderSuggestions(
+      [product({ id: 3, stock_quantity: 20, reserved_quantity: 12, reorder_point: 10 })],
+      [],
+      30
+    );
+    expect(suggestion.available).toBe(8);
+  });
+
+  it('skips well stocked products, services and variant parents', () => {
+    const suggestions = reorderSuggestions(
+      [
+        product({ id: 4, stock_quantity: 11, reorder_point: 10 }),
+        product({ id: 5, is_service: true, reorder_point: 10 }),
+        product({ id: 6, reorder_point: 10, variant_attributes: [{ name: 'Size', values: ['S', 'M'] }] }),
+        product({ id: 7, stock_quantity: 0 }),
+      ],
+      [],
+      30
+    );
+    expect(suggestions).toEqual([]);
+  });
+
+  it('lists the products closest to running out first', () => {
+    const suggestions = reorderSuggestions(
+      [
+        product({ id: 8, stock_quantity: 2, reorder_point: 10 }),
+        product({ id: 9, stock_quantity: 9, reorder_point: 10 }),
+      ],
+      [{ product_id: 9, units_sold: 30 }],
+      30
+    );
+    expect(suggestions.map(s => s.productId)).toEqual([9, 8]);
+  });
+});
+
+describe('groupBySupplier', () => {
+  it('groups by preferred supplier with unassigned products last', () => {
+    const suggestions = reorderSuggestions(
+      [
+        product({ id: 1, reorder_point: 1 }),
+        product({ id: 2, reorder_point: 1, preferred_supplier_id: 's2', preferred_supplier_name: 'Zulu Supplies' }),
+        product({ id: 3, reorder_point: 1, preferred_supplier_id: 's1', preferred_supplier_name: 'Acme' }),
+        product({ id: 4, reorder_point: 1, preferred_supplier_id: 's1', preferred_supplier_name: 'Acme' }),
+      ],
+      [],
+      30
+    );
+    const groups = groupBySupplier(suggestions);
+    expect(groups.map(g => [g.supplierName, g.lines.length])).toEqual([
+      ['Acme', 2],
+      ['Zulu Supplies', 1],
+      ['No preferred supplier', 1],
+    ]);
+  });
+});
+
+describe('draftPurchase', () => {
+  const [suggestion] = reorderSuggestions(
+    [product({ id: 1, stock_quantity: 0, reorder_point: 4, max_quantity: 10, lead_time_days: 7, cost_price: 12.5 })],
+    [],
+    30
+  );
+
+  it('prices lines at cost incl. VAT', () => {
+    const draft = draftPurchase('s1', [{ suggestion, quantity: 10 }], new Date(2025, 2, 12, 9, 0));
+    expect(draft.line_items[0]).toMatchObject({ product_service_id: '1', quantity: 10, unit_cost: 12.5, line_total: 143.75 });
+    expect(draft.total_amount).toBe(143.75);
+    expect(draft.status).toBe('Draft');
+  });
+
+  it('dates the order by the local day, even just after midnight', () => {
+    const draft = draftPurchase('s1', [{ suggestion, quantity: 10 }], new Date(2025, 2, 12, 0, 30));
+    expect(draft.order_date).toBe('2025-03-12');
+    expect(draft.delivery_date).toBe('2025-03-19');
+  });
+});
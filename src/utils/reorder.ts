@@ -0,0 +1,130 @@
+import type { ProductDB, ProductVelocity, PurchaseLinePayload, PurchasePayload } from '../types/pos';
+import { generatePurchaseOrderNumber } from './purchases';
+import { isVariantParent } from './variants';
+import { isoDate } from './dates';
+import { round2 } from './money';
+
+export const VELOCITY_WINDOWS = [14, 30, 60, 90];
+
+export interface ReorderSuggestion {
+  productId: number;
+  name: string;
+  sku: string | null;
+  unit: string | null;
+  supplierId: string | null;
+  supplierName: string | null;
+  /** On hand less units held on lay-bys. */
+  available: number;
+  dailyUsage: number;
+  /** Null when nothing sold in the window. */
+  daysOfCover: number | null;
+  leadTimeDays: number;
+  reorderLevel: number;
+  orderUpTo: number;
+  suggestedQuantity: number;
+  unitCost: number;
+  taxRate: number;
+}
+
+/**
+ * Products whose available stock is at or below their reorder level. The level
+ * is the configured reorder point (or min quantity), raised to the units
+ * expected to sell during the supplier's lead time so stock does not run out
+ * before the order arrives. Orders top up to the max quantity, or to the level
+ * plus another lead time's sales when no max is set.
+ */
+export const reorderSuggestions = (
+  products: ProductDB[],
+  velocity: ProductVelocity[],
+  windowDays: number
+): ReorderSuggestion[] => {
+  const sold = new Map(velocity.map(v => [Number(v.product_id), Number(v.units_sold) || 0]));
+  const suggestions: ReorderSuggestion[] = [];
+  for (const p of products) {
+    // Variants are ordered individually; their parent holds no stock of its own
+    if (p.is_service || isVariantParent(p)) continue;
+    const dailyUsage = Math.max(sold.get(p.id) ?? 0, 0) / windowDays;
+    const leadTimeDays = Number(p.lead_time_days) || 0;
+    const leadTimeDemand = Math.ceil(dailyUsage * leadTimeDays);
+    const configured = Number(p.reorder_point ?? p.min_quantity) || 0;
+    const reorderLevel = Math.max(configured, leadTimeDemand);
+    const available = Number(p.stock_quantity || 0) - Number(p.reserved_quantity || 0);
+    if (reorderLevel <= 0 || available > reorderLevel) continue;
+
+    const max = Number(p.max_quantity) || 0;
+    const orderUpTo = max > reorderLevel ? max : reorderLevel + Math.max(leadTimeDemand, 1);
+    suggestions.push({
+      productId: p.id,
+      name: p.name,
+      sku: p.sku,
+      unit: p.unit,
+      supplierId: p.preferred_supplier_id ?? null,
+      supplierName: p.preferred_supplier_name ?? null,
+      available,
+      dailyUsage: round2(dailyUsage),
+      daysOfCover: dailyUsage > 0 ? Math.max(Math.floor(available / dailyUsage), 0) : null,
+      leadTimeDays,
+      reorderLevel,
+      orderUpTo,
+      suggestedQuantity: Math.ceil(orderUpTo - available),
+      unitCost: Number(p.cost_price) || 0,
+      taxRate: Number(p.tax_rate_value) || 0,
+    });
+  }
+  // Closest to running out first.
+  return suggestions.sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) || a.available - b.available);
+};
+
+export interface SupplierGroup {
+  supplierId: string | null;
+  supplierName: string;
+  lines: ReorderSuggestion[];
+}
+
+/** Suggestions grouped per preferred supplier; products without one come last. */
+export const groupBySupplier = (suggestions: ReorderSuggestion[]): SupplierGroup[] => {
+  const groups = new Map<string, SupplierGroup>();
+  for (const s of suggestions) {
+    const key = s.supplierId ?? '';
+    if (!groups.has(key)) {
+      groups.set(key, { supplierId: s.supplierId, supplierName: s.supplierName ?? 'No preferred supplier', lines: [] });
+    }
+    groups.get(key)!.lines.push(s);
+  }
+  return [...groups.values()].sort(
+    (a, b) => Number(!a.supplierId) - Number(!b.supplierId) || a.supplierName.localeCompare(b.supplierName)
+  );
+};
+
+/**
+ * Draft purchase order for one supplier, expected after the longest lead time
+ * on the order. Lines are priced at the last cost price.
+ */
+export const draftPurchase = (
+  supplierId: string,
+  lines: { suggestion: ReorderSuggestion; quantity: number }[],
+  today = new Date()
+): PurchasePayload => {
+  const lineItems: PurchaseLinePayload[] = lines.map(({ suggestion, quantity }) => ({
+    product_service_id: String(suggestion.productId),
+    description: suggestion.name,
+    quantity,
+    unit_cost: suggestion.unitCost,
+    tax_rate: suggestion.taxRate,
+    line_total: round2(quantity * suggestion.unitCost * (1 + suggestion.taxRate)),
+  }));
+  const leadTime = Math.max(...lines.map(l => l.suggestion.leadTimeDays), 0);
+  const delivery = new Date(today);
+  delivery.setDate(delivery.getDate() + leadTime);
+  return {
+    po_number: generatePurchaseOrderNumber(),
+    vendor_id: supplierId,
+    order_date: isoDate(today),
+    delivery_date: leadTime > 0 ? isoDate(delivery) : null,
+    total_amount: round2(lineItems.reduce((sum, l) => sum + l.line_total, 0)),
+    status: 'Draft',
+    currency: 'ZAR',
+    notes: `Suggested from reorder points on ${isoDate(today)}.`,
+    line_items: lineItems,
+  };
+};
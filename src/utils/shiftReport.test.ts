@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { Shift, ShiftReport, ShiftTotals } from '../types/pos';
+import { shiftReportSections } from './shiftReport';
+
+const shift = (overrides: Partial<Shift> = {}): Shift => ({
+  id: 7,
+  tellerId: 't1',
+  tellerName: 'Thandi',
+  branch: 'Main',
+  status: 'closed',
+  openedAt: '2025-03-12T06:00:00Z',
+  closedAt: '2025-03-12T15:00:00Z',
+  openingFloat: 500,
+  expectedCash: 1450.2,
+  countedCash: 1440.2,
+  variance: -10,
+  denominations: null,
+  notes: null,
+  ...overrides,
+});
+
+const totals: ShiftTotals = {
+  salesCount: 12,
+  grossSales: 4675.5,
+  cash: 2350.4,
+  bank: 1849.6,
+  credit: 0,
+  voucher: 300,
+  storeCredit: 150,
+  points: 25.5,
+  refunds: 150,
+  cashRefunds: 100.2,
+  storeCreditRefunds: 49.8,
+  discounts: 0,
+  voids: 0,
+  safeDrops: 1500,
+  pickups: 200,
+};
+
+const report = (kind: ShiftReport['kind'], overrides: Partial<Shift> = {}): ShiftReport => ({
+  kind,
+  shift: shift(overrides),
+  totals,
+  expectedCash: 1450.2,
+  generatedAt: '2025-03-12T15:00:00Z',
+});
+
+const rows = (r: ShiftReport, title: string) =>
+  shiftReportSections(r)
+    .find(s => s.title === title)
+    ?.rows.map(row => [row.label, row.value]);
+
+const amount = (value: string) => Number(value.replace('R', ''));
+
+describe('shiftReportSections', () => {
+  it('lists every tender so they add up to gross sales', () => {
+    const tenders = rows(report('X'), 'Tenders') ?? [];
+    expect(tenders.map(([label]) => label)).toEqual(['Cash', 'Bank / card', 'On account', 'Gift vouchers', 'Store credit', 'Loyalty points']);
+    expect(tenders.reduce((sum, [, value]) => sum + amount(value), 0)).toBeCloseTo(totals.grossSales, 2);
+  });
+
+  it('shows refunds made onto vouchers and store credit', () => {
+    expect(rows(report('X'), 'Sales')).toContainEqual(['Refunded as vouchers / store credit', 'R49.80']);
+  });
+
+  it('shows every drawer movement so the expected cash can be followed', () => {
+    expect(rows(report('X', { status: 'open', closedAt: null }), 'Cash drawer')).toEqual([
+      ['Opening float', 'R500.00'],
+      ['Cash sales', 'R2350.40'],
+      ['Cash refunds', '-R100.20'],
+      ['Safe drops', '-R1500.00'],
+      ['Pickups', 'R200.00'],
+      ['Expected in drawer', 'R1450.20'],
+    ]);
+  });
+
+  it('reconciles the count against the expected cash on the Z-report', () => {
+    expect(rows(report('Z'), 'Cash drawer')?.slice(-2)).toEqual([
+      ['Counted', 'R1440.20'],
+      ['Short', 'R-10.00'],
+    ]);
+  });
+});
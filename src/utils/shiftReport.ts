@@ -0,0 +1,123 @@
+import jsPDF from 'jspdf';
+import type { ShiftReport } from '../types/pos';
+import { shiftExpectedCash } from './cashDrawer';
+import { denominationLabel, denominationLines } from './denominations';
+import { money, round2 } from './money';
+
+export interface ShiftReportRow {
+  label: string;
+  value: string;
+  strong?: boolean;
+}
+
+export interface ShiftReportSection {
+  title: string;
+  rows: ShiftReportRow[];
+}
+
+export const shiftReportTitle = (report: ShiftReport) =>
+  `${report.kind}-Report · Shift #${report.shift.id}`;
+
+/** Report content as labelled rows; the modal, the print view and the PDF all render from this. */
+export const shiftReportSections = (report: ShiftReport): ShiftReportSection[] => {
+  const { shift, totals } = report;
+  const sections: ShiftReportSection[] = [
+    {
+      title: 'Shift',
+      rows: [
+        { label: 'Teller', value: shift.tellerName },
+        { label: 'Branch', value: shift.branch || '-' },
+        { label: 'Opened', value: new Date(shift.openedAt).toLocaleString() },
+        report.kind === 'Z' && shift.closedAt
+          ? { label: 'Closed', value: new Date(shift.closedAt).toLocaleString() }
+          : { label: 'Printed', value: new Date(report.generatedAt).toLocaleString() },
+      ],
+    },
+    {
+      title: 'Sales',
+      rows: [
+        { label: 'Sales', value: String(totals.salesCount) },
+        { label: 'Gross sales', value: money(totals.grossSales), strong: true },
+        { label: 'Discounts (excl. VAT)', value: money(totals.discounts) },
+        { label: 'Voids', value: money(totals.voids) },
+        { label: 'Refunds', value: money(totals.refunds) },
+        { label: 'Refunded as vouchers / store credit', value: money(totals.storeCreditRefunds) },
+      ],
+    },
+    {
+      title: 'Tenders',
+      rows: [
+        { label: 'Cash', value: money(totals.cash) },
+        { label: 'Bank / card', value: money(totals.bank) },
+        { label: 'On account', value: money(totals.credit) },
+        { label: 'Gift vouchers', value: money(totals.voucher) },
+        { label: 'Store credit', value: money(totals.storeCredit) },
+        { label: 'Loyalty points', value: money(totals.points) },
+      ],
+    },
+  ];
+
+  const expectedCash = shiftExpectedCash(shift, totals);
+  const drawer: ShiftReportRow[] = [
+    { label: 'Opening float', value: money(shift.openingFloat) },
+    { label: 'Cash sales', value: money(totals.cash) },
+    { label: 'Cash refunds', value: `-${money(totals.cashRefunds)}` },
+    { label: 'Safe drops', value: `-${money(totals.safeDrops)}` },
+    { label: 'Pickups', value: money(totals.pickups) },
+    { label: 'Expected in drawer', value: money(expectedCash), strong: true },
+  ];
+  if (report.kind === 'Z' && shift.countedCash !== null) {
+    const variance = round2(shift.countedCash - expectedCash);
+    drawer.push(
+      { label: 'Counted', value: money(shift.countedCash), strong: true },
+      { label: variance < 0 ? 'Short' : 'Over', value: money(variance), strong: true }
+    );
+  }
+  sections.push({ title: 'Cash drawer', rows: drawer });
+
+  if (report.kind === 'Z' && shift.denominations) {
+    sections.push({
+      title: 'Cash count',
+      rows: denominationLines(shift.denominations).map(line => ({
+        label: `${denominationLabel(line.value)} x ${line.count}`,
+        value: money(line.amount),
+      })),
+    });
+  }
+  if (report.kind === 'Z' && shift.notes) {
+    sections.push({ title: 'Notes', rows: [{ label: shift.notes, value: '' }] });
+  }
+  return sections;
+};
+
+/** 80mm PDF of the report, matching what a till printer produces. */
+export const shiftReportToPdf = (report: ShiftReport) => {
+  const width = 80;
+  const margin = 4;
+  const lineHeight = 4;
+  const sections = shiftReportSections(report);
+  const rows = 4 + sections.reduce((sum, s) => sum + s.rows.length + 2, 0);
+  const doc = new jsPDF({ unit: 'mm', format: [width, rows * lineHeight + margin * 2] });
+
+  let y = margin + 3;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text(shiftReportTitle(report), width / 2, y, { align: 'center' });
+  y += lineHeight * 2;
+
+  sections.forEach(section => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.text(section.title.toUpperCase(), margin, y);
+    y += lineHeight;
+    section.rows.forEach(row => {
+      doc.setFont('helvetica', row.strong ? 'bold' : 'normal');
+      doc.setFontSize(8);
+      doc.text(row.label, margin, y, { maxWidth: width - margin * 2 - 22 });
+      doc.text(row.value, width - margin, y, { align: 'right' });
+      y += lineHeight;
+    });
+    y += lineHeight / 2;
+  });
+  return doc;
+};
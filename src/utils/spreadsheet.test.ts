@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './spreadsheet';
+import type { SheetRow } from './spreadsheet';
+
+const cells = (rows: SheetRow[]) => rows.map(r => r.cells);
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, quotes and line breaks', () => {
+    expect(cells(parseCsv('SKU,Name\r\nA1,"Mug, ""large""\nblue"\r\n'))).toEqual([
+      ['SKU', 'Name'],
+      ['A1', 'Mug, "large"\nblue'],
+    ]);
+  });
+
+  it('reads semicolon exports and skips the byte-order mark and blank rows', () => {
+    expect(parseCsv('\uFEFFSKU;Price\n\nA1;12,50\n;\n')).toEqual([
+      { rowNumber: 1, cells: ['SKU', 'Price'] },
+      { rowNumber: 3, cells: ['A1', '12,50'] },
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  it('writes a file parseCsv reads back', async () => {
+    const rows = [
+      ['SKU', 'Name', 'Price'],
+      ['A1', 'Mug, "large"', 12.5],
+      ['A2', null, undefined],
+    ];
+    const text = await toCsv(rows).text();
+    expect(cells(parseCsv(text))).toEqual([
+      ['SKU', 'Name', 'Price'],
+      ['A1', 'Mug, "large"', '12.5'],
+      ['A2', '', ''],
+    ]);
+  });
+});
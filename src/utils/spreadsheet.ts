@@ -0,0 +1,172 @@
+// Minimal CSV and XLSX readers for bulk imports. An .xlsx file is a zip of XML
+// parts; the browser's DecompressionStream inflates them, so no spreadsheet
+// library is needed just to read the first sheet's values.
+
+export interface SheetRow {
+  /** Row number as the spreadsheet shows it, counting blank rows, which are left out. */
+  rowNumber: number;
+  cells: string[];
+}
+
+const withoutBlankRows = (rows: SheetRow[]) => rows.filter(r => r.cells.some(cell => cell.trim() !== ''));
+
+/** RFC 4180 CSV. The delimiter is guessed from the first line so Excel's semicolon exports also work. */
+export const parseCsv = (text: string): SheetRow[] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const rows: SheetRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ rowNumber: rows.length + 1, cells: row });
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push({ rowNumber: rows.length + 1, cells: row });
+  }
+  return withoutBlankRows(rows);
+};
+
+const csvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** CSV with a byte-order mark so Excel opens it as UTF-8. */
+export const toCsv = (rows: (string | number | null | undefined)[][]) =>
+  new Blob(['\uFEFF' + rows.map(r => r.map(csvCell).join(',')).join('\r\n')], { type: 'text/csv;charset=utf-8' });
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+const zipEntries = (view: DataView): ZipEntry[] => {
+  // End of central directory: last 22+ bytes, found by its signature
+  let eocd = view.byteLength - 22;
+  while (eocd >= 0 && view.getUint32(eocd, true) !== 0x06054b50) eocd--;
+  if (eocd < 0) throw new Error('Not a valid .xlsx file.');
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const nameLength = view.getUint16(offset + 28, true);
+    entries.push({
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true),
+      name: decoder.decode(new Uint8Array(view.buffer, offset + 46, nameLength)),
+    });
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+  return entries;
+};
+
+const readEntry = async (view: DataView, entry: ZipEntry) => {
+  const start = entry.localOffset + 30 + view.getUint16(entry.localOffset + 26, true) + view.getUint16(entry.localOffset + 28, true);
+  const data = new Uint8Array(view.buffer, start, entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/\d+$/, '');
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+/** Cell values of the workbook's first sheet as text, row by row. */
+export const readXlsx = async (file: Blob): Promise<SheetRow[]> => {
+  const view = new DataView(await file.arrayBuffer());
+  const entries = zipEntries(view);
+  const parser = new DOMParser();
+  const xml = async (name: string) => {
+    const entry = entries.find(e => e.name === name);
+    return entry ? parser.parseFromString(await readEntry(view, entry), 'application/xml') : null;
+  };
+
+  const shared = await xml('xl/sharedStrings.xml');
+  const strings = shared
+    ? Array.from(shared.getElementsByTagName('si')).map(si =>
+        Array.from(si.getElementsByTagName('t'))
+          .map(t => t.textContent ?? '')
+          .join('')
+      )
+    : [];
+
+  // The first tab is the first <sheet> in workbook.xml; its part is found
+  // through the relationship id, as files are not always named in tab order.
+  const workbook = await xml('xl/workbook.xml');
+  const rels = await xml('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  const relId = firstSheet && Array.from(firstSheet.attributes).find(a => a.localName === 'id')?.value;
+  const target = Array.from(rels?.getElementsByTagName('Relationship') ?? [])
+    .find(r => r.getAttribute('Id') === relId)
+    ?.getAttribute('Target');
+  const sheet = target ? await xml(target.startsWith('/') ? target.slice(1) : `xl/${target}`) : null;
+  if (!sheet) throw new Error('The workbook has no worksheets.');
+
+  const rows: SheetRow[] = [];
+  for (const rowEl of Array.from(sheet.getElementsByTagName('row'))) {
+    const row: string[] = [];
+    for (const cell of Array.from(rowEl.getElementsByTagName('c'))) {
+      const type = cell.getAttribute('t');
+      const raw = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+      const value =
+        type === 's'
+          ? (strings[Number(raw)] ?? '')
+          : type === 'inlineStr'
+            ? Array.from(cell.getElementsByTagName('t'))
+                .map(t => t.textContent ?? '')
+                .join('')
+            : type === 'b'
+              ? raw === '1'
+                ? 'TRUE'
+                : 'FALSE'
+              : raw;
+      const ref = cell.getAttribute('r');
+      row[ref ? columnIndex(ref) : row.length] = value;
+    }
+    // Excel leaves empty rows out of the sheet, so number rows by their r attribute
+    const rowNumber = Number(rowEl.getAttribute('r')) || (rows[rows.length - 1]?.rowNumber ?? 0) + 1;
+    rows.push({ rowNumber, cells: Array.from(row, cell => cell ?? '') });
+  }
+  return withoutBlankRows(rows);
+};
+
+/** Reads a .csv or .xlsx file into numbered rows of text cells. */
+export const readSpreadsheet = async (file: File): Promise<SheetRow[]> => {
+  if (/\.xlsx$/i.test(file.name)) return readXlsx(file);
+  if (/\.xls$/i.test(file.name)) throw new Error('Old .xls workbooks are not supported; save the file as .xlsx or .csv.');
+  return parseCsv(await file.text());
+};
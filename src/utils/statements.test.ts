@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { CustomerStatement } from '../types/pos';
+import { creditSale } from '../test/fixtures';
+import { ageDebtors, agingBucket, agingTotals, statementLines, statementTotals } from './statements';
+
+const asOf = new Date('2025-06-30T12:00:00Z');
+
+// Sale date `days` whole days before asOf
+const daysAgo = (days: number) => new Date(asOf.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+describe('agingBucket', () => {
+  it('moves a debt up a bucket on day 30, 60, 90 and 120', () => {
+    expect([0, 29, 30, 59, 60, 89, 90, 119, 120, 400].map(days => agingBucket(daysAgo(days), asOf))).toEqual([
+      'current',
+      'current',
+      'd30',
+      'd30',
+      'd60',
+      'd60',
+      'd90',
+      'd90',
+      'd120',
+      'd120',
+    ]);
+  });
+
+  it('keeps a debt in its bucket until the full day has passed', () => {
+    const justUnder30 = new Date(asOf.getTime() - 30 * 24 * 60 * 60 * 1000 + 1).toISOString();
+    expect(agingBucket(justUnder30, asOf)).toBe('current');
+  });
+});
+
+describe('ageDebtors', () => {
+  it('buckets what each customer still owes, largest balance first', () => {
+    const sales = [
+      creditSale(1, 100, daysAgo(10)),
+      creditSale(2, 50.25, daysAgo(45)),
+      creditSale(3, 0, daysAgo(200)),
+      { ...creditSale(4, 500, daysAgo(95)), customer_id: 2, customer_name: 'Zulu Traders' },
+    ];
+    const debtors = ageDebtors(sales, asOf);
+    expect(debtors.map(d => [d.customerName, d.total])).toEqual([
+      ['Zulu Traders', 500],
+      ['Acme', 150.25],
+    ]);
+    expect(debtors[1].buckets).toEqual({ current: 100, d30: 50.25, d60: 0, d90: 0, d120: 0 });
+    expect(agingTotals(debtors)).toEqual({ buckets: { current: 100, d30: 50.25, d60: 0, d90: 500, d120: 0 }, total: 650.25 });
+  });
+});
+
+describe('statement balances', () => {
+  const statement: CustomerStatement = {
+    customerId: 1,
+    customerName: 'Acme',
+    email: null,
+    phone: null,
+    address: null,
+    from: '2025-03-01',
+    to: '2025-03-31',
+    openingBalance: 200,
+    entries: [
+      { date: '2025-03-20', type: 'payment', reference: 'PAY-1', description: 'EFT', debit: 0, credit: 250 },
+      { date: '2025-03-05', type: 'sale', reference: '#12', description: 'Sale', debit: 120.5, credit: 0 },
+    ],
+  };
+
+  it('runs the balance in date order', () => {
+    expect(statementLines(statement).map(l => [l.reference, l.balance])).toEqual([
+      ['#12', 320.5],
+      ['PAY-1', 70.5],
+    ]);
+  });
+
+  it('closes on the opening balance plus debits less credits', () => {
+    expect(statementTotals(statement)).toEqual({ debits: 120.5, credits: 250, closingBalance: 70.5 });
+  });
+});
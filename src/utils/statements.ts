@@ -0,0 +1,187 @@
+import jsPDF from 'jspdf';
+import type { AgingBucket, AgingBuckets, CustomerStatement, SaleBackend, StatementEntry } from '../types/pos';
+import type { ReceiptCompany } from '../types/receipt';
+import { money, round2 } from './money';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'd30', label: '30 days' },
+  { key: 'd60', label: '60 days' },
+  { key: 'd90', label: '90 days' },
+  { key: 'd120', label: '120+ days' },
+];
+
+export const emptyAging = (): AgingBuckets => ({ current: 0, d30: 0, d60: 0, d90: 0, d120: 0 });
+
+/** Bucket for a debt raised on `saleDate`, aged at `asOf`. */
+export const agingBucket = (saleDate: string, asOf: Date): AgingBucket => {
+  const days = Math.floor((asOf.getTime() - new Date(saleDate).getTime()) / DAY_MS);
+  if (days >= 120) return 'd120';
+  if (days >= 90) return 'd90';
+  if (days >= 60) return 'd60';
+  if (days >= 30) return 'd30';
+  return 'current';
+};
+
+export interface AgedDebtor {
+  customerId: number;
+  customerName: string;
+  buckets: AgingBuckets;
+  total: number;
+}
+
+/** Aged debtors from the outstanding credit sales, largest balance first. */
+export const ageDebtors = (sales: SaleBackend[], asOf = new Date()): AgedDebtor[] => {
+  const byCustomer = new Map<number, AgedDebtor>();
+  for (const sale of sales) {
+    const owing = Number(sale.remaining_credit_amount) || 0;
+    if (owing <= 0) continue;
+    const debtor = byCustomer.get(sale.customer_id) ?? {
+      customerId: sale.customer_id,
+      customerName: sale.customer_name,
+      buckets: emptyAging(),
+      total: 0,
+    };
+    const bucket = agingBucket(sale.sale_date, asOf);
+    debtor.buckets[bucket] = round2(debtor.buckets[bucket] + owing);
+    debtor.total = round2(debtor.total + owing);
+    byCustomer.set(sale.customer_id, debtor);
+  }
+  return [...byCustomer.values()].sort((a, b) => b.total - a.total);
+};
+
+export const agingTotals = (debtors: AgedDebtor[]) =>
+  debtors.reduce(
+    (acc, d) => {
+      AGING_BUCKETS.forEach(({ key }) => (acc.buckets[key] = round2(acc.buckets[key] + d.buckets[key])));
+      acc.total = round2(acc.total + d.total);
+      return acc;
+    },
+    { buckets: emptyAging(), total: 0 }
+  );
+
+/** Entries in date order with the running balance after each one. */
+export const statementLines = (statement: CustomerStatement) => {
+  let balance = statement.openingBalance;
+  return [...statement.entries]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((entry: StatementEntry) => {
+      balance = round2(balance + (Number(entry.debit) || 0) - (Number(entry.credit) || 0));
+      return { ...entry, balance };
+    });
+};
+
+export const statementTotals = (statement: CustomerStatement) => {
+  const debits = round2(statement.entries.reduce((sum, e) => sum + (Number(e.debit) || 0), 0));
+  const credits = round2(statement.entries.reduce((sum, e) => sum + (Number(e.credit) || 0), 0));
+  return { debits, credits, closingBalance: round2(statement.openingBalance + debits - credits) };
+};
+
+const ENTRY_LABELS: Record<StatementEntry['type'], string> = {
+  sale: 'Sale',
+  payment: 'Payment',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+};
+
+const drawStatement = (doc: jsPDF, statement: CustomerStatement, company: ReceiptCompany) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 14;
+  const lineHeight = 6;
+  const cols = { date: margin, ref: margin + 24, desc: margin + 52, debit: 136, credit: 162, balance: pageWidth - margin };
+
+  let y = margin + 4;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(company.name, margin, y);
+  doc.text('STATEMENT OF ACCOUNT', pageWidth - margin, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  [company.address, company.phone && `Tel: ${company.phone}`, company.email, company.vatNumber && `VAT No: ${company.vatNumber}`]
+    .filter((line): line is string => !!line)
+    .forEach(line => {
+      y += 4.5;
+      doc.text(line, margin, y);
+    });
+
+  y += lineHeight * 1.5;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text(statement.customerName, margin, y);
+  doc.text(`${statement.from.slice(0, 10)} to ${statement.to.slice(0, 10)}`, pageWidth - margin, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  [statement.address, statement.phone, statement.email]
+    .filter((line): line is string => !!line)
+    .forEach(line => {
+      y += 4.5;
+      doc.text(line, margin, y);
+    });
+
+  const header = () => {
+    y += lineHeight * 1.5;
+    doc.setFont('helvetica', 'bold');
+    doc.text('Date', cols.date, y);
+    doc.text('Reference', cols.ref, y);
+    doc.text('Description', cols.desc, y);
+    doc.text('Debit', cols.debit, y, { align: 'right' });
+    doc.text('Credit', cols.credit, y, { align: 'right' });
+    doc.text('Balance', cols.balance, y, { align: 'right' });
+    doc.line(margin, y + 1.5, pageWidth - margin, y + 1.5);
+    doc.setFont('helvetica', 'normal');
+  };
+  header();
+
+  const row = (date: string, ref: string, desc: string, debit: string, credit: string, balance: string) => {
+    if (y + lineHeight > pageHeight - margin * 2) {
+      doc.addPage();
+      y = margin;
+      header();
+    }
+    y += lineHeight;
+    doc.text(date, cols.date, y);
+    doc.text(ref, cols.ref, y, { maxWidth: 26 });
+    doc.text(desc, cols.desc, y, { maxWidth: 58 });
+    doc.text(debit, cols.debit, y, { align: 'right' });
+    doc.text(credit, cols.credit, y, { align: 'right' });
+    doc.text(balance, cols.balance, y, { align: 'right' });
+  };
+
+  row(statement.from.slice(0, 10), '', 'Opening balance', '', '', money(statement.openingBalance));
+  statementLines(statement).forEach(line =>
+    row(
+      line.date.slice(0, 10),
+      line.reference,
+      line.description || ENTRY_LABELS[line.type],
+      line.debit ? money(Number(line.debit)) : '',
+      line.credit ? money(Number(line.credit)) : '',
+      money(line.balance)
+    )
+  );
+
+  const totals = statementTotals(statement);
+  y += 2;
+  doc.line(margin, y + 1.5, pageWidth - margin, y + 1.5);
+  doc.setFont('helvetica', 'bold');
+  row(statement.to.slice(0, 10), '', 'Closing balance', money(totals.debits), money(totals.credits), money(totals.closingBalance));
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.text('Please quote your name as reference when paying. Thank you for your business.', margin, pageHeight - margin);
+};
+
+/**
+ * A4 statement PDF. Several statements (the month-end run) go into one file,
+ * each starting on a new page.
+ */
+export const statementsToPdf = (statements: CustomerStatement[], company: ReceiptCompany) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  statements.forEach((statement, i) => {
+    if (i > 0) doc.addPage();
+    drawStatement(doc, statement, company);
+  });
+  return doc;
+};
@@ -0,0 +1,58 @@
+import type { StockAdjustmentReason, StockLedgerSettings, StockMovementType } from '../types/pos';
+import { round2 } from './money';
+
+export const DEFAULT_STOCK_LEDGER_SETTINGS: StockLedgerSettings = {
+  inventoryAccountId: null,
+  adjustmentAccountId: null,
+};
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  opening: 'Opening stock',
+  sale: 'Sale',
+  return: 'Return',
+  restock: 'Restock',
+  purchase_receipt: 'Purchase receipt',
+  adjustment: 'Adjustment',
+  write_off: 'Write-off',
+  transfer: 'Transfer',
+};
+
+export const STOCK_MOVEMENT_COLORS: Record<StockMovementType, string> = {
+  opening: 'default',
+  sale: 'blue',
+  return: 'cyan',
+  restock: 'green',
+  purchase_receipt: 'green',
+  adjustment: 'gold',
+  write_off: 'red',
+  transfer: 'purple',
+};
+
+/**
+ * Reason codes for manual adjustments. `direction` limits which way a reason
+ * can move stock; losses are booked as write-offs rather than adjustments.
+ */
+export const STOCK_ADJUSTMENT_REASONS: {
+  code: StockAdjustmentReason;
+  label: string;
+  direction: 'in' | 'out' | 'both';
+  type: Extract<StockMovementType, 'adjustment' | 'write_off'>;
+}[] = [
+  { code: 'count_correction', label: 'Stock count correction', direction: 'both', type: 'adjustment' },
+  { code: 'found', label: 'Found stock', direction: 'in', type: 'adjustment' },
+  { code: 'damaged', label: 'Damaged', direction: 'out', type: 'write_off' },
+  { code: 'expired', label: 'Expired', direction: 'out', type: 'write_off' },
+  { code: 'theft', label: 'Theft / shrinkage', direction: 'out', type: 'write_off' },
+  { code: 'supplier_return', label: 'Returned to supplier', direction: 'out', type: 'adjustment' },
+  { code: 'internal_use', label: 'Internal use', direction: 'out', type: 'adjustment' },
+];
+
+export const adjustmentReasonLabel = (code: StockAdjustmentReason | null) =>
+  STOCK_ADJUSTMENT_REASONS.find(r => r.code === code)?.label ?? code ?? '';
+
+/** Reasons that fit an adjustment adding (`in`) or removing (`out`) stock. */
+export const reasonsFor = (direction: 'in' | 'out') =>
+  STOCK_ADJUSTMENT_REASONS.filter(r => r.direction === direction || r.direction === 'both');
+
+/** Value of an adjustment at cost; negative for stock written down. */
+export const adjustmentValue = (quantity: number, unitCost: number) => round2(quantity * unitCost);
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { StockTakeLine } from '../types/pos';
+import { countedQuantity, lineVariance, sortForCounting, stockTakeSummary, varianceValue } from './stockTake';
+
+const line = (id: number, expected: number | null, counts: number[], overrides: Partial<StockTakeLine> = {}): StockTakeLine => ({
+  id,
+  product_id: id,
+  product_name: `Product ${id}`,
+  sku: null,
+  category: null,
+  location: null,
+  unit: null,
+  expected_quantity: expected,
+  unit_cost: 12.5,
+  counts: counts.map((quantity, i) => ({ counter: `Counter ${i + 1}`, quantity, counted_at: '2025-03-12T08:00:00Z' })),
+  decision: 'pending',
+  review_note: null,
+  ...overrides,
+});
+
+describe('line variance', () => {
+  it('adds up the counts from every counter', () => {
+    const l = line(1, 10, [4, 3.5]);
+    expect(countedQuantity(l)).toBe(7.5);
+    expect(lineVariance(l)).toBe(-2.5);
+    expect(varianceValue(l)).toBe(-31.25);
+  });
+
+  it('has no variance until the line is counted', () => {
+    expect(countedQuantity(line(1, 10, []))).toBeNull();
+    expect(lineVariance(line(1, 10, []))).toBeNull();
+    expect(varianceValue(line(1, 10, []))).toBe(0);
+  });
+
+  it('has no variance while a blind session hides the expected quantity', () => {
+    expect(lineVariance(line(1, null, [6]))).toBeNull();
+  });
+});
+
+describe('stockTakeSummary', () => {
+  it('values gains, losses and what posting will adjust', () => {
+    const summary = stockTakeSummary([
+      line(1, 10, [12], { decision: 'approved' }),
+      line(2, 10, [7], { decision: 'approved' }),
+      line(3, 5, [4], { decision: 'rejected' }),
+      line(4, 8, [8]),
+      line(5, 3, [1]),
+      line(6, 3, []),
+    ]);
+    expect(summary).toEqual({
+      lines: 6,
+      counted: 5,
+      withVariance: 4,
+      pending: 1,
+      gainValue: 25,
+      lossValue: -75,
+      approvedValue: -12.5,
+    });
+  });
+
+  it('counts progress on a blind session without showing variances', () => {
+    expect(stockTakeSummary([line(1, null, [5]), line(2, null, [])])).toMatchObject({ counted: 1, withVariance: 0 });
+  });
+});
+
+describe('sortForCounting', () => {
+  it('walks the floor by location, then product name', () => {
+    const lines = [
+      line(1, 0, [], { location: 'B2', product_name: 'Apples' }),
+      line(2, 0, [], { location: 'A1', product_name: 'Pears' }),
+      line(3, 0, [], { location: 'A1', product_name: 'Figs' }),
+    ];
+    expect(sortForCounting(lines).map(l => l.id)).toEqual([3, 2, 1]);
+  });
+});
@@ -0,0 +1,196 @@
+import jsPDF from 'jspdf';
+import type { StockTake, StockTakeLine } from '../types/pos';
+import type { ReceiptCompany } from '../types/receipt';
+import { money, round2 } from './money';
+
+/**
+ * Counters split the floor between them, so a product kept in two places can
+ * have a count from each; the counted quantity is their sum. Null until
+ * somebody has counted the line.
+ */
+export const countedQuantity = (line: StockTakeLine) =>
+  line.counts.length === 0 ? null : line.counts.reduce((sum, c) => sum + Number(c.quantity || 0), 0);
+
+/** Counted minus expected; null while uncounted or while a blind session hides the expected quantity. */
+export const lineVariance = (line: StockTakeLine) => {
+  const counted = countedQuantity(line);
+  return counted === null || line.expected_quantity === null ? null : counted - Number(line.expected_quantity);
+};
+
+export const varianceValue = (line: StockTakeLine) => round2((lineVariance(line) ?? 0) * Number(line.unit_cost || 0));
+
+export interface StockTakeSummary {
+  lines: number;
+  counted: number;
+  withVariance: number;
+  pending: number;
+  gainValue: number;
+  lossValue: number;
+  /** Net value of the approved variances: what posting will adjust stock by. */
+  approvedValue: number;
+}
+
+export const stockTakeSummary = (lines: StockTakeLine[]): StockTakeSummary => {
+  const summary: StockTakeSummary = {
+    lines: lines.length,
+    counted: 0,
+    withVariance: 0,
+    pending: 0,
+    gainValue: 0,
+    lossValue: 0,
+    approvedValue: 0,
+  };
+  for (const line of lines) {
+    if (countedQuantity(line) === null) continue;
+    summary.counted += 1;
+    const variance = lineVariance(line);
+    if (!variance) continue;
+    const value = varianceValue(line);
+    summary.withVariance += 1;
+    if (line.decision === 'pending') summary.pending += 1;
+    if (value > 0) summary.gainValue = round2(summary.gainValue + value);
+    else summary.lossValue = round2(summary.lossValue + value);
+    if (line.decision === 'approved') summary.approvedValue = round2(summary.approvedValue + value);
+  }
+  return summary;
+};
+
+/** Lines in walking order: by location, then product name. */
+export const sortForCounting = (lines: StockTakeLine[]) =>
+  [...lines].sort(
+    (a, b) => (a.location ?? '').localeCompare(b.location ?? '') || a.product_name.localeCompare(b.product_name)
+  );
+
+const scopeLabel = (take: StockTake) =>
+  take.scope === 'category'
+    ? `Categories: ${take.categories.join(', ')}`
+    : take.scope === 'location'
+      ? `Locations: ${take.locations.join(', ')}`
+      : 'Full count';
+
+const pageHeader = (doc: jsPDF, take: StockTake, company: ReceiptCompany, title: string) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 14;
+  let y = margin + 4;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(company.name, margin, y);
+  doc.text(title, pageWidth - margin, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  y += 6;
+  doc.text(`${take.name} (#${take.id})`, margin, y);
+  doc.text(`Opened ${take.created_at.slice(0, 10)}${take.branch ? ` · ${take.branch}` : ''}`, pageWidth - margin, y, {
+    align: 'right',
+  });
+  y += 4.5;
+  doc.text(scopeLabel(take), margin, y);
+  return y;
+};
+
+/**
+ * A4 count sheet with an empty box per product for the counter to fill in.
+ * Blind sessions leave the expected quantity off the sheet.
+ */
+export const countSheetToPdf = (take: StockTake, lines: StockTakeLine[], company: ReceiptCompany) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 14;
+  const lineHeight = 8;
+  const cols = { location: margin, product: margin + 30, sku: 112, unit: 140, expected: 162, count: pageWidth - margin - 24 };
+
+  let y = pageHeader(doc, take, company, 'STOCK COUNT SHEET');
+  const header = () => {
+    y += lineHeight;
+    doc.setFont('helvetica', 'bold');
+    doc.text('Location', cols.location, y);
+    doc.text('Product', cols.product, y);
+    doc.text('SKU', cols.sku, y);
+    doc.text('Unit', cols.unit, y);
+    if (!take.blind) doc.text('Expected', cols.expected, y);
+    doc.text('Count', cols.count, y);
+    doc.line(margin, y + 1.5, pageWidth - margin, y + 1.5);
+    doc.setFont('helvetica', 'normal');
+  };
+  header();
+
+  sortForCounting(lines).forEach(line => {
+    if (y + lineHeight > pageHeight - margin * 2) {
+      doc.addPage();
+      y = margin;
+      header();
+    }
+    y += lineHeight;
+    doc.text(line.location ?? '', cols.location, y, { maxWidth: 28 });
+    doc.text(line.product_name, cols.product, y, { maxWidth: 64 });
+    doc.text(line.sku ?? '', cols.sku, y, { maxWidth: 26 });
+    doc.text(line.unit ?? '', cols.unit, y, { maxWidth: 20 });
+    if (!take.blind) doc.text(String(line.expected_quantity ?? ''), cols.expected, y);
+    doc.rect(cols.count, y - 5, 24, 7);
+  });
+
+  doc.setFontSize(8);
+  doc.text('Counted by: ______________________   Date: ____________   Signature: ______________________', margin, pageHeight - margin);
+  return doc;
+};
+
+/** A4 report of the variances found and what posting them is worth at cost. */
+export const stockTakeReportToPdf = (take: StockTake, lines: StockTakeLine[], company: ReceiptCompany) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 14;
+  const lineHeight = 6;
+  const cols = { product: margin, expected: 104, counted: 124, variance: 144, value: 170, decision: pageWidth - margin };
+  const summary = stockTakeSummary(lines);
+
+  let y = pageHeader(doc, take, company, 'STOCK TAKE VARIANCES');
+  const totals: [string, string][] = [
+    ['Products in scope', String(summary.lines)],
+    ['Counted', String(summary.counted)],
+    ['With a variance', String(summary.withVariance)],
+    ['Stock found (at cost)', money(summary.gainValue)],
+    ['Stock missing (at cost)', money(summary.lossValue)],
+    [take.status === 'posted' ? 'Posted adjustment' : 'Approved so far', money(summary.approvedValue)],
+  ];
+  y += 4;
+  totals.forEach(([label, value]) => {
+    y += 5;
+    doc.text(label, margin, y);
+    doc.text(value, margin + 80, y, { align: 'right' });
+  });
+
+  const header = () => {
+    y += lineHeight * 1.5;
+    doc.setFont('helvetica', 'bold');
+    doc.text('Product', cols.product, y);
+    doc.text('Expected', cols.expected, y, { align: 'right' });
+    doc.text('Counted', cols.counted, y, { align: 'right' });
+    doc.text('Variance', cols.variance, y, { align: 'right' });
+    doc.text('Value', cols.value, y, { align: 'right' });
+    doc.text('Decision', cols.decision, y, { align: 'right' });
+    doc.line(margin, y + 1.5, pageWidth - margin, y + 1.5);
+    doc.setFont('helvetica', 'normal');
+  };
+  header();
+
+  sortForCounting(lines)
+    .filter(line => (lineVariance(line) ?? 0) !== 0)
+    .forEach(line => {
+      if (y + lineHeight > pageHeight - margin * 2) {
+        doc.addPage();
+        y = margin;
+        header();
+      }
+      y += lineHeight;
+      const variance = lineVariance(line) ?? 0;
+      doc.text(line.product_name, cols.product, y, { maxWidth: 74 });
+      doc.text(String(line.expected_quantity ?? '-'), cols.expected, y, { align: 'right' });
+      doc.text(String(countedQuantity(line) ?? '-'), cols.counted, y, { align: 'right' });
+      doc.text(variance > 0 ? `+${variance}` : String(variance), cols.variance, y, { align: 'right' });
+      doc.text(money(varianceValue(line)), cols.value, y, { align: 'right' });
+      doc.text(line.decision, cols.decision, y, { align: 'right' });
+    });
+  return doc;
+};
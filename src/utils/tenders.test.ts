@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { salePaymentType, summarizeTenders, toSaleTenders, type TenderInput } from './tenders';
+
+const tender = (method: TenderInput['method'], amount: number, extra: Partial<TenderInput> = {}): TenderInput => ({
+  key: `${method}-${amount}`,
+  method,
+  amount,
+  ...extra,
+});
+
+describe('summarizeTenders', () => {
+  it('gives change only out of the cash portion', () => {
+    const summary = summarizeTenders([tender('Bank', 60), tender('Cash', 50)], 100);
+    expect(summary.remaining).toBe(0);
+    expect(summary.change).toBe(10);
+    expect(summary.nonCashOverpaid).toBe(false);
+  });
+
+  it('reports what is still owed', () => {
+    const summary = summarizeTenders([tender('Cash', 20), tender('Credit', 30.5)], 100);
+    expect(summary.remaining).toBe(49.5);
+    expect(summary.change).toBe(0);
+  });
+
+  it('flags non-cash tenders that exceed the total', () => {
+    const summary = summarizeTenders([tender('Bank', 80), tender('StoreCredit', 30)], 100);
+    expect(summary.nonCashOverpaid).toBe(true);
+    expect(summary.change).toBe(0);
+  });
+
+  it('rounds sums to cents', () => {
+    const summary = summarizeTenders([tender('Cash', 0.1), tender('Cash', 0.2)], 0.3);
+    expect(summary.cashTendered).toBe(0.3);
+    expect(summary.remaining).toBe(0);
+  });
+
+  it('rejects unchecked, repeated and overdrawn vouchers', () => {
+    expect(summarizeTenders([tender('Voucher', 10, { voucherCode: 'ABC' })], 10).voucherError).toMatch(/Check/);
+    expect(
+      summarizeTenders(
+        [
+          tender('Voucher', 5, { voucherCode: 'ABC', voucherBalance: 20 }),
+          tender('Voucher', 5, { voucherCode: 'ABC', voucherBalance: 20, key: 'second' }),
+        ],
+        10
+      ).voucherError
+    ).toMatch(/twice/);
+    expect(
+      summarizeTenders([tender('Voucher', 25, { voucherCode: 'ABC', voucherBalance: 20 })], 30).voucherError
+    ).toMatch(/only has R20.00/);
+    expect(
+      summarizeTenders([tender('Voucher', 20, { voucherCode: 'ABC', voucherBalance: 20 })], 30).voucherError
+    ).toBeNull();
+  });
+});
+
+describe('toSaleTenders', () => {
+  it('records cash net of change and drops empty methods', () => {
+    expect(toSaleTenders([tender('Cash', 200), tender('Bank', 0)], 150)).toEqual([{ method: 'Cash', amount: 150 }]);
+  });
+
+  it('keeps one tender per voucher code', () => {
+    const tenders = toSaleTenders(
+      [
+        tender('Voucher', 30, { voucherCode: 'AAA', voucherBalance: 30 }),
+        tender('Voucher', 20, { voucherCode: 'BBB', voucherBalance: 50 }),
+        tender('Bank', 50),
+      ],
+      100
+    );
+    expect(tenders).toEqual([
+      { method: 'Bank', amount: 50 },
+      { method: 'Voucher', amount: 30, voucherCode: 'AAA' },
+      { method: 'Voucher', amount: 20, voucherCode: 'BBB' },
+    ]);
+    expect(salePaymentType(tenders)).toBe('Split');
+  });
+});
+
+describe('salePaymentType', () => {
+  it('uses the single method, or Cash for a zero sale', () => {
+    expect(salePaymentType([{ method: 'Bank', amount: 10 }])).toBe('Bank');
+    expect(salePaymentType([])).toBe('Cash');
+  });
+});
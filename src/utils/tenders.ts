@@ -0,0 +1,109 @@
+import type { SalePaymentType, SaleTender, TenderMethod } from '../types/pos';
+import { round2 } from './money';
+
+// A tender row as entered at checkout. For cash this is the amount handed over,
+// which may exceed what is owed; every other method can never exceed the balance.
+export interface TenderInput {
+  key: string;
+  method: TenderMethod;
+  amount: number;
+  /** Voucher rows: the code, and its balance once it has been looked up. */
+  voucherCode?: string;
+  voucherBalance?: number;
+}
+
+export interface TenderSummary {
+  cashTendered: number;
+  bankAmount: number;
+  creditAmount: number;
+  voucherAmount: number;
+  storeCreditAmount: number;
+  /** Rand value of the loyalty points tendered. */
+  pointsAmount: number;
+  /** Amount still owed after all tenders. 0 once the sale is covered. */
+  remaining: number;
+  /** Change due, only ever paid out of the cash portion. */
+  change: number;
+  /** True when the non-cash tenders on their own exceed the sale total. */
+  nonCashOverpaid: boolean;
+  /** Voucher rows that are unchecked, repeated or over their balance. */
+  voucherError: string | null;
+}
+
+export const newTender = (method: TenderMethod = 'Cash', amount = 0): TenderInput => ({
+  key: `${method}-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+  method,
+  amount,
+});
+
+const voucherError = (tenders: TenderInput[]) => {
+  const vouchers = tenders.filter(t => t.method === 'Voucher' && (t.amount || 0) > 0);
+  const unchecked = vouchers.find(t => !t.voucherCode || t.voucherBalance === undefined);
+  if (unchecked) return 'Check each voucher code before taking payment.';
+  const codes = vouchers.map(t => t.voucherCode);
+  if (new Set(codes).size !== codes.length) return 'The same voucher is entered twice.';
+  const over = vouchers.find(t => (t.amount || 0) > (t.voucherBalance ?? 0) + 0.005);
+  if (over) return `Voucher ${over.voucherCode} only has R${(over.voucherBalance ?? 0).toFixed(2)} left.`;
+  return null;
+};
+
+export const summarizeTenders = (tenders: TenderInput[], total: number): TenderSummary => {
+  const sumOf = (method: TenderMethod) =>
+    round2(tenders.filter(t => t.method === method).reduce((sum, t) => sum + (t.amount || 0), 0));
+
+  const cashTendered = sumOf('Cash');
+  const bankAmount = sumOf('Bank');
+  const creditAmount = sumOf('Credit');
+  const voucherAmount = sumOf('Voucher');
+  const storeCreditAmount = sumOf('StoreCredit');
+  const pointsAmount = sumOf('Points');
+  const nonCash = round2(bankAmount + creditAmount + voucherAmount + storeCreditAmount + pointsAmount);
+  const owedInCash = Math.max(0, round2(total - nonCash));
+
+  return {
+    cashTendered,
+    bankAmount,
+    creditAmount,
+    voucherAmount,
+    storeCreditAmount,
+    pointsAmount,
+    remaining: Math.max(0, round2(owedInCash - cashTendered)),
+    change: Math.max(0, round2(cashTendered - owedInCash)),
+    nonCashOverpaid: nonCash > round2(total),
+    voucherError: voucherError(tenders),
+  };
+};
+
+/**
+ * Collapses the checkout rows into one settled amount per method for the sale
+ * payload. Vouchers stay one tender per code so each balance can be drawn down.
+ */
+export const toSaleTenders = (tenders: TenderInput[], total: number): SaleTender[] => {
+  const summary = summarizeTenders(tenders, total);
+  const settled: SaleTender[] = [
+    { method: 'Cash', amount: round2(summary.cashTendered - summary.change) },
+    { method: 'Bank', amount: summary.bankAmount },
+    { method: 'Credit', amount: summary.creditAmount },
+    { method: 'StoreCredit', amount: summary.storeCreditAmount },
+    { method: 'Points', amount: summary.pointsAmount },
+    ...tenders
+      .filter(t => t.method === 'Voucher')
+      .map(t => ({ method: 'Voucher' as const, amount: round2(t.amount || 0), voucherCode: t.voucherCode })),
+  ];
+  return settled.filter(t => t.amount > 0);
+};
+
+export const salePaymentType = (tenders: SaleTender[]): SalePaymentType =>
+  tenders.length === 1 ? tenders[0].method : tenders.length === 0 ? 'Cash' : 'Split';
+
+const TENDER_LABELS: Partial<Record<TenderMethod, string>> = {
+  Credit: 'On account',
+  StoreCredit: 'Store credit',
+  Points: 'Loyalty points',
+};
+
+/** How a tender is named on receipts and screens. */
+export const tenderLabel = (tender: Pick<SaleTender, 'method' | 'voucherCode'>) =>
+  tender.method === 'Voucher'
+    ? `Voucher ${tender.voucherCode ?? ''}`.trim()
+    : TENDER_LABELS[tender.method] ?? tender.method;
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { TellerDayRow } from '../types/pos';
+import { needsAttention, tellerVarianceStats, varianceOutcome } from './varianceAnalytics';
+
+const settings = { tolerance: 10, missedDaysAlert: 2 };
+
+const day = (date: string, variance: number | null): TellerDayRow => ({
+  tellerId: 't1',
+  tellerName: 'Teller',
+  branch: 'Main',
+  day: date,
+  variance,
+});
+
+const statsFor = (rows: TellerDayRow[]) => tellerVarianceStats(rows, settings.tolerance)[0];
+
+describe('varianceOutcome', () => {
+  it('treats variances within tolerance as balanced', () => {
+    expect(varianceOutcome(-10, 10)).toBe('balanced');
+    expect(varianceOutcome(-10.01, 10)).toBe('short');
+    expect(varianceOutcome(10.01, 10)).toBe('over');
+  });
+});
+
+describe('tellerVarianceStats', () => {
+  it('counts shortages, overages and the current short streak', () => {
+    const stats = statsFor([day('2025-03-01', -50), day('2025-03-02', 30), day('2025-03-03', -20), day('2025-03-04', -15)]);
+    expect(stats).toMatchObject({
+      days: 4,
+      shortDays: 3,
+      overDays: 1,
+      shortageTotal: -85,
+      overageTotal: 30,
+      netVariance: -55,
+      currentShortStreak: 2,
+      longestShortStreak: 2,
+      lastVariance: -15,
+    });
+  });
+
+  it('counts missed days since the last reconciliation', () => {
+    const stats = statsFor([day('2025-03-01', null), day('2025-03-02', 0), day('2025-03-03', null), day('2025-03-04', null)]);
+    expect(stats).toMatchObject({ missedDays: 3, currentMissedStreak: 2 });
+  });
+});
+
+describe('needsAttention', () => {
+  it('flags a last cash-up that was short beyond tolerance', () => {
+    expect(needsAttention(statsFor([day('2025-03-01', -40)]), settings)).toBe(true);
+  });
+
+  it('flags a last cash-up that was over beyond tolerance', () => {
+    expect(needsAttention(statsFor([day('2025-03-01', -40), day('2025-03-02', 250)]), settings)).toBe(true);
+  });
+
+  it('leaves a balanced last cash-up alone', () => {
+    expect(needsAttention(statsFor([day('2025-03-01', -40), day('2025-03-02', 5)]), settings)).toBe(false);
+  });
+
+  it('flags skipped cash-ups', () => {
+    expect(needsAttention(statsFor([day('2025-03-01', 0), day('2025-03-02', null), day('2025-03-03', null)]), settings)).toBe(
+      true
+    );
+  });
+});
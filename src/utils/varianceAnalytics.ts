@@ -0,0 +1,127 @@
+import type { TellerDayRow, TellerVarianceStats, VarianceSettings } from '../types/pos';
+import { round2 } from './money';
+
+/** Used until the company's settings have loaded, or when none are saved yet. */
+export const DEFAULT_VARIANCE_SETTINGS: VarianceSettings = { tolerance: 10, missedDaysAlert: 2 };
+
+export type VarianceOutcome = 'short' | 'over' | 'balanced';
+
+export const varianceOutcome = (variance: number, tolerance: number): VarianceOutcome =>
+  variance < -tolerance ? 'short' : variance > tolerance ? 'over' : 'balanced';
+
+/** Day by day variance with the running net, oldest first. */
+export const runningVariance = (rows: TellerDayRow[]) => {
+  let running = 0;
+  return rows
+    .filter(r => r.variance !== null)
+    .sort((a, b) => a.day.localeCompare(b.day))
+    .map(r => {
+      running = round2(running + (r.variance ?? 0));
+      return { day: r.day, variance: r.variance ?? 0, running };
+    });
+};
+
+const tellerStats = (rows: TellerDayRow[], tolerance: number): TellerVarianceStats => {
+  const sorted = [...rows].sort((a, b) => a.day.localeCompare(b.day));
+  const reconciled = sorted.filter(r => r.variance !== null);
+  const missed = sorted.filter(r => r.variance === null);
+
+  let shortDays = 0;
+  let overDays = 0;
+  let shortageTotal = 0;
+  let overageTotal = 0;
+  let streak = 0;
+  let longestShortStreak = 0;
+  for (const row of reconciled) {
+    const variance = row.variance ?? 0;
+    if (variance < 0) shortageTotal += variance;
+    else overageTotal += variance;
+
+    const outcome = varianceOutcome(variance, tolerance);
+    if (outcome === 'short') {
+      shortDays += 1;
+      streak += 1;
+      longestShortStreak = Math.max(longestShortStreak, streak);
+    } else {
+      if (outcome === 'over') overDays += 1;
+      streak = 0;
+    }
+  }
+
+  const lastReconciled = reconciled[reconciled.length - 1]?.day ?? '';
+  const { tellerId, tellerName, branch } = sorted[0];
+  return {
+    tellerId,
+    tellerName,
+    branch,
+    days: reconciled.length,
+    shortDays,
+    overDays,
+    shortageTotal: round2(shortageTotal),
+    overageTotal: round2(overageTotal),
+    netVariance: round2(shortageTotal + overageTotal),
+    shortFrequency: reconciled.length ? shortDays / reconciled.length : 0,
+    currentShortStreak: streak,
+    longestShortStreak,
+    lastVariance: reconciled[reconciled.length - 1]?.variance ?? null,
+    missedDays: missed.length,
+    currentMissedStreak: missed.filter(r => r.day > lastReconciled).length,
+  };
+};
+
+/** Per-teller variance patterns, worst net shortage first. */
+export const tellerVarianceStats = (rows: TellerDayRow[], tolerance: number) => {
+  const byTeller = new Map<string, TellerDayRow[]>();
+  rows.forEach(r => byTeller.set(r.tellerId, [...(byTeller.get(r.tellerId) ?? []), r]));
+  return [...byTeller.values()]
+    .map(tellerRows => tellerStats(tellerRows, tolerance))
+    .sort((a, b) => a.netVariance - b.netVariance);
+};
+
+export interface BranchVarianceStats {
+  branch: string;
+  tellers: number;
+  days: number;
+  shortDays: number;
+  shortageTotal: number;
+  overageTotal: number;
+  netVariance: number;
+  missedDays: number;
+}
+
+export const branchVarianceStats = (stats: TellerVarianceStats[]): BranchVarianceStats[] => {
+  const byBranch = new Map<string, BranchVarianceStats>();
+  for (const s of stats) {
+    const branch = s.branch || 'Unassigned';
+    const acc = byBranch.get(branch) ?? {
+      branch,
+      tellers: 0,
+      days: 0,
+      shortDays: 0,
+      shortageTotal: 0,
+      overageTotal: 0,
+      netVariance: 0,
+      missedDays: 0,
+    };
+    byBranch.set(branch, {
+      branch,
+      tellers: acc.tellers + 1,
+      days: acc.days + s.days,
+      shortDays: acc.shortDays + s.shortDays,
+      shortageTotal: round2(acc.shortageTotal + s.shortageTotal),
+      overageTotal: round2(acc.overageTotal + s.overageTotal),
+      netVariance: round2(acc.netVariance + s.netVariance),
+      missedDays: acc.missedDays + s.missedDays,
+    });
+  }
+  return [...byBranch.values()].sort((a, b) => a.netVariance - b.netVariance);
+};
+
+/**
+ * True when a teller needs a manager's attention under the current settings:
+ * the last cash-up was out by more than the tolerance either way (a large
+ * overage usually means a receiving or counting error), or cash-ups are being skipped.
+ */
+export const needsAttention = (stats: TellerVarianceStats, settings: VarianceSettings) =>
+  (stats.lastVariance !== null && Math.abs(stats.lastVariance) > settings.tolerance) ||
+  stats.currentMissedStreak >= settings.missedDaysAlert;
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { rollupIds, uniqueSku, variantMatrix, variantSku } from './variants';
+
+const size = { name: 'Size', values: ['S', 'M', 'L', 'XL'] };
+const colour = { name: 'Colour', values: ['Red', 'Navy Blue', 'Navy Black'] };
+
+describe('variantMatrix', () => {
+  it('builds every combination of the attribute values', () => {
+    const combos = variantMatrix([size, colour]);
+    expect(combos).toHaveLength(12);
+    expect(combos[0]).toEqual({ Size: 'S', Colour: 'Red' });
+    expect(combos[11]).toEqual({ Size: 'XL', Colour: 'Navy Black' });
+  });
+
+  it('gives nothing without attributes or values', () => {
+    expect(variantMatrix([])).toEqual([]);
+    expect(variantMatrix([{ name: 'Size', values: [] }])).toEqual([]);
+  });
+});
+
+describe('variantSku', () => {
+  it('joins the parent SKU with the first four characters of each option', () => {
+    expect(variantSku('T-Shirt', { Size: 'M', Colour: 'Red' }, [size, colour])).toBe('TSHIRT-M-RED');
+    expect(variantSku('', { Size: 'XL', Colour: 'Navy Blue' }, [size, colour])).toBe('ITEM-XL-NAVY');
+  });
+
+  it('keeps parents that only differ late in their SKU apart', () => {
+    expect(variantSku('TS-001', { Size: 'M' }, [size])).not.toBe(variantSku('TS-002', { Size: 'M' }, [size]));
+  });
+});
+
+describe('uniqueSku', () => {
+  it('numbers options that clash once cut to four characters', () => {
+    const taken = [variantSku('TS-001', { Size: 'M', Colour: 'Navy Blue' }, [size, colour])];
+    const clash = variantSku('TS-001', { Size: 'M', Colour: 'Navy Black' }, [size, colour]);
+    expect(clash).toBe(taken[0]);
+    expect(uniqueSku(clash, taken)).toBe('TS001-M-NAVY-2');
+    expect(uniqueSku(clash, [...taken, 'ts001-m-navy-2'])).toBe('TS001-M-NAVY-3');
+    expect(uniqueSku('TS001-S-RED', taken)).toBe('TS001-S-RED');
+  });
+});
+
+describe('rollupIds', () => {
+  it('maps variants to their parent and anything else to itself', () => {
+    const rollup = rollupIds([{ id: 1 }, { id: 2, parentId: '1' }, { id: 3, parentId: null }]);
+    expect([rollup(1), rollup('2'), rollup(3), rollup(99)]).toEqual(['1', '1', '3', '99']);
+  });
+});
@@ -0,0 +1,71 @@
+import type { ProductDB, VariantAttribute, VariantOptions } from '../types/pos';
+
+/** Every combination of the attribute values, in attribute order: 4 sizes x 3 colours gives 12. */
+export const variantMatrix = (attributes: VariantAttribute[]): VariantOptions[] =>
+  attributes
+    .filter(a => a.name.trim() && a.values.length > 0)
+    .reduce<VariantOptions[]>(
+      (combos, attribute) => combos.flatMap(combo => attribute.values.map(value => ({ ...combo, [attribute.name]: value }))),
+      [{}]
+    )
+    .filter(combo => Object.keys(combo).length > 0);
+
+/** "M / Red", following the parent's attribute order when it is known. */
+export const variantLabel = (options: VariantOptions | null | undefined, attributes?: VariantAttribute[] | null) => {
+  if (!options) return '';
+  const names = attributes?.length ? attributes.map(a => a.name) : Object.keys(options);
+  return names
+    .map(name => options[name])
+    .filter(Boolean)
+    .join(' / ');
+};
+
+export const variantName = (parentName: string, options: VariantOptions, attributes: VariantAttribute[]) =>
+  `${parentName} - ${variantLabel(options, attributes)}`;
+
+const skuPart = (value: string, length: number) =>
+  value
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '')
+    .slice(0, length);
+
+/**
+ * TSHIRT-M-RED from the parent SKU (or name) and the option values. The base
+ * is kept up to 12 characters so parents like TS-001 and TS-002 stay apart;
+ * each option is cut to 4.
+ */
+export const variantSku = (base: string, options: VariantOptions, attributes: VariantAttribute[]) =>
+  [skuPart(base, 12) || 'ITEM', ...attributes.map(a => skuPart(options[a.name] ?? '', 4))]
+    .filter(Boolean)
+    .join('-');
+
+/** Options cut to 4 characters can clash (NAVY for Navy Blue and Navy Black): adds -2, -3... until unused. */
+export const uniqueSku = (sku: string, taken: string[]) => {
+  const used = new Set(taken.map(t => t.trim().toLowerCase()));
+  let candidate = sku;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${sku}-${n}`;
+  return candidate;
+};
+
+export const sameOptions = (a: VariantOptions | null | undefined, b: VariantOptions | null | undefined) => {
+  if (!a || !b) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(k => a[k] === b[k]);
+};
+
+export const isVariantParent = (p: { variant_attributes?: VariantAttribute[] | null }) =>
+  (p.variant_attributes?.length ?? 0) > 0;
+
+export const variantsOf = (parentId: number, products: ProductDB[]) =>
+  products.filter(p => p.parent_id === parentId);
+
+/**
+ * Maps a product id to the id it is reported under: variants roll up to their
+ * parent so a T-shirt's sales are one line, not one per size and colour.
+ */
+export const rollupIds = (products: { id: string | number; parentId?: string | null }[]) => {
+  const ids = new Map<string, string>();
+  products.forEach(p => ids.set(String(p.id), p.parentId ? String(p.parentId) : String(p.id)));
+  return (productId: string | number) => ids.get(String(productId)) ?? String(productId);
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { CustomerBackend, Voucher } from '../types/pos';
+import { generateVoucherCode, liabilitySummary, normalizeVoucherCode, voucherExpiry, voucherProblem, voucherStatus } from './vouchers';
+
+const voucher = (overrides: Partial<Voucher> = {}): Voucher => ({
+  id: 1,
+  code: 'K7QX-3MPA-W9RD',
+  initial_value: 200,
+  balance: 200,
+  status: 'active',
+  recipient: null,
+  issued_at: '2025-01-10T09:00:00Z',
+  expires_at: '2026-01-10',
+  sale_id: 1,
+  issued_by: null,
+  ...overrides,
+});
+
+const customer = (id: number, credit: number): CustomerBackend => ({
+  id,
+  name: `Customer ${id}`,
+  email: '',
+  total_invoiced: 0,
+  balance_due: 0,
+  unallocated_credit: credit,
+});
+
+// Mid-morning local time
+const today = new Date(2025, 2, 12, 10, 0);
+
+describe('voucher codes', () => {
+  it('generates codes in three groups without look-alike characters', () => {
+    for (let i = 0; i < 50; i++) {
+      expect(generateVoucherCode()).toMatch(/^[A-HJKMNPQR-Z2346-9]{4}-[A-HJKMNPQR-Z2346-9]{4}-[A-HJKMNPQR-Z2346-9]{4}$/);
+    }
+  });
+
+  it('tidies typed and scanned codes', () => {
+    expect(normalizeVoucherCode(' k7qx 3mpa w9rd ')).toBe('K7QX-3MPA-W9RD');
+    expect(normalizeVoucherCode('k7qx-3mp')).toBe('K7QX3MP');
+  });
+});
+
+describe('voucherExpiry', () => {
+  it('stays on the issue day, clamped to the end of shorter months', () => {
+    expect(voucherExpiry(12, new Date(2025, 2, 12))).toBe('2026-03-12');
+    expect(voucherExpiry(1, new Date(2025, 0, 31))).toBe('2025-02-28');
+    expect(voucherExpiry(12, new Date(2024, 1, 29))).toBe('2025-02-28');
+  });
+
+  it('does not expire when no validity is set', () => {
+    expect(voucherExpiry(0)).toBeNull();
+  });
+});
+
+describe('voucherStatus', () => {
+  it('is still good on its expiry date and expired the day after', () => {
+    expect(voucherStatus(voucher({ expires_at: '2025-03-12' }), today)).toBe('active');
+    expect(voucherStatus(voucher({ expires_at: '2025-03-11' }), today)).toBe('expired');
+    expect(voucherProblem(voucher({ expires_at: '2025-03-11' }), today)).toMatch(/expired on 2025-03-11/);
+  });
+
+  it('treats a spent voucher as used up', () => {
+    expect(voucherProblem(voucher({ balance: 0 }), today)).toMatch(/used up/);
+  });
+});
+
+describe('liabilitySummary', () => {
+  it('adds unspent vouchers by expiry horizon and store credit on accounts', () => {
+    const summary = liabilitySummary(
+      [
+        voucher({ balance: 50.5, expires_at: '2025-03-12' }),
+        voucher({ balance: 100, expires_at: '2025-06-10' }),
+        voucher({ balance: 75, expires_at: '2026-03-12' }),
+        voucher({ balance: 20, expires_at: null }),
+        voucher({ balance: 30, expires_at: '2025-03-11' }),
+        voucher({ balance: 40, status: 'void' }),
+        voucher({ balance: 0, status: 'redeemed' }),
+      ],
+      [customer(1, 120.25), customer(2, 0)],
+      today
+    );
+    expect(summary.byHorizon).toEqual({
+      d90: { count: 2, balance: 150.5 },
+      y1: { count: 1, balance: 75 },
+      later: { count: 0, balance: 0 },
+      none: { count: 1, balance: 20 },
+      expired: { count: 1, balance: 30 },
+    });
+    expect(summary).toMatchObject({
+      asOf: '2025-03-12',
+      voucherCount: 5,
+      voucherBalance: 275.5,
+      storeCreditCount: 1,
+      storeCreditBalance: 120.25,
+      total: 395.75,
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import jsPDF from 'jspdf';
+import type { CustomerBackend, Voucher, VoucherIssue, VoucherStatus } from '../types/pos';
+import type { ReceiptCompany } from '../types/receipt';
+import { addMonths, daysBetween, isoDate } from './dates';
+import { money, round2 } from './money';
+
+// No 0/O, 1/I/L or 5/S so codes can be read out over the phone and typed back
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRTUVWXYZ2346789';
+
+/** Random voucher code like "K7QX-3MPA-W9RD". The server rejects the rare duplicate. */
+export const generateVoucherCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(12));
+  const chars = Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  return `${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+};
+
+/** Tidies a typed or scanned code: case, spaces and missing dashes. */
+export const normalizeVoucherCode = (input: string) => {
+  const chars = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return chars.length === 12 ? `${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}` : chars;
+};
+
+/** Expiry date for a voucher issued today, or null when vouchers do not expire. */
+export const voucherExpiry = (months: number, from = new Date()) => (months > 0 ? isoDate(addMonths(from, months)) : null);
+
+/** Status as of `today`; an active voucher past its expiry date counts as expired before the server catches up. */
+export const voucherStatus = (voucher: Voucher, today = new Date()): VoucherStatus =>
+  voucher.status === 'active' && voucher.expires_at && voucher.expires_at.slice(0, 10) < isoDate(today)
+    ? 'expired'
+    : voucher.status;
+
+/** Why a voucher cannot be redeemed, or null when it can. */
+export const voucherProblem = (voucher: Voucher, today = new Date()) => {
+  const status = voucherStatus(voucher, today);
+  if (status === 'void') return `Voucher ${voucher.code} has been cancelled.`;
+  if (status === 'expired') return `Voucher ${voucher.code} expired on ${voucher.expires_at?.slice(0, 10)}.`;
+  if (status === 'redeemed' || Number(voucher.balance) <= 0) return `Voucher ${voucher.code} has been used up.`;
+  return null;
+};
+
+/** The voucher as the server will issue it, so the till can print it straight away. */
+export const voucherFromIssue = (issue: VoucherIssue, value: number, saleId: number | null, issuedBy: string | null): Voucher => ({
+  id: 0,
+  code: issue.code,
+  initial_value: value,
+  balance: value,
+  status: 'active',
+  recipient: issue.recipient ?? null,
+  issued_at: new Date().toISOString(),
+  expires_at: issue.expiresAt,
+  sale_id: saleId,
+  issued_by: issuedBy,
+});
+
+/** A6 voucher card. `qrDataUrl` is a PNG of the on-screen QR code holding the voucher code. */
+export const voucherToPdf = (voucher: Voucher, company: ReceiptCompany, qrDataUrl?: string) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a6', orientation: 'landscape' });
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const margin = 8;
+
+  doc.setLineWidth(0.6);
+  doc.rect(margin / 2, margin / 2, width - margin, height - margin);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(company.name, margin + 2, margin + 8);
+  doc.setFontSize(11);
+  doc.text('GIFT VOUCHER', width - margin - 2, margin + 8, { align: 'right' });
+
+  doc.setFontSize(28);
+  doc.text(money(Number(voucher.initial_value) || 0), margin + 2, margin + 30);
+  doc.setFont('courier', 'bold');
+  doc.setFontSize(15);
+  doc.text(voucher.code, margin + 2, margin + 42);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  let y = margin + 52;
+  if (voucher.recipient) {
+    doc.text(`For: ${voucher.recipient}`, margin + 2, y);
+    y += 5;
+  }
+  doc.text(`Issued ${voucher.issued_at.slice(0, 10)}`, margin + 2, y);
+  y += 5;
+  doc.text(voucher.expires_at ? `Valid until ${voucher.expires_at.slice(0, 10)}` : 'No expiry date', margin + 2, y);
+  doc.setFontSize(7);
+  doc.text('Present this voucher at the till. Can be used in part; not exchangeable for cash.', margin + 2, height - margin - 2);
+
+  if (qrDataUrl) {
+    const size = 38;
+    doc.addImage(qrDataUrl, 'PNG', width - margin - size - 2, margin + 16, size, size);
+  }
+  return doc;
+};
+
+// --- Liability report ---
+
+export type LiabilityHorizon = 'none' | 'expired' | 'd90' | 'y1' | 'later';
+
+export const LIABILITY_HORIZONS: { key: LiabilityHorizon; label: string }[] = [
+  { key: 'd90', label: 'Expires within 90 days' },
+  { key: 'y1', label: 'Expires within a year' },
+  { key: 'later', label: 'Expires after a year' },
+  { key: 'none', label: 'No expiry' },
+  { key: 'expired', label: 'Expired, not yet written off' },
+];
+
+const liabilityHorizon = (voucher: Voucher, today: Date): LiabilityHorizon => {
+  if (!voucher.expires_at) return 'none';
+  // By calendar date, as voucherStatus does: a voucher is still good on its expiry date
+  const days = daysBetween(isoDate(today), voucher.expires_at);
+  if (days < 0) return 'expired';
+  if (days <= 90) return 'd90';
+  if (days <= 365) return 'y1';
+  return 'later';
+};
+
+export interface LiabilitySummary {
+  asOf: string;
+  voucherCount: number;
+  voucherBalance: number;
+  byHorizon: Record<LiabilityHorizon, { count: number; balance: number }>;
+  storeCreditCount: number;
+  storeCreditBalance: number;
+  total: number;
+}
+
+/**
+ * Outstanding value owed to customers as at `today`: unspent voucher balances
+ * plus store credit held on accounts. This is the liability carried on the
+ * balance sheet until it is redeemed or written off.
+ */
+export const liabilitySummary = (vouchers: Voucher[], customers: CustomerBackend[], today = new Date()): LiabilitySummary => {
+  const byHorizon = Object.fromEntries(LIABILITY_HORIZONS.map(h => [h.key, { count: 0, balance: 0 }])) as LiabilitySummary['byHorizon'];
+  let voucherCount = 0;
+  let voucherBalance = 0;
+  for (const voucher of vouchers) {
+    const balance = Number(voucher.balance) || 0;
+    if (voucher.status === 'void' || voucher.status === 'redeemed' || balance <= 0) continue;
+    const bucket = byHorizon[liabilityHorizon(voucher, today)];
+    bucket.count += 1;
+    bucket.balance = round2(bucket.balance + balance);
+    voucherCount += 1;
+    voucherBalance = round2(voucherBalance + balance);
+  }
+  const holders = customers.filter(c => (Number(c.unallocated_credit) || 0) > 0);
+  const storeCreditBalance = round2(holders.reduce((sum, c) => sum + (Number(c.unallocated_credit) || 0), 0));
+  return {
+    asOf: isoDate(today),
+    voucherCount,
+    voucherBalance,
+    byHorizon,
+    storeCreditCount: holders.length,
+    storeCreditBalance,
+    total: round2(voucherBalance + storeCreditBalance),
+  };
+};
+
+export const liabilityToPdf = (summary: LiabilitySummary, company: ReceiptCompany) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 14;
+  let y = margin + 4;
+  const row = (label: string, value: string, bold = false) => {
+    y += 7;
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.text(label, margin, y);
+    doc.text(value, pageWidth - margin, y, { align: 'right' });
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(company.name, margin, y);
+  doc.text('VOUCHER & STORE CREDIT LIABILITY', pageWidth - margin, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  y += 6;
+  doc.text(`As at ${summary.asOf}`, margin, y);
+
+  y += 4;
+  row(`Gift vouchers (${summary.voucherCount})`, money(summary.voucherBalance), true);
+  LIABILITY_HORIZONS.forEach(h => {
+    const bucket = summary.byHorizon[h.key];
+    if (bucket.count > 0) row(`    ${h.label} (${bucket.count})`, money(bucket.balance));
+  });
+  row(`Store credit on customer accounts (${summary.storeCreditCount})`, money(summary.storeCreditBalance), true);
+  doc.line(margin, y + 2.5, pageWidth - margin, y + 2.5);
+  y += 2;
+  row('Total liability', money(summary.total), true);
+  return doc;
+};
@@ -1 +1,19 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_REPORTS_API_URL?: string;
+  readonly VITE_RAIRO_STMT_API_URL?: string;
+  readonly VITE_RAIRO_POS_IMAGE_API_URL?: string;
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string;
+  readonly VITE_PRINT_BRIDGE_URL?: string;
+  readonly VITE_PRICE_OVERRIDE_APPROVAL_PERCENT?: string;
+  readonly VITE_PARKED_CART_TTL_MINUTES?: string;
+  readonly VITE_CASH_CURRENCY?: string;
+  readonly VITE_DUNNING_DELIVERY?: string;
+  readonly VITE_VOUCHER_VALIDITY_MONTHS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}